@@ -6,23 +6,66 @@
  * Dynamically renders ALL feature flags from the database as toggle rows.
  * Adding a new flag to the DB (via seed or upsert) makes it appear here
  * automatically — no UI code changes required.
+ *
+ * Each flag can also be narrowed while it is on: a percentage rollout (stable
+ * per user or team), targeting rules (first match wins) and an active window.
+ * The explain panel shows how every flag resolves for a given user and team.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Settings, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
-import { Button, Toggle } from '@naap/ui';
+import {
+  Settings,
+  Loader2,
+  CheckCircle2,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Trash2,
+  Search,
+} from 'lucide-react';
+import { Button, Input, Select, Toggle } from '@naap/ui';
 import { useAuth } from '@/contexts/auth-context';
 import { AdminNav } from '@/components/admin/AdminNav';
 import { invalidateFeatureFlags } from '@/hooks/use-feature-flags';
 
+type RuleAttribute = 'role' | 'teamPlan' | 'emailDomain' | 'userId' | 'teamId';
+
+interface FlagRule {
+  attribute: RuleAttribute;
+  operator: 'in' | 'not_in';
+  values: string[];
+  enabled: boolean;
+}
+
 interface FeatureFlag {
   id: string;
   key: string;
   enabled: boolean;
   description: string | null;
+  rolloutPercentage: number | null;
+  rolloutBy: 'user' | 'team';
+  rules: FlagRule[] | null;
+  enableAt: string | null;
+  disableAt: string | null;
+}
+
+interface FlagEvaluation {
+  key: string;
+  enabled: boolean;
+  reason: string;
+  explanation: string;
 }
 
+const RULE_ATTRIBUTES: Array<{ value: RuleAttribute; label: string; placeholder: string }> = [
+  { value: 'role', label: 'User role', placeholder: 'system:admin, beta:tester' },
+  { value: 'teamPlan', label: 'Team plan', placeholder: 'pro, enterprise' },
+  { value: 'emailDomain', label: 'Email domain', placeholder: 'livepeer.org' },
+  { value: 'userId', label: 'User ID', placeholder: 'user id, …' },
+  { value: 'teamId', label: 'Team ID', placeholder: 'team id, …' },
+];
+
 function humanizeKey(key: string): string {
   return key
     .replace(/^enable/, '')
@@ -30,12 +73,229 @@ function humanizeKey(key: string): string {
     .trim();
 }
 
+/** The editable part of a flag, compared to detect unsaved changes. */
+function editable(f: FeatureFlag) {
+  return JSON.stringify([f.enabled, f.rolloutPercentage, f.rolloutBy, f.rules ?? [], f.enableAt, f.disableAt]);
+}
+
+/** ISO → value for a datetime-local input (local time, minutes). */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function targetingSummary(flag: FeatureFlag): string | null {
+  const parts: string[] = [];
+  if (flag.rolloutPercentage !== null && flag.rolloutPercentage < 100) {
+    parts.push(`${flag.rolloutPercentage}% of ${flag.rolloutBy}s`);
+  }
+  const rules = flag.rules?.length ?? 0;
+  if (rules > 0) parts.push(`${rules} rule${rules > 1 ? 's' : ''}`);
+  if (flag.enableAt) parts.push(`from ${new Date(flag.enableAt).toLocaleString()}`);
+  if (flag.disableAt) parts.push(`until ${new Date(flag.disableAt).toLocaleString()}`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function TargetingEditor({
+  flag,
+  onChange,
+}: {
+  flag: FeatureFlag;
+  onChange: (patch: Partial<FeatureFlag>) => void;
+}) {
+  const rules = flag.rules ?? [];
+  const setRule = (index: number, patch: Partial<FlagRule>) =>
+    onChange({ rules: rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block">
+          <span className="text-[12px] text-muted-foreground">Rollout %</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Everyone"
+            value={flag.rolloutPercentage ?? ''}
+            onChange={(e) =>
+              onChange({ rolloutPercentage: e.target.value === '' ? null : Number(e.target.value) })
+            }
+          />
+        </label>
+        <label className="block">
+          <span className="text-[12px] text-muted-foreground">Bucket by</span>
+          <Select
+            value={flag.rolloutBy}
+            onChange={(e) => onChange({ rolloutBy: e.target.value as FeatureFlag['rolloutBy'] })}
+          >
+            <option value="user">User</option>
+            <option value="team">Team</option>
+          </Select>
+        </label>
+        <div />
+        <label className="block">
+          <span className="text-[12px] text-muted-foreground">On from</span>
+          <Input
+            type="datetime-local"
+            value={toLocalInput(flag.enableAt)}
+            onChange={(e) => onChange({ enableAt: fromLocalInput(e.target.value) })}
+          />
+        </label>
+        <label className="block">
+          <span className="text-[12px] text-muted-foreground">Off from</span>
+          <Input
+            type="datetime-local"
+            value={toLocalInput(flag.disableAt)}
+            onChange={(e) => onChange({ disableAt: fromLocalInput(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div>
+        <p className="text-[12px] text-muted-foreground mb-2">
+          Rules — checked in order; the first match decides, otherwise the rollout applies.
+        </p>
+        <div className="space-y-2">
+          {rules.map((rule, i) => (
+            <div key={i} className="grid grid-cols-[1fr_auto_2fr_auto_auto] gap-2 items-center">
+              <Select
+                value={rule.attribute}
+                onChange={(e) => setRule(i, { attribute: e.target.value as RuleAttribute })}
+              >
+                {RULE_ATTRIBUTES.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                value={rule.operator}
+                onChange={(e) => setRule(i, { operator: e.target.value as FlagRule['operator'] })}
+              >
+                <option value="in">is one of</option>
+                <option value="not_in">is not one of</option>
+              </Select>
+              <Input
+                placeholder={RULE_ATTRIBUTES.find((a) => a.value === rule.attribute)?.placeholder}
+                value={rule.values.join(', ')}
+                onChange={(e) => setRule(i, { values: e.target.value.split(',').map((v) => v.trimStart()) })}
+              />
+              <Select
+                value={rule.enabled ? 'on' : 'off'}
+                onChange={(e) => setRule(i, { enabled: e.target.value === 'on' })}
+              >
+                <option value="on">→ on</option>
+                <option value="off">→ off</option>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove rule"
+                onClick={() => onChange({ rules: rules.filter((_, j) => j !== i) })}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2"
+          onClick={() =>
+            onChange({ rules: [...rules, { attribute: 'role', operator: 'in', values: [], enabled: true }] })
+          }
+        >
+          <Plus size={14} className="mr-1" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ExplainPanel() {
+  const [user, setUser] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<FlagEvaluation[] | null>(null);
+
+  async function explain() {
+    const who = user.trim();
+    if (!who) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams(who.includes('@') ? { email: who } : { userId: who });
+      if (teamId.trim()) params.set('teamId', teamId.trim());
+      const res = await fetch(`/api/v1/admin/feature-flags/explain?${params}`, { credentials: 'include' });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error?.message || 'Failed to explain flags');
+      setResults(data.data.flags);
+    } catch (err) {
+      setResults(null);
+      setError(err instanceof Error ? err.message : 'Failed to explain flags');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-sm font-semibold mb-1">Explain</h2>
+      <p className="text-[13px] text-muted-foreground mb-3">
+        How each saved flag resolves for a user, optionally acting in a team, and why.
+      </p>
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Input placeholder="User ID or email" value={user} onChange={(e) => setUser(e.target.value)} />
+        </div>
+        <div className="flex-1">
+          <Input placeholder="Team ID (optional)" value={teamId} onChange={(e) => setTeamId(e.target.value)} />
+        </div>
+        <Button variant="secondary" size="sm" onClick={explain} loading={loading} disabled={!user.trim() || loading}>
+          <Search size={14} className="mr-1" />
+          Explain
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+      {results && (
+        <div className="mt-3 space-y-1">
+          {results.map((r) => (
+            <div key={r.key} className="flex items-start gap-3 px-3 py-2 bg-card border border-border rounded-lg">
+              <span
+                className={`text-[11px] font-medium px-1.5 py-0.5 rounded ${
+                  r.enabled ? 'bg-emerald-500/10 text-emerald-500' : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                {r.enabled ? 'ON' : 'OFF'}
+              </span>
+              <div className="flex-1">
+                <p className="text-[13px] font-mono">{r.key}</p>
+                <p className="text-[12px] text-muted-foreground">{r.explanation}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function AdminSettingsPage() {
   const router = useRouter();
   const { hasRole } = useAuth();
 
   const [flags, setFlags] = useState<FeatureFlag[]>([]);
-  const [original, setOriginal] = useState<Record<string, boolean>>({});
+  const [original, setOriginal] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
@@ -56,8 +316,8 @@ export default function AdminSettingsPage() {
       if (data.success) {
         const fetched: FeatureFlag[] = data.data.flags;
         setFlags(fetched);
-        const orig: Record<string, boolean> = {};
-        for (const f of fetched) orig[f.key] = f.enabled;
+        const orig: Record<string, string> = {};
+        for (const f of fetched) orig[f.key] = editable(f);
         setOriginal(orig);
       }
     } catch {
@@ -71,15 +331,15 @@ export default function AdminSettingsPage() {
     if (isAdmin) loadFlags();
   }, [isAdmin, loadFlags]);
 
-  const hasChanges = flags.some(f => f.enabled !== original[f.key]);
+  const hasChanges = flags.some(f => editable(f) !== original[f.key]);
 
-  function handleToggle(key: string, enabled: boolean) {
-    setFlags(prev => prev.map(f => (f.key === key ? { ...f, enabled } : f)));
+  function updateFlag(key: string, patch: Partial<FeatureFlag>) {
+    setFlags(prev => prev.map(f => (f.key === key ? { ...f, ...patch } : f)));
     setFeedback(null);
   }
 
   async function handleSave() {
-    const changed = flags.filter(f => f.enabled !== original[f.key]);
+    const changed = flags.filter(f => editable(f) !== original[f.key]);
     if (changed.length === 0) return;
 
     setSaving(true);
@@ -92,7 +352,15 @@ export default function AdminSettingsPage() {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
             credentials: 'include',
-            body: JSON.stringify({ key: flag.key, enabled: flag.enabled }),
+            body: JSON.stringify({
+              key: flag.key,
+              enabled: flag.enabled,
+              rolloutPercentage: flag.rolloutPercentage,
+              rolloutBy: flag.rolloutBy,
+              rules: (flag.rules ?? []).map(r => ({ ...r, values: r.values.map(v => v.trim()).filter(Boolean) })),
+              enableAt: flag.enableAt,
+              disableAt: flag.disableAt,
+            }),
           }).then(res => res.json())
         )
       );
@@ -101,8 +369,8 @@ export default function AdminSettingsPage() {
         throw new Error(failed.error?.message || 'Failed to update flags');
       }
 
-      const newOriginal: Record<string, boolean> = {};
-      for (const f of flags) newOriginal[f.key] = f.enabled;
+      const newOriginal: Record<string, string> = {};
+      for (const f of flags) newOriginal[f.key] = editable(f);
       setOriginal(newOriginal);
       invalidateFeatureFlags();
       setFeedback({ type: 'success', message: `Updated ${changed.length} feature flag${changed.length > 1 ? 's' : ''}` });
@@ -164,26 +432,41 @@ export default function AdminSettingsPage() {
           </p>
         </div>
       ) : (
-        <div className="space-y-2">
-          {flags.map(flag => (
-            <div
-              key={flag.key}
-              className="flex items-center justify-between p-4 bg-card border border-border rounded-lg"
-            >
-              <div className="flex-1 mr-4">
-                <p className="text-sm font-medium">{humanizeKey(flag.key)}</p>
-                {flag.description && (
-                  <p className="text-[13px] text-muted-foreground mt-0.5">{flag.description}</p>
-                )}
-                <p className="text-[11px] text-muted-foreground/60 mt-1 font-mono">{flag.key}</p>
-              </div>
-              <Toggle
-                checked={flag.enabled}
-                onChange={(checked) => handleToggle(flag.key, checked)}
-              />
-            </div>
-          ))}
-        </div>
+        <>
+          <div className="space-y-2">
+            {flags.map(flag => {
+              const summary = targetingSummary(flag);
+              const open = expanded[flag.key] ?? false;
+              return (
+                <div key={flag.key} className="p-4 bg-card border border-border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 mr-4">
+                      <p className="text-sm font-medium">{humanizeKey(flag.key)}</p>
+                      {flag.description && (
+                        <p className="text-[13px] text-muted-foreground mt-0.5">{flag.description}</p>
+                      )}
+                      <p className="text-[11px] text-muted-foreground/60 mt-1 font-mono">{flag.key}</p>
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-[12px] text-muted-foreground hover:text-foreground mt-2"
+                        onClick={() => setExpanded(prev => ({ ...prev, [flag.key]: !open }))}
+                      >
+                        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        {summary ?? 'Everyone when on'}
+                      </button>
+                    </div>
+                    <Toggle
+                      checked={flag.enabled}
+                      onChange={(checked) => updateFlag(flag.key, { enabled: checked })}
+                    />
+                  </div>
+                  {open && <TargetingEditor flag={flag} onChange={(patch) => updateFlag(flag.key, patch)} />}
+                </div>
+              );
+            })}
+          </div>
+          <ExplainPanel />
+        </>
       )}
     </div>
   );
@@ -26,6 +26,7 @@ import {
   ensureKnownFlags,
   resetFeatureFlagOverrideCache,
 } from '@/lib/feature-flags';
+import { evaluateTargeting, targetingFromRow } from '@/lib/feature-flag-rules';
 
 interface SessionUser {
   id: string;
@@ -90,7 +91,18 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     await ensureKnownFlags();
 
     const [globalFlags, overrides] = await Promise.all([
-      prisma.featureFlag.findMany({ select: { key: true, enabled: true, description: true } }),
+      prisma.featureFlag.findMany({
+        select: {
+          key: true,
+          enabled: true,
+          description: true,
+          rolloutPercentage: true,
+          rolloutBy: true,
+          rules: true,
+          enableAt: true,
+          disableAt: true,
+        },
+      }),
       prisma.featureFlagOverride.findMany({
         where: { teamId },
         select: { flagKey: true, enabled: true, updatedBy: true, updatedAt: true },
@@ -112,6 +124,10 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         const known = KNOWN_FLAGS.find((f) => f.key === key);
         const globalRow = globalByKey.get(key);
         const globalEnabled = globalRow?.enabled ?? known?.enabled ?? false;
+        // What the team gets without an override: rollouts and rules by team apply
+        const inherited = globalRow
+          ? evaluateTargeting(key, targetingFromRow(globalRow), { teamId }).enabled
+          : globalEnabled;
         const description = globalRow?.description ?? known?.description ?? null;
         const ov = overrideByKey.get(key);
         const hasOverride = ov !== undefined;
@@ -120,7 +136,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           description,
           globalEnabled,
           override: hasOverride ? ov!.enabled : null,
-          effective: hasOverride ? ov!.enabled : globalEnabled,
+          effective: hasOverride ? ov!.enabled : inherited,
           source: hasOverride ? ('override' as const) : ('inherited' as const),
           updatedBy: hasOverride ? ov!.updatedBy : null,
           updatedAt: hasOverride ? ov!.updatedAt : null,
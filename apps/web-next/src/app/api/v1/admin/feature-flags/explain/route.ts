@@ -0,0 +1,79 @@
+/**
+ * Admin Feature Flag Explain API (admin only).
+ *
+ *   GET /api/v1/admin/feature-flags/explain?userId=…|email=…[&teamId=…][&key=…][&at=…]
+ *     → how each flag (or just `key`) resolves for that user acting in that
+ *       team, and why: team override, switched off, schedule, the matching
+ *       rule, the rollout bucket, or the built-in default. `at` (ISO date)
+ *       previews a scheduled change.
+ *
+ * The targeting context (roles, email domain, team plans) is built exactly as
+ * for the user's own requests, except that team membership is not required,
+ * so an admin can check a team the user has not joined yet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getUserWithRoles, validateSession } from '@/lib/api/auth';
+import { success, errors, getAuthToken } from '@/lib/api/response';
+import { buildFlagContext, ensureKnownFlags, evaluateAllFeatureFlags } from '@/lib/feature-flags';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const token = getAuthToken(request);
+    if (!token) {
+      return errors.unauthorized('No auth token provided');
+    }
+
+    const sessionUser = await validateSession(token);
+    if (!sessionUser) {
+      return errors.unauthorized('Invalid or expired session');
+    }
+
+    if (!sessionUser.roles.includes('system:admin')) {
+      return errors.forbidden('Admin permission required');
+    }
+
+    const params = request.nextUrl.searchParams;
+    const userId = params.get('userId')?.trim();
+    const email = params.get('email')?.trim().toLowerCase();
+    const teamId = params.get('teamId')?.trim() || null;
+    const key = params.get('key')?.trim() || null;
+    const at = params.get('at');
+
+    if (!userId && !email) {
+      return errors.badRequest('userId or email query parameter is required');
+    }
+    const now = at ? new Date(at) : new Date();
+    if (Number.isNaN(now.getTime())) {
+      return errors.badRequest('at must be an ISO date');
+    }
+
+    const id =
+      userId ?? (await prisma.user.findUnique({ where: { email: email! }, select: { id: true } }))?.id;
+    const user = id ? await getUserWithRoles(id) : null;
+    if (!user) return errors.notFound('User');
+
+    if (teamId) {
+      const team = await prisma.team.findUnique({ where: { id: teamId }, select: { id: true } });
+      if (!team) return errors.notFound('Team');
+    }
+
+    await ensureKnownFlags();
+
+    const context = await buildFlagContext(user, teamId);
+    const evaluations = await evaluateAllFeatureFlags(context, now);
+    const flags = key ? evaluations.filter((f) => f.key === key) : evaluations;
+    if (key && flags.length === 0) return errors.notFound('Feature flag');
+
+    return success({
+      user: { id: user.id, email: user.email },
+      context,
+      evaluatedAt: now.toISOString(),
+      flags,
+    });
+  } catch (err) {
+    console.error('Error explaining feature flags:', err);
+    return errors.internal('Failed to explain feature flags');
+  }
+}
@@ -2,13 +2,25 @@
  * Admin Feature Flags API
  * GET  /api/v1/admin/feature-flags - List all feature flags (admin only)
  * PUT  /api/v1/admin/feature-flags - Create or update a feature flag by key (admin only)
+ *
+ * PUT accepts the flag's targeting alongside `enabled`; fields left out are
+ * unchanged:
+ *   rolloutPercentage  0–100, or null for everyone
+ *   rolloutBy          'user' | 'team' — what the rollout hashes on
+ *   rules              [{ attribute, operator: 'in' | 'not_in', values, enabled }]
+ *   enableAt / disableAt  ISO dates bounding when the flag is on, or null
+ *
+ * Rules and rollouts a known flag's gates cannot evaluate (its `scope`) are
+ * rejected with 400.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@naap/database';
 import { prisma } from '@/lib/db';
 import { validateSession } from '@/lib/api/auth';
 import { success, errors, getAuthToken } from '@/lib/api/response';
-import { ensureKnownFlags } from '@/lib/feature-flags';
+import { KNOWN_FLAGS, ensureKnownFlags } from '@/lib/feature-flags';
+import { parseTargetingUpdate, targetingFromRow, targetingScopeError } from '@/lib/feature-flag-rules';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -67,19 +79,44 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
     if (!key || typeof key !== 'string') {
       return errors.badRequest('Flag key is required');
     }
-    if (typeof enabled !== 'boolean') {
+
+    const current = await prisma.featureFlag.findUnique({
+      where: { key },
+      select: { enabled: true, rolloutPercentage: true, rolloutBy: true, rules: true, enableAt: true, disableAt: true },
+    });
+
+    // A targeting-only update may leave `enabled` out for an existing flag
+    if (typeof enabled !== 'boolean' && !(enabled === undefined && current)) {
       return errors.badRequest('enabled must be a boolean');
     }
 
-    const description = typeof body.description === 'string' ? body.description : null;
+    const parsed = parseTargetingUpdate(body, current ?? undefined);
+    if ('error' in parsed) {
+      return errors.badRequest(parsed.error);
+    }
+
+    // Targeting the flag's gates cannot see would silently never apply
+    const known = KNOWN_FLAGS.find((f) => f.key === key);
+    if (known) {
+      const scopeError = targetingScopeError(known.scope, targetingFromRow({ enabled: true, ...current, ...parsed.update }));
+      if (scopeError) return errors.badRequest(scopeError);
+    }
+    const { rules, ...targeting } = parsed.update;
+    const data = {
+      ...targeting,
+      ...(rules !== undefined ? { rules: rules as unknown as Prisma.InputJsonValue } : {}),
+      ...(typeof body.description === 'string' ? { description: body.description } : {}),
+      updatedBy: sessionUser.id,
+    };
 
     const flag = await prisma.featureFlag.upsert({
       where: { key },
-      update: { enabled, description },
+      update: { ...data, ...(typeof enabled === 'boolean' ? { enabled } : {}) },
       create: {
         key,
-        enabled,
-        description,
+        enabled: typeof enabled === 'boolean' ? enabled : (KNOWN_FLAGS.find((f) => f.key === key)?.enabled ?? false),
+        description: null,
+        ...data,
       },
     });
 
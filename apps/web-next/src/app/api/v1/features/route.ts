@@ -4,13 +4,15 @@
  *
  * Authenticated (requires session) but not admin-only.
  * Clients use this to gate UI features based on admin-configured flags.
+ * Flags are resolved for the caller — rollouts, targeting rules, schedules
+ * and the `x-team-id` team's overrides apply (the team is ignored unless the
+ * caller belongs to it).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
 import { validateSession } from '@/lib/api/auth';
 import { success, errors, getAuthToken } from '@/lib/api/response';
-import { ensureKnownFlags } from '@/lib/feature-flags';
+import { buildFlagContext, ensureKnownFlags, evaluateAllFeatureFlags } from '@/lib/feature-flags';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -26,12 +28,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     await ensureKnownFlags();
 
-    const allFlags = await prisma.featureFlag.findMany({
-      select: { key: true, enabled: true },
+    const context = await buildFlagContext(sessionUser, request.headers.get('x-team-id'), {
+      verifyMembership: true,
     });
+    const evaluations = await evaluateAllFeatureFlags(context);
 
     const flags: Record<string, boolean> = {};
-    for (const f of allFlags) {
+    for (const f of evaluations) {
       flags[f.key] = f.enabled;
     }
 
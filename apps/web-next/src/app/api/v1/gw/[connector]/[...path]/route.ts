@@ -6,7 +6,12 @@
  * services. Implements the full pipeline:
  *
  *   Authorize → Resolve → Access → IP → Body → Size → Policy → Validate →
- *   Cache → Secrets → Transform → Proxy → Respond → Log
+ *   Cache → Secrets → Transform → Proxy → Respond → Capture → Log
+ *
+ * Every response past the policy step carries the caller's `RateLimit-*`
+ * headers, and any concurrency slot taken by the policy is released once
+ * the response body has been sent. Connectors with payload capture enabled
+ * store a sampled, redacted copy of the exchange.
  *
  * Supports: GET, POST, PUT, PATCH, DELETE
  * Auth: JWT (NaaP plugins) or API Key (external consumers)
@@ -20,21 +25,39 @@ import { after } from 'next/server';
 import { resolveConfig } from '@/lib/gateway/resolve';
 import { authorize, verifyConnectorAccess } from '@/lib/gateway/authorize';
 import { enforcePolicy } from '@/lib/gateway/policy';
+import { releaseWhenDone } from '@/lib/gateway/rate-limit';
 import { validateRequest } from '@/lib/gateway/validate';
-import { buildUpstreamRequest } from '@/lib/gateway/transform';
+import { buildUpstreamRequest, invalidateUpstreamAuth, prepareUpstreamAuth } from '@/lib/gateway/transform';
 import { proxyToUpstream, ProxyError } from '@/lib/gateway/proxy';
+import { DEFAULT_CIRCUIT_OPTIONS } from '@/lib/gateway/circuit-breaker';
 import { buildResponse, buildErrorResponse } from '@/lib/gateway/respond';
-import { resolveSecrets } from '@/lib/gateway/secrets';
-import { getCachedResponse, setCachedResponse, buildCacheKey } from '@/lib/gateway/cache';
+import { resolveSecrets, secretScopeFor } from '@/lib/gateway/secrets';
+import {
+  getCachedResponse,
+  setCachedResponse,
+  buildCacheKey,
+  acquireCacheFill,
+  resolveCacheTtl,
+  type CacheFillLease,
+} from '@/lib/gateway/cache';
 import { getAuthToken, getClientIP } from '@/lib/api/response';
 import type { UsageData } from '@/lib/gateway/types';
 import { matchIPAllowlist } from '@/lib/gateway/types';
 import { bufferUsage } from '@/lib/gateway/usage-buffer';
+import {
+  getUpstreamPool,
+  loadUpstreamHealth,
+  orderUpstreams,
+  type LoadBalancingStrategy,
+} from '@/lib/gateway/upstream-pool';
 import { checkIdempotency, storeIdempotency } from '@/lib/gateway/idempotency';
+import { shouldCapture, readBodyPrefix, recordCapture, type CaptureInput } from '@/lib/gateway/capture';
 import '@/lib/gateway/transforms';
 
 type RouteContext = { params: Promise<{ connector: string; path: string[] }> };
 
+const MAX_FAILOVER_UPSTREAMS = 3;
+
 async function handleRequest(
   request: NextRequest,
   context: RouteContext
@@ -161,7 +184,7 @@ async function handleRequest(
     );
   }
 
-  // ── 8. Enforce Policy (rate limits, quotas) ──
+  // ── 8. Enforce Policy (rate limits, concurrency, quotas) ──
   const policy = await enforcePolicy(auth, config.endpoint, requestBytes);
   if (!policy.allowed) {
     const errorResponse = buildErrorResponse(
@@ -171,23 +194,23 @@ async function handleRequest(
       requestId,
       traceId
     );
-    if (policy.headers) {
-      for (const [k, v] of Object.entries(policy.headers)) {
-        errorResponse.headers.set(k, v);
-      }
-    }
-    return errorResponse;
+    return withPolicyHeaders(errorResponse, policy.headers);
   }
+  const lease = policy.lease;
 
   // ── 9. Validate Request (headers, body pattern, schema) ──
   const validation = validateRequest(request, config.endpoint, consumerBody);
   if (!validation.valid) {
-    return buildErrorResponse(
-      'VALIDATION_ERROR',
-      validation.error || 'Request validation failed',
-      400,
-      requestId,
-      traceId
+    await lease?.release();
+    return withPolicyHeaders(
+      buildErrorResponse(
+        'VALIDATION_ERROR',
+        validation.error || 'Request validation failed',
+        400,
+        requestId,
+        traceId
+      ),
+      policy.headers
     );
   }
 
@@ -196,6 +219,7 @@ async function handleRequest(
   if (idempotencyKey && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
     const cached = await checkIdempotency(scopeId, slug, consumerPath, idempotencyKey, method);
     if (cached) {
+      await lease?.release();
       const buf = Buffer.from(cached.body, 'base64');
       return new Response(buf, {
         status: cached.status,
@@ -203,17 +227,33 @@ async function handleRequest(
           ...cached.headers,
           'content-type': cached.contentType || cached.headers['content-type'] || 'application/octet-stream',
           'X-Idempotent-Replayed': 'true',
+          ...policy.headers,
         },
       });
     }
   }
 
-  // ── 10. Response Cache Check (GET only) ──
+  // ── 10. Response Cache Check (GET only, concurrent misses coalesced) ──
   const queryString = request.nextUrl.search || '';
-  const cacheKey = buildCacheKey(scopeId, slug, method, consumerPath + queryString, consumerBody);
+  const cacheKey = buildCacheKey(
+    config.connector.id,
+    config.endpoint.id,
+    scopeId,
+    method,
+    consumerPath + queryString,
+    consumerBody
+  );
   const cacheTtl = config.endpoint.cacheTtl;
+  const timeout = config.endpoint.timeout || config.connector.defaultTimeout;
+  let cacheFill: CacheFillLease | null = null;
   if (method === 'GET' && cacheTtl && cacheTtl > 0) {
-    const cached = getCachedResponse(cacheKey);
+    let cached = await getCachedResponse(cacheKey, request.headers);
+    if (!cached) {
+      cacheFill = await acquireCacheFill(cacheKey, timeout);
+      if (!cacheFill.leader) {
+        cached = await getCachedResponse(cacheKey, request.headers);
+      }
+    }
     if (cached) {
       const headers = new Headers(cached.headers);
       headers.set('X-Gateway-Cache', 'HIT');
@@ -243,8 +283,10 @@ async function handleRequest(
         cached: true,
         error: null,
         region: process.env.VERCEL_REGION || null,
+        upstreamUrl: null,
       });
 
+      await lease?.release();
       return new Response(cached.body, { status: cached.status, headers });
     }
   }
@@ -253,34 +295,66 @@ async function handleRequest(
   // For public connectors, resolve upstream secrets from the connector owner's
   // scope (the admin who configured the key), not the caller's scope.
   const token = getAuthToken(request);
-  let secretScopeId = scopeId;
-  if (config.connector.visibility === 'public') {
-    if (config.connector.ownerUserId) {
-      secretScopeId = `personal:${config.connector.ownerUserId}`;
-    } else if (config.connector.teamId) {
-      secretScopeId = config.connector.teamId;
-    }
-  }
+  const secretScopeId = secretScopeFor(config.connector, scopeId);
   const secrets = await resolveSecrets(secretScopeId, config.connector.secretRefs, token, config.connector.slug);
 
-  // ── 12. Transform Request ──
-  const upstream = buildUpstreamRequest(request, config, secrets, consumerBody, consumerPath, consumerBodyRaw);
-
-  // ── 13. Proxy to Upstream ──
-  const timeout = config.endpoint.timeout || config.connector.defaultTimeout;
-
+  // ── 11b. Payload Capture Sampling ──
+  const capture: CaptureRequest | null = shouldCapture(config.connector)
+    ? {
+        connector: config.connector,
+        teamId: scopeId,
+        endpointName: config.endpoint.name,
+        apiKeyId: auth.apiKeyId || null,
+        requestId,
+        method,
+        path: consumerPath,
+        query: request.nextUrl.search || '',
+        requestHeaders: request.headers,
+        requestBody: consumerBody,
+        secretValues: Object.values(secrets),
+      }
+    : null;
+
+  // ── 12. Select Upstreams ──
+  const pool = getUpstreamPool(config.connector);
+  const upstreamHealth = await loadUpstreamHealth(config.connector.id, pool);
+  const orderedUpstreams = orderUpstreams(
+    config.connector.id,
+    pool,
+    config.connector.loadBalancing as LoadBalancingStrategy,
+    upstreamHealth
+  ).slice(0, MAX_FAILOVER_UPSTREAMS);
+
+  // ── 13. Upstream Credentials + Transform Request + Proxy ──
+  // Token-based auth (OAuth2, JWT exchange) may call a token endpoint here;
+  // a failure is reported like any other upstream error.
   let proxyResult;
   try {
+    const upstreamSecrets = await prepareUpstreamAuth(config.connector, secrets);
+    const candidates = orderedUpstreams.map((target) => ({
+      baseUrl: target.url,
+      request: buildUpstreamRequest(request, config, upstreamSecrets, consumerBody, consumerPath, consumerBodyRaw, target.url),
+    }));
+
     proxyResult = await proxyToUpstream(
-      upstream,
+      candidates,
       timeout,
       config.endpoint.retries,
       config.connector.allowedHosts,
       config.connector.streamingEnabled,
-      config.connector.slug
+      {
+        connectorId: config.connector.id,
+        slug: config.connector.slug,
+        options: {
+          failureThreshold: config.connector.circuitFailureThreshold ?? DEFAULT_CIRCUIT_OPTIONS.failureThreshold,
+          openDurationMs: config.connector.circuitOpenDurationMs ?? DEFAULT_CIRCUIT_OPTIONS.openDurationMs,
+        },
+      }
     );
   } catch (err) {
     const proxyError = err instanceof ProxyError ? err : new ProxyError('UPSTREAM_ERROR', String(err), 502);
+    await cacheFill?.release();
+    await lease?.release();
 
     logUsage({
       teamId: scopeId,
@@ -300,29 +374,45 @@ async function handleRequest(
       cached: false,
       error: proxyError.message,
       region: process.env.VERCEL_REGION || null,
+      upstreamUrl: null,
     });
 
-    return buildErrorResponse(
-      proxyError.code,
-      proxyError.message,
-      proxyError.statusCode,
-      requestId,
-      traceId
+    const errorResponse = withPolicyHeaders(
+      buildErrorResponse(
+        proxyError.code,
+        proxyError.message,
+        proxyError.statusCode,
+        requestId,
+        traceId
+      ),
+      policy.headers
     );
+    if (capture) {
+      captureExchange(capture, errorResponse, Date.now() - startMs, proxyError.message);
+    }
+    return errorResponse;
+  }
+
+  if (proxyResult.response.status === 401) {
+    invalidateUpstreamAuth(config.connector);
   }
 
   // ── 14. Build Response ──
   const response = await buildResponse(config, proxyResult, requestId, traceId);
 
   // Merge rate limit headers into successful response
-  if (policy.headers) {
-    for (const [k, v] of Object.entries(policy.headers)) {
-      response.headers.set(k, v);
-    }
+  withPolicyHeaders(response, policy.headers);
+
+  // ── 14b. Capture Payload (sampled; body prefix read alongside the client, written after) ──
+  if (capture) {
+    captureExchange(capture, response, Date.now() - startMs, null);
   }
 
-  // ── 15. Cache Store (GET + 2xx + cacheTtl) ──
-  const shouldCache = method === 'GET' && cacheTtl && cacheTtl > 0
+  // ── 15. Cache Store (GET + 2xx + cacheTtl, bounded by upstream Cache-Control) ──
+  const effectiveTtl = cacheTtl && cacheTtl > 0
+    ? resolveCacheTtl(cacheTtl, proxyResult.response.headers)
+    : 0;
+  const shouldCache = method === 'GET' && effectiveTtl > 0
     && proxyResult.response.status >= 200 && proxyResult.response.status < 300;
 
   let responseBytes: number;
@@ -332,10 +422,16 @@ async function handleRequest(
     responseBytes = responseBodyBuffer.byteLength;
     const headers: Record<string, string> = {};
     cloned.headers.forEach((v, k) => { headers[k] = v; });
-    setCachedResponse(cacheKey, { body: responseBodyBuffer, status: cloned.status, headers }, cacheTtl);
+    await setCachedResponse(
+      cacheKey,
+      { body: responseBodyBuffer, status: cloned.status, headers },
+      effectiveTtl,
+      request.headers
+    );
   } else {
     responseBytes = parseInt(response.headers.get('content-length') || '0', 10);
   }
+  await cacheFill?.release();
 
   // ── 15b. Store Idempotency Response ──
   if (idempotencyKey && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
@@ -371,11 +467,52 @@ async function handleRequest(
     cached: proxyResult.cached,
     error: null,
     region: process.env.VERCEL_REGION || null,
+    upstreamUrl: proxyResult.upstreamUrl ?? null,
   });
 
+  return lease ? releaseWhenDone(response, lease) : response;
+}
+
+function withPolicyHeaders(response: Response, headers?: Record<string, string>): Response {
+  if (headers) {
+    for (const [k, v] of Object.entries(headers)) {
+      response.headers.set(k, v);
+    }
+  }
   return response;
 }
 
+type CaptureRequest = Omit<
+  CaptureInput,
+  'statusCode' | 'responseHeaders' | 'responseBody' | 'latencyMs' | 'error'
+>;
+
+/**
+ * Snapshot a sampled exchange for payload capture. A capped prefix of the
+ * response body is read from a clone alongside the client, without holding
+ * the response back (ndjson and chunked streams would otherwise stall until
+ * the prefix fills); the redacted row is written via `after()`.
+ */
+function captureExchange(
+  capture: CaptureRequest,
+  response: Response,
+  latencyMs: number,
+  error: string | null
+): void {
+  const responseBody = readBodyPrefix(response.clone(), capture.connector.captureMaxBodyBytes);
+  after(async () => {
+    const input: CaptureInput = {
+      ...capture,
+      statusCode: response.status,
+      responseHeaders: response.headers,
+      responseBody: await responseBody,
+      latencyMs,
+      error,
+    };
+    await recordCapture(input);
+  });
+}
+
 /**
  * Schedule a non-blocking usage log write via Next.js `after()`.
  * Records are accumulated in a UsageBuffer and flushed in batches
@@ -0,0 +1,26 @@
+/**
+ * Service Gateway — Admin: Prune Payload Captures (Cron)
+ * GET /api/v1/gw/admin/captures/prune
+ *
+ * Deletes payload captures past their connector's retention window.
+ *
+ * Auth: CRON_SECRET header OR getAdminContext.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { success } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse } from '@/lib/gateway/admin/team-guard';
+import { pruneExpiredCaptures } from '@/lib/gateway/capture';
+
+export async function GET(request: NextRequest) {
+  const secret = request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!process.env.CRON_SECRET || secret !== process.env.CRON_SECRET) {
+    const ctx = await getAdminContext(request);
+    if (isErrorResponse(ctx)) return ctx;
+  }
+
+  const deleted = await pruneExpiredCaptures();
+  return success({ deleted });
+}
@@ -0,0 +1,57 @@
+/**
+ * Service Gateway — Admin: Purge Response Cache
+ * DELETE /api/v1/gw/admin/connectors/:id/cache
+ * DELETE /api/v1/gw/admin/connectors/:id/cache?endpointId=:endpointId
+ *
+ * Removes cached upstream responses for a whole connector, or for a
+ * single endpoint, across every caller scope and instance.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { success, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
+import { invalidateResponseCache, getResponseCacheBackendName } from '@/lib/gateway/cache';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const endpointId = request.nextUrl.searchParams.get('endpointId') || undefined;
+  if (endpointId) {
+    const endpoint = await prisma.connectorEndpoint.findFirst({
+      where: { id: endpointId, connectorId: id },
+      select: { id: true },
+    });
+    if (!endpoint) {
+      return errors.notFound('Endpoint');
+    }
+  }
+
+  const purged = await invalidateResponseCache(id, endpointId);
+
+  await logAudit(ctx, {
+    action: 'cache.purge',
+    resourceId: id,
+    details: { slug: connector.slug, endpointId: endpointId ?? null, purged },
+    request,
+  });
+
+  return success({
+    connectorId: id,
+    endpointId: endpointId ?? null,
+    purged,
+    backend: getResponseCacheBackendName(),
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Service Gateway — Admin: Replay Payload Capture
+ * POST /api/v1/gw/admin/connectors/:id/captures/:captureId/replay
+ *
+ * Re-sends the captured request through the connector's current transform
+ * pipeline and returns the (redacted) upstream response. An optional
+ * `{ body, headers }` body restores values that were redacted at capture.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { success, errors, getAuthToken } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
+import { captureReplaySchema } from '@/lib/gateway/admin/validation';
+import { logAudit } from '@/lib/gateway/admin/audit';
+import { replayCapture, ReplayError } from '@/lib/gateway/replay';
+
+type RouteContext = { params: Promise<{ id: string; captureId: string }> };
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id, captureId } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  let body: unknown = {};
+  const rawBody = await request.text();
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return errors.badRequest('Invalid JSON body');
+    }
+  }
+
+  const parsed = captureReplaySchema.safeParse(body);
+  if (!parsed.success) {
+    return errors.validationError(
+      Object.fromEntries(parsed.error.errors.map((e) => [e.path.join('.'), e.message]))
+    );
+  }
+
+  const capture = await prisma.gatewayPayloadCapture.findFirst({
+    where: { id: captureId, connectorId: id, expiresAt: { gt: new Date() } },
+  });
+  if (!capture) {
+    return errors.notFound('Capture');
+  }
+
+  let result;
+  try {
+    result = await replayCapture(capture, connector.slug, parsed.data, getAuthToken(request));
+  } catch (err) {
+    if (err instanceof ReplayError) {
+      return err.statusCode === 409 ? errors.conflict(err.message) : errors.badRequest(err.message);
+    }
+    throw err;
+  }
+
+  await logAudit(ctx, {
+    action: 'capture.replay',
+    resourceId: captureId,
+    details: {
+      slug: connector.slug,
+      originalStatus: capture.statusCode,
+      replayStatus: result.statusCode,
+      overrides: Object.keys(parsed.data),
+    },
+    request,
+  });
+
+  return success({ ...result, originalStatusCode: capture.statusCode });
+}
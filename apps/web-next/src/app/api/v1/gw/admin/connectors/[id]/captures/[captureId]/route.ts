@@ -0,0 +1,62 @@
+/**
+ * Service Gateway — Admin: Payload Capture Detail
+ * GET    /api/v1/gw/admin/connectors/:id/captures/:captureId
+ * DELETE /api/v1/gw/admin/connectors/:id/captures/:captureId
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { success, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+type RouteContext = { params: Promise<{ id: string; captureId: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id, captureId } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const capture = await prisma.gatewayPayloadCapture.findFirst({
+    where: { id: captureId, connectorId: id, expiresAt: { gt: new Date() } },
+  });
+  if (!capture) {
+    return errors.notFound('Capture');
+  }
+
+  return success(capture);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id, captureId } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const { count } = await prisma.gatewayPayloadCapture.deleteMany({
+    where: { id: captureId, connectorId: id },
+  });
+  if (count === 0) {
+    return errors.notFound('Capture');
+  }
+
+  await logAudit(ctx, {
+    action: 'capture.delete',
+    resourceId: captureId,
+    details: { slug: connector.slug },
+    request,
+  });
+
+  return success({ id: captureId, deleted: true });
+}
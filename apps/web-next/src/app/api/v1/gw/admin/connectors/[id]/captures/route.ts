@@ -0,0 +1,116 @@
+/**
+ * Service Gateway — Admin: Payload Captures
+ * GET    /api/v1/gw/admin/connectors/:id/captures  — List captures (?endpoint=&status=&before=&limit=)
+ * DELETE /api/v1/gw/admin/connectors/:id/captures  — Delete every capture for the connector
+ *
+ * Captures hold other callers' (redacted) traffic, so only the owning
+ * scope can see them. The list omits headers and bodies.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { success, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function statusFilter(status: string | null) {
+  if (!status) return undefined;
+  const family = /^([1-5])xx$/i.exec(status);
+  if (family) {
+    const base = parseInt(family[1], 10) * 100;
+    return { gte: base, lt: base + 100 };
+  }
+  const code = parseInt(status, 10);
+  return isNaN(code) ? undefined : code;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const { searchParams } = request.nextUrl;
+  const endpointName = searchParams.get('endpoint');
+  const before = searchParams.get('before');
+  const beforeDate = before ? new Date(before) : null;
+  const statusCode = statusFilter(searchParams.get('status'));
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+
+  const captures = await prisma.gatewayPayloadCapture.findMany({
+    where: {
+      connectorId: id,
+      expiresAt: { gt: new Date() },
+      ...(endpointName ? { endpointName } : {}),
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      ...(beforeDate && !isNaN(beforeDate.getTime()) ? { createdAt: { lt: beforeDate } } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      endpointName: true,
+      apiKeyId: true,
+      requestId: true,
+      method: true,
+      path: true,
+      statusCode: true,
+      latencyMs: true,
+      error: true,
+      requestTruncated: true,
+      responseTruncated: true,
+      createdAt: true,
+      expiresAt: true,
+    },
+  });
+
+  return success({
+    captures,
+    nextBefore: captures.length === limit
+      ? captures[captures.length - 1].createdAt.toISOString()
+      : null,
+    settings: {
+      captureEnabled: connector.captureEnabled,
+      captureSampleRate: connector.captureSampleRate,
+      captureMaxBodyBytes: connector.captureMaxBodyBytes,
+      captureRetentionDays: connector.captureRetentionDays,
+      captureRedactFields: connector.captureRedactFields,
+    },
+  });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const { count } = await prisma.gatewayPayloadCapture.deleteMany({ where: { connectorId: id } });
+
+  await logAudit(ctx, {
+    action: 'capture.delete',
+    resourceId: id,
+    details: { slug: connector.slug, deleted: count },
+    request,
+  });
+
+  return success({ connectorId: id, deleted: count });
+}
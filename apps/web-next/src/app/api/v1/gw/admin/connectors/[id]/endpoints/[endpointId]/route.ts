@@ -14,6 +14,7 @@ import { success, errors } from '@/lib/api/response';
 import { getAdminContext, isErrorResponse, loadConnector, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
 import { updateEndpointSchema } from '@/lib/gateway/admin/validation';
 import { invalidateConnectorCache } from '@/lib/gateway/resolve';
+import { invalidateResponseCache } from '@/lib/gateway/cache';
 
 type RouteContext = { params: Promise<{ id: string; endpointId: string }> };
 
@@ -87,6 +88,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   });
 
   invalidateConnectorCache(ctx.teamId, connector.slug);
+  await invalidateResponseCache(id, endpointId);
 
   return success(endpoint);
 }
@@ -113,6 +115,7 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   });
 
   invalidateConnectorCache(ctx.teamId, connector.slug);
+  await invalidateResponseCache(id, endpointId);
 
   return success({ id: endpointId, deleted: true });
 }
@@ -0,0 +1,179 @@
+/**
+ * Service Gateway — Admin: Re-import OpenAPI into a Connector
+ * POST /api/v1/gw/admin/connectors/:id/import
+ *
+ * Diffs an OpenAPI 3.0/3.1 document against the connector's endpoints
+ * (matched by method + path). Returns the diff only, unless `commit` is
+ * set, in which case added endpoints are created, changed ones updated
+ * and — with `removeMissing` — endpoints absent from the document deleted.
+ * Admin-tuned endpoint settings (limits, caching, transforms) are kept, and
+ * so is the connector's auth unless `replaceAuth` is set.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { Prisma } from '@naap/database';
+import { prisma } from '@/lib/db';
+import { success, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
+import { createEndpointSchema, openApiReimportSchema } from '@/lib/gateway/admin/validation';
+import { diffOpenApiImport, importOpenApi, OpenApiImportError } from '@/lib/gateway/openapi-import';
+import { invalidateConnectorCache } from '@/lib/gateway/resolve';
+import { invalidateResponseCache } from '@/lib/gateway/cache';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const CONNECTOR_FIELDS = ['upstreamBaseUrl', 'authType', 'authConfig', 'secretRefs'] as const;
+const AUTH_FIELDS: ReadonlySet<string> = new Set(['authType', 'authConfig', 'secretRefs']);
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errors.badRequest('Invalid JSON body');
+  }
+
+  const parsed = openApiReimportSchema.safeParse(body);
+  if (!parsed.success) {
+    return errors.validationError(
+      Object.fromEntries(
+        parsed.error.errors.map((e) => [e.path.join('.'), e.message])
+      )
+    );
+  }
+
+  let imported;
+  try {
+    imported = importOpenApi(parsed.data.spec, {
+      slug: connector.slug,
+      serverIndex: parsed.data.serverIndex,
+      upstreamBaseUrl: parsed.data.upstreamBaseUrl,
+    });
+  } catch (err) {
+    if (err instanceof OpenApiImportError) return errors.badRequest(err.message);
+    throw err;
+  }
+
+  const warnings = [...imported.warnings];
+  const validEndpoints = imported.endpoints.filter((ep) => {
+    const result = createEndpointSchema.safeParse({
+      ...ep,
+      description: ep.description ?? undefined,
+      bodySchema: ep.bodySchema ?? undefined,
+    });
+    if (!result.success) {
+      warnings.push(`${ep.method} ${ep.path} skipped: ${result.error.errors[0]?.message ?? 'invalid endpoint'}`);
+    }
+    return result.success;
+  });
+
+  const existingEndpoints = await prisma.connectorEndpoint.findMany({
+    where: { connectorId: id },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      method: true,
+      path: true,
+      upstreamPath: true,
+      upstreamContentType: true,
+      bodySchema: true,
+      requiredHeaders: true,
+    },
+  });
+  const diff = diffOpenApiImport(existingEndpoints, validEndpoints);
+
+  const connectorChanges: Record<string, { from: unknown; to: unknown }> = {};
+  let authDiffers = false;
+  for (const field of CONNECTOR_FIELDS) {
+    if (JSON.stringify(connector[field]) === JSON.stringify(imported.connector[field])) continue;
+    if (AUTH_FIELDS.has(field) && !parsed.data.replaceAuth) {
+      authDiffers = true;
+      continue;
+    }
+    connectorChanges[field] = { from: connector[field], to: imported.connector[field] };
+  }
+  if (authDiffers) {
+    warnings.push(
+      `Kept the connector's "${connector.authType}" auth; the document declares "${imported.connector.authType}". Set replaceAuth to use it.`
+    );
+  }
+
+  if (!parsed.data.commit) {
+    return success({ committed: false, connector: connectorChanges, ...diff, warnings });
+  }
+
+  const importedHost = new URL(imported.connector.upstreamBaseUrl).hostname;
+  const allowedHosts = connector.allowedHosts.includes(importedHost)
+    ? connector.allowedHosts
+    : [...connector.allowedHosts, importedHost];
+
+  await prisma.$transaction(async (tx) => {
+    if (Object.keys(connectorChanges).length > 0) {
+      await tx.serviceConnector.update({
+        where: { id },
+        data: {
+          upstreamBaseUrl: imported.connector.upstreamBaseUrl,
+          ...(parsed.data.replaceAuth && {
+            authType: imported.connector.authType,
+            authConfig: imported.connector.authConfig as Prisma.InputJsonValue,
+            secretRefs: imported.connector.secretRefs,
+          }),
+          allowedHosts,
+          version: { increment: 1 },
+        },
+      });
+    }
+
+    if (diff.added.length > 0) {
+      await tx.connectorEndpoint.createMany({
+        data: diff.added.map((ep) => ({
+          connectorId: id,
+          ...ep,
+        }) as Prisma.ConnectorEndpointCreateManyInput),
+      });
+    }
+
+    for (const change of diff.changed) {
+      await tx.connectorEndpoint.update({
+        where: { id: change.id },
+        data: change.update as Prisma.ConnectorEndpointUpdateInput,
+      });
+    }
+
+    if (parsed.data.removeMissing && diff.removed.length > 0) {
+      await tx.connectorEndpoint.deleteMany({
+        where: { connectorId: id, id: { in: diff.removed.map((ep) => ep.id) } },
+      });
+    }
+  });
+
+  invalidateConnectorCache(ctx.teamId, connector.slug);
+  await invalidateResponseCache(id);
+
+  await logAudit(ctx, {
+    action: 'connector.import',
+    resourceId: id,
+    details: {
+      added: diff.added.length,
+      changed: diff.changed.length,
+      removed: parsed.data.removeMissing ? diff.removed.length : 0,
+      connectorFields: Object.keys(connectorChanges),
+    },
+    request,
+  });
+
+  return success({ committed: true, connector: connectorChanges, ...diff, warnings });
+}
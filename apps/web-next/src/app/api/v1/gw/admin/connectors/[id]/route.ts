@@ -12,9 +12,12 @@ import { Prisma } from '@naap/database';
 import { prisma } from '@/lib/db';
 import { success, errors } from '@/lib/api/response';
 import { getAdminContext, isErrorResponse, loadConnectorWithEndpoints, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
-import { updateConnectorSchema } from '@/lib/gateway/admin/validation';
+import { authConfigError, updateConnectorSchema } from '@/lib/gateway/admin/validation';
 import { invalidateConnectorCache } from '@/lib/gateway/resolve';
+import { invalidateResponseCache } from '@/lib/gateway/cache';
 import { logAudit } from '@/lib/gateway/admin/audit';
+import { withPoolHosts } from '@/lib/gateway/upstream-pool';
+import type { UpstreamTarget } from '@/lib/gateway/types';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -29,7 +32,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
   }
 
   const lastCheck = await prisma.gatewayHealthCheck.findFirst({
-    where: { connectorId: id },
+    where: { connectorId: id, upstreamUrl: null },
     orderBy: { checkedAt: 'desc' },
     select: { status: true, latencyMs: true, checkedAt: true },
   });
@@ -68,16 +71,38 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     );
   }
 
+  if (parsed.data.authType !== undefined || parsed.data.authConfig !== undefined) {
+    const authError = authConfigError(
+      parsed.data.authType ?? existing.authType,
+      parsed.data.authConfig ?? existing.authConfig
+    );
+    if (authError) return errors.validationError({ authConfig: authError });
+  }
+
+  // Keep every pool member reachable through the SSRF filter
+  const poolChanged =
+    parsed.data.upstreamBaseUrl !== undefined ||
+    parsed.data.upstreams !== undefined ||
+    parsed.data.allowedHosts !== undefined;
+  const allowedHosts = poolChanged
+    ? withPoolHosts(parsed.data.allowedHosts ?? existing.allowedHosts, {
+        upstreamBaseUrl: parsed.data.upstreamBaseUrl ?? existing.upstreamBaseUrl,
+        upstreams: parsed.data.upstreams ?? (existing.upstreams as unknown as UpstreamTarget[]),
+      })
+    : undefined;
+
   const connector = await prisma.serviceConnector.update({
     where: { id },
     data: {
       ...(parsed.data as Prisma.ServiceConnectorUpdateInput),
+      ...(allowedHosts && { allowedHosts }),
       version: { increment: 1 },
     },
     include: { endpoints: true },
   });
 
   invalidateConnectorCache(ctx.teamId, connector.slug);
+  await invalidateResponseCache(id);
 
   await logAudit(ctx, { action: 'connector.update', resourceId: id, details: { slug: connector.slug }, request });
 
@@ -102,6 +127,7 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     }
     await prisma.$transaction([
       prisma.gatewayUsageRecord.deleteMany({ where: { connectorId: id } }),
+      prisma.gatewayPayloadCapture.deleteMany({ where: { connectorId: id } }),
       prisma.serviceConnector.delete({ where: { id } }),
     ]);
     await logAudit(ctx, { action: 'connector.purge', resourceId: id, details: { slug: existing.slug }, request });
@@ -7,7 +7,8 @@
  * Raw secret values are NEVER returned in GET responses.
  *
  * Secrets are stored directly via Prisma with AES-256-GCM encryption,
- * matching the encryption scheme used by /api/v1/secrets.
+ * matching the encryption scheme used by /api/v1/secrets. Setting a secret
+ * that already exists rotates it to a new version.
  */
 
 export const runtime = 'nodejs';
@@ -15,8 +16,9 @@ export const runtime = 'nodejs';
 import { NextRequest } from 'next/server';
 import { success, errors } from '@/lib/api/response';
 import { getAdminContext, isErrorResponse, loadOwnedConnector } from '@/lib/gateway/admin/team-guard';
-import { encrypt } from '@/lib/gateway/encryption';
+import { encrypt, encryptionKeyId } from '@/lib/gateway/encryption';
 import { prisma } from '@/lib/db';
+import { rotateVaultSecret, isRotationConflict } from '@/lib/secret-vault';
 import { logAudit } from '@/lib/gateway/admin/audit';
 
 type RouteContext = { params: Promise<{ id: string }> };
@@ -92,23 +94,26 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     return errors.badRequest(`Secret value(s) cannot be empty: ${emptyKeys.map(([k]) => k).join(', ')}`);
   }
 
-  await Promise.all(
-    Object.entries(body).map(async ([name, value]) => {
-      const key = secretKey(ctx.teamId, connector.slug, name);
-      const { encryptedValue, iv } = encrypt(value);
-      await prisma.secretVault.upsert({
-        where: { key },
-        update: { encryptedValue, iv, updatedAt: new Date() },
-        create: {
-          key,
-          encryptedValue,
-          iv,
-          scope: ctx.teamId,
-          createdBy: ctx.userId,
-        },
-      });
-    })
-  );
+  try {
+    await Promise.all(
+      Object.entries(body).map(async ([name, value]) => {
+        const key = secretKey(ctx.teamId, connector.slug, name);
+        const sealed = { ...encrypt(value), keyId: encryptionKeyId() };
+        // An existing secret is rotated so its previous value is versioned
+        const rotated = await rotateVaultSecret(key, sealed, ctx.userId);
+        if (!rotated) {
+          await prisma.secretVault.create({
+            data: { key, ...sealed, scope: ctx.teamId, createdBy: ctx.userId },
+          });
+        }
+      })
+    );
+  } catch (err) {
+    if (isRotationConflict(err)) {
+      return errors.conflict('A secret was updated concurrently; retry');
+    }
+    throw err;
+  }
 
   await logAudit(ctx, { action: 'secret.set', resourceId: id, details: { refs: Object.keys(body), slug: connector.slug }, request });
 
@@ -1,6 +1,9 @@
 /**
  * Service Gateway — Admin: Test Connector Connectivity
  * POST /api/v1/gw/admin/connectors/:id/test
+ *
+ * With a `{ dryRun: {...} }` body, previews the body/response transforms
+ * against sample payloads instead of calling the upstream.
  */
 
 export const runtime = 'nodejs';
@@ -10,6 +13,8 @@ import { success, errors } from '@/lib/api/response';
 import { prisma } from '@/lib/db';
 import { getAdminContext, isErrorResponse, loadConnector } from '@/lib/gateway/admin/team-guard';
 import { testUpstreamConnectivity } from '@/lib/gateway/admin/test-connectivity';
+import { previewTransforms } from '@/lib/gateway/admin/transform-preview';
+import { transformPreviewSchema } from '@/lib/gateway/admin/validation';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -23,6 +28,54 @@ export async function POST(request: NextRequest, context: RouteContext) {
     return errors.notFound('Connector');
   }
 
+  let body: { dryRun?: unknown } = {};
+  const rawBody = await request.text();
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return errors.badRequest('Invalid JSON body');
+    }
+  }
+
+  if (body && body.dryRun !== undefined) {
+    const parsed = transformPreviewSchema.safeParse(body.dryRun);
+    if (!parsed.success) {
+      return errors.validationError(
+        Object.fromEntries(
+          parsed.error.errors.map((e) => [e.path.join('.'), e.message])
+        )
+      );
+    }
+
+    const preview = parsed.data;
+    let endpoint = null;
+    if (preview.endpointId) {
+      endpoint = await prisma.connectorEndpoint.findFirst({
+        where: { id: preview.endpointId, connectorId: id },
+      });
+      if (!endpoint) {
+        return errors.notFound('Endpoint');
+      }
+    }
+
+    const result = await previewTransforms({
+      connector: {
+        slug: connector.slug,
+        responseWrapper: connector.responseWrapper,
+        streamingEnabled: connector.streamingEnabled,
+        errorMapping: connector.errorMapping as Record<string, string>,
+      },
+      bodyTransform: preview.bodyTransform ?? endpoint?.bodyTransform ?? 'passthrough',
+      responseBodyTransform: preview.responseBodyTransform ?? endpoint?.responseBodyTransform ?? 'none',
+      upstreamStaticBody: preview.upstreamStaticBody ?? endpoint?.upstreamStaticBody ?? null,
+      sampleRequest: preview.sampleRequest,
+      sampleResponse: preview.sampleResponse,
+    });
+
+    return success({ dryRun: true, ...result });
+  }
+
   const result = await testUpstreamConnectivity(
     connector.upstreamBaseUrl,
     connector.healthCheckPath,
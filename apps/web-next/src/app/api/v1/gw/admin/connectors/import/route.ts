@@ -0,0 +1,135 @@
+/**
+ * Service Gateway — Admin: Import Connector from OpenAPI
+ * POST /api/v1/gw/admin/connectors/import
+ *
+ * Creates a draft connector and its endpoints from an OpenAPI 3.0/3.1
+ * JSON or YAML document. With `dryRun: true` the mapped connector is
+ * returned without being saved (used by the wizard to prefill its form).
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { Prisma } from '@naap/database';
+import { prisma } from '@/lib/db';
+import { success, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse } from '@/lib/gateway/admin/team-guard';
+import {
+  createConnectorSchema,
+  createEndpointSchema,
+  openApiImportSchema,
+} from '@/lib/gateway/admin/validation';
+import { importOpenApi, OpenApiImportError } from '@/lib/gateway/openapi-import';
+import { invalidateConnectorCache } from '@/lib/gateway/resolve';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+export async function POST(request: NextRequest) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errors.badRequest('Invalid JSON body');
+  }
+
+  const parsed = openApiImportSchema.safeParse(body);
+  if (!parsed.success) {
+    return errors.validationError(
+      Object.fromEntries(
+        parsed.error.errors.map((e) => [e.path.join('.'), e.message])
+      )
+    );
+  }
+
+  let imported;
+  try {
+    imported = importOpenApi(parsed.data.spec, {
+      slug: parsed.data.slug,
+      serverIndex: parsed.data.serverIndex,
+      upstreamBaseUrl: parsed.data.upstreamBaseUrl,
+    });
+  } catch (err) {
+    if (err instanceof OpenApiImportError) return errors.badRequest(err.message);
+    throw err;
+  }
+
+  const connectorInput = createConnectorSchema.safeParse({
+    ...imported.connector,
+    visibility: parsed.data.visibility,
+  });
+  if (!connectorInput.success) {
+    return errors.validationError(
+      Object.fromEntries(
+        connectorInput.error.errors.map((e) => [`connector.${e.path.join('.')}`, e.message])
+      )
+    );
+  }
+
+  const warnings = [...imported.warnings];
+  const endpoints = imported.endpoints.flatMap((ep) => {
+    const result = createEndpointSchema.safeParse({
+      ...ep,
+      description: ep.description ?? undefined,
+      bodySchema: ep.bodySchema ?? undefined,
+    });
+    if (result.success) return [result.data];
+    warnings.push(`${ep.method} ${ep.path} skipped: ${result.error.errors[0]?.message ?? 'invalid endpoint'}`);
+    return [];
+  });
+
+  if (parsed.data.dryRun) {
+    return success({ connector: connectorInput.data, endpoints, warnings });
+  }
+
+  const slug = connectorInput.data.slug;
+  const existing = ctx.isPersonal
+    ? await prisma.serviceConnector.findUnique({
+        where: { ownerUserId_slug: { ownerUserId: ctx.userId, slug } },
+      })
+    : await prisma.serviceConnector.findUnique({
+        where: { teamId_slug: { teamId: ctx.teamId, slug } },
+      });
+  if (existing) {
+    return errors.conflict(`Connector with slug "${slug}" already exists`);
+  }
+
+  const ownerData = ctx.isPersonal
+    ? { ownerUserId: ctx.userId }
+    : { teamId: ctx.teamId };
+
+  const created = await prisma.$transaction(async (tx) => {
+    const connector = await tx.serviceConnector.create({
+      data: {
+        ...ownerData,
+        createdBy: ctx.userId,
+        ...connectorInput.data,
+        status: 'draft',
+      } as Prisma.ServiceConnectorUncheckedCreateInput,
+    });
+
+    await tx.connectorEndpoint.createMany({
+      data: endpoints.map((ep) => ({
+        connectorId: connector.id,
+        ...ep,
+      }) as Prisma.ConnectorEndpointCreateManyInput),
+    });
+
+    return tx.serviceConnector.findUnique({
+      where: { id: connector.id },
+      include: { endpoints: true },
+    });
+  });
+
+  invalidateConnectorCache(ctx.teamId, slug);
+
+  await logAudit(ctx, {
+    action: 'connector.import',
+    resourceId: created?.id,
+    details: { slug, endpoints: endpoints.length, warnings: warnings.length },
+    request,
+  });
+
+  return success({ connector: created, warnings });
+}
@@ -13,6 +13,7 @@ import { success, successPaginated, errors, parsePagination } from '@/lib/api/re
 import { getAdminContext, isErrorResponse } from '@/lib/gateway/admin/team-guard';
 import { createConnectorSchema } from '@/lib/gateway/admin/validation';
 import { invalidateConnectorCache } from '@/lib/gateway/resolve';
+import { withPoolHosts } from '@/lib/gateway/upstream-pool';
 import { logAudit } from '@/lib/gateway/admin/audit';
 
 function ownerWhere(ctx: { teamId: string; userId: string; isPersonal: boolean }) {
@@ -55,6 +56,7 @@ export async function GET(request: NextRequest) {
       include: {
         endpoints: { select: { id: true } },
         healthChecks: {
+          where: { upstreamUrl: null },
           orderBy: { checkedAt: 'desc' },
           take: 1,
           select: { status: true, latencyMs: true, checkedAt: true },
@@ -124,6 +126,7 @@ export async function POST(request: NextRequest) {
       // Invalid URL — will be caught by further validation
     }
   }
+  allowedHosts = withPoolHosts(allowedHosts, parsed.data);
 
   const ownerData = ctx.isPersonal
     ? { ownerUserId: ctx.userId }
@@ -0,0 +1,69 @@
+/**
+ * Service Gateway — Admin: Connector Circuit Breaker
+ * GET    /api/v1/gw/admin/health/:id/circuit
+ * DELETE /api/v1/gw/admin/health/:id/circuit
+ *
+ * Shows the shared circuit breaker state for a connector, or manually
+ * resets it to CLOSED (e.g. after an upstream incident is resolved).
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { success, errors } from '@/lib/api/response';
+import {
+  getAdminContext,
+  isErrorResponse,
+  loadConnector,
+  loadOwnedConnector,
+} from '@/lib/gateway/admin/team-guard';
+import { getCircuit, resetCircuit } from '@/lib/gateway/circuit-breaker';
+import { logAudit } from '@/lib/gateway/admin/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const circuit = await getCircuit(id);
+
+  return success({
+    connectorId: id,
+    slug: connector.slug,
+    failureThreshold: connector.circuitFailureThreshold,
+    openDurationMs: connector.circuitOpenDurationMs,
+    ...circuit,
+    lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt).toISOString() : null,
+    nextProbeAt: circuit.state === 'OPEN' ? new Date(circuit.nextProbeAt).toISOString() : null,
+  });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const { id } = await context.params;
+  const connector = await loadOwnedConnector(id, ctx.teamId);
+  if (!connector) {
+    return errors.notFound('Connector');
+  }
+
+  const previous = await getCircuit(id);
+  await resetCircuit(id);
+
+  await logAudit(ctx, {
+    action: 'circuit.reset',
+    resourceId: id,
+    details: { slug: connector.slug, previousState: previous.state, failures: previous.failures },
+    request,
+  });
+
+  return success({ connectorId: id, slug: connector.slug, state: 'CLOSED', previousState: previous.state });
+}
@@ -4,6 +4,10 @@
 // Runs a health check against all published connectors.
 // Can be triggered manually (POST) or by Vercel Cron (GET, every 5 minutes).
 //
+// Connectors with an upstream pool get one check per pool member; each
+// result is recorded with its upstreamUrl and published for routing, and the
+// connector-level row summarises the pool (up / degraded / down).
+//
 // For cron: uses CRON_SECRET for auth instead of JWT.
 
 export const runtime = 'nodejs';
@@ -13,10 +17,22 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db';
 import { success } from '@/lib/api/response';
 import { testUpstreamConnectivity } from '@/lib/gateway/admin/test-connectivity';
+import {
+  getUpstreamPool,
+  publishUpstreamHealth,
+  type UpstreamHealthStatus,
+} from '@/lib/gateway/upstream-pool';
+import type { UpstreamTarget } from '@/lib/gateway/types';
 
 const CONCURRENCY_LIMIT = 5;
 const PER_CONNECTOR_TIMEOUT_MS = 10_000;
 
+function healthStatusOf(result: { success: boolean; latencyMs: number }): UpstreamHealthStatus {
+  if (!result.success) return 'down';
+  if (result.latencyMs > 2000) return 'degraded';
+  return 'up';
+}
+
 async function runHealthCheck(request: NextRequest) {
   const cronSecret = process.env.CRON_SECRET;
   const authHeader = request.headers.get('authorization');
@@ -36,6 +52,7 @@ async function runHealthCheck(request: NextRequest) {
       ownerUserId: true,
       slug: true,
       upstreamBaseUrl: true,
+      upstreams: true,
       healthCheckPath: true,
       authType: true,
       authConfig: true,
@@ -61,8 +78,12 @@ async function runHealthCheck(request: NextRequest) {
 
         try {
           const scopeId = connector.teamId ?? `personal:${connector.ownerUserId}`;
-          const result = await testUpstreamConnectivity(
-            connector.upstreamBaseUrl,
+          const pool = getUpstreamPool({
+            upstreamBaseUrl: connector.upstreamBaseUrl,
+            upstreams: (connector.upstreams ?? []) as unknown as UpstreamTarget[],
+          });
+          const checkUpstream = (baseUrl: string) => testUpstreamConnectivity(
+            baseUrl,
             connector.healthCheckPath,
             connector.authType,
             connector.authConfig as Record<string, unknown>,
@@ -73,11 +94,38 @@ async function runHealthCheck(request: NextRequest) {
             connector.slug,
           );
 
-          let status = 'up';
-          if (!result.success) {
-            status = 'down';
-          } else if (result.latencyMs > 2000) {
-            status = 'degraded';
+          let result;
+          let status: string;
+          if (pool.length > 1) {
+            const memberResults = await Promise.all(pool.map((target) => checkUpstream(target.url)));
+            await Promise.all(
+              pool.map(async (target, idx) => {
+                const member = memberResults[idx];
+                const memberStatus = healthStatusOf(member);
+                await prisma.gatewayHealthCheck.create({
+                  data: {
+                    connectorId: connector.id,
+                    upstreamUrl: target.url,
+                    status: memberStatus,
+                    latencyMs: member.latencyMs,
+                    statusCode: member.statusCode,
+                    error: member.error,
+                  },
+                });
+                await publishUpstreamHealth(connector.id, target.url, {
+                  status: memberStatus,
+                  latencyMs: member.latencyMs,
+                  checkedAt: Date.now(),
+                });
+              })
+            );
+
+            const upCount = memberResults.filter((r) => r.success).length;
+            result = memberResults.find((r) => r.success) ?? memberResults[0];
+            status = upCount === 0 ? 'down' : upCount < pool.length ? 'degraded' : healthStatusOf(result);
+          } else {
+            result = await checkUpstream(pool[0].url);
+            status = healthStatusOf(result);
           }
 
           await prisma.gatewayHealthCheck.create({
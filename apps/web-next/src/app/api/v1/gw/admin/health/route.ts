@@ -2,7 +2,8 @@
  * Service Gateway — Admin: Health Status Overview
  * GET /api/v1/gw/admin/health
  *
- * Returns the latest health status for all published connectors (team-scoped).
+ * Returns the latest health status and circuit breaker state for all
+ * published connectors (team-scoped).
  */
 
 export const runtime = 'nodejs';
@@ -11,6 +12,7 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db';
 import { success } from '@/lib/api/response';
 import { getAdminContext, isErrorResponse } from '@/lib/gateway/admin/team-guard';
+import { getCircuit } from '@/lib/gateway/circuit-breaker';
 
 export async function GET(request: NextRequest) {
   const ctx = await getAdminContext(request);
@@ -28,6 +30,7 @@ export async function GET(request: NextRequest) {
       displayName: true,
       upstreamBaseUrl: true,
       healthChecks: {
+        where: { upstreamUrl: null },
         orderBy: { checkedAt: 'desc' },
         take: 1,
         select: {
@@ -41,7 +44,9 @@ export async function GET(request: NextRequest) {
     },
   });
 
-  const data = connectors.map((c) => {
+  const circuits = await Promise.all(connectors.map((c) => getCircuit(c.id)));
+
+  const data = connectors.map((c, i) => {
     const lastCheck = c.healthChecks[0] || null;
     return {
       connectorId: c.id,
@@ -53,6 +58,8 @@ export async function GET(request: NextRequest) {
       statusCode: lastCheck?.statusCode || null,
       error: lastCheck?.error || null,
       lastCheckedAt: lastCheck?.checkedAt?.toISOString() || null,
+      circuitState: circuits[i].state,
+      circuitFailures: circuits[i].failures,
     };
   });
 
@@ -67,6 +74,7 @@ export async function GET(request: NextRequest) {
       down: downCount,
       degraded: degradedCount,
       unknown: data.length - upCount - downCount - degradedCount,
+      circuitOpen: data.filter((d) => d.circuitState === 'OPEN').length,
     },
     connectors: data,
   });
@@ -56,6 +56,7 @@ export async function GET(request: NextRequest) {
     prisma.gatewayHealthCheck.findMany({
       where: {
         connectorId: { in: connectorIds },
+        upstreamUrl: null,
         checkedAt: { gte: periodStart, lt: periodEnd },
       },
       select: { connectorId: true, status: true },
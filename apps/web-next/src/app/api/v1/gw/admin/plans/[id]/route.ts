@@ -22,6 +22,7 @@ const updatePlanSchema = z.object({
   maxRequestSize: z.number().int().min(0).optional(),
   maxResponseSize: z.number().int().min(0).optional(),
   burstLimit: z.number().int().min(1).nullable().optional(),
+  maxConcurrent: z.number().int().min(1).max(10_000).nullable().optional(),
   allowedConnectors: z.array(z.string()).optional(),
 });
 
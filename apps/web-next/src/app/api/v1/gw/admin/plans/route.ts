@@ -23,6 +23,7 @@ const createPlanSchema = z.object({
   maxRequestSize: z.number().int().min(0).default(1_048_576),
   maxResponseSize: z.number().int().min(0).default(4_194_304),
   burstLimit: z.number().int().min(1).optional(),
+  maxConcurrent: z.number().int().min(1).max(10_000).optional(),
   allowedConnectors: z.array(z.string()).default([]),
 });
 
@@ -0,0 +1,143 @@
+/**
+ * Service Gateway — Admin: Usage Statements
+ * GET  /api/v1/gw/admin/usage/statements  — Monthly statement (?month=YYYY-MM&apiKeyId=&format=json|csv)
+ * POST /api/v1/gw/admin/usage/statements  — Push the team statement to the team's billing provider
+ *
+ * Only the team-wide statement is pushed: per-key statements are a breakdown
+ * of the same usage (each with its own free quota), so pushing them as well
+ * would bill the month twice.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { success, error, errors } from '@/lib/api/response';
+import { getAdminContext, isErrorResponse, type AdminContext } from '@/lib/gateway/admin/team-guard';
+import { logAudit } from '@/lib/gateway/admin/audit';
+import { scopeOwnerWhere } from '@/lib/gateway/scope';
+import { AdapterNotImplementedError } from '@/lib/billing/adapter';
+import { teamBillingAccountRef } from '@/lib/teams/billing-account-ref';
+import {
+  generateUsageStatement,
+  pushUsageStatement,
+  statementToCsv,
+  StatementError,
+} from '@/lib/gateway/statements';
+
+const statementQuerySchema = z.object({
+  month: z.string().optional(),
+  apiKeyId: z.string().uuid().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+const pushStatementSchema = z.object({
+  month: z.string(),
+  apiKeyId: z.undefined({
+    errorMap: () => ({ message: 'Per-key statements cannot be pushed; push the team statement' }),
+  }),
+});
+
+async function keyInScope(ctx: AdminContext, apiKeyId: string): Promise<boolean> {
+  const key = await prisma.gatewayApiKey.findFirst({
+    where: { id: apiKeyId, ...scopeOwnerWhere(ctx.teamId) },
+    select: { id: true },
+  });
+  return !!key;
+}
+
+export async function GET(request: NextRequest) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  const parsed = statementQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+  if (!parsed.success) {
+    return errors.validationError(
+      Object.fromEntries(parsed.error.errors.map((e) => [e.path.join('.'), e.message]))
+    );
+  }
+  const { month, apiKeyId, format } = parsed.data;
+
+  if (apiKeyId && !(await keyInScope(ctx, apiKeyId))) {
+    return errors.notFound('API key');
+  }
+
+  let statement;
+  try {
+    statement = await generateUsageStatement(ctx.teamId, month, apiKeyId);
+  } catch (err) {
+    if (err instanceof StatementError) return errors.badRequest(err.message);
+    throw err;
+  }
+
+  if (format === 'csv') {
+    const suffix = apiKeyId ? `-${apiKeyId.slice(0, 8)}` : '';
+    return new NextResponse(statementToCsv(statement), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename=gateway-statement-${statement.period.month}${suffix}.csv`,
+      },
+    });
+  }
+
+  return success(statement);
+}
+
+export async function POST(request: NextRequest) {
+  const ctx = await getAdminContext(request);
+  if (isErrorResponse(ctx)) return ctx;
+
+  if (ctx.isPersonal) {
+    return errors.badRequest('Statements can only be pushed for a team with a billing account');
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errors.badRequest('Invalid JSON body');
+  }
+
+  const parsed = pushStatementSchema.safeParse(body);
+  if (!parsed.success) {
+    return errors.validationError(
+      Object.fromEntries(parsed.error.errors.map((e) => [e.path.join('.'), e.message]))
+    );
+  }
+  const { month } = parsed.data;
+
+  const team = await prisma.team.findUnique({
+    where: { id: ctx.teamId },
+    select: { id: true, billingAccountProviderSlug: true, billingAccountId: true },
+  });
+  const ref = team ? teamBillingAccountRef(team) : null;
+  if (!ref) {
+    return errors.badRequest('Team has no billing account bound');
+  }
+
+  let statement;
+  let pushed;
+  try {
+    statement = await generateUsageStatement(ctx.teamId, month);
+    pushed = await pushUsageStatement(statement, ref);
+  } catch (err) {
+    if (err instanceof StatementError) return errors.badRequest(err.message);
+    if (err instanceof AdapterNotImplementedError) {
+      return error('NOT_IMPLEMENTED', `Billing provider "${ref.providerSlug}" does not accept usage statements`, 501);
+    }
+    console.error('[gateway] statement push failed:', err);
+    return errors.serviceUnavailable('Billing provider request failed');
+  }
+
+  logAudit(ctx, {
+    action: 'usage.statement.push',
+    resourceId: statement.id,
+    details: { month: statement.period.month, provider: ref.providerSlug, totals: statement.totals },
+    request,
+  }).catch(() => {});
+
+  return success({ statementId: statement.id, provider: ref.providerSlug, totals: statement.totals, pushed });
+}
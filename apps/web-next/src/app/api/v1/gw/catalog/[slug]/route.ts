@@ -41,7 +41,7 @@ export async function GET(
     include: {
       endpoints: { where: { enabled: true }, orderBy: { createdAt: 'asc' } },
       pricing: true,
-      healthChecks: { orderBy: { checkedAt: 'desc' }, take: 1 },
+      healthChecks: { where: { upstreamUrl: null }, orderBy: { checkedAt: 'desc' }, take: 1 },
       metrics: { where: { period: 'hourly' }, orderBy: { periodStart: 'desc' }, take: 1 },
       rankings: { orderBy: { qualityRank: 'asc' } },
     },
@@ -1,24 +1,41 @@
 /**
- * Service Gateway — MCP JSON-RPC 2.0 Endpoint
+ * Service Gateway — MCP Endpoint (Streamable HTTP)
  * POST /api/v1/gw/mcp
+ * GET  /api/v1/gw/mcp
  *
- * Handles MCP tools/list and tools/call. Auth: master key or JWT.
+ * JSON-RPC 2.0 over the MCP Streamable HTTP transport: initialize, ping,
+ * tools/list, tools/call, resources/list, resources/read, prompts/list
+ * and prompts/get. Single messages and batches are accepted; requests
+ * without an id (notifications) get 202.
+ *
+ * When the client accepts `text/event-stream` and a tools/call carries
+ * `_meta.progressToken`, the response is an SSE stream of
+ * `notifications/progress` followed by the JSON-RPC result. Otherwise the
+ * result is plain JSON.
+ *
+ * The server is stateless — no session id is issued and GET (a
+ * server-initiated stream) returns 405.
+ *
+ * Auth: master key, JWT or API key. Keys bound to a connector or to
+ * `allowedEndpoints` only see and call those tools.
  */
 
 export const runtime = 'nodejs';
+export const maxDuration = 300;
 
 import { NextRequest } from 'next/server';
 import { authorize } from '@/lib/gateway/authorize';
-import { buildToolCatalog } from '@/lib/gateway/catalog';
-import { catalogToMcpTools, mcpToolNameToRoute } from '@/lib/gateway/mcp-adapter';
+import { buildToolCatalog, loadToolOpenApiSpec } from '@/lib/gateway/catalog';
+import { handleMcpRequest, resolveMcpTool } from '@/lib/gateway/mcp-adapter';
+import { callGatewayTool, type McpProgress } from '@/lib/gateway/mcp-call';
 import type { ToolDescriptor } from '@/lib/gateway/catalog';
+import type { JsonRpcRequest, JsonRpcResponse } from '@/lib/gateway/mcp-adapter';
+import type { AuthResult } from '@/lib/gateway/types';
 
-interface JsonRpcRequest {
-  jsonrpc: '2.0';
-  id: number | string;
-  method: string;
-  params?: Record<string, unknown>;
-}
+/** Upper bound on connectors loaded per MCP request; lists page over these. */
+const MCP_CATALOG_LIMIT = 500;
+
+type JsonRpcMessage = Partial<JsonRpcRequest> & { result?: unknown; error?: unknown };
 
 export async function POST(request: NextRequest) {
   const auth = await authorize(request);
@@ -30,9 +47,9 @@ export async function POST(request: NextRequest) {
     }, { status: 401 });
   }
 
-  let body: JsonRpcRequest;
+  let body: JsonRpcMessage | JsonRpcMessage[];
   try {
-    body = await request.json() as JsonRpcRequest;
+    body = await request.json() as JsonRpcMessage | JsonRpcMessage[];
   } catch {
     return Response.json(
       { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
@@ -40,133 +57,150 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (body.jsonrpc !== '2.0' || body.id == null) {
+  const isBatch = Array.isArray(body);
+  const messages: JsonRpcMessage[] = Array.isArray(body) ? body : [body];
+  if (messages.length === 0 || messages.some((m) => !m || typeof m !== 'object')) {
+    return Response.json(
+      { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid JSON-RPC request' } },
+      { status: 400 }
+    );
+  }
+
+  // Notifications and client responses need no reply
+  const pending = messages.filter((m) => !isNotificationOrResponse(m)) as JsonRpcRequest[];
+  if (pending.length === 0) {
+    return new Response(null, { status: 202 });
+  }
+
+  if (!isBatch && (pending[0].jsonrpc !== '2.0' || !pending[0].method)) {
     return Response.json(
       {
         jsonrpc: '2.0',
-        id: body?.id ?? null,
+        id: pending[0].id ?? null,
         error: { code: -32600, message: 'Invalid JSON-RPC request' },
       },
       { status: 400 }
     );
   }
 
-  const { tools } = await buildToolCatalog(auth.teamId);
+  const { tools } = await buildToolCatalog(auth.teamId, {
+    pageSize: MCP_CATALOG_LIMIT,
+    access: { connectorId: auth.connectorId, allowedEndpoints: auth.allowedEndpoints },
+  });
 
-  switch (body.method) {
-    case 'tools/list': {
-      const mcpTools = catalogToMcpTools(tools);
-      return Response.json({
-        jsonrpc: '2.0',
-        id: body.id,
-        result: { tools: mcpTools },
-      });
+  const wantsStream = (request.headers.get('accept') || '').includes('text/event-stream')
+    && pending.some((m) => m.method === 'tools/call' && progressTokenOf(m) != null);
+
+  if (!wantsStream) {
+    const responses: JsonRpcResponse[] = [];
+    for (const message of pending) {
+      responses.push(await dispatch(message, tools, auth, request));
     }
+    if (isBatch) return Response.json(responses);
 
-    case 'tools/call': {
-      const params = (body.params || {}) as Record<string, unknown>;
-      const toolName = params.name as string;
-      const args = (params.arguments || {}) as Record<string, unknown>;
-
-      if (!toolName) {
-        return Response.json({
-          jsonrpc: '2.0',
-          id: body.id,
-          error: { code: -32602, message: 'Missing required param: name' },
-        });
-      }
+    const status = responses[0].error?.code === -32603 ? 502 : 200;
+    return Response.json(responses[0], { status });
+  }
 
-      const { connector, endpointPath } = mcpToolNameToRoute(toolName);
-      const resolved = resolveEndpointFromCatalog(tools, connector, endpointPath);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+        } catch {
+          // Client went away — the request signal aborts the tool call
+        }
+      };
 
-      if (!resolved) {
-        return Response.json({
-          jsonrpc: '2.0',
-          id: body.id,
-          error: { code: -32602, message: `Unknown tool or endpoint: ${toolName}` },
-        });
+      for (const message of pending) {
+        const token = progressTokenOf(message);
+        const onProgress = token != null
+          ? (p: McpProgress) => send({
+              jsonrpc: '2.0',
+              method: 'notifications/progress',
+              params: { progressToken: token, ...p },
+            })
+          : undefined;
+        send(await dispatch(message, tools, auth, request, onProgress));
       }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
 
-      const { connectorSlug, method, path } = resolved;
-      const { appUrl: selfOrigin } = await import('@/lib/env');
-      const proxyPath = `/api/v1/gw/${encodeURIComponent(connectorSlug)}${path}`;
-      let url = `${selfOrigin}${proxyPath}`;
-
-      const authHeader = request.headers.get('authorization');
-      const teamIdHeader = request.headers.get('x-team-id');
-      const reqIdHeader = request.headers.get('x-request-id');
-      const traceIdHeader = request.headers.get('x-trace-id');
-
-      const fetchOptions: RequestInit = {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(authHeader ? { Authorization: authHeader } : {}),
-          ...(teamIdHeader ? { 'x-team-id': teamIdHeader } : {}),
-          ...(reqIdHeader ? { 'x-request-id': reqIdHeader } : {}),
-          ...(traceIdHeader ? { 'x-trace-id': traceIdHeader } : {}),
-        },
-      };
+export async function GET() {
+  return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+}
 
-      if (method === 'GET' || method === 'HEAD') {
-        if (Object.keys(args).length > 0) {
-          const qs = new URLSearchParams();
-          for (const [k, v] of Object.entries(args)) {
-            qs.set(k, typeof v === 'string' ? v : JSON.stringify(v));
-          }
-          url += `?${qs.toString()}`;
-        }
-      } else if (Object.keys(args).length > 0) {
-        fetchOptions.body = JSON.stringify(args);
-      }
+async function dispatch(
+  message: JsonRpcRequest,
+  tools: ToolDescriptor[],
+  auth: AuthResult,
+  request: NextRequest,
+  onProgress?: (progress: McpProgress) => void
+): Promise<JsonRpcResponse> {
+  const { appUrl } = await import('@/lib/env');
+
+  if (message.jsonrpc !== '2.0' || message.method !== 'tools/call') {
+    return handleMcpRequest(message, tools, {
+      loadOpenApiSpec: (tool) => loadToolOpenApiSpec(auth.teamId, tool, appUrl),
+    });
+  }
 
-      let response: globalThis.Response;
-      try {
-        response = await fetch(url, fetchOptions);
-      } catch (err) {
-        return Response.json({
-          jsonrpc: '2.0',
-          id: body.id,
-          error: { code: -32603, message: `Internal error: ${String(err)}` },
-        }, { status: 502 });
-      }
+  const params = message.params || {};
+  const toolName = params.name as string;
+  const args = (params.arguments || {}) as Record<string, unknown>;
 
-      const responseBody = await response.text();
-      const isError = response.status >= 400;
+  if (!toolName) {
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32602, message: 'Missing required param: name' },
+    };
+  }
 
-      return Response.json({
-        jsonrpc: '2.0',
-        id: body.id,
-        result: {
-          content: [{ type: 'text' as const, text: responseBody }],
-          isError,
-        },
-      });
-    }
+  const resolved = resolveMcpTool(tools, toolName);
+  if (!resolved) {
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32602, message: `Unknown tool or endpoint: ${toolName}` },
+    };
+  }
 
-    default:
-      return Response.json({
-        jsonrpc: '2.0',
-        id: body.id,
-        error: { code: -32601, message: `Unknown method: ${body.method}` },
-      });
+  try {
+    const result = await callGatewayTool(
+      appUrl,
+      { connectorSlug: resolved.tool.name, method: resolved.endpoint.method, path: resolved.endpoint.path },
+      args,
+      { headers: request.headers, onProgress, signal: request.signal }
+    );
+    return { jsonrpc: '2.0', id: message.id, result };
+  } catch (err) {
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32603, message: `Internal error: ${String(err)}` },
+    };
   }
 }
 
-function resolveEndpointFromCatalog(
-  catalog: ToolDescriptor[],
-  connector: string,
-  endpointPath: string
-): { connectorSlug: string; method: string; path: string } | null {
-  const tool = catalog.find((t) => t.name === connector);
-  if (!tool) return null;
-
-  const endpoint = tool.endpoints.find(
-    (ep) =>
-      ep.name === endpointPath ||
-      ep.name.replace(/-/g, '_') === endpointPath.replace(/-/g, '_')
-  );
-  if (!endpoint) return null;
-
-  return { connectorSlug: tool.name, method: endpoint.method, path: endpoint.path };
+function isNotificationOrResponse(message: JsonRpcMessage): boolean {
+  if (message.id == null) return message.jsonrpc === '2.0' && typeof message.method === 'string';
+  return message.method === undefined && ('result' in message || 'error' in message);
+}
+
+function progressTokenOf(message: Partial<JsonRpcRequest>): string | number | undefined {
+  const meta = message.params?._meta as { progressToken?: string | number } | undefined;
+  return meta?.progressToken;
 }
@@ -13,6 +13,7 @@ const anyTeamFlagOverrideEnabled = vi.fn();
 vi.mock('@/lib/feature-flags', () => ({
   isFeatureEnabled: (...a: unknown[]) => isFeatureEnabled(...a),
   anyTeamFlagOverrideEnabled: (...a: unknown[]) => anyTeamFlagOverrideEnabled(...a),
+  buildFlagContextForUserId: async (userId: string, teamId?: string | null) => ({ userId, teamId, roles: [] }),
   PER_KEY_REMOTE_SIGNER_FLAG: 'per_key_remote_signer',
 }));
 
@@ -309,8 +310,8 @@ describe('per-key remote signer (per_key_remote_signer)', () => {
 describe('per-team front-door scoping (zero-blast-radius)', () => {
   // Front door is GLOBALLY OFF in every test here; only a per-team override opens it.
   const frontDoorEnabledForTeam = (enabledTeamId: string | null) =>
-    isFeatureEnabled.mockImplementation(async (key: string, teamId?: string | null) =>
-      key === 'key_validation_front_door' ? teamId != null && teamId === enabledTeamId : false,
+    isFeatureEnabled.mockImplementation(async (key: string, ctx?: { teamId?: string | null }) =>
+      key === 'key_validation_front_door' ? ctx?.teamId != null && ctx.teamId === enabledTeamId : false,
     );
 
   it('ZERO REGRESSION: globally OFF + no team opted in → 404, never touches the key DB', async () => {
@@ -436,4 +437,16 @@ describe('NAAP-E capability gate', () => {
     const res = await POST(req(rawKey, { 'x-requested-capability': 'tool:anything' }));
     expect(res.status).toBe(200);
   });
+
+  it('evaluates the gate for the key owner, so user targeting applies', async () => {
+    isFeatureEnabled.mockImplementation(async (key: string, ctx?: { userId?: string | null }) =>
+      key === 'key_validation_front_door' ? true : key === 'capability_gate' ? ctx?.userId === 'user-1' : false,
+    );
+    const res = await POST(req(rawKey, { 'x-requested-capability': 'tool:rogue' }));
+    expect(res.status).toBe(403);
+    expect(isFeatureEnabled).toHaveBeenCalledWith(
+      'capability_gate',
+      expect.objectContaining({ userId: 'user-1', teamId: 'team-1' }),
+    );
+  });
 });
@@ -26,7 +26,12 @@ import { randomUUID } from 'node:crypto';
 import { prisma } from '@/lib/db';
 import { error, errors, success } from '@/lib/api/response';
 import { enforceRateLimit } from '@/lib/api/rate-limit';
-import { isFeatureEnabled, anyTeamFlagOverrideEnabled, PER_KEY_REMOTE_SIGNER_FLAG } from '@/lib/feature-flags';
+import {
+  isFeatureEnabled,
+  anyTeamFlagOverrideEnabled,
+  buildFlagContextForUserId,
+  PER_KEY_REMOTE_SIGNER_FLAG,
+} from '@/lib/feature-flags';
 import { parseApiKey } from '@naap/database';
 import { AdapterNotImplementedError, type SignerSession } from '@/lib/billing/adapter';
 import { getBillingProviderAdapter } from '@/lib/billing/registry';
@@ -151,9 +156,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // masked back to 404 (endpoint stays hidden for it, exactly as today). The
     // override fetch is cached and reused by every team-scoped flag check below,
     // so this adds no extra DB round-trip on the hot path. With NO override the
-    // result equals the global value (zero regression).
+    // result equals the global value (zero regression). Every flag below is
+    // evaluated for the key's owner and team, so targeting rules and
+    // rollouts see who is asking.
     const teamId = key.teamId;
-    if (!(await isFeatureEnabled(FRONT_DOOR_FLAG, teamId))) {
+    const flagContext = await buildFlagContextForUserId(key.userId, teamId);
+    if (!(await isFeatureEnabled(FRONT_DOOR_FLAG, flagContext))) {
       return noStore(errors.notFound('Resource'));
     }
 
@@ -212,7 +220,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     let signerSession: SignerSession = resolved.signerSession;
     if (
       adapter?.resolveSignerEndpoint &&
-      (await isFeatureEnabled(PER_KEY_REMOTE_SIGNER_FLAG, teamId))
+      (await isFeatureEnabled(PER_KEY_REMOTE_SIGNER_FLAG, flagContext))
     ) {
       try {
         signerSession = await adapter.resolveSignerEndpoint(resolved.signerSession, {
@@ -254,7 +262,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // exactly as before). ON → an optional `X-Requested-Capability` the resolved
     // plan does not grant is denied (fail closed; an empty grant set denies all).
     const gate = enforceCapabilityGate({
-      enabled: await isFeatureEnabled(CAPABILITY_GATE_FLAG, teamId),
+      enabled: await isFeatureEnabled(CAPABILITY_GATE_FLAG, flagContext),
       granted: capabilities,
       requested: request.headers.get('x-requested-capability'),
     });
@@ -0,0 +1,42 @@
+/**
+ * Notification Inbox Item API
+ * PATCH /api/v1/notifications/[id] - Mark a notification read or unread ({ read: boolean })
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { validateSession } from '@/lib/api/auth';
+import { success, errors, getAuthToken } from '@/lib/api/response';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const token = getAuthToken(request);
+    if (!token) return errors.unauthorized('No auth token provided');
+
+    const sessionUser = await validateSession(token);
+    if (!sessionUser) return errors.unauthorized('Invalid or expired session');
+
+    const { id } = await params;
+    const body = await request.json();
+    if (typeof body.read !== 'boolean') {
+      return errors.badRequest('read must be a boolean');
+    }
+
+    // Scoped to the current user, so another user's notification reads as not found
+    const { count } = await prisma.inAppNotification.updateMany({
+      where: { id, userId: sessionUser.id },
+      data: { readAt: body.read ? new Date() : null },
+    });
+    if (count === 0) {
+      return errors.notFound('Notification');
+    }
+
+    return success({ id, read: body.read });
+  } catch (err) {
+    console.error('Error updating notification:', err);
+    return errors.internal('Failed to update notification');
+  }
+}
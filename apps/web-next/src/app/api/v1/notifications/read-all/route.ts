@@ -0,0 +1,29 @@
+/**
+ * Notification Inbox API
+ * POST /api/v1/notifications/read-all - Mark all of the current user's notifications read
+ */
+
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { validateSession } from '@/lib/api/auth';
+import { success, errors, getAuthToken } from '@/lib/api/response';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = getAuthToken(request);
+    if (!token) return errors.unauthorized('No auth token provided');
+
+    const sessionUser = await validateSession(token);
+    if (!sessionUser) return errors.unauthorized('Invalid or expired session');
+
+    const { count } = await prisma.inAppNotification.updateMany({
+      where: { userId: sessionUser.id, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return success({ updated: count });
+  } catch (err) {
+    console.error('Error marking notifications read:', err);
+    return errors.internal('Failed to mark notifications read');
+  }
+}
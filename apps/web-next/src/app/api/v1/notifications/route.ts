@@ -0,0 +1,41 @@
+/**
+ * Notification Inbox API
+ * GET /api/v1/notifications - Current user's in-app notifications + unread count
+ *
+ * Query: ?unread=true to list unread only, ?limit=N (default 20, max 100)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { validateSession } from '@/lib/api/auth';
+import { success, errors, getAuthToken } from '@/lib/api/response';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const token = getAuthToken(request);
+    if (!token) return errors.unauthorized('No auth token provided');
+
+    const sessionUser = await validateSession(token);
+    if (!sessionUser) return errors.unauthorized('Invalid or expired session');
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.inAppNotification.findMany({
+        where: { userId: sessionUser.id, ...(unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.inAppNotification.count({
+        where: { userId: sessionUser.id, readAt: null },
+      }),
+    ]);
+
+    return success({ notifications, unreadCount });
+  } catch (err) {
+    console.error('Error fetching notifications:', err);
+    return errors.internal('Failed to fetch notifications');
+  }
+}
@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSession } from '@/lib/api/auth';
+import { prisma } from '@/lib/db';
 import { errors, getAuthToken } from '@/lib/api/response';
 import Ably from 'ably';
 
@@ -51,6 +52,15 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       'naap:plugin:health': ['subscribe'],
     };
 
+    // Members can subscribe to their teams' channels (e.g. live session events)
+    const memberships = await prisma.teamMember.findMany({
+      where: { userId: user.id },
+      select: { teamId: true },
+    });
+    for (const { teamId } of memberships) {
+      capabilities[`naap:team:${teamId}`] = ['subscribe'];
+    }
+
     // Admins can publish to system channels
     if (user.roles.includes('admin') || user.roles.includes('system:admin')) {
       capabilities['naap:notifications'] = ['subscribe', 'publish'];
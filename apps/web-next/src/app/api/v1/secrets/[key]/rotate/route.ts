@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
 import { validateSession } from '@/lib/api/auth';
 import { errors, getAuthToken } from '@/lib/api/response';
+import { rotateVaultSecret, isRotationConflict, vaultKeyId } from '@/lib/secret-vault';
 import * as crypto from 'crypto';
 
 async function requireAdmin(request: NextRequest) {
@@ -35,7 +35,9 @@ function encrypt(text: string): { encryptedValue: string; iv: string } {
   return { encryptedValue, iv: iv.toString('hex') };
 }
 
-// POST /api/v1/secrets/[key]/rotate - Rotate a secret's value (admin only)
+// POST /api/v1/secrets/[key]/rotate - Rotate a secret's value (admin only).
+// The previous value is kept as a version for `graceSeconds` (default: the
+// secret's grace window).
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ key: string }> }
@@ -46,7 +48,7 @@ export async function POST(
 
     const { key } = await params;
 
-    let body: { newValue?: unknown };
+    let body: { newValue?: unknown; graceSeconds?: unknown };
     try {
       body = await request.json();
     } catch {
@@ -56,33 +58,34 @@ export async function POST(
     if (!body.newValue || typeof body.newValue !== 'string') {
       return NextResponse.json({ error: 'newValue (string) is required' }, { status: 400 });
     }
-
-    const secret = await prisma.secretVault.findUnique({ where: { key } });
-    if (!secret) {
-      return NextResponse.json({ error: 'Secret not found' }, { status: 404 });
+    const { graceSeconds } = body;
+    if (graceSeconds !== undefined && (typeof graceSeconds !== 'number' || !Number.isInteger(graceSeconds) || graceSeconds < 0)) {
+      return NextResponse.json({ error: 'graceSeconds must be a non-negative integer' }, { status: 400 });
     }
 
-    const { encryptedValue, iv } = encrypt(body.newValue);
+    const sealed = { ...encrypt(body.newValue), keyId: vaultKeyId(getEncryptionKey()) };
 
-    const updated = await prisma.secretVault.update({
-      where: { key },
-      data: {
-        encryptedValue,
-        iv,
-        rotatedAt: new Date(),
-      },
-      select: {
-        id: true,
-        key: true,
-        description: true,
-        scope: true,
-        rotatedAt: true,
-        updatedAt: true,
-      },
-    });
+    let rotated;
+    try {
+      rotated = await rotateVaultSecret(key, sealed, auth.user.id, { graceSeconds });
+    } catch (err) {
+      if (isRotationConflict(err)) {
+        return NextResponse.json({ error: 'Secret was rotated concurrently; retry' }, { status: 409 });
+      }
+      throw err;
+    }
+    if (!rotated) {
+      return NextResponse.json({ error: 'Secret not found' }, { status: 404 });
+    }
 
     return NextResponse.json({
-      ...updated,
+      id: rotated.id,
+      key: rotated.key,
+      description: rotated.description,
+      scope: rotated.scope,
+      currentVersion: rotated.currentVersion,
+      rotatedAt: rotated.rotatedAt,
+      updatedAt: rotated.updatedAt,
       message: 'Secret rotated successfully',
     });
   } catch (error) {
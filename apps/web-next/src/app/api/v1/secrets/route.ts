@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { validateSession } from '@/lib/api/auth';
 import { errors, getAuthToken } from '@/lib/api/response';
+import { vaultKeyId } from '@/lib/secret-vault';
 import * as crypto from 'crypto';
 
 async function requireAdmin(request: NextRequest) {
@@ -125,6 +126,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         key,
         encryptedValue,
         iv,
+        keyId: vaultKeyId(getEncryptionKey()),
         description,
         scope,
         createdBy: 'system', // In production, get from auth context
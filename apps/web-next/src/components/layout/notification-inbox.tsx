@@ -0,0 +1,254 @@
+'use client';
+
+/**
+ * Notification Inbox
+ * Bell in the top bar with the current user's in-app notifications.
+ * Alert notifications can be acknowledged or resolved from here.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { useNotify } from '@/contexts/shell-context';
+import { getCsrfToken } from '@/lib/api/csrf-client';
+
+interface InboxNotification {
+  id: string;
+  type: string;
+  severity: 'critical' | 'warning' | 'info';
+  title: string;
+  body: string | null;
+  link: string | null;
+  sourceId: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type AlertAction = 'acknowledge' | 'resolve';
+
+const POLL_INTERVAL_MS = 60_000;
+
+const SEVERITY_DOT: Record<InboxNotification['severity'], string> = {
+  critical: 'bg-red-500',
+  warning: 'bg-amber-500',
+  info: 'bg-blue-500',
+};
+
+/** Alert notifications that still have an open incident behind them */
+const ACTIONABLE_TYPES = new Set(['alert.triggered', 'alert.escalated']);
+
+function timeAgo(iso: string): string {
+  const seconds = Math.floor((Date.now() - new Date(iso).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+export function NotificationInbox() {
+  const { isAuthenticated } = useAuth();
+  const notify = useNotify();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/v1/notifications', { credentials: 'include', signal });
+      const data = await res.json();
+      if (data.success) {
+        setNotifications(data.data.notifications || []);
+        setUnreadCount(data.data.unreadCount || 0);
+      }
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Failed to load notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const ac = new AbortController();
+    loadNotifications(ac.signal);
+    const timer = setInterval(() => loadNotifications(ac.signal), POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      ac.abort();
+    };
+  }, [isAuthenticated, loadNotifications]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  async function markRead(notification: InboxNotification) {
+    if (notification.readAt) return;
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, readAt } : n)));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+    try {
+      await fetch(`/api/v1/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ read: true }),
+      });
+    } catch (err) {
+      console.error('Failed to mark notification read:', err);
+    }
+  }
+
+  async function markAllRead() {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt })));
+    setUnreadCount(0);
+    try {
+      await fetch('/api/v1/notifications/read-all', { method: 'POST', credentials: 'include' });
+    } catch (err) {
+      console.error('Failed to mark notifications read:', err);
+    }
+  }
+
+  async function handleAlertAction(notification: InboxNotification, action: AlertAction) {
+    if (!notification.sourceId) return;
+    setPendingAction(notification.id);
+    try {
+      const csrfToken = await getCsrfToken();
+      const res = await fetch(`/api/v1/base/v1/alerts/${notification.sourceId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+        credentials: 'include',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        notify.success(action === 'acknowledge' ? 'Alert acknowledged' : 'Alert resolved');
+        await markRead(notification);
+        await loadNotifications();
+      } else {
+        notify.error(data.error || `Failed to ${action} alert`);
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} alert:`, err);
+      notify.error(`Failed to ${action} alert`);
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors duration-100"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell size={16} />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[14px] h-[14px] px-0.5 bg-primary text-primary-foreground text-[9px] font-semibold leading-[14px] text-center rounded-full">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 overflow-hidden z-50 animate-in fade-in slide-in-from-top-2 duration-150">
+          <div className="bg-card/95 backdrop-blur-xl border border-border/50 rounded-2xl shadow-xl shadow-black/10">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+              <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider">
+                Notifications
+              </p>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <CheckCheck size={12} />
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {/* List */}
+            <div className="p-2 max-h-96 overflow-y-auto">
+              {loading && notifications.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 size={16} className="animate-spin text-muted-foreground" />
+                </div>
+              ) : notifications.length === 0 ? (
+                <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+                  You&apos;re all caught up
+                </p>
+              ) : (
+                notifications.map(notification => (
+                  <div
+                    key={notification.id}
+                    onClick={() => markRead(notification)}
+                    className={`
+                      px-3 py-2.5 rounded-xl cursor-pointer transition-all hover:bg-muted/80
+                      ${notification.readAt ? 'text-muted-foreground' : 'text-foreground'}
+                    `}
+                  >
+                    <div className="flex items-start gap-2.5">
+                      <span
+                        className={`mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full ${
+                          notification.readAt ? 'bg-transparent' : SEVERITY_DOT[notification.severity]
+                        }`}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <p className={`text-[13px] truncate ${notification.readAt ? '' : 'font-medium'}`}>
+                            {notification.title}
+                          </p>
+                          <span className="shrink-0 text-[11px] text-muted-foreground">
+                            {timeAgo(notification.createdAt)}
+                          </span>
+                        </div>
+                        {notification.body && (
+                          <p className="text-xs text-muted-foreground truncate">{notification.body}</p>
+                        )}
+                        {ACTIONABLE_TYPES.has(notification.type) && notification.sourceId && !notification.readAt && (
+                          <div className="mt-2 flex gap-2">
+                            {(['acknowledge', 'resolve'] as const).map(action => (
+                              <button
+                                key={action}
+                                disabled={pendingAction === notification.id}
+                                onClick={e => {
+                                  e.stopPropagation();
+                                  handleAlertAction(notification, action);
+                                }}
+                                className="px-2 py-1 rounded-md text-[11px] font-medium bg-muted/60 hover:bg-muted text-foreground transition-colors disabled:opacity-50"
+                              >
+                                {action === 'acknowledge' ? 'Acknowledge' : 'Resolve'}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
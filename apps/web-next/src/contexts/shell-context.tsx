@@ -13,6 +13,7 @@ import {
 import { useRouter } from 'next/navigation';
 import { useAuth, type User } from './auth-context';
 import type { AuthUser } from '@naap/types';
+import { invalidateFeatureFlags } from '@/hooks/use-feature-flags';
 
 // Re-export for consumers that import AuthUser from here
 export type { AuthUser };
@@ -1071,6 +1072,7 @@ export function ShellProvider({ children }: { children: ReactNode }) {
       setCurrentTeam(null);
       setCurrentMember(null);
       localStorage.removeItem(STORAGE_KEYS.TEAM);
+      invalidateFeatureFlags();
       eventBus.emit('team:change', { teamId: null, team: null, member: null });
       return;
     }
@@ -1082,6 +1084,7 @@ export function ShellProvider({ children }: { children: ReactNode }) {
       setCurrentTeam(teamData.team);
       setCurrentMember(teamData.member);
       localStorage.setItem(STORAGE_KEYS.TEAM, teamId);
+      invalidateFeatureFlags();
       eventBus.emit('team:change', { teamId, team: teamData.team, member: teamData.member });
     } catch (error) {
       console.error('Failed to fetch team:', error);
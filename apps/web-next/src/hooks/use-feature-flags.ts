@@ -29,7 +29,12 @@ let globalRequestId = 0;
 
 async function fetchFlags(): Promise<FlagMap> {
   try {
-    const res = await fetch('/api/v1/features', { credentials: 'include' });
+    // Rollouts and team overrides resolve for the team the user is working in
+    const teamId = typeof window !== 'undefined' ? localStorage.getItem('naap_current_team') : null;
+    const res = await fetch('/api/v1/features', {
+      credentials: 'include',
+      headers: teamId ? { 'x-team-id': teamId } : undefined,
+    });
     const data = await res.json();
     if (data.success && data.data?.flags) {
       return data.data.flags;
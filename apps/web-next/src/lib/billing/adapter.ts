@@ -146,6 +146,33 @@ export interface ProviderSpendRecord {
   byCapability?: Record<string, { tickets?: number; networkFeeUsdMicros?: string }>;
 }
 
+/**
+ * Billed usage totals PUSHED to a provider (BPP usage, billing direction) —
+ * e.g. a service gateway monthly statement. One push per account, period and
+ * currency; `statementId` is stable for that triple so a provider can treat
+ * re-pushes as idempotent updates. Monetary fields are decimal strings.
+ */
+export interface UsageStatementPush {
+  accountId: string;
+  statementId: string;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  amount: string;
+  lineItems: Array<{
+    description: string;
+    quantity: number;
+    unit: string;
+    amount: string;
+  }>;
+}
+
+export interface UsageStatementPushResult {
+  accepted: boolean;
+  /** Provider-side invoice/usage id, when the provider assigns one. */
+  externalId?: string;
+}
+
 export interface MintSignerSessionInput {
   externalUserId: string;
   email?: string;
@@ -182,6 +209,13 @@ export interface BillingProviderAdapter {
    */
   getSpend?(scope: ProviderSpendScope): Promise<ProviderSpendResult>;
 
+  /**
+   * BPP usage (billing PUSH) — record billed usage totals against an account.
+   * Optional: providers that meter usage themselves omit it, and callers
+   * surface `AdapterNotImplementedError`.
+   */
+  pushUsageStatement?(input: UsageStatementPush): Promise<UsageStatementPushResult>;
+
   /**
    * BPP mintSignerSession — provider-issued, opaque to apps. Always the
    * token-bundle form (the `/token` endpoint serializes its fields directly).
@@ -15,6 +15,8 @@ import {
   type Plan,
   type SignerSessionToken,
   type UsageForExternalUserInput,
+  type UsageStatementPush,
+  type UsageStatementPushResult,
   type ValidateResult,
 } from './adapter';
 
@@ -69,6 +71,10 @@ export class StubAdapter implements BillingProviderAdapter {
     };
   }
 
+  async pushUsageStatement(input: UsageStatementPush): Promise<UsageStatementPushResult> {
+    return { accepted: true, externalId: `stub_${input.statementId}` };
+  }
+
   async mintSignerSession(_input: MintSignerSessionInput): Promise<SignerSessionToken> {
     return {
       accessToken: 'stub-signer-token',
@@ -0,0 +1,227 @@
+/** @vitest-environment node */
+
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateTargeting,
+  isPartialRollout,
+  parseTargetingUpdate,
+  rolloutBucket,
+  targetingFromRow,
+  targetingScopeError,
+  type FlagTargeting,
+} from './feature-flag-rules';
+
+const KEY = 'capability_gate';
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function targeting(overrides: Partial<FlagTargeting> = {}): FlagTargeting {
+  return {
+    enabled: true,
+    rolloutPercentage: null,
+    rolloutBy: 'user',
+    rules: [],
+    enableAt: null,
+    disableAt: null,
+    ...overrides,
+  };
+}
+
+describe('rolloutBucket', () => {
+  it('is stable and within [0, 100)', () => {
+    const bucket = rolloutBucket(KEY, 'user-1');
+    expect(rolloutBucket(KEY, 'user-1')).toBe(bucket);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+
+  it('differs per flag for the same id', () => {
+    const buckets = new Set(['a', 'b', 'c', 'd'].map((k) => rolloutBucket(k, 'user-1')));
+    expect(buckets.size).toBeGreaterThan(1);
+  });
+
+  it('spreads ids roughly evenly', () => {
+    const inHalf = Array.from({ length: 2000 }, (_, i) => rolloutBucket(KEY, `user-${i}`)).filter((b) => b < 50);
+    expect(inHalf.length).toBeGreaterThan(900);
+    expect(inHalf.length).toBeLessThan(1100);
+  });
+});
+
+describe('evaluateTargeting', () => {
+  it('no targeting → the global switch, for everyone', () => {
+    expect(evaluateTargeting(KEY, targeting(), {}, NOW)).toMatchObject({ enabled: true, reason: 'enabled' });
+    expect(evaluateTargeting(KEY, targeting({ enabled: false }), { userId: 'u' }, NOW)).toMatchObject({
+      enabled: false,
+      reason: 'disabled',
+    });
+  });
+
+  it('the switch wins over rules and rollout', () => {
+    const t = targeting({
+      enabled: false,
+      rolloutPercentage: 100,
+      rules: [{ attribute: 'role', operator: 'in', values: ['system:admin'], enabled: true }],
+    });
+    expect(evaluateTargeting(KEY, t, { roles: ['system:admin'] }, NOW).enabled).toBe(false);
+  });
+
+  it('is off outside the schedule window', () => {
+    const t = targeting({ enableAt: new Date('2026-10-20T00:00:00Z'), disableAt: new Date('2026-10-21T00:00:00Z') });
+    expect(evaluateTargeting(KEY, t, {}, NOW)).toMatchObject({ enabled: false, reason: 'not_started' });
+    expect(evaluateTargeting(KEY, t, {}, new Date('2026-10-20T06:00:00Z')).enabled).toBe(true);
+    expect(evaluateTargeting(KEY, t, {}, new Date('2026-10-21T00:00:00Z'))).toMatchObject({
+      enabled: false,
+      reason: 'ended',
+    });
+  });
+
+  it('the first matching rule decides', () => {
+    const t = targeting({
+      rolloutPercentage: 0,
+      rules: [
+        { attribute: 'emailDomain', operator: 'in', values: ['@Competitor.com'], enabled: false },
+        { attribute: 'teamPlan', operator: 'in', values: ['Enterprise'], enabled: true },
+      ],
+    });
+    expect(evaluateTargeting(KEY, t, { email: 'a@competitor.com', teamPlans: ['enterprise'] }, NOW)).toMatchObject({
+      enabled: false,
+      reason: 'rule',
+      ruleIndex: 0,
+    });
+    expect(evaluateTargeting(KEY, t, { email: 'a@livepeer.org', teamPlans: ['enterprise'] }, NOW)).toMatchObject({
+      enabled: true,
+      reason: 'rule',
+      ruleIndex: 1,
+    });
+    expect(evaluateTargeting(KEY, t, { userId: 'u1', email: 'a@livepeer.org' }, NOW)).toMatchObject({
+      enabled: false,
+      reason: 'rollout',
+    });
+  });
+
+  it('not_in matches callers without the attribute', () => {
+    const t = targeting({
+      rolloutPercentage: 0,
+      rules: [{ attribute: 'teamId', operator: 'not_in', values: ['team-1'], enabled: true }],
+    });
+    expect(evaluateTargeting(KEY, t, {}, NOW).enabled).toBe(true);
+    expect(evaluateTargeting(KEY, t, { teamId: 'team-1' }, NOW).enabled).toBe(false);
+  });
+
+  it('buckets by user or team', () => {
+    const byUser = targeting({ rolloutPercentage: 50 });
+    const result = evaluateTargeting(KEY, byUser, { userId: 'user-1' }, NOW);
+    expect(result.reason).toBe('rollout');
+    expect(result.bucket).toBe(rolloutBucket(KEY, 'user-1'));
+    expect(result.enabled).toBe(result.bucket! < 50);
+
+    const byTeam = targeting({ rolloutPercentage: 50, rolloutBy: 'team' });
+    expect(evaluateTargeting(KEY, byTeam, { userId: 'user-1' }, NOW)).toMatchObject({
+      enabled: false,
+      reason: 'rollout_no_identity',
+    });
+    expect(evaluateTargeting(KEY, byTeam, { teamId: 'team-9' }, NOW).bucket).toBe(rolloutBucket(KEY, 'team-9'));
+  });
+
+  it('raising the percentage only adds callers', () => {
+    const ids = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+    const enabledAt = (pct: number) =>
+      new Set(ids.filter((id) => evaluateTargeting(KEY, targeting({ rolloutPercentage: pct }), { userId: id }, NOW).enabled));
+    const ten = enabledAt(10);
+    const fifty = enabledAt(50);
+    expect([...ten].every((id) => fifty.has(id))).toBe(true);
+    expect(fifty.size).toBeGreaterThan(ten.size);
+  });
+});
+
+describe('targetingFromRow / isPartialRollout', () => {
+  it('reads a legacy row as plain global targeting', () => {
+    const t = targetingFromRow({ enabled: true });
+    expect(t).toEqual(targeting());
+    expect(isPartialRollout(t)).toBe(false);
+  });
+
+  it('drops malformed stored rules', () => {
+    const t = targetingFromRow({
+      enabled: true,
+      rules: [{ attribute: 'role', operator: 'in', values: ['x'], enabled: true }, { attribute: 'shoeSize' }],
+    });
+    expect(t.rules).toHaveLength(1);
+    expect(isPartialRollout(t)).toBe(true);
+  });
+
+  it('a percentage below 100 on an enabled flag is partial', () => {
+    expect(isPartialRollout(targeting({ rolloutPercentage: 25 }))).toBe(true);
+    expect(isPartialRollout(targeting({ rolloutPercentage: 25, enabled: false }))).toBe(false);
+    expect(isPartialRollout(targeting({ rolloutPercentage: 100 }))).toBe(false);
+  });
+});
+
+describe('parseTargetingUpdate', () => {
+  it('returns only the fields present', () => {
+    expect(parseTargetingUpdate({ key: 'x', enabled: true })).toEqual({ update: {} });
+  });
+
+  it('accepts a full update', () => {
+    const result = parseTargetingUpdate({
+      rolloutPercentage: 10,
+      rolloutBy: 'team',
+      rules: [{ attribute: 'emailDomain', operator: 'in', values: [' livepeer.org ', ''], enabled: true }],
+      enableAt: '2026-11-01T00:00:00Z',
+      disableAt: null,
+    });
+    expect(result).toEqual({
+      update: {
+        rolloutPercentage: 10,
+        rolloutBy: 'team',
+        rules: [{ attribute: 'emailDomain', operator: 'in', values: ['livepeer.org'], enabled: true }],
+        enableAt: new Date('2026-11-01T00:00:00Z'),
+        disableAt: null,
+      },
+    });
+  });
+
+  it('null rules clear them', () => {
+    expect(parseTargetingUpdate({ rules: null })).toEqual({ update: { rules: [] } });
+  });
+
+  it.each([
+    [{ rolloutPercentage: 101 }, /rolloutPercentage/],
+    [{ rolloutPercentage: 12.5 }, /rolloutPercentage/],
+    [{ rolloutBy: 'org' }, /rolloutBy/],
+    [{ rules: {} }, /rules must be an array/],
+    [{ rules: [{ attribute: 'plan', operator: 'in', values: ['x'], enabled: true }] }, /rules\[0\]/],
+    [{ rules: [{ attribute: 'role', operator: 'in', values: [' '], enabled: true }] }, /must not be empty/],
+    [{ enableAt: 'tomorrow' }, /enableAt/],
+    [{ enableAt: '2026-11-02T00:00:00Z', disableAt: '2026-11-01T00:00:00Z' }, /after enableAt/],
+  ])('rejects %j', (body, message) => {
+    const result = parseTargetingUpdate(body as Record<string, unknown>);
+    expect('error' in result && result.error).toMatch(message);
+  });
+
+  it('checks the window against the stored dates', () => {
+    const current = { enableAt: new Date('2026-11-05T00:00:00Z'), disableAt: null };
+    expect(parseTargetingUpdate({ disableAt: '2026-11-01T00:00:00Z' }, current)).toHaveProperty('error');
+  });
+});
+
+describe('targetingScopeError', () => {
+  const teamRule = { attribute: 'teamId' as const, operator: 'in' as const, values: ['team-1'], enabled: true };
+  const roleRule = { attribute: 'role' as const, operator: 'in' as const, values: ['beta:tester'], enabled: true };
+
+  it('a caller-scoped gate can evaluate anything', () => {
+    expect(targetingScopeError('caller', targeting({ rolloutPercentage: 10, rules: [roleRule] }))).toBeNull();
+  });
+
+  it('a global gate supports only the switch and a schedule', () => {
+    expect(targetingScopeError('global', targeting())).toBeNull();
+    expect(targetingScopeError('global', targeting({ rolloutPercentage: 100 }))).toBeNull();
+    expect(targetingScopeError('global', targeting({ rolloutPercentage: 50 }))).toMatch(/without a caller/);
+    expect(targetingScopeError('global', targeting({ rules: [teamRule] }))).toMatch(/without a caller/);
+  });
+
+  it('a team gate supports team id rules and team rollouts', () => {
+    expect(targetingScopeError('team', targeting({ rules: [teamRule], rolloutPercentage: 20, rolloutBy: 'team' }))).toBeNull();
+    expect(targetingScopeError('team', targeting({ rules: [roleRule] }))).toMatch(/rules on role/);
+    expect(targetingScopeError('team', targeting({ rolloutPercentage: 20, rolloutBy: 'user' }))).toMatch(/by team/);
+  });
+});
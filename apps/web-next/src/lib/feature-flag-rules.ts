@@ -0,0 +1,326 @@
+/**
+ * Feature flag targeting — percentage rollouts, rules and schedules.
+ *
+ * Pure evaluation of a flag row's targeting for one caller; the DB reads, the
+ * per-team override and the KNOWN_FLAGS default live in `./feature-flags`.
+ *
+ * Order, once the flag's global `enabled` switch is ON:
+ *   1. schedule  — off before `enableAt` and from `disableAt` on
+ *   2. rules     — the first rule that matches the caller decides
+ *   3. rollout   — a stable hash of `<flag key>:<user or team id>` is bucketed
+ *                  into [0, 100); the caller is in when the bucket is below
+ *                  `rolloutPercentage` (null = everyone)
+ *
+ * Hashing on the flag key as well as the id means the same users are not
+ * always the first 10% of every rollout, and raising the percentage only ever
+ * adds callers.
+ */
+
+import { createHash } from 'node:crypto';
+
+export const FLAG_RULE_ATTRIBUTES = ['role', 'teamPlan', 'emailDomain', 'userId', 'teamId'] as const;
+export type FlagRuleAttribute = (typeof FLAG_RULE_ATTRIBUTES)[number];
+
+export const ROLLOUT_BY = ['user', 'team'] as const;
+export type RolloutBy = (typeof ROLLOUT_BY)[number];
+
+/**
+ * What a flag's server-side gates pass to the evaluator: nothing (`global`),
+ * a team id (`team`), or a full caller context (`caller`). Targeting that needs
+ * more than that would resolve as if the caller lacked the attribute, so it is
+ * rejected when it is set (see {@link targetingScopeError}).
+ */
+export const FLAG_SCOPES = ['global', 'team', 'caller'] as const;
+export type FlagScope = (typeof FLAG_SCOPES)[number];
+
+export interface FlagRule {
+  attribute: FlagRuleAttribute;
+  operator: 'in' | 'not_in';
+  values: string[];
+  /** What the flag resolves to for a caller the rule matches. */
+  enabled: boolean;
+}
+
+export interface FlagTargeting {
+  enabled: boolean;
+  rolloutPercentage: number | null;
+  rolloutBy: RolloutBy;
+  rules: FlagRule[];
+  enableAt: Date | null;
+  disableAt: Date | null;
+}
+
+/** Who a flag is being evaluated for. Every field is optional. */
+export interface FlagContext {
+  userId?: string | null;
+  teamId?: string | null;
+  roles?: string[];
+  email?: string | null;
+  /** Plan ids and names of the team's active subscriptions. */
+  teamPlans?: string[];
+}
+
+export type FlagReason =
+  | 'default'
+  | 'team_override'
+  | 'disabled'
+  | 'not_started'
+  | 'ended'
+  | 'rule'
+  | 'rollout'
+  | 'rollout_no_identity'
+  | 'enabled';
+
+export interface FlagEvaluation {
+  key: string;
+  enabled: boolean;
+  reason: FlagReason;
+  /** `reason` in words, for the explain endpoint and the admin UI. */
+  explanation: string;
+  /** Index of the rule that matched, when `reason` is `rule`. */
+  ruleIndex?: number;
+  /** The caller's rollout bucket in [0, 100), when a rollout was evaluated. */
+  bucket?: number;
+}
+
+/** Stable rollout bucket in [0, 100) with two decimals of resolution. */
+export function rolloutBucket(flagKey: string, id: string): number {
+  const digest = createHash('sha256').update(`${flagKey}:${id}`).digest();
+  return (digest.readUInt32BE(0) % 10_000) / 100;
+}
+
+function emailDomain(email: string | null | undefined): string | null {
+  const at = email?.lastIndexOf('@') ?? -1;
+  return email && at >= 0 ? email.slice(at + 1).toLowerCase() : null;
+}
+
+function attributeValues(attribute: FlagRuleAttribute, ctx: FlagContext): string[] {
+  switch (attribute) {
+    case 'role':
+      return ctx.roles ?? [];
+    case 'teamPlan':
+      return (ctx.teamPlans ?? []).map((p) => p.toLowerCase());
+    case 'emailDomain': {
+      const domain = emailDomain(ctx.email);
+      return domain ? [domain] : [];
+    }
+    case 'userId':
+      return ctx.userId ? [ctx.userId] : [];
+    case 'teamId':
+      return ctx.teamId ? [ctx.teamId] : [];
+  }
+}
+
+/** A caller without the attribute never matches `in` and always matches `not_in`. */
+export function ruleMatches(rule: FlagRule, ctx: FlagContext): boolean {
+  const caseInsensitive = rule.attribute === 'teamPlan' || rule.attribute === 'emailDomain';
+  const wanted = new Set(
+    rule.values.map((v) => (caseInsensitive ? v.toLowerCase().replace(/^@/, '') : v)),
+  );
+  const hit = attributeValues(rule.attribute, ctx).some((v) => wanted.has(v));
+  return rule.operator === 'in' ? hit : !hit;
+}
+
+function describeRule(rule: FlagRule): string {
+  const op = rule.operator === 'in' ? 'is one of' : 'is not one of';
+  return `${rule.attribute} ${op} [${rule.values.join(', ')}]`;
+}
+
+/** Evaluate a flag's targeting for `ctx` at `now`. */
+export function evaluateTargeting(
+  key: string,
+  targeting: FlagTargeting,
+  ctx: FlagContext,
+  now: Date = new Date(),
+): FlagEvaluation {
+  if (!targeting.enabled) {
+    return { key, enabled: false, reason: 'disabled', explanation: 'The flag is switched off globally' };
+  }
+  if (targeting.enableAt && now < targeting.enableAt) {
+    return {
+      key,
+      enabled: false,
+      reason: 'not_started',
+      explanation: `Scheduled to turn on at ${targeting.enableAt.toISOString()}`,
+    };
+  }
+  if (targeting.disableAt && now >= targeting.disableAt) {
+    return {
+      key,
+      enabled: false,
+      reason: 'ended',
+      explanation: `Scheduled off since ${targeting.disableAt.toISOString()}`,
+    };
+  }
+
+  const ruleIndex = targeting.rules.findIndex((rule) => ruleMatches(rule, ctx));
+  if (ruleIndex >= 0) {
+    const rule = targeting.rules[ruleIndex];
+    return {
+      key,
+      enabled: rule.enabled,
+      reason: 'rule',
+      ruleIndex,
+      explanation: `Rule ${ruleIndex + 1} matched (${describeRule(rule)}) and turns the flag ${rule.enabled ? 'on' : 'off'}`,
+    };
+  }
+
+  const percentage = targeting.rolloutPercentage;
+  if (percentage === null || percentage >= 100) {
+    return { key, enabled: true, reason: 'enabled', explanation: 'The flag is on for everyone' };
+  }
+
+  const id = targeting.rolloutBy === 'team' ? ctx.teamId : ctx.userId;
+  if (!id) {
+    return {
+      key,
+      enabled: false,
+      reason: 'rollout_no_identity',
+      explanation: `Rolled out to ${percentage}% by ${targeting.rolloutBy}, and there is no ${targeting.rolloutBy} to bucket`,
+    };
+  }
+  const bucket = rolloutBucket(key, id);
+  const inRollout = bucket < percentage;
+  return {
+    key,
+    enabled: inRollout,
+    reason: 'rollout',
+    bucket,
+    explanation: `${targeting.rolloutBy === 'team' ? 'Team' : 'User'} bucket ${bucket.toFixed(2)} is ${inRollout ? 'inside' : 'outside'} the ${percentage}% rollout`,
+  };
+}
+
+// ── Reading and writing targeting ──
+
+function isRule(value: unknown): value is FlagRule {
+  const r = value as FlagRule;
+  return (
+    typeof r === 'object' &&
+    r !== null &&
+    (FLAG_RULE_ATTRIBUTES as readonly string[]).includes(r.attribute) &&
+    (r.operator === 'in' || r.operator === 'not_in') &&
+    Array.isArray(r.values) &&
+    r.values.every((v) => typeof v === 'string') &&
+    typeof r.enabled === 'boolean'
+  );
+}
+
+/** Targeting of a `FeatureFlag` row; malformed stored rules are skipped. */
+export function targetingFromRow(row: {
+  enabled: boolean;
+  rolloutPercentage?: number | null;
+  rolloutBy?: string | null;
+  rules?: unknown;
+  enableAt?: Date | null;
+  disableAt?: Date | null;
+}): FlagTargeting {
+  return {
+    enabled: row.enabled,
+    rolloutPercentage: row.rolloutPercentage ?? null,
+    rolloutBy: row.rolloutBy === 'team' ? 'team' : 'user',
+    rules: Array.isArray(row.rules) ? row.rules.filter(isRule) : [],
+    enableAt: row.enableAt ?? null,
+    disableAt: row.disableAt ?? null,
+  };
+}
+
+/** Whether the targeting can resolve differently for different callers. */
+export function isPartialRollout(targeting: FlagTargeting): boolean {
+  return (
+    targeting.enabled &&
+    (targeting.rules.length > 0 || (targeting.rolloutPercentage !== null && targeting.rolloutPercentage < 100))
+  );
+}
+
+/** Why gates of `scope` cannot evaluate `targeting`, or null when they can. */
+export function targetingScopeError(
+  scope: FlagScope,
+  targeting: Pick<FlagTargeting, 'rolloutPercentage' | 'rolloutBy' | 'rules'>,
+): string | null {
+  if (scope === 'caller') return null;
+  const partial = targeting.rolloutPercentage !== null && targeting.rolloutPercentage < 100;
+
+  if (scope === 'global') {
+    return targeting.rules.length > 0 || partial
+      ? 'This flag is checked without a caller, so it supports only on/off and a schedule'
+      : null;
+  }
+  const rule = targeting.rules.find((r) => r.attribute !== 'teamId');
+  if (rule) return `This flag is checked with only a team id, so rules on ${rule.attribute} cannot apply`;
+  if (partial && targeting.rolloutBy !== 'team') {
+    return 'This flag is checked with only a team id, so it can only be rolled out by team';
+  }
+  return null;
+}
+
+export interface TargetingUpdate {
+  rolloutPercentage?: number | null;
+  rolloutBy?: RolloutBy;
+  rules?: FlagRule[];
+  enableAt?: Date | null;
+  disableAt?: Date | null;
+}
+
+function parseDate(value: unknown, field: string): Date | null | string {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return `${field} must be an ISO date or null`;
+  return new Date(value);
+}
+
+/**
+ * Validate the targeting fields of an admin update. Only fields present in
+ * `body` are returned, so a plain `{ key, enabled }` toggle leaves the
+ * targeting untouched.
+ */
+export function parseTargetingUpdate(
+  body: Record<string, unknown>,
+  current: { enableAt: Date | null; disableAt: Date | null } = { enableAt: null, disableAt: null },
+): { update: TargetingUpdate } | { error: string } {
+  const update: TargetingUpdate = {};
+
+  if (body.rolloutPercentage !== undefined) {
+    const pct = body.rolloutPercentage;
+    if (pct !== null && (typeof pct !== 'number' || !Number.isInteger(pct) || pct < 0 || pct > 100)) {
+      return { error: 'rolloutPercentage must be an integer from 0 to 100, or null' };
+    }
+    update.rolloutPercentage = pct as number | null;
+  }
+
+  if (body.rolloutBy !== undefined) {
+    if (!(ROLLOUT_BY as readonly unknown[]).includes(body.rolloutBy)) {
+      return { error: `rolloutBy must be one of: ${ROLLOUT_BY.join(', ')}` };
+    }
+    update.rolloutBy = body.rolloutBy as RolloutBy;
+  }
+
+  if (body.rules !== undefined) {
+    const rules = body.rules === null ? [] : body.rules;
+    if (!Array.isArray(rules)) return { error: 'rules must be an array' };
+    for (const [i, rule] of rules.entries()) {
+      if (!isRule(rule)) {
+        return {
+          error: `rules[${i}] must be { attribute: ${FLAG_RULE_ATTRIBUTES.join(' | ')}, operator: in | not_in, values: string[], enabled: boolean }`,
+        };
+      }
+      const values = rule.values.map((v) => v.trim()).filter(Boolean);
+      if (values.length === 0) return { error: `rules[${i}].values must not be empty` };
+      (update.rules ??= []).push({ attribute: rule.attribute, operator: rule.operator, values, enabled: rule.enabled });
+    }
+    update.rules ??= [];
+  }
+
+  for (const field of ['enableAt', 'disableAt'] as const) {
+    if (body[field] === undefined) continue;
+    const parsed = parseDate(body[field], field);
+    if (typeof parsed === 'string') return { error: parsed };
+    update[field] = parsed;
+  }
+
+  const enableAt = update.enableAt !== undefined ? update.enableAt : current.enableAt;
+  const disableAt = update.disableAt !== undefined ? update.disableAt : current.disableAt;
+  if (enableAt && disableAt && disableAt <= enableAt) {
+    return { error: 'disableAt must be after enableAt' };
+  }
+
+  return { update };
+}
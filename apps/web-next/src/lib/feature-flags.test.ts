@@ -3,8 +3,10 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const prisma = vi.hoisted(() => ({
-  featureFlag: { findUnique: vi.fn() },
+  featureFlag: { findUnique: vi.fn(), findMany: vi.fn() },
   featureFlagOverride: { findMany: vi.fn(), findFirst: vi.fn() },
+  user: { findUnique: vi.fn() },
+  subscription: { findMany: vi.fn() },
 }));
 vi.mock('@/lib/db', () => ({ prisma }));
 
@@ -12,8 +14,12 @@ import {
   isFeatureEnabled,
   isFeatureEnabledForTeam,
   anyTeamFlagOverrideEnabled,
+  evaluateFeatureFlag,
+  evaluateAllFeatureFlags,
+  buildFlagContextForUserId,
   resetFeatureFlagOverrideCache,
 } from './feature-flags';
+import { rolloutBucket } from './feature-flag-rules';
 
 const FLAG = 'capability_gate'; // KNOWN_FLAGS default: false
 const TEAM = 'team-1';
@@ -25,6 +31,7 @@ beforeEach(() => {
   prisma.featureFlagOverride.findMany.mockResolvedValue([]);
   prisma.featureFlagOverride.findFirst.mockResolvedValue(null);
   prisma.featureFlag.findUnique.mockResolvedValue(null);
+  prisma.featureFlag.findMany.mockResolvedValue([]);
 });
 
 describe('isFeatureEnabled — global (no team context) is unchanged', () => {
@@ -139,3 +146,69 @@ describe('anyTeamFlagOverrideEnabled — front-door visibility helper', () => {
     expect(await anyTeamFlagOverrideEnabled('key_validation_front_door')).toBe(false);
   });
 });
+
+describe('targeting — rollouts, rules and schedules', () => {
+  it('a percentage rollout by team resolves per team', async () => {
+    prisma.featureFlag.findUnique.mockResolvedValue({ enabled: true, rolloutPercentage: 50, rolloutBy: 'team' });
+    for (const team of ['team-A', 'team-B', 'team-C']) {
+      expect(await isFeatureEnabled(FLAG, team)).toBe(rolloutBucket(FLAG, team) < 50);
+    }
+  });
+
+  it('a per-team override still wins over targeting', async () => {
+    prisma.featureFlag.findUnique.mockResolvedValue({ enabled: true, rolloutPercentage: 0 });
+    prisma.featureFlagOverride.findMany.mockResolvedValue([{ flagKey: FLAG, enabled: true }]);
+    expect(await evaluateFeatureFlag(FLAG, { teamId: TEAM })).toMatchObject({
+      enabled: true,
+      reason: 'team_override',
+    });
+  });
+
+  it('rules see the full caller context', async () => {
+    prisma.featureFlag.findUnique.mockResolvedValue({
+      enabled: true,
+      rolloutPercentage: 0,
+      rules: [{ attribute: 'role', operator: 'in', values: ['beta:tester'], enabled: true }],
+    });
+    expect(await isFeatureEnabled(FLAG, { userId: 'u1', roles: ['beta:tester'] })).toBe(true);
+    expect(await isFeatureEnabled(FLAG, { userId: 'u2', roles: [] })).toBe(false);
+  });
+
+  it('explains the built-in default when the row is missing', async () => {
+    expect(await evaluateFeatureFlag('enableTeams')).toMatchObject({ enabled: true, reason: 'default' });
+  });
+
+  it('evaluateAllFeatureFlags covers known and DB-only flags in one read', async () => {
+    prisma.featureFlag.findMany.mockResolvedValue([
+      { key: 'custom_flag', enabled: true, rolloutPercentage: null, rolloutBy: 'user', rules: null, enableAt: null, disableAt: null },
+    ]);
+    const flags = await evaluateAllFeatureFlags({ userId: 'u1' });
+    expect(flags.find((f) => f.key === 'custom_flag')).toMatchObject({ enabled: true, reason: 'enabled' });
+    expect(flags.find((f) => f.key === FLAG)).toMatchObject({ enabled: false, reason: 'default' });
+    expect(prisma.featureFlag.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('a partially rolled-out flag keeps the front door reachable', async () => {
+    prisma.featureFlagOverride.findFirst.mockResolvedValue(null);
+    prisma.featureFlag.findUnique.mockResolvedValue({ enabled: true, rolloutPercentage: 10 });
+    expect(await anyTeamFlagOverrideEnabled('key_validation_front_door')).toBe(true);
+  });
+});
+
+describe('buildFlagContextForUserId', () => {
+  it('loads the key owner so user and role rules apply', async () => {
+    prisma.user.findUnique.mockResolvedValue({ email: 'dev@example.com', roles: [{ role: { name: 'beta:tester' } }] });
+    prisma.subscription.findMany.mockResolvedValue([]);
+    expect(await buildFlagContextForUserId('u1', TEAM)).toEqual({
+      userId: 'u1',
+      email: 'dev@example.com',
+      roles: ['beta:tester'],
+      teamId: TEAM,
+    });
+  });
+
+  it('falls back to the bare user id when the lookup fails', async () => {
+    prisma.user.findUnique.mockRejectedValue(new Error('db down'));
+    expect(await buildFlagContextForUserId('u1')).toEqual({ userId: 'u1', email: null, roles: [] });
+  });
+});
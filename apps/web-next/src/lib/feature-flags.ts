@@ -8,10 +8,27 @@
  */
 
 import { prisma } from '@/lib/db';
+import {
+  evaluateTargeting,
+  isPartialRollout,
+  targetingFromRow,
+  type FlagContext,
+  type FlagEvaluation,
+  type FlagScope,
+  type FlagTargeting,
+} from '@/lib/feature-flag-rules';
+
+export type { FlagContext, FlagEvaluation, FlagScope } from '@/lib/feature-flag-rules';
 
 export interface KnownFlag {
   key: string;
   enabled: boolean;
+  /**
+   * What the flag's gates pass to `isFeatureEnabled`, which bounds the
+   * targeting an admin may set. Flags not listed here are only read through
+   * the features map, which evaluates them for the full caller.
+   */
+  scope: FlagScope;
   description: string;
 }
 
@@ -87,118 +104,156 @@ export const KNOWN_FLAGS: KnownFlag[] = [
   {
     key: 'enableTeams',
     enabled: true,
+    scope: 'caller',
     description: 'Enable teams collaboration feature (team creation, team switching, team pages)',
   },
   {
     key: 'provider_adapters',
     enabled: false,
+    scope: 'global',
     description:
       'Route billing requests through the generic BillingProviderAdapter registry (/api/v1/billing/{provider}/*). OFF = legacy /billing/pymthouse/* behavior only.',
   },
   {
     key: 'team_seats',
     enabled: false,
+    scope: 'team',
     description:
       'Team Seats API + provider-agnostic billingAccountRef binding (/api/v1/teams/{id}/seats/*, /billing-account). OFF = endpoints 404, no-op (NAAP-1).',
   },
   {
     key: 'usage_ingest',
     enabled: false,
+    scope: 'global',
     description:
       'Enable cross-provider usage telemetry: the BPP ⑥ ingest endpoint (/api/v1/metrics/ingest) and the spend dashboard BFF (/api/v1/metrics/usage). OFF = both return 404 (no-op).',
   },
   {
     key: 'usage_pull',
     enabled: false,
+    scope: 'global',
     description:
       'Spend dashboard PULLS provider usage live via the provider adapter (e.g. pymthouse M2M client) instead of reading pushed ProviderUsageRecord rows. OFF = reads ProviderUsageRecord exactly as today. ON = pull-first with graceful fallback to ProviderUsageRecord on any pull failure (never 500). Tenant scoping is preserved either way (NAAP-2).',
   },
   {
     key: 'app_registry',
     enabled: false,
+    scope: 'global',
     description:
       'Enable the application/service registry (/api/v1/apps/*) so usage and rate limits attribute per registered app. OFF = registry endpoints return 404 (no-op).',
   },
   {
     key: 'db_adapter_registry',
     enabled: false,
+    scope: 'global',
     description:
       'Resolve the BillingProviderAdapter from the BillingProvider.adapterType DB column (NAAP-A-db) instead of the static slug→adapter map. OFF = static registry (zero regression); falls back to static on any DB miss/error.',
   },
   {
     key: 'native_keys',
     enabled: false,
+    scope: 'team',
     description:
       'Native provider-opaque naap_ keys issued to a seat (/api/v1/teams/{id}/seats/{seatId}/keys). OFF = endpoints 404, no-op (NAAP-B).',
   },
   {
     key: 'key_validation_front_door',
     enabled: false,
+    scope: 'caller',
     description:
       'Key validation front door POST /api/v1/keys/validate (resolves naap_ → provider via adapter, BPP ③). OFF = 404 so callers fall back to their direct path (NAAP-C).',
   },
   {
     key: 'capability_gate',
     enabled: false,
+    scope: 'caller',
     description:
       'Enforce key → plan → capability access at the front door and discovery (NAAP-E). OFF = no enforcement (capabilities surfaced only, exactly as today); ON = deny a requested capability not granted by the resolved plan (fail closed).',
   },
   {
     key: SDK_CONNECTOR_FLAG,
     enabled: false,
+    scope: 'caller',
     description:
       'Seed the public "sdk" Service Gateway connector (fronting sdk.daydream.monster at /api/v1/gw/sdk/*) AND accept native naap_ keys at the gateway authorize step (NAAP-5). OFF = no sdk connector seeded and naap_ keys are rejected at the gateway exactly as today (no-op).',
   },
   {
     key: PYMTHOUSE_BPP_VALIDATE_FLAG,
     enabled: false,
+    scope: 'team',
     description:
       'Resolve a validated key\'s capabilities LIVE from the pymthouse provider (BPP ②) via the M2M client, keyed on the account\'s externalUserId, and surface them at the validation front door. OFF = PymthouseAdapter.validate() is unimplemented (front door falls back to an empty capability set, exactly as today). Requires the provider\'s BPP_VALIDATE_V2 posture in the same environment; pairs with capability_gate (also default OFF).',
   },
   {
     key: PROVIDER_INSTANCES_FLAG,
     enabled: false,
+    scope: 'team',
     description:
       'Multi-app foundation (P0): resolve a per-ProviderInstance billing adapter built from the instance\'s non-secret config + a secretRef → SecretVault M2M secret, so multiple pymthouse apps can coexist. OFF = ProviderInstance table is never read and resolution falls back to the global PYMTHOUSE_* env single-app path exactly as today (zero regression).',
   },
   {
     key: MULTI_SUBSCRIPTION_FLAG,
     enabled: false,
+    scope: 'global',
     description:
       'Multi-subscription model (P1): a team may hold many concurrent Subscriptions and a DevApiKey may link to one via DevApiKey.subscriptionId. OFF = the Subscription table is never consulted and a key resolves via today\'s key → team → single billingAccountRef path (zero regression). A null subscriptionId always resolves the legacy way even when ON.',
   },
   {
     key: PLAN_SPEC_SYNC_FLAG,
     enabled: false,
+    scope: 'global',
     description:
       'Plan-spec → per-app discovery sync (P4): pull each ProviderInstance\'s published plans into ProviderPlan rows and auto-generate per-app DiscoveryPlans; the validate front door may expose the per-key discovery URL (key → subscription → ProviderPlan → DiscoveryPlan). OFF = no sync runs, ProviderPlan is never read/written, the catalog exposes no plans, and discovery is exactly today\'s static storyboard-default behavior (golden-set parity, zero regression).',
   },
   {
     key: PER_KEY_REMOTE_SIGNER_FLAG,
     enabled: false,
+    scope: 'caller',
     description:
       'Per-key remote signer: the validation front door returns the signerSession ENDPOINT form { url, headers } pointing at the provider\'s per-key remote signer DMZ (pymthouse getSignerRouting DMZ URL + the minted pmth_ session), so the SDK service signs + pays through the funded per-key wallet. OFF = the front door returns the provider token-bundle form (pmth_ accessToken) exactly as today and performs no extra provider I/O (zero regression). Canary-only; pairs with simple-infra SIGNER_FROM_VALIDATE (the SDK service consumes the endpoint form only when its own flag is on).',
   },
 ];
 
+const TARGETING_SELECT = {
+  enabled: true,
+  rolloutPercentage: true,
+  rolloutBy: true,
+  rules: true,
+  enableAt: true,
+  disableAt: true,
+} as const;
+
 /**
- * Read a single feature flag's GLOBAL (platform-wide) effective state without
- * writing to the DB. Falls back to the KNOWN_FLAGS default (or `false`) when the
- * flag row does not exist yet, so a flag defaulting OFF is a no-op until an admin
- * enables it.
+ * Read a single feature flag's GLOBAL (platform-wide) row and targeting without
+ * writing to the DB. Null when the row does not exist yet or the lookup fails,
+ * in which case callers use the KNOWN_FLAGS default (or `false`), so a flag
+ * defaulting OFF is a no-op until an admin enables it.
  */
-async function readGlobalFlag(key: string): Promise<boolean> {
+async function readGlobalFlag(key: string): Promise<FlagTargeting | null> {
   try {
     const flag = await prisma.featureFlag.findUnique({
       where: { key },
-      select: { enabled: true },
+      select: TARGETING_SELECT,
     });
-    if (flag) return flag.enabled;
+    if (flag) return targetingFromRow(flag);
   } catch {
     // Transient DB lookup failures must not break callers: fall through to the
     // static KNOWN_FLAGS default so a flag defaulting OFF stays a safe no-op.
   }
-  return KNOWN_FLAGS.find((f) => f.key === key)?.enabled ?? false;
+  return null;
+}
+
+function defaultEvaluation(key: string): FlagEvaluation {
+  const known = KNOWN_FLAGS.find((f) => f.key === key);
+  const enabled = known?.enabled ?? false;
+  return {
+    key,
+    enabled,
+    reason: 'default',
+    explanation: known
+      ? `No flag row yet; the built-in default is ${enabled ? 'on' : 'off'}`
+      : 'Unknown flag; treated as off',
+  };
 }
 
 // ── Per-team override resolution (zero-blast-radius flag scoping) ──
@@ -271,24 +326,45 @@ async function loadTeamOverrides(teamId: string): Promise<Record<string, boolean
 }
 
 /**
- * Read a single feature flag's effective state for an OPTIONAL team context.
+ * Resolve a flag for a caller and say why.
  *
  * Precedence: a per-team `FeatureFlagOverride` row (ON or OFF) wins for that
- * team; otherwise the team inherits the GLOBAL value (today's exact behavior).
- * With no `teamId` — or no override row for that flag — this is byte-identical to
- * the global path, so default behavior is unchanged (zero regression).
- *
- * Backward compatible: every existing `isFeatureEnabled(key)` call keeps the
- * global semantics; passing a `teamId` opts into team-scoped resolution.
+ * team; otherwise the flag row's switch, schedule, rules and rollout decide (see
+ * `./feature-flag-rules`); with no row, the KNOWN_FLAGS default. A flag with no
+ * targeting configured resolves to its global value for everyone, exactly as
+ * before targeting existed.
  */
-export async function isFeatureEnabled(key: string, teamId?: string | null): Promise<boolean> {
-  if (teamId) {
-    const overrides = await loadTeamOverrides(teamId);
+export async function evaluateFeatureFlag(
+  key: string,
+  ctx: FlagContext = {},
+  now: Date = new Date(),
+): Promise<FlagEvaluation> {
+  if (ctx.teamId) {
+    const overrides = await loadTeamOverrides(ctx.teamId);
     if (Object.prototype.hasOwnProperty.call(overrides, key)) {
-      return overrides[key];
+      return {
+        key,
+        enabled: overrides[key],
+        reason: 'team_override',
+        explanation: `Team ${ctx.teamId} has the flag overridden ${overrides[key] ? 'on' : 'off'}`,
+      };
     }
   }
-  return readGlobalFlag(key);
+  const targeting = await readGlobalFlag(key);
+  return targeting ? evaluateTargeting(key, targeting, ctx, now) : defaultEvaluation(key);
+}
+
+/**
+ * Read a single feature flag's effective state for an OPTIONAL team (or full
+ * caller) context.
+ *
+ * Backward compatible: `isFeatureEnabled(key)` and `isFeatureEnabled(key, teamId)`
+ * keep their semantics for flags without targeting; pass a {@link FlagContext}
+ * so user- and rule-based targeting can see who is asking.
+ */
+export async function isFeatureEnabled(key: string, context?: string | null | FlagContext): Promise<boolean> {
+  const ctx = typeof context === 'object' && context !== null ? context : { teamId: context };
+  return (await evaluateFeatureFlag(key, ctx)).enabled;
 }
 
 /**
@@ -300,7 +376,8 @@ export async function isFeatureEnabledForTeam(key: string, teamId: string | null
 }
 
 /**
- * Does ANY team currently have `flagKey` overridden to ENABLED?
+ * Does ANY team currently have `flagKey` overridden to ENABLED — or is the flag
+ * partially rolled out (rules or a percentage), so it is on for some callers?
  *
  * Used only to keep flag-gated "endpoint hidden" surfaces (e.g. the
  * `/api/v1/keys/validate` front door) byte-identical to today when the flag is
@@ -322,7 +399,9 @@ export async function anyTeamFlagOverrideEnabled(flagKey: string): Promise<boole
       where: { flagKey, enabled: true },
       select: { id: true },
     });
-    value = Boolean(row);
+    // A flag partially rolled out by rules or percentage is also on for someone.
+    const targeting = row ? null : await readGlobalFlag(flagKey);
+    value = Boolean(row) || (targeting !== null && isPartialRollout(targeting));
   } catch {
     value = false;
   }
@@ -330,6 +409,99 @@ export async function anyTeamFlagOverrideEnabled(flagKey: string): Promise<boole
   return value;
 }
 
+/**
+ * Resolve every flag (KNOWN_FLAGS ∪ DB rows) for one caller: a single flag read
+ * plus the team's cached overrides, for the public features map.
+ */
+export async function evaluateAllFeatureFlags(
+  ctx: FlagContext,
+  now: Date = new Date(),
+): Promise<FlagEvaluation[]> {
+  const [rows, overrides] = await Promise.all([
+    prisma.featureFlag.findMany({ select: { key: true, ...TARGETING_SELECT } }),
+    ctx.teamId ? loadTeamOverrides(ctx.teamId) : Promise.resolve<Record<string, boolean>>({}),
+  ]);
+  const byKey = new Map(rows.map((r) => [r.key, targetingFromRow(r)]));
+  const keys = new Set([...KNOWN_FLAGS.map((f) => f.key), ...byKey.keys()]);
+
+  return [...keys].sort().map((key) => {
+    if (Object.prototype.hasOwnProperty.call(overrides, key)) {
+      return {
+        key,
+        enabled: overrides[key],
+        reason: 'team_override' as const,
+        explanation: `Team ${ctx.teamId} has the flag overridden ${overrides[key] ? 'on' : 'off'}`,
+      };
+    }
+    const targeting = byKey.get(key);
+    return targeting ? evaluateTargeting(key, targeting, ctx, now) : defaultEvaluation(key);
+  });
+}
+
+/**
+ * Build the targeting context for a user and (optionally) the team they are
+ * acting as. With `verifyMembership`, a team the user does not belong to is
+ * dropped, so a caller cannot claim another team's rollout bucket or plan.
+ * Team plans are the plan ids and names of the team's active subscriptions;
+ * lookup failures leave them empty.
+ */
+export async function buildFlagContext(
+  user: { id: string; email?: string | null; roles?: string[] },
+  teamId?: string | null,
+  { verifyMembership = false }: { verifyMembership?: boolean } = {},
+): Promise<FlagContext> {
+  const ctx: FlagContext = { userId: user.id, email: user.email ?? null, roles: user.roles ?? [] };
+  if (!teamId) return ctx;
+
+  try {
+    if (verifyMembership) {
+      const team = await prisma.team.findFirst({
+        where: { id: teamId, OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }] },
+        select: { id: true },
+      });
+      if (!team) return ctx;
+    }
+    ctx.teamId = teamId;
+
+    const subscriptions = await prisma.subscription.findMany({
+      where: { teamId, status: 'active', providerPlanId: { not: null } },
+      select: { providerInstanceId: true, providerPlanId: true },
+    });
+    const planRefs = subscriptions.filter(
+      (s): s is { providerInstanceId: string; providerPlanId: string } => Boolean(s.providerPlanId),
+    );
+    if (planRefs.length > 0) {
+      const plans = await prisma.providerPlan.findMany({
+        where: { OR: planRefs },
+        select: { name: true },
+      });
+      ctx.teamPlans = [...new Set([...planRefs.map((r) => r.providerPlanId), ...plans.map((p) => p.name)])];
+    }
+  } catch {
+    // Targeting degrades to what is known about the user; never fail the caller.
+  }
+  return ctx;
+}
+
+/**
+ * {@link buildFlagContext} for a caller authenticated by a key rather than a
+ * session: the key owner's email and roles are loaded by id, and `teamId` is
+ * the key's own team, so membership is not re-checked.
+ */
+export async function buildFlagContextForUserId(userId: string, teamId?: string | null): Promise<FlagContext> {
+  let user: { id: string; email?: string | null; roles?: string[] } = { id: userId };
+  try {
+    const row = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, roles: { select: { role: { select: { name: true } } } } },
+    });
+    if (row) user = { id: userId, email: row.email, roles: row.roles.map((r) => r.role.name) };
+  } catch {
+    // Fall back to the bare user id, as buildFlagContext does for the team.
+  }
+  return buildFlagContext(user, teamId);
+}
+
 /** Clear the in-memory override caches (test isolation / after a mutation). */
 export function resetFeatureFlagOverrideCache(): void {
   teamOverrideCache.clear();
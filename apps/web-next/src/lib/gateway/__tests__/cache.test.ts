@@ -1,11 +1,16 @@
 /**
  * Tests for Service Gateway — Response Cache
  *
- * Verifies cache hit/miss, expiration, eviction, key building,
- * and invalidation.
+ * Verifies cache hit/miss, expiration, eviction, key building, Vary
+ * variants, Cache-Control handling, miss coalescing and invalidation.
  */
 
-import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => null,
+}));
+
 import {
   getCachedResponse,
   setCachedResponse,
@@ -13,6 +18,8 @@ import {
   invalidateResponseCache,
   getResponseCacheSize,
   clearResponseCache,
+  resolveCacheTtl,
+  acquireCacheFill,
 } from '../cache';
 
 function makeBody(text = 'test'): ArrayBuffer {
@@ -21,81 +28,171 @@ function makeBody(text = 'test'): ArrayBuffer {
 
 describe('buildCacheKey', () => {
   it('produces deterministic keys for same inputs', () => {
-    const a = buildCacheKey('team-1', 'api', 'GET', '/foo', null);
-    const b = buildCacheKey('team-1', 'api', 'GET', '/foo', null);
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    const b = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
     expect(a).toBe(b);
   });
 
   it('produces different keys for different scopes', () => {
-    const a = buildCacheKey('team-1', 'api', 'GET', '/foo', null);
-    const b = buildCacheKey('team-2', 'api', 'GET', '/foo', null);
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    const b = buildCacheKey('conn-1', 'ep-1', 'team-2', 'GET', '/foo', null);
     expect(a).not.toBe(b);
   });
 
   it('includes body hash when body is present', () => {
-    const a = buildCacheKey('team-1', 'api', 'GET', '/foo', null);
-    const b = buildCacheKey('team-1', 'api', 'GET', '/foo', '{"q":1}');
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    const b = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', '{"q":1}');
+    expect(a).not.toBe(b);
+  });
+
+  it('uses a SHA-256 digest so colliding 32-bit hashes stay distinct', () => {
+    // "Aa" and "BB" share the same Java-style 32-bit string hash
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', 'Aa');
+    const b = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', 'BB');
     expect(a).not.toBe(b);
+    expect(a).toMatch(/:[0-9a-f]{64}$/);
+  });
+
+  it('prefixes keys by connector and endpoint for purging', () => {
+    const key = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    expect(key.startsWith('gw:resp:conn-1:ep-1:team-1:GET:')).toBe(true);
   });
 });
 
 describe('getCachedResponse / setCachedResponse', () => {
   beforeEach(() => clearResponseCache());
 
-  it('returns null for a cache miss', () => {
-    expect(getCachedResponse('nonexistent')).toBeNull();
+  it('returns null for a cache miss', async () => {
+    expect(await getCachedResponse('nonexistent')).toBeNull();
   });
 
-  it('returns the cached entry on hit', () => {
+  it('returns the cached entry on hit', async () => {
     const body = makeBody('response data');
-    setCachedResponse('key-1', { body, status: 200, headers: { 'content-type': 'application/json' } }, 60);
-    const cached = getCachedResponse('key-1');
+    await setCachedResponse('key-1', { body, status: 200, headers: { 'content-type': 'application/json' } }, 60);
+    const cached = await getCachedResponse('key-1');
     expect(cached).not.toBeNull();
     expect(cached!.status).toBe(200);
     expect(cached!.headers['content-type']).toBe('application/json');
     expect(new TextDecoder().decode(cached!.body)).toBe('response data');
   });
 
-  it('returns null for expired entries', () => {
+  it('returns null for expired entries', async () => {
     vi.useFakeTimers();
-    setCachedResponse('key-exp', { body: makeBody(), status: 200, headers: {} }, 10);
-    expect(getCachedResponse('key-exp')).not.toBeNull();
+    await setCachedResponse('key-exp', { body: makeBody(), status: 200, headers: {} }, 10);
+    expect(await getCachedResponse('key-exp')).not.toBeNull();
 
     vi.advanceTimersByTime(11_000);
-    expect(getCachedResponse('key-exp')).toBeNull();
+    expect(await getCachedResponse('key-exp')).toBeNull();
     vi.useRealTimers();
   });
 
-  it('evicts oldest entry when at max capacity', () => {
+  it('evicts oldest entry when at max capacity', async () => {
     for (let i = 0; i < 1001; i++) {
-      setCachedResponse(`key-${i}`, { body: makeBody(), status: 200, headers: {} }, 300);
+      await setCachedResponse(`key-${i}`, { body: makeBody(), status: 200, headers: {} }, 300);
     }
     expect(getResponseCacheSize()).toBeLessThanOrEqual(1000);
   });
+
+  it('stores separate variants for Vary headers', async () => {
+    const en = new Headers({ 'accept-language': 'en' });
+    const fr = new Headers({ 'accept-language': 'fr' });
+    await setCachedResponse('key-vary', { body: makeBody('hello'), status: 200, headers: { vary: 'Accept-Language' } }, 60, en);
+    await setCachedResponse('key-vary', { body: makeBody('bonjour'), status: 200, headers: { vary: 'Accept-Language' } }, 60, fr);
+
+    expect(new TextDecoder().decode((await getCachedResponse('key-vary', en))!.body)).toBe('hello');
+    expect(new TextDecoder().decode((await getCachedResponse('key-vary', fr))!.body)).toBe('bonjour');
+    expect(await getCachedResponse('key-vary', new Headers({ 'accept-language': 'de' }))).toBeNull();
+  });
+
+  it('never caches Vary: *', async () => {
+    await setCachedResponse('key-star', { body: makeBody(), status: 200, headers: { vary: '*' } }, 60);
+    expect(await getCachedResponse('key-star')).toBeNull();
+  });
+});
+
+describe('resolveCacheTtl', () => {
+  it('uses the endpoint TTL when upstream sends no Cache-Control', () => {
+    expect(resolveCacheTtl(60, new Headers())).toBe(60);
+  });
+
+  it('disables caching for no-store, no-cache and private', () => {
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'no-store' }))).toBe(0);
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'no-cache' }))).toBe(0);
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'private, max-age=300' }))).toBe(0);
+  });
+
+  it('shortens but never extends the endpoint TTL', () => {
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'max-age=10' }))).toBe(10);
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'max-age=600' }))).toBe(60);
+  });
+
+  it('prefers s-maxage over max-age', () => {
+    expect(resolveCacheTtl(60, new Headers({ 'cache-control': 'max-age=5, s-maxage=30' }))).toBe(30);
+  });
+});
+
+describe('acquireCacheFill', () => {
+  beforeEach(() => clearResponseCache());
+
+  it('elects one leader and lets followers read its result', async () => {
+    const leader = await acquireCacheFill('key-fill', 1000);
+    expect(leader.leader).toBe(true);
+
+    const followerPromise = acquireCacheFill('key-fill', 1000);
+    await setCachedResponse('key-fill', { body: makeBody('filled'), status: 200, headers: {} }, 60);
+    await leader.release();
+
+    const follower = await followerPromise;
+    expect(follower.leader).toBe(false);
+    expect(await getCachedResponse('key-fill')).not.toBeNull();
+  });
+
+  it('allows a new leader after release', async () => {
+    const first = await acquireCacheFill('key-fill', 1000);
+    await first.release();
+    const second = await acquireCacheFill('key-fill', 1000);
+    expect(second.leader).toBe(true);
+    await second.release();
+  });
 });
 
 describe('invalidateResponseCache', () => {
   beforeEach(() => clearResponseCache());
 
-  it('removes all entries for a given scope + slug', () => {
-    setCachedResponse('gw:resp:team-1:api:GET:/foo:nobody', { body: makeBody(), status: 200, headers: {} }, 60);
-    setCachedResponse('gw:resp:team-1:api:POST:/bar:abc', { body: makeBody(), status: 200, headers: {} }, 60);
-    setCachedResponse('gw:resp:team-2:api:GET:/foo:nobody', { body: makeBody(), status: 200, headers: {} }, 60);
+  it('removes all entries for a given connector', async () => {
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    const b = buildCacheKey('conn-1', 'ep-2', 'team-2', 'GET', '/bar', null);
+    const c = buildCacheKey('conn-2', 'ep-3', 'team-1', 'GET', '/foo', null);
+    await setCachedResponse(a, { body: makeBody(), status: 200, headers: {} }, 60);
+    await setCachedResponse(b, { body: makeBody(), status: 200, headers: {} }, 60);
+    await setCachedResponse(c, { body: makeBody(), status: 200, headers: {} }, 60);
+
+    expect(await invalidateResponseCache('conn-1')).toBe(2);
+
+    expect(await getCachedResponse(a)).toBeNull();
+    expect(await getCachedResponse(b)).toBeNull();
+    expect(await getCachedResponse(c)).not.toBeNull();
+  });
+
+  it('removes only one endpoint when endpointId is given', async () => {
+    const a = buildCacheKey('conn-1', 'ep-1', 'team-1', 'GET', '/foo', null);
+    const b = buildCacheKey('conn-1', 'ep-2', 'team-1', 'GET', '/bar', null);
+    await setCachedResponse(a, { body: makeBody(), status: 200, headers: {} }, 60);
+    await setCachedResponse(b, { body: makeBody(), status: 200, headers: {} }, 60);
 
-    invalidateResponseCache('team-1', 'api');
+    await invalidateResponseCache('conn-1', 'ep-1');
 
-    expect(getCachedResponse('gw:resp:team-1:api:GET:/foo:nobody')).toBeNull();
-    expect(getCachedResponse('gw:resp:team-1:api:POST:/bar:abc')).toBeNull();
-    expect(getCachedResponse('gw:resp:team-2:api:GET:/foo:nobody')).not.toBeNull();
+    expect(await getCachedResponse(a)).toBeNull();
+    expect(await getCachedResponse(b)).not.toBeNull();
   });
 });
 
 describe('clearResponseCache', () => {
   beforeEach(() => clearResponseCache());
 
-  it('empties the cache', () => {
-    setCachedResponse('key-a', { body: makeBody(), status: 200, headers: {} }, 60);
-    setCachedResponse('key-b', { body: makeBody(), status: 200, headers: {} }, 60);
+  it('empties the cache', async () => {
+    await setCachedResponse('key-a', { body: makeBody(), status: 200, headers: {} }, 60);
+    await setCachedResponse('key-b', { body: makeBody(), status: 200, headers: {} }, 60);
     expect(getResponseCacheSize()).toBe(2);
 
     clearResponseCache();
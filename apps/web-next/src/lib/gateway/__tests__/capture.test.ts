@@ -0,0 +1,175 @@
+/**
+ * Tests for Service Gateway — Payload Capture
+ *
+ * Verifies header/body/query redaction, PII scrubbing, size caps,
+ * sampling, body prefix reads and the retention stamp on stored rows.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import {
+  REDACTED,
+  buildCaptureRecord,
+  readBodyPrefix,
+  redactBody,
+  redactHeaders,
+  redactQuery,
+  scrubText,
+  shouldCapture,
+  type CaptureInput,
+} from '../capture';
+
+const NO_RULES = { fields: [], values: [] };
+
+function makeInput(overrides: Partial<CaptureInput> = {}): CaptureInput {
+  return {
+    connector: {
+      id: 'conn-1',
+      captureEnabled: true,
+      captureSampleRate: 1,
+      captureMaxBodyBytes: 1024,
+      captureRetentionDays: 7,
+      captureRedactFields: [],
+    },
+    teamId: 'team-1',
+    endpointName: 'chat',
+    apiKeyId: 'key-1',
+    requestId: 'req-1',
+    method: 'POST',
+    path: '/chat',
+    query: '',
+    requestHeaders: new Headers({ 'content-type': 'application/json' }),
+    requestBody: '{"prompt":"hi"}',
+    statusCode: 200,
+    responseHeaders: new Headers({ 'content-type': 'application/json' }),
+    responseBody: { text: '{"answer":"hello"}', truncated: false },
+    latencyMs: 42,
+    error: null,
+    ...overrides,
+  };
+}
+
+describe('redactHeaders', () => {
+  it('redacts credential headers and secret-looking names', () => {
+    const headers = new Headers({
+      authorization: 'Bearer gw_abc',
+      cookie: 'sid=1',
+      'x-upstream-token': 't',
+      'content-type': 'application/json',
+    });
+    expect(redactHeaders(headers, NO_RULES)).toEqual({
+      authorization: REDACTED,
+      cookie: REDACTED,
+      'x-upstream-token': REDACTED,
+      'content-type': 'application/json',
+    });
+  });
+
+  it('honours connector redaction fields', () => {
+    const headers = new Headers({ 'x-tenant': 'acme' });
+    expect(redactHeaders(headers, { fields: ['X-Tenant'], values: [] })['x-tenant']).toBe(REDACTED);
+  });
+});
+
+describe('redactBody', () => {
+  it('redacts sensitive JSON fields at any depth', () => {
+    const body = JSON.stringify({ user: { password: 'p', name: 'Ann' }, items: [{ apiKey: 'k' }] });
+    expect(JSON.parse(redactBody(body, NO_RULES))).toEqual({
+      user: { password: REDACTED, name: 'Ann' },
+      items: [{ apiKey: REDACTED }],
+    });
+  });
+
+  it('scrubs emails, card numbers and JWTs inside values', () => {
+    const body = JSON.stringify({
+      note: 'mail ann@example.com, card 4111 1111 1111 1111, order 1234567890123',
+      jwt: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig',
+    });
+    const redacted = JSON.parse(redactBody(body, NO_RULES));
+    expect(redacted.note).toBe(`mail ${REDACTED}, card ${REDACTED}, order 1234567890123`);
+    expect(redacted.jwt).toBe(REDACTED);
+  });
+
+  it('redacts fields in truncated JSON and form bodies as text', () => {
+    expect(redactBody('{"token":"abc","prompt":"long te', NO_RULES))
+      .toBe(`{"token":"${REDACTED}","prompt":"long te`);
+    expect(redactBody('user=ann&password=hunter2', NO_RULES))
+      .toBe(`user=ann&password=${REDACTED}`);
+  });
+
+  it('removes resolved secret values wherever they appear', () => {
+    const secret = 'sk-live-0123456789';
+    expect(scrubText(`echo: ${secret}`, [secret])).toBe(`echo: ${REDACTED}`);
+    expect(scrubText('short abc', ['abc'])).toBe('short abc');
+  });
+});
+
+describe('redactQuery', () => {
+  it('redacts sensitive query parameters', () => {
+    expect(redactQuery('?q=llama&api_key=secret', NO_RULES)).toBe(`?q=llama&api_key=${REDACTED}`);
+  });
+});
+
+describe('shouldCapture', () => {
+  it('samples at the configured rate', () => {
+    const connector = { captureEnabled: true, captureSampleRate: 0.25 };
+    expect(shouldCapture(connector, () => 0.2)).toBe(true);
+    expect(shouldCapture(connector, () => 0.3)).toBe(false);
+  });
+
+  it('never captures when disabled', () => {
+    expect(shouldCapture({ captureEnabled: false, captureSampleRate: 1 }, () => 0)).toBe(false);
+  });
+});
+
+describe('readBodyPrefix', () => {
+  it('reads text bodies up to the cap and flags truncation', async () => {
+    const response = new Response('a'.repeat(100), { headers: { 'content-type': 'text/plain' } });
+    expect(await readBodyPrefix(response, 10)).toEqual({ text: 'a'.repeat(10), truncated: true });
+  });
+
+  it('skips streamed and binary bodies', async () => {
+    const sse = new Response('data: x\n\n', { headers: { 'content-type': 'text/event-stream' } });
+    const image = new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'image/png' } });
+    expect(await readBodyPrefix(sse, 1024)).toEqual({ text: null, truncated: false });
+    expect(await readBodyPrefix(image, 1024)).toEqual({ text: null, truncated: false });
+  });
+});
+
+describe('buildCaptureRecord', () => {
+  it('stamps the expiry from the connector retention', () => {
+    const now = new Date('2026-10-01T00:00:00Z');
+    const record = buildCaptureRecord(makeInput(), now);
+    expect(record.expiresAt.toISOString()).toBe('2026-10-08T00:00:00.000Z');
+    expect(record.requestBody).toBe('{"prompt":"hi"}');
+    expect(record.responseBody).toBe('{"answer":"hello"}');
+  });
+
+  it('caps the request body and marks it truncated', () => {
+    const input = makeInput({ requestBody: JSON.stringify({ prompt: 'x'.repeat(2000) }) });
+    const record = buildCaptureRecord(input);
+    expect(record.requestTruncated).toBe(true);
+    expect(new TextEncoder().encode(record.requestBody!).byteLength).toBeLessThanOrEqual(1024);
+  });
+
+  it('stores headers only when the body cap is zero', () => {
+    const input = makeInput({
+      connector: { ...makeInput().connector, captureMaxBodyBytes: 0 },
+      responseBody: { text: null, truncated: false },
+    });
+    const record = buildCaptureRecord(input);
+    expect(record.requestBody).toBeNull();
+    expect(record.responseBody).toBeNull();
+    expect(record.requestHeaders).toEqual({ 'content-type': 'application/json' });
+  });
+
+  it('redacts secrets echoed in errors', () => {
+    const record = buildCaptureRecord(makeInput({
+      error: 'upstream rejected key sk-live-0123456789',
+      secretValues: ['sk-live-0123456789'],
+    }));
+    expect(record.error).toBe(`upstream rejected key ${REDACTED}`);
+  });
+});
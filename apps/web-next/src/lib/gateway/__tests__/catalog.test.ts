@@ -1,10 +1,18 @@
 import { describe, it, expect, vi } from 'vitest';
 
+const { mockFindMany, mockFindFirst, mockCount } = vi.hoisted(() => ({
+  mockFindMany: vi.fn().mockResolvedValue([]),
+  mockFindFirst: vi.fn().mockResolvedValue(null),
+  mockCount: vi.fn().mockResolvedValue(0),
+}));
+
 vi.mock('@/lib/db', () => ({
-  prisma: {},
+  prisma: {
+    serviceConnector: { findMany: mockFindMany, findFirst: mockFindFirst, count: mockCount },
+  },
 }));
 
-import { buildToolDescriptor } from '../catalog';
+import { buildToolCatalog, buildToolDescriptor, loadToolOpenApiSpec } from '../catalog';
 
 function makeConnector(overrides: Record<string, unknown> = {}) {
   return {
@@ -162,3 +170,56 @@ describe('buildToolDescriptor', () => {
     expect(result.rankings[0].qualityRank).toBe(2);
   });
 });
+
+describe('buildToolCatalog access filtering', () => {
+  it('lists every enabled endpoint without an access restriction', async () => {
+    await buildToolCatalog('team-1');
+    const args = mockFindMany.mock.calls.at(-1)![0];
+    expect(args.where.id).toBeUndefined();
+    expect(args.include.endpoints.where).toEqual({ enabled: true });
+  });
+
+  it('limits connectors and endpoints to what the key allows', async () => {
+    await buildToolCatalog('team-1', {
+      access: { connectorId: 'conn-1', allowedEndpoints: ['ep-1', 'chat'] },
+    });
+    const args = mockFindMany.mock.calls.at(-1)![0];
+    const endpointWhere = {
+      enabled: true,
+      OR: [{ id: { in: ['ep-1', 'chat'] } }, { name: { in: ['ep-1', 'chat'] } }],
+    };
+    expect(args.where.id).toBe('conn-1');
+    expect(args.where.endpoints).toEqual({ some: endpointWhere });
+    expect(args.include.endpoints.where).toEqual(endpointWhere);
+    expect(mockCount.mock.calls.at(-1)![0].where).toBe(args.where);
+  });
+});
+
+describe('loadToolOpenApiSpec', () => {
+  const tool = buildToolDescriptor(makeConnector(), '/api/v1/gw');
+  const specConnector = (displayName: string) => ({
+    ...makeConnector({ displayName }),
+    version: '1.0.0',
+    upstreamBaseUrl: 'https://api.example.com',
+  });
+
+  it('prefers the caller\'s own connector over a public one with the same slug', async () => {
+    mockFindFirst.mockReset().mockResolvedValueOnce(specConnector('Team OpenAI'));
+
+    const spec = (await loadToolOpenApiSpec('team-1', tool, 'https://naap.example')) as { info: { title: string } };
+
+    expect(spec.info.title).toContain('Team OpenAI');
+    expect(mockFindFirst).toHaveBeenCalledTimes(1);
+    expect(mockFindFirst.mock.calls[0][0].where).toEqual({ slug: 'openai', status: 'published', teamId: 'team-1' });
+  });
+
+  it('falls back to the public connector', async () => {
+    mockFindFirst.mockReset().mockResolvedValueOnce(null).mockResolvedValueOnce(specConnector('Public OpenAI'));
+
+    const spec = (await loadToolOpenApiSpec('personal:user-1', tool, 'https://naap.example')) as { info: { title: string } };
+
+    expect(spec.info.title).toContain('Public OpenAI');
+    expect(mockFindFirst.mock.calls[0][0].where).toMatchObject({ ownerUserId: 'user-1' });
+    expect(mockFindFirst.mock.calls[1][0].where).toEqual({ slug: 'openai', status: 'published', visibility: 'public' });
+  });
+});
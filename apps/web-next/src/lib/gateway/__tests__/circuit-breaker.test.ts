@@ -0,0 +1,160 @@
+/**
+ * Tests for Service Gateway — Circuit Breaker
+ *
+ * Verifies state transitions with the in-memory fallback, per-connector
+ * thresholds, manual reset, and delegation to Redis when available.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockRedis = {
+  hgetall: vi.fn(),
+  del: vi.fn(),
+  eval: vi.fn(),
+  set: vi.fn(),
+};
+let redisAvailable = false;
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => (redisAvailable ? mockRedis : null),
+}));
+
+import {
+  acquireProbe,
+  getCircuit,
+  recordFailure,
+  recordSuccess,
+  resetCircuit,
+  clearLocalCircuits,
+} from '../circuit-breaker';
+
+const OPTIONS = { failureThreshold: 3, openDurationMs: 10_000 };
+
+describe('circuit breaker (in-memory fallback)', () => {
+  beforeEach(() => {
+    redisAvailable = false;
+    clearLocalCircuits();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts CLOSED for unknown connectors', async () => {
+    const cb = await getCircuit('conn-1');
+    expect(cb.state).toBe('CLOSED');
+    expect(cb.failures).toBe(0);
+  });
+
+  it('opens after reaching the configured failure threshold', async () => {
+    await recordFailure('conn-1', OPTIONS);
+    await recordFailure('conn-1', OPTIONS);
+    expect((await getCircuit('conn-1')).state).toBe('CLOSED');
+
+    await recordFailure('conn-1', OPTIONS);
+    const cb = await getCircuit('conn-1');
+    expect(cb.state).toBe('OPEN');
+    expect(cb.failures).toBe(3);
+  });
+
+  it('moves to HALF_OPEN after the cooldown and re-opens on a failed probe', async () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+
+    vi.advanceTimersByTime(10_001);
+    expect((await getCircuit('conn-1')).state).toBe('HALF_OPEN');
+
+    await recordFailure('conn-1', OPTIONS);
+    const cb = await getCircuit('conn-1');
+    expect(cb.state).toBe('OPEN');
+    expect(cb.nextProbeAt).toBeGreaterThan(Date.now());
+  });
+
+  it('lets a single HALF_OPEN probe through until its result is recorded', async () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+    vi.advanceTimersByTime(10_001);
+
+    expect(await acquireProbe('conn-1', OPTIONS)).toBe(true);
+    expect(await acquireProbe('conn-1', OPTIONS)).toBe(false);
+
+    await recordFailure('conn-1', OPTIONS);
+    vi.advanceTimersByTime(10_001);
+    expect(await acquireProbe('conn-1', OPTIONS)).toBe(true);
+  });
+
+  it('closes on success', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+    await recordSuccess('conn-1');
+    const cb = await getCircuit('conn-1');
+    expect(cb.state).toBe('CLOSED');
+    expect(cb.failures).toBe(0);
+  });
+
+  it('keeps connectors isolated', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+    expect((await getCircuit('conn-2')).state).toBe('CLOSED');
+  });
+
+  it('resetCircuit closes an OPEN breaker', async () => {
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+    await resetCircuit('conn-1');
+    expect((await getCircuit('conn-1')).state).toBe('CLOSED');
+  });
+});
+
+describe('circuit breaker (Redis)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    redisAvailable = true;
+    clearLocalCircuits();
+  });
+
+  it('reads shared state from Redis', async () => {
+    mockRedis.hgetall.mockResolvedValue({
+      state: 'OPEN',
+      failures: '5',
+      lastFailureAt: String(Date.now()),
+      nextProbeAt: String(Date.now() + 60_000),
+    });
+    const cb = await getCircuit('conn-1');
+    expect(mockRedis.hgetall).toHaveBeenCalledWith('gw:cb:conn-1');
+    expect(cb.state).toBe('OPEN');
+    expect(cb.failures).toBe(5);
+  });
+
+  it('treats an empty hash as CLOSED', async () => {
+    mockRedis.hgetall.mockResolvedValue({});
+    expect((await getCircuit('conn-1')).state).toBe('CLOSED');
+  });
+
+  it('records failures atomically with the connector thresholds', async () => {
+    mockRedis.eval.mockResolvedValue(1);
+    await recordFailure('conn-1', OPTIONS);
+    const args = mockRedis.eval.mock.calls[0];
+    expect(args[1]).toBe(1);
+    expect(args[2]).toBe('gw:cb:conn-1');
+    expect(args[4]).toBe('3');
+    expect(args[5]).toBe('10000');
+  });
+
+  it('deletes the shared key on success', async () => {
+    mockRedis.del.mockResolvedValue(1);
+    await recordSuccess('conn-1');
+    expect(mockRedis.del).toHaveBeenCalledWith('gw:cb:conn-1', 'gw:cb:conn-1:probe');
+  });
+
+  it('claims the probe lease with SET NX', async () => {
+    mockRedis.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+    expect(await acquireProbe('conn-1', OPTIONS)).toBe(true);
+    expect(await acquireProbe('conn-1', OPTIONS)).toBe(false);
+    expect(mockRedis.set).toHaveBeenCalledWith('gw:cb:conn-1:probe', expect.any(String), 'PX', 10_000, 'NX');
+  });
+
+  it('falls back to local state when Redis errors', async () => {
+    mockRedis.eval.mockRejectedValue(new Error('down'));
+    mockRedis.hgetall.mockRejectedValue(new Error('down'));
+    for (let i = 0; i < 3; i++) await recordFailure('conn-1', OPTIONS);
+    expect((await getCircuit('conn-1')).state).toBe('OPEN');
+  });
+});
@@ -4,6 +4,11 @@ import {
   catalogToOpenAiFunctions,
   mcpToolNameToRoute,
   handleMcpRequest,
+  catalogToMcpResources,
+  catalogToMcpPrompts,
+  getMcpPrompt,
+  paginateMcpList,
+  MCP_PROTOCOL_VERSION,
 } from '../mcp-adapter';
 import type { ToolDescriptor } from '../catalog';
 
@@ -134,3 +139,125 @@ describe('handleMcpRequest', () => {
     expect(result.error!.code).toBe(-32600);
   });
 });
+
+function makeCatalogWithExtras(): ToolDescriptor[] {
+  const [tool] = makeCatalog();
+  return [
+    {
+      ...tool,
+      pricing: { billingModel: 'per-request', costPerUnit: 0.002, unit: 'request', currency: 'USD' },
+      endpoints: [
+        {
+          ...tool.endpoints[0],
+          examples: [
+            { description: 'Say hello', input: { model: 'gpt-4o' }, output: { text: 'hello' } },
+          ],
+        },
+      ],
+    },
+  ];
+}
+
+describe('initialize', () => {
+  it('advertises tools, resources and prompts', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } },
+      makeCatalog(),
+    );
+    const init = result.result as { protocolVersion: string; capabilities: Record<string, unknown> };
+    expect(init.protocolVersion).toBe('2024-11-05');
+    expect(Object.keys(init.capabilities)).toEqual(['tools', 'resources', 'prompts']);
+  });
+
+  it('falls back to the latest protocol version', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '1999-01-01' } },
+      makeCatalog(),
+    );
+    expect((result.result as { protocolVersion: string }).protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+  });
+});
+
+describe('paginateMcpList', () => {
+  it('returns an opaque cursor for the next page', () => {
+    const items = Array.from({ length: 5 }, (_, i) => i);
+    const first = paginateMcpList(items, undefined, 2)!;
+    expect(first.items).toEqual([0, 1]);
+    const second = paginateMcpList(items, first.nextCursor, 2)!;
+    expect(second.items).toEqual([2, 3]);
+    const last = paginateMcpList(items, second.nextCursor, 2)!;
+    expect(last.items).toEqual([4]);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(paginateMcpList([1], 'not-a-cursor')).toBeNull();
+    expect(paginateMcpList([1], 42)).toBeNull();
+  });
+});
+
+describe('MCP resources', () => {
+  it('lists an OpenAPI resource per connector and pricing when present', () => {
+    expect(catalogToMcpResources(makeCatalog()).map((r) => r.uri)).toEqual([
+      'gateway://connectors/openai/openapi',
+    ]);
+    expect(catalogToMcpResources(makeCatalogWithExtras()).map((r) => r.uri)).toEqual([
+      'gateway://connectors/openai/openapi',
+      'gateway://connectors/openai/pricing',
+    ]);
+  });
+
+  it('reads pricing from the catalog', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'gateway://connectors/openai/pricing' } },
+      makeCatalogWithExtras(),
+    );
+    const { contents } = result.result as { contents: Array<{ text: string }> };
+    expect(JSON.parse(contents[0].text)).toMatchObject({ costPerUnit: 0.002, currency: 'USD' });
+  });
+
+  it('reads OpenAPI specs through the loader', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'gateway://connectors/openai/openapi' } },
+      makeCatalog(),
+      { loadOpenApiSpec: async (tool) => ({ openapi: '3.0.3', info: { title: tool.displayName } }) },
+    );
+    const { contents } = result.result as { contents: Array<{ text: string }> };
+    expect(JSON.parse(contents[0].text).info.title).toBe('OpenAI API');
+  });
+
+  it('returns resource-not-found for connectors outside the catalog', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'gateway://connectors/other/openapi' } },
+      makeCatalog(),
+      { loadOpenApiSpec: async () => ({}) },
+    );
+    expect(result.error!.code).toBe(-32002);
+  });
+});
+
+describe('MCP prompts', () => {
+  it('lists one prompt per endpoint example', () => {
+    const prompts = catalogToMcpPrompts(makeCatalogWithExtras());
+    expect(prompts).toEqual([
+      { name: 'openai__chat_completions__example_1', description: 'Say hello', arguments: [] },
+    ]);
+    expect(catalogToMcpPrompts(makeCatalog())).toEqual([]);
+  });
+
+  it('renders the example input and output', () => {
+    const prompt = getMcpPrompt(makeCatalogWithExtras(), 'openai__chat_completions__example_1')!;
+    expect(prompt.messages).toHaveLength(2);
+    expect(prompt.messages[0].content.text).toContain('openai__chat_completions');
+    expect(prompt.messages[0].content.text).toContain('"model": "gpt-4o"');
+    expect(prompt.messages[1].content.text).toContain('"text": "hello"');
+  });
+
+  it('returns an error for unknown prompts', async () => {
+    const result = await handleMcpRequest(
+      { jsonrpc: '2.0', id: 1, method: 'prompts/get', params: { name: 'openai__chat_completions__example_9' } },
+      makeCatalogWithExtras(),
+    );
+    expect(result.error!.code).toBe(-32602);
+  });
+});
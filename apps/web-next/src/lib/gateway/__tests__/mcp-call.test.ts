@@ -0,0 +1,101 @@
+/**
+ * Tests for Service Gateway — MCP Tool Execution
+ *
+ * Verifies argument encoding, header forwarding, error results and
+ * progress notifications for streamed and slow tool calls.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { callGatewayTool, type McpProgress } from '../mcp-call';
+
+const target = { connectorSlug: 'llm', method: 'POST', path: '/chat' };
+
+function sseResponse(events: string[]): Response {
+  return new Response(events.map((e) => `data: ${e}\n\n`).join(''), {
+    headers: { 'content-type': 'text/event-stream' },
+  });
+}
+
+describe('callGatewayTool', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('posts arguments to the engine route with the caller auth', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+
+    const result = await callGatewayTool('https://app.test', target, { prompt: 'hi' }, {
+      headers: new Headers({ authorization: 'Bearer gw_key', cookie: 'sid=1' }),
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://app.test/api/v1/gw/llm/chat');
+    expect(init.body).toBe('{"prompt":"hi"}');
+    expect(init.headers.authorization).toBe('Bearer gw_key');
+    expect(init.headers.cookie).toBeUndefined();
+    expect(result).toEqual({ content: [{ type: 'text', text: '{"ok":true}' }], isError: false });
+  });
+
+  it('encodes GET arguments as a query string and flags HTTP errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('not found', { status: 404 }));
+
+    const result = await callGatewayTool(
+      'https://app.test',
+      { ...target, method: 'GET', path: '/models' },
+      { q: 'llama', limit: 5 },
+      { headers: new Headers() }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://app.test/api/v1/gw/llm/models?q=llama&limit=5');
+    expect(result.isError).toBe(true);
+  });
+
+  it('reports one progress notification per streamed event', async () => {
+    fetchMock.mockResolvedValueOnce(sseResponse(['{"token":"a"}', '{"token":"b"}', '[DONE]']));
+    const progress: McpProgress[] = [];
+
+    const result = await callGatewayTool('https://app.test', target, {}, {
+      headers: new Headers(),
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(progress.map((p) => p.progress)).toEqual([0, 1, 2]);
+    expect(progress.slice(1).map((p) => p.message)).toEqual(['{"token":"a"}', '{"token":"b"}']);
+    expect(result.content[0].text).toContain('data: [DONE]');
+  });
+
+  it('sends heartbeats while waiting for a slow upstream', async () => {
+    vi.useFakeTimers();
+    let resolve!: (r: Response) => void;
+    fetchMock.mockReturnValueOnce(new Promise<Response>((r) => { resolve = r; }));
+    const progress: McpProgress[] = [];
+
+    const call = callGatewayTool('https://app.test', target, {}, {
+      headers: new Headers(),
+      onProgress: (p) => progress.push(p),
+      heartbeatMs: 1000,
+    });
+    await vi.advanceTimersByTimeAsync(2500);
+    resolve(new Response('done'));
+    await call;
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(progress.map((p) => p.progress)).toEqual([0, 1, 2]);
+    expect(progress[2].message).toContain('Waiting for llm');
+  });
+
+  it('throws when the engine route is unreachable', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    await expect(
+      callGatewayTool('https://app.test', target, {}, { headers: new Headers() })
+    ).rejects.toThrow('ECONNREFUSED');
+  });
+});
@@ -15,8 +15,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 const isFeatureEnabled = vi.fn();
+const anyTeamFlagOverrideEnabled = vi.fn();
 vi.mock('@/lib/feature-flags', () => ({
   isFeatureEnabled: (...a: unknown[]) => isFeatureEnabled(...a),
+  anyTeamFlagOverrideEnabled: (...a: unknown[]) => anyTeamFlagOverrideEnabled(...a),
+  buildFlagContextForUserId: async (userId: string, teamId?: string | null) => ({ userId, teamId, roles: [] }),
   SDK_CONNECTOR_FLAG: 'sdk_connector',
 }));
 
@@ -70,6 +73,7 @@ function nativeKeyRequest(rawKey = RAW_KEY): Request {
 describe('authorize — native naap_ key (NAAP-5)', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    anyTeamFlagOverrideEnabled.mockResolvedValue(false);
   });
 
   describe('flag OFF (INV-1: zero-regression)', () => {
@@ -91,6 +95,39 @@ describe('authorize — native naap_ key (NAAP-5)', () => {
     });
   });
 
+  describe('flag targeted (globally OFF, on for some callers)', () => {
+    beforeEach(() => {
+      anyTeamFlagOverrideEnabled.mockResolvedValue(true);
+      mockDevApiKeyFind.mockResolvedValue({
+        id: 'key-1',
+        userId: 'user-1',
+        keyHash: KEY_HASH,
+        status: 'ACTIVE',
+        seatId: 'seat-1',
+        teamId: 'team-1',
+      });
+    });
+
+    it('evaluates the flag for the key owner and team', async () => {
+      isFeatureEnabled.mockImplementation(async (_key: string, ctx?: { userId?: string }) => ctx?.userId === 'user-1');
+
+      const result = await authorize(nativeKeyRequest());
+
+      expect(result?.callerId).toBe('user-1');
+      expect(isFeatureEnabled).toHaveBeenLastCalledWith(
+        'sdk_connector',
+        expect.objectContaining({ userId: 'user-1', teamId: 'team-1' }),
+      );
+    });
+
+    it('rejects a key whose owner is outside the targeting', async () => {
+      isFeatureEnabled.mockResolvedValue(false);
+
+      expect(await authorize(nativeKeyRequest())).toBeNull();
+      expect(mockDevApiKeyFind).toHaveBeenCalled();
+    });
+  });
+
   describe('flag ON', () => {
     beforeEach(() => {
       isFeatureEnabled.mockResolvedValue(true);
@@ -0,0 +1,223 @@
+/**
+ * Tests for Service Gateway — OpenAPI Importer
+ *
+ * Verifies parsing (JSON/YAML), server/security/operation mapping,
+ * $ref inlining, round-tripping generated specs, and re-import diffs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  importOpenApi,
+  parseOpenApiDocument,
+  diffOpenApiImport,
+  OpenApiImportError,
+  type ExistingEndpoint,
+} from '../openapi-import';
+import { generateOpenApiSpec } from '../openapi';
+import { createConnectorSchema } from '../admin/validation';
+
+const petstore = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', description: 'Pets as a service' },
+  servers: [{ url: 'https://{region}.pets.example.com/v1', variables: { region: { default: 'eu' } } }],
+  security: [{ apiKeyAuth: [] }],
+  components: {
+    securitySchemes: { apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, owner: { $ref: '#/components/schemas/Owner' } },
+      },
+      Owner: { type: 'object', properties: { pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+    },
+    parameters: {
+      Tenant: { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+    },
+  },
+  paths: {
+    '/pets': {
+      get: { operationId: 'listPets', summary: 'List pets' },
+      post: {
+        operationId: 'createPet',
+        parameters: [{ $ref: '#/components/parameters/Tenant' }],
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+      },
+      options: { operationId: 'petsOptions' },
+    },
+    '/pets/{pet-id}': {
+      delete: { summary: 'Delete a pet', deprecated: true },
+    },
+    '/uploads': {
+      put: { operationId: 'upload', requestBody: { content: { 'application/octet-stream': {} } } },
+    },
+  },
+};
+
+describe('parseOpenApiDocument', () => {
+  it('parses YAML documents', () => {
+    const doc = parseOpenApiDocument('openapi: 3.1.0\ninfo:\n  title: Y\npaths: {}\n');
+    expect(doc.openapi).toBe('3.1.0');
+  });
+
+  it('rejects Swagger 2.0 and unparseable input', () => {
+    expect(() => parseOpenApiDocument({ swagger: '2.0', paths: {} })).toThrow(/Swagger 2.0/);
+    expect(() => parseOpenApiDocument('{ not json')).toThrow(OpenApiImportError);
+  });
+});
+
+describe('importOpenApi', () => {
+  const result = importOpenApi(petstore);
+
+  it('maps info and servers onto the connector', () => {
+    expect(result.connector).toMatchObject({
+      slug: 'pet-store',
+      displayName: 'Pet Store',
+      description: 'Pets as a service',
+      upstreamBaseUrl: 'https://eu.pets.example.com/v1',
+      allowedHosts: ['eu.pets.example.com'],
+    });
+  });
+
+  it('maps apiKey header security to header auth', () => {
+    expect(result.connector.authType).toBe('header');
+    expect(result.connector.authConfig).toEqual({ headers: { 'X-API-Key': '{{secrets.apiKey}}' } });
+    expect(result.connector.secretRefs).toEqual(['apiKey']);
+  });
+
+  it('maps operations to endpoints', () => {
+    expect(result.endpoints.map((e) => `${e.method} ${e.path}`)).toEqual([
+      'GET /pets',
+      'POST /pets',
+      'DELETE /pets/:pet_id',
+      'PUT /uploads',
+    ]);
+    const create = result.endpoints[1];
+    expect(create.name).toBe('createPet');
+    expect(create.requiredHeaders).toEqual(['X-Tenant']);
+    expect(create.bodySchema).toMatchObject({ type: 'object', required: ['name'] });
+    expect(result.endpoints[3]).toMatchObject({ upstreamContentType: 'application/octet-stream', bodyTransform: 'binary' });
+  });
+
+  it('cuts recursive schemas instead of looping', () => {
+    const schema = result.endpoints[1].bodySchema as {
+      properties: { owner: { properties: { pets: { items: unknown } } } };
+    };
+    const owner = schema.properties.owner;
+    expect(owner.properties.pets.items).toEqual({ type: 'object' });
+  });
+
+  it('rejects shared $refs that expand past the inlining budget', () => {
+    const names = Array.from({ length: 12 }, (_, i) => `S${i}`);
+    const schemas = Object.fromEntries(
+      names.map((name) => [
+        name,
+        {
+          type: 'object',
+          properties: Object.fromEntries(
+            Array.from({ length: 8 }, (_, j) => [`p${j}`, { $ref: `#/components/schemas/${names[(names.indexOf(name) + j + 1) % 12]}` }])
+          ),
+        },
+      ])
+    );
+    const bomb = {
+      ...petstore,
+      components: { schemas },
+      paths: {
+        '/bomb': { post: { requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/S0' } } } } } },
+      },
+    };
+    expect(() => importOpenApi(bomb)).toThrow(/more than 20000 nodes/);
+  });
+
+  it('skips an operation whose path params collide with an earlier one', () => {
+    const doc = {
+      ...petstore,
+      paths: {
+        '/items/{item-id}': { get: { operationId: 'a' } },
+        '/items/{item_id}': { get: { operationId: 'b' }, delete: { operationId: 'c' } },
+      },
+    };
+    const { endpoints, warnings } = importOpenApi(doc);
+    expect(endpoints.map((e) => `${e.name} ${e.method} ${e.path}`)).toEqual([
+      'a GET /items/:item_id',
+      'c DELETE /items/:item_id',
+    ]);
+    expect(warnings).toContain('GET /items/{item_id} skipped: maps to /items/:item_id like GET /items/{item-id}');
+  });
+
+  it('reports what it could not map', () => {
+    expect(result.warnings).toContain('OPTIONS /pets skipped: method not supported by the gateway');
+    expect(result.warnings).toContain('DELETE /pets/{pet-id} is deprecated');
+  });
+
+  it('produces a connector that passes create validation with its auth config intact', () => {
+    const parsed = createConnectorSchema.safeParse(result.connector);
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.authConfig).toEqual({ headers: { 'X-API-Key': '{{secrets.apiKey}}' } });
+  });
+
+  it('maps bearer, basic and query schemes', () => {
+    const withScheme = (scheme: object) =>
+      importOpenApi({ ...petstore, security: undefined, components: { securitySchemes: { s: scheme } } }).connector;
+    expect(withScheme({ type: 'http', scheme: 'bearer' }).authType).toBe('bearer');
+    expect(withScheme({ type: 'http', scheme: 'basic' }).secretRefs).toEqual(['username', 'password']);
+    expect(withScheme({ type: 'apiKey', in: 'query', name: 'key' }).authConfig).toEqual({
+      paramName: 'key',
+      secretRef: 'apiKey',
+    });
+  });
+
+  it('requires an absolute server URL unless one is given', () => {
+    const relative = { ...petstore, servers: [{ url: '/v1' }] };
+    expect(() => importOpenApi(relative)).toThrow(/absolute/);
+    expect(importOpenApi(relative, { upstreamBaseUrl: 'https://api.example.com/' }).connector.upstreamBaseUrl)
+      .toBe('https://api.example.com');
+  });
+
+  it('round-trips a spec generated by generateOpenApiSpec', () => {
+    const spec = generateOpenApiSpec(
+      {
+        slug: 'echo',
+        displayName: 'Echo',
+        description: null,
+        version: 1,
+        authType: 'bearer',
+        upstreamBaseUrl: 'https://echo.example.com',
+        endpoints: [
+          { name: 'Get item', method: 'GET', path: '/items/:id', upstreamContentType: 'application/json', requiredHeaders: [] },
+        ],
+      },
+      'https://naap.example.com'
+    );
+    const { endpoints } = importOpenApi(spec as unknown as Record<string, unknown>);
+    expect(endpoints[0]).toMatchObject({ method: 'GET', path: '/items/:id' });
+  });
+});
+
+describe('diffOpenApiImport', () => {
+  const existing: ExistingEndpoint[] = [
+    {
+      id: 'ep-1', name: 'listPets', description: 'List pets', method: 'GET', path: '/pets',
+      upstreamPath: '/pets', upstreamContentType: 'application/json', bodySchema: null, requiredHeaders: [],
+    },
+    {
+      id: 'ep-2', name: 'createPet', description: null, method: 'POST', path: '/pets',
+      upstreamPath: '/pets', upstreamContentType: 'application/json', bodySchema: null, requiredHeaders: [],
+    },
+    {
+      id: 'ep-3', name: 'legacy', description: null, method: 'GET', path: '/legacy',
+      upstreamPath: '/legacy', upstreamContentType: 'application/json', bodySchema: null, requiredHeaders: [],
+    },
+  ];
+
+  it('classifies added, changed, removed and unchanged endpoints', () => {
+    const diff = diffOpenApiImport(existing, importOpenApi(petstore).endpoints);
+    expect(diff.added.map((e) => `${e.method} ${e.path}`)).toEqual(['DELETE /pets/:pet_id', 'PUT /uploads']);
+    expect(diff.removed).toEqual([{ id: 'ep-3', method: 'GET', path: '/legacy', name: 'legacy' }]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].id).toBe('ep-2');
+    expect(Object.keys(diff.changed[0].changes).sort()).toEqual(['bodySchema', 'requiredHeaders']);
+  });
+});
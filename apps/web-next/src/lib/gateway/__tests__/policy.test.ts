@@ -0,0 +1,131 @@
+/**
+ * Tests for Service Gateway — Policy Engine
+ *
+ * Verifies how plan and endpoint limits combine, the IETF draft
+ * `RateLimit-*` headers, and concurrency slot handling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => null,
+}));
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    gatewayUsageRecord: { count: vi.fn().mockResolvedValue(0) },
+  },
+}));
+
+import { enforcePolicy, resolveRateLimitPolicy } from '../policy';
+import { clearLocalRateLimitState } from '../rate-limit';
+import type { AuthResult, ResolvedEndpoint } from '../types';
+
+function makeAuth(overrides: Partial<AuthResult> = {}): AuthResult {
+  return {
+    authenticated: true,
+    callerType: 'apiKey',
+    callerId: 'user-1',
+    teamId: 'team-1',
+    apiKeyId: 'key-1',
+    rateLimit: 60,
+    ...overrides,
+  } as AuthResult;
+}
+
+function makeEndpoint(overrides: Partial<ResolvedEndpoint> = {}): ResolvedEndpoint {
+  return {
+    id: 'ep-1',
+    connectorId: 'conn-1',
+    name: 'chat',
+    rateLimit: null,
+    burstLimit: null,
+    maxConcurrent: null,
+    maxRequestSize: null,
+    ...overrides,
+  } as ResolvedEndpoint;
+}
+
+describe('resolveRateLimitPolicy', () => {
+  it('uses the plan rate and burst with a bucket per API key', () => {
+    const policy = resolveRateLimitPolicy(makeAuth({ burstLimit: 20 }), makeEndpoint());
+    expect(policy).toMatchObject({ rateLimit: 60, burst: 20, bucketKey: 'key-1', concurrency: [] });
+  });
+
+  it('defaults the burst to the per-minute rate', () => {
+    expect(resolveRateLimitPolicy(makeAuth(), makeEndpoint()).burst).toBe(60);
+  });
+
+  it('gives endpoints with their own limit a separate bucket', () => {
+    const policy = resolveRateLimitPolicy(
+      makeAuth({ burstLimit: 20 }),
+      makeEndpoint({ rateLimit: 10 })
+    );
+    expect(policy).toMatchObject({ rateLimit: 10, burst: 10, bucketKey: 'key-1:ep-1' });
+  });
+
+  it('applies plan and endpoint concurrency caps together', () => {
+    const policy = resolveRateLimitPolicy(
+      makeAuth({ maxConcurrent: 10 }),
+      makeEndpoint({ maxConcurrent: 2 })
+    );
+    expect(policy.concurrency).toEqual([['key-1', 10], ['key-1:ep-1', 2]]);
+  });
+
+  it('keys JWT callers by caller id', () => {
+    const policy = resolveRateLimitPolicy(
+      makeAuth({ callerType: 'jwt', apiKeyId: undefined, rateLimit: undefined }),
+      makeEndpoint()
+    );
+    expect(policy).toMatchObject({ rateLimit: 100, bucketKey: 'jwt:user-1' });
+  });
+});
+
+describe('enforcePolicy', () => {
+  beforeEach(() => {
+    clearLocalRateLimitState();
+  });
+
+  it('returns IETF draft and legacy rate limit headers', async () => {
+    const result = await enforcePolicy(makeAuth({ burstLimit: 5 }), makeEndpoint(), 0);
+    expect(result.allowed).toBe(true);
+    expect(result.headers).toMatchObject({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '4',
+      'RateLimit-Policy': '60;w=60;burst=5',
+      'X-RateLimit-Remaining': '4',
+    });
+  });
+
+  it('rejects with 429 and Retry-After once the burst is spent', async () => {
+    const auth = makeAuth({ burstLimit: 1 });
+    await enforcePolicy(auth, makeEndpoint(), 0);
+    const result = await enforcePolicy(auth, makeEndpoint(), 0);
+
+    expect(result.allowed).toBe(false);
+    expect(result.statusCode).toBe(429);
+    expect(result.headers?.['RateLimit-Remaining']).toBe('0');
+    expect(result.headers?.['Retry-After']).toBe('1');
+  });
+
+  it('holds a concurrency slot until the lease is released', async () => {
+    const endpoint = makeEndpoint({ maxConcurrent: 1 });
+    const first = await enforcePolicy(makeAuth(), endpoint, 0);
+    expect(first.lease).toBeDefined();
+
+    const second = await enforcePolicy(makeAuth(), endpoint, 0);
+    expect(second).toMatchObject({ allowed: false, statusCode: 429, reason: 'Too many concurrent requests' });
+
+    await first.lease!.release();
+    expect((await enforcePolicy(makeAuth(), endpoint, 0)).allowed).toBe(true);
+  });
+
+  it('releases the slot when a later check rejects the request', async () => {
+    const endpoint = makeEndpoint({ maxConcurrent: 1, maxRequestSize: 10 });
+    const tooLarge = await enforcePolicy(makeAuth(), endpoint, 100);
+    expect(tooLarge.statusCode).toBe(413);
+    expect(tooLarge.headers?.['RateLimit-Limit']).toBe('60');
+
+    expect((await enforcePolicy(makeAuth(), endpoint, 0)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for Service Gateway — Upstream Failover
+ *
+ * Verifies that proxyToUpstream fails over to the next pool member on
+ * 5xx and network errors, and reports the member that served the request.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => null,
+  cacheGet: vi.fn().mockResolvedValue(null),
+  cacheSet: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { proxyToUpstream, ProxyError, type UpstreamCandidate } from '../proxy';
+import { clearLocalCircuits, getCircuit } from '../circuit-breaker';
+import { clearUpstreamPoolState } from '../upstream-pool';
+
+function candidate(baseUrl: string): UpstreamCandidate {
+  return {
+    baseUrl,
+    request: { url: `${baseUrl}/v1/run`, method: 'POST', headers: new Headers(), body: '{}' },
+  };
+}
+
+const circuit = { connectorId: 'conn-1', slug: 'inference' };
+
+describe('proxyToUpstream failover', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearLocalCircuits();
+    clearUpstreamPoolState();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the first healthy response and records the serving upstream', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const result = await proxyToUpstream(
+      [candidate('https://a.example.com'), candidate('https://b.example.com')],
+      5000, 0, [], false, circuit
+    );
+    expect(result.upstreamUrl).toBe('https://a.example.com');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails over to the next upstream on a 5xx response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('boom', { status: 502 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const result = await proxyToUpstream(
+      [candidate('https://a.example.com'), candidate('https://b.example.com')],
+      5000, 0, [], false, circuit
+    );
+    expect(result.response.status).toBe(200);
+    expect(result.upstreamUrl).toBe('https://b.example.com');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://b.example.com/v1/run');
+    expect((await getCircuit('conn-1')).failures).toBe(0);
+  });
+
+  it('fails over on network errors', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const result = await proxyToUpstream(
+      [candidate('https://a.example.com'), candidate('https://b.example.com')],
+      5000, 0, [], false, circuit
+    );
+    expect(result.upstreamUrl).toBe('https://b.example.com');
+  });
+
+  it('returns the last 5xx response when every upstream fails', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('boom', { status: 502 }))
+      .mockResolvedValueOnce(new Response('still boom', { status: 503 }));
+    const result = await proxyToUpstream(
+      [candidate('https://a.example.com'), candidate('https://b.example.com')],
+      5000, 0, [], false, circuit
+    );
+    expect(result.response.status).toBe(503);
+    expect((await getCircuit('conn-1')).failures).toBe(1);
+  });
+
+  it('throws UPSTREAM_UNAVAILABLE when every upstream is unreachable', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    await expect(
+      proxyToUpstream(
+        [candidate('https://a.example.com'), candidate('https://b.example.com')],
+        5000, 0, [], false, circuit
+      )
+    ).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+  });
+
+  it('skips pool members blocked by SSRF protection', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const result = await proxyToUpstream(
+      [candidate('https://evil.example.org'), candidate('https://b.example.com')],
+      5000, 0, ['b.example.com'], false, circuit
+    );
+    expect(result.upstreamUrl).toBe('https://b.example.com');
+  });
+
+  it('throws SSRF_BLOCKED when no pool member is allowed', async () => {
+    await expect(
+      proxyToUpstream([candidate('http://127.0.0.1')], 5000, 0, [], false, circuit)
+    ).rejects.toBeInstanceOf(ProxyError);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for Service Gateway — Token Bucket + Concurrency Limiter
+ *
+ * Verifies burst/refill behaviour and in-flight slot accounting with the
+ * in-memory fallback, delegation to Redis, and that slots are held until
+ * a streamed body has been fully consumed.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockRedis = {
+  eval: vi.fn(),
+  zrem: vi.fn(),
+};
+let redisAvailable = false;
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => (redisAvailable ? mockRedis : null),
+}));
+
+import {
+  consumeToken,
+  acquireConcurrencySlot,
+  releaseWhenDone,
+  clearLocalRateLimitState,
+} from '../rate-limit';
+
+describe('consumeToken (in-memory fallback)', () => {
+  beforeEach(() => {
+    redisAvailable = false;
+    clearLocalRateLimitState();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to the bucket capacity, then rejects', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await consumeToken('key-1', 60, 5)).allowed).toBe(true);
+    }
+    const denied = await consumeToken('key-1', 60, 5);
+    expect(denied.allowed).toBe(false);
+    expect(denied.remaining).toBe(0);
+    expect(denied.retryAfterSeconds).toBe(1);
+  });
+
+  it('refills at the sustained rate', async () => {
+    for (let i = 0; i < 2; i++) await consumeToken('key-1', 60, 2);
+    expect((await consumeToken('key-1', 60, 2)).allowed).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    const refilled = await consumeToken('key-1', 60, 2);
+    expect(refilled.allowed).toBe(true);
+    expect(refilled.remaining).toBe(0);
+  });
+
+  it('reports remaining tokens and seconds until the bucket is full', async () => {
+    const result = await consumeToken('key-1', 120, 10);
+    expect(result).toMatchObject({ allowed: true, limit: 10, remaining: 9, resetSeconds: 1 });
+  });
+
+  it('keeps buckets independent per key', async () => {
+    await consumeToken('key-1', 60, 1);
+    expect((await consumeToken('key-1', 60, 1)).allowed).toBe(false);
+    expect((await consumeToken('key-2', 60, 1)).allowed).toBe(true);
+  });
+});
+
+describe('consumeToken (Redis)', () => {
+  beforeEach(() => {
+    redisAvailable = true;
+    clearLocalRateLimitState();
+    mockRedis.eval.mockReset();
+  });
+
+  it('evaluates the bucket script atomically in Redis', async () => {
+    mockRedis.eval.mockResolvedValue([1, '3.5']);
+    const result = await consumeToken('key-1', 60, 5);
+
+    expect(result).toMatchObject({ allowed: true, limit: 5, remaining: 3 });
+    const [, numKeys, key, capacity] = mockRedis.eval.mock.calls[0];
+    expect(numKeys).toBe(1);
+    expect(key).toBe('gw:tb:key-1');
+    expect(capacity).toBe('5');
+  });
+
+  it('falls back to local buckets when Redis errors', async () => {
+    mockRedis.eval.mockRejectedValue(new Error('connection lost'));
+    const result = await consumeToken('key-1', 60, 5);
+    expect(result).toMatchObject({ allowed: true, remaining: 4 });
+  });
+});
+
+describe('acquireConcurrencySlot', () => {
+  beforeEach(() => {
+    redisAvailable = false;
+    clearLocalRateLimitState();
+    mockRedis.eval.mockReset();
+    mockRedis.zrem.mockReset();
+  });
+
+  it('caps in-flight leases and frees a slot on release', async () => {
+    const first = await acquireConcurrencySlot('key-1', 2);
+    const second = await acquireConcurrencySlot('key-1', 2);
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(await acquireConcurrencySlot('key-1', 2)).toBeNull();
+
+    await first!.release();
+    await first!.release();
+    expect(await acquireConcurrencySlot('key-1', 2)).not.toBeNull();
+    expect(await acquireConcurrencySlot('key-1', 2)).toBeNull();
+  });
+
+  it('expires leases that are never released', async () => {
+    vi.useFakeTimers();
+    try {
+      await acquireConcurrencySlot('key-1', 1, 1000);
+      expect(await acquireConcurrencySlot('key-1', 1, 1000)).toBeNull();
+      vi.advanceTimersByTime(1001);
+      expect(await acquireConcurrencySlot('key-1', 1, 1000)).not.toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('holds slots in Redis and releases them with ZREM', async () => {
+    redisAvailable = true;
+    mockRedis.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+    const lease = await acquireConcurrencySlot('key-1', 1);
+    expect(lease).not.toBeNull();
+    expect(await acquireConcurrencySlot('key-1', 1)).toBeNull();
+
+    await lease!.release();
+    expect(mockRedis.zrem).toHaveBeenCalledWith('gw:cc:key-1', expect.any(String));
+  });
+});
+
+describe('releaseWhenDone', () => {
+  it('releases the lease only after the body has been read', async () => {
+    const release = vi.fn().mockResolvedValue(undefined);
+    const upstream = new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: one\n\n'));
+        controller.enqueue(new TextEncoder().encode('data: two\n\n'));
+        controller.close();
+      },
+    }), { status: 200, headers: { 'content-type': 'text/event-stream' } });
+
+    const response = releaseWhenDone(upstream, { release });
+    expect(release).not.toHaveBeenCalled();
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    expect(await response.text()).toBe('data: one\n\ndata: two\n\n');
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the lease when the client cancels the stream', async () => {
+    const release = vi.fn().mockResolvedValue(undefined);
+    const upstream = new Response(new ReadableStream({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('tick'));
+      },
+    }));
+
+    const response = releaseWhenDone(upstream, { release });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('releases immediately for responses without a body', () => {
+    const release = vi.fn().mockResolvedValue(undefined);
+    releaseWhenDone(new Response(null, { status: 204 }), { release });
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for Service Gateway — Capture Replay
+ *
+ * Verifies that a replay goes through the connector's current transforms
+ * and auth injection, drops redacted headers, accepts overrides, and
+ * redacts the returned response.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@naap/cache', () => ({
+  getRedis: () => null,
+  cacheGet: vi.fn().mockResolvedValue(null),
+  cacheSet: vi.fn().mockResolvedValue(undefined),
+  cacheDel: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+vi.mock('../resolve', () => ({ resolveConfigForConnector: vi.fn() }));
+
+vi.mock('../secrets', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../secrets')>()),
+  resolveSecrets: vi.fn().mockResolvedValue({ token: 'sk-live-0123456789' }),
+}));
+
+import { resolveConfigForConnector } from '../resolve';
+import { resolveSecrets } from '../secrets';
+import { replayCapture, ReplayError, type ReplayableCapture } from '../replay';
+import { REDACTED } from '../capture';
+import { clearUpstreamPoolState } from '../upstream-pool';
+import type { ResolvedConfig } from '../types';
+
+const mockResolveConfig = resolveConfigForConnector as ReturnType<typeof vi.fn>;
+
+function makeConfig(): ResolvedConfig {
+  return {
+    connector: {
+      id: 'conn-1',
+      teamId: 'team-1',
+      ownerUserId: null,
+      slug: 'llm',
+      displayName: 'LLM',
+      status: 'published',
+      visibility: 'private',
+      upstreamBaseUrl: 'https://api.example.com',
+      upstreams: [],
+      loadBalancing: 'round-robin',
+      allowedHosts: ['api.example.com'],
+      defaultTimeout: 5000,
+      healthCheckPath: null,
+      circuitFailureThreshold: 5,
+      circuitOpenDurationMs: 30000,
+      authType: 'bearer',
+      authConfig: { tokenRef: 'token' },
+      secretRefs: ['token'],
+      responseWrapper: false,
+      streamingEnabled: false,
+      errorMapping: {},
+      captureEnabled: true,
+      captureSampleRate: 1,
+      captureMaxBodyBytes: 4096,
+      captureRetentionDays: 7,
+      captureRedactFields: [],
+    },
+    endpoint: {
+      id: 'ep-1',
+      connectorId: 'conn-1',
+      name: 'chat',
+      method: 'POST',
+      path: '/chat',
+      enabled: true,
+      upstreamMethod: null,
+      upstreamPath: '/v1/chat',
+      upstreamContentType: 'application/json',
+      upstreamQueryParams: {},
+      upstreamStaticBody: null,
+      bodyTransform: 'passthrough',
+      responseBodyTransform: 'none',
+      headerMapping: {},
+      rateLimit: null,
+      burstLimit: null,
+      maxConcurrent: null,
+      timeout: null,
+      maxRequestSize: null,
+      maxResponseSize: null,
+      cacheTtl: null,
+      retries: 0,
+      bodyPattern: null,
+      bodyBlacklist: [],
+      bodySchema: null,
+      requiredHeaders: [],
+    },
+  };
+}
+
+function makeCapture(overrides: Partial<ReplayableCapture> = {}): ReplayableCapture {
+  return {
+    id: 'cap-1',
+    connectorId: 'conn-1',
+    teamId: 'team-1',
+    method: 'POST',
+    path: '/chat',
+    query: '',
+    requestHeaders: { 'content-type': 'application/json', authorization: REDACTED },
+    requestBody: '{"prompt":"hi"}',
+    requestTruncated: false,
+    ...overrides,
+  };
+}
+
+describe('replayCapture', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearUpstreamPoolState();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    mockResolveConfig.mockResolvedValue(makeConfig());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the captured request through the current transforms and auth', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{"answer":"ok"}', {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    }));
+
+    const result = await replayCapture(makeCapture(), 'llm', {}, null);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/v1/chat');
+    expect(new Headers(init.headers).get('authorization')).toBe('Bearer sk-live-0123456789');
+    expect(init.body).toBe('{"prompt":"hi"}');
+    expect(result).toMatchObject({ statusCode: 200, body: '{"answer":"ok"}', sentRedactedValues: false });
+  });
+
+  it('applies body and header overrides', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const result = await replayCapture(
+      makeCapture({ requestBody: `{"password":"${REDACTED}"}` }),
+      'llm',
+      { body: '{"password":"real"}', headers: { 'x-debug': '1' } },
+      null
+    );
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.body).toBe('{"password":"real"}');
+    expect(result.sentRedactedValues).toBe(false);
+  });
+
+  it('flags replays that still carry redacted values', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    const result = await replayCapture(
+      makeCapture({ requestBody: `{"password":"${REDACTED}"}` }), 'llm', {}, null
+    );
+    expect(result.sentRedactedValues).toBe(true);
+  });
+
+  it('redacts secrets echoed back by the upstream', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{"echo":"sk-live-0123456789"}', {
+      status: 400,
+      headers: { 'content-type': 'application/json' },
+    }));
+    const result = await replayCapture(makeCapture(), 'llm', {}, null);
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body!)).toEqual({ echo: REDACTED });
+  });
+
+  it('reports upstream failures without throwing', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const result = await replayCapture(makeCapture(), 'llm', {}, null);
+    expect(result.statusCode).toBe(503);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('refuses truncated bodies without an override', async () => {
+    await expect(
+      replayCapture(makeCapture({ requestTruncated: true }), 'llm', {}, null)
+    ).rejects.toBeInstanceOf(ReplayError);
+  });
+
+  it('resolves the capture\'s connector by id with its owner\'s secrets', async () => {
+    const config = makeConfig();
+    config.connector = { ...config.connector, teamId: null, ownerUserId: 'user-9', visibility: 'public' };
+    mockResolveConfig.mockResolvedValueOnce(config);
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    await replayCapture(makeCapture({ teamId: 'team-2' }), 'llm', {}, null);
+
+    expect(mockResolveConfig).toHaveBeenCalledWith('conn-1', 'POST', '/chat');
+    expect(vi.mocked(resolveSecrets).mock.calls.at(-1)?.[0]).toBe('personal:user-9');
+  });
+
+  it('returns a conflict when the endpoint no longer resolves', async () => {
+    mockResolveConfig.mockResolvedValueOnce(null);
+    await expect(replayCapture(makeCapture(), 'llm', {}, null)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
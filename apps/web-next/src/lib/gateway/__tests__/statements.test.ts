@@ -0,0 +1,222 @@
+/** @vitest-environment node */
+
+/**
+ * Tests for Service Gateway — Usage Statements
+ *
+ * Verifies free quota, volume tier and feature pricing on statement line
+ * items, CSV export, month parsing, and pushing totals through the
+ * BillingProviderAdapter seam.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import {
+  buildUsageStatement,
+  parseStatementMonth,
+  pushUsageStatement,
+  statementToCsv,
+  StatementError,
+  type StatementConnector,
+} from '../statements';
+import {
+  registerBillingProviderAdapter,
+  resetBillingProviderRegistryForTests,
+} from '@/lib/billing/registry';
+import { StubAdapter } from '@/lib/billing/stub-adapter';
+import { AdapterNotImplementedError } from '@/lib/billing/adapter';
+import type { ConnectorPricingData } from '../pricing';
+
+const PERIOD = parseStatementMonth('2026-09');
+
+function pricing(overrides: Partial<ConnectorPricingData> = {}): ConnectorPricingData {
+  return {
+    costPerUnit: 0.01,
+    unit: 'request',
+    currency: 'USD',
+    billingModel: 'per-unit',
+    freeQuota: null,
+    volumeTiers: [],
+    featurePricing: [],
+    upstreamCostPerUnit: null,
+    upstreamUnit: null,
+    upstreamNotes: null,
+    ...overrides,
+  };
+}
+
+function connector(overrides: Partial<StatementConnector> = {}): StatementConnector {
+  return { id: 'conn-1', slug: 'llm', displayName: 'LLM', pricing: pricing(), ...overrides };
+}
+
+function build(connectors: StatementConnector[], usage: Array<[string, string, number, number?]>) {
+  return buildUsageStatement({
+    scopeId: 'team-1',
+    period: PERIOD,
+    connectors,
+    usage: usage.map(([connectorId, endpointName, requests, bytes = 0]) => ({
+      connectorId, endpointName, requests, bytes,
+    })),
+    generatedAt: new Date('2026-10-01T00:00:00Z'),
+  });
+}
+
+describe('parseStatementMonth', () => {
+  it('returns UTC bounds with an exclusive end', () => {
+    expect(parseStatementMonth('2026-12')).toEqual({
+      month: '2026-12',
+      start: '2026-12-01T00:00:00.000Z',
+      end: '2027-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects malformed months', () => {
+    expect(() => parseStatementMonth('2026-13')).toThrow(StatementError);
+    expect(() => parseStatementMonth('Sept')).toThrow(StatementError);
+  });
+});
+
+describe('buildUsageStatement', () => {
+  it('produces one line item per connector endpoint', () => {
+    const statement = build([connector()], [['conn-1', 'chat', 100], ['conn-1', 'embed', 50]]);
+    expect(statement.lineItems.map((i) => [i.endpointName, i.billableUnits, i.amount])).toEqual([
+      ['chat', 100, 1],
+      ['embed', 50, 0.5],
+    ]);
+    expect(statement.totals).toEqual([{ currency: 'USD', amount: 1.5 }]);
+  });
+
+  it('applies the free quota before billing', () => {
+    const statement = build(
+      [connector({ pricing: pricing({ freeQuota: 120 }) })],
+      [['conn-1', 'chat', 100], ['conn-1', 'embed', 50]]
+    );
+    expect(statement.lineItems.map((i) => i.freeUnits)).toEqual([100, 20]);
+    expect(statement.totals[0].amount).toBe(0.3);
+  });
+
+  it('prices every unit at the volume tier reached by the connector total', () => {
+    const statement = build(
+      [connector({ pricing: pricing({ volumeTiers: [{ minUnits: 1000, costPerUnit: 0.005 }] }) })],
+      [['conn-1', 'chat', 800], ['conn-1', 'embed', 400]]
+    );
+    expect(statement.lineItems.every((i) => i.unitPrice === 0.005 && i.priceSource === 'tier')).toBe(true);
+    expect(statement.totals[0].amount).toBe(6);
+  });
+
+  it('uses feature pricing for endpoints named after a feature', () => {
+    const statement = build(
+      [connector({
+        pricing: pricing({
+          featurePricing: [{ feature: 'image', costPerUnit: 0.04, unit: 'request' }],
+        }),
+      })],
+      [['conn-1', 'chat', 10], ['conn-1', 'image', 10]]
+    );
+    const image = statement.lineItems.find((i) => i.endpointName === 'image');
+    expect(image).toMatchObject({ unitPrice: 0.04, amount: 0.4, priceSource: 'feature' });
+  });
+
+  it('consumes the free quota on the most expensive lines first', () => {
+    const statement = build(
+      [connector({
+        pricing: pricing({
+          freeQuota: 10,
+          featurePricing: [{ feature: 'image', costPerUnit: 0.04, unit: 'request' }],
+        }),
+      })],
+      [['conn-1', 'chat', 10], ['conn-1', 'image', 10]]
+    );
+    expect(statement.lineItems.find((i) => i.endpointName === 'image')?.freeUnits).toBe(10);
+    expect(statement.lineItems.find((i) => i.endpointName === 'chat')?.freeUnits).toBe(0);
+  });
+
+  it('meters byte-based units from request and response sizes', () => {
+    const statement = build(
+      [connector({ pricing: pricing({ unit: 'MB', costPerUnit: 2 }) })],
+      [['conn-1', 'upload', 3, 3 * 1024 * 1024]]
+    );
+    expect(statement.lineItems[0]).toMatchObject({ unit: 'MB', units: 3, amount: 6 });
+  });
+
+  it('falls back to per-request billing for units the gateway cannot meter', () => {
+    const statement = build(
+      [connector({ pricing: pricing({ unit: 'token' }) })],
+      [['conn-1', 'chat', 5]]
+    );
+    expect(statement.lineItems[0]).toMatchObject({ unit: 'request', units: 5 });
+    expect(statement.warnings[0]).toContain('unit "token"');
+  });
+
+  it('bills unpriced and free connectors at zero', () => {
+    const statement = build(
+      [connector({ pricing: null }), connector({ id: 'conn-2', slug: 'maps', pricing: pricing({ billingModel: 'free' }) })],
+      [['conn-1', 'chat', 5], ['conn-2', 'geocode', 5]]
+    );
+    expect(statement.lineItems.every((i) => i.amount === 0 && i.priceSource === 'free')).toBe(true);
+  });
+
+  it('totals each currency separately', () => {
+    const statement = build(
+      [connector(), connector({ id: 'conn-2', slug: 'eu', pricing: pricing({ currency: 'EUR' }) })],
+      [['conn-1', 'chat', 100], ['conn-2', 'chat', 200]]
+    );
+    expect(statement.totals).toEqual([
+      { currency: 'EUR', amount: 2 },
+      { currency: 'USD', amount: 1 },
+    ]);
+  });
+
+  it('derives a stable id from scope, key and month', () => {
+    const a = build([connector()], [['conn-1', 'chat', 1]]);
+    const b = build([connector()], [['conn-1', 'chat', 2]]);
+    const keyed = buildUsageStatement({ scopeId: 'team-1', apiKeyId: 'key-1', period: PERIOD, usage: [], connectors: [] });
+    expect(a.id).toBe(b.id);
+    expect(keyed.id).not.toBe(a.id);
+  });
+});
+
+describe('statementToCsv', () => {
+  it('renders line items and currency totals, quoting fields with commas', () => {
+    const statement = build([connector({ slug: 'llm' })], [['conn-1', 'chat, streaming', 100]]);
+    const lines = statementToCsv(statement).split('\n');
+    expect(lines[0]).toBe('Connector,Endpoint,Requests,Unit,Units,Free Units,Billable Units,Unit Price,Amount,Currency,Price Source');
+    expect(lines[1]).toBe('llm,"chat, streaming",100,request,100,0,100,0.01,1.00,USD,base');
+    expect(lines[2]).toBe('Total,,,,,,,,1.00,USD,');
+  });
+});
+
+describe('pushUsageStatement', () => {
+  afterEach(() => {
+    resetBillingProviderRegistryForTests();
+  });
+
+  it('pushes one total per currency to the bound provider', async () => {
+    const adapter = new StubAdapter();
+    const push = vi.spyOn(adapter, 'pushUsageStatement');
+    registerBillingProviderAdapter(adapter);
+
+    const statement = build([connector()], [['conn-1', 'chat', 100]]);
+    const results = await pushUsageStatement(statement, { providerSlug: 'stub', accountId: 'acct-1' });
+
+    expect(results).toEqual([{ currency: 'USD', accepted: true, externalId: `stub_${statement.id}:USD` }]);
+    expect(push).toHaveBeenCalledWith(expect.objectContaining({
+      accountId: 'acct-1',
+      amount: '1.00',
+      periodStart: '2026-09-01T00:00:00.000Z',
+      lineItems: [{ description: 'llm chat', quantity: 100, unit: 'request', amount: '1.00' }],
+    }));
+  });
+
+  it('throws AdapterNotImplementedError when the provider cannot accept statements', async () => {
+    const adapter = new StubAdapter();
+    Object.defineProperty(adapter, 'pushUsageStatement', { value: undefined });
+    registerBillingProviderAdapter(adapter);
+
+    const statement = build([connector()], [['conn-1', 'chat', 1]]);
+    await expect(
+      pushUsageStatement(statement, { providerSlug: 'stub', accountId: 'acct-1' })
+    ).rejects.toBeInstanceOf(AdapterNotImplementedError);
+  });
+});
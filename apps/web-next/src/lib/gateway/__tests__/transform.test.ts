@@ -5,8 +5,10 @@
  * body transforms, and secret interpolation.
  */
 
-import { describe, it, expect } from 'vitest';
-import { buildUpstreamRequest } from '../transform';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildUpstreamRequest, prepareUpstreamAuth } from '../transform';
+import { ProxyError } from '../proxy';
+import { clearUpstreamTokenCache } from '../upstream-token';
 import type { ResolvedConfig, ResolvedSecrets } from '../types';
 
 function makeConfig(overrides?: {
@@ -373,3 +375,37 @@ describe('buildUpstreamRequest', () => {
     });
   });
 });
+
+describe('prepareUpstreamAuth', () => {
+  afterEach(() => {
+    clearUpstreamTokenCache();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns secrets unchanged for strategies without a prepare step', async () => {
+    const { connector } = makeConfig({ connector: { authType: 'bearer' } });
+    const secrets = { token: 't' };
+    expect(await prepareUpstreamAuth(connector, secrets)).toBe(secrets);
+  });
+
+  it('injects a fetched OAuth2 token into the upstream request', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ access_token: 'at-1', expires_in: 3600 }))
+    ));
+    const config = makeConfig({
+      connector: { authType: 'oauth2', authConfig: { tokenUrl: 'https://auth.example.com/token' } },
+    });
+    const secrets = await prepareUpstreamAuth(config.connector, { client_id: 'a', client_secret: 'b' });
+    const request = new Request('https://gateway.test/api/v1/gw/my-api/query', { method: 'POST' });
+
+    const result = buildUpstreamRequest(request, config, secrets, '{}', '/query');
+    expect(result.headers.get('Authorization')).toBe('Bearer at-1');
+  });
+
+  it('reports credential failures as a 502 ProxyError', async () => {
+    const { connector } = makeConfig({ connector: { authType: 'oauth2', authConfig: {} } });
+    const error = await prepareUpstreamAuth(connector, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(ProxyError);
+    expect(error).toMatchObject({ code: 'UPSTREAM_AUTH_FAILED', statusCode: 502 });
+  });
+});
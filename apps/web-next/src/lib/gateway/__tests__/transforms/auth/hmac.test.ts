@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import { hmacAuth } from '../../../transforms/auth/hmac';
+import { buildCanonicalString } from '../../../hmac-signature';
+
+function sign(authConfig: Record<string, unknown>, secrets: Record<string, string>, body: string | null = '{"a":1}') {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  hmacAuth.inject({
+    headers,
+    authConfig,
+    secrets,
+    connectorSlug: 'signed-api',
+    method: 'post',
+    url: new URL('https://api.example.com/v1/orders?b=2&a=1'),
+    body,
+  });
+  return headers;
+}
+
+describe('hmac auth strategy', () => {
+  it('signs the default canonical string with a timestamp header', () => {
+    const headers = sign({}, { hmac_secret: 'shh' });
+    const timestamp = headers.get('X-Timestamp')!;
+    const bodyHash = crypto.createHash('sha256').update('{"a":1}').digest('hex');
+    const expected = crypto
+      .createHmac('sha256', 'shh')
+      .update(`POST\n/v1/orders\na=1&b=2\n${timestamp}\n${bodyHash}`)
+      .digest('hex');
+
+    expect(timestamp).toMatch(/^\d{10}$/);
+    expect(headers.get('X-Signature')).toBe(expected);
+  });
+
+  it('supports custom templates, encodings and key ids', () => {
+    const headers = sign(
+      {
+        secretRef: 'signing_key',
+        keyIdRef: 'key_id',
+        algorithm: 'sha512',
+        encoding: 'base64',
+        canonicalTemplate: '{method} {host}{path} {header.content-type}',
+        signatureHeader: 'Authorization',
+        signatureTemplate: 'HMAC {keyId}:{signature}',
+      },
+      { signing_key: 'k', key_id: 'client-7' }
+    );
+    const expected = crypto
+      .createHmac('sha512', 'k')
+      .update('POST api.example.com/v1/orders application/json')
+      .digest('base64');
+
+    expect(headers.get('Authorization')).toBe(`HMAC client-7:${expected}`);
+  });
+
+  it('adds a nonce header when configured', () => {
+    const headers = sign({ nonceHeader: 'X-Nonce', canonicalTemplate: '{nonce}' }, { hmac_secret: 's' });
+    const nonce = headers.get('X-Nonce')!;
+    expect(nonce).toMatch(/^[0-9a-f-]{36}$/);
+    expect(headers.get('X-Signature')).toBe(crypto.createHmac('sha256', 's').update(nonce).digest('hex'));
+  });
+
+  it('flags a missing signing secret instead of signing', () => {
+    const headers = sign({}, {});
+    expect(headers.get('X-Signature')).toBeNull();
+    expect(headers.get('X-Gateway-Warning')).toBe('missing-auth-secret');
+  });
+
+  it('hashes an empty body for requests without one', () => {
+    const canonical = buildCanonicalString('{bodySha256}', {
+      method: 'GET',
+      url: new URL('https://x.test/'),
+      headers: new Headers(),
+      body: null,
+      timestamp: '0',
+      nonce: 'n',
+    });
+    expect(canonical).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import { jwtAuth } from '../../../transforms/auth/jwt';
+import { UPSTREAM_ACCESS_TOKEN } from '../../../transforms/types';
+import { clearUpstreamTokenCache } from '../../../upstream-token';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+const serviceAccount = JSON.stringify({
+  type: 'service_account',
+  client_email: 'bot@project.iam.gserviceaccount.com',
+  private_key: privatePem,
+  private_key_id: 'kid-1',
+  token_uri: 'https://oauth2.googleapis.com/token',
+});
+
+function decode(jwt: string) {
+  const [header, claims, signature] = jwt.split('.');
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    claims: JSON.parse(Buffer.from(claims, 'base64url').toString()),
+    valid,
+  };
+}
+
+function prepare(authConfig: Record<string, unknown>) {
+  return jwtAuth.prepare!({
+    authConfig,
+    secrets: { service_account: serviceAccount },
+    connectorId: 'conn-1',
+    connectorSlug: 'vertex',
+    upstreamBaseUrl: 'https://aiplatform.googleapis.com/v1',
+  });
+}
+
+describe('jwt auth strategy', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearUpstreamTokenCache();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('self-signs a JWT for the upstream origin when no scope is set', async () => {
+    const result = await prepare({ serviceAccountRef: 'service_account' });
+    const { header, claims, valid } = decode(result[UPSTREAM_ACCESS_TOKEN]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(valid).toBe(true);
+    expect(header).toMatchObject({ alg: 'RS256', kid: 'kid-1' });
+    expect(claims).toMatchObject({
+      iss: 'bot@project.iam.gserviceaccount.com',
+      sub: 'bot@project.iam.gserviceaccount.com',
+      aud: 'https://aiplatform.googleapis.com/',
+    });
+    expect(claims.exp - claims.iat).toBe(3600);
+  });
+
+  it('exchanges the assertion for an access token when a scope is set', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'ya29.token', expires_in: 3599 })));
+
+    const result = await prepare({
+      serviceAccountRef: 'service_account',
+      scope: 'https://www.googleapis.com/auth/cloud-platform',
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = new URLSearchParams(init.body);
+    const { claims, valid } = decode(body.get('assertion')!);
+    expect(String(url)).toBe('https://oauth2.googleapis.com/token');
+    expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    expect(valid).toBe(true);
+    expect(claims).toMatchObject({ aud: 'https://oauth2.googleapis.com/token', scope: 'https://www.googleapis.com/auth/cloud-platform' });
+    expect(result[UPSTREAM_ACCESS_TOKEN]).toBe('ya29.token');
+
+    await prepare({ serviceAccountRef: 'service_account', scope: 'https://www.googleapis.com/auth/cloud-platform' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs HS256 assertions from separate issuer and key secrets', async () => {
+    const result = await jwtAuth.prepare!({
+      authConfig: { algorithm: 'HS256', audience: 'https://api.example.com' },
+      secrets: { jwt_issuer: 'gateway', jwt_private_key: 'shared' },
+      connectorId: 'conn-2',
+      connectorSlug: 'api',
+      upstreamBaseUrl: 'https://api.example.com',
+    });
+    const [header, claims, signature] = result[UPSTREAM_ACCESS_TOKEN].split('.');
+    expect(signature).toBe(crypto.createHmac('sha256', 'shared').update(`${header}.${claims}`).digest('base64url'));
+  });
+
+  it('rejects an invalid service account key', async () => {
+    await expect(jwtAuth.prepare!({
+      authConfig: { serviceAccountRef: 'service_account' },
+      secrets: { service_account: '{"client_email":"x"}' },
+      connectorId: 'conn-3',
+      connectorSlug: 'api',
+      upstreamBaseUrl: 'https://api.example.com',
+    })).rejects.toThrow(/client_email and private_key/);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { oauth2Auth } from '../../../transforms/auth/oauth2';
+import { UPSTREAM_ACCESS_TOKEN } from '../../../transforms/types';
+import { clearUpstreamTokenCache } from '../../../upstream-token';
+
+const secrets = { client_id: 'app', client_secret: 'sekret' };
+
+function prepare(authConfig: Record<string, unknown>, connectorId = 'conn-1') {
+  return oauth2Auth.prepare!({
+    authConfig,
+    secrets,
+    connectorId,
+    connectorSlug: 'llm',
+    upstreamBaseUrl: 'https://api.example.com',
+  });
+}
+
+function tokenResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('oauth2 auth strategy', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearUpstreamTokenCache();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('requests a client-credentials token with basic client auth', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', expires_in: 3600 }));
+
+    const result = await prepare({ tokenUrl: 'https://auth.example.com/token', scope: 'inference' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('https://auth.example.com/token');
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('app:sekret').toString('base64')}`);
+    expect(new URLSearchParams(init.body).get('grant_type')).toBe('client_credentials');
+    expect(new URLSearchParams(init.body).get('scope')).toBe('inference');
+    expect(result[UPSTREAM_ACCESS_TOKEN]).toBe('at-1');
+  });
+
+  it('sends client credentials in the body for client_secret_post', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: 'at-1' }));
+    await prepare({ tokenUrl: 'https://auth.example.com/token', clientAuthMethod: 'client_secret_post' });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = new URLSearchParams(init.body);
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(body.get('client_id')).toBe('app');
+    expect(body.get('client_secret')).toBe('sekret');
+  });
+
+  it('caches the token per connector until shortly before expiry', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', expires_in: 120 }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-2', expires_in: 120 }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'other', expires_in: 120 }));
+    const config = { tokenUrl: 'https://auth.example.com/token' };
+
+    expect((await prepare(config))[UPSTREAM_ACCESS_TOKEN]).toBe('at-1');
+    expect((await prepare(config))[UPSTREAM_ACCESS_TOKEN]).toBe('at-1');
+    expect((await prepare(config, 'conn-2'))[UPSTREAM_ACCESS_TOKEN]).toBe('at-2');
+
+    vi.advanceTimersByTime(61_000);
+    expect((await prepare(config))[UPSTREAM_ACCESS_TOKEN]).toBe('other');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares one token request between concurrent callers', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse({ access_token: 'at-1' }));
+    const config = { tokenUrl: 'https://auth.example.com/token' };
+    const [a, b] = await Promise.all([prepare(config), prepare(config)]);
+    expect(a[UPSTREAM_ACCESS_TOKEN]).toBe('at-1');
+    expect(b[UPSTREAM_ACCESS_TOKEN]).toBe('at-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the refresh grant once the token expires', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', expires_in: 60, refresh_token: 'rt-1' }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-2', expires_in: 60 }));
+    const config = { tokenUrl: 'https://auth.example.com/token' };
+
+    await prepare(config);
+    vi.advanceTimersByTime(60_000);
+    expect((await prepare(config))[UPSTREAM_ACCESS_TOKEN]).toBe('at-2');
+
+    const body = new URLSearchParams(fetchMock.mock.calls[1][1].body);
+    expect(body.get('grant_type')).toBe('refresh_token');
+    expect(body.get('refresh_token')).toBe('rt-1');
+  });
+
+  it('refetches after invalidate', async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1' }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: 'at-2' }));
+    const config = { tokenUrl: 'https://auth.example.com/token' };
+
+    await prepare(config);
+    oauth2Auth.invalidate!('conn-1');
+    expect((await prepare(config))[UPSTREAM_ACCESS_TOKEN]).toBe('at-2');
+  });
+
+  it('reports token endpoint errors without leaking credentials', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse({ error: 'invalid_client' }, 401));
+    await expect(prepare({ tokenUrl: 'https://auth.example.com/token' }))
+      .rejects.toThrow('Token endpoint returned 401: invalid_client');
+  });
+
+  it('refuses token URLs on private hosts', async () => {
+    await expect(prepare({ tokenUrl: 'https://127.0.0.1/token' })).rejects.toThrow(/public host/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('injects the access token as a bearer header', () => {
+    const headers = new Headers();
+    oauth2Auth.inject({
+      headers,
+      authConfig: {},
+      secrets: { [UPSTREAM_ACCESS_TOKEN]: 'at-1' },
+      connectorSlug: 'llm',
+      method: 'POST',
+      url: new URL('https://api.example.com/v1'),
+    });
+    expect(headers.get('Authorization')).toBe('Bearer at-1');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { jmespathTransform } from '../../../transforms/body/jmespath';
+
+describe('jmespath body transform', () => {
+  it('reshapes the consumer body', () => {
+    const result = jmespathTransform.transform({
+      bodyTransform: "jmespath:{model_id: model, prompts: messages[?role=='user'].content}",
+      consumerBody: '{"model":"sdxl","messages":[{"role":"user","content":"a cat"},{"role":"system","content":"x"}]}',
+      consumerBodyRaw: null,
+      upstreamStaticBody: null,
+    });
+    expect(JSON.parse(result as string)).toEqual({ model_id: 'sdxl', prompts: ['a cat'] });
+  });
+
+  it('falls back on malformed JSON', () => {
+    const result = jmespathTransform.transform({
+      bodyTransform: 'jmespath:prompt',
+      consumerBody: 'not-json',
+      consumerBodyRaw: null,
+      upstreamStaticBody: null,
+    });
+    expect(result).toBe('not-json');
+  });
+
+  it('falls back when evaluation fails', () => {
+    const result = jmespathTransform.transform({
+      bodyTransform: 'jmespath:length(count)',
+      consumerBody: '{"count":3}',
+      consumerBodyRaw: null,
+      upstreamStaticBody: null,
+    });
+    expect(result).toBe('{"count":3}');
+  });
+
+  it('returns undefined for null body', () => {
+    const result = jmespathTransform.transform({
+      bodyTransform: 'jmespath:prompt',
+      consumerBody: null,
+      consumerBodyRaw: null,
+      upstreamStaticBody: null,
+    });
+    expect(result).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for Service Gateway — Expression Evaluator
+ *
+ * Covers the JMESPath subset used by `jmespath:` transforms, the sandbox
+ * guarantees, and save-time validation of endpoint transforms.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateExpression,
+  validateExpression,
+  ExpressionError,
+} from '../../transforms/expression';
+import { createEndpointSchema } from '../../admin/validation';
+
+const chat = {
+  model: 'llama-3',
+  messages: [
+    { role: 'system', content: 'be brief' },
+    { role: 'user', content: 'hi' },
+    { role: 'user', content: 'bye' },
+  ],
+  usage: { prompt_tokens: 12, completion_tokens: 30 },
+  choices: [{ index: 0, message: { content: 'hello' } }],
+};
+
+describe('evaluateExpression', () => {
+  it('resolves fields, indexes and slices', () => {
+    expect(evaluateExpression('model', chat)).toBe('llama-3');
+    expect(evaluateExpression('choices[0].message.content', chat)).toBe('hello');
+    expect(evaluateExpression('messages[-1].content', chat)).toBe('bye');
+    expect(evaluateExpression('messages[1:].content', chat)).toEqual(['hi', 'bye']);
+    expect(evaluateExpression('missing.path', chat)).toBeNull();
+  });
+
+  it('supports projections, filters and flatten', () => {
+    expect(evaluateExpression("messages[?role=='user'].content", chat)).toEqual(['hi', 'bye']);
+    expect(evaluateExpression('usage.*', chat)).toEqual([12, 30]);
+    expect(evaluateExpression('[[`1`, `2`], [`3`]][]', {})).toEqual([1, 2, 3]);
+  });
+
+  it('builds new objects and lists with multi-select', () => {
+    expect(
+      evaluateExpression('{model: model, prompt: messages[-1].content, tokens: sum(usage.*)}', chat)
+    ).toEqual({ model: 'llama-3', prompt: 'bye', tokens: 42 });
+    expect(evaluateExpression('[model, length(messages)]', chat)).toEqual(['llama-3', 3]);
+  });
+
+  it('evaluates pipes, boolean operators and literals', () => {
+    expect(evaluateExpression("messages[?role=='user'] | [0].content", chat)).toBe('hi');
+    expect(evaluateExpression("temperature || `0.7`", chat)).toBe(0.7);
+    expect(evaluateExpression("!stream && 'sync'", chat)).toBe('sync');
+  });
+
+  it('supports functions with expression references', () => {
+    const items = [{ n: 'b', s: 2 }, { n: 'a', s: 9 }];
+    expect(evaluateExpression('sort_by(@, &s)[].n', items)).toEqual(['b', 'a']);
+    expect(evaluateExpression('max_by(@, &s).n', items)).toBe('a');
+    expect(evaluateExpression("join(', ', map(&n, @))", items)).toBe('b, a');
+  });
+
+  it('reports type errors from functions', () => {
+    expect(() => evaluateExpression('length(`5`)', {})).toThrow(ExpressionError);
+  });
+});
+
+describe('expression sandbox', () => {
+  it('never resolves inherited properties', () => {
+    expect(evaluateExpression('constructor', {})).toBeNull();
+    expect(evaluateExpression('"__proto__"', {})).toBeNull();
+    expect(evaluateExpression('toString', 'abc')).toBeNull();
+  });
+
+  it('does not pollute prototypes through multi-select keys', () => {
+    const result = evaluateExpression('{"__proto__": @}', { polluted: true }) as Record<string, unknown>;
+    expect(Object.prototype.hasOwnProperty.call(result, '__proto__')).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('does not treat payload objects as expression references', () => {
+    expect(() => evaluateExpression('sort_by(@, ref)', [{ ref: { expref: {} } }])).toThrow(ExpressionError);
+  });
+
+  it('bounds evaluation work', () => {
+    const big = Array.from({ length: 110_000 }, (_, i) => ({ v: i }));
+    expect(() => evaluateExpression('[*].v', big)).toThrow(/step limit/);
+  });
+
+  it('bounds the size of built results', () => {
+    const doubling = Array(23).fill('[@,@]').join(' | ');
+    expect(validateExpression(doubling)).toBeNull();
+    expect(() => evaluateExpression(doubling, { a: 'x'.repeat(10) })).toThrow(/size limit/);
+    expect(() => evaluateExpression(`${Array(23).fill('[@,@]').join(' | ')} | to_string(@)`, 1)).toThrow(/size limit/);
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts valid expressions', () => {
+    expect(validateExpression("items[?price > `10`].{id: id}")).toBeNull();
+  });
+
+  it('reports syntax errors with a position', () => {
+    expect(validateExpression('items[?price > ')).toMatch(/position \d+/);
+    expect(validateExpression('foo(bar)')).toMatch(/Unknown function "foo"/);
+    expect(validateExpression('length(a, b)')).toMatch(/takes 1 argument/);
+    expect(validateExpression('a = b')).toMatch(/==/);
+  });
+});
+
+describe('endpoint transform validation', () => {
+  const base = { name: 'chat', method: 'POST', path: '/chat', upstreamPath: '/v1/chat' };
+
+  it('accepts jmespath body and response transforms', () => {
+    const parsed = createEndpointSchema.safeParse({
+      ...base,
+      bodyTransform: "jmespath:{prompt: messages[-1].content}",
+      responseBodyTransform: 'jmespath:choices[0].message.content',
+    });
+    expect(parsed.success).toBe(true);
+  });
+
+  it('rejects invalid expressions at save time', () => {
+    const parsed = createEndpointSchema.safeParse({ ...base, bodyTransform: 'jmespath:messages[' });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.errors[0].message).toMatch(/Invalid JMESPath expression/);
+  });
+
+  it('still restricts response transforms to known modes', () => {
+    expect(createEndpointSchema.safeParse({ ...base, responseBodyTransform: 'envelope' }).success).toBe(true);
+    expect(createEndpointSchema.safeParse({ ...base, responseBodyTransform: 'xml' }).success).toBe(false);
+  });
+});
@@ -15,6 +15,7 @@ describe('TransformRegistry', () => {
       expect(names).toContain('extract');
       expect(names).toContain('binary');
       expect(names).toContain('form-encode');
+      expect(names).toContain('jmespath');
     });
 
     it('returns passthrough by name', () => {
@@ -27,6 +28,11 @@ describe('TransformRegistry', () => {
       expect(s.name).toBe('extract');
     });
 
+    it('resolves jmespath:* prefix to jmespath strategy', () => {
+      const s = registry.getBody('jmespath:{prompt: input}');
+      expect(s.name).toBe('jmespath');
+    });
+
     it('falls back to passthrough for unknown body transform', () => {
       const s = registry.getBody('unknown-type');
       expect(s.name).toBe('passthrough');
@@ -41,6 +47,9 @@ describe('TransformRegistry', () => {
       expect(names).toContain('basic');
       expect(names).toContain('query');
       expect(names).toContain('aws-s3');
+      expect(names).toContain('oauth2');
+      expect(names).toContain('hmac');
+      expect(names).toContain('jwt');
       expect(names).toContain('none');
     });
 
@@ -62,6 +71,7 @@ describe('TransformRegistry', () => {
       expect(names).toContain('raw');
       expect(names).toContain('streaming');
       expect(names).toContain('field-map');
+      expect(names).toContain('jmespath');
     });
 
     it('returns envelope by name', () => {
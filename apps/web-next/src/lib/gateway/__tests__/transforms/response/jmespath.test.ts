@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { jmespathResponse } from '../../../transforms/response/jmespath';
+
+function ctx(upstreamResponse: Response, responseBodyTransform: string) {
+  return {
+    upstreamResponse,
+    connectorSlug: 'openai',
+    responseWrapper: false,
+    streamingEnabled: false,
+    errorMapping: {},
+    responseBodyTransform,
+    upstreamLatencyMs: 80,
+    cached: false,
+    requestId: 'req-1',
+    traceId: null,
+  };
+}
+
+describe('jmespath response strategy', () => {
+  it('reshapes JSON responses', async () => {
+    const upstream = new Response(
+      JSON.stringify({ choices: [{ message: { content: 'hi' } }], usage: { total_tokens: 7 } }),
+      { status: 200, headers: { 'content-type': 'application/json' } }
+    );
+    const result = await jmespathResponse.transform(
+      ctx(upstream, 'jmespath:{text: choices[0].message.content, tokens: usage.total_tokens}')
+    );
+    expect(await result.json()).toEqual({ text: 'hi', tokens: 7 });
+    expect(result.headers.get('X-Gateway-Latency')).toBe('80');
+  });
+
+  it('passes non-JSON responses through', async () => {
+    const upstream = new Response('plain', { status: 200, headers: { 'content-type': 'text/plain' } });
+    const result = await jmespathResponse.transform(ctx(upstream, 'jmespath:text'));
+    expect(await result.text()).toBe('plain');
+  });
+
+  it('falls back to the raw body when evaluation fails', async () => {
+    const upstream = new Response('{"n":1}', { status: 502, headers: { 'content-type': 'application/json' } });
+    const result = await jmespathResponse.transform(ctx(upstream, 'jmespath:length(n)'));
+    expect(result.status).toBe(502);
+    expect(await result.text()).toBe('{"n":1}');
+  });
+});
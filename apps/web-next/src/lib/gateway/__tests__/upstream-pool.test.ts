@@ -0,0 +1,100 @@
+/**
+ * Tests for Service Gateway — Upstream Pool
+ *
+ * Verifies pool fallback, weighted round-robin distribution, priority
+ * tiers, least-latency ordering and health-based ejection.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@naap/cache', () => ({
+  cacheGet: vi.fn().mockResolvedValue(null),
+  cacheSet: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+  getUpstreamPool,
+  withPoolHosts,
+  orderUpstreams,
+  recordUpstreamResult,
+  clearUpstreamPoolState,
+  type UpstreamHealth,
+} from '../upstream-pool';
+import type { UpstreamTarget } from '../types';
+
+const A: UpstreamTarget = { url: 'https://a.example.com', weight: 3, priority: 0 };
+const B: UpstreamTarget = { url: 'https://b.example.com', weight: 1, priority: 0 };
+const C: UpstreamTarget = { url: 'https://c.example.com', weight: 1, priority: 1 };
+
+describe('getUpstreamPool', () => {
+  it('falls back to upstreamBaseUrl when no pool is configured', () => {
+    expect(getUpstreamPool({ upstreamBaseUrl: 'https://api.example.com', upstreams: [] })).toEqual([
+      { url: 'https://api.example.com', weight: 1, priority: 0 },
+    ]);
+  });
+
+  it('returns configured pool members', () => {
+    const pool = getUpstreamPool({ upstreamBaseUrl: 'https://api.example.com', upstreams: [A, B] });
+    expect(pool.map((u) => u.url)).toEqual([A.url, B.url]);
+  });
+});
+
+describe('withPoolHosts', () => {
+  it('adds every pool member host to the allowed hosts once', () => {
+    expect(
+      withPoolHosts(['api.example.com', 'a.example.com'], {
+        upstreamBaseUrl: 'https://api.example.com',
+        upstreams: [A, B],
+      })
+    ).toEqual(['api.example.com', 'a.example.com', 'b.example.com']);
+  });
+});
+
+describe('orderUpstreams', () => {
+  beforeEach(() => clearUpstreamPoolState());
+
+  it('distributes round-robin picks by weight', () => {
+    const picks: Record<string, number> = {};
+    for (let i = 0; i < 8; i++) {
+      const [first] = orderUpstreams('conn-1', [A, B], 'round-robin');
+      picks[first.url] = (picks[first.url] ?? 0) + 1;
+    }
+    expect(picks[A.url]).toBe(6);
+    expect(picks[B.url]).toBe(2);
+  });
+
+  it('only uses lower priority tiers as failover', () => {
+    for (let i = 0; i < 4; i++) {
+      const ordered = orderUpstreams('conn-1', [C, A, B], 'round-robin');
+      expect(ordered[0].priority).toBe(0);
+      expect(ordered[ordered.length - 1]).toEqual(C);
+    }
+  });
+
+  it('orders by observed latency for least-latency', () => {
+    recordUpstreamResult('conn-1', A.url, true, 300);
+    recordUpstreamResult('conn-1', B.url, true, 50);
+    const ordered = orderUpstreams('conn-1', [A, B], 'least-latency');
+    expect(ordered.map((u) => u.url)).toEqual([B.url, A.url]);
+  });
+
+  it('skips upstreams reported down by health checks', () => {
+    const health = new Map<string, UpstreamHealth>([
+      [A.url, { status: 'down', latencyMs: null, checkedAt: Date.now() }],
+    ]);
+    const ordered = orderUpstreams('conn-1', [A, B, C], 'round-robin', health);
+    expect(ordered.map((u) => u.url)).toEqual([B.url, C.url]);
+  });
+
+  it('ejects upstreams after a proxied failure', () => {
+    recordUpstreamResult('conn-1', A.url, false, 0);
+    const ordered = orderUpstreams('conn-1', [A, B], 'round-robin');
+    expect(ordered.map((u) => u.url)).toEqual([B.url]);
+  });
+
+  it('returns the full pool when every upstream is down', () => {
+    recordUpstreamResult('conn-1', A.url, false, 0);
+    recordUpstreamResult('conn-1', B.url, false, 0);
+    expect(orderUpstreams('conn-1', [A, B], 'round-robin')).toHaveLength(2);
+  });
+});
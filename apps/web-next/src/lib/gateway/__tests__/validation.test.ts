@@ -0,0 +1,49 @@
+/**
+ * Tests for Service Gateway — Admin Validation
+ *
+ * Verifies that a connector's authConfig must fit its authType.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { authConfigError, createConnectorSchema } from '../admin/validation';
+
+const base = { slug: 'upstream', displayName: 'Upstream', upstreamBaseUrl: 'https://api.example.com' };
+
+describe('createConnectorSchema authConfig', () => {
+  it('rejects an oauth2 connector without a token URL', () => {
+    const parsed = createConnectorSchema.safeParse({ ...base, authType: 'oauth2', authConfig: { tokenRef: 'token' } });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.errors[0]).toMatchObject({ path: ['authConfig'] });
+    expect(parsed.error?.errors[0].message).toContain('"oauth2"');
+  });
+
+  it('rejects hmac with JWT fields', () => {
+    const parsed = createConnectorSchema.safeParse({
+      ...base,
+      authType: 'hmac',
+      authConfig: { privateKeyRef: 'key', algorithm: 'RS256' },
+    });
+    expect(parsed.success).toBe(false);
+  });
+
+  it('accepts each type with its own fields', () => {
+    const configs: Array<[string, Record<string, unknown>]> = [
+      ['bearer', { tokenRef: 'token' }],
+      ['oauth2', { tokenUrl: 'https://auth.example.com/token', clientIdRef: 'id' }],
+      ['hmac', { secretRef: 'hmac_secret', algorithm: 'sha512' }],
+      ['jwt', { privateKeyRef: 'key', algorithm: 'RS256' }],
+      ['none', {}],
+    ];
+    for (const [authType, authConfig] of configs) {
+      expect(createConnectorSchema.safeParse({ ...base, authType, authConfig }).success).toBe(true);
+    }
+  });
+});
+
+describe('authConfigError', () => {
+  it('checks an update against the stored auth type', () => {
+    expect(authConfigError('oauth2', {})).toContain('tokenUrl');
+    expect(authConfigError('passthrough', { tokenRef: 'x' })).toBeNull();
+    expect(authConfigError('bearer', null)).toBeNull();
+  });
+});
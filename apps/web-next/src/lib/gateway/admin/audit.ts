@@ -15,6 +15,7 @@ export type AuditAction =
   | 'connector.delete'
   | 'connector.purge'
   | 'connector.publish'
+  | 'connector.import'
   | 'endpoint.create'
   | 'endpoint.update'
   | 'endpoint.delete'
@@ -27,7 +28,12 @@ export type AuditAction =
   | 'master-key.revoke'
   | 'master-key.rotate'
   | 'plan.create'
-  | 'plan.delete';
+  | 'plan.delete'
+  | 'circuit.reset'
+  | 'cache.purge'
+  | 'capture.replay'
+  | 'capture.delete'
+  | 'usage.statement.push';
 
 interface AuditEntry {
   action: AuditAction;
@@ -7,6 +7,7 @@
 
 import { resolveSecrets } from '@/lib/gateway/secrets';
 import { validateHost } from '@/lib/gateway/types';
+import { registry } from '@/lib/gateway/transforms';
 
 export interface ConnectivityResult {
   success: boolean;
@@ -70,6 +71,33 @@ export async function testUpstreamConnectivity(
       for (const [key, valueRef] of Object.entries(queryEntries)) {
         testUrl.searchParams.set(key, secrets[valueRef] || valueRef);
       }
+    } else if (authType === 'oauth2' || authType === 'hmac' || authType === 'jwt') {
+      // Run the live strategy so a rejected client secret or signing key
+      // fails the test instead of surfacing on the first real request.
+      const strategy = registry.getAuth(authType);
+      const upstreamSecrets = strategy.prepare
+        ? {
+            ...secrets,
+            ...(await strategy.prepare({
+              authConfig,
+              secrets,
+              connectorId: `test:${teamId}:${connectorSlug}`,
+              connectorSlug,
+              upstreamBaseUrl,
+            })),
+          }
+        : secrets;
+      const signed = new Headers();
+      strategy.inject({
+        headers: signed,
+        authConfig,
+        secrets: upstreamSecrets,
+        connectorSlug,
+        method: 'GET',
+        url: testUrl,
+        body: null,
+      });
+      signed.forEach((value, key) => { headers[key] = value; });
     }
 
     const controller = new AbortController();
@@ -0,0 +1,122 @@
+/**
+ * Service Gateway — Transform Preview
+ *
+ * Dry-runs an endpoint's body and response transforms against sample
+ * payloads so admins can check a reshape before saving it. Runs the
+ * same registry strategies as the proxy path; nothing is sent upstream.
+ */
+
+import type { ResolvedConnector } from '@/lib/gateway/types';
+import { registry } from '@/lib/gateway/transforms';
+import { evaluateExpression, parseExpressionTransform } from '@/lib/gateway/transforms/expression';
+import { resolveResponseMode } from '@/lib/gateway/respond';
+
+export interface TransformPreviewStep {
+  transform: string;
+  output: unknown;
+  error: string | null;
+}
+
+export interface TransformPreviewInput {
+  connector: Pick<ResolvedConnector, 'slug' | 'responseWrapper' | 'streamingEnabled' | 'errorMapping'>;
+  bodyTransform: string;
+  responseBodyTransform: string;
+  upstreamStaticBody: string | null;
+  sampleRequest?: unknown;
+  sampleResponse?: unknown;
+}
+
+export interface TransformPreviewResult {
+  request: TransformPreviewStep | null;
+  response: TransformPreviewStep | null;
+}
+
+function decodeBody(body: BodyInit | undefined | null): unknown {
+  if (body === undefined || body === null) return null;
+  if (typeof body !== 'string') return '[binary body]';
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Expression transforms are evaluated directly so evaluation errors are
+ * reported; the runtime strategies swallow them and pass the body through.
+ */
+function previewExpression(transform: string, expression: string, sample: unknown): TransformPreviewStep {
+  try {
+    return { transform, output: evaluateExpression(expression, sample), error: null };
+  } catch (err) {
+    return { transform, output: null, error: errorMessage(err) };
+  }
+}
+
+function previewRequest(input: TransformPreviewInput): TransformPreviewStep {
+  const transform = input.bodyTransform;
+  const expression = parseExpressionTransform(transform);
+  if (expression !== null) {
+    return previewExpression(transform, expression, input.sampleRequest);
+  }
+
+  const consumerBody = typeof input.sampleRequest === 'string'
+    ? input.sampleRequest
+    : JSON.stringify(input.sampleRequest);
+  try {
+    const body = registry.getBody(transform).transform({
+      bodyTransform: transform,
+      consumerBody,
+      consumerBodyRaw: null,
+      upstreamStaticBody: input.upstreamStaticBody,
+    });
+    return { transform, output: decodeBody(body), error: null };
+  } catch (err) {
+    return { transform, output: null, error: errorMessage(err) };
+  }
+}
+
+async function previewResponse(input: TransformPreviewInput): Promise<TransformPreviewStep> {
+  const transform = input.responseBodyTransform;
+  const expression = parseExpressionTransform(transform);
+  if (expression !== null) {
+    return previewExpression(transform, expression, input.sampleResponse);
+  }
+
+  const contentType = 'application/json';
+  const mode = resolveResponseMode(input.connector, contentType, transform);
+  try {
+    const response = await registry.getResponse(mode).transform({
+      upstreamResponse: new Response(JSON.stringify(input.sampleResponse), {
+        status: 200,
+        headers: { 'content-type': contentType },
+      }),
+      connectorSlug: input.connector.slug,
+      responseWrapper: input.connector.responseWrapper,
+      streamingEnabled: input.connector.streamingEnabled,
+      errorMapping: input.connector.errorMapping,
+      responseBodyTransform: transform,
+      upstreamLatencyMs: 0,
+      cached: false,
+      requestId: null,
+      traceId: null,
+    });
+    return { transform, output: decodeBody(await response.text()), error: null };
+  } catch (err) {
+    return { transform, output: null, error: errorMessage(err) };
+  }
+}
+
+/**
+ * Run the configured transforms over whichever samples were provided.
+ */
+export async function previewTransforms(input: TransformPreviewInput): Promise<TransformPreviewResult> {
+  return {
+    request: input.sampleRequest === undefined ? null : previewRequest(input),
+    response: input.sampleResponse === undefined ? null : await previewResponse(input),
+  };
+}
@@ -5,20 +5,127 @@
  */
 
 import { z } from 'zod';
+import {
+  EXPRESSION_TRANSFORM_PREFIX,
+  MAX_EXPRESSION_LENGTH,
+  parseExpressionTransform,
+  validateExpression,
+} from '../transforms/expression';
 
 // ── Connector Schemas ──
 
 // 'passthrough' forwards the consumer's own Authorization header upstream
 // (NAAP-5 / SDK gateway) instead of injecting a connector-owned credential.
-export const authTypeEnum = z.enum(['none', 'bearer', 'header', 'basic', 'query', 'aws-s3', 'passthrough']);
+export const authTypeEnum = z.enum([
+  'none', 'bearer', 'header', 'basic', 'query', 'aws-s3', 'passthrough', 'oauth2', 'hmac', 'jwt',
+]);
+
+const tokenUrlSchema = z.string().url('Invalid token URL').refine(
+  (url) => url.startsWith('https://'),
+  'Token URL must use https'
+);
 
 export const visibilityEnum = z.enum(['private', 'team', 'public']);
 
+export const loadBalancingEnum = z.enum(['round-robin', 'least-latency']);
+
+export const upstreamTargetSchema = z.object({
+  url: z.string().url('Invalid upstream URL'),
+  weight: z.number().int().min(1).max(100).default(1),
+  priority: z.number().int().min(0).max(10).default(0),
+});
+
+// Members are strict: a union picks its first passing member, and a
+// non-strict { tokenRef? } would match (and strip) every other shape.
+const bearerConfig = z.object({ tokenRef: z.string().optional() }).strict();
+const basicConfig = z.object({ usernameRef: z.string().optional(), passwordRef: z.string().optional() }).strict();
+const headerConfig = z.object({ headers: z.record(z.string()).optional() }).strict();
+const queryConfig = z.object({ paramName: z.string().optional(), secretRef: z.string().optional() }).strict();
+const awsS3Config = z.object({
+  region: z.string(),
+  service: z.string(),
+  accessKeyRef: z.string(),
+  secretKeyRef: z.string(),
+  signPayload: z.boolean().optional(),
+  pathStyle: z.boolean().optional(),
+}).strict();
+const oauth2Config = z.object({
+  tokenUrl: tokenUrlSchema,
+  clientIdRef: z.string().optional(),
+  clientSecretRef: z.string().optional(),
+  scope: z.string().max(1024).optional(),
+  audience: z.string().max(512).optional(),
+  clientAuthMethod: z.enum(['client_secret_basic', 'client_secret_post']).optional(),
+  extraParams: z.record(z.string()).optional(),
+}).strict();
+const hmacConfig = z.object({
+  secretRef: z.string().optional(),
+  keyIdRef: z.string().optional(),
+  algorithm: z.enum(['sha256', 'sha512', 'sha1']).optional(),
+  canonicalTemplate: z.string().max(1024).optional(),
+  encoding: z.enum(['hex', 'base64']).optional(),
+  signatureHeader: z.string().max(128).optional(),
+  signatureTemplate: z.string().max(256).optional(),
+  timestampHeader: z.string().max(128).optional(),
+  timestampFormat: z.enum(['unix', 'unix-ms', 'iso']).optional(),
+  nonceHeader: z.string().max(128).optional(),
+}).strict();
+const jwtConfig = z.object({
+  serviceAccountRef: z.string().optional(),
+  issuerRef: z.string().optional(),
+  privateKeyRef: z.string().optional(),
+  algorithm: z.enum(['RS256', 'ES256', 'HS256']).optional(),
+  audience: z.string().max(512).optional(),
+  scope: z.string().max(1024).optional(),
+  subject: z.string().max(256).optional(),
+  tokenUrl: tokenUrlSchema.optional(),
+  lifetimeSeconds: z.number().int().min(60).max(3600).optional(),
+}).strict();
+
+export const authConfigSchema = z.union([
+  bearerConfig,
+  basicConfig,
+  headerConfig,
+  queryConfig,
+  awsS3Config,
+  oauth2Config,
+  hmacConfig,
+  jwtConfig,
+  z.object({}).strict(),
+]);
+
+/** The authConfig shape each auth type reads; `none` and `passthrough` ignore it. */
+const AUTH_CONFIG_BY_TYPE: Partial<Record<z.infer<typeof authTypeEnum>, z.ZodTypeAny>> = {
+  bearer: bearerConfig,
+  basic: basicConfig,
+  header: headerConfig,
+  query: queryConfig,
+  'aws-s3': awsS3Config,
+  oauth2: oauth2Config,
+  hmac: hmacConfig,
+  jwt: jwtConfig,
+};
+
+/**
+ * Why `authConfig` does not fit `authType`, or null when it does. The union
+ * alone accepts any member's shape, so an oauth2 connector without a token
+ * URL would only fail on its first request.
+ */
+export function authConfigError(authType: string, authConfig: unknown): string | null {
+  const schema = AUTH_CONFIG_BY_TYPE[authType as z.infer<typeof authTypeEnum>];
+  if (!schema) return null;
+  const result = schema.safeParse(authConfig ?? {});
+  if (result.success) return null;
+  const issue = result.error.errors[0];
+  const field = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+  return `authConfig is not valid for authType "${authType}"${field}: ${issue.message}`;
+}
+
 const RESERVED_SLUGS = [
   'admin', 'health', 'catalog', 'pricing', 'mcp', 'discovery', 'rankings',
 ];
 
-export const createConnectorSchema = z.object({
+const connectorFields = z.object({
   slug: z
     .string()
     .min(2)
@@ -29,27 +136,31 @@ export const createConnectorSchema = z.object({
   description: z.string().max(1024).optional(),
   visibility: visibilityEnum.default('private'),
   upstreamBaseUrl: z.string().url('Invalid upstream URL'),
+  upstreams: z
+    .array(upstreamTargetSchema)
+    .max(16)
+    .refine(
+      (list) => new Set(list.map((u) => u.url)).size === list.length,
+      'Upstream URLs must be unique'
+    )
+    .default([]),
+  loadBalancing: loadBalancingEnum.default('round-robin'),
   allowedHosts: z.array(z.string()).default([]),
   defaultTimeout: z.number().int().min(1000).max(120_000).default(30_000),
   healthCheckPath: z.string().max(256).regex(/^\//, 'Health check path must start with /').optional(),
+  circuitFailureThreshold: z.number().int().min(1).max(100).default(5),
+  circuitOpenDurationMs: z.number().int().min(1000).max(600_000).default(30_000),
   authType: authTypeEnum.default('none'),
-  authConfig: z.union([
-    z.object({ tokenRef: z.string().optional() }),
-    z.object({ usernameRef: z.string().optional(), passwordRef: z.string().optional() }),
-    z.object({ headers: z.record(z.string()).optional() }),
-    z.object({ paramName: z.string().optional(), secretRef: z.string().optional() }),
-    z.object({
-      region: z.string(),
-      service: z.string(),
-      accessKeyRef: z.string(),
-      secretKeyRef: z.string(),
-    }),
-    z.object({}),
-  ]).default({}),
+  authConfig: authConfigSchema.default({}),
   secretRefs: z.array(z.string().max(64)).default([]),
   responseWrapper: z.boolean().default(true),
   streamingEnabled: z.boolean().default(false),
   errorMapping: z.record(z.string()).default({}),
+  captureEnabled: z.boolean().default(false),
+  captureSampleRate: z.number().min(0).max(1).default(0.01),
+  captureMaxBodyBytes: z.number().int().min(0).max(262_144).default(16_384),
+  captureRetentionDays: z.number().int().min(1).max(30).default(7),
+  captureRedactFields: z.array(z.string().min(1).max(64)).max(50).default([]),
   category: z.string().max(32).default(''),
   tags: z.array(z.string().max(32)).default([]),
   agentDescription: z.string().max(2048).optional(),
@@ -58,7 +169,13 @@ export const createConnectorSchema = z.object({
   outputSchema: z.record(z.string(), z.unknown()).optional(),
 });
 
-export const updateConnectorSchema = createConnectorSchema.partial().omit({ slug: true }).extend({
+export const createConnectorSchema = connectorFields.superRefine((value, ctx) => {
+  const error = authConfigError(value.authType, value.authConfig);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['authConfig'], message: error });
+});
+
+// authType/authConfig fit is checked by the update route against the stored values
+export const updateConnectorSchema = connectorFields.partial().omit({ slug: true }).extend({
   status: z.enum(['draft', 'published', 'archived']).optional(),
 });
 
@@ -66,6 +183,45 @@ export const updateConnectorSchema = createConnectorSchema.partial().omit({ slug
 
 export const httpMethodEnum = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
 
+export const RESPONSE_BODY_TRANSFORMS = ['none', 'envelope', 'raw', 'streaming', 'field-map'] as const;
+
+const MAX_TRANSFORM_LENGTH = EXPRESSION_TRANSFORM_PREFIX.length + MAX_EXPRESSION_LENGTH;
+
+// `jmespath:<expr>` transforms are compiled at save time so a typo is
+// rejected here rather than silently passing bodies through at runtime.
+function refineExpressionTransform(value: string, ctx: z.RefinementCtx): boolean {
+  const expression = parseExpressionTransform(value);
+  if (expression === null) return false;
+  const error = validateExpression(expression);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid JMESPath expression: ${error}` });
+  }
+  return true;
+}
+
+export const bodyTransformSchema = z
+  .string()
+  .max(MAX_TRANSFORM_LENGTH)
+  .superRefine((value, ctx) => {
+    if (refineExpressionTransform(value, ctx)) return;
+    if (value.length > 128) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Body transform must be at most 128 characters' });
+    }
+  });
+
+export const responseBodyTransformSchema = z
+  .string()
+  .max(MAX_TRANSFORM_LENGTH)
+  .superRefine((value, ctx) => {
+    if (refineExpressionTransform(value, ctx)) return;
+    if (!(RESPONSE_BODY_TRANSFORMS as readonly string[]).includes(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Expected one of ${RESPONSE_BODY_TRANSFORMS.join(', ')} or ${EXPRESSION_TRANSFORM_PREFIX}<expression>`,
+      });
+    }
+  });
+
 export const createEndpointSchema = z.object({
   name: z.string().min(1).max(64),
   description: z.string().max(512).optional(),
@@ -81,10 +237,12 @@ export const createEndpointSchema = z.object({
   upstreamContentType: z.string().max(128).default('application/json'),
   upstreamQueryParams: z.record(z.string()).default({}),
   upstreamStaticBody: z.string().max(65_536).optional(),
-  bodyTransform: z.string().max(128).default('passthrough'),
-  responseBodyTransform: z.enum(['none', 'envelope', 'raw', 'streaming', 'field-map']).default('none'),
+  bodyTransform: bodyTransformSchema.default('passthrough'),
+  responseBodyTransform: responseBodyTransformSchema.default('none'),
   headerMapping: z.record(z.string()).default({}),
   rateLimit: z.number().int().min(1).optional(),
+  burstLimit: z.number().int().min(1).optional(),
+  maxConcurrent: z.number().int().min(1).max(10_000).optional(),
   timeout: z.number().int().min(1000).max(120_000).optional(),
   maxRequestSize: z.number().int().min(0).optional(),
   maxResponseSize: z.number().int().min(0).optional(),
@@ -103,6 +261,57 @@ export const createEndpointSchema = z.object({
 
 export const updateEndpointSchema = createEndpointSchema.partial();
 
+// Dry-run preview for POST /connectors/:id/test. Transforms default to the
+// stored endpoint's when endpointId is given.
+export const transformPreviewSchema = z.object({
+  endpointId: z.string().optional(),
+  bodyTransform: bodyTransformSchema.optional(),
+  responseBodyTransform: responseBodyTransformSchema.optional(),
+  upstreamStaticBody: z.string().max(65_536).optional(),
+  sampleRequest: z.unknown().optional(),
+  sampleResponse: z.unknown().optional(),
+}).refine(
+  (v) => v.sampleRequest !== undefined || v.sampleResponse !== undefined,
+  'Provide sampleRequest and/or sampleResponse'
+);
+
+// ── OpenAPI Import Schemas ──
+
+const openApiSpecSource = z.union([
+  z.string().min(1).max(5_000_000),
+  z.record(z.string(), z.unknown()),
+]);
+
+export const openApiImportSchema = z.object({
+  spec: openApiSpecSource,
+  slug: connectorFields.shape.slug.optional(),
+  visibility: visibilityEnum.default('private'),
+  serverIndex: z.number().int().min(0).default(0),
+  upstreamBaseUrl: z.string().url('Invalid upstream URL').optional(),
+  dryRun: z.boolean().default(false),
+});
+
+// Re-import into an existing connector returns a diff unless `commit` is set.
+export const openApiReimportSchema = z.object({
+  spec: openApiSpecSource,
+  serverIndex: z.number().int().min(0).default(0),
+  upstreamBaseUrl: z.string().url('Invalid upstream URL').optional(),
+  commit: z.boolean().default(false),
+  removeMissing: z.boolean().default(false),
+  // Auth is usually configured by hand after the first import; only take
+  // the spec's securitySchemes when asked to
+  replaceAuth: z.boolean().default(false),
+});
+
+// ── Payload Capture Schemas ──
+
+// Replay resends the stored (redacted) request; `body` and `headers` let the
+// admin restore redacted values for that one call.
+export const captureReplaySchema = z.object({
+  body: z.string().max(1_048_576).optional(),
+  headers: z.record(z.string().max(8192)).optional(),
+});
+
 // ── Secret Schemas ──
 
 export const storeSecretSchema = z.object({
@@ -116,3 +325,7 @@ export type CreateConnectorInput = z.infer<typeof createConnectorSchema>;
 export type UpdateConnectorInput = z.infer<typeof updateConnectorSchema>;
 export type CreateEndpointInput = z.infer<typeof createEndpointSchema>;
 export type UpdateEndpointInput = z.infer<typeof updateEndpointSchema>;
+export type OpenApiImportInput = z.infer<typeof openApiImportSchema>;
+export type OpenApiReimportInput = z.infer<typeof openApiReimportSchema>;
+export type TransformPreviewRequest = z.infer<typeof transformPreviewSchema>;
+export type CaptureReplayInput = z.infer<typeof captureReplaySchema>;
@@ -12,7 +12,12 @@ import { createHash, timingSafeEqual } from 'crypto';
 import { prisma } from '@/lib/db';
 import { validateSession } from '@/lib/api/auth';
 import { getAuthToken, getClientIP } from '@/lib/api/response';
-import { isFeatureEnabled, SDK_CONNECTOR_FLAG } from '@/lib/feature-flags';
+import {
+  anyTeamFlagOverrideEnabled,
+  buildFlagContextForUserId,
+  isFeatureEnabled,
+  SDK_CONNECTOR_FLAG,
+} from '@/lib/feature-flags';
 import { parseApiKey, hashApiKey } from '@naap/database';
 import { personalScopeId, isPersonalScope } from './scope';
 import { getOrCreateDefaultPlan } from './default-plan';
@@ -122,8 +127,10 @@ export async function authorize(request: Request): Promise<AuthResult | null> {
   // would otherwise fall through to the JWT path and fail session validation →
   // 401). ON: resolve the native key via the DevApiKey path so an app holding a
   // naap_ key can authorize against PUBLIC connectors (e.g. the `sdk` connector).
+  // The flag is re-evaluated for the key's owner once the key resolves; a flag
+  // that is off globally and for every team still rejects up front.
   if (authHeader.startsWith(NATIVE_KEY_BEARER_PREFIX)) {
-    if (!(await isFeatureEnabled(SDK_CONNECTOR_FLAG))) {
+    if (!(await isFeatureEnabled(SDK_CONNECTOR_FLAG)) && !(await anyTeamFlagOverrideEnabled(SDK_CONNECTOR_FLAG))) {
       logAuth('warn', 'native_key.rejected_flag_off', {});
       return null;
     }
@@ -282,6 +289,8 @@ async function authorizeApiKey(rawKey: string): Promise<AuthResult | null> {
   if (!resolvedTeamId) return null;
 
   let rateLimit = apiKey.plan?.rateLimit;
+  let burstLimit = apiKey.plan?.burstLimit;
+  let maxConcurrent = apiKey.plan?.maxConcurrent;
   let dailyQuota = apiKey.plan?.dailyQuota;
   let monthlyQuota = apiKey.plan?.monthlyQuota;
   let maxRequestSize = apiKey.plan?.maxRequestSize;
@@ -290,6 +299,8 @@ async function authorizeApiKey(rawKey: string): Promise<AuthResult | null> {
     try {
       const defaults = await getOrCreateDefaultPlan(resolvedTeamId);
       rateLimit = defaults.rateLimit;
+      burstLimit = defaults.burstLimit;
+      maxConcurrent = defaults.maxConcurrent;
       dailyQuota = defaults.dailyQuota;
       monthlyQuota = defaults.monthlyQuota;
       maxRequestSize = defaults.maxRequestSize;
@@ -309,6 +320,8 @@ async function authorizeApiKey(rawKey: string): Promise<AuthResult | null> {
     allowedEndpoints: apiKey.allowedEndpoints.length > 0 ? apiKey.allowedEndpoints : undefined,
     allowedIPs: apiKey.allowedIPs.length > 0 ? apiKey.allowedIPs : undefined,
     rateLimit,
+    burstLimit,
+    maxConcurrent,
     dailyQuota,
     monthlyQuota,
     maxRequestSize,
@@ -356,6 +369,11 @@ async function authorizeNativeKey(rawKey: string): Promise<AuthResult | null> {
     return null;
   }
 
+  if (!(await isFeatureEnabled(SDK_CONNECTOR_FLAG, await buildFlagContextForUserId(key.userId, key.teamId)))) {
+    logAuth('warn', 'native_key.rejected_flag_off', { keyId: key.id });
+    return null;
+  }
+
   const teamId = key.teamId ?? personalScopeId(key.userId);
 
   // Fire-and-forget last-used update; never block authorization on it.
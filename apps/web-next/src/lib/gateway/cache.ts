@@ -1,110 +1,448 @@
 /**
  * Service Gateway — Response Cache
  *
- * In-memory cache for GET responses with configurable TTL per endpoint.
- * Cache key includes scope to maintain tenant isolation.
- * Max 1000 entries with lazy expiration-based eviction.
+ * Shared cache for GET responses with configurable TTL per endpoint.
+ * Backed by @naap/cache Redis so every instance shares hits; falls back to
+ * a bounded in-memory map (max 1000 entries) in dev or when Redis is down.
+ *
+ * - Keys are scoped by connector, endpoint and caller scope (tenant
+ *   isolation) and use SHA-256 of path + body so distinct bodies never
+ *   collide.
+ * - Upstream `Vary` headers select a per-variant entry; `Vary: *` is never
+ *   cached.
+ * - Upstream `Cache-Control` can shorten or disable caching but never
+ *   extend past the endpoint's `cacheTtl`.
+ * - Concurrent misses for one key are coalesced: a single leader fills the
+ *   cache while followers wait for it (in-process, and across instances via
+ *   a Redis lock).
  */
 
+import { createHash } from 'crypto';
+import { getRedis } from '@naap/cache';
+
 const MAX_ENTRIES = 1000;
+const KEY_PREFIX = 'gw:resp';
+const LOCK_PREFIX = 'gw:resp-lock';
+const FILL_POLL_MS = 50;
 
-interface ResponseCacheEntry {
+export interface ResponseCacheEntry {
   body: ArrayBuffer;
   status: number;
   headers: Record<string, string>;
   expiresAt: number;
 }
 
-const RESPONSE_CACHE = new Map<string, ResponseCacheEntry>();
+interface SerializedEntry {
+  body: string;
+  status: number;
+  headers: Record<string, string>;
+  expiresAt: number;
+}
 
 /**
- * Build a deterministic cache key scoped by tenant, connector, method, path, and body hash.
+ * Storage backend for cached responses. Values are opaque strings so
+ * Redis and in-memory backends behave identically.
+ */
+export interface ResponseCacheBackend {
+  readonly name: 'redis' | 'memory';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  tryLock(key: string, ttlMs: number): Promise<boolean>;
+  unlock(key: string): Promise<void>;
+  isLocked(key: string): Promise<boolean>;
+}
+
+// ── In-Memory Backend ──
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+const RESPONSE_CACHE = new Map<string, MemoryEntry>();
+const MEMORY_LOCKS = new Map<string, number>();
+
+function evictExpired(): void {
+  const now = Date.now();
+  for (const [k, v] of RESPONSE_CACHE) {
+    if (v.expiresAt < now) RESPONSE_CACHE.delete(k);
+  }
+}
+
+export const memoryBackend: ResponseCacheBackend = {
+  name: 'memory',
+
+  async get(key) {
+    const entry = RESPONSE_CACHE.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      RESPONSE_CACHE.delete(key);
+      return null;
+    }
+    return entry.value;
+  },
+
+  async set(key, value, ttlSeconds) {
+    if (RESPONSE_CACHE.size >= MAX_ENTRIES) {
+      evictExpired();
+    }
+    // If still at capacity after evicting expired entries, drop the oldest
+    if (RESPONSE_CACHE.size >= MAX_ENTRIES) {
+      const firstKey = RESPONSE_CACHE.keys().next().value;
+      if (firstKey) RESPONSE_CACHE.delete(firstKey);
+    }
+    RESPONSE_CACHE.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  },
+
+  async deleteByPrefix(prefix) {
+    let count = 0;
+    for (const key of RESPONSE_CACHE.keys()) {
+      if (key.startsWith(prefix)) {
+        RESPONSE_CACHE.delete(key);
+        count++;
+      }
+    }
+    return count;
+  },
+
+  async tryLock(key, ttlMs) {
+    const heldUntil = MEMORY_LOCKS.get(key);
+    if (heldUntil && heldUntil > Date.now()) return false;
+    MEMORY_LOCKS.set(key, Date.now() + ttlMs);
+    return true;
+  },
+
+  async unlock(key) {
+    MEMORY_LOCKS.delete(key);
+  },
+
+  async isLocked(key) {
+    const heldUntil = MEMORY_LOCKS.get(key);
+    return !!heldUntil && heldUntil > Date.now();
+  },
+};
+
+// ── Redis Backend ──
+
+function requireRedis() {
+  const redis = getRedis();
+  if (!redis) throw new Error('Redis unavailable');
+  return redis;
+}
+
+export const redisBackend: ResponseCacheBackend = {
+  name: 'redis',
+
+  async get(key) {
+    return requireRedis().get(key);
+  },
+
+  async set(key, value, ttlSeconds) {
+    await requireRedis().set(key, value, 'EX', Math.max(1, Math.ceil(ttlSeconds)));
+  },
+
+  async deleteByPrefix(prefix) {
+    const redis = requireRedis();
+    let cursor = '0';
+    let count = 0;
+    do {
+      const [next, keys] = await redis.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 200);
+      cursor = next;
+      if (keys.length > 0) count += await redis.del(...keys);
+    } while (cursor !== '0');
+    return count;
+  },
+
+  async tryLock(key, ttlMs) {
+    const result = await requireRedis().set(key, '1', 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  },
+
+  async unlock(key) {
+    await requireRedis().del(key);
+  },
+
+  async isLocked(key) {
+    return (await requireRedis().exists(key)) === 1;
+  },
+};
+
+// ── Backend Selection ──
+
+let backendOverride: ResponseCacheBackend | null = null;
+
+/**
+ * Force a specific backend (tests, or deployments that opt out of Redis).
+ * Pass null to restore automatic selection.
+ */
+export function setResponseCacheBackend(backend: ResponseCacheBackend | null): void {
+  backendOverride = backend;
+}
+
+function activeBackend(): ResponseCacheBackend {
+  if (backendOverride) return backendOverride;
+  return getRedis() ? redisBackend : memoryBackend;
+}
+
+/**
+ * Run a backend operation, retrying against memory when Redis fails.
+ */
+async function withBackend<T>(op: (backend: ResponseCacheBackend) => Promise<T>): Promise<T> {
+  const backend = activeBackend();
+  try {
+    return await op(backend);
+  } catch (err) {
+    if (backend === memoryBackend) throw err;
+    console.warn('[gateway] response cache backend failed, using memory:', err);
+    return op(memoryBackend);
+  }
+}
+
+export function getResponseCacheBackendName(): 'redis' | 'memory' {
+  return activeBackend().name;
+}
+
+// ── Keys ──
+
+function sha256(input: string): string {
+  return createHash('sha256').update(input).digest('hex');
+}
+
+/**
+ * Build a deterministic cache key scoped by connector, endpoint, tenant and
+ * method, with a SHA-256 digest of the path (incl. query) and body.
  */
 export function buildCacheKey(
+  connectorId: string,
+  endpointId: string,
   scopeId: string,
-  slug: string,
   method: string,
   path: string,
   body: string | null
 ): string {
-  const bodyPart = body ? simpleHash(body) : 'nobody';
-  return `gw:resp:${scopeId}:${slug}:${method}:${path}:${bodyPart}`;
+  const digest = sha256(`${path}\n${body ?? ''}`);
+  return `${KEY_PREFIX}:${connectorId}:${endpointId}:${scopeId}:${method}:${digest}`;
 }
 
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const chr = str.charCodeAt(i);
-    hash = ((hash << 5) - hash + chr) | 0;
+function varyIndexKey(key: string): string {
+  return `${key}:vary`;
+}
+
+function parseVary(value: string | null | undefined): string[] | '*' {
+  if (!value) return [];
+  const names = value.split(',').map((h) => h.trim().toLowerCase()).filter(Boolean);
+  if (names.includes('*')) return '*';
+  return [...new Set(names)].sort();
+}
+
+function variantKey(key: string, vary: string[], requestHeaders?: Headers): string {
+  if (vary.length === 0) return key;
+  const values = vary.map((name) => `${name}=${requestHeaders?.get(name) ?? ''}`).join('\n');
+  return `${key}:v:${sha256(values)}`;
+}
+
+// ── Cache-Control ──
+
+/**
+ * Effective TTL for an upstream response: the endpoint's `cacheTtl`,
+ * shortened by `s-maxage`/`max-age`, or 0 when the upstream forbids
+ * shared caching (`no-store`, `no-cache`, `private`).
+ */
+export function resolveCacheTtl(endpointTtl: number, upstreamHeaders: Headers): number {
+  const cacheControl = upstreamHeaders.get('cache-control');
+  if (!cacheControl) return endpointTtl;
+
+  const directives = new Map<string, string | null>();
+  for (const part of cacheControl.split(',')) {
+    const [name, value] = part.trim().toLowerCase().split('=');
+    if (name) directives.set(name, value?.replace(/"/g, '') ?? null);
+  }
+
+  if (directives.has('no-store') || directives.has('no-cache') || directives.has('private')) {
+    return 0;
+  }
+
+  const maxAge = directives.get('s-maxage') ?? directives.get('max-age');
+  if (maxAge != null) {
+    const seconds = parseInt(maxAge, 10);
+    if (!isNaN(seconds)) return Math.max(0, Math.min(endpointTtl, seconds));
+  }
+  return endpointTtl;
+}
+
+// ── Read / Write ──
+
+function deserialize(raw: string): ResponseCacheEntry | null {
+  try {
+    const parsed = JSON.parse(raw) as SerializedEntry;
+    if (parsed.expiresAt < Date.now()) return null;
+    const buf = Buffer.from(parsed.body, 'base64');
+    return {
+      body: buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer,
+      status: parsed.status,
+      headers: parsed.headers,
+      expiresAt: parsed.expiresAt,
+    };
+  } catch {
+    return null;
   }
-  return hash.toString(36);
 }
 
 /**
  * Look up a cached response. Returns null if not found or expired.
+ * `requestHeaders` select the variant when the upstream sent `Vary`.
  */
-export function getCachedResponse(key: string): ResponseCacheEntry | null {
-  const entry = RESPONSE_CACHE.get(key);
-  if (!entry) return null;
-  if (entry.expiresAt < Date.now()) {
-    RESPONSE_CACHE.delete(key);
+export async function getCachedResponse(
+  key: string,
+  requestHeaders?: Headers
+): Promise<ResponseCacheEntry | null> {
+  try {
+    return await withBackend(async (backend) => {
+      const varyRaw = await backend.get(varyIndexKey(key));
+      const vary = varyRaw ? (JSON.parse(varyRaw) as string[]) : [];
+      const raw = await backend.get(variantKey(key, vary, requestHeaders));
+      return raw ? deserialize(raw) : null;
+    });
+  } catch {
     return null;
   }
-  return entry;
 }
 
 /**
- * Store a response in the cache with a TTL in seconds.
+ * Store a response in the cache with a TTL in seconds. Responses with
+ * `Vary: *` are skipped; other `Vary` headers store a per-variant entry.
  */
-export function setCachedResponse(
+export async function setCachedResponse(
   key: string,
   entry: Omit<ResponseCacheEntry, 'expiresAt'>,
-  ttlSeconds: number
-): void {
-  if (RESPONSE_CACHE.size >= MAX_ENTRIES) {
-    evictExpired();
-  }
-  // If still at capacity after evicting expired entries, drop the oldest
-  if (RESPONSE_CACHE.size >= MAX_ENTRIES) {
-    const firstKey = RESPONSE_CACHE.keys().next().value;
-    if (firstKey) RESPONSE_CACHE.delete(firstKey);
-  }
-  RESPONSE_CACHE.set(key, {
-    ...entry,
+  ttlSeconds: number,
+  requestHeaders?: Headers
+): Promise<void> {
+  if (ttlSeconds <= 0) return;
+  const varyHeader = Object.entries(entry.headers)
+    .find(([name]) => name.toLowerCase() === 'vary')?.[1];
+  const vary = parseVary(varyHeader);
+  if (vary === '*') return;
+
+  const serialized: SerializedEntry = {
+    body: Buffer.from(entry.body).toString('base64'),
+    status: entry.status,
+    headers: entry.headers,
     expiresAt: Date.now() + ttlSeconds * 1000,
-  });
+  };
+
+  try {
+    await withBackend(async (backend) => {
+      if (vary.length > 0) {
+        await backend.set(varyIndexKey(key), JSON.stringify(vary), ttlSeconds);
+      }
+      await backend.set(variantKey(key, vary, requestHeaders), JSON.stringify(serialized), ttlSeconds);
+    });
+  } catch (err) {
+    console.warn('[gateway] response cache write failed:', err);
+  }
+}
+
+// ── Stampede Protection ──
+
+export interface CacheFillLease {
+  /** True when this request should fetch upstream and fill the cache. */
+  leader: boolean;
+  release(): Promise<void>;
+}
+
+const INFLIGHT_FILLS = new Map<string, Promise<void>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Remove all expired entries from the cache.
+ * Coalesce concurrent misses for a cache key.
+ *
+ * The first caller becomes the leader and must call `release()` after
+ * storing the response. Followers (same instance, or another instance
+ * holding the Redis lock) wait up to `waitMs` for the fill and then
+ * re-read the cache; if it is still empty they fetch upstream themselves.
  */
-function evictExpired(): void {
-  const now = Date.now();
-  for (const [k, v] of RESPONSE_CACHE) {
-    if (v.expiresAt < now) RESPONSE_CACHE.delete(k);
+export async function acquireCacheFill(key: string, waitMs: number): Promise<CacheFillLease> {
+  const follower: CacheFillLease = { leader: false, release: async () => {} };
+
+  const inflight = INFLIGHT_FILLS.get(key);
+  if (inflight) {
+    await Promise.race([inflight, sleep(waitMs)]);
+    return follower;
+  }
+
+  let resolveFill!: () => void;
+  const fill = new Promise<void>((resolve) => { resolveFill = resolve; });
+  INFLIGHT_FILLS.set(key, fill);
+
+  let released = false;
+  const lockKey = `${LOCK_PREFIX}:${key}`;
+  const finish = async (unlock: boolean) => {
+    if (released) return;
+    released = true;
+    clearTimeout(expiry);
+    INFLIGHT_FILLS.delete(key);
+    resolveFill();
+    if (unlock) await withBackend((backend) => backend.unlock(lockKey)).catch(() => {});
+  };
+  // Never let a lost leader block followers past the wait window
+  const expiry = setTimeout(() => { finish(false); }, waitMs);
+  if (typeof expiry === 'object' && 'unref' in expiry) expiry.unref();
+
+  const acquired = await withBackend((backend) => backend.tryLock(lockKey, waitMs)).catch(() => true);
+  if (acquired) {
+    return { leader: true, release: () => finish(true) };
   }
+
+  // Another instance is filling — wait for its lock to clear
+  const deadline = Date.now() + waitMs;
+  while (Date.now() < deadline) {
+    await sleep(FILL_POLL_MS);
+    const locked = await withBackend((backend) => backend.isLocked(lockKey)).catch(() => false);
+    if (!locked) break;
+  }
+  await finish(false);
+  return follower;
 }
 
+// ── Invalidation ──
+
 /**
- * Invalidate all cached responses for a given connector (called on admin updates).
+ * Invalidate cached responses for a connector, or a single endpoint of it
+ * (called on admin updates and the purge route). Returns the number of
+ * keys removed.
  */
-export function invalidateResponseCache(scopeId: string, slug: string): void {
-  const prefix = `gw:resp:${scopeId}:${slug}:`;
-  for (const key of RESPONSE_CACHE.keys()) {
-    if (key.startsWith(prefix)) RESPONSE_CACHE.delete(key);
+export async function invalidateResponseCache(
+  connectorId: string,
+  endpointId?: string
+): Promise<number> {
+  const prefix = endpointId
+    ? `${KEY_PREFIX}:${connectorId}:${endpointId}:`
+    : `${KEY_PREFIX}:${connectorId}:`;
+  try {
+    return await withBackend((backend) => backend.deleteByPrefix(prefix));
+  } catch (err) {
+    console.warn('[gateway] response cache purge failed:', err);
+    return 0;
   }
 }
 
 /**
- * Expose cache size for diagnostics / testing.
+ * Expose in-memory cache size for diagnostics / testing.
  */
 export function getResponseCacheSize(): number {
   return RESPONSE_CACHE.size;
 }
 
 /**
- * Clear the entire response cache (used in tests).
+ * Clear the in-memory response cache (used in tests).
  */
 export function clearResponseCache(): void {
   RESPONSE_CACHE.clear();
+  MEMORY_LOCKS.clear();
+  INFLIGHT_FILLS.clear();
 }
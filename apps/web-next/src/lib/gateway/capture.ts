@@ -0,0 +1,334 @@
+/**
+ * Service Gateway — Payload Capture
+ *
+ * Opt-in, sampled capture of request/response exchanges for connectors
+ * with `captureEnabled`, so a reported bad response can be inspected and
+ * replayed. Everything is redacted before it is stored:
+ *
+ *   - Credential headers (Authorization, Cookie, …) and any header whose
+ *     name looks like a secret.
+ *   - JSON, form and query fields with sensitive names, plus the
+ *     connector's own `captureRedactFields`.
+ *   - Emails, card numbers, bearer tokens, JWTs and gateway API keys
+ *     anywhere in a value.
+ *   - Resolved upstream secret values, in case an upstream echoes them.
+ *
+ * Bodies are capped at `captureMaxBodyBytes`; streamed and binary bodies
+ * are not stored. Rows expire after `captureRetentionDays` and are removed
+ * by {@link pruneExpiredCaptures}.
+ */
+
+import { prisma } from '@/lib/db';
+import type { ResolvedConnector } from './types';
+
+export const REDACTED = '[REDACTED]';
+
+type CaptureSettings = Pick<
+  ResolvedConnector,
+  | 'captureEnabled'
+  | 'captureSampleRate'
+  | 'captureMaxBodyBytes'
+  | 'captureRetentionDays'
+  | 'captureRedactFields'
+>;
+
+export interface RedactionRules {
+  /** Extra field names to redact, matched case-insensitively. */
+  fields: string[];
+  /** Literal values to redact wherever they appear (resolved secrets). */
+  values: string[];
+}
+
+const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+]);
+
+const SENSITIVE_NAME_RE =
+  /pass(word|wd)|secret|token|api[-_]?key|authori[sz]ation|credential|private[-_]?key|session|signature|ssn|cvv|card[-_]?number/i;
+
+const VALUE_PATTERNS: RegExp[] = [
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  /\bgw_[A-Za-z0-9]{16,}/g,
+];
+
+const CARD_RE = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/** Secrets shorter than this are too likely to collide with ordinary text. */
+const MIN_SECRET_VALUE_LENGTH = 8;
+
+function isSensitiveName(name: string, extra: Set<string>): boolean {
+  return SENSITIVE_NAME_RE.test(name) || extra.has(name.toLowerCase());
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Redact secret values and PII patterns inside a free-form string.
+ */
+export function scrubText(text: string, values: string[] = []): string {
+  let out = text;
+  for (const value of values) {
+    if (value.length >= MIN_SECRET_VALUE_LENGTH) {
+      out = out.split(value).join(REDACTED);
+    }
+  }
+  for (const pattern of VALUE_PATTERNS) {
+    out = out.replace(pattern, REDACTED);
+  }
+  return out.replace(CARD_RE, (match) =>
+    passesLuhn(match.replace(/\D/g, '')) ? REDACTED : match
+  );
+}
+
+/**
+ * Redact sensitive `"name": value` and `name=value` pairs in text that
+ * could not be parsed structurally (truncated JSON, form bodies, queries).
+ */
+function scrubFields(text: string, extra: Set<string>): string {
+  return text
+    .replace(
+      /("([^"\\]{1,128})"\s*:\s*)("(?:[^"\\]|\\.)*"|[^,}\]\s]+)/g,
+      (match, prefix: string, name: string) =>
+        isSensitiveName(name, extra) ? `${prefix}"${REDACTED}"` : match
+    )
+    .replace(
+      /(^|[?&\s])([\w.-]{1,128})=([^&\s]*)/g,
+      (match, lead: string, name: string) =>
+        isSensitiveName(name, extra) ? `${lead}${name}=${REDACTED}` : match
+    );
+}
+
+function redactJson(value: unknown, extra: Set<string>, values: string[]): unknown {
+  if (typeof value === 'string') return scrubText(value, values);
+  if (Array.isArray(value)) return value.map((v) => redactJson(v, extra, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        isSensitiveName(k, extra) ? REDACTED : redactJson(v, extra, values),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact a header set into a plain object suitable for storage.
+ */
+export function redactHeaders(headers: Headers, rules: RedactionRules): Record<string, string> {
+  const extra = new Set(rules.fields.map((f) => f.toLowerCase()));
+  const out: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    out[name] = SENSITIVE_HEADERS.has(name) || isSensitiveName(name, extra)
+      ? REDACTED
+      : scrubText(value, rules.values);
+  });
+  return out;
+}
+
+/**
+ * Redact a text body. JSON is redacted structurally when it parses;
+ * anything else (including JSON cut off by the size cap) is scrubbed as
+ * text.
+ */
+export function redactBody(body: string, rules: RedactionRules): string {
+  const extra = new Set(rules.fields.map((f) => f.toLowerCase()));
+  const trimmed = body.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(redactJson(JSON.parse(body), extra, rules.values));
+    } catch {
+      // Truncated or malformed — fall through to text scrubbing
+    }
+  }
+  return scrubText(scrubFields(body, extra), rules.values);
+}
+
+/** Redact sensitive query parameters, keeping the leading `?`. */
+export function redactQuery(query: string, rules: RedactionRules): string {
+  if (!query) return '';
+  const extra = new Set(rules.fields.map((f) => f.toLowerCase()));
+  return scrubText(scrubFields(query, extra), rules.values);
+}
+
+function truncateUtf8(text: string, maxBytes: number): { text: string; truncated: boolean } {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.byteLength <= maxBytes) return { text, truncated: false };
+  return { text: new TextDecoder().decode(bytes.slice(0, maxBytes)), truncated: true };
+}
+
+/**
+ * Whether a body with this content type is stored. Streams and binary
+ * payloads are skipped; a missing content type is treated as text.
+ */
+export function isCapturableContentType(contentType: string | null): boolean {
+  if (!contentType) return true;
+  const ct = contentType.toLowerCase();
+  if (ct.includes('text/event-stream')) return false;
+  return ct.startsWith('text/')
+    || ct.includes('json')
+    || ct.includes('xml')
+    || ct.includes('x-www-form-urlencoded')
+    || ct.includes('graphql');
+}
+
+/**
+ * Decide whether to capture this request, honouring the sample rate.
+ */
+export function shouldCapture(
+  connector: Pick<ResolvedConnector, 'captureEnabled' | 'captureSampleRate'>,
+  random: () => number = Math.random
+): boolean {
+  return connector.captureEnabled && connector.captureSampleRate > 0
+    && random() < connector.captureSampleRate;
+}
+
+/**
+ * Read at most `maxBytes` of a response body. Reads from a clone are
+ * cancelled once the cap is reached, so large bodies are never buffered.
+ */
+export async function readBodyPrefix(
+  response: Response,
+  maxBytes: number
+): Promise<{ text: string | null; truncated: boolean }> {
+  if (maxBytes <= 0 || !response.body
+      || !isCapturableContentType(response.headers.get('content-type'))) {
+    await response.body?.cancel().catch(() => {});
+    return { text: null, truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  try {
+    while (size <= maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.byteLength;
+    }
+    if (size > maxBytes) {
+      truncated = true;
+      await reader.cancel().catch(() => {});
+    }
+  } catch {
+    return { text: null, truncated: false };
+  }
+
+  const buffer = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { text: new TextDecoder().decode(buffer.slice(0, maxBytes)), truncated };
+}
+
+export interface CaptureInput {
+  connector: CaptureSettings & { id: string };
+  teamId: string;
+  endpointName: string;
+  apiKeyId: string | null;
+  requestId: string;
+  method: string;
+  path: string;
+  query: string;
+  requestHeaders: Headers;
+  requestBody: string | null;
+  statusCode: number;
+  responseHeaders: Headers;
+  /** Body prefix from {@link readBodyPrefix}. */
+  responseBody: { text: string | null; truncated: boolean };
+  latencyMs: number;
+  error: string | null;
+  /** Resolved upstream secret values to scrub from the stored exchange. */
+  secretValues?: string[];
+}
+
+/**
+ * Build the redacted, size-capped row for a capture. Pure — see
+ * {@link recordCapture} for the write.
+ */
+export function buildCaptureRecord(input: CaptureInput, now: Date = new Date()) {
+  const { connector } = input;
+  const rules: RedactionRules = {
+    fields: connector.captureRedactFields,
+    values: input.secretValues ?? [],
+  };
+  const maxBytes = connector.captureMaxBodyBytes;
+
+  let requestBody: string | null = null;
+  let requestTruncated = false;
+  if (input.requestBody && maxBytes > 0
+      && isCapturableContentType(input.requestHeaders.get('content-type'))) {
+    const cut = truncateUtf8(input.requestBody, maxBytes);
+    requestBody = truncateUtf8(redactBody(cut.text, rules), maxBytes).text;
+    requestTruncated = cut.truncated;
+  }
+
+  const responseBody = input.responseBody.text !== null
+    ? truncateUtf8(redactBody(input.responseBody.text, rules), maxBytes).text
+    : null;
+
+  return {
+    teamId: input.teamId,
+    connectorId: connector.id,
+    endpointName: input.endpointName,
+    apiKeyId: input.apiKeyId,
+    requestId: input.requestId,
+    method: input.method,
+    path: input.path,
+    query: redactQuery(input.query, rules),
+    requestHeaders: redactHeaders(input.requestHeaders, rules),
+    requestBody,
+    requestTruncated,
+    statusCode: input.statusCode,
+    responseHeaders: redactHeaders(input.responseHeaders, rules),
+    responseBody,
+    responseTruncated: input.responseBody.truncated,
+    latencyMs: input.latencyMs,
+    error: input.error ? scrubText(input.error, rules.values) : null,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + connector.captureRetentionDays * 86_400_000),
+  };
+}
+
+/**
+ * Persist a capture. Failures are logged and swallowed — capture must
+ * never affect the proxied request.
+ */
+export async function recordCapture(input: CaptureInput): Promise<void> {
+  try {
+    await prisma.gatewayPayloadCapture.create({ data: buildCaptureRecord(input) });
+  } catch (err) {
+    console.warn('[gateway] payload capture write failed:', err);
+  }
+}
+
+/**
+ * Delete captures past their retention. Returns the number removed.
+ */
+export async function pruneExpiredCaptures(now: Date = new Date()): Promise<number> {
+  const result = await prisma.gatewayPayloadCapture.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  return result.count;
+}
@@ -7,6 +7,8 @@
 
 import { prisma } from '@/lib/db';
 import { summarizeMetricsForDescriptor } from './metrics';
+import { generateOpenApiSpec } from './openapi';
+import { scopeOwnerWhere } from './scope';
 
 // ── Types ──
 
@@ -92,6 +94,15 @@ interface CatalogOptions {
   category?: string;
   page?: number;
   pageSize?: number;
+  /** Restrict the catalog to what an API key may call. */
+  access?: CatalogAccess;
+}
+
+export interface CatalogAccess {
+  /** Connector the key is bound to, if any. */
+  connectorId?: string;
+  /** Endpoint ids or names the key may call; all when unset. */
+  allowedEndpoints?: string[];
 }
 
 /**
@@ -101,22 +112,25 @@ export async function buildToolCatalog(
   teamId: string,
   options?: CatalogOptions
 ): Promise<{ tools: ToolDescriptor[]; total: number }> {
-  const { category, page = 1, pageSize = 50 } = options || {};
+  const { category, page = 1, pageSize = 50, access } = options || {};
   const skip = (page - 1) * pageSize;
 
+  const endpointWhere = endpointAccessFilter(access);
   const where: Record<string, unknown> = {
     status: 'published',
     OR: [{ visibility: 'public' }, { teamId }],
   };
   if (category) where.category = category;
+  if (access?.connectorId) where.id = access.connectorId;
+  if (access?.allowedEndpoints?.length) where.endpoints = { some: endpointWhere };
 
   const [connectors, total] = await Promise.all([
     prisma.serviceConnector.findMany({
       where,
       include: {
-        endpoints: { where: { enabled: true }, orderBy: { createdAt: 'asc' } },
+        endpoints: { where: endpointWhere, orderBy: { createdAt: 'asc' } },
         pricing: true,
-        healthChecks: { orderBy: { checkedAt: 'desc' }, take: 1 },
+        healthChecks: { where: { upstreamUrl: null }, orderBy: { checkedAt: 'desc' }, take: 1 },
         metrics: { where: { period: 'hourly' }, orderBy: { periodStart: 'desc' }, take: 1 },
         rankings: { orderBy: { qualityRank: 'asc' } },
       },
@@ -134,6 +148,71 @@ export async function buildToolCatalog(
   return { tools, total };
 }
 
+/**
+ * Generate the OpenAPI spec for a catalog entry, limited to the
+ * endpoints the entry lists (and so to what the caller may call).
+ *
+ * The connector is looked up the way `resolveConfig` routes calls: the
+ * caller's own connector with the slug first, then a public one.
+ */
+export async function loadToolOpenApiSpec(
+  teamId: string,
+  tool: ToolDescriptor,
+  baseUrl: string
+): Promise<object | null> {
+  const include = {
+    endpoints: {
+      where: { enabled: true, name: { in: tool.endpoints.map((ep) => ep.name) } },
+      orderBy: { createdAt: 'asc' as const },
+    },
+  };
+  const connector =
+    (await prisma.serviceConnector.findFirst({
+      where: { slug: tool.name, status: 'published', ...scopeOwnerWhere(teamId) },
+      include,
+    })) ??
+    (await prisma.serviceConnector.findFirst({
+      where: { slug: tool.name, status: 'published', visibility: 'public' },
+      include,
+    }));
+  if (!connector) return null;
+
+  return generateOpenApiSpec(
+    {
+      slug: connector.slug,
+      displayName: connector.displayName,
+      description: connector.description,
+      version: connector.version,
+      authType: connector.authType,
+      upstreamBaseUrl: connector.upstreamBaseUrl,
+      endpoints: connector.endpoints.map((ep) => ({
+        name: ep.name,
+        description: ep.description,
+        method: ep.method,
+        path: ep.path,
+        upstreamContentType: ep.upstreamContentType,
+        bodySchema: ep.bodySchema,
+        requiredHeaders: ep.requiredHeaders,
+        cacheTtl: ep.cacheTtl,
+        rateLimit: ep.rateLimit,
+        timeout: ep.timeout,
+        bodyBlacklist: ep.bodyBlacklist,
+        bodyPattern: ep.bodyPattern,
+      })),
+    },
+    baseUrl
+  );
+}
+
+function endpointAccessFilter(access?: CatalogAccess): Record<string, unknown> {
+  const allowed = access?.allowedEndpoints;
+  if (!allowed?.length) return { enabled: true };
+  return {
+    enabled: true,
+    OR: [{ id: { in: allowed } }, { name: { in: allowed } }],
+  };
+}
+
 /**
  * Build a single tool descriptor for a connector with all its relations.
  */
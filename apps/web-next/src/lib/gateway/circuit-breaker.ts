@@ -0,0 +1,222 @@
+/**
+ * Service Gateway — Circuit Breaker
+ *
+ * Tracks upstream failures per connector and short-circuits requests while
+ * an upstream is unhealthy. State is shared across instances through
+ * @naap/cache Redis so every lambda sees the same OPEN/HALF_OPEN decision;
+ * a bounded in-memory map is used when Redis is unavailable.
+ *
+ * State machine:
+ *   CLOSED ──(failures >= threshold)──▶ OPEN ──(cooldown elapsed)──▶ HALF_OPEN
+ *   HALF_OPEN ──(success)──▶ CLOSED     HALF_OPEN ──(failure)──▶ OPEN
+ *
+ * In HALF_OPEN only the request holding the probe lease (acquireProbe) is
+ * sent upstream; everyone else is rejected as if the breaker were OPEN.
+ */
+
+import { getRedis } from '@naap/cache';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerState {
+  state: CircuitState;
+  failures: number;
+  lastFailureAt: number;
+  nextProbeAt: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  openDurationMs: number;
+}
+
+export const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  openDurationMs: 30_000,
+};
+
+const REDIS_PREFIX = 'gw:cb';
+const STATE_TTL_S = 86_400; // idle breakers expire after a day
+const MAX_CIRCUIT_ENTRIES = 512;
+
+const memoryCircuits = new Map<string, CircuitBreakerState>();
+/** Probe lease expiry per key (in-memory fallback) */
+const memoryProbes = new Map<string, number>();
+
+const RECORD_FAILURE_SCRIPT = `
+local failures = redis.call('HINCRBY', KEYS[1], 'failures', 1)
+local state = redis.call('HGET', KEYS[1], 'state') or 'CLOSED'
+local nextProbeAt = tonumber(redis.call('HGET', KEYS[1], 'nextProbeAt') or '0')
+local now = tonumber(ARGV[1])
+if state == 'OPEN' and now >= nextProbeAt then state = 'HALF_OPEN' end
+if failures >= tonumber(ARGV[2]) or state == 'HALF_OPEN' then
+  state = 'OPEN'
+  nextProbeAt = now + tonumber(ARGV[3])
+end
+redis.call('HSET', KEYS[1], 'state', state, 'lastFailureAt', now, 'nextProbeAt', nextProbeAt)
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return failures`;
+
+function redisKey(key: string): string {
+  return `${REDIS_PREFIX}:${key}`;
+}
+
+function probeKey(key: string): string {
+  return `${REDIS_PREFIX}:${key}:probe`;
+}
+
+function closedState(): CircuitBreakerState {
+  return { state: 'CLOSED', failures: 0, lastFailureAt: 0, nextProbeAt: 0 };
+}
+
+/**
+ * An OPEN breaker whose cooldown has elapsed moves to HALF_OPEN, where
+ * acquireProbe lets a single probe through.
+ */
+function withProbeTransition(cb: CircuitBreakerState, now: number): CircuitBreakerState {
+  if (cb.state === 'OPEN' && now >= cb.nextProbeAt) {
+    return { ...cb, state: 'HALF_OPEN' };
+  }
+  return cb;
+}
+
+function parseRedisState(hash: Record<string, string>): CircuitBreakerState {
+  if (!hash || !hash.state) return closedState();
+  const state = hash.state as CircuitState;
+  return {
+    state: state === 'OPEN' || state === 'HALF_OPEN' ? state : 'CLOSED',
+    failures: parseInt(hash.failures || '0', 10),
+    lastFailureAt: parseInt(hash.lastFailureAt || '0', 10),
+    nextProbeAt: parseInt(hash.nextProbeAt || '0', 10),
+  };
+}
+
+function getMemoryCircuit(key: string): CircuitBreakerState {
+  let cb = memoryCircuits.get(key);
+  if (!cb) {
+    if (memoryCircuits.size >= MAX_CIRCUIT_ENTRIES) {
+      const oldest = memoryCircuits.keys().next().value;
+      if (oldest !== undefined) memoryCircuits.delete(oldest);
+    }
+    cb = closedState();
+    memoryCircuits.set(key, cb);
+  }
+  return cb;
+}
+
+function recordMemoryFailure(key: string, options: CircuitBreakerOptions, now: number): void {
+  const cb = getMemoryCircuit(key);
+  const effective = withProbeTransition(cb, now);
+  cb.failures++;
+  cb.lastFailureAt = now;
+  if (cb.failures >= options.failureThreshold || effective.state === 'HALF_OPEN') {
+    cb.state = 'OPEN';
+    cb.nextProbeAt = now + options.openDurationMs;
+  }
+}
+
+/**
+ * Read the current breaker state for a key, applying the OPEN → HALF_OPEN
+ * transition when the cooldown has elapsed.
+ */
+export async function getCircuit(key: string): Promise<CircuitBreakerState> {
+  const now = Date.now();
+  const redis = getRedis();
+  if (redis) {
+    try {
+      const hash = await redis.hgetall(redisKey(key));
+      return withProbeTransition(parseRedisState(hash), now);
+    } catch {
+      // Redis unavailable — fall through to local state
+    }
+  }
+  const cb = memoryCircuits.get(key);
+  return cb ? withProbeTransition(cb, now) : closedState();
+}
+
+/**
+ * Claim the single HALF_OPEN probe for a key. Returns false while another
+ * request holds it. The lease is released when the probe's result is
+ * recorded, and expires after the cooldown if that never happens.
+ */
+export async function acquireProbe(
+  key: string,
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_OPTIONS
+): Promise<boolean> {
+  const now = Date.now();
+  const redis = getRedis();
+  if (redis) {
+    try {
+      const acquired = await redis.set(probeKey(key), String(now), 'PX', options.openDurationMs, 'NX');
+      return acquired === 'OK';
+    } catch {
+      // Redis unavailable — fall through to local state
+    }
+  }
+  const expiresAt = memoryProbes.get(key);
+  if (expiresAt !== undefined && expiresAt > now) return false;
+  memoryProbes.set(key, now + options.openDurationMs);
+  return true;
+}
+
+/**
+ * Record a successful upstream call — closes the breaker.
+ */
+export async function recordSuccess(key: string): Promise<void> {
+  memoryCircuits.delete(key);
+  memoryProbes.delete(key);
+  const redis = getRedis();
+  if (redis) {
+    try {
+      await redis.del(redisKey(key), probeKey(key));
+    } catch {
+      // Non-critical — breaker closes on its own after the next success
+    }
+  }
+}
+
+/**
+ * Record a failed upstream call. Opens the breaker once the failure
+ * threshold is reached, or immediately when a HALF_OPEN probe fails.
+ */
+export async function recordFailure(
+  key: string,
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT_OPTIONS
+): Promise<void> {
+  const now = Date.now();
+  const redis = getRedis();
+  if (redis) {
+    try {
+      await redis.eval(
+        RECORD_FAILURE_SCRIPT,
+        1,
+        redisKey(key),
+        String(now),
+        String(options.failureThreshold),
+        String(options.openDurationMs),
+        String(STATE_TTL_S)
+      );
+      await redis.del(probeKey(key));
+      return;
+    } catch {
+      // Redis unavailable — fall through to local state
+    }
+  }
+  memoryProbes.delete(key);
+  recordMemoryFailure(key, options, now);
+}
+
+/**
+ * Manually reset a breaker to CLOSED (admin action).
+ */
+export async function resetCircuit(key: string): Promise<void> {
+  await recordSuccess(key);
+}
+
+/**
+ * Clear all local breaker state (used in tests).
+ */
+export function clearLocalCircuits(): void {
+  memoryCircuits.clear();
+  memoryProbes.clear();
+}
@@ -26,6 +26,8 @@ const DEFAULT_PLAN_SEED = {
 
 export interface DefaultPlanLimits {
   rateLimit: number;
+  burstLimit: number | null;
+  maxConcurrent: number | null;
   dailyQuota: number | null;
   monthlyQuota: number | null;
   maxRequestSize: number;
@@ -51,6 +53,8 @@ export async function getOrCreateDefaultPlan(scopeId: string): Promise<DefaultPl
     update: {},
     select: {
       rateLimit: true,
+      burstLimit: true,
+      maxConcurrent: true,
       dailyQuota: true,
       monthlyQuota: true,
       maxRequestSize: true,
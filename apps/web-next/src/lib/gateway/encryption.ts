@@ -10,6 +10,7 @@
  */
 
 import * as crypto from 'crypto';
+import { vaultKeyId } from '@/lib/secret-vault';
 
 const DEV_FALLBACK_KEY = 'naap-local-dev-gateway-encryption-key-32ch';
 
@@ -47,6 +48,11 @@ function deriveKey(): Buffer {
   return _derivedKey;
 }
 
+/** Id of the key `encrypt` uses, recorded as `SecretVault.keyId`. */
+export function encryptionKeyId(): string {
+  return vaultKeyId(getEncryptionKey());
+}
+
 export function encrypt(text: string): { encryptedValue: string; iv: string } {
   const iv = crypto.randomBytes(16);
   const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(), iv);
@@ -0,0 +1,135 @@
+/**
+ * Generic HMAC Request Signer
+ *
+ * Signs a request with a shared secret over a configurable canonical
+ * string, for upstreams that use their own HMAC scheme rather than AWS
+ * SigV4. The canonical string is a template whose placeholders are filled
+ * from the outgoing request:
+ *
+ *   {method}          upper-case HTTP method
+ *   {path}            URL path
+ *   {query}           query string without `?`, parameters sorted by name
+ *   {host}            URL host
+ *   {timestamp}       signing time, in `timestampFormat`
+ *   {nonce}           random UUID (also sent in `nonceHeader`, if set)
+ *   {body}            request body text
+ *   {bodySha256}      hex SHA-256 of the body
+ *   {header.<name>}   value of an outgoing header
+ *
+ * Pure functions, no framework dependencies. Uses Node.js built-in crypto.
+ */
+
+import * as crypto from 'crypto';
+
+export const DEFAULT_CANONICAL_TEMPLATE = '{method}\n{path}\n{query}\n{timestamp}\n{bodySha256}';
+
+export type HmacAlgorithm = 'sha256' | 'sha512' | 'sha1';
+
+export interface HmacSignOptions {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body?: string | ArrayBuffer | null;
+  secret: string;
+  keyId?: string;
+  algorithm?: HmacAlgorithm;
+  canonicalTemplate?: string;
+  encoding?: 'hex' | 'base64';
+  signatureHeader?: string;
+  /** Value written to `signatureHeader`; supports {signature}, {keyId}, {timestamp}, {algorithm}. */
+  signatureTemplate?: string;
+  timestampHeader?: string;
+  timestampFormat?: 'unix' | 'unix-ms' | 'iso';
+  nonceHeader?: string;
+  now?: Date;
+  nonce?: string;
+}
+
+/**
+ * Sign a request. Mutates `opts.headers` in-place, adding the signature,
+ * timestamp and (optionally) nonce headers. Returns the canonical string
+ * that was signed.
+ */
+export function signHmacRequest(opts: HmacSignOptions): string {
+  const algorithm = opts.algorithm ?? 'sha256';
+  const timestamp = formatTimestamp(opts.now ?? new Date(), opts.timestampFormat ?? 'unix');
+  const nonce = opts.nonce ?? crypto.randomUUID();
+
+  const timestampHeader = opts.timestampHeader ?? 'X-Timestamp';
+  if (timestampHeader) opts.headers.set(timestampHeader, timestamp);
+  if (opts.nonceHeader) opts.headers.set(opts.nonceHeader, nonce);
+
+  const canonical = buildCanonicalString(opts.canonicalTemplate ?? DEFAULT_CANONICAL_TEMPLATE, {
+    method: opts.method,
+    url: opts.url,
+    headers: opts.headers,
+    body: opts.body ?? null,
+    timestamp,
+    nonce,
+  });
+
+  const signature = crypto
+    .createHmac(algorithm, opts.secret)
+    .update(canonical, 'utf8')
+    .digest(opts.encoding ?? 'hex');
+
+  const value = (opts.signatureTemplate ?? '{signature}').replace(
+    /\{(signature|keyId|timestamp|algorithm)\}/g,
+    (_, name: string) => {
+      if (name === 'signature') return signature;
+      if (name === 'keyId') return opts.keyId ?? '';
+      if (name === 'timestamp') return timestamp;
+      return algorithm;
+    }
+  );
+  opts.headers.set(opts.signatureHeader ?? 'X-Signature', value);
+
+  return canonical;
+}
+
+/**
+ * Fill a canonical string template. Exported for previews and tests.
+ */
+export function buildCanonicalString(
+  template: string,
+  req: {
+    method: string;
+    url: URL;
+    headers: Headers;
+    body: string | ArrayBuffer | null;
+    timestamp: string;
+    nonce: string;
+  }
+): string {
+  const bodyBytes = req.body === null
+    ? Buffer.alloc(0)
+    : typeof req.body === 'string' ? Buffer.from(req.body, 'utf8') : Buffer.from(req.body);
+
+  return template.replace(/\{(header\.[\w-]+|[a-zA-Z0-9]+)\}/g, (match, name: string) => {
+    if (name.startsWith('header.')) return req.headers.get(name.slice(7)) ?? '';
+    switch (name) {
+      case 'method': return req.method.toUpperCase();
+      case 'path': return req.url.pathname;
+      case 'query': return sortedQuery(req.url.searchParams);
+      case 'host': return req.url.host;
+      case 'timestamp': return req.timestamp;
+      case 'nonce': return req.nonce;
+      case 'body': return bodyBytes.toString('utf8');
+      case 'bodySha256': return crypto.createHash('sha256').update(bodyBytes).digest('hex');
+      default: return match;
+    }
+  });
+}
+
+function sortedQuery(params: URLSearchParams): string {
+  const entries = [...params.entries()].sort(([a, av], [b, bv]) =>
+    a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0
+  );
+  return new URLSearchParams(entries).toString();
+}
+
+function formatTimestamp(now: Date, format: 'unix' | 'unix-ms' | 'iso'): string {
+  if (format === 'iso') return now.toISOString();
+  if (format === 'unix-ms') return String(now.getTime());
+  return String(Math.floor(now.getTime() / 1000));
+}
@@ -0,0 +1,94 @@
+/**
+ * JWT Bearer Assertion Signer
+ *
+ * Signs the short-lived JWTs used to authenticate as a service account:
+ * either sent directly as a bearer token (GCP self-signed JWTs) or
+ * exchanged at a token endpoint for an access token (RFC 7523, GCP
+ * `urn:ietf:params:oauth:grant-type:jwt-bearer`).
+ *
+ * Pure functions, no framework dependencies. Uses Node.js built-in crypto.
+ */
+
+import * as crypto from 'crypto';
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'HS256';
+
+export const DEFAULT_JWT_LIFETIME_S = 3600;
+
+export interface JwtAssertionOptions {
+  issuer: string;
+  subject?: string;
+  audience: string;
+  scope?: string;
+  /** PEM private key for RS256/ES256, shared secret for HS256. */
+  key: string;
+  keyId?: string;
+  algorithm?: JwtAlgorithm;
+  lifetimeSeconds?: number;
+  now?: Date;
+}
+
+/** The fields of a GCP service account key file that signing needs. */
+export interface ServiceAccountKey {
+  clientEmail: string;
+  privateKey: string;
+  privateKeyId?: string;
+  tokenUri?: string;
+}
+
+/**
+ * Parse a GCP service account JSON key file.
+ */
+export function parseServiceAccountKey(json: string): ServiceAccountKey {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    throw new Error('Service account key is not valid JSON');
+  }
+  if (typeof parsed.client_email !== 'string' || typeof parsed.private_key !== 'string') {
+    throw new Error('Service account key must contain client_email and private_key');
+  }
+  return {
+    clientEmail: parsed.client_email,
+    privateKey: parsed.private_key,
+    ...(typeof parsed.private_key_id === 'string' ? { privateKeyId: parsed.private_key_id } : {}),
+    ...(typeof parsed.token_uri === 'string' ? { tokenUri: parsed.token_uri } : {}),
+  };
+}
+
+/**
+ * Build and sign a JWT assertion. Returns the compact serialization.
+ */
+export function signJwtAssertion(opts: JwtAssertionOptions): string {
+  const algorithm = opts.algorithm ?? 'RS256';
+  const iat = Math.floor((opts.now ?? new Date()).getTime() / 1000);
+
+  const header = { alg: algorithm, typ: 'JWT', ...(opts.keyId ? { kid: opts.keyId } : {}) };
+  const claims = {
+    iss: opts.issuer,
+    sub: opts.subject ?? opts.issuer,
+    aud: opts.audience,
+    iat,
+    exp: iat + (opts.lifetimeSeconds ?? DEFAULT_JWT_LIFETIME_S),
+    ...(opts.scope ? { scope: opts.scope } : {}),
+  };
+
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+  return `${signingInput}.${sign(signingInput, opts.key, algorithm)}`;
+}
+
+function sign(input: string, key: string, algorithm: JwtAlgorithm): string {
+  if (algorithm === 'HS256') {
+    return crypto.createHmac('sha256', key).update(input).digest('base64url');
+  }
+  const privateKey = crypto.createPrivateKey(key);
+  const signature = algorithm === 'ES256'
+    ? crypto.sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    : crypto.sign('sha256', Buffer.from(input), privateKey);
+  return signature.toString('base64url');
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
@@ -3,9 +3,23 @@
  *
  * Converts the native tool catalog into MCP tools/list format,
  * OpenAI function-calling format, and handles MCP JSON-RPC requests.
+ *
+ * Besides tools, the catalog is exposed as MCP resources (each
+ * connector's OpenAPI spec and pricing) and prompts (one per curated
+ * endpoint example). Everything here is pure; the transport and tool
+ * execution live in the `/api/v1/gw/mcp` route.
  */
 
-import type { ToolDescriptor, EndpointDescriptor } from './catalog';
+import type { ToolDescriptor, EndpointDescriptor, EndpointExample } from './catalog';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2024-11-05'];
+
+/** Items per page for tools/list, resources/list and prompts/list. */
+export const MCP_PAGE_SIZE = 100;
+
+const RESOURCE_URI_RE = /^gateway:\/\/connectors\/([^/]+)\/(openapi|pricing)$/;
+const PROMPT_EXAMPLE_SEP = '__example_';
 
 // ── Types ──
 
@@ -38,6 +52,29 @@ export interface JsonRpcResponse {
   error?: { code: number; message: string; data?: unknown };
 }
 
+export interface McpResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: [];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface McpRequestOptions {
+  /** Load the OpenAPI document for a connector in the caller's catalog. */
+  loadOpenApiSpec?: (tool: ToolDescriptor) => Promise<object | null>;
+}
+
 /**
  * Convert catalog tools to MCP tools/list format.
  * Each endpoint becomes a separate MCP tool named {connector}__{endpoint}.
@@ -89,12 +126,167 @@ export function mcpToolNameToRoute(name: string): { connector: string; endpointP
   return { connector, endpointPath: endpointName };
 }
 
+/**
+ * Find the connector and endpoint behind an MCP tool name.
+ */
+export function resolveMcpTool(
+  catalog: ToolDescriptor[],
+  toolName: string
+): { tool: ToolDescriptor; endpoint: EndpointDescriptor } | null {
+  const { connector, endpointPath } = mcpToolNameToRoute(toolName);
+  const tool = catalog.find((t) => t.name === connector);
+  if (!tool) return null;
+
+  const endpoint = tool.endpoints.find(
+    (ep) => ep.name === endpointPath || ep.name.replace(/-/g, '_') === endpointPath.replace(/-/g, '_')
+  );
+  return endpoint ? { tool, endpoint } : null;
+}
+
+/**
+ * Slice a list for an MCP cursor. Cursors are opaque to clients; here they
+ * encode the offset of the next page. Returns null for an invalid cursor.
+ */
+export function paginateMcpList<T>(
+  items: T[],
+  cursor: unknown,
+  pageSize: number = MCP_PAGE_SIZE
+): { items: T[]; nextCursor?: string } | null {
+  let offset = 0;
+  if (cursor != null) {
+    if (typeof cursor !== 'string') return null;
+    offset = Number(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Number.isInteger(offset) || offset < 0) return null;
+  }
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    ...(end < items.length ? { nextCursor: Buffer.from(String(end)).toString('base64url') } : {}),
+  };
+}
+
+/**
+ * List each connector's OpenAPI spec, plus its pricing when it has any.
+ */
+export function catalogToMcpResources(catalog: ToolDescriptor[]): McpResource[] {
+  const resources: McpResource[] = [];
+  for (const tool of catalog) {
+    resources.push({
+      uri: `gateway://connectors/${tool.name}/openapi`,
+      name: `${tool.displayName} OpenAPI spec`,
+      description: `OpenAPI 3 document for the ${tool.displayName} endpoints available to this key`,
+      mimeType: 'application/json',
+    });
+    if (tool.pricing) {
+      resources.push({
+        uri: `gateway://connectors/${tool.name}/pricing`,
+        name: `${tool.displayName} pricing`,
+        description: `Billing model, unit price, free quota and tiers for ${tool.displayName}`,
+        mimeType: 'application/json',
+      });
+    }
+  }
+  return resources;
+}
+
+/**
+ * Parse a `gateway://connectors/{slug}/{kind}` resource URI.
+ */
+export function parseMcpResourceUri(uri: string): { connector: string; kind: 'openapi' | 'pricing' } | null {
+  const match = RESOURCE_URI_RE.exec(uri);
+  if (!match) return null;
+  return { connector: match[1], kind: match[2] as 'openapi' | 'pricing' };
+}
+
+/**
+ * One prompt per curated endpoint example, named
+ * `{connector}__{endpoint}__example_{n}`.
+ */
+export function catalogToMcpPrompts(catalog: ToolDescriptor[]): McpPrompt[] {
+  const prompts: McpPrompt[] = [];
+  for (const tool of catalog) {
+    for (const ep of tool.endpoints) {
+      (ep.examples || []).forEach((example, i) => {
+        prompts.push({
+          name: `${buildMcpToolName(tool.name, ep.name)}${PROMPT_EXAMPLE_SEP}${i + 1}`,
+          description: example.description || `Example ${i + 1} for ${buildToolDescription(tool, ep)}`,
+          arguments: [],
+        });
+      });
+    }
+  }
+  return prompts;
+}
+
+/**
+ * Render an example prompt as a user request and the expected tool output.
+ */
+export function getMcpPrompt(
+  catalog: ToolDescriptor[],
+  name: string
+): { description: string; messages: McpPromptMessage[] } | null {
+  const sep = name.lastIndexOf(PROMPT_EXAMPLE_SEP);
+  if (sep === -1) return null;
+  const toolName = name.slice(0, sep);
+  const index = Number(name.slice(sep + PROMPT_EXAMPLE_SEP.length)) - 1;
+
+  const resolved = resolveMcpTool(catalog, toolName);
+  const example: EndpointExample | undefined = resolved?.endpoint.examples?.[index];
+  if (!resolved || !example) return null;
+
+  const description = example.description || `Example ${index + 1} for ${toolName}`;
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `${description}\n\nCall the \`${toolName}\` tool with these arguments:\n\n\`\`\`json\n${JSON.stringify(example.input, null, 2)}\n\`\`\``,
+        },
+      },
+      {
+        role: 'assistant',
+        content: {
+          type: 'text',
+          text: `The tool returns a response like:\n\n\`\`\`json\n${JSON.stringify(example.output, null, 2)}\n\`\`\``,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Result for `initialize`. The server is stateless, so no session id is
+ * issued; the client's protocol version is echoed when supported.
+ */
+export function buildInitializeResult(requestedVersion: unknown) {
+  const protocolVersion = typeof requestedVersion === 'string'
+    && SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+    ? requestedVersion
+    : MCP_PROTOCOL_VERSION;
+
+  return {
+    protocolVersion,
+    capabilities: {
+      tools: { listChanged: false },
+      resources: { subscribe: false, listChanged: false },
+      prompts: { listChanged: false },
+    },
+    serverInfo: { name: 'naap-service-gateway', version: '1.0.0' },
+  };
+}
+
 /**
  * Handle an incoming MCP JSON-RPC 2.0 request.
+ *
+ * `tools/call` is resolved but not executed: the result carries a
+ * `_proxyTo` target for the transport to invoke.
  */
 export async function handleMcpRequest(
   body: JsonRpcRequest,
   catalog: ToolDescriptor[],
+  options: McpRequestOptions = {},
 ): Promise<JsonRpcResponse> {
   if (body.jsonrpc !== '2.0' || !body.method || body.id == null) {
     return {
@@ -104,14 +296,70 @@ export async function handleMcpRequest(
     };
   }
 
+  const params = body.params || {};
+
   switch (body.method) {
+    case 'initialize':
+      return { jsonrpc: '2.0', id: body.id, result: buildInitializeResult(params.protocolVersion) };
+
+    case 'ping':
+      return { jsonrpc: '2.0', id: body.id, result: {} };
+
     case 'tools/list': {
-      const tools = catalogToMcpTools(catalog);
-      return { jsonrpc: '2.0', id: body.id, result: { tools } };
+      const page = paginateMcpList(catalogToMcpTools(catalog), params.cursor);
+      if (!page) return rpcError(body.id, -32602, 'Invalid cursor');
+      return { jsonrpc: '2.0', id: body.id, result: { tools: page.items, nextCursor: page.nextCursor } };
+    }
+
+    case 'resources/list': {
+      const page = paginateMcpList(catalogToMcpResources(catalog), params.cursor);
+      if (!page) return rpcError(body.id, -32602, 'Invalid cursor');
+      return { jsonrpc: '2.0', id: body.id, result: { resources: page.items, nextCursor: page.nextCursor } };
+    }
+
+    case 'resources/templates/list':
+      return { jsonrpc: '2.0', id: body.id, result: { resourceTemplates: [] } };
+
+    case 'resources/read': {
+      const uri = params.uri as string;
+      if (!uri) return rpcError(body.id, -32602, 'Missing required param: uri');
+
+      const parsed = parseMcpResourceUri(uri);
+      const tool = parsed && catalog.find((t) => t.name === parsed.connector);
+      if (!parsed || !tool) return rpcError(body.id, -32002, `Resource not found: ${uri}`);
+
+      let content: object | null = null;
+      if (parsed.kind === 'pricing') {
+        content = tool.pricing;
+      } else if (options.loadOpenApiSpec) {
+        content = await options.loadOpenApiSpec(tool);
+      }
+      if (!content) return rpcError(body.id, -32002, `Resource not found: ${uri}`);
+
+      return {
+        jsonrpc: '2.0',
+        id: body.id,
+        result: {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(content, null, 2) }],
+        },
+      };
+    }
+
+    case 'prompts/list': {
+      const page = paginateMcpList(catalogToMcpPrompts(catalog), params.cursor);
+      if (!page) return rpcError(body.id, -32602, 'Invalid cursor');
+      return { jsonrpc: '2.0', id: body.id, result: { prompts: page.items, nextCursor: page.nextCursor } };
+    }
+
+    case 'prompts/get': {
+      const name = params.name as string;
+      if (!name) return rpcError(body.id, -32602, 'Missing required param: name');
+      const prompt = getMcpPrompt(catalog, name);
+      if (!prompt) return rpcError(body.id, -32602, `Unknown prompt: ${name}`);
+      return { jsonrpc: '2.0', id: body.id, result: prompt };
     }
 
     case 'tools/call': {
-      const params = body.params || {};
       const toolName = params.name as string;
       const args = (params.arguments || {}) as Record<string, unknown>;
 
@@ -171,6 +419,10 @@ export async function handleMcpRequest(
 
 // ── Internal Helpers ──
 
+function rpcError(id: number | string, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
 function buildMcpToolName(connectorSlug: string, endpointName: string): string {
   return `${connectorSlug}__${endpointName.replace(/-/g, '_')}`;
 }
@@ -0,0 +1,142 @@
+/**
+ * Service Gateway — MCP Tool Execution
+ *
+ * Executes an MCP `tools/call` by invoking the gateway engine route for
+ * the tool's connector endpoint, so calls get the same auth, policy,
+ * usage and billing as direct API traffic.
+ *
+ * Long-running calls report progress through `onProgress`: a heartbeat
+ * while waiting for the upstream, then one notification per event when
+ * the endpoint streams Server-Sent Events.
+ */
+
+export const PROGRESS_HEARTBEAT_MS = 5_000;
+
+/** Longest progress message forwarded from a streamed event. */
+const MAX_PROGRESS_MESSAGE_LENGTH = 500;
+
+const FORWARDED_HEADERS = ['authorization', 'x-team-id', 'x-request-id', 'x-trace-id'];
+
+export interface McpProgress {
+  progress: number;
+  message?: string;
+}
+
+export interface McpCallTarget {
+  connectorSlug: string;
+  method: string;
+  path: string;
+}
+
+export interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError: boolean;
+}
+
+export interface McpCallOptions {
+  /** Headers of the MCP request; auth and tracing headers are forwarded. */
+  headers: Headers;
+  onProgress?: (progress: McpProgress) => void;
+  signal?: AbortSignal;
+  heartbeatMs?: number;
+}
+
+/**
+ * Call a gateway endpoint on behalf of an MCP client. Throws when the
+ * engine route cannot be reached; HTTP errors become `isError` results.
+ */
+export async function callGatewayTool(
+  origin: string,
+  target: McpCallTarget,
+  args: Record<string, unknown>,
+  options: McpCallOptions
+): Promise<McpToolResult> {
+  const { onProgress } = options;
+  let url = `${origin}/api/v1/gw/${encodeURIComponent(target.connectorSlug)}${target.path}`;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  for (const name of FORWARDED_HEADERS) {
+    const value = options.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  const init: RequestInit = { method: target.method, headers, signal: options.signal };
+  if (target.method === 'GET' || target.method === 'HEAD') {
+    if (Object.keys(args).length > 0) {
+      const qs = new URLSearchParams();
+      for (const [k, v] of Object.entries(args)) {
+        qs.set(k, typeof v === 'string' ? v : JSON.stringify(v));
+      }
+      url += `?${qs.toString()}`;
+    }
+  } else if (Object.keys(args).length > 0) {
+    init.body = JSON.stringify(args);
+  }
+
+  let progress = 0;
+  const report = (message: string) => onProgress?.({ progress: ++progress, message });
+
+  const startMs = Date.now();
+  const heartbeat = onProgress
+    ? setInterval(
+        () => report(`Waiting for ${target.connectorSlug} (${Math.round((Date.now() - startMs) / 1000)}s)`),
+        options.heartbeatMs ?? PROGRESS_HEARTBEAT_MS
+      )
+    : null;
+
+  try {
+    onProgress?.({ progress, message: `Calling ${target.method} ${target.connectorSlug}${target.path}` });
+    const response = await fetch(url, init);
+
+    const isStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+    const text = isStream && onProgress && response.body
+      ? await readEventStream(response.body, (data) => report(data.slice(0, MAX_PROGRESS_MESSAGE_LENGTH)))
+      : await response.text();
+
+    return {
+      content: [{ type: 'text', text }],
+      isError: response.status >= 400,
+    };
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Read an SSE body to the end, calling `onEvent` with each event's data
+ * and returning the raw stream text as the tool output.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (data: string) => void
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let pending = '';
+
+  const flush = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data && data !== '[DONE]') onEvent(data);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    text += chunk;
+    pending += chunk;
+
+    const blocks = pending.split(/\r?\n\r?\n/);
+    pending = blocks.pop() ?? '';
+    blocks.forEach(flush);
+
+    if (done) {
+      if (pending.trim()) flush(pending);
+      return text;
+    }
+  }
+}
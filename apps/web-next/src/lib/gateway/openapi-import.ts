@@ -0,0 +1,570 @@
+/**
+ * Service Gateway — OpenAPI Importer
+ *
+ * The inverse of `generateOpenApiSpec`: maps an OpenAPI 3.0/3.1 document
+ * (JSON or YAML) onto a connector definition and its endpoints, and diffs
+ * a re-import against the endpoints a connector already has.
+ *
+ * Mapping:
+ *   servers[n]              → upstreamBaseUrl (server variables use defaults)
+ *   security / schemes      → authType, authConfig, secretRefs
+ *   paths.{path}.{method}   → one endpoint; `{param}` becomes `:param`
+ *   requestBody schema      → bodySchema (local $refs inlined)
+ *   required header params  → requiredHeaders
+ *
+ * Anything that cannot be represented (cookie auth, external $refs,
+ * per-operation servers, …) is reported as a warning rather than failing
+ * the import.
+ */
+
+import { parse as parseYaml } from 'yaml';
+
+export const MAX_IMPORTED_ENDPOINTS = 500;
+
+const SUPPORTED_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const IGNORED_METHODS = ['head', 'options', 'trace'];
+const IGNORED_REQUIRED_HEADERS = new Set(['authorization', 'content-type', 'accept']);
+const MAX_REF_DEPTH = 32;
+/** Schema nodes all inlined request bodies may add up to; shared $refs otherwise grow exponentially. */
+const MAX_INLINED_NODES = 20_000;
+
+export class OpenApiImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenApiImportError';
+  }
+}
+
+export interface ImportedConnector {
+  slug: string;
+  displayName: string;
+  description: string;
+  upstreamBaseUrl: string;
+  allowedHosts: string[];
+  authType: string;
+  authConfig: Record<string, unknown>;
+  secretRefs: string[];
+}
+
+export interface ImportedEndpoint {
+  name: string;
+  description: string | null;
+  method: string;
+  path: string;
+  upstreamPath: string;
+  upstreamContentType: string;
+  bodyTransform: string;
+  bodySchema: Record<string, unknown> | null;
+  requiredHeaders: string[];
+}
+
+export interface OpenApiImportResult {
+  connector: ImportedConnector;
+  endpoints: ImportedEndpoint[];
+  warnings: string[];
+}
+
+export interface OpenApiImportOptions {
+  slug?: string;
+  serverIndex?: number;
+  upstreamBaseUrl?: string;
+}
+
+type OpenApiObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is OpenApiObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? value.slice(0, max) : value;
+}
+
+/**
+ * Parse a JSON or YAML document and check it is OpenAPI 3.0/3.1.
+ */
+export function parseOpenApiDocument(source: string | OpenApiObject): OpenApiObject {
+  let doc: unknown = source;
+  if (typeof source === 'string') {
+    const text = source.trim();
+    try {
+      doc = text.startsWith('{') ? JSON.parse(text) : parseYaml(text, { maxAliasCount: 100 });
+    } catch (err) {
+      throw new OpenApiImportError(`Could not parse document: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (!isObject(doc)) {
+    throw new OpenApiImportError('Document must be a JSON or YAML object');
+  }
+  if (typeof doc.openapi !== 'string' || !/^3\.[01]\./.test(doc.openapi)) {
+    const found = typeof doc.swagger === 'string' ? `Swagger ${doc.swagger}` : String(doc.openapi ?? 'unknown');
+    throw new OpenApiImportError(`Only OpenAPI 3.0 and 3.1 documents are supported (found ${found})`);
+  }
+  if (!isObject(doc.paths)) {
+    throw new OpenApiImportError('Document has no paths');
+  }
+  return doc;
+}
+
+// ── $ref resolution ──
+
+class RefResolver {
+  private readonly warned = new Set<string>();
+  private inlinedNodes = 0;
+
+  constructor(private readonly doc: OpenApiObject, private readonly warnings: string[]) {}
+
+  private lookup(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      if (!this.warned.has(ref)) {
+        this.warned.add(ref);
+        this.warnings.push(`External reference "${ref}" is not supported and was left untyped`);
+      }
+      return undefined;
+    }
+    let node: unknown = this.doc;
+    for (const raw of ref.slice(2).split('/')) {
+      const key = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+      if (!isObject(node) || !Object.prototype.hasOwnProperty.call(node, key)) return undefined;
+      node = node[key];
+    }
+    return node;
+  }
+
+  /** Follow a (possibly chained) $ref to the object it points at. */
+  deref(value: unknown): unknown {
+    let current = value;
+    for (let hops = 0; isObject(current) && typeof current.$ref === 'string'; hops++) {
+      if (hops >= MAX_REF_DEPTH) return undefined;
+      current = this.lookup(current.$ref);
+    }
+    return current;
+  }
+
+  /**
+   * Inline every local $ref in a schema. Recursive schemas are cut at the
+   * first repeat and replaced with an untyped object; a document whose
+   * inlined schemas exceed MAX_INLINED_NODES is rejected.
+   */
+  inline(value: unknown, seen: string[] = [], depth = 0): unknown {
+    if (!Array.isArray(value) && !isObject(value)) return value;
+    if (++this.inlinedNodes > MAX_INLINED_NODES) {
+      throw new OpenApiImportError(
+        `Request body schemas expand to more than ${MAX_INLINED_NODES} nodes once $refs are inlined`
+      );
+    }
+    if (Array.isArray(value)) return value.map((item) => this.inline(item, seen, depth + 1));
+    if (depth > MAX_REF_DEPTH) return { type: 'object' };
+
+    if (typeof value.$ref === 'string') {
+      const ref = value.$ref;
+      if (seen.includes(ref)) return { type: 'object' };
+      const target = this.lookup(ref);
+      return target === undefined ? {} : this.inline(target, [...seen, ref], depth + 1);
+    }
+
+    const out: OpenApiObject = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '__proto__') continue;
+      out[key] = this.inline(child, seen, depth + 1);
+    }
+    return out;
+  }
+}
+
+// ── Connector mapping ──
+
+function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '');
+  return slug.length >= 2 ? slug : 'imported-api';
+}
+
+function resolveServerUrl(doc: OpenApiObject, index: number, warnings: string[]): string {
+  const servers = Array.isArray(doc.servers) ? doc.servers.filter(isObject) : [];
+  if (servers.length === 0) {
+    throw new OpenApiImportError('Document has no servers; pass upstreamBaseUrl explicitly');
+  }
+  const server = servers[index];
+  if (!server || typeof server.url !== 'string') {
+    throw new OpenApiImportError(`Server index ${index} does not exist (document has ${servers.length})`);
+  }
+  if (servers.length > 1) {
+    warnings.push(`Document lists ${servers.length} servers; using ${server.url}`);
+  }
+
+  const variables = isObject(server.variables) ? server.variables : {};
+  const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const variable = variables[name];
+    return isObject(variable) && variable.default !== undefined ? String(variable.default) : match;
+  });
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error('bad protocol');
+  } catch {
+    throw new OpenApiImportError(`Server URL "${url}" is not an absolute http(s) URL; pass upstreamBaseUrl explicitly`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+interface MappedAuth {
+  authType: string;
+  authConfig: Record<string, unknown>;
+  secretRefs: string[];
+}
+
+const NO_AUTH: MappedAuth = { authType: 'none', authConfig: {}, secretRefs: [] };
+
+function mapSecurityScheme(name: string, scheme: OpenApiObject, warnings: string[]): MappedAuth {
+  const type = String(scheme.type ?? '');
+  if (type === 'http') {
+    const httpScheme = String(scheme.scheme ?? '').toLowerCase();
+    if (httpScheme === 'bearer') {
+      return { authType: 'bearer', authConfig: { tokenRef: 'token' }, secretRefs: ['token'] };
+    }
+    if (httpScheme === 'basic') {
+      return {
+        authType: 'basic',
+        authConfig: { usernameRef: 'username', passwordRef: 'password' },
+        secretRefs: ['username', 'password'],
+      };
+    }
+  }
+  if (type === 'apiKey' && typeof scheme.name === 'string') {
+    if (scheme.in === 'header') {
+      return {
+        authType: 'header',
+        authConfig: { headers: { [scheme.name]: '{{secrets.apiKey}}' } },
+        secretRefs: ['apiKey'],
+      };
+    }
+    if (scheme.in === 'query') {
+      return {
+        authType: 'query',
+        authConfig: { paramName: scheme.name, secretRef: 'apiKey' },
+        secretRefs: ['apiKey'],
+      };
+    }
+  }
+  if (type === 'oauth2' || type === 'openIdConnect') {
+    warnings.push(
+      `Security scheme "${name}" (${type}) was mapped to bearer auth; store an access token as the "token" secret`
+    );
+    return { authType: 'bearer', authConfig: { tokenRef: 'token' }, secretRefs: ['token'] };
+  }
+
+  warnings.push(`Security scheme "${name}" (${type || 'unknown'}) is not supported; connector uses no auth`);
+  return NO_AUTH;
+}
+
+function mapSecurity(doc: OpenApiObject, resolver: RefResolver, warnings: string[]): MappedAuth {
+  const components = isObject(doc.components) ? doc.components : {};
+  const schemes = isObject(components.securitySchemes) ? components.securitySchemes : {};
+
+  let schemeName: string | undefined;
+  if (Array.isArray(doc.security)) {
+    const requirement = doc.security.find(isObject);
+    if (!requirement || Object.keys(requirement).length === 0) return NO_AUTH;
+    const names = Object.keys(requirement);
+    schemeName = names[0];
+    if (names.length > 1) {
+      warnings.push(`Security requirement combines ${names.join(' + ')}; only "${schemeName}" is mapped`);
+    }
+  } else {
+    schemeName = Object.keys(schemes)[0];
+  }
+  if (!schemeName) return NO_AUTH;
+
+  const scheme = resolver.deref(schemes[schemeName]);
+  if (!isObject(scheme)) {
+    warnings.push(`Security scheme "${schemeName}" is not defined; connector uses no auth`);
+    return NO_AUTH;
+  }
+  return mapSecurityScheme(schemeName, scheme, warnings);
+}
+
+// ── Endpoint mapping ──
+
+/** `/items/{item-id}` → `/items/:item_id`; path params must be word characters. */
+function toGatewayPath(path: string): string {
+  return path.replace(/\{([^}]+)\}/g, (_, name: string) => `:${name.replace(/\W/g, '_')}`);
+}
+
+function buildEndpointName(method: string, path: string, operation: OpenApiObject): string {
+  const source = typeof operation.operationId === 'string' && operation.operationId.trim()
+    ? operation.operationId
+    : typeof operation.summary === 'string' && operation.summary.trim()
+      ? operation.summary
+      : `${method.toUpperCase()} ${path}`;
+  return truncate(source.trim(), 64);
+}
+
+function pickContentType(content: OpenApiObject): string | undefined {
+  const types = Object.keys(content);
+  return types.find((t) => t === 'application/json')
+    ?? types.find((t) => /[/+]json$/.test(t))
+    ?? types[0];
+}
+
+function bodyTransformFor(contentType: string): string {
+  if (contentType === 'application/x-www-form-urlencoded') return 'form-encode';
+  if (contentType === 'application/octet-stream' || contentType.startsWith('multipart/')
+    || contentType.startsWith('image/') || contentType.startsWith('audio/') || contentType.startsWith('video/')) {
+    return 'binary';
+  }
+  return 'passthrough';
+}
+
+function collectParameters(
+  resolver: RefResolver,
+  pathItem: OpenApiObject,
+  operation: OpenApiObject
+): OpenApiObject[] {
+  const merged = new Map<string, OpenApiObject>();
+  for (const list of [pathItem.parameters, operation.parameters]) {
+    if (!Array.isArray(list)) continue;
+    for (const raw of list) {
+      const param = resolver.deref(raw);
+      if (isObject(param) && typeof param.name === 'string') {
+        merged.set(`${param.in}:${param.name}`, param);
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+function mapOperation(
+  resolver: RefResolver,
+  method: string,
+  path: string,
+  pathItem: OpenApiObject,
+  operation: OpenApiObject
+): ImportedEndpoint {
+  const gatewayPath = toGatewayPath(path);
+  const parameters = collectParameters(resolver, pathItem, operation);
+  const requiredHeaders = parameters
+    .filter((p) => p.in === 'header' && p.required === true)
+    .map((p) => String(p.name))
+    .filter((name) => !IGNORED_REQUIRED_HEADERS.has(name.toLowerCase()));
+
+  let upstreamContentType = 'application/json';
+  let bodySchema: Record<string, unknown> | null = null;
+  const requestBody = resolver.deref(operation.requestBody);
+  if (isObject(requestBody) && isObject(requestBody.content)) {
+    const contentType = pickContentType(requestBody.content);
+    if (contentType) {
+      upstreamContentType = truncate(contentType, 128);
+      const media = requestBody.content[contentType];
+      const schema = isObject(media) ? resolver.inline(media.schema) : undefined;
+      if (isObject(schema) && Object.keys(schema).length > 0 && /json/.test(contentType)) {
+        bodySchema = schema;
+      }
+    }
+  }
+
+  const summary = typeof operation.summary === 'string' ? operation.summary : '';
+  const detail = typeof operation.description === 'string' ? operation.description : '';
+  const description = [summary, detail].filter(Boolean).join(' — ');
+
+  return {
+    name: buildEndpointName(method, path, operation),
+    description: description ? truncate(description, 512) : null,
+    method: method.toUpperCase(),
+    path: truncate(gatewayPath, 256),
+    upstreamPath: truncate(gatewayPath, 256),
+    upstreamContentType,
+    bodyTransform: bodyTransformFor(upstreamContentType),
+    bodySchema,
+    requiredHeaders,
+  };
+}
+
+/**
+ * Map a parsed OpenAPI document onto a connector and its endpoints.
+ */
+export function mapOpenApiDocument(
+  doc: OpenApiObject,
+  options: OpenApiImportOptions = {}
+): OpenApiImportResult {
+  const warnings: string[] = [];
+  const resolver = new RefResolver(doc, warnings);
+  const info = isObject(doc.info) ? doc.info : {};
+  const title = typeof info.title === 'string' && info.title.trim() ? info.title.trim() : 'Imported API';
+
+  const upstreamBaseUrl = options.upstreamBaseUrl
+    ? options.upstreamBaseUrl.replace(/\/+$/, '')
+    : resolveServerUrl(doc, options.serverIndex ?? 0, warnings);
+
+  const auth = mapSecurity(doc, resolver, warnings);
+  let mixedSecurity = false;
+
+  const endpoints: ImportedEndpoint[] = [];
+  const mappedFrom = new Map<string, string>();
+  for (const [path, rawItem] of Object.entries(doc.paths as OpenApiObject)) {
+    const pathItem = resolver.deref(rawItem);
+    if (!isObject(pathItem)) continue;
+    if (Array.isArray(pathItem.servers)) {
+      warnings.push(`Path-level servers on ${path} are ignored`);
+    }
+
+    for (const method of Object.keys(pathItem)) {
+      if (IGNORED_METHODS.includes(method)) {
+        warnings.push(`${method.toUpperCase()} ${path} skipped: method not supported by the gateway`);
+      }
+    }
+
+    for (const method of SUPPORTED_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+      if (operation.deprecated === true) {
+        warnings.push(`${method.toUpperCase()} ${path} is deprecated`);
+      }
+      if (Array.isArray(operation.security)) mixedSecurity = true;
+      const endpoint = mapOperation(resolver, method, path, pathItem, operation);
+      const key = endpointKey(endpoint.method, endpoint.path);
+      const earlier = mappedFrom.get(key);
+      if (earlier) {
+        warnings.push(`${method.toUpperCase()} ${path} skipped: maps to ${endpoint.path} like ${earlier}`);
+        continue;
+      }
+      mappedFrom.set(key, `${method.toUpperCase()} ${path}`);
+      endpoints.push(endpoint);
+    }
+  }
+
+  if (endpoints.length === 0) {
+    throw new OpenApiImportError('Document has no GET/POST/PUT/PATCH/DELETE operations');
+  }
+  if (endpoints.length > MAX_IMPORTED_ENDPOINTS) {
+    throw new OpenApiImportError(
+      `Document has ${endpoints.length} operations; at most ${MAX_IMPORTED_ENDPOINTS} can be imported`
+    );
+  }
+  if (mixedSecurity) {
+    warnings.push('Per-operation security requirements are ignored; all endpoints use the connector auth');
+  }
+
+  return {
+    connector: {
+      slug: options.slug || slugify(title),
+      displayName: truncate(title, 128),
+      description: typeof info.description === 'string' ? truncate(info.description, 1024) : '',
+      upstreamBaseUrl,
+      allowedHosts: [new URL(upstreamBaseUrl).hostname],
+      ...auth,
+    },
+    endpoints,
+    warnings,
+  };
+}
+
+/**
+ * Parse and map in one step.
+ */
+export function importOpenApi(
+  source: string | Record<string, unknown>,
+  options: OpenApiImportOptions = {}
+): OpenApiImportResult {
+  return mapOpenApiDocument(parseOpenApiDocument(source), options);
+}
+
+// ── Re-import diff ──
+
+/** Fields the importer owns; admin-tuned settings (limits, caching, transforms) are preserved. */
+const DIFFED_FIELDS = [
+  'name',
+  'description',
+  'upstreamPath',
+  'upstreamContentType',
+  'bodySchema',
+  'requiredHeaders',
+] as const;
+
+type DiffedField = (typeof DIFFED_FIELDS)[number];
+
+export interface ExistingEndpoint extends Pick<ImportedEndpoint, 'method' | 'path'> {
+  id: string;
+  name: string;
+  description: string | null;
+  upstreamPath: string;
+  upstreamContentType: string;
+  bodySchema: unknown;
+  requiredHeaders: string[];
+}
+
+export interface EndpointChange {
+  id: string;
+  method: string;
+  path: string;
+  changes: Partial<Record<DiffedField, { from: unknown; to: unknown }>>;
+  update: Partial<Pick<ImportedEndpoint, DiffedField>>;
+}
+
+export interface OpenApiImportDiff {
+  added: ImportedEndpoint[];
+  changed: EndpointChange[];
+  removed: Array<{ id: string; method: string; path: string; name: string }>;
+  unchanged: number;
+}
+
+function endpointKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compare imported endpoints to a connector's current endpoints, matched
+ * by method + path.
+ */
+export function diffOpenApiImport(
+  existing: ExistingEndpoint[],
+  imported: ImportedEndpoint[]
+): OpenApiImportDiff {
+  const current = new Map(existing.map((ep) => [endpointKey(ep.method, ep.path), ep]));
+  const incomingKeys = new Set<string>();
+  const diff: OpenApiImportDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  for (const ep of imported) {
+    const key = endpointKey(ep.method, ep.path);
+    incomingKeys.add(key);
+    const match = current.get(key);
+    if (!match) {
+      diff.added.push(ep);
+      continue;
+    }
+
+    const changes: EndpointChange['changes'] = {};
+    const update: Record<string, unknown> = {};
+    for (const field of DIFFED_FIELDS) {
+      if (stableStringify(match[field]) !== stableStringify(ep[field])) {
+        changes[field] = { from: match[field] ?? null, to: ep[field] };
+        update[field] = ep[field];
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ id: match.id, method: match.method, path: match.path, changes, update });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const ep of existing) {
+    if (!incomingKeys.has(endpointKey(ep.method, ep.path))) {
+      diff.removed.push({ id: ep.id, method: ep.method, path: ep.path, name: ep.name });
+    }
+  }
+  return diff;
+}
@@ -1,17 +1,29 @@
 /**
  * Service Gateway — Policy Engine
  *
- * Enforces rate limits, quotas, and request size constraints.
- * Uses @naap/cache createRateLimiter for distributed rate limiting.
+ * Enforces rate limits, concurrency limits, quotas, and request size
+ * constraints.
+ *
+ * Rate limits are token buckets (sustained req/min plus a burst capacity)
+ * scoped per caller — or per caller + endpoint when the endpoint sets its
+ * own limit. Concurrency limits cap in-flight requests per caller and per
+ * endpoint; the returned lease must be released once the response body
+ * has been sent. Every response carries IETF draft `RateLimit-*` headers.
  *
  * Quota enforcement uses Redis INCR with TTL-based expiry for O(1)
  * per-request checks instead of DB COUNT queries. Falls back to
  * DB queries when Redis is unavailable.
  */
 
-import { createRateLimiter } from '@naap/cache';
 import { getRedis } from '@naap/cache';
 import { prisma } from '@/lib/db';
+import {
+  consumeToken,
+  acquireConcurrencySlot,
+  combineLeases,
+  type ConcurrencyLease,
+  type TokenBucketResult,
+} from './rate-limit';
 import type { AuthResult, ResolvedEndpoint } from './types';
 
 export interface PolicyResult {
@@ -19,42 +31,91 @@ export interface PolicyResult {
   reason?: string;
   statusCode?: number;
   headers?: Record<string, string>;
+  /** In-flight slot held for this request, when a concurrency limit applies. */
+  lease?: ConcurrencyLease;
 }
 
-const MAX_LIMITER_ENTRIES = 256;
-const LIMITER_CACHE = new Map<number, ReturnType<typeof createRateLimiter>>();
-
-function getLimiter(rateLimit: number) {
-  let limiter = LIMITER_CACHE.get(rateLimit);
-  if (!limiter) {
-    if (LIMITER_CACHE.size >= MAX_LIMITER_ENTRIES) {
-      const oldest = LIMITER_CACHE.keys().next().value;
-      if (oldest !== undefined) LIMITER_CACHE.delete(oldest);
-    }
-    limiter = createRateLimiter({
-      points: rateLimit,
-      duration: 60,
-      keyPrefix: 'rl:gw',
-    });
-    LIMITER_CACHE.set(rateLimit, limiter);
-  }
-  return limiter;
+export interface RateLimitPolicy {
+  /** Sustained requests per minute. */
+  rateLimit: number;
+  /** Bucket capacity — requests that may be sent back-to-back. */
+  burst: number;
+  /** Bucket key; endpoint-level limits get their own bucket. */
+  bucketKey: string;
+  /** In-flight caps as [slot key, max] pairs. */
+  concurrency: Array<[string, number]>;
 }
 
-function quotaCallerSuffix(auth: AuthResult): string {
+const DEFAULT_RATE_LIMIT = 100;
+
+function callerKey(auth: AuthResult): string {
   return auth.apiKeyId || `jwt:${auth.callerId}`;
 }
 
+/**
+ * Resolve the limits that apply to a caller on an endpoint. Endpoint-level
+ * rate/burst settings replace the caller's plan; concurrency caps from
+ * both the plan and the endpoint apply together.
+ */
+export function resolveRateLimitPolicy(auth: AuthResult, endpoint: ResolvedEndpoint): RateLimitPolicy {
+  const caller = callerKey(auth);
+  const endpointScoped = !!(endpoint.rateLimit || endpoint.burstLimit);
+  const rateLimit = endpoint.rateLimit || auth.rateLimit || DEFAULT_RATE_LIMIT;
+  const burst = (endpointScoped ? endpoint.burstLimit : auth.burstLimit) || rateLimit;
+
+  const concurrency: Array<[string, number]> = [];
+  if (auth.maxConcurrent) concurrency.push([caller, auth.maxConcurrent]);
+  if (endpoint.maxConcurrent) concurrency.push([`${caller}:${endpoint.id}`, endpoint.maxConcurrent]);
+
+  return {
+    rateLimit,
+    burst,
+    bucketKey: endpointScoped ? `${caller}:${endpoint.id}` : caller,
+    concurrency,
+  };
+}
+
+/**
+ * IETF draft rate limit headers, mirrored into the legacy `X-RateLimit-*`
+ * names existing clients read.
+ */
+function rateLimitHeaders(policy: RateLimitPolicy, result: TokenBucketResult): Record<string, string> {
+  const reset = String(result.allowed ? result.resetSeconds : result.retryAfterSeconds);
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': reset,
+    'RateLimit-Policy': `${policy.rateLimit};w=60;burst=${policy.burst}`,
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': reset,
+  };
+}
+
+async function acquireSlots(slots: Array<[string, number]>): Promise<ConcurrencyLease | null | undefined> {
+  if (slots.length === 0) return undefined;
+  const held: ConcurrencyLease[] = [];
+  for (const [key, max] of slots) {
+    const lease = await acquireConcurrencySlot(key, max);
+    if (!lease) {
+      await Promise.all(held.map((l) => l.release()));
+      return null;
+    }
+    held.push(lease);
+  }
+  return held.length === 1 ? held[0] : combineLeases(held);
+}
+
 function dailyQuotaKey(auth: AuthResult): string {
   const now = new Date();
   const day = `${now.getUTCFullYear()}${String(now.getUTCMonth() + 1).padStart(2, '0')}${String(now.getUTCDate()).padStart(2, '0')}`;
-  return `gw:quota:d:${auth.teamId}:${quotaCallerSuffix(auth)}:${day}`;
+  return `gw:quota:d:${auth.teamId}:${callerKey(auth)}:${day}`;
 }
 
 function monthlyQuotaKey(auth: AuthResult): string {
   const now = new Date();
   const month = `${now.getUTCFullYear()}${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
-  return `gw:quota:m:${auth.teamId}:${quotaCallerSuffix(auth)}:${month}`;
+  return `gw:quota:m:${auth.teamId}:${callerKey(auth)}:${month}`;
 }
 
 function secondsUntilEndOfDay(): number {
@@ -106,25 +167,44 @@ export async function enforcePolicy(
   requestBytes: number
 ): Promise<PolicyResult> {
   // ── Rate Limiting ──
-  const rateLimit = endpoint.rateLimit || auth.rateLimit || 100;
-  const limiterKey = auth.apiKeyId || `jwt:${auth.callerId}`;
-  const limiter = getLimiter(rateLimit);
-  const rlResult = await limiter.consume(limiterKey);
+  const rlPolicy = resolveRateLimitPolicy(auth, endpoint);
+  const rlResult = await consumeToken(rlPolicy.bucketKey, rlPolicy.rateLimit, rlPolicy.burst);
+  const headers = rateLimitHeaders(rlPolicy, rlResult);
 
   if (!rlResult.allowed) {
     return {
       allowed: false,
       reason: 'Rate limit exceeded',
       statusCode: 429,
-      headers: {
-        'X-RateLimit-Limit': String(rlResult.limit),
-        'X-RateLimit-Remaining': '0',
-        'X-RateLimit-Reset': String(rlResult.resetIn),
-        'Retry-After': String(rlResult.retryAfter || rlResult.resetIn),
-      },
+      headers: { ...headers, 'Retry-After': String(rlResult.retryAfterSeconds) },
+    };
+  }
+
+  // ── Concurrency ──
+  const lease = await acquireSlots(rlPolicy.concurrency);
+  if (lease === null) {
+    return {
+      allowed: false,
+      reason: 'Too many concurrent requests',
+      statusCode: 429,
+      headers: { ...headers, 'Retry-After': '1' },
     };
   }
 
+  const blocked = await checkQuotasAndSize(auth, endpoint, requestBytes);
+  if (blocked) {
+    await lease?.release();
+    return { ...blocked, headers: { ...headers, ...blocked.headers } };
+  }
+
+  return { allowed: true, headers, lease };
+}
+
+async function checkQuotasAndSize(
+  auth: AuthResult,
+  endpoint: ResolvedEndpoint,
+  requestBytes: number
+): Promise<PolicyResult | null> {
   // ── Daily Quota ──
   if (auth.dailyQuota) {
     let dailyCount = await incrQuota(dailyQuotaKey(auth), secondsUntilEndOfDay());
@@ -181,12 +261,5 @@ export async function enforcePolicy(
     };
   }
 
-  return {
-    allowed: true,
-    headers: {
-      'X-RateLimit-Limit': String(rlResult.limit),
-      'X-RateLimit-Remaining': String(rlResult.remaining),
-      'X-RateLimit-Reset': String(rlResult.resetIn),
-    },
-  };
+  return null;
 }
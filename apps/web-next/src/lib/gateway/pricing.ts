@@ -5,19 +5,19 @@
  * estimated costs with volume tier support.
  */
 
-interface VolumeTier {
+export interface VolumeTier {
   minUnits: number;
   costPerUnit: number;
 }
 
-interface FeaturePricing {
+export interface FeaturePricing {
   feature: string;
   costPerUnit: number;
   unit: string;
   description?: string;
 }
 
-interface ConnectorPricingData {
+export interface ConnectorPricingData {
   costPerUnit: number;
   unit: string;
   currency: string;
@@ -104,46 +104,52 @@ export function formatPricingResponse(
   };
 }
 
+export interface UnitPrice {
+  costPerUnit: number;
+  unit: string;
+  appliedTier?: VolumeTier;
+  /** Set when feature-specific pricing was used. */
+  feature?: string;
+}
+
 /**
- * Calculate estimated cost for a given number of units,
- * applying volume tiers and feature-specific pricing.
+ * Resolve the per-unit price for a volume of units. Feature-specific
+ * pricing takes precedence; otherwise the highest volume tier reached
+ * by `units` applies to every unit.
  */
-export function calculateCost(
+export function resolveUnitPrice(
   pricing: ConnectorPricingData,
   units: number,
-  feature?: string,
-  connectorSlug = ''
-): CostEstimate {
-  const featurePricingList = parseJsonArray<FeaturePricing>(pricing.featurePricing);
-  const volumeTiers = parseJsonArray<VolumeTier>(pricing.volumeTiers);
-
-  let costPerUnit = pricing.costPerUnit;
-  let unit = pricing.unit;
-  let appliedTier: VolumeTier | undefined;
-  let usedFeaturePricing = false;
-
-  // Feature-specific pricing takes precedence over base and volume tiers
+  feature?: string
+): UnitPrice {
   if (feature) {
-    const fp = featurePricingList.find((f) => f.feature === feature);
+    const fp = parseJsonArray<FeaturePricing>(pricing.featurePricing).find((f) => f.feature === feature);
     if (fp) {
-      costPerUnit = fp.costPerUnit;
-      unit = fp.unit;
-      usedFeaturePricing = true;
+      return { costPerUnit: fp.costPerUnit, unit: fp.unit, feature };
     }
   }
 
-  // Volume tiers only apply when feature pricing was NOT used
-  if (!usedFeaturePricing) {
-    const sortedTiers = [...volumeTiers].sort((a, b) => b.minUnits - a.minUnits);
-    for (const tier of sortedTiers) {
-      if (units >= tier.minUnits) {
-        costPerUnit = tier.costPerUnit;
-        appliedTier = tier;
-        break;
-      }
+  const sortedTiers = [...parseJsonArray<VolumeTier>(pricing.volumeTiers)].sort((a, b) => b.minUnits - a.minUnits);
+  for (const tier of sortedTiers) {
+    if (units >= tier.minUnits) {
+      return { costPerUnit: tier.costPerUnit, unit: pricing.unit, appliedTier: tier };
     }
   }
 
+  return { costPerUnit: pricing.costPerUnit, unit: pricing.unit };
+}
+
+/**
+ * Calculate estimated cost for a given number of units,
+ * applying volume tiers and feature-specific pricing.
+ */
+export function calculateCost(
+  pricing: ConnectorPricingData,
+  units: number,
+  feature?: string,
+  connectorSlug = ''
+): CostEstimate {
+  const { costPerUnit, unit, appliedTier } = resolveUnitPrice(pricing, units, feature);
   const estimatedCost = Math.round(costPerUnit * units * 100) / 100;
 
   return {
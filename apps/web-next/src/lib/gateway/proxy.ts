@@ -2,100 +2,139 @@
  * Service Gateway — Upstream Proxy
  *
  * Sends the transformed request to the upstream service.
- * Handles: timeouts, retries, SSE streaming, SSRF protection, circuit breaking.
+ * Handles: timeouts, retries, upstream failover, SSE streaming, SSRF
+ * protection, circuit breaking.
  */
 
 import type { UpstreamRequest, ProxyResult } from './types';
 import { validateHost } from './types';
+import {
+  acquireProbe,
+  getCircuit,
+  recordFailure,
+  recordSuccess,
+  type CircuitBreakerOptions,
+} from './circuit-breaker';
+import { recordUpstreamResult } from './upstream-pool';
 
-// ── Circuit Breaker ──
-
-type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
-
-interface CircuitBreaker {
-  state: CircuitState;
-  failures: number;
-  lastFailureAt: number;
-  nextProbeAt: number;
-}
-
-const FAILURE_THRESHOLD = 5;
-const OPEN_DURATION_MS = 30_000;
-const MAX_CIRCUIT_ENTRIES = 512;
-const circuitBreakers = new Map<string, CircuitBreaker>();
-
-function getCircuit(slug: string): CircuitBreaker {
-  let cb = circuitBreakers.get(slug);
-  if (!cb) {
-    if (circuitBreakers.size >= MAX_CIRCUIT_ENTRIES) {
-      const oldest = circuitBreakers.keys().next().value;
-      if (oldest !== undefined) circuitBreakers.delete(oldest);
-    }
-    cb = { state: 'CLOSED', failures: 0, lastFailureAt: 0, nextProbeAt: 0 };
-    circuitBreakers.set(slug, cb);
-  }
-  if (cb.state === 'OPEN' && Date.now() >= cb.nextProbeAt) {
-    cb.state = 'HALF_OPEN';
-  }
-  return cb;
-}
-
-function recordSuccess(slug: string): void {
-  const cb = circuitBreakers.get(slug);
-  if (cb) {
-    cb.state = 'CLOSED';
-    cb.failures = 0;
-  }
+/**
+ * Circuit breaker identity and thresholds for a connector.
+ * Breaker state is keyed by connector id so same-slug connectors in
+ * different scopes never share state.
+ */
+export interface CircuitTarget {
+  connectorId: string;
+  slug: string;
+  options?: CircuitBreakerOptions;
 }
 
-function recordFailure(slug: string): void {
-  const cb = getCircuit(slug);
-  cb.failures++;
-  cb.lastFailureAt = Date.now();
-  if (cb.failures >= FAILURE_THRESHOLD || cb.state === 'HALF_OPEN') {
-    cb.state = 'OPEN';
-    cb.nextProbeAt = Date.now() + OPEN_DURATION_MS;
-  }
+/**
+ * One upstream pool member with its fully built request. The request is
+ * built per candidate so auth signing covers the candidate's host.
+ */
+export interface UpstreamCandidate {
+  baseUrl: string;
+  request: UpstreamRequest;
 }
 
 /**
  * Proxy a request to the upstream service.
  *
- * @param upstream  - Fully built upstream request (URL, method, headers, body)
+ * Candidates are tried in order: a network error, timeout, or 5xx from one
+ * pool member fails over to the next. The last candidate's 5xx response is
+ * returned as-is. The circuit breaker tracks the connector as a whole.
+ *
+ * @param candidates - Ordered pool members (first = chosen upstream)
  * @param timeout   - Timeout in milliseconds
  * @param retries   - Number of retry attempts on failure
  * @param allowedHosts - Allowed upstream hostnames (SSRF protection)
+ * @param circuit   - Connector circuit breaker target (omit to skip breaking)
  */
 export async function proxyToUpstream(
-  upstream: UpstreamRequest,
+  candidates: UpstreamCandidate[],
   timeout: number,
   retries: number,
   allowedHosts: string[],
   streaming: boolean,
-  connectorSlug?: string
+  circuit?: CircuitTarget
 ): Promise<ProxyResult> {
   // ── SSRF Protection ──
-  const url = new URL(upstream.url);
-  if (!validateHost(url.hostname, allowedHosts)) {
+  const allowed = candidates.filter((c) =>
+    validateHost(new URL(c.request.url).hostname, allowedHosts)
+  );
+  if (allowed.length === 0) {
+    const hostname = candidates[0] ? new URL(candidates[0].request.url).hostname : '';
     throw new ProxyError(
       'SSRF_BLOCKED',
-      `Host "${url.hostname}" is not allowed`,
+      `Host "${hostname}" is not allowed`,
       403
     );
   }
 
   // ── Circuit Breaker ──
-  if (connectorSlug) {
-    const cb = getCircuit(connectorSlug);
-    if (cb.state === 'OPEN') {
+  if (circuit) {
+    const cb = await getCircuit(circuit.connectorId);
+    const probing = cb.state === 'HALF_OPEN' && (await acquireProbe(circuit.connectorId, circuit.options));
+    if (cb.state === 'OPEN' || (cb.state === 'HALF_OPEN' && !probing)) {
       throw new ProxyError(
         'CIRCUIT_OPEN',
-        `Circuit breaker open for connector "${connectorSlug}". Retry after cooldown.`,
+        `Circuit breaker open for connector "${circuit.slug}". Retry after cooldown.`,
         503
       );
     }
   }
 
+  let lastError: ProxyError | null = null;
+
+  for (let i = 0; i < allowed.length; i++) {
+    const candidate = allowed[i];
+    const isLast = i === allowed.length - 1;
+    const outcome = await attemptUpstream(candidate.request, timeout, retries);
+
+    if (outcome.result) {
+      const { result } = outcome;
+      const failed = result.response.status >= 500;
+      if (circuit) {
+        recordUpstreamResult(circuit.connectorId, candidate.baseUrl, !failed, result.upstreamLatencyMs);
+      }
+
+      if (failed && !isLast) {
+        await result.response.body?.cancel().catch(() => {});
+        continue;
+      }
+
+      if (circuit) {
+        if (failed) {
+          await recordFailure(circuit.connectorId, circuit.options);
+        } else {
+          await recordSuccess(circuit.connectorId);
+        }
+      }
+      return { ...result, upstreamUrl: candidate.baseUrl };
+    }
+
+    if (circuit) recordUpstreamResult(circuit.connectorId, candidate.baseUrl, false, 0);
+    lastError = outcome.error;
+  }
+
+  if (circuit) await recordFailure(circuit.connectorId, circuit.options);
+
+  throw lastError ?? new ProxyError('UPSTREAM_UNAVAILABLE', 'Upstream service unavailable', 503);
+}
+
+type AttemptOutcome =
+  | { result: ProxyResult; error?: undefined }
+  | { result?: undefined; error: ProxyError };
+
+/**
+ * Send a request to a single upstream, retrying network errors with
+ * exponential backoff. Timeouts are not retried.
+ */
+async function attemptUpstream(
+  upstream: UpstreamRequest,
+  timeout: number,
+  retries: number
+): Promise<AttemptOutcome> {
   let lastError: Error | null = null;
   const attempts = 1 + Math.max(0, retries);
 
@@ -114,32 +153,26 @@ export async function proxyToUpstream(
       });
 
       clearTimeout(timeoutId);
-      const upstreamLatencyMs = Date.now() - startMs;
-
-      if (connectorSlug) {
-        if (response.status >= 500) {
-          recordFailure(connectorSlug);
-        } else {
-          recordSuccess(connectorSlug);
-        }
-      }
 
       return {
-        response,
-        upstreamLatencyMs,
-        cached: false,
+        result: {
+          response,
+          upstreamLatencyMs: Date.now() - startMs,
+          cached: false,
+        },
       };
     } catch (err) {
       clearTimeout(timeoutId);
       lastError = err instanceof Error ? err : new Error(String(err));
 
       if (controller.signal.aborted) {
-        if (connectorSlug) recordFailure(connectorSlug);
-        throw new ProxyError(
-          'UPSTREAM_TIMEOUT',
-          `Upstream timed out after ${timeout}ms`,
-          504
-        );
+        return {
+          error: new ProxyError(
+            'UPSTREAM_TIMEOUT',
+            `Upstream timed out after ${timeout}ms`,
+            504
+          ),
+        };
       }
 
       if (attempt < attempts - 1) {
@@ -149,13 +182,13 @@ export async function proxyToUpstream(
     }
   }
 
-  if (connectorSlug) recordFailure(connectorSlug);
-
-  throw new ProxyError(
-    'UPSTREAM_UNAVAILABLE',
-    lastError?.message || 'Upstream service unavailable',
-    503
-  );
+  return {
+    error: new ProxyError(
+      'UPSTREAM_UNAVAILABLE',
+      lastError?.message || 'Upstream service unavailable',
+      503
+    ),
+  };
 }
 
 /**
@@ -0,0 +1,269 @@
+/**
+ * Service Gateway — Token Bucket + Concurrency Limiter
+ *
+ * Token buckets refill continuously at `ratePerMinute` up to `burst`
+ * tokens, so a caller can spend a burst and then settles at the sustained
+ * rate. Concurrency limits cap in-flight requests with leases that expire
+ * on their own if an instance dies before releasing them.
+ *
+ * State is shared across instances through @naap/cache Redis; bounded
+ * in-memory maps are used when Redis is unavailable.
+ */
+
+import { getRedis } from '@naap/cache';
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  /** Bucket capacity (burst). */
+  limit: number;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next token is available (0 when allowed). */
+  retryAfterSeconds: number;
+}
+
+export interface ConcurrencyLease {
+  release(): Promise<void>;
+}
+
+const BUCKET_PREFIX = 'gw:tb';
+const CONCURRENCY_PREFIX = 'gw:cc';
+const MAX_MEMORY_ENTRIES = 1024;
+
+/**
+ * Upper bound on how long a slot is held. Streaming responses normally
+ * release well before this; it only matters when a release is lost.
+ */
+export const CONCURRENCY_LEASE_MS = 5 * 60_000;
+
+interface MemoryBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const memoryBuckets = new Map<string, MemoryBucket>();
+const memoryLeases = new Map<string, Map<string, number>>();
+
+// Returns { allowed, tokens } — tokens as a string because Redis truncates
+// Lua numbers to integers on the way out.
+const CONSUME_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * perMs)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return { allowed, tostring(tokens) }`;
+
+const ACQUIRE_SLOT_SCRIPT = `
+local now = tonumber(ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[2]) then return 0 end
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[3]), ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 1`;
+
+function evictOldest<V>(map: Map<string, V>): void {
+  if (map.size >= MAX_MEMORY_ENTRIES) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) map.delete(oldest);
+  }
+}
+
+function bucketResult(
+  allowed: boolean,
+  tokens: number,
+  burst: number,
+  perMs: number
+): TokenBucketResult {
+  return {
+    allowed,
+    limit: burst,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((burst - tokens) / perMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / perMs / 1000)),
+  };
+}
+
+function consumeMemoryToken(key: string, burst: number, perMs: number, now: number): TokenBucketResult {
+  let bucket = memoryBuckets.get(key);
+  if (!bucket) {
+    evictOldest(memoryBuckets);
+    bucket = { tokens: burst, updatedAt: now };
+    memoryBuckets.set(key, bucket);
+  }
+  bucket.tokens = Math.min(burst, bucket.tokens + Math.max(0, now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+  const allowed = bucket.tokens >= 1;
+  if (allowed) bucket.tokens -= 1;
+  return bucketResult(allowed, bucket.tokens, burst, perMs);
+}
+
+/**
+ * Take one token from the bucket at `key`. The bucket holds at most
+ * `burst` tokens and refills at `ratePerMinute`.
+ */
+export async function consumeToken(
+  key: string,
+  ratePerMinute: number,
+  burst: number
+): Promise<TokenBucketResult> {
+  const now = Date.now();
+  const perMs = ratePerMinute / 60_000;
+  const redis = getRedis();
+  if (redis) {
+    try {
+      const ttlMs = Math.ceil(burst / perMs) + 1000;
+      const [allowed, tokens] = await redis.eval(
+        CONSUME_TOKEN_SCRIPT,
+        1,
+        `${BUCKET_PREFIX}:${key}`,
+        String(burst),
+        String(perMs),
+        String(now),
+        String(ttlMs)
+      ) as [number, string];
+      return bucketResult(allowed === 1, parseFloat(tokens), burst, perMs);
+    } catch {
+      // Redis unavailable — fall through to local buckets
+    }
+  }
+  return consumeMemoryToken(key, burst, perMs, now);
+}
+
+function acquireMemorySlot(key: string, max: number, leaseId: string, leaseMs: number, now: number): boolean {
+  let leases = memoryLeases.get(key);
+  if (!leases) {
+    evictOldest(memoryLeases);
+    leases = new Map();
+    memoryLeases.set(key, leases);
+  }
+  for (const [id, expiresAt] of leases) {
+    if (expiresAt <= now) leases.delete(id);
+  }
+  if (leases.size >= max) return false;
+  leases.set(leaseId, now + leaseMs);
+  return true;
+}
+
+/**
+ * Claim one of `max` in-flight slots at `key`. Returns null when every
+ * slot is taken. Releasing a lease more than once is a no-op.
+ */
+export async function acquireConcurrencySlot(
+  key: string,
+  max: number,
+  leaseMs: number = CONCURRENCY_LEASE_MS
+): Promise<ConcurrencyLease | null> {
+  const now = Date.now();
+  const leaseId = crypto.randomUUID();
+  const redisKey = `${CONCURRENCY_PREFIX}:${key}`;
+  const redis = getRedis();
+
+  let heldIn: typeof redis = null;
+  if (redis) {
+    try {
+      const acquired = await redis.eval(
+        ACQUIRE_SLOT_SCRIPT,
+        1,
+        redisKey,
+        String(now),
+        String(max),
+        String(leaseMs),
+        leaseId
+      ) as number;
+      if (acquired !== 1) return null;
+      heldIn = redis;
+    } catch {
+      // Redis unavailable — fall through to local slots
+    }
+  }
+  if (!heldIn && !acquireMemorySlot(key, max, leaseId, leaseMs, now)) {
+    return null;
+  }
+
+  let released = false;
+  return {
+    async release() {
+      if (released) return;
+      released = true;
+      if (!heldIn) {
+        memoryLeases.get(key)?.delete(leaseId);
+        return;
+      }
+      try {
+        await heldIn.zrem(redisKey, leaseId);
+      } catch {
+        // Lease expires on its own
+      }
+    },
+  };
+}
+
+/**
+ * Combine several leases into one that releases them all.
+ */
+export function combineLeases(leases: ConcurrencyLease[]): ConcurrencyLease {
+  return {
+    async release() {
+      await Promise.all(leases.map((lease) => lease.release()));
+    },
+  };
+}
+
+/**
+ * Hold `lease` until the response body has been fully sent (or the client
+ * disconnects), so streaming responses keep their slot for their lifetime.
+ */
+export function releaseWhenDone(response: Response, lease: ConcurrencyLease): Response {
+  if (!response.body) {
+    void lease.release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          void lease.release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (err) {
+        void lease.release();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      void lease.release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Clear all local bucket and slot state (used in tests).
+ */
+export function clearLocalRateLimitState(): void {
+  memoryBuckets.clear();
+  memoryLeases.clear();
+}
@@ -0,0 +1,173 @@
+/**
+ * Service Gateway — Capture Replay
+ *
+ * Re-sends a captured request through the connector's *current* config:
+ * secret resolution, upstream selection, body/auth transforms, proxy and
+ * response transforms. Caller auth, policy, caching and usage logging are
+ * skipped — replay is an admin debugging action, not consumer traffic —
+ * and replays never trip the circuit breaker.
+ *
+ * Stored requests are redacted, so the admin can supply the body and
+ * headers to restore redacted values for a single replay.
+ */
+
+import { resolveConfigForConnector } from './resolve';
+import { resolveSecrets, ownerScopeOf } from './secrets';
+import { buildUpstreamRequest, prepareUpstreamAuth } from './transform';
+import { proxyToUpstream, ProxyError } from './proxy';
+import { buildResponse } from './respond';
+import { getUpstreamPool, loadUpstreamHealth, orderUpstreams, type LoadBalancingStrategy } from './upstream-pool';
+import { REDACTED, readBodyPrefix, redactBody, redactHeaders } from './capture';
+import type { CaptureReplayInput } from './admin/validation';
+import './transforms';
+
+const MAX_FAILOVER_UPSTREAMS = 3;
+const DROPPED_HEADERS = new Set(['host', 'content-length', 'connection', 'transfer-encoding']);
+
+export interface ReplayableCapture {
+  id: string;
+  connectorId: string;
+  teamId: string;
+  method: string;
+  path: string;
+  query: string;
+  requestHeaders: unknown;
+  requestBody: string | null;
+  requestTruncated: boolean;
+}
+
+export interface ReplayResult {
+  captureId: string;
+  requestId: string;
+  statusCode: number;
+  latencyMs: number;
+  upstreamUrl: string | null;
+  headers: Record<string, string>;
+  body: string | null;
+  truncated: boolean;
+  error: string | null;
+  /** True when redacted values were sent because no override was given. */
+  sentRedactedValues: boolean;
+}
+
+export class ReplayError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'ReplayError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Replay a capture against the upstream of the connector it was recorded
+ * for, with that connector's owner's secrets.
+ */
+export async function replayCapture(
+  capture: ReplayableCapture,
+  connectorSlug: string,
+  overrides: CaptureReplayInput,
+  authToken: string | null
+): Promise<ReplayResult> {
+  const startMs = Date.now();
+  const requestId = crypto.randomUUID();
+
+  const config = await resolveConfigForConnector(capture.connectorId, capture.method, capture.path);
+  if (!config) {
+    throw new ReplayError(
+      `Connector "${connectorSlug}" is not published or no longer routes ${capture.method} ${capture.path}`,
+      409
+    );
+  }
+
+  const body = overrides.body ?? capture.requestBody;
+  if (capture.requestTruncated && overrides.body === undefined) {
+    throw new ReplayError('The captured request body was truncated; provide the full body to replay it', 400);
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries((capture.requestHeaders ?? {}) as Record<string, string>)) {
+    if (!DROPPED_HEADERS.has(name) && value !== REDACTED) headers.set(name, value);
+  }
+  for (const [name, value] of Object.entries(overrides.headers ?? {})) {
+    headers.set(name, value);
+  }
+
+  const sentRedactedValues = (body?.includes(REDACTED) ?? false)
+    || [...headers.values()].some((v) => v.includes(REDACTED));
+
+  const hasBody = capture.method !== 'GET' && capture.method !== 'HEAD';
+  const request = new Request(
+    `https://gateway.replay/api/v1/gw/${connectorSlug}${capture.path}${capture.query}`,
+    { method: capture.method, headers, body: hasBody ? body ?? undefined : undefined }
+  );
+
+  const { connector } = config;
+  const secrets = await resolveSecrets(
+    ownerScopeOf(connector) ?? capture.teamId,
+    connector.secretRefs,
+    authToken,
+    connector.slug
+  );
+
+  const pool = getUpstreamPool(connector);
+  const upstreamHealth = await loadUpstreamHealth(connector.id, pool);
+  const targets = orderUpstreams(
+    connector.id,
+    pool,
+    connector.loadBalancing as LoadBalancingStrategy,
+    upstreamHealth
+  ).slice(0, MAX_FAILOVER_UPSTREAMS);
+
+  const rules = { fields: connector.captureRedactFields, values: Object.values(secrets) };
+  const maxBytes = connector.captureMaxBodyBytes;
+
+  let proxyResult;
+  try {
+    const upstreamSecrets = await prepareUpstreamAuth(connector, secrets);
+    rules.values = Object.values(upstreamSecrets);
+    const candidates = targets.map((target) => ({
+      baseUrl: target.url,
+      request: buildUpstreamRequest(request, config, upstreamSecrets, hasBody ? body : null, capture.path, null, target.url),
+    }));
+
+    proxyResult = await proxyToUpstream(
+      candidates,
+      config.endpoint.timeout || connector.defaultTimeout,
+      config.endpoint.retries,
+      connector.allowedHosts,
+      connector.streamingEnabled
+    );
+  } catch (err) {
+    const proxyError = err instanceof ProxyError ? err : new ProxyError('UPSTREAM_ERROR', String(err), 502);
+    return {
+      captureId: capture.id,
+      requestId,
+      statusCode: proxyError.statusCode,
+      latencyMs: Date.now() - startMs,
+      upstreamUrl: null,
+      headers: {},
+      body: null,
+      truncated: false,
+      error: proxyError.message,
+      sentRedactedValues,
+    };
+  }
+
+  const response = await buildResponse(config, proxyResult, requestId, requestId);
+  const prefix = await readBodyPrefix(response, maxBytes);
+
+  return {
+    captureId: capture.id,
+    requestId,
+    statusCode: response.status,
+    latencyMs: Date.now() - startMs,
+    upstreamUrl: proxyResult.upstreamUrl ?? null,
+    headers: redactHeaders(response.headers, rules),
+    body: prefix.text !== null ? redactBody(prefix.text, rules) : null,
+    truncated: prefix.truncated,
+    error: null,
+    sentRedactedValues,
+  };
+}
@@ -12,7 +12,7 @@
 import { prisma } from '@/lib/db';
 import { cacheGet, cacheSet, cacheDel } from '@naap/cache';
 import { parseScope } from './scope';
-import type { ResolvedConfig, ResolvedConnector, ResolvedEndpoint } from './types';
+import type { ResolvedConfig, ResolvedConnector, ResolvedEndpoint, UpstreamTarget } from './types';
 
 // ── In-Memory Cache ──
 
@@ -118,11 +118,44 @@ export async function resolveConfig(
     connector = await findPublicConnector(slug);
   }
 
-  if (!connector || connector.status !== 'published') {
+  const config = connector ? toResolvedConfig(connector, method, path) : null;
+  if (!config) {
     CONFIG_CACHE.set(cacheKey, { config: null, expiresAt: Date.now() + NEGATIVE_CACHE_TTL_MS });
     return null;
   }
 
+  CONFIG_CACHE.set(cacheKey, { config, expiresAt: Date.now() + CACHE_TTL_MS });
+  cacheSet(cacheKey, config, { prefix: REDIS_PREFIX, ttl: REDIS_CACHE_TTL_S }).catch(() => {});
+  return config;
+}
+
+/**
+ * Resolve config for one connector by id, uncached. For admin actions
+ * (replay) that must run against the connector they were authorized for,
+ * not whichever connector a slug resolves to.
+ */
+export async function resolveConfigForConnector(
+  connectorId: string,
+  method: string,
+  path: string
+): Promise<ResolvedConfig | null> {
+  const connector = await prisma.serviceConnector.findUnique({
+    where: { id: connectorId },
+    include: { endpoints: true },
+  });
+  return connector ? toResolvedConfig(connector, method, path) : null;
+}
+
+type ConnectorWithEndpoints = NonNullable<Awaited<ReturnType<typeof findPublicConnector>>>;
+
+/** Pick the endpoint a published connector routes `method path` to. */
+function toResolvedConfig(
+  connector: ConnectorWithEndpoints,
+  method: string,
+  path: string
+): ResolvedConfig | null {
+  if (connector.status !== 'published') return null;
+
   const normalizedPath = path.startsWith('/') ? path : `/${path}`;
   const matchingEndpoints = connector.endpoints
     .filter(
@@ -134,10 +167,7 @@ export async function resolveConfig(
     .sort((a, b) => pathSpecificity(b.path) - pathSpecificity(a.path));
   const endpoint = matchingEndpoints[0];
 
-  if (!endpoint) {
-    CONFIG_CACHE.set(cacheKey, { config: null, expiresAt: Date.now() + NEGATIVE_CACHE_TTL_MS });
-    return null;
-  }
+  if (!endpoint) return null;
 
   const resolvedConnector: ResolvedConnector = {
     id: connector.id,
@@ -148,15 +178,24 @@ export async function resolveConfig(
     status: connector.status,
     visibility: connector.visibility,
     upstreamBaseUrl: connector.upstreamBaseUrl,
+    upstreams: (connector.upstreams ?? []) as unknown as UpstreamTarget[],
+    loadBalancing: connector.loadBalancing,
     allowedHosts: connector.allowedHosts,
     defaultTimeout: connector.defaultTimeout,
     healthCheckPath: connector.healthCheckPath,
+    circuitFailureThreshold: connector.circuitFailureThreshold,
+    circuitOpenDurationMs: connector.circuitOpenDurationMs,
     authType: connector.authType,
     authConfig: connector.authConfig as Record<string, unknown>,
     secretRefs: connector.secretRefs,
     responseWrapper: connector.responseWrapper,
     streamingEnabled: connector.streamingEnabled,
     errorMapping: connector.errorMapping as Record<string, string>,
+    captureEnabled: connector.captureEnabled,
+    captureSampleRate: connector.captureSampleRate,
+    captureMaxBodyBytes: connector.captureMaxBodyBytes,
+    captureRetentionDays: connector.captureRetentionDays,
+    captureRedactFields: connector.captureRedactFields,
   };
 
   const resolvedEndpoint: ResolvedEndpoint = {
@@ -175,6 +214,8 @@ export async function resolveConfig(
     responseBodyTransform: endpoint.responseBodyTransform,
     headerMapping: endpoint.headerMapping as Record<string, string>,
     rateLimit: endpoint.rateLimit,
+    burstLimit: endpoint.burstLimit,
+    maxConcurrent: endpoint.maxConcurrent,
     timeout: endpoint.timeout,
     maxRequestSize: endpoint.maxRequestSize,
     maxResponseSize: endpoint.maxResponseSize,
@@ -186,14 +227,10 @@ export async function resolveConfig(
     requiredHeaders: endpoint.requiredHeaders,
   };
 
-  const config: ResolvedConfig = {
+  return {
     connector: resolvedConnector,
     endpoint: resolvedEndpoint,
   };
-
-  CONFIG_CACHE.set(cacheKey, { config, expiresAt: Date.now() + CACHE_TTL_MS });
-  cacheSet(cacheKey, config, { prefix: REDIS_PREFIX, ttl: REDIS_CACHE_TTL_S }).catch(() => {});
-  return config;
 }
 
 /**
@@ -46,8 +46,8 @@ export async function buildResponse(
  * the upstream response content type, and any endpoint-level response
  * body transform.
  */
-function resolveResponseMode(
-  connector: ResolvedConfig['connector'],
+export function resolveResponseMode(
+  connector: Pick<ResolvedConfig['connector'], 'streamingEnabled' | 'responseWrapper'>,
   responseContentType: string,
   responseBodyTransform: string,
 ): string {
@@ -57,6 +57,9 @@ function resolveResponseMode(
   if (responseBodyTransform.startsWith('field-map')) {
     return 'field-map';
   }
+  if (responseBodyTransform.startsWith('jmespath:')) {
+    return 'jmespath';
+  }
   if (connector.responseWrapper) {
     return 'envelope';
   }
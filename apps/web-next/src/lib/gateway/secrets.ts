@@ -7,12 +7,33 @@
  */
 
 import { prisma } from '@/lib/db';
-import { encrypt, decrypt } from './encryption';
-import type { ResolvedSecrets } from './types';
+import { rotateVaultSecret } from '@/lib/secret-vault';
+import { encrypt, decrypt, encryptionKeyId } from './encryption';
+import type { ResolvedConnector, ResolvedSecrets } from './types';
 
 const SECRET_CACHE = new Map<string, { value: string; expiresAt: number }>();
 const SECRET_CACHE_TTL_MS = 300_000; // 5 minutes
 
+/** Scope of the team or user that owns a connector, or null when it has neither. */
+export function ownerScopeOf(connector: Pick<ResolvedConnector, 'ownerUserId' | 'teamId'>): string | null {
+  if (connector.ownerUserId) return `personal:${connector.ownerUserId}`;
+  return connector.teamId ?? null;
+}
+
+/**
+ * Scope that holds a connector's upstream secrets. Public connectors use
+ * the owner's scope (the admin who configured the key), not the caller's.
+ */
+export function secretScopeFor(
+  connector: Pick<ResolvedConnector, 'visibility' | 'ownerUserId' | 'teamId'>,
+  callerScopeId: string
+): string {
+  if (connector.visibility === 'public') {
+    return ownerScopeOf(connector) ?? callerScopeId;
+  }
+  return callerScopeId;
+}
+
 /**
  * Resolve all secrets referenced by a connector.
  *
@@ -43,13 +64,17 @@ export async function resolveSecrets(
       try {
         const record = await prisma.secretVault.findUnique({
           where: { key },
-          select: { encryptedValue: true, iv: true },
+          select: { encryptedValue: true, iv: true, currentVersion: true },
         });
 
         if (record && record.encryptedValue && record.iv) {
           const value = decrypt(record.encryptedValue, record.iv);
           secrets[ref] = value;
           SECRET_CACHE.set(key, { value, expiresAt: Date.now() + SECRET_CACHE_TTL_MS });
+          // Read audit (one row per vault read; cache hits are not re-logged)
+          prisma.secretAccessLog
+            .create({ data: { secretKey: key, version: record.currentVersion, accessor: `connector:${connectorSlug}` } })
+            .catch((err: unknown) => console.warn(`[gateway] Failed to record access to secret "${ref}":`, err));
         } else {
           secrets[ref] = '';
         }
@@ -65,7 +90,8 @@ export async function resolveSecrets(
 }
 
 /**
- * Store a secret in SecretVault.
+ * Store a secret in SecretVault. An existing secret is rotated to a new
+ * version.
  */
 export async function storeSecret(
   teamId: string,
@@ -77,18 +103,13 @@ export async function storeSecret(
   const key = `gw:${teamId}:${connectorSlug}:${name}`;
 
   try {
-    const { encryptedValue, iv } = encrypt(value);
-    await prisma.secretVault.upsert({
-      where: { key },
-      update: { encryptedValue, iv, updatedAt: new Date() },
-      create: {
-        key,
-        encryptedValue,
-        iv,
-        scope: teamId,
-        createdBy: 'system',
-      },
-    });
+    const sealed = { ...encrypt(value), keyId: encryptionKeyId() };
+    const rotated = await rotateVaultSecret(key, sealed, 'system');
+    if (!rotated) {
+      await prisma.secretVault.create({
+        data: { key, ...sealed, scope: teamId, createdBy: 'system' },
+      });
+    }
     SECRET_CACHE.delete(key);
     return true;
   } catch (err) {
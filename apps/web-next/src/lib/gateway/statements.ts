@@ -0,0 +1,356 @@
+/**
+ * Service Gateway — Usage Statements
+ *
+ * Turns GatewayUsageRecord rows into monthly billable statements for a
+ * scope (team or personal), optionally narrowed to one API key. Each
+ * connector's ConnectorPricing is applied per endpoint line item:
+ *
+ *   - Only requests the upstream served are billed (status < 500).
+ *   - Feature pricing applies when an endpoint name matches a feature.
+ *   - Otherwise the volume tier reached by the connector's monthly total
+ *     prices every unit.
+ *   - The connector's free quota is consumed by the most expensive lines
+ *     first, and only by lines metered in the connector's own unit.
+ *
+ * Statements are computed on demand and can be pushed to the team's bound
+ * billing provider through the BillingProviderAdapter seam.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+import { getBillingProviderAdapter } from '@/lib/billing/registry';
+import {
+  AdapterNotImplementedError,
+  type UsageStatementPushResult,
+} from '@/lib/billing/adapter';
+import type { BillingAccountRef } from '@/lib/teams/billing-account-ref';
+import { resolveUnitPrice, type ConnectorPricingData } from './pricing';
+
+export type PriceSource = 'base' | 'tier' | 'feature' | 'free';
+
+export interface StatementLineItem {
+  connectorId: string;
+  connectorSlug: string;
+  connectorName: string;
+  endpointName: string;
+  requests: number;
+  unit: string;
+  units: number;
+  freeUnits: number;
+  billableUnits: number;
+  unitPrice: number;
+  amount: number;
+  currency: string;
+  priceSource: PriceSource;
+}
+
+export interface UsageStatement {
+  /** Stable for a scope, API key and month. */
+  id: string;
+  scopeId: string;
+  apiKeyId: string | null;
+  period: {
+    month: string;
+    /** Inclusive start, ISO-8601. */
+    start: string;
+    /** Exclusive end, ISO-8601. */
+    end: string;
+  };
+  generatedAt: string;
+  lineItems: StatementLineItem[];
+  totals: Array<{ currency: string; amount: number }>;
+  warnings: string[];
+}
+
+/** Aggregated usage for one connector endpoint within the period. */
+export interface EndpointUsage {
+  connectorId: string;
+  endpointName: string;
+  requests: number;
+  bytes: number;
+}
+
+export interface StatementConnector {
+  id: string;
+  slug: string;
+  displayName: string;
+  pricing: ConnectorPricingData | null;
+}
+
+export class StatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementError';
+  }
+}
+
+const MONTH_RE = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const REQUEST_UNITS = new Set(['request', 'requests', 'call', 'calls']);
+const BYTE_UNITS: Record<string, number> = {
+  byte: 1,
+  bytes: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse a `YYYY-MM` month into its UTC bounds. Defaults to the current month.
+ */
+export function parseStatementMonth(month?: string | null): UsageStatement['period'] {
+  const now = new Date();
+  const value = month || `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+  const match = MONTH_RE.exec(value);
+  if (!match) {
+    throw new StatementError('month must be formatted as YYYY-MM');
+  }
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  return {
+    month: value,
+    start: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)).toISOString(),
+  };
+}
+
+function statementId(scopeId: string, apiKeyId: string | null, month: string): string {
+  const digest = createHash('sha256').update(`${scopeId}|${apiKeyId ?? ''}|${month}`).digest('hex');
+  return `stmt_${digest.slice(0, 24)}`;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Convert request/byte counts into the pricing unit, or null when the
+ * unit is not something the gateway meters.
+ */
+function meteredUnits(unit: string, requests: number, bytes: number): number | null {
+  const key = unit.trim().toLowerCase();
+  if (REQUEST_UNITS.has(key)) return requests;
+  const factor = BYTE_UNITS[key];
+  if (factor) return Math.round((bytes / factor) * 1e6) / 1e6;
+  return null;
+}
+
+/**
+ * Build a statement from aggregated usage. Pure — the DB-backed
+ * {@link generateUsageStatement} supplies the inputs.
+ */
+export function buildUsageStatement(input: {
+  scopeId: string;
+  apiKeyId?: string | null;
+  period: UsageStatement['period'];
+  usage: EndpointUsage[];
+  connectors: StatementConnector[];
+  generatedAt?: Date;
+}): UsageStatement {
+  const apiKeyId = input.apiKeyId ?? null;
+  const connectors = new Map(input.connectors.map((c) => [c.id, c]));
+  const warnings: string[] = [];
+  const lineItems: StatementLineItem[] = [];
+
+  const byConnector = new Map<string, EndpointUsage[]>();
+  for (const row of input.usage) {
+    const rows = byConnector.get(row.connectorId) ?? [];
+    rows.push(row);
+    byConnector.set(row.connectorId, rows);
+  }
+
+  for (const [connectorId, rows] of byConnector) {
+    const connector = connectors.get(connectorId);
+    const pricing = connector?.pricing ?? null;
+    const isFree = !pricing || pricing.billingModel === 'free';
+    const currency = pricing?.currency ?? 'USD';
+
+    const lines = rows
+      .sort((a, b) => a.endpointName.localeCompare(b.endpointName))
+      .map((row) => {
+        const endpointPrice = pricing ? resolveUnitPrice(pricing, 0, row.endpointName) : null;
+        const unit = endpointPrice?.unit ?? 'request';
+        const units = meteredUnits(unit, row.requests, row.bytes);
+        if (units === null) {
+          warnings.push(
+            `${connector?.slug ?? connectorId}/${row.endpointName}: unit "${unit}" is not metered by the gateway; billed per request`
+          );
+          return { row, unit: 'request', units: row.requests, endpointPrice };
+        }
+        return { row, unit, units, endpointPrice };
+      });
+
+    // The volume tier is chosen by the connector's total base-priced units.
+    const baseUnits = lines
+      .filter((l) => !l.endpointPrice?.feature)
+      .reduce((sum, l) => sum + l.units, 0);
+    const basePrice = pricing ? resolveUnitPrice(pricing, baseUnits) : null;
+
+    const priced = lines.map((l) => {
+      const price = l.endpointPrice?.feature ? l.endpointPrice : basePrice;
+      const unitPrice = isFree ? 0 : price?.costPerUnit ?? 0;
+      const priceSource: PriceSource = isFree
+        ? 'free'
+        : price?.feature ? 'feature' : price?.appliedTier ? 'tier' : 'base';
+      return { ...l, unitPrice, priceSource };
+    });
+
+    let freeRemaining = pricing?.freeQuota ?? 0;
+    const freeUnits = new Map<EndpointUsage, number>();
+    for (const l of [...priced].sort((a, b) => b.unitPrice - a.unitPrice)) {
+      if (freeRemaining <= 0) break;
+      if (!pricing || l.unit !== pricing.unit) continue;
+      const used = Math.min(freeRemaining, l.units);
+      freeUnits.set(l.row, used);
+      freeRemaining -= used;
+    }
+
+    for (const l of priced) {
+      const free = freeUnits.get(l.row) ?? 0;
+      const billableUnits = l.units - free;
+      lineItems.push({
+        connectorId,
+        connectorSlug: connector?.slug ?? connectorId,
+        connectorName: connector?.displayName ?? 'Deleted connector',
+        endpointName: l.row.endpointName,
+        requests: l.row.requests,
+        unit: l.unit,
+        units: l.units,
+        freeUnits: free,
+        billableUnits,
+        unitPrice: l.unitPrice,
+        amount: roundMoney(billableUnits * l.unitPrice),
+        currency,
+        priceSource: l.priceSource,
+      });
+    }
+  }
+
+  lineItems.sort((a, b) =>
+    a.connectorSlug.localeCompare(b.connectorSlug) || a.endpointName.localeCompare(b.endpointName)
+  );
+
+  const totalsByCurrency = new Map<string, number>();
+  for (const item of lineItems) {
+    totalsByCurrency.set(item.currency, roundMoney((totalsByCurrency.get(item.currency) ?? 0) + item.amount));
+  }
+
+  return {
+    id: statementId(input.scopeId, apiKeyId, input.period.month),
+    scopeId: input.scopeId,
+    apiKeyId,
+    period: input.period,
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    lineItems,
+    totals: [...totalsByCurrency]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, amount]) => ({ currency, amount })),
+    warnings,
+  };
+}
+
+/**
+ * Generate a monthly statement for a scope from stored usage records.
+ */
+export async function generateUsageStatement(
+  scopeId: string,
+  month?: string | null,
+  apiKeyId?: string | null
+): Promise<UsageStatement> {
+  const period = parseStatementMonth(month);
+
+  const rows = await prisma.gatewayUsageRecord.groupBy({
+    by: ['connectorId', 'endpointName'],
+    where: {
+      teamId: scopeId,
+      timestamp: { gte: new Date(period.start), lt: new Date(period.end) },
+      statusCode: { lt: 500 },
+      ...(apiKeyId ? { apiKeyId } : {}),
+    },
+    _count: true,
+    _sum: { requestBytes: true, responseBytes: true },
+  });
+
+  const connectorIds = [...new Set(rows.map((r) => r.connectorId))];
+  const connectors = connectorIds.length > 0
+    ? await prisma.serviceConnector.findMany({
+        where: { id: { in: connectorIds } },
+        select: { id: true, slug: true, displayName: true, pricing: true },
+      })
+    : [];
+
+  return buildUsageStatement({
+    scopeId,
+    apiKeyId,
+    period,
+    usage: rows.map((r) => ({
+      connectorId: r.connectorId,
+      endpointName: r.endpointName,
+      requests: r._count,
+      bytes: (r._sum.requestBytes ?? 0) + (r._sum.responseBytes ?? 0),
+    })),
+    connectors,
+  });
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a statement as CSV: one row per line item, then one total row
+ * per currency.
+ */
+export function statementToCsv(statement: UsageStatement): string {
+  const header = [
+    'Connector', 'Endpoint', 'Requests', 'Unit', 'Units', 'Free Units',
+    'Billable Units', 'Unit Price', 'Amount', 'Currency', 'Price Source',
+  ];
+  const rows = statement.lineItems.map((item) => [
+    item.connectorSlug, item.endpointName, item.requests, item.unit, item.units, item.freeUnits,
+    item.billableUnits, item.unitPrice, item.amount.toFixed(2), item.currency, item.priceSource,
+  ]);
+  const totals = statement.totals.map((t) => [
+    'Total', '', '', '', '', '', '', '', t.amount.toFixed(2), t.currency, '',
+  ]);
+  return [header, ...rows, ...totals].map((row) => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Push a statement's totals to the billing provider bound to the team —
+ * one push per currency.
+ */
+export async function pushUsageStatement(
+  statement: UsageStatement,
+  ref: BillingAccountRef
+): Promise<Array<{ currency: string } & UsageStatementPushResult>> {
+  const adapter = getBillingProviderAdapter(ref.providerSlug);
+  if (!adapter) {
+    throw new StatementError(`No billing provider adapter registered for "${ref.providerSlug}"`);
+  }
+  if (!adapter.pushUsageStatement) {
+    throw new AdapterNotImplementedError(adapter.slug, 'pushUsageStatement');
+  }
+
+  const results: Array<{ currency: string } & UsageStatementPushResult> = [];
+  for (const total of statement.totals) {
+    const result = await adapter.pushUsageStatement({
+      accountId: ref.accountId,
+      statementId: `${statement.id}:${total.currency}`,
+      periodStart: statement.period.start,
+      periodEnd: statement.period.end,
+      currency: total.currency,
+      amount: total.amount.toFixed(2),
+      lineItems: statement.lineItems
+        .filter((item) => item.currency === total.currency)
+        .map((item) => ({
+          description: `${item.connectorSlug} ${item.endpointName}`,
+          quantity: item.billableUnits,
+          unit: item.unit,
+          amount: item.amount.toFixed(2),
+        })),
+    });
+    results.push({ currency: total.currency, ...result });
+  }
+  return results;
+}
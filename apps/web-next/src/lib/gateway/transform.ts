@@ -12,9 +12,50 @@ import type {
 } from './types';
 import { registry } from './transforms';
 import { interpolateSecrets } from './transforms/types';
+import { ProxyError } from './proxy';
+
+/**
+ * Obtain network-fetched upstream credentials (OAuth2 tokens, exchanged
+ * JWT assertions) for the connector's auth strategy and return the secrets
+ * to build upstream requests with. Strategies without a `prepare` step get
+ * `secrets` back unchanged.
+ *
+ * @throws ProxyError (502) when credentials cannot be obtained
+ */
+export async function prepareUpstreamAuth(
+  connector: ResolvedConfig['connector'],
+  secrets: ResolvedSecrets
+): Promise<ResolvedSecrets> {
+  const strategy = registry.getAuth(connector.authType);
+  if (!strategy.prepare) return secrets;
+
+  try {
+    const extra = await strategy.prepare({
+      authConfig: connector.authConfig,
+      secrets,
+      connectorId: connector.id,
+      connectorSlug: connector.slug,
+      upstreamBaseUrl: connector.upstreamBaseUrl,
+    });
+    return { ...secrets, ...extra };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ProxyError('UPSTREAM_AUTH_FAILED', `Could not obtain upstream credentials: ${message}`, 502);
+  }
+}
+
+/**
+ * Drop the connector's cached upstream credentials, so the next request
+ * fetches fresh ones. Called when the upstream answers 401.
+ */
+export function invalidateUpstreamAuth(connector: ResolvedConfig['connector']): void {
+  registry.getAuth(connector.authType).invalidate?.(connector.id);
+}
 
 /**
  * Build the upstream request from the consumer request and resolved config.
+ * `upstreamBaseUrl` selects a pool member; it defaults to the connector's
+ * primary upstream.
  */
 export function buildUpstreamRequest(
   request: Request,
@@ -23,12 +64,13 @@ export function buildUpstreamRequest(
   consumerBody: string | null,
   consumerPath: string,
   consumerBodyRaw?: ArrayBuffer | null,
+  upstreamBaseUrl: string = config.connector.upstreamBaseUrl,
 ): UpstreamRequest {
   const { connector, endpoint } = config;
 
   // ── URL ──
   const consumerUrl = new URL(request.url);
-  const upstreamUrl = buildUpstreamUrl(connector.upstreamBaseUrl, endpoint, consumerPath, consumerUrl.searchParams);
+  const upstreamUrl = buildUpstreamUrl(upstreamBaseUrl, endpoint, consumerPath, consumerUrl.searchParams);
   const url = new URL(upstreamUrl);
 
   // ── Method ──
@@ -0,0 +1,34 @@
+import type { AuthStrategy, AuthContext } from '../types';
+import { signHmacRequest, type HmacAlgorithm } from '../../hmac-signature';
+
+export const hmacAuth: AuthStrategy = {
+  name: 'hmac',
+  inject(ctx: AuthContext): void {
+    const config = ctx.authConfig;
+    const secretRef = (config.secretRef as string) || 'hmac_secret';
+    const secret = ctx.secrets[secretRef] || '';
+    if (!secret) {
+      console.warn(`[gateway] auth: secret "${secretRef}" not resolved for connector "${ctx.connectorSlug}"`);
+      ctx.headers.set('X-Gateway-Warning', 'missing-auth-secret');
+      return;
+    }
+
+    const keyIdRef = config.keyIdRef as string | undefined;
+    signHmacRequest({
+      method: ctx.method,
+      url: ctx.url,
+      headers: ctx.headers,
+      body: ctx.body instanceof ArrayBuffer ? ctx.body : typeof ctx.body === 'string' ? ctx.body : null,
+      secret,
+      keyId: keyIdRef ? ctx.secrets[keyIdRef] : undefined,
+      algorithm: (config.algorithm as HmacAlgorithm) || 'sha256',
+      canonicalTemplate: (config.canonicalTemplate as string) || undefined,
+      encoding: (config.encoding as 'hex' | 'base64') || 'hex',
+      signatureHeader: (config.signatureHeader as string) || undefined,
+      signatureTemplate: (config.signatureTemplate as string) || undefined,
+      timestampHeader: (config.timestampHeader as string) ?? undefined,
+      timestampFormat: (config.timestampFormat as 'unix' | 'unix-ms' | 'iso') || 'unix',
+      nonceHeader: (config.nonceHeader as string) || undefined,
+    });
+  },
+};
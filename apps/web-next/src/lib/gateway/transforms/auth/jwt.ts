@@ -0,0 +1,90 @@
+import type { AuthStrategy, AuthContext, AuthPrepareContext } from '../types';
+import { UPSTREAM_ACCESS_TOKEN } from '../types';
+import {
+  DEFAULT_JWT_LIFETIME_S,
+  parseServiceAccountKey,
+  signJwtAssertion,
+  type JwtAlgorithm,
+} from '../../jwt-assertion';
+import {
+  getUpstreamToken,
+  invalidateUpstreamTokens,
+  requestUpstreamToken,
+  tokenCacheKey,
+} from '../../upstream-token';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const JWT_BEARER_GRANT = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+
+/**
+ * Signed JWT bearer assertion, e.g. a GCP service account.
+ *
+ * With `scope` or `tokenUrl` configured the assertion is exchanged for an
+ * access token (RFC 7523); otherwise the self-signed JWT itself is sent as
+ * the bearer token, with `audience` defaulting to the upstream origin.
+ * Either way the result is cached per connector until near expiry.
+ */
+export const jwtAuth: AuthStrategy = {
+  name: 'jwt',
+
+  async prepare(ctx: AuthPrepareContext) {
+    const config = ctx.authConfig;
+    const serviceAccountRef = config.serviceAccountRef as string | undefined;
+    const account = serviceAccountRef
+      ? parseServiceAccountKey(ctx.secrets[serviceAccountRef] || '')
+      : null;
+
+    const issuer = account?.clientEmail
+      ?? ctx.secrets[(config.issuerRef as string) || 'jwt_issuer'];
+    const key = account?.privateKey
+      ?? ctx.secrets[(config.privateKeyRef as string) || 'jwt_private_key'];
+    if (!issuer || !key) {
+      throw new Error('JWT issuer and signing key must be set (or a service account key)');
+    }
+
+    const algorithm = (config.algorithm as JwtAlgorithm) || 'RS256';
+    const scope = config.scope as string | undefined;
+    const subject = config.subject as string | undefined;
+    const exchange = Boolean(scope || config.tokenUrl);
+    const tokenUrl = (config.tokenUrl as string) || account?.tokenUri || GOOGLE_TOKEN_URL;
+    const audience = (config.audience as string)
+      || (exchange ? tokenUrl : new URL(ctx.upstreamBaseUrl).origin + '/');
+    const lifetimeSeconds = Number(config.lifetimeSeconds) || DEFAULT_JWT_LIFETIME_S;
+
+    const cacheKey = tokenCacheKey(ctx.connectorId, [issuer, key, algorithm, audience, scope, subject, exchange && tokenUrl]);
+    const token = await getUpstreamToken(cacheKey, async () => {
+      const now = new Date();
+      const assertion = signJwtAssertion({
+        issuer,
+        subject,
+        audience,
+        scope,
+        key,
+        keyId: account?.privateKeyId,
+        algorithm,
+        lifetimeSeconds,
+        now,
+      });
+      if (!exchange) {
+        return { accessToken: assertion, expiresAt: now.getTime() + lifetimeSeconds * 1000 };
+      }
+      return requestUpstreamToken(tokenUrl, { grant_type: JWT_BEARER_GRANT, assertion });
+    });
+
+    return { [UPSTREAM_ACCESS_TOKEN]: token.accessToken };
+  },
+
+  inject(ctx: AuthContext): void {
+    const token = ctx.secrets[UPSTREAM_ACCESS_TOKEN];
+    if (token) {
+      ctx.headers.set('Authorization', `Bearer ${token}`);
+    } else {
+      console.warn(`[gateway] auth: no JWT assertion for connector "${ctx.connectorSlug}"`);
+      ctx.headers.set('X-Gateway-Warning', 'missing-auth-secret');
+    }
+  },
+
+  invalidate(connectorId: string): void {
+    invalidateUpstreamTokens(connectorId);
+  },
+};
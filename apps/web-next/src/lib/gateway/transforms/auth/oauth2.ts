@@ -0,0 +1,76 @@
+import type { AuthStrategy, AuthContext, AuthPrepareContext } from '../types';
+import { UPSTREAM_ACCESS_TOKEN } from '../types';
+import {
+  getUpstreamToken,
+  invalidateUpstreamTokens,
+  requestUpstreamToken,
+  tokenCacheKey,
+} from '../../upstream-token';
+
+/**
+ * OAuth2 client credentials (RFC 6749 §4.4). The token is fetched in
+ * `prepare`, cached per connector until shortly before it expires, and
+ * refreshed with the refresh grant when the endpoint issues one.
+ */
+export const oauth2Auth: AuthStrategy = {
+  name: 'oauth2',
+
+  async prepare(ctx: AuthPrepareContext) {
+    const config = ctx.authConfig;
+    const tokenUrl = config.tokenUrl as string | undefined;
+    if (!tokenUrl) throw new Error('OAuth2 token URL is not configured');
+
+    const clientIdRef = (config.clientIdRef as string) || 'client_id';
+    const clientSecretRef = (config.clientSecretRef as string) || 'client_secret';
+    const clientId = ctx.secrets[clientIdRef];
+    const clientSecret = ctx.secrets[clientSecretRef];
+    if (!clientId || !clientSecret) {
+      throw new Error(`Secrets "${clientIdRef}" and "${clientSecretRef}" must be set`);
+    }
+
+    const scope = config.scope as string | undefined;
+    const audience = config.audience as string | undefined;
+    const useBasic = config.clientAuthMethod !== 'client_secret_post';
+    const extraParams = (config.extraParams as Record<string, string>) || {};
+
+    const key = tokenCacheKey(ctx.connectorId, [tokenUrl, clientId, clientSecret, scope, audience, extraParams]);
+    const token = await getUpstreamToken(key, async (refreshToken) => {
+      const params: Record<string, string> = refreshToken
+        ? { grant_type: 'refresh_token', refresh_token: refreshToken }
+        : {
+            grant_type: 'client_credentials',
+            ...(scope ? { scope } : {}),
+            ...(audience ? { audience } : {}),
+            ...extraParams,
+          };
+      const headers: Record<string, string> = {};
+      if (useBasic) {
+        const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      } else {
+        params.client_id = clientId;
+        params.client_secret = clientSecret;
+      }
+
+      const issued = await requestUpstreamToken(tokenUrl, params, headers);
+      // A refresh response may omit the refresh token, which stays valid
+      return refreshToken && !issued.refreshToken ? { ...issued, refreshToken } : issued;
+    });
+
+    return { [UPSTREAM_ACCESS_TOKEN]: token.accessToken };
+  },
+
+  inject(ctx: AuthContext): void {
+    const token = ctx.secrets[UPSTREAM_ACCESS_TOKEN];
+    if (token) {
+      ctx.headers.set('Authorization', `Bearer ${token}`);
+    } else {
+      console.warn(`[gateway] auth: no OAuth2 access token for connector "${ctx.connectorSlug}"`);
+      ctx.headers.set('X-Gateway-Warning', 'missing-auth-secret');
+    }
+  },
+
+  invalidate(connectorId: string): void {
+    invalidateUpstreamTokens(connectorId);
+  },
+};
@@ -0,0 +1,28 @@
+import type { BodyTransformStrategy, BodyTransformContext } from '../types';
+import { evaluateExpression, parseExpressionTransform } from '../expression';
+
+/**
+ * Reshapes the consumer's JSON body with a JMESPath expression stored in
+ * the endpoint's bodyTransform value.
+ *
+ * Format: "jmespath:<expression>"
+ * Example: "jmespath:{model: model, input: messages[?role=='user'].content}"
+ *
+ * Falls back to passthrough if the body is not JSON or evaluation fails.
+ */
+export const jmespathTransform: BodyTransformStrategy = {
+  name: 'jmespath',
+  transform(ctx: BodyTransformContext): BodyInit | undefined {
+    const expression = parseExpressionTransform(ctx.bodyTransform);
+    if (!ctx.consumerBody || !expression) {
+      return ctx.consumerBody || undefined;
+    }
+    try {
+      const body = JSON.parse(ctx.consumerBody);
+      return JSON.stringify(evaluateExpression(expression, body));
+    } catch (err) {
+      console.warn('[gateway] jmespath transform failed, passing through:', err);
+      return ctx.consumerBody;
+    }
+  },
+};
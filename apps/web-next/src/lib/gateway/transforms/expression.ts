@@ -0,0 +1,848 @@
+/**
+ * Service Gateway — Expression Evaluator
+ *
+ * A self-contained JMESPath evaluator used by the `jmespath:` body and
+ * response transforms to reshape nested and array payloads.
+ *
+ * The evaluator is sandboxed by construction: expressions are parsed into
+ * an AST and interpreted over plain JSON values. There is no `eval`, no
+ * access to JavaScript globals, and field lookups only see own properties
+ * (so `__proto__` / `constructor` resolve to null). Expression length,
+ * nesting depth, evaluation steps and the size of built values are all
+ * bounded so a stored expression cannot stall the gateway or exhaust its
+ * memory (e.g. `[@,@]` repeated doubles the result on every stage).
+ *
+ * Supported: identifiers, sub-expressions, index/slice, list and object
+ * projections, flatten, filters, multi-select list/hash, pipes, literals,
+ * comparisons, `&&` / `||` / `!`, `@` and the JMESPath built-in functions.
+ */
+
+export const MAX_EXPRESSION_LENGTH = 4096;
+const MAX_NESTING_DEPTH = 64;
+const MAX_EVALUATION_STEPS = 100_000;
+/** Serialized size (in characters) values may grow to beyond 4× the input */
+const MAX_RESULT_SIZE = 4_000_000;
+
+export class ExpressionError extends Error {
+  position: number | null;
+
+  constructor(message: string, position: number | null = null) {
+    super(position === null ? message : `${message} (at position ${position})`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type JsonValue = unknown;
+
+// ── Lexer ──
+
+type TokenType =
+  | 'Identifier' | 'QuotedIdentifier' | 'Number' | 'Literal' | 'RawString'
+  | 'Dot' | 'Star' | 'Comma' | 'Colon' | 'Lbrace' | 'Rbrace' | 'Lbracket'
+  | 'Rbracket' | 'Lparen' | 'Rparen' | 'Current' | 'Expref' | 'Pipe' | 'Or'
+  | 'And' | 'Not' | 'Filter' | 'Flatten' | 'EQ' | 'NE' | 'LT' | 'LTE' | 'GT'
+  | 'GTE' | 'EOF';
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  start: number;
+}
+
+const SINGLE_CHAR_TOKENS: Record<string, TokenType> = {
+  '.': 'Dot', '*': 'Star', ',': 'Comma', ':': 'Colon', '{': 'Lbrace',
+  '}': 'Rbrace', ']': 'Rbracket', '(': 'Lparen', ')': 'Rparen', '@': 'Current',
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readDelimited = (quote: string): string => {
+    const start = i;
+    i++;
+    while (i < source.length && source[i] !== quote) {
+      i += source[i] === '\\' ? 2 : 1;
+    }
+    if (i >= source.length) throw new ExpressionError(`Unterminated ${quote} string`, start);
+    i++;
+    return source.slice(start + 1, i - 1);
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      while (i < source.length && /\w/.test(source[i])) i++;
+      tokens.push({ type: 'Identifier', value: source.slice(start, i), start });
+    } else if (SINGLE_CHAR_TOKENS[ch]) {
+      tokens.push({ type: SINGLE_CHAR_TOKENS[ch], start });
+      i++;
+    } else if (/[-0-9]/.test(ch)) {
+      i++;
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      const text = source.slice(start, i);
+      if (text === '-') throw new ExpressionError('Expected digits after "-"', start);
+      tokens.push({ type: 'Number', value: parseInt(text, 10), start });
+    } else if (ch === '[') {
+      if (source[i + 1] === '?') {
+        tokens.push({ type: 'Filter', start });
+        i += 2;
+      } else if (source[i + 1] === ']') {
+        tokens.push({ type: 'Flatten', start });
+        i += 2;
+      } else {
+        tokens.push({ type: 'Lbracket', start });
+        i++;
+      }
+    } else if (ch === '"') {
+      const raw = readDelimited('"');
+      try {
+        tokens.push({ type: 'QuotedIdentifier', value: JSON.parse(`"${raw}"`), start });
+      } catch {
+        throw new ExpressionError('Invalid quoted identifier', start);
+      }
+    } else if (ch === "'") {
+      const raw = readDelimited("'");
+      tokens.push({ type: 'RawString', value: raw.replace(/\\'/g, "'"), start });
+    } else if (ch === '`') {
+      const raw = readDelimited('`').replace(/\\`/g, '`');
+      try {
+        tokens.push({ type: 'Literal', value: JSON.parse(raw), start });
+      } catch {
+        throw new ExpressionError('Invalid JSON literal', start);
+      }
+    } else if (ch === '|' || ch === '&') {
+      if (source[i + 1] === ch) {
+        tokens.push({ type: ch === '|' ? 'Or' : 'And', start });
+        i += 2;
+      } else {
+        tokens.push({ type: ch === '|' ? 'Pipe' : 'Expref', start });
+        i++;
+      }
+    } else if (ch === '!' || ch === '=' || ch === '<' || ch === '>') {
+      const twoChar = source[i + 1] === '=';
+      if (ch === '=' && !twoChar) throw new ExpressionError('Unexpected "=", did you mean "=="?', start);
+      const type: TokenType =
+        ch === '!' ? (twoChar ? 'NE' : 'Not')
+        : ch === '=' ? 'EQ'
+        : ch === '<' ? (twoChar ? 'LTE' : 'LT')
+        : (twoChar ? 'GTE' : 'GT');
+      tokens.push({ type, start });
+      i += twoChar ? 2 : 1;
+    } else {
+      throw new ExpressionError(`Unexpected character "${ch}"`, start);
+    }
+  }
+
+  tokens.push({ type: 'EOF', start: source.length });
+  return tokens;
+}
+
+// ── Parser (Pratt, binding powers as in the JMESPath reference) ──
+
+type Node =
+  | { type: 'Field'; name: string }
+  | { type: 'Literal'; value: JsonValue }
+  | { type: 'Current' }
+  | { type: 'Index'; index: number }
+  | { type: 'Slice'; start: number | null; stop: number | null; step: number | null }
+  | { type: 'Subexpression' | 'IndexExpression' | 'Pipe' | 'Or' | 'And'; left: Node; right: Node }
+  | { type: 'Projection' | 'ValueProjection'; left: Node; right: Node }
+  | { type: 'FilterProjection'; left: Node; right: Node; condition: Node }
+  | { type: 'Flatten' | 'Not' | 'ExpressionReference'; child: Node }
+  | { type: 'Comparator'; op: TokenType; left: Node; right: Node }
+  | { type: 'MultiSelectList'; children: Node[] }
+  | { type: 'MultiSelectHash'; entries: Array<{ key: string; value: Node }> }
+  | { type: 'Function'; name: string; args: Node[] };
+
+const BINDING_POWER: Partial<Record<TokenType, number>> = {
+  Pipe: 1, Or: 2, And: 3,
+  EQ: 5, NE: 5, LT: 5, LTE: 5, GT: 5, GTE: 5,
+  Flatten: 9, Star: 20, Filter: 21, Dot: 40, Not: 45,
+  Lbrace: 50, Lbracket: 55, Lparen: 60,
+};
+
+const COMPARATORS = new Set<TokenType>(['EQ', 'NE', 'LT', 'LTE', 'GT', 'GTE']);
+const IDENTITY: Node = { type: 'Current' };
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression(0);
+    if (this.peek().type !== 'EOF') this.fail(this.peek(), 'Unexpected token');
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'EOF') this.pos++;
+    return token;
+  }
+
+  private match(type: TokenType): Token {
+    const token = this.peek();
+    if (token.type !== type) this.fail(token, `Expected ${type}`);
+    return this.advance();
+  }
+
+  private fail(token: Token, message: string): never {
+    const found = token.type === 'EOF' ? 'end of expression' : token.type;
+    throw new ExpressionError(`${message}, found ${found}`, token.start);
+  }
+
+  private bp(token: Token): number {
+    return BINDING_POWER[token.type] ?? 0;
+  }
+
+  private expression(rbp: number): Node {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', this.peek().start);
+    }
+    let left = this.nud(this.advance());
+    while (rbp < this.bp(this.peek())) {
+      left = this.led(this.advance(), left);
+    }
+    this.depth--;
+    return left;
+  }
+
+  private nud(token: Token): Node {
+    switch (token.type) {
+      case 'Literal':
+      case 'RawString':
+        return { type: 'Literal', value: token.value };
+      case 'Identifier':
+        return { type: 'Field', name: token.value as string };
+      case 'QuotedIdentifier':
+        if (this.peek().type === 'Lparen') this.fail(this.peek(), 'Quoted identifiers cannot be called');
+        return { type: 'Field', name: token.value as string };
+      case 'Not':
+        return { type: 'Not', child: this.expression(BINDING_POWER.Not!) };
+      case 'Star': {
+        const right = this.peek().type === 'Rbracket'
+          ? IDENTITY
+          : this.projectionRhs(BINDING_POWER.Star!);
+        return { type: 'ValueProjection', left: IDENTITY, right };
+      }
+      case 'Filter':
+        return this.led(token, IDENTITY);
+      case 'Lbrace':
+        return this.multiSelectHash();
+      case 'Flatten':
+        return {
+          type: 'Projection',
+          left: { type: 'Flatten', child: IDENTITY },
+          right: this.projectionRhs(BINDING_POWER.Flatten!),
+        };
+      case 'Lbracket': {
+        const next = this.peek().type;
+        if (next === 'Number' || next === 'Colon') {
+          return this.projectIfSlice(IDENTITY, this.indexExpression());
+        }
+        if (next === 'Star' && this.peek(1).type === 'Rbracket') {
+          this.advance();
+          this.advance();
+          return { type: 'Projection', left: IDENTITY, right: this.projectionRhs(BINDING_POWER.Star!) };
+        }
+        return this.multiSelectList();
+      }
+      case 'Current':
+        return IDENTITY;
+      case 'Expref':
+        return { type: 'ExpressionReference', child: this.expression(0) };
+      case 'Lparen': {
+        const inner = this.expression(0);
+        this.match('Rparen');
+        return inner;
+      }
+      default:
+        return this.fail(token, 'Unexpected token');
+    }
+  }
+
+  private led(token: Token, left: Node): Node {
+    switch (token.type) {
+      case 'Dot':
+        if (this.peek().type === 'Star') {
+          this.advance();
+          return { type: 'ValueProjection', left, right: this.projectionRhs(BINDING_POWER.Dot!) };
+        }
+        return { type: 'Subexpression', left, right: this.dotRhs(BINDING_POWER.Dot!) };
+      case 'Pipe':
+      case 'Or':
+      case 'And':
+        return { type: token.type, left, right: this.expression(BINDING_POWER[token.type]!) };
+      case 'Lparen': {
+        if (left.type !== 'Field') this.fail(token, 'Only named functions can be called');
+        const args: Node[] = [];
+        while (this.peek().type !== 'Rparen') {
+          args.push(this.expression(0));
+          if (this.peek().type === 'Comma') this.advance();
+          else if (this.peek().type !== 'Rparen') this.fail(this.peek(), 'Expected "," or ")"');
+        }
+        this.match('Rparen');
+        validateFunctionCall(left.name, args.length, token.start);
+        return { type: 'Function', name: left.name, args };
+      }
+      case 'Filter': {
+        const condition = this.expression(0);
+        this.match('Rbracket');
+        const right = this.peek().type === 'Flatten'
+          ? IDENTITY
+          : this.projectionRhs(BINDING_POWER.Filter!);
+        return { type: 'FilterProjection', left, right, condition };
+      }
+      case 'Flatten':
+        return {
+          type: 'Projection',
+          left: { type: 'Flatten', child: left },
+          right: this.projectionRhs(BINDING_POWER.Flatten!),
+        };
+      case 'Lbracket': {
+        const next = this.peek().type;
+        if (next === 'Number' || next === 'Colon') {
+          return this.projectIfSlice(left, this.indexExpression());
+        }
+        this.match('Star');
+        this.match('Rbracket');
+        return { type: 'Projection', left, right: this.projectionRhs(BINDING_POWER.Star!) };
+      }
+      default:
+        if (COMPARATORS.has(token.type)) {
+          return { type: 'Comparator', op: token.type, left, right: this.expression(BINDING_POWER[token.type]!) };
+        }
+        return this.fail(token, 'Unexpected token');
+    }
+  }
+
+  private projectionRhs(rbp: number): Node {
+    const next = this.peek();
+    if (this.bp(next) < 10) return IDENTITY;
+    if (next.type === 'Lbracket' || next.type === 'Filter') return this.expression(rbp);
+    if (next.type === 'Dot') {
+      this.advance();
+      return this.dotRhs(rbp);
+    }
+    return this.fail(next, 'Unexpected token after projection');
+  }
+
+  private dotRhs(rbp: number): Node {
+    const next = this.peek().type;
+    if (next === 'Identifier' || next === 'QuotedIdentifier' || next === 'Star') {
+      return this.expression(rbp);
+    }
+    if (next === 'Lbracket') {
+      this.advance();
+      return this.multiSelectList();
+    }
+    if (next === 'Lbrace') {
+      this.advance();
+      return this.multiSelectHash();
+    }
+    return this.fail(this.peek(), 'Expected identifier, "[" or "{" after "."');
+  }
+
+  private indexExpression(): Node {
+    if (this.peek().type === 'Colon' || this.peek(1).type === 'Colon') {
+      const parts: Array<number | null> = [null, null, null];
+      let slot = 0;
+      while (this.peek().type !== 'Rbracket') {
+        const token = this.peek();
+        if (token.type === 'Colon') {
+          if (++slot > 2) this.fail(token, 'Too many colons in slice');
+          this.advance();
+        } else if (token.type === 'Number') {
+          parts[slot] = token.value as number;
+          this.advance();
+        } else {
+          this.fail(token, 'Expected number or ":" in slice');
+        }
+      }
+      this.match('Rbracket');
+      if (parts[2] === 0) throw new ExpressionError('Slice step cannot be 0');
+      return { type: 'Slice', start: parts[0], stop: parts[1], step: parts[2] };
+    }
+    const index = this.match('Number').value as number;
+    this.match('Rbracket');
+    return { type: 'Index', index };
+  }
+
+  private projectIfSlice(left: Node, right: Node): Node {
+    const indexExpr: Node = { type: 'IndexExpression', left, right };
+    if (right.type === 'Slice') {
+      return { type: 'Projection', left: indexExpr, right: this.projectionRhs(BINDING_POWER.Star!) };
+    }
+    return indexExpr;
+  }
+
+  private multiSelectList(): Node {
+    const children: Node[] = [];
+    do {
+      if (children.length > 0) this.match('Comma');
+      children.push(this.expression(0));
+    } while (this.peek().type === 'Comma');
+    this.match('Rbracket');
+    return { type: 'MultiSelectList', children };
+  }
+
+  private multiSelectHash(): Node {
+    const entries: Array<{ key: string; value: Node }> = [];
+    do {
+      if (entries.length > 0) this.match('Comma');
+      const keyToken = this.advance();
+      if (keyToken.type !== 'Identifier' && keyToken.type !== 'QuotedIdentifier') {
+        this.fail(keyToken, 'Expected key name');
+      }
+      this.match('Colon');
+      entries.push({ key: keyToken.value as string, value: this.expression(0) });
+    } while (this.peek().type === 'Comma');
+    this.match('Rbrace');
+    return { type: 'MultiSelectHash', entries };
+  }
+}
+
+// ── Functions ──
+
+type Evaluate = (node: Node, value: JsonValue) => JsonValue;
+type Builtin = (args: JsonValue[], evaluate: Evaluate) => JsonValue;
+
+/** `&expr` arguments; a class so payload data can never masquerade as one. */
+class ExpRef {
+  constructor(readonly node: Node) {}
+}
+
+function isExpRef(value: unknown): value is ExpRef {
+  return value instanceof ExpRef;
+}
+
+function typeOf(value: JsonValue): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (isExpRef(value)) return 'expref';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+function assertType<T>(value: JsonValue, types: string[], fn: string): T {
+  const actual = typeOf(value);
+  if (!types.includes(actual)) {
+    throw new ExpressionError(`${fn}() expected ${types.join(' or ')}, got ${actual}`);
+  }
+  return value as T;
+}
+
+function numbers(value: JsonValue, fn: string): number[] {
+  const list = assertType<JsonValue[]>(value, ['array'], fn);
+  return list.map((v) => assertType<number>(v, ['number'], fn));
+}
+
+function applyRef(ref: JsonValue, item: JsonValue, evaluate: Evaluate, fn: string): JsonValue {
+  return evaluate(assertType<ExpRef>(ref, ['expref'], fn).node, item);
+}
+
+function sortKeyed(items: JsonValue[], keyOf: (v: JsonValue) => JsonValue, fn: string): JsonValue[] {
+  const keyed = items.map((item) => ({ item, key: keyOf(item) }));
+  const kind = keyed.length > 0 ? typeOf(keyed[0].key) : 'number';
+  for (const { key } of keyed) {
+    if (typeOf(key) !== kind || (kind !== 'number' && kind !== 'string')) {
+      throw new ExpressionError(`${fn}() requires all keys to be numbers or all strings`);
+    }
+  }
+  return keyed
+    .sort((a, b) => ((a.key as number | string) < (b.key as number | string) ? -1
+      : (a.key as number | string) > (b.key as number | string) ? 1 : 0))
+    .map(({ item }) => item);
+}
+
+function extremum(
+  items: JsonValue[],
+  keyOf: (v: JsonValue) => JsonValue,
+  pickLarger: boolean,
+  fn: string,
+): JsonValue {
+  if (items.length === 0) return null;
+  const sorted = sortKeyed(items, keyOf, fn);
+  return pickLarger ? sorted[sorted.length - 1] : sorted[0];
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; call: Builtin }> = {
+  abs: { arity: [1, 1], call: ([n]) => Math.abs(assertType<number>(n, ['number'], 'abs')) },
+  avg: {
+    arity: [1, 1],
+    call: ([list]) => {
+      const nums = numbers(list, 'avg');
+      return nums.length === 0 ? null : nums.reduce((a, b) => a + b, 0) / nums.length;
+    },
+  },
+  ceil: { arity: [1, 1], call: ([n]) => Math.ceil(assertType<number>(n, ['number'], 'ceil')) },
+  contains: {
+    arity: [2, 2],
+    call: ([subject, search]) => {
+      const s = assertType<string | JsonValue[]>(subject, ['string', 'array'], 'contains');
+      if (typeof s === 'string') return typeof search === 'string' && s.includes(search);
+      return s.some((item) => deepEqual(item, search));
+    },
+  },
+  ends_with: {
+    arity: [2, 2],
+    call: ([s, suffix]) =>
+      assertType<string>(s, ['string'], 'ends_with').endsWith(assertType<string>(suffix, ['string'], 'ends_with')),
+  },
+  floor: { arity: [1, 1], call: ([n]) => Math.floor(assertType<number>(n, ['number'], 'floor')) },
+  join: {
+    arity: [2, 2],
+    call: ([glue, list]) => {
+      const sep = assertType<string>(glue, ['string'], 'join');
+      return assertType<JsonValue[]>(list, ['array'], 'join')
+        .map((v) => assertType<string>(v, ['string'], 'join'))
+        .join(sep);
+    },
+  },
+  keys: { arity: [1, 1], call: ([obj]) => Object.keys(assertType<object>(obj, ['object'], 'keys')) },
+  length: {
+    arity: [1, 1],
+    call: ([v]) => {
+      const subject = assertType<string | JsonValue[] | object>(v, ['string', 'array', 'object'], 'length');
+      if (typeof subject === 'string') return Array.from(subject).length;
+      return Array.isArray(subject) ? subject.length : Object.keys(subject).length;
+    },
+  },
+  map: {
+    arity: [2, 2],
+    call: ([ref, list], evaluate) =>
+      assertType<JsonValue[]>(list, ['array'], 'map').map((item) => applyRef(ref, item, evaluate, 'map')),
+  },
+  max: {
+    arity: [1, 1],
+    call: ([list]) => extremum(assertType<JsonValue[]>(list, ['array'], 'max'), (v) => v, true, 'max'),
+  },
+  max_by: {
+    arity: [2, 2],
+    call: ([list, ref], evaluate) =>
+      extremum(assertType<JsonValue[]>(list, ['array'], 'max_by'), (v) => applyRef(ref, v, evaluate, 'max_by'), true, 'max_by'),
+  },
+  merge: {
+    arity: [1, Infinity],
+    call: (objects) => {
+      const merged: Record<string, JsonValue> = {};
+      for (const obj of objects) {
+        for (const [k, v] of Object.entries(assertType<object>(obj, ['object'], 'merge'))) {
+          safeAssign(merged, k, v);
+        }
+      }
+      return merged;
+    },
+  },
+  min: {
+    arity: [1, 1],
+    call: ([list]) => extremum(assertType<JsonValue[]>(list, ['array'], 'min'), (v) => v, false, 'min'),
+  },
+  min_by: {
+    arity: [2, 2],
+    call: ([list, ref], evaluate) =>
+      extremum(assertType<JsonValue[]>(list, ['array'], 'min_by'), (v) => applyRef(ref, v, evaluate, 'min_by'), false, 'min_by'),
+  },
+  not_null: { arity: [1, Infinity], call: (args) => args.find((v) => v !== null && v !== undefined) ?? null },
+  reverse: {
+    arity: [1, 1],
+    call: ([v]) => {
+      const subject = assertType<string | JsonValue[]>(v, ['string', 'array'], 'reverse');
+      return typeof subject === 'string' ? Array.from(subject).reverse().join('') : [...subject].reverse();
+    },
+  },
+  sort: { arity: [1, 1], call: ([list]) => sortKeyed(assertType<JsonValue[]>(list, ['array'], 'sort'), (v) => v, 'sort') },
+  sort_by: {
+    arity: [2, 2],
+    call: ([list, ref], evaluate) =>
+      sortKeyed(assertType<JsonValue[]>(list, ['array'], 'sort_by'), (v) => applyRef(ref, v, evaluate, 'sort_by'), 'sort_by'),
+  },
+  starts_with: {
+    arity: [2, 2],
+    call: ([s, prefix]) =>
+      assertType<string>(s, ['string'], 'starts_with').startsWith(assertType<string>(prefix, ['string'], 'starts_with')),
+  },
+  sum: { arity: [1, 1], call: ([list]) => numbers(list, 'sum').reduce((a, b) => a + b, 0) },
+  to_array: { arity: [1, 1], call: ([v]) => (Array.isArray(v) ? v : [v]) },
+  to_number: {
+    arity: [1, 1],
+    call: ([v]) => {
+      if (typeof v === 'number') return v;
+      if (typeof v !== 'string' || v.trim() === '') return null;
+      const n = Number(v);
+      return Number.isFinite(n) ? n : null;
+    },
+  },
+  to_string: { arity: [1, 1], call: ([v]) => (typeof v === 'string' ? v : JSON.stringify(v)) },
+  type: { arity: [1, 1], call: ([v]) => typeOf(v) },
+  values: { arity: [1, 1], call: ([obj]) => Object.values(assertType<object>(obj, ['object'], 'values')) },
+};
+
+function validateFunctionCall(name: string, argCount: number, position: number): void {
+  const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+  if (!fn) throw new ExpressionError(`Unknown function "${name}"`, position);
+  const [min, max] = fn.arity;
+  if (argCount < min || argCount > max) {
+    const expected = max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min}-${max}`;
+    throw new ExpressionError(`${name}() takes ${expected} argument(s), got ${argCount}`, position);
+  }
+}
+
+// ── Interpreter ──
+
+function isObject(value: JsonValue): value is Record<string, JsonValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFalsy(value: JsonValue): boolean {
+  if (value === null || value === undefined || value === false || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isObject(value)) return Object.keys(value).length === 0;
+  return false;
+}
+
+function deepEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length
+      && keys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+/** Own-property write that cannot touch the prototype chain. */
+function safeAssign(target: Record<string, JsonValue>, key: string, value: JsonValue): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function sliceArray(list: JsonValue[], start: number | null, stop: number | null, step: number | null): JsonValue[] {
+  const len = list.length;
+  const s = step ?? 1;
+  const clamp = (n: number, lo: number, hi: number) => Math.min(Math.max(n, lo), hi);
+  const norm = (n: number | null, dflt: number) => {
+    if (n === null) return dflt;
+    const v = n < 0 ? n + len : n;
+    return s > 0 ? clamp(v, 0, len) : clamp(v, -1, len - 1);
+  };
+  const from = norm(start, s > 0 ? 0 : len - 1);
+  const to = norm(stop, s > 0 ? len : -1);
+  const out: JsonValue[] = [];
+  for (let i = from; s > 0 ? i < to : i > to; i += s) out.push(list[i]);
+  return out;
+}
+
+function compare(op: TokenType, left: JsonValue, right: JsonValue): JsonValue {
+  if (op === 'EQ') return deepEqual(left, right);
+  if (op === 'NE') return !deepEqual(left, right);
+  if (typeof left !== 'number' || typeof right !== 'number') return null;
+  switch (op) {
+    case 'LT': return left < right;
+    case 'LTE': return left <= right;
+    case 'GT': return left > right;
+    default: return left >= right;
+  }
+}
+
+/**
+ * Approximate JSON-serialized size of a value. Built values share
+ * references (`[@,@]`), so sizes are memoised per object and counted once
+ * per reference — the size the value would have once serialized.
+ */
+function sizeOf(value: JsonValue, memo: WeakMap<object, number>): number {
+  if (typeof value === 'string') return value.length + 2;
+  if (typeof value === 'number') return String(value).length;
+  if (typeof value !== 'object' || value === null || isExpRef(value)) return 5;
+
+  const known = memo.get(value);
+  if (known !== undefined) return known;
+  let size = 2;
+  if (Array.isArray(value)) {
+    for (const item of value) size += sizeOf(item, memo) + 1;
+  } else {
+    for (const [k, v] of Object.entries(value)) size += k.length + 4 + sizeOf(v, memo);
+  }
+  memo.set(value, size);
+  return size;
+}
+
+function interpret(root: Node, input: JsonValue): JsonValue {
+  let steps = 0;
+  const sizes = new WeakMap<object, number>();
+  const maxSize = MAX_RESULT_SIZE + 4 * sizeOf(input, sizes);
+
+  /** Reject a built value once it would serialize beyond the size limit */
+  const bounded = (result: JsonValue): JsonValue => {
+    if (sizeOf(result, sizes) > maxSize) {
+      throw new ExpressionError('Expression result exceeded the size limit');
+    }
+    return result;
+  };
+
+  const evaluate: Evaluate = (node, value) => {
+    if (++steps > MAX_EVALUATION_STEPS) {
+      throw new ExpressionError('Expression exceeded the evaluation step limit');
+    }
+    switch (node.type) {
+      case 'Field':
+        return isObject(value) && Object.prototype.hasOwnProperty.call(value, node.name)
+          ? value[node.name] ?? null
+          : null;
+      case 'Literal':
+        return node.value;
+      case 'Current':
+        return value;
+      case 'Subexpression':
+      case 'IndexExpression':
+        return evaluate(node.right, evaluate(node.left, value));
+      case 'Pipe':
+        return evaluate(node.right, evaluate(node.left, value));
+      case 'Index': {
+        if (!Array.isArray(value)) return null;
+        const idx = node.index < 0 ? value.length + node.index : node.index;
+        return value[idx] ?? null;
+      }
+      case 'Slice':
+        return Array.isArray(value) ? sliceArray(value, node.start, node.stop, node.step) : null;
+      case 'Projection': {
+        const base = evaluate(node.left, value);
+        if (!Array.isArray(base)) return null;
+        return bounded(projectEach(base, node.right));
+      }
+      case 'ValueProjection': {
+        const base = evaluate(node.left, value);
+        if (!isObject(base)) return null;
+        return bounded(projectEach(Object.values(base), node.right));
+      }
+      case 'FilterProjection': {
+        const base = evaluate(node.left, value);
+        if (!Array.isArray(base)) return null;
+        return bounded(projectEach(base.filter((item) => !isFalsy(evaluate(node.condition, item))), node.right));
+      }
+      case 'Flatten': {
+        const base = evaluate(node.child, value);
+        if (!Array.isArray(base)) return null;
+        return bounded(base.flatMap((item) => (Array.isArray(item) ? item : [item])));
+      }
+      case 'Or': {
+        const left = evaluate(node.left, value);
+        return isFalsy(left) ? evaluate(node.right, value) : left;
+      }
+      case 'And': {
+        const left = evaluate(node.left, value);
+        return isFalsy(left) ? left : evaluate(node.right, value);
+      }
+      case 'Not':
+        return isFalsy(evaluate(node.child, value));
+      case 'Comparator':
+        return compare(node.op, evaluate(node.left, value), evaluate(node.right, value));
+      case 'MultiSelectList':
+        if (value === null || value === undefined) return null;
+        return bounded(node.children.map((child) => evaluate(child, value)));
+      case 'MultiSelectHash': {
+        if (value === null || value === undefined) return null;
+        const out: Record<string, JsonValue> = {};
+        for (const entry of node.entries) safeAssign(out, entry.key, evaluate(entry.value, value));
+        return bounded(out);
+      }
+      case 'ExpressionReference':
+        return new ExpRef(node.child);
+      case 'Function':
+        return bounded(FUNCTIONS[node.name].call(node.args.map((arg) => evaluate(arg, value)), evaluate));
+    }
+  };
+
+  const projectEach = (items: JsonValue[], right: Node): JsonValue[] => {
+    const out: JsonValue[] = [];
+    for (const item of items) {
+      const projected = evaluate(right, item);
+      if (projected !== null && projected !== undefined) out.push(projected);
+    }
+    return out;
+  };
+
+  const result = evaluate(root, input);
+  if (isExpRef(result)) throw new ExpressionError('Expression references cannot be returned');
+  return result ?? null;
+}
+
+// ── Public API ──
+
+export interface CompiledExpression {
+  source: string;
+  evaluate(input: unknown): unknown;
+}
+
+const compiledCache = new Map<string, CompiledExpression>();
+const MAX_COMPILED_CACHE = 256;
+
+/**
+ * Parse an expression, throwing ExpressionError with the offending
+ * position on invalid syntax. Compiled expressions are memoised so the
+ * hot path only pays for evaluation.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  if (!source.trim()) throw new ExpressionError('Expression is empty');
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const ast = new Parser(tokenize(source)).parse();
+  const compiled: CompiledExpression = {
+    source,
+    evaluate: (input) => interpret(ast, input),
+  };
+
+  if (compiledCache.size >= MAX_COMPILED_CACHE) {
+    const oldest = compiledCache.keys().next().value;
+    if (oldest !== undefined) compiledCache.delete(oldest);
+  }
+  compiledCache.set(source, compiled);
+  return compiled;
+}
+
+/**
+ * Returns a human-readable syntax error, or null if the expression is valid.
+ */
+export function validateExpression(source: string): string | null {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export function evaluateExpression(source: string, input: unknown): unknown {
+  return compileExpression(source).evaluate(input);
+}
+
+// ── Transform config ──
+
+export const EXPRESSION_TRANSFORM_PREFIX = 'jmespath:';
+
+/**
+ * Extract the expression from a `jmespath:<expr>` transform value,
+ * or null if the value is not an expression transform.
+ */
+export function parseExpressionTransform(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith(EXPRESSION_TRANSFORM_PREFIX)) return null;
+  return value.slice(EXPRESSION_TRANSFORM_PREFIX.length).trim();
+}
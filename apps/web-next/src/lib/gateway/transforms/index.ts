@@ -15,6 +15,7 @@ import { templateTransform } from './body/template';
 import { extractTransform } from './body/extract';
 import { binaryTransform } from './body/binary';
 import { formEncodeTransform } from './body/form-encode';
+import { jmespathTransform } from './body/jmespath';
 
 registry.registerBody(passthroughTransform);
 registry.registerBody(staticTransform);
@@ -22,6 +23,7 @@ registry.registerBody(templateTransform);
 registry.registerBody(extractTransform);
 registry.registerBody(binaryTransform);
 registry.registerBody(formEncodeTransform);
+registry.registerBody(jmespathTransform);
 
 // ── Auth Strategies ──
 import { bearerAuth } from './auth/bearer';
@@ -31,6 +33,9 @@ import { queryAuth } from './auth/query';
 import { awsS3Auth } from './auth/aws-s3';
 import { noneAuth } from './auth/none';
 import { passthroughAuth } from './auth/passthrough';
+import { oauth2Auth } from './auth/oauth2';
+import { hmacAuth } from './auth/hmac';
+import { jwtAuth } from './auth/jwt';
 
 registry.registerAuth(bearerAuth);
 registry.registerAuth(headerAuth);
@@ -39,17 +44,22 @@ registry.registerAuth(queryAuth);
 registry.registerAuth(awsS3Auth);
 registry.registerAuth(noneAuth);
 registry.registerAuth(passthroughAuth);
+registry.registerAuth(oauth2Auth);
+registry.registerAuth(hmacAuth);
+registry.registerAuth(jwtAuth);
 
 // ── Response Transforms ──
 import { envelopeResponse } from './response/envelope';
 import { rawResponse } from './response/raw';
 import { streamingResponse } from './response/streaming';
 import { fieldMapResponse } from './response/field-map';
+import { jmespathResponse } from './response/jmespath';
 
 registry.registerResponse(envelopeResponse);
 registry.registerResponse(rawResponse);
 registry.registerResponse(streamingResponse);
 registry.registerResponse(fieldMapResponse);
+registry.registerResponse(jmespathResponse);
 
 export { registry };
 export type {
@@ -57,6 +67,7 @@ export type {
   BodyTransformContext,
   AuthStrategy,
   AuthContext,
+  AuthPrepareContext,
   ResponseTransformStrategy,
   ResponseTransformContext,
 } from './types';
@@ -33,6 +33,10 @@ class TransformRegistry {
       const strategy = this.bodyTransforms.get('extract');
       if (strategy) return strategy;
     }
+    if (name.startsWith('jmespath:')) {
+      const strategy = this.bodyTransforms.get('jmespath');
+      if (strategy) return strategy;
+    }
     const strategy = this.bodyTransforms.get(name);
     if (!strategy) {
       const fallback = this.bodyTransforms.get('passthrough');
@@ -0,0 +1,47 @@
+import type { ResponseTransformStrategy, ResponseTransformContext } from '../types';
+import { evaluateExpression, parseExpressionTransform } from '../expression';
+import { buildSafeResponseHeaders } from './shared';
+
+/**
+ * Reshapes a JSON upstream response with a JMESPath expression stored
+ * in the endpoint's responseBodyTransform value.
+ *
+ * Format: "jmespath:<expression>"
+ * Example: "jmespath:{text: choices[0].message.content, tokens: usage.total_tokens}"
+ *
+ * Falls back to raw passthrough if the response is not JSON
+ * or if evaluation fails.
+ */
+export const jmespathResponse: ResponseTransformStrategy = {
+  name: 'jmespath',
+  async transform(ctx: ResponseTransformContext): Promise<Response> {
+    const contentType = ctx.upstreamResponse.headers.get('content-type') || 'application/json';
+    const responseHeaders = buildSafeResponseHeaders(ctx, contentType);
+    const expression = parseExpressionTransform(ctx.responseBodyTransform);
+
+    if (!contentType.includes('application/json') || !expression) {
+      const body = await ctx.upstreamResponse.arrayBuffer();
+      return new Response(body, {
+        status: ctx.upstreamResponse.status,
+        headers: responseHeaders,
+      });
+    }
+
+    // Buffer once so the raw body is still available if evaluation fails
+    const rawBody = await ctx.upstreamResponse.text();
+    try {
+      const shaped = evaluateExpression(expression, JSON.parse(rawBody));
+      responseHeaders.set('Content-Type', 'application/json');
+      return new Response(JSON.stringify(shaped), {
+        status: ctx.upstreamResponse.status,
+        headers: responseHeaders,
+      });
+    } catch (err) {
+      console.warn('[gateway] jmespath response transform failed, falling back to raw:', err);
+      return new Response(rawBody, {
+        status: ctx.upstreamResponse.status,
+        headers: responseHeaders,
+      });
+    }
+  },
+};
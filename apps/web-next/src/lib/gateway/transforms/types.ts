@@ -33,9 +33,31 @@ export interface AuthContext {
   body?: BodyInit | null;
 }
 
+export interface AuthPrepareContext {
+  authConfig: Record<string, unknown>;
+  secrets: ResolvedSecrets;
+  connectorId: string;
+  connectorSlug: string;
+  upstreamBaseUrl: string;
+}
+
+/**
+ * Secret name under which `prepare` hands an access token to `inject`.
+ * `$` cannot appear in a connector's own secret refs.
+ */
+export const UPSTREAM_ACCESS_TOKEN = '$accessToken';
+
 export interface AuthStrategy {
   readonly name: string;
+  /**
+   * Optional async step run once per request before any upstream request
+   * is built, for strategies that must obtain credentials over the network.
+   * The returned values are merged into the secrets passed to `inject`.
+   */
+  prepare?(ctx: AuthPrepareContext): Promise<ResolvedSecrets>;
   inject(ctx: AuthContext): void;
+  /** Forget cached credentials for a connector after the upstream rejects them. */
+  invalidate?(connectorId: string): void;
 }
 
 // ── Response Transform ──
@@ -15,15 +15,32 @@ export interface ResolvedConnector {
   status: string;
   visibility: string;
   upstreamBaseUrl: string;
+  upstreams: UpstreamTarget[];
+  loadBalancing: string;
   allowedHosts: string[];
   defaultTimeout: number;
   healthCheckPath: string | null;
+  circuitFailureThreshold: number;
+  circuitOpenDurationMs: number;
   authType: string;
   authConfig: Record<string, unknown>;
   secretRefs: string[];
   responseWrapper: boolean;
   streamingEnabled: boolean;
   errorMapping: Record<string, string>;
+  captureEnabled: boolean;
+  captureSampleRate: number;
+  captureMaxBodyBytes: number;
+  captureRetentionDays: number;
+  captureRedactFields: string[];
+}
+
+/** One member of a connector's upstream pool. */
+export interface UpstreamTarget {
+  url: string;
+  weight: number;
+  /** Failover tier — 0 is primary, higher tiers only take traffic as fallback. */
+  priority: number;
 }
 
 export interface ResolvedEndpoint {
@@ -42,6 +59,8 @@ export interface ResolvedEndpoint {
   responseBodyTransform: string;
   headerMapping: Record<string, string>;
   rateLimit: number | null;
+  burstLimit: number | null;
+  maxConcurrent: number | null;
   timeout: number | null;
   maxRequestSize: number | null;
   maxResponseSize: number | null;
@@ -77,6 +96,8 @@ interface AuthResultAuthenticated {
   allowedEndpoints?: string[];
   allowedIPs?: string[];
   rateLimit?: number;
+  burstLimit?: number | null;
+  maxConcurrent?: number | null;
   dailyQuota?: number | null;
   monthlyQuota?: number | null;
   maxRequestSize?: number;
@@ -104,6 +125,8 @@ export interface ProxyResult {
   response: Response;
   upstreamLatencyMs: number;
   cached: boolean;
+  /** Base URL of the pool member that served the response. */
+  upstreamUrl?: string;
 }
 
 // ── Usage ──
@@ -126,6 +149,7 @@ export interface UsageData {
   cached: boolean;
   error: string | null;
   region: string | null;
+  upstreamUrl: string | null;
 }
 
 // ── Secrets ──
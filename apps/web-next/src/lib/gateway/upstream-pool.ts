@@ -0,0 +1,272 @@
+/**
+ * Service Gateway — Upstream Pool
+ *
+ * Chooses which upstream a request is sent to when a connector fronts
+ * several backends. Connectors without an `upstreams` pool behave exactly
+ * as before: the pool is just `upstreamBaseUrl`.
+ *
+ * Selection:
+ *   1. Drop upstreams marked down — by the health check cron (shared via
+ *      @naap/cache) or by recent proxy failures on this instance.
+ *   2. Group by priority tier (0 = primary). Lower tiers only receive
+ *      traffic as failover.
+ *   3. Order each tier by the connector's strategy: smooth weighted
+ *      round-robin, or lowest observed latency.
+ *
+ * If every upstream is marked down the full pool is returned, so a stale
+ * health signal never hard-fails a connector.
+ */
+
+import { cacheGet, cacheSet } from '@naap/cache';
+import type { ResolvedConnector, UpstreamTarget } from './types';
+
+export type LoadBalancingStrategy = 'round-robin' | 'least-latency';
+
+export type UpstreamHealthStatus = 'up' | 'down' | 'degraded' | 'unknown';
+
+export interface UpstreamHealth {
+  status: UpstreamHealthStatus;
+  latencyMs: number | null;
+  checkedAt: number;
+}
+
+const HEALTH_PREFIX = 'gw:upstream-health';
+const HEALTH_TTL_S = 900; // 3 cron intervals
+const PASSIVE_EJECT_MS = 15_000;
+const LATENCY_EWMA_ALPHA = 0.3;
+const MAX_TRACKED_UPSTREAMS = 1024;
+
+interface PassiveStats {
+  latencyMs: number | null;
+  ejectedUntil: number;
+}
+
+const passiveStats = new Map<string, PassiveStats>();
+const roundRobinWeights = new Map<string, Map<string, number>>();
+
+function statsKey(connectorId: string, url: string): string {
+  return `${connectorId}|${url}`;
+}
+
+/**
+ * Return the connector's upstream pool, falling back to a single
+ * primary upstream built from `upstreamBaseUrl`.
+ */
+export function getUpstreamPool(
+  connector: Pick<ResolvedConnector, 'upstreamBaseUrl' | 'upstreams'>
+): UpstreamTarget[] {
+  const upstreams = connector.upstreams ?? [];
+  if (upstreams.length === 0) {
+    return [{ url: connector.upstreamBaseUrl, weight: 1, priority: 0 }];
+  }
+  return upstreams.map((u) => ({
+    url: u.url,
+    weight: Math.max(1, u.weight ?? 1),
+    priority: Math.max(0, u.priority ?? 0),
+  }));
+}
+
+/**
+ * Add every pool member's hostname to a connector's allowed hosts, so the
+ * SSRF filter in the proxy never silently drops a configured upstream.
+ */
+export function withPoolHosts(
+  allowedHosts: string[],
+  connector: Pick<ResolvedConnector, 'upstreamBaseUrl' | 'upstreams'>
+): string[] {
+  const hosts = new Set(allowedHosts);
+  for (const upstream of getUpstreamPool(connector)) {
+    try {
+      hosts.add(new URL(upstream.url).hostname);
+    } catch {
+      // Invalid URLs are rejected by validation
+    }
+  }
+  return [...hosts];
+}
+
+// ── Active health (health check cron) ──
+
+/**
+ * Publish a health check result for one upstream so every instance
+ * can route around it.
+ */
+export async function publishUpstreamHealth(
+  connectorId: string,
+  url: string,
+  health: UpstreamHealth
+): Promise<void> {
+  try {
+    await cacheSet(statsKey(connectorId, url), health, { prefix: HEALTH_PREFIX, ttl: HEALTH_TTL_S });
+  } catch {
+    // Non-critical — routing falls back to passive signals
+  }
+}
+
+/**
+ * Load the latest published health for every upstream in a pool.
+ * Single-upstream pools skip the lookup entirely.
+ */
+export async function loadUpstreamHealth(
+  connectorId: string,
+  pool: UpstreamTarget[]
+): Promise<Map<string, UpstreamHealth>> {
+  const health = new Map<string, UpstreamHealth>();
+  if (pool.length < 2) return health;
+
+  await Promise.all(
+    pool.map(async (target) => {
+      try {
+        const entry = await cacheGet<UpstreamHealth>(statsKey(connectorId, target.url), {
+          prefix: HEALTH_PREFIX,
+        });
+        if (entry) health.set(target.url, entry);
+      } catch {
+        // Treat as unknown
+      }
+    })
+  );
+  return health;
+}
+
+// ── Passive health (proxy outcomes) ──
+
+/**
+ * Record the outcome of a proxied attempt. Failures eject the upstream
+ * from this instance's rotation for a short cooldown; successes feed the
+ * latency average used by `least-latency`.
+ */
+export function recordUpstreamResult(
+  connectorId: string,
+  url: string,
+  ok: boolean,
+  latencyMs: number
+): void {
+  const key = statsKey(connectorId, url);
+  let stats = passiveStats.get(key);
+  if (!stats) {
+    if (passiveStats.size >= MAX_TRACKED_UPSTREAMS) {
+      const oldest = passiveStats.keys().next().value;
+      if (oldest !== undefined) passiveStats.delete(oldest);
+    }
+    stats = { latencyMs: null, ejectedUntil: 0 };
+    passiveStats.set(key, stats);
+  }
+
+  if (ok) {
+    stats.ejectedUntil = 0;
+    stats.latencyMs = stats.latencyMs === null
+      ? latencyMs
+      : stats.latencyMs * (1 - LATENCY_EWMA_ALPHA) + latencyMs * LATENCY_EWMA_ALPHA;
+  } else {
+    stats.ejectedUntil = Date.now() + PASSIVE_EJECT_MS;
+  }
+}
+
+function isAvailable(
+  connectorId: string,
+  target: UpstreamTarget,
+  health: Map<string, UpstreamHealth>,
+  now: number
+): boolean {
+  if (health.get(target.url)?.status === 'down') return false;
+  const stats = passiveStats.get(statsKey(connectorId, target.url));
+  return !stats || stats.ejectedUntil <= now;
+}
+
+function observedLatency(
+  connectorId: string,
+  target: UpstreamTarget,
+  health: Map<string, UpstreamHealth>
+): number {
+  const passive = passiveStats.get(statsKey(connectorId, target.url))?.latencyMs;
+  if (passive != null) return passive;
+  // Unmeasured upstreams sort first so they get probed
+  return health.get(target.url)?.latencyMs ?? 0;
+}
+
+/**
+ * Smooth weighted round-robin (as in nginx): each pick adds every
+ * upstream's weight to its running score, selects the highest score,
+ * then subtracts the tier's total weight from the winner.
+ */
+function weightedRoundRobin(tierKey: string, tier: UpstreamTarget[]): UpstreamTarget[] {
+  let current = roundRobinWeights.get(tierKey);
+  if (!current) {
+    if (roundRobinWeights.size >= MAX_TRACKED_UPSTREAMS) {
+      const oldest = roundRobinWeights.keys().next().value;
+      if (oldest !== undefined) roundRobinWeights.delete(oldest);
+    }
+    current = new Map();
+    roundRobinWeights.set(tierKey, current);
+  }
+
+  let total = 0;
+  let best: UpstreamTarget | null = null;
+  let bestScore = -Infinity;
+  for (const target of tier) {
+    const score = (current.get(target.url) ?? 0) + target.weight;
+    current.set(target.url, score);
+    total += target.weight;
+    if (score > bestScore) {
+      bestScore = score;
+      best = target;
+    }
+  }
+  if (!best) return tier;
+  current.set(best.url, bestScore - total);
+
+  const rest = tier
+    .filter((t) => t !== best)
+    .sort((a, b) => (current.get(b.url) ?? 0) - (current.get(a.url) ?? 0));
+  return [best, ...rest];
+}
+
+/**
+ * Order a pool for a single request: the first entry is the chosen
+ * upstream, the remainder are failover candidates in order.
+ */
+export function orderUpstreams(
+  connectorId: string,
+  pool: UpstreamTarget[],
+  strategy: LoadBalancingStrategy,
+  health: Map<string, UpstreamHealth> = new Map()
+): UpstreamTarget[] {
+  if (pool.length < 2) return pool;
+
+  const now = Date.now();
+  const available = pool.filter((t) => isAvailable(connectorId, t, health, now));
+  const candidates = available.length > 0 ? available : pool;
+
+  const tiers = new Map<number, UpstreamTarget[]>();
+  for (const target of candidates) {
+    const tier = tiers.get(target.priority) ?? [];
+    tier.push(target);
+    tiers.set(target.priority, tier);
+  }
+
+  const ordered: UpstreamTarget[] = [];
+  for (const priority of [...tiers.keys()].sort((a, b) => a - b)) {
+    const tier = tiers.get(priority)!;
+    if (strategy === 'least-latency') {
+      ordered.push(
+        ...[...tier].sort(
+          (a, b) =>
+            observedLatency(connectorId, a, health) - observedLatency(connectorId, b, health)
+            || b.weight - a.weight
+        )
+      );
+    } else {
+      ordered.push(...weightedRoundRobin(`${connectorId}:${priority}`, tier));
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Clear all local pool state (used in tests).
+ */
+export function clearUpstreamPoolState(): void {
+  passiveStats.clear();
+  roundRobinWeights.clear();
+}
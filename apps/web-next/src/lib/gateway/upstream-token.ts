@@ -0,0 +1,151 @@
+/**
+ * Service Gateway — Upstream Access Tokens
+ *
+ * Fetches and caches access tokens for auth strategies that exchange
+ * connector credentials at a token endpoint (OAuth2 client credentials,
+ * JWT bearer assertions).
+ *
+ * Tokens are cached in-process per connector, like decrypted secrets, and
+ * never written to Redis. Entries are keyed by connector id plus a hash of
+ * the credentials and token request, so editing the connector's auth
+ * config or rotating a secret fetches a new token. Concurrent requests for
+ * the same key share one token request.
+ */
+
+import * as crypto from 'crypto';
+import { isPrivateHost } from './types';
+
+/** Refresh this long before the token expires. */
+const EXPIRY_SKEW_MS = 60_000;
+/** Lifetime assumed when the token endpoint omits `expires_in`. */
+const DEFAULT_TOKEN_TTL_S = 3600;
+const TOKEN_REQUEST_TIMEOUT_MS = 10_000;
+
+export interface UpstreamToken {
+  accessToken: string;
+  expiresAt: number;
+  refreshToken?: string;
+}
+
+const TOKEN_CACHE = new Map<string, UpstreamToken>();
+const IN_FLIGHT = new Map<string, Promise<UpstreamToken>>();
+
+/**
+ * Cache key for a connector's token. `material` is everything the token
+ * depends on — credentials, scope, audience, token URL.
+ */
+export function tokenCacheKey(connectorId: string, material: unknown): string {
+  const digest = crypto.createHash('sha256').update(JSON.stringify(material)).digest('hex').slice(0, 16);
+  return `${connectorId}:${digest}`;
+}
+
+/**
+ * Return a cached token for `key`, or obtain one with `fetchToken`. When
+ * the cached token has expired and carries a refresh token, `fetchToken`
+ * receives it so the strategy can use the refresh grant.
+ */
+export async function getUpstreamToken(
+  key: string,
+  fetchToken: (refreshToken?: string) => Promise<UpstreamToken>,
+  now: number = Date.now()
+): Promise<UpstreamToken> {
+  const cached = TOKEN_CACHE.get(key);
+  if (cached && cached.expiresAt - EXPIRY_SKEW_MS > now) return cached;
+
+  const pending = IN_FLIGHT.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      let token: UpstreamToken;
+      if (cached?.refreshToken) {
+        try {
+          token = await fetchToken(cached.refreshToken);
+        } catch {
+          // Refresh token revoked or expired — start over
+          token = await fetchToken();
+        }
+      } else {
+        token = await fetchToken();
+      }
+      TOKEN_CACHE.set(key, token);
+      return token;
+    } finally {
+      IN_FLIGHT.delete(key);
+    }
+  })();
+
+  IN_FLIGHT.set(key, request);
+  return request;
+}
+
+/**
+ * Drop cached tokens for a connector, e.g. after the upstream rejects one.
+ */
+export function invalidateUpstreamTokens(connectorId: string): void {
+  for (const key of TOKEN_CACHE.keys()) {
+    if (key.startsWith(`${connectorId}:`)) TOKEN_CACHE.delete(key);
+  }
+}
+
+/** Test helper: forget all cached tokens. */
+export function clearUpstreamTokenCache(): void {
+  TOKEN_CACHE.clear();
+  IN_FLIGHT.clear();
+}
+
+/**
+ * POST a form-encoded token request (RFC 6749 §4.4 / RFC 7523) and parse
+ * the response. Errors carry the endpoint's `error` code, never the
+ * request credentials.
+ */
+export async function requestUpstreamToken(
+  tokenUrl: string,
+  params: Record<string, string>,
+  headers: Record<string, string> = {},
+  now: number = Date.now()
+): Promise<UpstreamToken> {
+  let url: URL;
+  try {
+    url = new URL(tokenUrl);
+  } catch {
+    throw new Error('Token URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:' || isPrivateHost(url.hostname)) {
+    throw new Error('Token URL must be an https URL on a public host');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      ...headers,
+    },
+    body: new URLSearchParams(params).toString(),
+    signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+    redirect: 'error',
+  });
+
+  let payload: Record<string, unknown> = {};
+  try {
+    payload = await response.json() as Record<string, unknown>;
+  } catch {
+    // Non-JSON body — handled by the checks below
+  }
+
+  if (!response.ok) {
+    const code = typeof payload.error === 'string' ? `: ${payload.error}` : '';
+    throw new Error(`Token endpoint returned ${response.status}${code}`);
+  }
+  if (typeof payload.access_token !== 'string' || !payload.access_token) {
+    throw new Error('Token endpoint response has no access_token');
+  }
+
+  const expiresIn = Number(payload.expires_in);
+  return {
+    accessToken: payload.access_token,
+    expiresAt: now + (Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : DEFAULT_TOKEN_TTL_S) * 1000,
+    ...(typeof payload.refresh_token === 'string' ? { refreshToken: payload.refresh_token } : {}),
+  };
+}
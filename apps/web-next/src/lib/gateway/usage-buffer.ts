@@ -44,6 +44,7 @@ function toDbRecord(d: UsageData) {
     cached: d.cached,
     error: d.error,
     region: d.region,
+    upstreamUrl: d.upstreamUrl,
   };
 }
 
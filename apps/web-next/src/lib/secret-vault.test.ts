@@ -0,0 +1,106 @@
+/** @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  secretVault: { findUnique: vi.fn(), update: vi.fn() },
+  secretVersion: { create: vi.fn() },
+  $transaction: vi.fn(),
+}));
+vi.mock('@/lib/db', () => ({ prisma }));
+
+import { rotateVaultSecret, isRotationConflict, vaultKeyId } from './secret-vault';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const sealed = { encryptedValue: 'new-ct', iv: 'new-iv', keyId: 'key-b' };
+
+function existing(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'secret-1',
+    key: 'gw:team-1:openai:token',
+    encryptedValue: 'old-ct',
+    iv: 'old-iv',
+    keyId: 'key-a',
+    currentVersion: 3,
+    graceWindowSeconds: 0,
+    rotationIntervalDays: null,
+    rotatedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prisma.secretVault.update.mockImplementation(async (args: unknown) => args);
+  prisma.secretVersion.create.mockImplementation(async (args: unknown) => args);
+  prisma.$transaction.mockImplementation(async (ops: Promise<unknown>[]) => Promise.all(ops));
+});
+
+describe('rotateVaultSecret', () => {
+  it('returns null for an unknown key', async () => {
+    prisma.secretVault.findUnique.mockResolvedValue(null);
+
+    expect(await rotateVaultSecret('missing', sealed)).toBeNull();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('bumps the version conditionally and records the key id', async () => {
+    prisma.secretVault.findUnique.mockResolvedValue(existing());
+
+    await rotateVaultSecret('gw:team-1:openai:token', sealed, 'user-1');
+
+    const { where, data } = prisma.secretVault.update.mock.calls[0][0];
+    expect(where).toEqual({ key: 'gw:team-1:openai:token', currentVersion: 3 });
+    expect(data).toMatchObject({ encryptedValue: 'new-ct', iv: 'new-iv', keyId: 'key-b', currentVersion: 4 });
+    expect(data.reminderSentAt).toBeNull();
+    expect(data.nextRotationAt).toBeNull();
+  });
+
+  it('keeps the previous value as a version for the grace window', async () => {
+    prisma.secretVault.findUnique.mockResolvedValue(existing({ graceWindowSeconds: 3600 }));
+
+    await rotateVaultSecret('gw:team-1:openai:token', sealed, 'user-1');
+
+    const { data } = prisma.secretVersion.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      secretId: 'secret-1',
+      version: 3,
+      encryptedValue: 'old-ct',
+      iv: 'old-iv',
+      keyId: 'key-a',
+      supersededBy: 'user-1',
+    });
+    expect(data.expiresAt.getTime() - data.supersededAt.getTime()).toBe(3600_000);
+  });
+
+  it('lets the caller override the grace window', async () => {
+    prisma.secretVault.findUnique.mockResolvedValue(existing({ graceWindowSeconds: 3600 }));
+
+    await rotateVaultSecret('gw:team-1:openai:token', sealed, 'user-1', { graceSeconds: 0 });
+
+    expect(prisma.secretVersion.create).not.toHaveBeenCalled();
+  });
+
+  it('counts a scheduled secret\'s next rotation from now', async () => {
+    prisma.secretVault.findUnique.mockResolvedValue(existing({ rotationIntervalDays: 30 }));
+
+    await rotateVaultSecret('gw:team-1:openai:token', sealed);
+
+    const { data } = prisma.secretVault.update.mock.calls[0][0];
+    expect(data.nextRotationAt.getTime() - data.rotatedAt.getTime()).toBe(30 * DAY_MS);
+  });
+});
+
+describe('helpers', () => {
+  it('derives a stable 16-character key id', () => {
+    expect(vaultKeyId('key')).toBe(vaultKeyId('key'));
+    expect(vaultKeyId('key')).toHaveLength(16);
+    expect(vaultKeyId('key')).not.toBe(vaultKeyId('other'));
+  });
+
+  it('recognises a lost concurrent rotation', () => {
+    expect(isRotationConflict({ code: 'P2025' })).toBe(true);
+    expect(isRotationConflict(new Error('boom'))).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * SecretVault rotation for values web-next encrypts.
+ *
+ * Mirrors base-svc's `rotateSecret`: the new value becomes the next version,
+ * the previous one moves to SecretVersion for the secret's grace window, and
+ * a scheduled secret's next rotation is counted from now. Callers encrypt the
+ * value themselves (gateway and admin secrets use different formats) and pass
+ * the id of the key they used.
+ */
+
+import { createHash } from 'crypto';
+import type { SecretVault } from '@naap/database';
+import { prisma } from '@/lib/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SealedSecret {
+  encryptedValue: string;
+  iv: string;
+  /** Key the value was encrypted under (see `vaultKeyId`) */
+  keyId: string;
+}
+
+export interface RotateVaultSecretOptions {
+  /** Seconds the previous value keeps resolving (default: the secret's grace window) */
+  graceSeconds?: number;
+}
+
+/** Short, non-reversible id of an encryption key, stored as `SecretVault.keyId` */
+export function vaultKeyId(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Replace a secret's value with `sealed` as a new version.
+ *
+ * Returns null when there is no secret under `key`. The update is conditional
+ * on the version read first, so of two concurrent rotations one fails with
+ * Prisma's P2025.
+ */
+export async function rotateVaultSecret(
+  key: string,
+  sealed: SealedSecret,
+  rotatedBy?: string | null,
+  options: RotateVaultSecretOptions = {},
+): Promise<SecretVault | null> {
+  const existing = await prisma.secretVault.findUnique({ where: { key } });
+  if (!existing) return null;
+
+  const now = new Date();
+  const graceSeconds = options.graceSeconds ?? existing.graceWindowSeconds;
+
+  const keepPrevious = graceSeconds > 0
+    ? [prisma.secretVersion.create({
+        data: {
+          secretId: existing.id,
+          version: existing.currentVersion,
+          encryptedValue: existing.encryptedValue,
+          iv: existing.iv,
+          keyId: existing.keyId,
+          createdAt: existing.rotatedAt || existing.createdAt,
+          supersededAt: now,
+          supersededBy: rotatedBy ?? null,
+          expiresAt: new Date(now.getTime() + graceSeconds * 1000),
+        },
+      })]
+    : [];
+
+  const [secret] = await prisma.$transaction([
+    prisma.secretVault.update({
+      where: { key, currentVersion: existing.currentVersion },
+      data: {
+        encryptedValue: sealed.encryptedValue,
+        iv: sealed.iv,
+        keyId: sealed.keyId,
+        currentVersion: existing.currentVersion + 1,
+        rotatedAt: now,
+        nextRotationAt: existing.rotationIntervalDays
+          ? new Date(now.getTime() + existing.rotationIntervalDays * DAY_MS)
+          : null,
+        reminderSentAt: null,
+      },
+    }),
+    ...keepPrevious,
+  ]);
+
+  return secret;
+}
+
+/** Whether `err` is the P2025 a lost concurrent rotation fails with */
+export function isRotationConflict(err: unknown): boolean {
+  return !!err && typeof err === 'object' && (err as { code?: string }).code === 'P2025';
+}
@@ -0,0 +1,6 @@
+-- Per-connector circuit breaker thresholds for the service gateway proxy.
+-- Additive: both columns carry defaults matching the previous hard-coded
+-- values (5 failures, 30s cooldown), so existing connectors behave the same.
+
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "circuitFailureThreshold" INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "circuitOpenDurationMs" INTEGER NOT NULL DEFAULT 30000;
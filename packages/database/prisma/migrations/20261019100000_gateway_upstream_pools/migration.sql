@@ -0,0 +1,17 @@
+-- Weighted multi-upstream pools for service gateway connectors.
+-- Additive: an empty `upstreams` pool keeps routing to `upstreamBaseUrl`,
+-- and the new nullable columns leave existing rows unchanged.
+--
+--   ServiceConnector.upstreams       pool members [{ url, weight, priority }]
+--   ServiceConnector.loadBalancing   round-robin | least-latency
+--   GatewayHealthCheck.upstreamUrl   per-member result (null = connector-level)
+--   GatewayUsageRecord.upstreamUrl   pool member that served the request
+
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "upstreams" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "loadBalancing" TEXT NOT NULL DEFAULT 'round-robin';
+
+ALTER TABLE "plugin_service_gateway"."GatewayHealthCheck" ADD COLUMN IF NOT EXISTS "upstreamUrl" TEXT;
+CREATE INDEX IF NOT EXISTS "GatewayHealthCheck_connectorId_upstreamUrl_checkedAt_idx"
+    ON "plugin_service_gateway"."GatewayHealthCheck"("connectorId", "upstreamUrl", "checkedAt");
+
+ALTER TABLE "plugin_service_gateway"."GatewayUsageRecord" ADD COLUMN IF NOT EXISTS "upstreamUrl" TEXT;
@@ -0,0 +1,13 @@
+-- Token bucket burst and concurrency limits for service gateway policies.
+-- Additive: nullable columns, null keeps the previous behaviour (burst equal
+-- to the per-minute rate, no concurrency cap). GatewayPlan.burstLimit
+-- already exists and is now enforced as the bucket capacity.
+--
+--   ConnectorEndpoint.burstLimit     per-endpoint bucket capacity
+--   ConnectorEndpoint.maxConcurrent  in-flight requests per caller on the endpoint
+--   GatewayPlan.maxConcurrent        in-flight requests per API key
+
+ALTER TABLE "plugin_service_gateway"."ConnectorEndpoint" ADD COLUMN IF NOT EXISTS "burstLimit" INTEGER;
+ALTER TABLE "plugin_service_gateway"."ConnectorEndpoint" ADD COLUMN IF NOT EXISTS "maxConcurrent" INTEGER;
+
+ALTER TABLE "plugin_service_gateway"."GatewayPlan" ADD COLUMN IF NOT EXISTS "maxConcurrent" INTEGER;
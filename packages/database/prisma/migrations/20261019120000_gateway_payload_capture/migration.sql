@@ -0,0 +1,43 @@
+-- Opt-in payload capture for service gateway connectors. Additive: capture is
+-- disabled by default, so existing connectors behave exactly as before.
+--
+--   ServiceConnector.capture*   per-connector sampling, size cap, retention
+--                               and extra redaction fields
+--   GatewayPayloadCapture       redacted request/response exchanges, pruned
+--                               hourly once expiresAt passes
+
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "captureEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "captureSampleRate" DOUBLE PRECISION NOT NULL DEFAULT 0.01;
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "captureMaxBodyBytes" INTEGER NOT NULL DEFAULT 16384;
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "captureRetentionDays" INTEGER NOT NULL DEFAULT 7;
+ALTER TABLE "plugin_service_gateway"."ServiceConnector" ADD COLUMN IF NOT EXISTS "captureRedactFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+CREATE TABLE IF NOT EXISTS "plugin_service_gateway"."GatewayPayloadCapture" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "connectorId" TEXT NOT NULL,
+    "endpointName" TEXT NOT NULL,
+    "apiKeyId" TEXT,
+    "requestId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "query" TEXT NOT NULL DEFAULT '',
+    "requestHeaders" JSONB NOT NULL DEFAULT '{}',
+    "requestBody" TEXT,
+    "requestTruncated" BOOLEAN NOT NULL DEFAULT false,
+    "statusCode" INTEGER NOT NULL,
+    "responseHeaders" JSONB NOT NULL DEFAULT '{}',
+    "responseBody" TEXT,
+    "responseTruncated" BOOLEAN NOT NULL DEFAULT false,
+    "latencyMs" INTEGER NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GatewayPayloadCapture_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "GatewayPayloadCapture_connectorId_createdAt_idx"
+    ON "plugin_service_gateway"."GatewayPayloadCapture"("connectorId", "createdAt");
+CREATE INDEX IF NOT EXISTS "GatewayPayloadCapture_expiresAt_idx"
+    ON "plugin_service_gateway"."GatewayPayloadCapture"("expiresAt");
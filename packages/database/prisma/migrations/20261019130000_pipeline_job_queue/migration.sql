@@ -0,0 +1,46 @@
+-- Durable async job queue for the pipeline-gateway service. Additive: a new
+-- table only. Jobs previously lived in the gateway's memory.
+--
+--   PipelineJob   one row per async pipeline request, with retry state,
+--                 worker lease and completion webhook delivery state
+
+CREATE TABLE IF NOT EXISTS "public"."PipelineJob" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "pipeline" TEXT NOT NULL,
+    "teamId" TEXT,
+    "userId" TEXT,
+    "ownerKey" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "input" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "model" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "callbackUrl" TEXT,
+    "webhookStatus" TEXT,
+    "webhookAttempts" INTEGER NOT NULL DEFAULT 0,
+    "webhookNextAt" TIMESTAMP(3),
+    "webhookLastError" TEXT,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PipelineJob_requestId_key"
+    ON "public"."PipelineJob"("requestId");
+CREATE INDEX IF NOT EXISTS "PipelineJob_status_runAfter_idx"
+    ON "public"."PipelineJob"("status", "runAfter");
+CREATE INDEX IF NOT EXISTS "PipelineJob_ownerKey_status_idx"
+    ON "public"."PipelineJob"("ownerKey", "status");
+CREATE INDEX IF NOT EXISTS "PipelineJob_webhookStatus_webhookNextAt_idx"
+    ON "public"."PipelineJob"("webhookStatus", "webhookNextAt");
+CREATE INDEX IF NOT EXISTS "PipelineJob_completedAt_idx"
+    ON "public"."PipelineJob"("completedAt");
@@ -0,0 +1,90 @@
+-- Persistent BYOC capability registry for the pipeline-gateway service.
+-- Additive: new tables only. Registrations previously lived in the
+-- gateway's memory and were lost on every redeploy.
+--
+--   ByocCapability          one row per capability name, owned by registeredBy
+--   ByocEndpoint            replica endpoints with weight and probed health
+--   ByocSchemaVersion       immutable input/output schema versions
+--   ByocRegistrationEvent   history of registration changes
+
+CREATE TABLE IF NOT EXISTS "public"."ByocCapability" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "registeredBy" TEXT NOT NULL,
+    "description" TEXT,
+    "pricing" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ByocCapability_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ByocCapability_name_key"
+    ON "public"."ByocCapability"("name");
+
+CREATE TABLE IF NOT EXISTS "public"."ByocEndpoint" (
+    "id" TEXT NOT NULL,
+    "capabilityId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "healthCheckUrl" TEXT,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "healthy" BOOLEAN NOT NULL DEFAULT true,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastHealthyAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ByocEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ByocEndpoint_capabilityId_url_key"
+    ON "public"."ByocEndpoint"("capabilityId", "url");
+
+CREATE TABLE IF NOT EXISTS "public"."ByocSchemaVersion" (
+    "id" TEXT NOT NULL,
+    "capabilityId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "input" JSONB,
+    "output" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ByocSchemaVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ByocSchemaVersion_capabilityId_version_key"
+    ON "public"."ByocSchemaVersion"("capabilityId", "version");
+
+CREATE TABLE IF NOT EXISTS "public"."ByocRegistrationEvent" (
+    "id" TEXT NOT NULL,
+    "capabilityName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ByocRegistrationEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ByocRegistrationEvent_capabilityName_createdAt_idx"
+    ON "public"."ByocRegistrationEvent"("capabilityName", "createdAt");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'ByocEndpoint_capabilityId_fkey'
+    ) THEN
+        ALTER TABLE "public"."ByocEndpoint"
+            ADD CONSTRAINT "ByocEndpoint_capabilityId_fkey" FOREIGN KEY ("capabilityId")
+            REFERENCES "public"."ByocCapability"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'ByocSchemaVersion_capabilityId_fkey'
+    ) THEN
+        ALTER TABLE "public"."ByocSchemaVersion"
+            ADD CONSTRAINT "ByocSchemaVersion_capabilityId_fkey" FOREIGN KEY ("capabilityId")
+            REFERENCES "public"."ByocCapability"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,40 @@
+-- Persisted live video session registry for the pipeline-gateway service.
+-- Additive: a new table only. Sessions previously lived in the gateway's
+-- memory with no owner, expiry or limits.
+--
+--   LiveSession   one row per live video-to-video stream, with its owner,
+--                 trickle URLs, current params and lifecycle timestamps
+
+CREATE TABLE IF NOT EXISTS "public"."LiveSession" (
+    "id" TEXT NOT NULL,
+    "streamId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "userId" TEXT,
+    "ownerKey" TEXT NOT NULL,
+    "model" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'starting',
+    "params" JSONB NOT NULL,
+    "publishUrl" TEXT,
+    "subscribeUrl" TEXT,
+    "controlUrl" TEXT,
+    "eventsUrl" TEXT,
+    "remoteStatus" TEXT,
+    "lastError" TEXT,
+    "stopReason" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReconciledAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LiveSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "LiveSession_streamId_key"
+    ON "public"."LiveSession"("streamId");
+CREATE INDEX IF NOT EXISTS "LiveSession_ownerKey_status_idx"
+    ON "public"."LiveSession"("ownerKey", "status");
+CREATE INDEX IF NOT EXISTS "LiveSession_status_lastActivityAt_idx"
+    ON "public"."LiveSession"("status", "lastActivityAt");
+CREATE INDEX IF NOT EXISTS "LiveSession_endedAt_idx"
+    ON "public"."LiveSession"("endedAt");
@@ -0,0 +1,38 @@
+-- Spend caps for the pipeline-gateway service.
+-- Additive: new tables only.
+--
+--   PipelineSpendLimit   per-team daily/monthly caps (wei) overriding the
+--                        gateway defaults, and what to do when exceeded
+--   PipelineSpendDay     running spend per team per UTC day
+
+CREATE TABLE IF NOT EXISTS "public"."PipelineSpendLimit" (
+    "id" TEXT NOT NULL,
+    "ownerKey" TEXT NOT NULL,
+    "dailyLimit" TEXT,
+    "monthlyLimit" TEXT,
+    "onExceeded" TEXT NOT NULL DEFAULT 'reject',
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineSpendLimit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PipelineSpendLimit_ownerKey_key"
+    ON "public"."PipelineSpendLimit"("ownerKey");
+
+CREATE TABLE IF NOT EXISTS "public"."PipelineSpendDay" (
+    "id" TEXT NOT NULL,
+    "ownerKey" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "spent" TEXT NOT NULL DEFAULT '0',
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PipelineSpendDay_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PipelineSpendDay_ownerKey_day_key"
+    ON "public"."PipelineSpendDay"("ownerKey", "day");
+CREATE INDEX IF NOT EXISTS "PipelineSpendDay_day_idx"
+    ON "public"."PipelineSpendDay"("day");
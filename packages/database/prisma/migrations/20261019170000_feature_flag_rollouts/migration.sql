@@ -0,0 +1,10 @@
+-- Percentage rollouts, targeting rules and schedules for feature flags.
+-- Additive: nullable columns (and a defaulted one) on FeatureFlag. A flag with
+-- none of them set evaluates exactly as before.
+
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "rolloutPercentage" INTEGER;
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "rolloutBy" TEXT NOT NULL DEFAULT 'user';
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "rules" JSONB;
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "enableAt" TIMESTAMP(3);
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "disableAt" TIMESTAMP(3);
+ALTER TABLE "public"."FeatureFlag" ADD COLUMN IF NOT EXISTS "updatedBy" TEXT;
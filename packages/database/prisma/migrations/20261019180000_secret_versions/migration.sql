@@ -0,0 +1,63 @@
+-- Secret versions, rotation schedules and read audit for the secret vault.
+-- Additive: new columns on SecretVault (defaults keep today's behaviour: no
+-- grace window, no schedule) and two new tables.
+--
+--   SecretVersion     superseded values, resolvable until expiresAt
+--   SecretAccessLog   who resolved which secret, and when
+
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "keyId" TEXT;
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "currentVersion" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "graceWindowSeconds" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "rotationIntervalDays" INTEGER;
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "nextRotationAt" TIMESTAMP(3);
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "reminderDays" INTEGER NOT NULL DEFAULT 7;
+ALTER TABLE "public"."SecretVault" ADD COLUMN IF NOT EXISTS "reminderSentAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "SecretVault_nextRotationAt_idx"
+    ON "public"."SecretVault"("nextRotationAt");
+
+CREATE TABLE IF NOT EXISTS "public"."SecretVersion" (
+    "id" TEXT NOT NULL,
+    "secretId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "encryptedValue" TEXT NOT NULL,
+    "iv" TEXT NOT NULL,
+    "keyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "supersededAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededBy" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SecretVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SecretVersion_secretId_version_key"
+    ON "public"."SecretVersion"("secretId", "version");
+CREATE INDEX IF NOT EXISTS "SecretVersion_expiresAt_idx"
+    ON "public"."SecretVersion"("expiresAt");
+
+CREATE TABLE IF NOT EXISTS "public"."SecretAccessLog" (
+    "id" TEXT NOT NULL,
+    "secretKey" TEXT NOT NULL,
+    "version" INTEGER,
+    "accessor" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SecretAccessLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SecretAccessLog_secretKey_createdAt_idx"
+    ON "public"."SecretAccessLog"("secretKey", "createdAt");
+CREATE INDEX IF NOT EXISTS "SecretAccessLog_accessor_idx"
+    ON "public"."SecretAccessLog"("accessor");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'SecretVersion_secretId_fkey'
+    ) THEN
+        ALTER TABLE "public"."SecretVersion"
+            ADD CONSTRAINT "SecretVersion_secretId_fkey" FOREIGN KEY ("secretId")
+            REFERENCES "public"."SecretVault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,47 @@
+-- Alert incident state, escalation and in-app notification inbox.
+-- Additive: new columns on PluginAlert (defaults keep today's behaviour: no
+-- escalation policy, every alert starts "ok") and one new table.
+--
+--   InAppNotification   per-user inbox surfaced in the shell header
+
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'ok';
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "escalationPolicy" JSONB;
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "escalationLevel" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "lastEscalatedAt" TIMESTAMP(3);
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "acknowledgedAt" TIMESTAMP(3);
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "acknowledgedBy" TEXT;
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "resolvedBy" TEXT;
+
+CREATE INDEX IF NOT EXISTS "PluginAlert_status_idx"
+    ON "public"."PluginAlert"("status");
+
+CREATE TABLE IF NOT EXISTS "public"."InAppNotification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'info',
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT,
+    "sourceId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InAppNotification_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "InAppNotification_userId_readAt_idx"
+    ON "public"."InAppNotification"("userId", "readAt");
+CREATE INDEX IF NOT EXISTS "InAppNotification_sourceId_idx"
+    ON "public"."InAppNotification"("sourceId");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'InAppNotification_userId_fkey'
+    ) THEN
+        ALTER TABLE "public"."InAppNotification"
+            ADD CONSTRAINT "InAppNotification_userId_fkey" FOREIGN KEY ("userId")
+            REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,5 @@
+-- Rate-of-change, anomaly and composite alert conditions.
+-- Additive: existing alerts keep a NULL expression and are evaluated from
+-- their metric / operator / threshold columns as before.
+
+ALTER TABLE "public"."PluginAlert" ADD COLUMN IF NOT EXISTS "expression" JSONB;
@@ -0,0 +1,536 @@
+/**
+ * MockLivepeerNode
+ *
+ * A stand-in for a go-livepeer gateway: the CLI API (staking, deposit,
+ * protocol info) and the AI API (batch pipelines, LLM streaming, live
+ * video-to-video, BYOC) on two ports, like the real node. Responses are
+ * fakes shaped like go-livepeer's; the sender deposit is stateful, and each
+ * AI request spends a ticket from it.
+ *
+ * Behaviour is scripted with rules (fixed status, extra latency, a number of
+ * times), a base latency and a random failure rate. Tests use the methods;
+ * anything else can drive the same controls over HTTP:
+ *
+ *   GET    /__mock/requests         requests received, oldest first
+ *   POST   /__mock/rules            add a MockRule
+ *   DELETE /__mock/rules            drop all rules
+ *   POST   /__mock/live/:stream     { status } -- what the stream's status reports
+ *   POST   /__mock/reset            rules, requests, deposit and streams back to the start
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { SenderInfo, TxResult } from '@naap/livepeer-node-client';
+import {
+  CAPABILITIES,
+  CURRENT_ROUND,
+  MOCK_ETH_ADDRESS,
+  NODE_STATUS,
+  ORCHESTRATORS,
+  PROTOCOL_PARAMETERS,
+  fakeImage,
+  fakeSpeech,
+  hash,
+  initialSenderInfo,
+  llmReply,
+} from './fixtures.js';
+
+export type MockApi = 'cli' | 'ai';
+
+export interface MockRule {
+  /** Only requests to this API; both when omitted. */
+  api?: MockApi;
+  /** HTTP method; any when omitted. */
+  method?: string;
+  /** Exact path, or a prefix ending in '*' (e.g. '/live/*'). */
+  path: string;
+  /** Answer with this status instead of the normal response. */
+  status?: number;
+  /** Answer with this body instead (status 200 unless `status` is set). */
+  body?: unknown;
+  /** Extra delay before answering. */
+  latencyMs?: number;
+  /** Apply to this many requests, then drop the rule; unlimited when omitted. */
+  times?: number;
+}
+
+export interface MockNodeOptions {
+  /** Interface to listen on. */
+  host?: string;
+  /** 0 picks a free port. */
+  cliPort?: number;
+  aiPort?: number;
+  /** Delay before every answer: fixed, or a random [min, max]. */
+  latencyMs?: number | [number, number];
+  /** Fraction of AI requests answered with a 503. */
+  failureRate?: number;
+  /** Wei taken from the deposit per AI request. */
+  ticketCostWei?: string;
+  /** Delay between streamed LLM chunks. */
+  streamChunkDelayMs?: number;
+  rules?: MockRule[];
+}
+
+export interface RecordedRequest {
+  api: MockApi;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  /** Parsed JSON, raw text, or `{ multipart: true, bytes }` for uploads. */
+  body: unknown;
+  at: number;
+}
+
+interface LiveStream {
+  params: Record<string, unknown>;
+  status: string;
+}
+
+interface Reply {
+  status?: number;
+  json?: unknown;
+  raw?: { contentType: string; data: Buffer };
+  /** Handled by the route (streaming). */
+  streamed?: boolean;
+}
+
+const DEFAULTS = {
+  host: '127.0.0.1',
+  cliPort: 0,
+  aiPort: 0,
+  latencyMs: 0 as number | [number, number],
+  failureRate: 0,
+  ticketCostWei: '1000000000000000',
+  streamChunkDelayMs: 10,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockLivepeerNode {
+  readonly requests: RecordedRequest[] = [];
+
+  private options: typeof DEFAULTS;
+  private initialRules: MockRule[];
+  private rules: MockRule[];
+  private sender: SenderInfo = initialSenderInfo();
+  private liveStreams = new Map<string, LiveStream>();
+  private txCount = 0;
+  private servers: Partial<Record<MockApi, Server>> = {};
+
+  constructor(options: MockNodeOptions = {}) {
+    const { rules = [], ...rest } = options;
+    // Options left undefined keep their defaults
+    const set = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined));
+    this.options = { ...DEFAULTS, ...set };
+    this.initialRules = rules;
+    this.rules = rules.map((rule) => ({ ...rule }));
+  }
+
+  get cliUrl(): string {
+    return this.url('cli');
+  }
+
+  get aiUrl(): string {
+    return this.url('ai');
+  }
+
+  async start(): Promise<{ cliUrl: string; aiUrl: string }> {
+    await this.listen('cli', this.options.cliPort);
+    await this.listen('ai', this.options.aiPort);
+    return { cliUrl: this.cliUrl, aiUrl: this.aiUrl };
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(
+      Object.values(this.servers).map(
+        (server) => new Promise<void>((resolve) => server.close(() => resolve()))
+      )
+    );
+    this.servers = {};
+  }
+
+  addRule(rule: MockRule): void {
+    this.rules.push({ ...rule });
+  }
+
+  clearRules(): void {
+    this.rules = [];
+  }
+
+  /** What GET /live/video-to-video/:stream/status reports for a started stream. */
+  setLiveStatus(stream: string, status: string): void {
+    const live = this.liveStreams.get(stream);
+    if (live) live.status = status;
+  }
+
+  senderInfo(): SenderInfo {
+    return structuredClone(this.sender);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.rules = this.initialRules.map((rule) => ({ ...rule }));
+    this.sender = initialSenderInfo();
+    this.liveStreams.clear();
+  }
+
+  // ─── Plumbing ──────────────────────────────────────────────────────────────
+
+  private url(api: MockApi): string {
+    const server = this.servers[api];
+    if (!server) throw new Error('MockLivepeerNode is not started');
+    const { port } = server.address() as AddressInfo;
+    const host = this.options.host === '0.0.0.0' ? '127.0.0.1' : this.options.host;
+    return `http://${host}:${port}`;
+  }
+
+  private listen(api: MockApi, port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handle(api, req, res).catch((err) => {
+        if (!res.headersSent) this.send(res, { status: 500, json: { error: String(err) } });
+        else res.end();
+      });
+    });
+    this.servers[api] = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.options.host, () => resolve());
+    });
+  }
+
+  private async handle(api: MockApi, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://mock').pathname;
+    const body = await readBody(req);
+
+    if (path.startsWith('/__mock/')) {
+      return this.send(res, this.control(method, path, body));
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).map(([k, v]) => [k, Array.isArray(v) ? v.join(', ') : v ?? ''])
+    );
+    this.requests.push({ api, method, path, headers, body, at: Date.now() });
+
+    const rule = this.matchRule(api, method, path);
+    await sleep(this.latency() + (rule?.latencyMs ?? 0));
+
+    if (rule && (rule.status !== undefined || rule.body !== undefined)) {
+      const status = rule.status ?? 200;
+      return this.send(res, { status, json: rule.body ?? { error: `mock ${status} for ${path}` } });
+    }
+    if (api === 'ai' && Math.random() < this.options.failureRate) {
+      return this.send(res, { status: 503, json: { error: 'mock orchestrator unavailable' } });
+    }
+
+    const reply = api === 'cli' ? this.cli(method, path, body) : await this.ai(method, path, body, res);
+    if (!reply.streamed) this.send(res, reply);
+  }
+
+  private matchRule(api: MockApi, method: string, path: string): MockRule | undefined {
+    const index = this.rules.findIndex(
+      (r) =>
+        (!r.api || r.api === api) &&
+        (!r.method || r.method.toUpperCase() === method) &&
+        (r.path.endsWith('*') ? path.startsWith(r.path.slice(0, -1)) : path === r.path)
+    );
+    if (index === -1) return undefined;
+    const rule = this.rules[index];
+    if (rule.times !== undefined && --rule.times <= 0) this.rules.splice(index, 1);
+    return rule;
+  }
+
+  private latency(): number {
+    const latency = this.options.latencyMs;
+    if (typeof latency === 'number') return latency;
+    const [min, max] = latency;
+    return min + Math.random() * (max - min);
+  }
+
+  private send(res: ServerResponse, reply: Reply): void {
+    if (reply.raw) {
+      res.writeHead(reply.status ?? 200, { 'Content-Type': reply.raw.contentType });
+      res.end(reply.raw.data);
+      return;
+    }
+    res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+    res.end(reply.json === undefined ? '' : JSON.stringify(reply.json));
+  }
+
+  private control(method: string, path: string, body: unknown): Reply {
+    if (method === 'GET' && path === '/__mock/requests') return { json: this.requests };
+    if (method === 'POST' && path === '/__mock/rules') {
+      const rule = body as MockRule;
+      if (!rule || typeof rule.path !== 'string') return { status: 400, json: { error: 'rule.path is required' } };
+      this.addRule(rule);
+      return { json: { rules: this.rules } };
+    }
+    if (method === 'DELETE' && path === '/__mock/rules') {
+      this.clearRules();
+      return { json: { rules: [] } };
+    }
+    if (method === 'POST' && path === '/__mock/reset') {
+      this.reset();
+      return { json: { reset: true } };
+    }
+    const live = /^\/__mock\/live\/([^/]+)$/.exec(path);
+    if (method === 'POST' && live) {
+      const status = (body as { status?: unknown })?.status;
+      if (!this.liveStreams.has(live[1]) || typeof status !== 'string') {
+        return { status: 404, json: { error: 'unknown stream or missing status' } };
+      }
+      this.setLiveStatus(live[1], status);
+      return { json: { stream: live[1], status } };
+    }
+    return { status: 404, json: { error: `unknown mock control ${method} ${path}` } };
+  }
+
+  // ─── CLI API ───────────────────────────────────────────────────────────────
+
+  private cli(method: string, path: string, body: unknown): Reply {
+    const input = (body ?? {}) as Record<string, unknown>;
+    if (method === 'GET') {
+      switch (path) {
+        case '/status':
+          return { json: NODE_STATUS };
+        case '/ethAddr':
+          return { json: MOCK_ETH_ADDRESS };
+        case '/EthChainID':
+          return { json: 42161 };
+        case '/registeredOrchestrators':
+          return { json: ORCHESTRATORS };
+        case '/getNetworkCapabilities':
+          return { json: networkCapabilities() };
+        case '/senderInfo':
+          return { json: this.sender };
+        case '/protocolParameters':
+          return { json: PROTOCOL_PARAMETERS };
+        case '/currentRound':
+          return { json: CURRENT_ROUND };
+        case '/delegatorInfo':
+          return { json: delegator() };
+        case '/unbondingLocks':
+          return { json: [] };
+        case '/tokenBalance':
+          return { json: '1000000000000000000000' };
+        case '/ethBalance':
+          return { json: '2000000000000000000' };
+        case '/maxGasPrice':
+          return { json: '0' };
+        case '/contractAddresses':
+          return { json: contractAddresses() };
+      }
+    }
+
+    if (method === 'POST') {
+      switch (path) {
+        case '/fundDeposit':
+          this.fund(input.amount, 0);
+          return { json: this.tx() };
+        case '/fundDepositAndReserve':
+          this.fund(input.depositAmount, input.reserveAmount);
+          return { json: this.tx() };
+        case '/unlock':
+          this.sender.withdrawRound = String(CURRENT_ROUND.number + 2);
+          return { json: this.tx() };
+        case '/cancelUnlock':
+          this.sender.withdrawRound = '0';
+          return { json: this.tx() };
+        case '/withdraw':
+          this.sender = { ...initialSenderInfo(), deposit: '0', reserve: { fundsRemaining: '0', claimedInCurrentRound: '0' } };
+          return { json: this.tx() };
+        case '/bond':
+        case '/unbond':
+        case '/rebond':
+        case '/withdrawStake':
+        case '/withdrawFees':
+        case '/claimEarnings':
+        case '/reward':
+          return { json: this.tx() };
+        case '/setMaxGasPrice':
+          return { json: undefined };
+      }
+    }
+    return { status: 404, json: { error: `mock CLI API has no ${method} ${path}` } };
+  }
+
+  private fund(deposit: unknown, reserve: unknown): void {
+    this.sender.deposit = (toWei(this.sender.deposit) + toWei(deposit)).toString();
+    this.sender.reserve.fundsRemaining = (toWei(this.sender.reserve.fundsRemaining) + toWei(reserve)).toString();
+  }
+
+  private tx(): TxResult {
+    this.txCount++;
+    return { hash: `0x${this.txCount.toString(16).padStart(64, '0')}`, status: 'success' };
+  }
+
+  // ─── AI API ────────────────────────────────────────────────────────────────
+
+  private async ai(method: string, path: string, body: unknown, res: ServerResponse): Promise<Reply> {
+    if (method === 'GET' && path === '/getNetworkCapabilities') return { json: networkCapabilities() };
+
+    const live = /^\/live\/video-to-video\/([^/]+)(\/update|\/status)?$/.exec(path);
+    if (live) return this.liveVideo(method, decodeURIComponent(live[1]), live[2], body);
+
+    if (method !== 'POST' || !/^\/[^/]+$/.test(path)) {
+      return { status: 404, json: { error: `mock AI API has no ${method} ${path}` } };
+    }
+
+    this.spendTicket();
+    const input = isRecord(body) ? body : {};
+    const prompt = typeof input.prompt === 'string' ? input.prompt : path.slice(1);
+    const seed = typeof input.seed === 'number' ? input.seed : hash(prompt);
+
+    switch (path) {
+      case '/text-to-image':
+      case '/image-to-image':
+      case '/upscale': {
+        const count = typeof input.num_images_per_prompt === 'number' ? Math.min(input.num_images_per_prompt, 8) : 1;
+        const width = Math.min(Number(input.width) || 512, 2048);
+        const height = Math.min(Number(input.height) || 512, 2048);
+        return {
+          json: {
+            images: Array.from({ length: count }, (_, i) => ({
+              url: fakeImage(prompt, seed + i, width, height),
+              seed: seed + i,
+              nsfw: false,
+            })),
+          },
+        };
+      }
+      case '/image-to-video':
+        return { json: { video: { url: fakeImage(prompt, seed) }, images: [{ url: fakeImage(prompt, seed), seed }] } };
+      case '/audio-to-text':
+        return { json: { text: 'This is a mock transcription.', chunks: [{ timestamp: [0, 1.5], text: 'This is a mock transcription.' }] } };
+      case '/segment-anything-2':
+        return { json: { masks: [fakeImage('mask', seed)], scores: [0.98], logits: [] } };
+      case '/image-to-text':
+        return { json: { text: 'A mock caption of the image.' } };
+      case '/text-to-speech':
+        return { raw: { contentType: 'audio/wav', data: fakeSpeech() } };
+      case '/llm':
+        return this.llm(input, res);
+      default:
+        // BYOC capability: echo the request
+        return { json: { capability: path.slice(1), echo: body } };
+    }
+  }
+
+  private async llm(input: Record<string, unknown>, res: ServerResponse): Promise<Reply> {
+    const chunks = llmReply(input.messages);
+    const model = typeof input.model === 'string' ? input.model : 'mock-llm';
+    if (!input.stream) {
+      const content = chunks.join('');
+      return {
+        json: {
+          model,
+          choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: chunks.length, total_tokens: 10 + chunks.length },
+        },
+      };
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    for (const [i, content] of chunks.entries()) {
+      const last = i === chunks.length - 1;
+      res.write(`data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content }, finish_reason: last ? 'stop' : null }] })}\n\n`);
+      await sleep(this.options.streamChunkDelayMs);
+    }
+    res.end('data: [DONE]\n\n');
+    return { streamed: true };
+  }
+
+  private liveVideo(method: string, stream: string, action: string | undefined, body: unknown): Reply {
+    const existing = this.liveStreams.get(stream);
+    if (!action && method === 'POST') {
+      const params = isRecord(body) && isRecord(body.params) ? body.params : {};
+      this.liveStreams.set(stream, { params, status: 'running' });
+      const base = `${this.aiUrl}/live/video-to-video/${encodeURIComponent(stream)}`;
+      return {
+        json: {
+          publishUrl: `${base}/whip`,
+          subscribeUrl: `${base}/whep`,
+          controlUrl: `${base}/update`,
+          eventsUrl: `${base}/events`,
+        },
+      };
+    }
+    if (!existing) return { status: 404, json: { error: `stream '${stream}' not found` } };
+    if (action === '/update' && method === 'POST') {
+      existing.params = { ...existing.params, ...(isRecord(body) ? body : {}) };
+      return { json: { updated: true } };
+    }
+    if (action === '/status' && method === 'GET') {
+      return { json: { status: existing.status, params: existing.params } };
+    }
+    return { status: 404, json: { error: `mock AI API has no ${method} for live streams` } };
+  }
+
+  private spendTicket(): void {
+    const deposit = toWei(this.sender.deposit) - toWei(this.options.ticketCostWei);
+    this.sender.deposit = (deposit > 0n ? deposit : 0n).toString();
+  }
+}
+
+function networkCapabilities() {
+  return {
+    capabilities: CAPABILITIES,
+    orchestrators: ORCHESTRATORS.map((o) => ({ address: o.address, capabilities: CAPABILITIES.map((c) => c.id) })),
+  };
+}
+
+function delegator() {
+  return {
+    address: MOCK_ETH_ADDRESS,
+    bondedAmount: '10000000000000000000000',
+    fees: '500000000000000000',
+    delegateAddress: ORCHESTRATORS[0].address,
+    delegatedAmount: '10000000000000000000000',
+    startRound: '3000',
+    lastClaimRound: '3240',
+    pendingStake: '10050000000000000000000',
+    pendingFees: '250000000000000000',
+    status: 'Bonded',
+  };
+}
+
+function contractAddresses() {
+  const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+  return {
+    controller: address(1),
+    bondingManager: address(2),
+    roundsManager: address(3),
+    token: address(4),
+    minter: address(5),
+    ticketBroker: address(6),
+    serviceRegistry: address(7),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toWei(value: unknown): bigint {
+  const text = String(value ?? '');
+  return /^\d+$/.test(text) ? BigInt(text) : 0n;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const data = Buffer.concat(chunks);
+  if (data.length === 0) return undefined;
+
+  const contentType = req.headers['content-type'] ?? '';
+  if (contentType.startsWith('multipart/form-data')) return { multipart: true, bytes: data.length };
+  const text = data.toString('utf8');
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
@@ -0,0 +1,134 @@
+/**
+ * MockLivepeerNode Tests
+ * The mock driven through the real go-livepeer clients
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { LivepeerAIClient, LivepeerCliClient } from '@naap/livepeer-node-client';
+import { MockLivepeerNode } from '../MockLivepeerNode.js';
+
+describe('MockLivepeerNode', () => {
+  const node = new MockLivepeerNode({ ticketCostWei: '1000', streamChunkDelayMs: 0 });
+  let ai: LivepeerAIClient;
+  let cli: LivepeerCliClient;
+
+  beforeAll(async () => {
+    const { aiUrl, cliUrl } = await node.start();
+    ai = new LivepeerAIClient(aiUrl);
+    cli = new LivepeerCliClient(cliUrl);
+  });
+
+  afterAll(() => node.stop());
+
+  beforeEach(() => node.reset());
+
+  describe('AI API', () => {
+    it('lists network capabilities', async () => {
+      const capabilities = await ai.getNetworkCapabilities();
+      expect(capabilities.map((c) => c.name)).toContain('text-to-image');
+      expect(capabilities.map((c) => c.name)).toContain('llm');
+    });
+
+    it('returns deterministic fake images', async () => {
+      const first = await ai.textToImage({ prompt: 'a lighthouse', num_images_per_prompt: 2 });
+      const second = await ai.textToImage({ prompt: 'a lighthouse', num_images_per_prompt: 2 });
+
+      expect(first.images).toHaveLength(2);
+      expect(first.images[0].url).toMatch(/^data:image\/svg\+xml;base64,/);
+      expect(first).toEqual(second);
+    });
+
+    it('answers LLM requests with and without streaming', async () => {
+      const messages = [{ role: 'user', content: 'hello' }];
+      const response = await ai.llm({ messages });
+      expect(response.choices[0].message.content).toContain('hello');
+
+      const chunks: string[] = [];
+      for await (const chunk of ai.llmStream({ messages })) chunks.push(chunk.choices[0].delta.content ?? '');
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(response.choices[0].message.content);
+    });
+
+    it('starts, updates and reports live video-to-video streams', async () => {
+      const session = await ai.startLiveVideoToVideo('stream-1', { model_id: 'streamdiffusion' });
+      expect(session.publishUrl).toContain('/live/video-to-video/stream-1');
+
+      await ai.updateLiveVideoToVideo('stream-1', { prompt: 'neon' });
+      expect(await ai.getLiveVideoStatus('stream-1')).toMatchObject({ status: 'running' });
+
+      node.setLiveStatus('stream-1', 'stopped');
+      expect(await ai.getLiveVideoStatus('stream-1')).toMatchObject({ status: 'stopped' });
+      await expect(ai.getLiveVideoStatus('unknown')).rejects.toThrow(/404/);
+    });
+
+    it('records requests', async () => {
+      await ai.textToImage({ prompt: 'x' });
+
+      const [request] = node.requests;
+      expect(request).toMatchObject({ api: 'ai', method: 'POST', path: '/text-to-image', body: { prompt: 'x' } });
+      expect(request.headers['content-type']).toBe('application/json');
+    });
+  });
+
+  describe('scripting', () => {
+    it('fails a path for the scripted number of times', async () => {
+      node.addRule({ path: '/text-to-image', status: 503, times: 2 });
+
+      await expect(ai.textToImage({ prompt: 'x' })).rejects.toThrow(/503/);
+      await expect(ai.textToImage({ prompt: 'x' })).rejects.toThrow(/503/);
+      await expect(ai.textToImage({ prompt: 'x' })).resolves.toHaveProperty('images');
+    });
+
+    it('adds scripted latency', async () => {
+      node.addRule({ path: '/llm', latencyMs: 50 });
+
+      const started = Date.now();
+      await ai.llm({ messages: [{ role: 'user', content: 'slow' }] });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('accepts rules over HTTP', async () => {
+      await fetch(`${node.aiUrl}/__mock/rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: '/live/*', status: 500 }),
+      });
+
+      await expect(ai.startLiveVideoToVideo('s', { model_id: 'm' })).rejects.toThrow(/500/);
+    });
+
+    it('fails every AI request at a failure rate of 1', async () => {
+      const flaky = new MockLivepeerNode({ failureRate: 1 });
+      const { aiUrl } = await flaky.start();
+      try {
+        await expect(new LivepeerAIClient(aiUrl).textToImage({ prompt: 'x' })).rejects.toThrow(/503/);
+      } finally {
+        await flaky.stop();
+      }
+    });
+  });
+
+  describe('CLI API', () => {
+    it('serves node and protocol info', async () => {
+      expect((await cli.getStatus()).version).toContain('mock');
+      expect(await cli.getRegisteredOrchestrators()).toHaveLength(3);
+      expect((await cli.getProtocolParameters()).currentRound).toBe((await cli.getCurrentRound()).number);
+    });
+
+    it('tracks the sender deposit through funding, tickets and withdrawal', async () => {
+      const before = await cli.getSenderInfo();
+      await cli.fundDeposit('5000');
+      await ai.textToImage({ prompt: 'x' });
+
+      const after = await cli.getSenderInfo();
+      expect(BigInt(after.deposit)).toBe(BigInt(before.deposit) + 5000n - 1000n);
+
+      await cli.unlock();
+      expect((await cli.getSenderInfo()).withdrawRound).not.toBe('0');
+
+      const tx = await cli.withdraw();
+      expect(tx.status).toBe('success');
+      expect((await cli.getSenderInfo()).deposit).toBe('0');
+    });
+  });
+});
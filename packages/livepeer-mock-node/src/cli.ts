@@ -0,0 +1,43 @@
+/**
+ * Standalone mock node, on go-livepeer's default ports.
+ *
+ *   MOCK_HOST            interface to listen on (127.0.0.1; 0.0.0.0 in Docker)
+ *   MOCK_CLI_PORT        CLI API port (7935)
+ *   MOCK_AI_PORT         AI API port (9935)
+ *   MOCK_LATENCY_MS      fixed delay, or "min-max" for a random one
+ *   MOCK_FAILURE_RATE    fraction of AI requests answered with 503
+ *   MOCK_TICKET_COST_WEI wei taken from the deposit per AI request
+ *   MOCK_RULES           JSON array of MockRule to start with
+ */
+
+import { MockLivepeerNode, type MockRule } from './MockLivepeerNode.js';
+
+function latency(value: string | undefined): number | [number, number] | undefined {
+  if (!value) return undefined;
+  const [min, max] = value.split('-').map(Number);
+  return max === undefined ? min : [min, max];
+}
+
+const node = new MockLivepeerNode({
+  host: process.env.MOCK_HOST || '127.0.0.1',
+  cliPort: Number(process.env.MOCK_CLI_PORT || 7935),
+  aiPort: Number(process.env.MOCK_AI_PORT || 9935),
+  latencyMs: latency(process.env.MOCK_LATENCY_MS),
+  failureRate: process.env.MOCK_FAILURE_RATE ? Number(process.env.MOCK_FAILURE_RATE) : undefined,
+  ticketCostWei: process.env.MOCK_TICKET_COST_WEI,
+  rules: process.env.MOCK_RULES ? (JSON.parse(process.env.MOCK_RULES) as MockRule[]) : [],
+});
+
+node
+  .start()
+  .then(({ cliUrl, aiUrl }) => {
+    console.log(`[livepeer-mock-node] CLI API on ${cliUrl}, AI API on ${aiUrl}`);
+  })
+  .catch((err) => {
+    console.error('Failed to start livepeer-mock-node:', err);
+    process.exit(1);
+  });
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => void node.stop().then(() => process.exit(0)));
+}
@@ -0,0 +1,131 @@
+/**
+ * Canned go-livepeer data and fake pipeline outputs.
+ *
+ * Outputs are deterministic for a given request, so tests can assert on
+ * them and result caches see stable values.
+ */
+
+import type {
+  Capability,
+  NodeStatus,
+  ProtocolParameters,
+  RoundInfo,
+  SenderInfo,
+  Transcoder,
+} from '@naap/livepeer-node-client';
+
+export const MOCK_ETH_ADDRESS = '0x1234567890123456789012345678901234567890';
+
+export const CAPABILITIES: Capability[] = [
+  { id: 27, name: 'text-to-image', description: 'Generate images from text prompts', mandatory: false },
+  { id: 28, name: 'image-to-image', description: 'Transform images with AI', mandatory: false },
+  { id: 29, name: 'image-to-video', description: 'Animate images into videos', mandatory: false },
+  { id: 30, name: 'upscale', description: 'Upscale images to higher resolution', mandatory: false },
+  { id: 31, name: 'audio-to-text', description: 'Transcribe audio to text', mandatory: false },
+  { id: 32, name: 'segment-anything-2', description: 'Segment objects in images', mandatory: false },
+  { id: 33, name: 'llm', description: 'Large language model inference', mandatory: false },
+  { id: 34, name: 'image-to-text', description: 'Caption images', mandatory: false },
+  { id: 35, name: 'live-video-to-video', description: 'Real-time video transformation', mandatory: false },
+  { id: 36, name: 'text-to-speech', description: 'Synthesize speech from text', mandatory: false },
+];
+
+export const ORCHESTRATORS: Transcoder[] = [1, 2, 3].map((n) => ({
+  address: `0x${String(n).repeat(40)}`,
+  serviceURI: `https://orchestrator-${n}.mock.livepeer:8935`,
+  active: true,
+  delegatedStake: `${n * 100_000}000000000000000000`,
+  rewardCut: String(n * 5000),
+  feeShare: String(400_000 + n * 50_000),
+  lastRewardRound: '3245',
+  activationRound: '1000',
+  deactivationRound: '0',
+  pricePerPixel: String(800 + n * 200),
+  status: 'Registered',
+}));
+
+export const NODE_STATUS: NodeStatus = {
+  address: MOCK_ETH_ADDRESS,
+  serviceURI: 'https://gateway.mock.livepeer:8935',
+  lastRewardRound: 3245,
+  rewardCut: 0,
+  feeShare: 0,
+  delegatedStake: '0',
+  active: true,
+  version: '0.8.0-mock',
+};
+
+export const PROTOCOL_PARAMETERS: ProtocolParameters = {
+  roundLength: 5760,
+  currentRound: 3245,
+  lastInitializedRound: 3245,
+  totalBonded: '15000000000000000000000000',
+  totalSupply: '30000000000000000000000000',
+  inflation: '1500',
+  inflationChange: '3',
+  targetBondingRate: '500000',
+  paused: false,
+};
+
+export const CURRENT_ROUND: RoundInfo = {
+  number: 3245,
+  initialized: true,
+  startBlock: 18_650_000,
+  length: 5760,
+};
+
+export function initialSenderInfo(): SenderInfo {
+  return {
+    deposit: '5000000000000000000',
+    withdrawRound: '0',
+    reserve: { fundsRemaining: '2500000000000000000', claimedInCurrentRound: '0' },
+  };
+}
+
+/** Small stable hash for deriving fake outputs from a request. */
+export function hash(value: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/** An SVG data URI labelled with the prompt, coloured by the seed. */
+export function fakeImage(prompt: string, seed: number, width = 512, height = 512): string {
+  const hue = seed % 360;
+  const label = prompt.slice(0, 60).replace(/[<>&"]/g, '');
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="hsl(${hue},60%,45%)"/>` +
+    `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="16" text-anchor="middle">${label}</text>` +
+    '</svg>';
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+/** A short silent 16-bit mono WAV. */
+export function fakeSpeech(seconds = 1, sampleRate = 8000): Buffer {
+  const dataBytes = seconds * sampleRate * 2;
+  const wav = Buffer.alloc(44 + dataBytes);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataBytes, 40);
+  return wav;
+}
+
+/** The canned LLM answer, split into the chunks a stream sends. */
+export function llmReply(messages: unknown): string[] {
+  const list = Array.isArray(messages) ? messages : [];
+  const last = [...list].reverse().find((m) => m?.role === 'user');
+  const question = typeof last?.content === 'string' ? last.content : '';
+  return `This is a mock reply to: ${question || 'your message'}`.split(/(?<= )/);
+}
@@ -0,0 +1,13 @@
+/**
+ * @naap/livepeer-mock-node
+ *
+ * Scriptable mock of a go-livepeer gateway node for local development and
+ * tests. Serves the CLI API and the AI API that `LivepeerCliClient` and
+ * `LivepeerAIClient` call, with configurable latency, failures and fake
+ * outputs. Run it standalone with `npm start` (see cli.ts) or start one
+ * per test suite.
+ */
+
+export { MockLivepeerNode } from './MockLivepeerNode.js';
+export type { MockApi, MockNodeOptions, MockRule, RecordedRequest } from './MockLivepeerNode.js';
+export { CAPABILITIES, ORCHESTRATORS, fakeImage } from './fixtures.js';
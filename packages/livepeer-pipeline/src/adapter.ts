@@ -5,6 +5,7 @@
  * No changes to gateway core or other adapters.
  */
 
+import type { PipelineFieldError } from './envelope.js';
 import type { PipelineDescriptor } from './registry.js';
 
 export interface PipelineContext {
@@ -65,6 +66,8 @@ export interface StreamSession {
 export interface ValidationResult {
   valid: boolean;
   errors?: string[];
+  /** The same problems, located by JSON pointer */
+  fields?: PipelineFieldError[];
 }
 
 /**
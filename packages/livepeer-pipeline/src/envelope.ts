@@ -15,6 +15,15 @@ export interface PipelineResponseMetadata {
   orchestrator: string;
   /** Whether the result was served from cache */
   cached: boolean;
+  /** Orchestrators tried, when a routing policy allowed failover */
+  attempts?: number;
+}
+
+/** One input field that failed schema validation. */
+export interface PipelineFieldError {
+  /** JSON pointer into the request input, '' for the input itself (e.g. '/messages/0/role') */
+  path: string;
+  message: string;
 }
 
 export interface PipelineResponse<T = unknown> {
@@ -33,5 +42,46 @@ export interface PipelineResponse<T = unknown> {
   /** Request metadata */
   metadata: PipelineResponseMetadata;
   /** Error details (only when status is 'error') */
-  error?: { code: string; message: string };
+  error?: {
+    code: string;
+    message: string;
+    /** Per-field problems when `code` is 'INVALID_INPUT' */
+    fields?: PipelineFieldError[];
+    /**
+     * Structured context: the exceeded budget for 'SPEND_LIMIT_EXCEEDED',
+     * or the orchestrators tried when failover gave up
+     */
+    details?: unknown;
+  };
+}
+
+export type PipelineBatchStatus = 'running' | 'completed' | 'partial' | 'failed';
+
+export interface PipelineBatchItem<T = unknown> {
+  /** Position of the item in the submitted array */
+  index: number;
+  pipeline: string;
+  status: 'pending' | 'running' | 'success' | 'error';
+  /** Times the item has been executed (retries included) */
+  attempts: number;
+  /** Envelope of the latest attempt, null until it finishes */
+  response: PipelineResponse<T> | null;
+}
+
+export interface PipelineBatch<T = unknown> {
+  version: '1.0';
+  batchId: string;
+  /** `running` until every item finished; then `completed`, `failed`, or `partial` (some items failed) */
+  status: PipelineBatchStatus;
+  createdAt: string;
+  completedAt: string | null;
+  summary: {
+    total: number;
+    pending: number;
+    succeeded: number;
+    failed: number;
+    /** Sum of `metadata.cost` over finished items, in wei */
+    cost: string;
+  };
+  items: PipelineBatchItem<T>[];
 }
@@ -12,4 +12,11 @@
 
 export type { IPipelineAdapter, PipelineRequest, PipelineResult, StreamRequest, StreamSession, PipelineContext, ValidationResult } from './adapter.js';
 export type { IPipelineRegistry, PipelineDescriptor, ModelDescriptor, PricingInfo } from './registry.js';
-export type { PipelineResponse, PipelineResponseMetadata } from './envelope.js';
+export type {
+  PipelineResponse,
+  PipelineResponseMetadata,
+  PipelineFieldError,
+  PipelineBatch,
+  PipelineBatchItem,
+  PipelineBatchStatus,
+} from './envelope.js';
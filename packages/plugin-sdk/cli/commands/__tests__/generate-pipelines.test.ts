@@ -0,0 +1,121 @@
+/**
+ * Generate Pipelines Command Tests
+ *
+ * Validates `naap-plugin generate pipelines`:
+ * - Pipeline names map to valid TypeScript identifiers
+ * - JSON Schema keywords map to the expected TypeScript types
+ * - Generated module declares request/response types and the PipelineTypes map
+ * - Pipelines without schemas fall back to loose types
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  pipelineTypeName,
+  schemaToType,
+  generatePipelineTypes,
+} from '../generate-pipelines.js';
+
+describe('Generate Pipelines — pipelineTypeName', () => {
+  it('converts kebab-case pipeline names to PascalCase', () => {
+    expect(pipelineTypeName('text-to-image')).toBe('TextToImage');
+    expect(pipelineTypeName('segment-anything-2')).toBe('SegmentAnything2');
+    expect(pipelineTypeName('my.custom_pipeline')).toBe('MyCustomPipeline');
+  });
+
+  it('prefixes names that would start with a digit', () => {
+    expect(pipelineTypeName('3d-render')).toBe('Pipeline3dRender');
+  });
+});
+
+describe('Generate Pipelines — schemaToType', () => {
+  it('maps primitive types', () => {
+    expect(schemaToType({ type: 'string' })).toBe('string');
+    expect(schemaToType({ type: 'integer' })).toBe('number');
+    expect(schemaToType({ type: 'number' })).toBe('number');
+    expect(schemaToType({ type: 'boolean' })).toBe('boolean');
+    expect(schemaToType({ type: ['string', 'null'] })).toBe('string | null');
+  });
+
+  it('maps enum and const to literal types', () => {
+    expect(schemaToType({ type: 'string', enum: ['system', 'user'] })).toBe('"system" | "user"');
+    expect(schemaToType({ const: 3 })).toBe('3');
+  });
+
+  it('maps arrays, wrapping complex item types', () => {
+    expect(schemaToType({ type: 'array', items: { type: 'string' } })).toBe('string[]');
+    expect(schemaToType({ type: 'array', items: { enum: ['a', 'b'] } })).toBe('Array<"a" | "b">');
+    expect(schemaToType({ type: 'array' })).toBe('unknown[]');
+  });
+
+  it('marks optional properties and quotes non-identifier keys', () => {
+    const type = schemaToType({
+      type: 'object',
+      required: ['prompt'],
+      properties: {
+        prompt: { type: 'string', description: 'What to draw' },
+        'num-steps': { type: 'integer' },
+      },
+    });
+    expect(type).toContain('/** What to draw */');
+    expect(type).toContain('prompt: string;');
+    expect(type).toContain('"num-steps"?: number;');
+  });
+
+  it('emits index signatures for additionalProperties schemas', () => {
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'number' } }))
+      .toBe('{\n  [key: string]: number;\n}');
+    expect(schemaToType({ type: 'object' })).toBe('Record<string, unknown>');
+  });
+
+  it('treats binary media fields as strings and unknown schemas as unknown', () => {
+    expect(schemaToType({ format: 'binary' })).toBe('string');
+    expect(schemaToType({ type: 'string', format: 'binary' })).toBe('string');
+    expect(schemaToType(undefined)).toBe('unknown');
+    expect(schemaToType({ description: 'anything' })).toBe('unknown');
+  });
+});
+
+describe('Generate Pipelines — generatePipelineTypes', () => {
+  const pipelines = [
+    {
+      name: 'text-to-image',
+      source: 'builtin',
+      inputSchema: {
+        type: 'object',
+        required: ['prompt'],
+        properties: { prompt: { type: 'string' }, seed: { type: 'integer' } },
+      },
+      outputSchema: {
+        type: 'object',
+        properties: { images: { type: 'array', items: { type: 'object', properties: { url: { type: 'string' } } } } },
+      },
+    },
+    { name: 'watermark', source: 'byoc' },
+  ];
+
+  it('declares request and response types per pipeline', () => {
+    const output = generatePipelineTypes(pipelines, 'http://localhost:3000');
+    expect(output).toContain('export interface TextToImageRequest {');
+    expect(output).toContain('  prompt: string;');
+    expect(output).toContain('  seed?: number;');
+    expect(output).toContain('export interface TextToImageResponse {');
+    expect(output).toContain('// ─── watermark (BYOC)');
+  });
+
+  it('falls back to loose types when a pipeline has no schema', () => {
+    const output = generatePipelineTypes(pipelines, 'http://localhost:3000');
+    expect(output).toContain('export type WatermarkRequest = Record<string, unknown>;');
+    expect(output).toContain('export type WatermarkResponse = unknown;');
+  });
+
+  it('builds a PipelineTypes map sorted by pipeline name', () => {
+    const output = generatePipelineTypes([...pipelines].reverse(), 'http://localhost:3000');
+    expect(output).toContain('"text-to-image": { request: TextToImageRequest; response: TextToImageResponse };');
+    expect(output.indexOf('TextToImageRequest {')).toBeLessThan(output.indexOf('WatermarkRequest ='));
+    expect(output).toContain('export type PipelineName = keyof PipelineTypes;');
+  });
+
+  it('records where the types came from', () => {
+    expect(generatePipelineTypes([], 'https://naap.example.com')).toContain('from https://naap.example.com');
+  });
+});
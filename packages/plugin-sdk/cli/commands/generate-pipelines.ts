@@ -0,0 +1,245 @@
+/**
+ * generate pipelines command
+ * Emit TypeScript request/response types for the pipelines a NAAP
+ * deployment currently serves, from the JSON schemas in its pipeline registry
+ *
+ * Usage:
+ *   naap-plugin generate pipelines [options]
+ *
+ * Examples:
+ *   naap-plugin generate pipelines
+ *   naap-plugin generate pipelines --url https://naap.example.com --output src/types/pipelines.ts
+ *   naap-plugin generate pipelines --only text-to-image,llm
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import fs from 'fs-extra';
+
+const DEFAULT_SHELL_URL = process.env.NAAP_SHELL_URL || 'http://localhost:3000';
+const DEFAULT_OUTPUT = 'src/generated/pipelines.ts';
+
+/** The parts of a registry descriptor the generator reads. */
+export interface PipelineSchemaDescriptor {
+  name: string;
+  type?: string;
+  source?: string;
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+type Schema = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Schema → TypeScript
+// ---------------------------------------------------------------------------
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** 'text-to-image' → 'TextToImage'; names that would start with a digit get a 'Pipeline' prefix. */
+export function pipelineTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Pipeline${pascal}`;
+}
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function docComment(description: unknown, indent: string): string {
+  if (typeof description !== 'string' || !description.trim()) return '';
+  return `${indent}/** ${description.trim().replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`;
+}
+
+/**
+ * Render a JSON Schema as a TypeScript type expression. Handles the subset
+ * pipeline schemas use (type, enum, const, properties, required, items,
+ * additionalProperties, anyOf/oneOf); anything else becomes `unknown`.
+ * Binary media fields are sent as URLs or data URIs, so they map to `string`.
+ */
+export function schemaToType(schema: unknown, indent = ''): string {
+  if (!isSchema(schema)) return 'unknown';
+
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ') || 'never';
+  }
+  if ('const' in schema) return JSON.stringify(schema.const);
+
+  const variants = (schema.anyOf ?? schema.oneOf) as unknown;
+  if (Array.isArray(variants)) {
+    return variants.map(variant => schemaToType(variant, indent)).join(' | ') || 'unknown';
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => schemaToType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schemaToType(schema.items, indent);
+      return /^[A-Za-z0-9_]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      if (isSchema(schema.properties)) return objectType(schema, indent);
+      return schema.format === 'binary' ? 'string' : 'unknown';
+  }
+}
+
+function objectType(schema: Schema, indent: string): string {
+  const properties = isSchema(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+  const inner = `${indent}  `;
+
+  const lines = Object.entries(properties).map(([key, child]) => {
+    const optional = required.has(key) ? '' : '?';
+    const doc = docComment(isSchema(child) ? child.description : undefined, inner);
+    return `${doc}${inner}${propertyKey(key)}${optional}: ${schemaToType(child, inner)};`;
+  });
+
+  if (isSchema(schema.additionalProperties)) {
+    lines.push(`${inner}[key: string]: ${schemaToType(schema.additionalProperties, inner)};`);
+  } else if (lines.length === 0) {
+    return schema.additionalProperties === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function declaration(name: string, type: string): string {
+  return type.startsWith('{') ? `export interface ${name} ${type}` : `export type ${name} = ${type};`;
+}
+
+/** Build the contents of the generated types module. */
+export function generatePipelineTypes(pipelines: PipelineSchemaDescriptor[], source: string): string {
+  const sorted = [...pipelines].sort((a, b) => a.name.localeCompare(b.name));
+  const out: string[] = [
+    '/**',
+    ' * Pipeline request/response types',
+    ' *',
+    ` * Generated by \`naap-plugin generate pipelines\` from ${source}.`,
+    ' * Do not edit by hand; re-run the command when pipelines change.',
+    ' *',
+    ' * @example',
+    " * const { execute } = usePipeline<TextToImageResponse, TextToImageRequest>('text-to-image');",
+    ' */',
+    '',
+  ];
+
+  for (const pipeline of sorted) {
+    const typeName = pipelineTypeName(pipeline.name);
+    const origin = pipeline.source === 'byoc' ? ' (BYOC)' : '';
+    out.push(`// ─── ${pipeline.name}${origin} ${'─'.repeat(Math.max(3, 70 - pipeline.name.length - origin.length))}`);
+    out.push('');
+    out.push(declaration(
+      `${typeName}Request`,
+      pipeline.inputSchema ? schemaToType(pipeline.inputSchema) : 'Record<string, unknown>'
+    ));
+    out.push('');
+    out.push(declaration(`${typeName}Response`, schemaToType(pipeline.outputSchema)));
+    out.push('');
+  }
+
+  out.push('/** Request and response type of every pipeline, by name. */');
+  if (sorted.length === 0) {
+    out.push('export interface PipelineTypes {}');
+  } else {
+    out.push('export interface PipelineTypes {');
+    for (const pipeline of sorted) {
+      const typeName = pipelineTypeName(pipeline.name);
+      out.push(`  ${JSON.stringify(pipeline.name)}: { request: ${typeName}Request; response: ${typeName}Response };`);
+    }
+    out.push('}');
+  }
+  out.push('');
+  out.push('export type PipelineName = keyof PipelineTypes;');
+  out.push("export type PipelineRequestOf<P extends PipelineName> = PipelineTypes[P]['request'];");
+  out.push("export type PipelineResponseOf<P extends PipelineName> = PipelineTypes[P]['response'];");
+  out.push('');
+  return out.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Registry fetch
+// ---------------------------------------------------------------------------
+
+async function fetchPipelines(shellUrl: string): Promise<PipelineSchemaDescriptor[]> {
+  const url = `${shellUrl.replace(/\/$/, '')}/api/v1/pipelines/pipelines`;
+  const response = await fetch(url, {
+    headers: process.env.NAAP_API_TOKEN ? { Authorization: `Bearer ${process.env.NAAP_API_TOKEN}` } : {},
+  });
+  if (!response.ok) {
+    throw new Error(`Pipeline registry returned ${response.status} (${url})`);
+  }
+  const body = await response.json() as { data?: PipelineSchemaDescriptor[] };
+  if (!Array.isArray(body.data)) {
+    throw new Error(`Unexpected pipeline registry response from ${url}`);
+  }
+  return body.data;
+}
+
+// ---------------------------------------------------------------------------
+// Command registration
+// ---------------------------------------------------------------------------
+
+export const generatePipelinesCommand = new Command('pipelines')
+  .description('Generate typed usePipeline request/response types from the live pipeline registry')
+  .option('-u, --url <url>', 'NAAP shell URL (or set NAAP_SHELL_URL)', DEFAULT_SHELL_URL)
+  .option('-o, --output <file>', 'File to write', DEFAULT_OUTPUT)
+  .option('--only <pipelines>', 'Comma-separated pipeline names to include')
+  .option('--dry-run', 'Print the generated types instead of writing them')
+  .action(async (options: { url: string; output: string; only?: string; dryRun?: boolean }) => {
+    const spinner = ora(`Fetching pipelines from ${options.url}...`).start();
+    try {
+      let pipelines = await fetchPipelines(options.url);
+      if (options.only) {
+        const wanted = new Set(options.only.split(',').map(name => name.trim()).filter(Boolean));
+        const missing = [...wanted].filter(name => !pipelines.some(p => p.name === name));
+        if (missing.length > 0) {
+          spinner.warn(`Not in the registry: ${missing.join(', ')}`);
+        }
+        pipelines = pipelines.filter(p => wanted.has(p.name));
+      }
+      spinner.succeed(`Found ${pipelines.length} pipelines`);
+
+      const untyped = pipelines.filter(p => !p.inputSchema).map(p => p.name);
+      if (untyped.length > 0) {
+        console.log(chalk.yellow(`  No input schema (typed as Record<string, unknown>): ${untyped.join(', ')}`));
+      }
+
+      const content = generatePipelineTypes(pipelines, options.url);
+      if (options.dryRun) {
+        console.log(content);
+        return;
+      }
+
+      const outputPath = path.isAbsolute(options.output) ? options.output : path.join(process.cwd(), options.output);
+      await fs.ensureDir(path.dirname(outputPath));
+      await fs.writeFile(outputPath, content, 'utf-8');
+      console.log(chalk.green(`✓ Wrote ${path.relative(process.cwd(), outputPath)}`));
+    } catch (err) {
+      spinner.fail('Failed to generate pipeline types');
+      console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+      process.exit(1);
+    }
+  });
@@ -10,6 +10,9 @@
  *   naap-plugin generate plugin.md --output ./my-plugin
  *   naap-plugin generate plugin.md --dry-run
  *   naap-plugin generate plugin.md --skip-tests --skip-backend
+ *
+ * Subcommands:
+ *   naap-plugin generate pipelines   Typed pipeline request/response types (see generate-pipelines.ts)
  */
 
 import { Command } from 'commander';
@@ -25,6 +28,7 @@ import {
   type GeneratedFile,
   type LLMConfig,
 } from '../../src/ai/index.js';
+import { generatePipelinesCommand } from './generate-pipelines.js';
 
 export const generateCommand = new Command('generate')
   .description('Generate plugin code from a plugin.md specification')
@@ -225,6 +229,8 @@ export const generateCommand = new Command('generate')
     }
   });
 
+generateCommand.addCommand(generatePipelinesCommand);
+
 /**
  * Display file content preview in interactive mode
  * @internal Reserved for future interactive mode implementation
@@ -156,6 +156,7 @@ export {
   useLLM,
   useLiveSession,
   useAsyncJob,
+  usePipelineBatch,
   usePipelineQuota,
   usePipelineFlags,
 } from './usePipeline.js';
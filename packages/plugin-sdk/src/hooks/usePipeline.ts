@@ -32,8 +32,40 @@ interface PipelineEnvelope<T = unknown> {
     duration: number;
     orchestrator: string;
     cached: boolean;
+    /** Orchestrators tried, when a routing policy allowed failover */
+    attempts?: number;
   };
-  error?: { code: string; message: string };
+  error?: {
+    code: string;
+    message: string;
+    /** Per-field problems when `code` is 'INVALID_INPUT' */
+    fields?: Array<{ path: string; message: string }>;
+    /** The exceeded budget for 'SPEND_LIMIT_EXCEEDED', or the orchestrators tried when failover gave up */
+    details?: unknown;
+  };
+}
+
+interface PipelineBatchRequest {
+  pipeline: string;
+  model?: string;
+  input?: Record<string, unknown>;
+  params?: Record<string, unknown>;
+}
+
+interface PipelineBatch<T = unknown> {
+  version: string;
+  batchId: string;
+  status: 'running' | 'completed' | 'partial' | 'failed';
+  createdAt: string;
+  completedAt: string | null;
+  summary: { total: number; pending: number; succeeded: number; failed: number; cost: string };
+  items: Array<{
+    index: number;
+    pipeline: string;
+    status: 'pending' | 'running' | 'success' | 'error';
+    attempts: number;
+    response: PipelineEnvelope<T> | null;
+  }>;
 }
 
 // ─── Hooks ──────────────────────────────────────────────────────────────────
@@ -51,14 +83,17 @@ export function usePipelines() {
   );
 }
 
-/** Execute a specific pipeline. */
-export function usePipeline<T = unknown>(pipelineName: string) {
+/**
+ * Execute a specific pipeline. `T` types the result and `I` the input;
+ * `naap-plugin generate pipelines` emits both from the pipeline registry.
+ */
+export function usePipeline<T = unknown, I = unknown>(pipelineName: string) {
   const shell = useShell();
   const [result, setResult] = useState<PipelineEnvelope<T> | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const execute = useCallback(async (input: unknown, params?: Record<string, unknown>) => {
+  const execute = useCallback(async (input: I, params?: Record<string, unknown>) => {
     setLoading(true);
     setError(null);
 
@@ -202,11 +237,16 @@ export function useAsyncJob(pipelineName: string, requestId: string | null) {
         data: {
           requestId: string;
           pipeline: string;
-          status: 'pending' | 'processing' | 'completed' | 'error';
+          status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
           result?: unknown;
           error?: string;
+          attempts: number;
+          maxAttempts: number;
           submittedAt: number;
+          startedAt?: number;
           completedAt?: number;
+          nextAttemptAt?: number;
+          webhook?: { status: 'waiting' | 'pending' | 'delivered' | 'failed'; attempts: number; lastError?: string };
         };
       }>(`${PIPELINE_API}/pipelines/${pipelineName}/jobs/${requestId}`);
       return res.data;
@@ -218,6 +258,51 @@ export function useAsyncJob(pipelineName: string, requestId: string | null) {
   );
 }
 
+/** Submit a batch of pipeline requests and poll it until every item finishes. */
+export function usePipelineBatch<T = unknown>() {
+  const shell = useShell();
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const submit = useMutation(
+    async ({ items, concurrency }: { items: PipelineBatchRequest[]; concurrency?: number }) => {
+      const res = await shell.api!.post<{ data: PipelineBatch<T> }>(`${PIPELINE_API}/pipelines/batches`, {
+        items,
+        concurrency,
+      });
+      setBatchId(res.data.batchId);
+      setRunning(true);
+      return res.data;
+    }
+  );
+
+  /** Re-run failed items: all of them, or only the given indices. */
+  const retry = useMutation(
+    async (items?: number[]) => {
+      if (!batchId) throw new Error('No batch submitted');
+      const res = await shell.api!.post<{ data: PipelineBatch<T> }>(
+        `${PIPELINE_API}/pipelines/batches/${batchId}/retry`,
+        items ? { items } : {}
+      );
+      setRunning(true);
+      return res.data;
+    }
+  );
+
+  const batch = useQuery(
+    batchId ? `pipeline:batch:${batchId}` : null,
+    async () => {
+      if (!batchId) return null;
+      const res = await shell.api!.get<{ data: PipelineBatch<T> }>(`${PIPELINE_API}/pipelines/batches/${batchId}`);
+      if (res.data.status !== 'running') setRunning(false);
+      return res.data;
+    },
+    { enabled: !!batchId, refetchInterval: running ? 2000 : undefined }
+  );
+
+  return { submit, retry, batch };
+}
+
 /** Get pipeline usage quota / stats (Phase 5 hooks). */
 export function usePipelineQuota() {
   const shell = useShell();
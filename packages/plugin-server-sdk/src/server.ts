@@ -84,6 +84,8 @@ export interface PluginServerConfig {
       schema?: { input?: unknown; output?: unknown };
       pricing?: { model: string; unitPrice: number; currency: string };
       healthCheckUrl?: string;
+      /** Relative share of traffic this replica receives (default 1) */
+      weight?: number;
     };
   };
 }
@@ -309,6 +311,15 @@ export function createPluginServer(config: PluginServerConfig): PluginServer {
   process.on('SIGTERM', shutdownHandler);
   process.on('SIGINT', shutdownHandler);
 
+  function capabilityEndpoint(configured?: string): string {
+    return (
+      configured ||
+      process.env.PLUGIN_PUBLIC_URL ||
+      process.env.PUBLIC_URL ||
+      `http://localhost:${port}/api/v1/${name}`
+    );
+  }
+
   async function registerLivepeerCapability(): Promise<void> {
     const gatewayBase =
       livepeer?.pipelineGatewayUrl ||
@@ -318,19 +329,17 @@ export function createPluginServer(config: PluginServerConfig): PluginServer {
     const capability = livepeer?.capability;
     if (!capability?.name) return;
 
-    const endpoint =
-      capability.endpoint ||
-      process.env.PLUGIN_PUBLIC_URL ||
-      process.env.PUBLIC_URL ||
-      `http://localhost:${port}/api/v1/${name}`;
+    const endpoint = capabilityEndpoint(capability.endpoint);
 
     const payload = {
       name: capability.name,
       endpoint,
       registeredBy: name,
+      description: capability.description,
       schema: capability.schema,
       pricing: capability.pricing,
       healthCheckUrl: capability.healthCheckUrl || `${endpoint}/healthz`,
+      weight: capability.weight,
     };
 
     const res = await fetch(`${gatewayBase}/byoc/register`, {
@@ -354,10 +363,11 @@ export function createPluginServer(config: PluginServerConfig): PluginServer {
     const capability = livepeer?.capability;
     if (!capability?.name) return;
 
+    // Remove only this replica's endpoint; other replicas keep serving the capability
     const res = await fetch(`${gatewayBase}/byoc/register/${capability.name}`, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ registeredBy: name }),
+      body: JSON.stringify({ registeredBy: name, endpoint: capabilityEndpoint(capability.endpoint) }),
     });
 
     if (!res.ok) {
@@ -112,6 +112,25 @@ describe('ConnectorWizardPage', () => {
     expect(nextBtn).not.toBeDisabled();
   });
 
+  it('requires an https token URL for OAuth2 client credentials', () => {
+    renderWizard();
+    fireEvent.click(screen.getByText('Skip — Create from Scratch'));
+
+    fireEvent.change(screen.getByPlaceholderText('My API'), { target: { value: 'Test API' } });
+    fireEvent.change(screen.getByPlaceholderText('my-api'), { target: { value: 'test-api' } });
+    fireEvent.change(screen.getByPlaceholderText('https://api.example.com'), { target: { value: 'https://api.test.com' } });
+    fireEvent.change(screen.getByDisplayValue('None'), { target: { value: 'oauth2' } });
+
+    expect(screen.getByText('Client ID')).toBeInTheDocument();
+    expect(screen.getByText('Client Secret')).toBeInTheDocument();
+    expect(screen.getByText('Next →')).toBeDisabled();
+
+    fireEvent.change(screen.getByPlaceholderText('https://auth.example.com/oauth/token'), {
+      target: { value: 'https://auth.test.com/token' },
+    });
+    expect(screen.getByText('Next →')).not.toBeDisabled();
+  });
+
   it('selects a template and applies it to wizard', async () => {
     renderWizard();
 
@@ -135,4 +154,41 @@ describe('ConnectorWizardPage', () => {
     expect(screen.getByText('Team')).toBeInTheDocument();
     expect(screen.getByText('Public')).toBeInTheDocument();
   });
+
+  it('prefills the wizard from an OpenAPI import preview', async () => {
+    renderWizard();
+    vi.mocked(globalThis.fetch).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            connector: {
+              slug: 'petstore',
+              displayName: 'Petstore',
+              description: 'Sample pets API',
+              upstreamBaseUrl: 'https://petstore.example.com/v1',
+              authType: 'bearer',
+              authConfig: { tokenRef: 'token' },
+              secretRefs: ['token'],
+            },
+            endpoints: [
+              { name: 'List pets', method: 'GET', path: '/pets', upstreamPath: '/pets', bodyTransform: 'passthrough' },
+            ],
+            warnings: ['Skipped TRACE /debug'],
+          },
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('openapi: 3.1.0'), { target: { value: 'openapi: 3.1.0' } });
+    fireEvent.click(screen.getByText('Import Spec'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Connect to Upstream Service')).toBeInTheDocument();
+    });
+    expect(screen.getByPlaceholderText('My API')).toHaveValue('Petstore');
+    expect(screen.getByPlaceholderText('https://api.example.com')).toHaveValue('https://petstore.example.com/v1');
+    expect(screen.getByText('Skipped TRACE /debug')).toBeInTheDocument();
+  });
 });
@@ -71,6 +71,13 @@ describe('PlansPage', () => {
     expect(screen.getByText('Monthly Quota (optional)')).toBeInTheDocument();
   });
 
+  it('shows burst and concurrency inputs in create form', () => {
+    renderPlansPage();
+    fireEvent.click(screen.getByText('+ New Plan'));
+    expect(screen.getByText('Burst (optional)')).toBeInTheDocument();
+    expect(screen.getByText('Max Concurrent Requests (optional)')).toBeInTheDocument();
+  });
+
   it('shows empty state when no plans exist', async () => {
     renderPlansPage();
     await waitFor(() => {
@@ -84,7 +91,7 @@ describe('PlansPage', () => {
         JSON.stringify({
           success: true,
           data: [
-            { id: '1', name: 'free', displayName: 'Free', rateLimit: 10, dailyQuota: 100, monthlyQuota: null, activeKeyCount: 2 },
+            { id: '1', name: 'free', displayName: 'Free', rateLimit: 10, burstLimit: 25, maxConcurrent: 3, dailyQuota: 100, monthlyQuota: null, activeKeyCount: 2 },
           ],
         }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -97,5 +104,7 @@ describe('PlansPage', () => {
     });
     expect(screen.getByText('10/min')).toBeInTheDocument();
     expect(screen.getByText('100')).toBeInTheDocument();
+    expect(screen.getByText('burst 25')).toBeInTheDocument();
+    expect(screen.getByText('3')).toBeInTheDocument();
   });
 });
@@ -0,0 +1,178 @@
+/**
+ * AuthConfigFields — Settings for token-based and signed upstream auth
+ * (OAuth2 client credentials, HMAC signing, JWT assertion), shown in the
+ * connector wizard's Connect step. Credentials go through SecretField and
+ * are stored in the vault; only non-secret settings live in `authConfig`.
+ */
+
+import React from 'react';
+import { SecretField } from './SecretField';
+
+interface AuthConfigFieldsProps {
+  authType: string;
+  config: Record<string, unknown>;
+  onChange: (config: Record<string, unknown>) => void;
+  onSecretChange: (name: string, value: string) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 bg-bg-secondary border border-[var(--border-color)] rounded-lg text-text-primary text-sm focus:ring-2 focus:ring-accent-emerald';
+
+const DEFAULT_CANONICAL_TEMPLATE = '{method}\n{path}\n{query}\n{timestamp}\n{bodySha256}';
+
+/** authConfig a newly selected auth type starts with; null when it needs none. */
+export function defaultAuthConfig(authType: string): Record<string, unknown> | null {
+  if (authType === 'oauth2') return { tokenUrl: '', clientAuthMethod: 'client_secret_basic' };
+  if (authType === 'hmac') return { algorithm: 'sha256', signatureHeader: 'X-Signature', timestampHeader: 'X-Timestamp' };
+  if (authType === 'jwt') return { serviceAccountRef: 'service_account' };
+  return null;
+}
+
+/** Whether the auth settings are complete enough to save. */
+export function isAuthConfigValid(authType: string, config: Record<string, unknown> | null): boolean {
+  if (authType !== 'oauth2') return true;
+  const tokenUrl = (config?.tokenUrl as string) || '';
+  return tokenUrl.startsWith('https://');
+}
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="space-y-1">
+    <label className="block text-sm font-medium text-text-secondary">{label}</label>
+    {children}
+    {hint && <p className="text-xs text-text-tertiary">{hint}</p>}
+  </div>
+);
+
+export const AuthConfigFields: React.FC<AuthConfigFieldsProps> = ({
+  authType,
+  config,
+  onChange,
+  onSecretChange,
+}) => {
+  const text = (key: string) => (config[key] as string) ?? '';
+  const set = (key: string, value: unknown) => {
+    const next = { ...config };
+    if (value === '' || value === undefined) delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  if (authType === 'oauth2') {
+    const tokenUrl = text('tokenUrl');
+    return (
+      <div className="space-y-4">
+        <Field label="Token URL" hint="Client-credentials grant; the access token is cached and refreshed by the gateway.">
+          <input
+            type="url"
+            value={tokenUrl}
+            onChange={(e) => set('tokenUrl', e.target.value)}
+            placeholder="https://auth.example.com/oauth/token"
+            className={INPUT_CLASS}
+          />
+          {tokenUrl && !tokenUrl.startsWith('https://') && (
+            <p className="text-xs text-red-400">Token URL must use https</p>
+          )}
+        </Field>
+        <SecretField label="Client ID" name="client_id" onChange={onSecretChange} placeholder="client id" />
+        <SecretField label="Client Secret" name="client_secret" onChange={onSecretChange} />
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Scope">
+            <input value={text('scope')} onChange={(e) => set('scope', e.target.value)} placeholder="optional" className={INPUT_CLASS} />
+          </Field>
+          <Field label="Audience">
+            <input value={text('audience')} onChange={(e) => set('audience', e.target.value)} placeholder="optional" className={INPUT_CLASS} />
+          </Field>
+        </div>
+        <Field label="Client Authentication">
+          <select
+            value={text('clientAuthMethod') || 'client_secret_basic'}
+            onChange={(e) => set('clientAuthMethod', e.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="client_secret_basic">HTTP Basic header</option>
+            <option value="client_secret_post">Form body</option>
+          </select>
+        </Field>
+      </div>
+    );
+  }
+
+  if (authType === 'hmac') {
+    return (
+      <div className="space-y-4">
+        <SecretField label="Signing Secret" name="hmac_secret" onChange={onSecretChange} />
+        <Field
+          label="Canonical String"
+          hint="Placeholders: {method} {path} {query} {host} {timestamp} {nonce} {body} {bodySha256} {header.<name>}"
+        >
+          <textarea
+            value={text('canonicalTemplate') || DEFAULT_CANONICAL_TEMPLATE}
+            onChange={(e) => set('canonicalTemplate', e.target.value === DEFAULT_CANONICAL_TEMPLATE ? '' : e.target.value)}
+            rows={5}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+        </Field>
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Algorithm">
+            <select value={text('algorithm') || 'sha256'} onChange={(e) => set('algorithm', e.target.value)} className={INPUT_CLASS}>
+              <option value="sha256">HMAC-SHA256</option>
+              <option value="sha512">HMAC-SHA512</option>
+              <option value="sha1">HMAC-SHA1</option>
+            </select>
+          </Field>
+          <Field label="Encoding">
+            <select value={text('encoding') || 'hex'} onChange={(e) => set('encoding', e.target.value)} className={INPUT_CLASS}>
+              <option value="hex">Hex</option>
+              <option value="base64">Base64</option>
+            </select>
+          </Field>
+          <Field label="Signature Header">
+            <input value={text('signatureHeader')} onChange={(e) => set('signatureHeader', e.target.value)} placeholder="X-Signature" className={INPUT_CLASS} />
+          </Field>
+          <Field label="Signature Value" hint="{signature} {keyId} {timestamp} {algorithm}">
+            <input value={text('signatureTemplate')} onChange={(e) => set('signatureTemplate', e.target.value)} placeholder="{signature}" className={INPUT_CLASS} />
+          </Field>
+          <Field label="Timestamp Header">
+            <input value={text('timestampHeader')} onChange={(e) => set('timestampHeader', e.target.value)} placeholder="X-Timestamp" className={INPUT_CLASS} />
+          </Field>
+          <Field label="Timestamp Format">
+            <select value={text('timestampFormat') || 'unix'} onChange={(e) => set('timestampFormat', e.target.value)} className={INPUT_CLASS}>
+              <option value="unix">Unix seconds</option>
+              <option value="unix-ms">Unix milliseconds</option>
+              <option value="iso">ISO 8601</option>
+            </select>
+          </Field>
+        </div>
+      </div>
+    );
+  }
+
+  if (authType === 'jwt') {
+    return (
+      <div className="space-y-4">
+        <SecretField
+          label="Service Account Key (JSON)"
+          name="service_account"
+          onChange={onSecretChange}
+          placeholder="Paste the contents of the key file"
+        />
+        <Field
+          label="Scope"
+          hint="With a scope the signed assertion is exchanged for an access token; without one it is sent as a self-signed JWT."
+        >
+          <input
+            value={text('scope')}
+            onChange={(e) => set('scope', e.target.value)}
+            placeholder="https://www.googleapis.com/auth/cloud-platform"
+            className={INPUT_CLASS}
+          />
+        </Field>
+        <Field label="Audience" hint="Defaults to the token URL, or the upstream origin for self-signed JWTs.">
+          <input value={text('audience')} onChange={(e) => set('audience', e.target.value)} placeholder="optional" className={INPUT_CLASS} />
+        </Field>
+      </div>
+    );
+  }
+
+  return null;
+};
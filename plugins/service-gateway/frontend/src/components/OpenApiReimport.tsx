@@ -0,0 +1,154 @@
+/**
+ * OpenApiReimport — Re-import an OpenAPI document into an existing connector.
+ * Previews the endpoint diff first; changes are only applied on confirm.
+ */
+
+import React, { useState } from 'react';
+import { getSafeErrorMessage } from '@naap/plugin-sdk';
+import { useGatewayApi } from '../hooks/useGatewayApi';
+
+interface EndpointRef {
+  method: string;
+  path: string;
+  name?: string;
+}
+
+interface ReimportDiff {
+  committed: boolean;
+  connector: Record<string, { from: unknown; to: unknown }>;
+  added: EndpointRef[];
+  changed: Array<EndpointRef & { changes: Record<string, unknown> }>;
+  removed: EndpointRef[];
+  unchanged: number;
+  warnings: string[];
+}
+
+interface OpenApiReimportProps {
+  connectorId: string;
+  onApplied: () => void;
+}
+
+const EndpointList: React.FC<{ title: string; color: string; items: Array<EndpointRef & { detail?: string }> }> = ({
+  title,
+  color,
+  items,
+}) => {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className={`text-xs font-semibold mb-1 ${color}`}>{title} ({items.length})</p>
+      <ul className="space-y-0.5">
+        {items.map((ep) => (
+          <li key={`${ep.method} ${ep.path}`} className="text-xs font-mono text-text-secondary">
+            {ep.method} {ep.path}
+            {ep.detail && <span className="text-text-tertiary font-sans"> — {ep.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const OpenApiReimport: React.FC<OpenApiReimportProps> = ({ connectorId, onApplied }) => {
+  const api = useGatewayApi();
+  const [spec, setSpec] = useState('');
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [diff, setDiff] = useState<ReimportDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (commit: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await api.post<{ success: boolean; data: ReimportDiff }>(`/connectors/${connectorId}/import`, {
+        spec,
+        commit,
+        removeMissing,
+      });
+      setDiff(res.data);
+      if (commit) onApplied();
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const connectorFields = diff ? Object.keys(diff.connector) : [];
+  const hasChanges = !!diff && (
+    diff.added.length > 0
+    || diff.changed.length > 0
+    || connectorFields.length > 0
+    || (removeMissing && diff.removed.length > 0)
+  );
+
+  return (
+    <details className="bg-bg-secondary border border-[var(--border-color)] rounded-lg p-4">
+      <summary className="text-sm font-semibold text-text-secondary cursor-pointer">Re-import from OpenAPI</summary>
+      <div className="space-y-3 mt-3">
+        <textarea
+          value={spec}
+          onChange={(e) => { setSpec(e.target.value); setDiff(null); }}
+          placeholder="Paste an OpenAPI 3.0/3.1 document (JSON or YAML)"
+          rows={6}
+          className="w-full px-3 py-2 bg-bg-primary border border-[var(--border-color)] rounded-lg text-text-primary text-xs font-mono focus:ring-2 focus:ring-accent-emerald"
+        />
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-text-secondary">
+            <input
+              type="checkbox"
+              checked={removeMissing}
+              onChange={(e) => setRemoveMissing(e.target.checked)}
+            />
+            Remove endpoints missing from the spec
+          </label>
+          <button
+            onClick={() => submit(false)}
+            disabled={!spec.trim() || busy}
+            className="ml-auto px-3 py-1.5 bg-bg-tertiary hover:bg-bg-primary text-text-primary text-xs rounded-lg disabled:opacity-50"
+          >
+            Preview Changes
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {diff && (
+          <div className="space-y-3 border-t border-[var(--border-color)] pt-3">
+            {diff.committed && <p className="text-xs text-green-400">Changes applied.</p>}
+            {connectorFields.length > 0 && (
+              <p className="text-xs text-yellow-400">Connector settings updated: {connectorFields.join(', ')}</p>
+            )}
+            <EndpointList title="Added" color="text-green-400" items={diff.added} />
+            <EndpointList
+              title="Changed"
+              color="text-yellow-400"
+              items={diff.changed.map((ep) => ({ ...ep, detail: Object.keys(ep.changes).join(', ') }))}
+            />
+            <EndpointList
+              title={removeMissing ? 'Removed' : 'Not in spec (kept)'}
+              color={removeMissing ? 'text-red-400' : 'text-text-tertiary'}
+              items={diff.removed}
+            />
+            <p className="text-xs text-text-tertiary">{diff.unchanged} endpoint{diff.unchanged !== 1 ? 's' : ''} unchanged</p>
+            {diff.warnings.length > 0 && (
+              <ul className="list-disc list-inside text-xs text-amber-400">
+                {diff.warnings.map((w) => <li key={w}>{w}</li>)}
+              </ul>
+            )}
+            {!diff.committed && (
+              <button
+                onClick={() => submit(true)}
+                disabled={!hasChanges || busy}
+                className="px-3 py-1.5 bg-accent-emerald hover:bg-accent-emerald/90 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+              >
+                {busy ? 'Applying...' : 'Apply Changes'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
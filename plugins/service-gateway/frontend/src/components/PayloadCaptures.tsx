@@ -0,0 +1,410 @@
+/**
+ * PayloadCaptures — Capture settings, captured exchanges and replay for a
+ * connector. Captured headers and bodies are already redacted server-side;
+ * replay lets the admin restore redacted values for a single call.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { getSafeErrorMessage } from '@naap/plugin-sdk';
+import { useGatewayApi } from '../hooks/useGatewayApi';
+
+interface CaptureSettings {
+  captureEnabled: boolean;
+  captureSampleRate: number;
+  captureMaxBodyBytes: number;
+  captureRetentionDays: number;
+  captureRedactFields: string[];
+}
+
+interface CaptureSummary {
+  id: string;
+  endpointName: string;
+  requestId: string;
+  method: string;
+  path: string;
+  statusCode: number;
+  latencyMs: number;
+  error: string | null;
+  createdAt: string;
+}
+
+interface CaptureDetail extends CaptureSummary {
+  query: string;
+  requestHeaders: Record<string, string>;
+  requestBody: string | null;
+  requestTruncated: boolean;
+  responseHeaders: Record<string, string>;
+  responseBody: string | null;
+  responseTruncated: boolean;
+}
+
+interface ReplayResult {
+  statusCode: number;
+  originalStatusCode: number;
+  latencyMs: number;
+  upstreamUrl: string | null;
+  body: string | null;
+  truncated: boolean;
+  error: string | null;
+  sentRedactedValues: boolean;
+}
+
+interface PayloadCapturesProps {
+  connectorId: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All statuses' },
+  { value: '2xx', label: '2xx' },
+  { value: '4xx', label: '4xx' },
+  { value: '5xx', label: '5xx' },
+];
+
+function statusClass(status: number): string {
+  if (status >= 500) return 'text-red-400';
+  if (status >= 400) return 'text-amber-400';
+  return 'text-green-400';
+}
+
+function prettyBody(body: string | null): string {
+  if (body === null) return '(not captured — streamed, binary, or body capture disabled)';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+const Exchange: React.FC<{
+  title: string;
+  headers: Record<string, string>;
+  body: string | null;
+  truncated: boolean;
+}> = ({ title, headers, body, truncated }) => (
+  <div className="space-y-2">
+    <h4 className="text-xs font-semibold text-text-secondary">{title}</h4>
+    <pre className="bg-bg-primary rounded p-2 text-xs font-mono text-text-secondary overflow-x-auto max-h-40">
+      {Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join('\n') || '(no headers)'}
+    </pre>
+    <pre className="bg-bg-primary rounded p-2 text-xs font-mono text-text-primary overflow-x-auto max-h-64 whitespace-pre-wrap">
+      {prettyBody(body)}
+    </pre>
+    {truncated && <p className="text-xs text-amber-400">Body truncated at the capture size limit.</p>}
+  </div>
+);
+
+export const PayloadCaptures: React.FC<PayloadCapturesProps> = ({ connectorId }) => {
+  const api = useGatewayApi();
+  const [settings, setSettings] = useState<CaptureSettings | null>(null);
+  const [redactFields, setRedactFields] = useState('');
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [captures, setCaptures] = useState<CaptureSummary[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<CaptureDetail | null>(null);
+  const [replayBody, setReplayBody] = useState('');
+  const [replaying, setReplaying] = useState(false);
+  const [replay, setReplay] = useState<ReplayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCaptures = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter) params.set('status', statusFilter);
+      if (before) params.set('before', before);
+      const res = await api.get<{
+        success: boolean;
+        data: { captures: CaptureSummary[]; nextBefore: string | null; settings: CaptureSettings };
+      }>(`/connectors/${connectorId}/captures?${params}`);
+      setCaptures((prev) => (before ? [...prev, ...res.data.captures] : res.data.captures));
+      setNextBefore(res.data.nextBefore);
+      if (!before) {
+        setSettings(res.data.settings);
+        setRedactFields(res.data.settings.captureRedactFields.join(', '));
+      }
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [api, connectorId, statusFilter]);
+
+  useEffect(() => {
+    loadCaptures();
+  }, [loadCaptures]);
+
+  const saveSettings = async () => {
+    if (!settings) return;
+    setSavingSettings(true);
+    setError(null);
+    try {
+      await api.put(`/connectors/${connectorId}`, {
+        ...settings,
+        captureRedactFields: redactFields.split(',').map((f) => f.trim()).filter(Boolean),
+      });
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const openCapture = async (captureId: string) => {
+    setReplay(null);
+    setError(null);
+    try {
+      const res = await api.get<{ success: boolean; data: CaptureDetail }>(
+        `/connectors/${connectorId}/captures/${captureId}`
+      );
+      setSelected(res.data);
+      setReplayBody(res.data.requestBody ?? '');
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    }
+  };
+
+  const runReplay = async () => {
+    if (!selected) return;
+    setReplaying(true);
+    setError(null);
+    try {
+      const bodyChanged = replayBody !== (selected.requestBody ?? '');
+      const res = await api.post<{ success: boolean; data: ReplayResult }>(
+        `/connectors/${connectorId}/captures/${selected.id}/replay`,
+        bodyChanged || selected.requestTruncated ? { body: replayBody } : {}
+      );
+      setReplay(res.data);
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const clearAll = async () => {
+    setError(null);
+    try {
+      await api.del(`/connectors/${connectorId}/captures`);
+      setSelected(null);
+      setCaptures([]);
+      setNextBefore(null);
+    } catch (err: unknown) {
+      setError(getSafeErrorMessage(err));
+    }
+  };
+
+  const inputClass = 'px-3 py-1.5 bg-bg-primary border border-[var(--border-color)] rounded text-text-primary text-sm';
+
+  return (
+    <div className="space-y-4">
+      {settings && (
+        <div className="bg-bg-secondary border border-[var(--border-color)] rounded-lg p-5 space-y-3">
+          <h3 className="text-sm font-semibold text-text-secondary">Capture Settings</h3>
+          <p className="text-xs text-text-tertiary">
+            Sampled requests and responses are stored with credentials, sensitive fields and PII redacted.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              checked={settings.captureEnabled}
+              onChange={(e) => setSettings({ ...settings, captureEnabled: e.target.checked })}
+            />
+            Capture payloads
+          </label>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="capture-sample" className="block text-xs text-text-secondary mb-1">Sample Rate (%)</label>
+              <input
+                id="capture-sample"
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={Math.round(settings.captureSampleRate * 10_000) / 100}
+                onChange={(e) => setSettings({ ...settings, captureSampleRate: (parseFloat(e.target.value) || 0) / 100 })}
+                className={inputClass + ' w-full'}
+              />
+            </div>
+            <div>
+              <label htmlFor="capture-max-bytes" className="block text-xs text-text-secondary mb-1">Max Body (bytes)</label>
+              <input
+                id="capture-max-bytes"
+                type="number"
+                min={0}
+                value={settings.captureMaxBodyBytes}
+                onChange={(e) => setSettings({ ...settings, captureMaxBodyBytes: parseInt(e.target.value) || 0 })}
+                className={inputClass + ' w-full'}
+              />
+            </div>
+            <div>
+              <label htmlFor="capture-retention" className="block text-xs text-text-secondary mb-1">Retention (days)</label>
+              <input
+                id="capture-retention"
+                type="number"
+                min={1}
+                max={30}
+                value={settings.captureRetentionDays}
+                onChange={(e) => setSettings({ ...settings, captureRetentionDays: parseInt(e.target.value) || 1 })}
+                className={inputClass + ' w-full'}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="capture-redact" className="block text-xs text-text-secondary mb-1">Extra Redacted Fields</label>
+            <input
+              id="capture-redact"
+              type="text"
+              value={redactFields}
+              onChange={(e) => setRedactFields(e.target.value)}
+              className={inputClass + ' w-full'}
+              placeholder="e.g. customerId, x-tenant"
+            />
+          </div>
+          <button
+            onClick={saveSettings}
+            disabled={savingSettings}
+            className="px-4 py-2 bg-accent-emerald hover:bg-accent-emerald/90 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+          >
+            {savingSettings ? 'Saving...' : 'Save Capture Settings'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <div className="bg-bg-secondary border border-[var(--border-color)] rounded-lg p-5 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-text-secondary">Captured Requests</h3>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Status filter"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className={inputClass}
+            >
+              {STATUS_FILTERS.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+            <button onClick={() => loadCaptures()} className="px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary">
+              Refresh
+            </button>
+            {captures.length > 0 && (
+              <button onClick={clearAll} className="px-3 py-1.5 text-xs text-red-400 hover:text-red-300">
+                Delete All
+              </button>
+            )}
+          </div>
+        </div>
+
+        {captures.length === 0 && !loading ? (
+          <p className="text-sm text-text-tertiary">No captured requests yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-text-secondary">
+                <th className="py-1">Time</th>
+                <th className="py-1">Request</th>
+                <th className="py-1">Status</th>
+                <th className="py-1">Latency</th>
+              </tr>
+            </thead>
+            <tbody>
+              {captures.map((c) => (
+                <tr
+                  key={c.id}
+                  onClick={() => openCapture(c.id)}
+                  className={`cursor-pointer border-t border-[var(--border-color)] hover:bg-bg-tertiary ${selected?.id === c.id ? 'bg-bg-tertiary' : ''}`}
+                >
+                  <td className="py-1.5 text-xs text-text-secondary">{new Date(c.createdAt).toLocaleString()}</td>
+                  <td className="py-1.5 font-mono text-xs text-text-primary">{c.method} {c.path}</td>
+                  <td className={`py-1.5 font-mono text-xs ${statusClass(c.statusCode)}`}>{c.statusCode}</td>
+                  <td className="py-1.5 text-xs text-text-secondary">{c.latencyMs}ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {nextBefore && (
+          <button
+            onClick={() => loadCaptures(nextBefore)}
+            disabled={loading}
+            className="text-xs text-accent-blue hover:underline disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+
+      {selected && (
+        <div className="bg-bg-secondary border border-[var(--border-color)] rounded-lg p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-text-secondary">
+              <span className="font-mono">{selected.method} {selected.path}{selected.query}</span>
+              <span className={`ml-2 font-mono ${statusClass(selected.statusCode)}`}>{selected.statusCode}</span>
+            </h3>
+            <span className="text-xs text-text-tertiary font-mono">{selected.requestId}</span>
+          </div>
+          {selected.error && <p className="text-xs text-red-400">{selected.error}</p>}
+          <div className="grid grid-cols-2 gap-4">
+            <Exchange
+              title="Request"
+              headers={selected.requestHeaders}
+              body={selected.requestBody}
+              truncated={selected.requestTruncated}
+            />
+            <Exchange
+              title="Response"
+              headers={selected.responseHeaders}
+              body={selected.responseBody}
+              truncated={selected.responseTruncated}
+            />
+          </div>
+
+          <div className="space-y-2 border-t border-[var(--border-color)] pt-4">
+            <h4 className="text-xs font-semibold text-text-secondary">Replay Against Upstream</h4>
+            <p className="text-xs text-text-tertiary">
+              Re-sends the request through the connector&apos;s current transforms and auth. Replace any {REDACTED} values
+              before sending.
+            </p>
+            {selected.method !== 'GET' && selected.method !== 'HEAD' && (
+              <textarea
+                aria-label="Replay body"
+                value={replayBody}
+                onChange={(e) => setReplayBody(e.target.value)}
+                rows={6}
+                className={inputClass + ' w-full font-mono text-xs'}
+              />
+            )}
+            <button
+              onClick={runReplay}
+              disabled={replaying}
+              className="px-4 py-2 bg-accent-emerald hover:bg-accent-emerald/90 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+            >
+              {replaying ? 'Replaying...' : 'Replay'}
+            </button>
+            {replay && (
+              <div className="space-y-2">
+                <p className="text-sm text-text-primary">
+                  Replayed: <span className={`font-mono ${statusClass(replay.statusCode)}`}>{replay.statusCode}</span>
+                  <span className="text-text-tertiary"> (originally {replay.originalStatusCode}) in {replay.latencyMs}ms</span>
+                </p>
+                {replay.sentRedactedValues && (
+                  <p className="text-xs text-amber-400">The replayed request still contained redacted values.</p>
+                )}
+                {replay.error && <p className="text-xs text-red-400">{replay.error}</p>}
+                <pre className="bg-bg-primary rounded p-2 text-xs font-mono text-text-primary overflow-x-auto max-h-64 whitespace-pre-wrap">
+                  {prettyBody(replay.body)}
+                </pre>
+                {replay.truncated && <p className="text-xs text-amber-400">Response truncated at the capture size limit.</p>}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
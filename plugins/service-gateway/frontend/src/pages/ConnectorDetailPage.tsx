@@ -1,6 +1,6 @@
 /**
  * ConnectorDetailPage — View and manage a single connector.
- * Tabs: Overview, API Spec, API Keys, Play, Usage, Pricing, Performance, Settings, Agent
+ * Tabs: Overview, API Spec, API Keys, Play, Usage, Captures, Pricing, Performance, Settings, Agent
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -9,6 +9,8 @@ import { getSafeErrorMessage, useTeam } from '@naap/plugin-sdk';
 import { useGatewayApi, useAsync } from '../hooks/useGatewayApi';
 import { QuickStart } from '../components/QuickStart';
 import { HealthDot } from '../components/HealthDot';
+import { OpenApiReimport } from '../components/OpenApiReimport';
+import { PayloadCaptures } from '../components/PayloadCaptures';
 
 interface Connector {
   id: string;
@@ -53,7 +55,7 @@ interface ApiKey {
   plan?: { id: string; name: string; displayName: string } | null;
 }
 
-const TABS = ['Overview', 'API Spec', 'API Keys', 'Play', 'Usage', 'Pricing', 'Performance', 'Settings', 'Agent'] as const;
+const TABS = ['Overview', 'API Spec', 'API Keys', 'Play', 'Usage', 'Captures', 'Pricing', 'Performance', 'Settings', 'Agent'] as const;
 type Tab = (typeof TABS)[number];
 
 const STATUS_COLORS: Record<string, string> = {
@@ -736,6 +738,16 @@ export const ConnectorDetailPage: React.FC = () => {
                 Failed to load OpenAPI spec. Make sure the connector is published.
               </div>
             )}
+
+            {id && (
+              <OpenApiReimport
+                connectorId={id}
+                onApplied={() => {
+                  fetchConnector();
+                  setOpenApiSpec(null);
+                }}
+              />
+            )}
           </div>
         )}
 
@@ -1177,6 +1189,11 @@ export const ConnectorDetailPage: React.FC = () => {
           </div>
         )}
 
+        {/* Tab: Captures */}
+        {activeTab === 'Captures' && (
+          <PayloadCaptures connectorId={id!} />
+        )}
+
         {/* Tab: Performance */}
         {activeTab === 'Performance' && (
           <PerformanceTab connectorSlug={connector.slug} teamId={teamId} />
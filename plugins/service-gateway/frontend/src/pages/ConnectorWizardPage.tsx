@@ -1,6 +1,6 @@
 /**
  * ConnectorWizardPage — 4-step wizard for creating or editing a connector.
- * Step 0: Choose Template (single-select, or skip) — skipped in edit mode
+ * Step 0: Choose Template (single-select, import OpenAPI, or skip) — skipped in edit mode
  * Step 1: Connect (URL, auth, secrets)
  * Step 2: Endpoints (add routes)
  * Step 3: Review & Publish
@@ -11,15 +11,29 @@ import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { getSafeErrorMessage } from '@naap/plugin-sdk';
 import { useGatewayApi, useAsync } from '../hooks/useGatewayApi';
 import { SecretField } from '../components/SecretField';
+import { AuthConfigFields, defaultAuthConfig, isAuthConfigValid } from '../components/AuthConfigFields';
 
 const WIZARD_STEPS = ['Template', 'Connect', 'Endpoints', 'Review'];
-const AUTH_TYPES = ['none', 'bearer', 'header', 'basic', 'query'] as const;
+const AUTH_TYPES = ['none', 'bearer', 'header', 'basic', 'query', 'oauth2', 'hmac', 'jwt'] as const;
+const AUTH_TYPE_LABELS: Record<string, string> = {
+  none: 'None',
+  bearer: 'Bearer Token',
+  header: 'Custom Headers',
+  basic: 'Basic Auth',
+  query: 'Query Param',
+  oauth2: 'OAuth2 Client Credentials',
+  hmac: 'HMAC Request Signing',
+  jwt: 'JWT Assertion (Service Account)',
+};
 const DEFAULT_SECRET_REFS: Record<string, string[]> = {
   none: [],
   bearer: ['token'],
   header: ['apiKey'],
   basic: ['username', 'password'],
   query: ['apiKey'],
+  oauth2: ['client_id', 'client_secret'],
+  hmac: ['hmac_secret'],
+  jwt: ['service_account'],
 };
 const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
 const VISIBILITY_OPTIONS = [
@@ -69,6 +83,24 @@ interface EndpointForm {
   upstreamPath: string;
   upstreamContentType: string;
   bodyTransform: string;
+  // Carried through from an OpenAPI import; not editable in the wizard
+  description?: string;
+  bodySchema?: Record<string, unknown>;
+  requiredHeaders?: string[];
+}
+
+interface OpenApiImportPreview {
+  connector: {
+    slug: string;
+    displayName: string;
+    description?: string;
+    upstreamBaseUrl: string;
+    authType: string;
+    authConfig: Record<string, unknown>;
+    secretRefs: string[];
+  };
+  endpoints: EndpointForm[];
+  warnings: string[];
 }
 
 interface TemplatesResponse {
@@ -92,6 +124,10 @@ export const ConnectorWizardPage: React.FC = () => {
   // Step 0: Template selection (single select)
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
   const [categoryFilter, setCategoryFilter] = useState<string>('');
+  const [openApiSpec, setOpenApiSpec] = useState('');
+  const [openApiImporting, setOpenApiImporting] = useState(false);
+  const [openApiError, setOpenApiError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
 
   // Step 1: Connect
   const [slug, setSlug] = useState('');
@@ -100,6 +136,7 @@ export const ConnectorWizardPage: React.FC = () => {
   const [upstreamBaseUrl, setUpstreamBaseUrl] = useState('');
   const [visibility, setVisibility] = useState<string>('private');
   const [authType, setAuthType] = useState<string>('none');
+  const [authConfig, setAuthConfig] = useState<Record<string, unknown> | null>(null);
   const [healthCheckPath, setHealthCheckPath] = useState('');
   const [streamingEnabled, setStreamingEnabled] = useState(false);
   const [secrets, setSecrets] = useState<Record<string, string>>({});
@@ -132,6 +169,7 @@ export const ConnectorWizardPage: React.FC = () => {
           setUpstreamBaseUrl((c.upstreamBaseUrl as string) || '');
           setVisibility((c.visibility as string) || 'private');
           setAuthType((c.authType as string) || 'none');
+          setAuthConfig((c.authConfig as Record<string, unknown>) || null);
           setHealthCheckPath((c.healthCheckPath as string) || '');
           setStreamingEnabled(!!c.streamingEnabled);
           setSecretRefs((c.secretRefs as string[]) || []);
@@ -210,6 +248,52 @@ export const ConnectorWizardPage: React.FC = () => {
     );
   };
 
+  const handleOpenApiFile = async (file: File | undefined) => {
+    if (!file) return;
+    setOpenApiSpec(await file.text());
+    setOpenApiError(null);
+  };
+
+  const handleOpenApiImport = async () => {
+    if (!openApiSpec.trim()) return;
+    setOpenApiImporting(true);
+    setOpenApiError(null);
+    try {
+      const res = await api.post<{ success: boolean; data: OpenApiImportPreview }>('/connectors/import', {
+        spec: openApiSpec,
+        dryRun: true,
+      });
+      const { connector, endpoints: importedEndpoints, warnings } = res.data;
+      setSelectedTemplateId(null);
+      setSlug(connector.slug);
+      setDisplayName(connector.displayName);
+      setDescription(connector.description || '');
+      setUpstreamBaseUrl(connector.upstreamBaseUrl);
+      setAuthType(connector.authType);
+      setAuthConfig(connector.authConfig);
+      setSecretRefs(connector.secretRefs);
+      setEndpoints(
+        importedEndpoints.map((ep) => ({
+          name: ep.name,
+          method: ep.method,
+          path: ep.path,
+          upstreamPath: ep.upstreamPath,
+          upstreamContentType: ep.upstreamContentType || 'application/json',
+          bodyTransform: ep.bodyTransform || 'passthrough',
+          description: ep.description,
+          bodySchema: ep.bodySchema,
+          requiredHeaders: ep.requiredHeaders,
+        })),
+      );
+      setImportWarnings(warnings);
+      setStep(1);
+    } catch (err: unknown) {
+      setOpenApiError(getSafeErrorMessage(err));
+    } finally {
+      setOpenApiImporting(false);
+    }
+  };
+
   const handleTestConnection = async () => {
     if (!upstreamBaseUrl || !isUrlValid(upstreamBaseUrl)) return;
     setTesting(true);
@@ -232,6 +316,7 @@ export const ConnectorWizardPage: React.FC = () => {
 
   const handleAuthTypeChange = useCallback((newAuthType: string) => {
     setAuthType(newAuthType);
+    setAuthConfig(defaultAuthConfig(newAuthType));
     if (!selectedTemplateId) {
       setSecretRefs(DEFAULT_SECRET_REFS[newAuthType] || []);
     }
@@ -262,7 +347,10 @@ export const ConnectorWizardPage: React.FC = () => {
 
   const canProceed = () => {
     if (step === 0) return true;
-    if (step === 1) return slug && displayName && upstreamBaseUrl && isUrlValid(upstreamBaseUrl);
+    if (step === 1) {
+      return slug && displayName && upstreamBaseUrl && isUrlValid(upstreamBaseUrl)
+        && isAuthConfigValid(authType, authConfig);
+    }
     if (step === 2) return endpoints.length > 0 && endpoints.every((ep) => ep.name && ep.path && ep.upstreamPath);
     return true;
   };
@@ -281,8 +369,10 @@ export const ConnectorWizardPage: React.FC = () => {
           visibility,
           upstreamBaseUrl,
           authType,
+          ...(authConfig ? { authConfig } : {}),
           healthCheckPath: healthCheckPath || undefined,
           streamingEnabled,
+          secretRefs,
         });
         connectorId = editId;
       } else {
@@ -293,6 +383,7 @@ export const ConnectorWizardPage: React.FC = () => {
           visibility,
           upstreamBaseUrl,
           authType,
+          ...(authConfig ? { authConfig } : {}),
           healthCheckPath: healthCheckPath || undefined,
           streamingEnabled,
           secretRefs,
@@ -501,6 +592,44 @@ export const ConnectorWizardPage: React.FC = () => {
                 })}
               </div>
             )}
+
+            {/* OpenAPI Import */}
+            <details className="bg-bg-secondary border border-[var(--border-color)] rounded-lg p-4">
+              <summary className="text-sm font-medium text-text-primary cursor-pointer">
+                Import from OpenAPI
+              </summary>
+              <div className="space-y-3 mt-3">
+                <p className="text-xs text-text-tertiary">
+                  Paste or upload an OpenAPI 3.0/3.1 document (JSON or YAML). Servers, auth and operations
+                  are mapped onto the connector so you can review them before saving.
+                </p>
+                <textarea
+                  value={openApiSpec}
+                  onChange={(e) => setOpenApiSpec(e.target.value)}
+                  placeholder="openapi: 3.1.0"
+                  rows={8}
+                  className="w-full px-3 py-2 bg-bg-primary border border-[var(--border-color)] rounded-lg text-text-primary text-xs font-mono focus:ring-2 focus:ring-accent-emerald"
+                />
+                <div className="flex items-center gap-3">
+                  <input
+                    type="file"
+                    accept=".json,.yaml,.yml"
+                    aria-label="OpenAPI file"
+                    onChange={(e) => handleOpenApiFile(e.target.files?.[0])}
+                    className="text-xs text-text-tertiary"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleOpenApiImport}
+                    disabled={!openApiSpec.trim() || openApiImporting}
+                    className="ml-auto px-3 py-1.5 bg-accent-emerald hover:bg-accent-emerald/90 text-white text-xs font-medium rounded-lg disabled:opacity-50"
+                  >
+                    {openApiImporting ? 'Importing...' : 'Import Spec'}
+                  </button>
+                </div>
+                {openApiError && <p className="text-xs text-red-400">{openApiError}</p>}
+              </div>
+            </details>
           </div>
         )}
 
@@ -509,6 +638,15 @@ export const ConnectorWizardPage: React.FC = () => {
           <div className="space-y-5">
             <h2 className="text-lg font-semibold text-text-primary">Connect to Upstream Service</h2>
 
+            {importWarnings.length > 0 && (
+              <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 text-amber-400 text-xs space-y-1">
+                <p className="font-medium">Imported with {importWarnings.length} warning{importWarnings.length !== 1 ? 's' : ''}:</p>
+                <ul className="list-disc list-inside">
+                  {importWarnings.map((w) => <li key={w}>{w}</li>)}
+                </ul>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
                 <label className="block text-sm font-medium text-text-secondary">Display Name</label>
@@ -601,7 +739,7 @@ export const ConnectorWizardPage: React.FC = () => {
               >
                 {AUTH_TYPES.map((t) => (
                   <option key={t} value={t}>
-                    {t === 'none' ? 'None' : t === 'bearer' ? 'Bearer Token' : t === 'header' ? 'Custom Headers' : t === 'basic' ? 'Basic Auth' : 'Query Param'}
+                    {AUTH_TYPE_LABELS[t]}
                   </option>
                 ))}
               </select>
@@ -616,6 +754,14 @@ export const ConnectorWizardPage: React.FC = () => {
                 <SecretField label="Password" name="password" onChange={handleSecretChange} />
               </>
             )}
+            {authConfig && (
+              <AuthConfigFields
+                authType={authType}
+                config={authConfig}
+                onChange={setAuthConfig}
+                onSecretChange={handleSecretChange}
+              />
+            )}
 
             <div className="flex items-center gap-3">
               <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
@@ -718,7 +864,7 @@ export const ConnectorWizardPage: React.FC = () => {
                 <div><span className="text-text-secondary">Name:</span><span className="ml-2 text-text-primary">{displayName}</span></div>
                 <div><span className="text-text-secondary">Slug:</span><span className="ml-2 text-text-primary font-mono">{slug}</span></div>
                 <div><span className="text-text-secondary">URL:</span><span className="ml-2 text-text-primary font-mono text-xs">{upstreamBaseUrl}</span></div>
-                <div><span className="text-text-secondary">Auth:</span><span className="ml-2 text-text-primary">{authType}</span></div>
+                <div><span className="text-text-secondary">Auth:</span><span className="ml-2 text-text-primary">{AUTH_TYPE_LABELS[authType] || authType}</span></div>
                 <div><span className="text-text-secondary">Visibility:</span><span className="ml-2 text-text-primary capitalize">{visibility}</span></div>
               </div>
             </div>
@@ -1,6 +1,10 @@
 /**
  * PlansPage — Manage rate limit / quota plans.
  *
+ * Rate limits are token buckets: a sustained req/min rate plus an optional
+ * burst capacity. Max concurrent caps in-flight requests per API key,
+ * which matters most for long-running streaming endpoints.
+ *
  * The "default" plan is auto-created and always present.
  * It applies to API keys with no explicit plan assigned.
  * It can be edited but not deleted.
@@ -14,6 +18,8 @@ interface Plan {
   name: string;
   displayName: string;
   rateLimit: number;
+  burstLimit: number | null;
+  maxConcurrent: number | null;
   dailyQuota: number | null;
   monthlyQuota: number | null;
   maxRequestSize: number;
@@ -30,6 +36,8 @@ export const PlansPage: React.FC = () => {
   const [name, setName] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [rateLimit, setRateLimit] = useState(100);
+  const [burstLimit, setBurstLimit] = useState('');
+  const [maxConcurrent, setMaxConcurrent] = useState('');
   const [dailyQuota, setDailyQuota] = useState('');
   const [monthlyQuota, setMonthlyQuota] = useState('');
   const [creating, setCreating] = useState(false);
@@ -37,6 +45,8 @@ export const PlansPage: React.FC = () => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDisplayName, setEditDisplayName] = useState('');
   const [editRateLimit, setEditRateLimit] = useState(100);
+  const [editBurstLimit, setEditBurstLimit] = useState('');
+  const [editMaxConcurrent, setEditMaxConcurrent] = useState('');
   const [editDailyQuota, setEditDailyQuota] = useState('');
   const [editMonthlyQuota, setEditMonthlyQuota] = useState('');
   const [saving, setSaving] = useState(false);
@@ -58,6 +68,8 @@ export const PlansPage: React.FC = () => {
         name,
         displayName,
         rateLimit,
+        ...(burstLimit ? { burstLimit: parseInt(burstLimit) } : {}),
+        ...(maxConcurrent ? { maxConcurrent: parseInt(maxConcurrent) } : {}),
         ...(dailyQuota ? { dailyQuota: parseInt(dailyQuota) } : {}),
         ...(monthlyQuota ? { monthlyQuota: parseInt(monthlyQuota) } : {}),
       });
@@ -65,6 +77,8 @@ export const PlansPage: React.FC = () => {
       setName('');
       setDisplayName('');
       setRateLimit(100);
+      setBurstLimit('');
+      setMaxConcurrent('');
       setDailyQuota('');
       setMonthlyQuota('');
       loadPlans();
@@ -77,6 +91,8 @@ export const PlansPage: React.FC = () => {
     setEditingId(plan.id);
     setEditDisplayName(plan.displayName);
     setEditRateLimit(plan.rateLimit);
+    setEditBurstLimit(plan.burstLimit?.toString() || '');
+    setEditMaxConcurrent(plan.maxConcurrent?.toString() || '');
     setEditDailyQuota(plan.dailyQuota?.toString() || '');
     setEditMonthlyQuota(plan.monthlyQuota?.toString() || '');
   };
@@ -91,6 +107,8 @@ export const PlansPage: React.FC = () => {
       await api.put(`/plans/${planId}`, {
         displayName: editDisplayName,
         rateLimit: editRateLimit,
+        burstLimit: editBurstLimit ? parseInt(editBurstLimit) : null,
+        maxConcurrent: editMaxConcurrent ? parseInt(editMaxConcurrent) : null,
         dailyQuota: editDailyQuota ? parseInt(editDailyQuota) : null,
         monthlyQuota: editMonthlyQuota ? parseInt(editMonthlyQuota) : null,
       });
@@ -178,6 +196,26 @@ export const PlansPage: React.FC = () => {
                 className="w-full px-3 py-2 bg-bg-primary border border-[var(--border-color)] rounded-lg text-text-primary text-sm"
               />
             </div>
+            <div className="space-y-1">
+              <label className="block text-xs text-text-secondary">Burst (optional)</label>
+              <input
+                type="number"
+                value={burstLimit}
+                onChange={(e) => setBurstLimit(e.target.value)}
+                placeholder="Same as rate limit"
+                className="w-full px-3 py-2 bg-bg-primary border border-[var(--border-color)] rounded-lg text-text-primary text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-xs text-text-secondary">Max Concurrent Requests (optional)</label>
+              <input
+                type="number"
+                value={maxConcurrent}
+                onChange={(e) => setMaxConcurrent(e.target.value)}
+                placeholder="Unlimited"
+                className="w-full px-3 py-2 bg-bg-primary border border-[var(--border-color)] rounded-lg text-text-primary text-sm"
+              />
+            </div>
             <div className="space-y-1">
               <label className="block text-xs text-text-secondary">Daily Quota (optional)</label>
               <input
@@ -218,6 +256,7 @@ export const PlansPage: React.FC = () => {
             <tr className="border-b border-[var(--border-color)]">
               <th className="px-4 py-2 text-left text-text-secondary font-medium">Name</th>
               <th className="px-4 py-2 text-left text-text-secondary font-medium">Rate Limit</th>
+              <th className="px-4 py-2 text-left text-text-secondary font-medium">Concurrency</th>
               <th className="px-4 py-2 text-left text-text-secondary font-medium">Daily Quota</th>
               <th className="px-4 py-2 text-left text-text-secondary font-medium">Monthly Quota</th>
               <th className="px-4 py-2 text-left text-text-secondary font-medium">Active Keys</th>
@@ -226,10 +265,10 @@ export const PlansPage: React.FC = () => {
           </thead>
           <tbody>
             {loading && (
-              <tr><td colSpan={6} className="px-4 py-8 text-center text-text-tertiary">Loading...</td></tr>
+              <tr><td colSpan={7} className="px-4 py-8 text-center text-text-tertiary">Loading...</td></tr>
             )}
             {!loading && sortedPlans.length === 0 && (
-              <tr><td colSpan={6} className="px-4 py-8 text-center text-text-tertiary">No plans yet.</td></tr>
+              <tr><td colSpan={7} className="px-4 py-8 text-center text-text-tertiary">No plans yet.</td></tr>
             )}
             {sortedPlans.map((plan) => {
               const isDefault = plan.name === DEFAULT_PLAN_NAME;
@@ -254,6 +293,22 @@ export const PlansPage: React.FC = () => {
                         onChange={(e) => setEditRateLimit(parseInt(e.target.value) || 1)}
                         className="w-20 px-2 py-1 bg-bg-primary border border-[var(--border-color)] rounded text-text-primary text-sm"
                       />
+                      <input
+                        type="number"
+                        value={editBurstLimit}
+                        onChange={(e) => setEditBurstLimit(e.target.value)}
+                        placeholder="burst"
+                        className="w-20 mt-1 block px-2 py-1 bg-bg-primary border border-[var(--border-color)] rounded text-text-primary text-sm"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        value={editMaxConcurrent}
+                        onChange={(e) => setEditMaxConcurrent(e.target.value)}
+                        placeholder="∞"
+                        className="w-20 px-2 py-1 bg-bg-primary border border-[var(--border-color)] rounded text-text-primary text-sm"
+                      />
                     </td>
                     <td className="px-4 py-2">
                       <input
@@ -308,7 +363,13 @@ export const PlansPage: React.FC = () => {
                       </div>
                     )}
                   </td>
-                  <td className="px-4 py-2 text-text-secondary">{plan.rateLimit}/min</td>
+                  <td className="px-4 py-2 text-text-secondary">
+                    <div>{plan.rateLimit}/min</div>
+                    {plan.burstLimit != null && (
+                      <div className="text-xs text-text-tertiary">burst {plan.burstLimit}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-text-secondary">{plan.maxConcurrent ?? '∞'}</td>
                   <td className="px-4 py-2 text-text-secondary">{plan.dailyQuota?.toLocaleString() || '∞'}</td>
                   <td className="px-4 py-2 text-text-secondary">{plan.monthlyQuota?.toLocaleString() || '∞'}</td>
                   <td className="px-4 py-2 text-text-secondary">{plan.activeKeyCount}</td>
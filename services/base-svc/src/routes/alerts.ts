@@ -0,0 +1,198 @@
+/**
+ * Alert Routes
+ *
+ * Incident actions for deployment alerts: list open alerts, acknowledge
+ * (stops escalation) and resolve. Both actions are recorded on the
+ * PluginAlert and in the audit log, and synced to the alert's channels.
+ * System admins see every alert; other users only the alerts addressed to
+ * them (see `isAlertRecipient`).
+ *
+ * Preview backtests a condition against stored metrics before it is saved.
+ */
+
+import { Router, Request, Response } from 'express';
+import type { PluginAlert } from '@naap/database';
+import type { AuditLogInput } from '../services/lifecycle';
+import {
+  AlertStateError,
+  AlertConditionError,
+  InvalidDeploymentIdError,
+} from '../services/deploymentTypes';
+import { isAlertRecipient, type AlertPreviewRequest } from '../services/alertEngine';
+
+// ---------------------------------------------------------------------------
+// Dependency interface
+// ---------------------------------------------------------------------------
+
+interface AlertRouteDeps {
+  alertEngine: {
+    getAlert: (alertId: string) => Promise<PluginAlert | null>;
+    getOpenAlerts: (deploymentId?: string) => Promise<PluginAlert[]>;
+    acknowledgeAlert: (alertId: string, userId: string) => Promise<unknown | null>;
+    resolveAlert: (alertId: string, userId: string) => Promise<unknown | null>;
+    previewAlert: (request: AlertPreviewRequest) => Promise<unknown>;
+  };
+  lifecycleService: {
+    audit: (input: AuditLogInput) => Promise<unknown>;
+  };
+  rbacService: {
+    getUserRoles: (userId: string) => Promise<Array<{ role: { name: string } }>>;
+  };
+  getUserIdFromRequest: (req: Request) => Promise<string | null>;
+}
+
+/**
+ * 409 when the alert's status does not allow the action, 400 for an invalid
+ * condition or deployment, 500 otherwise
+ */
+function sendAlertError(res: Response, error: unknown, logMessage: string) {
+  if (error instanceof AlertStateError) {
+    return res.status(409).json({ error: error.message });
+  }
+  if (error instanceof AlertConditionError || error instanceof InvalidDeploymentIdError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(logMessage, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/** An alert as sent to callers: channel and escalation configs hold credentials */
+function publicAlert(alert: unknown): unknown {
+  if (!alert || typeof alert !== 'object') return alert;
+  const shown: Record<string, unknown> = { ...alert };
+  delete shown.channels;
+  delete shown.escalationPolicy;
+  return shown;
+}
+
+// ---------------------------------------------------------------------------
+// Route factory
+// ---------------------------------------------------------------------------
+
+export function createAlertRoutes(deps: AlertRouteDeps) {
+  const { alertEngine, lifecycleService, rbacService, getUserIdFromRequest } = deps;
+  const router = Router();
+
+  /** Which alerts a user may see and act on: all for system admins, else those addressed to them */
+  async function alertsVisibleTo(userId: string): Promise<(alert: PluginAlert) => boolean> {
+    const roles = (await rbacService.getUserRoles(userId)).map(r => r.role.name);
+    if (roles.includes('system:admin')) return () => true;
+    return (alert) => isAlertRecipient(alert, userId, roles);
+  }
+
+  /** GET /alerts/open - firing and acknowledged alerts, newest first */
+  router.get('/alerts/open', async (req: Request, res: Response) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const [alerts, visible] = await Promise.all([
+        alertEngine.getOpenAlerts(req.query.deploymentId as string | undefined),
+        alertsVisibleTo(userId),
+      ]);
+      res.json(alerts.filter(visible).map(publicAlert));
+    } catch (error) {
+      console.error('Error listing open alerts:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  /** POST /alerts/preview - backtest a condition over stored metrics (default: last 7 days) */
+  router.post('/alerts/preview', async (req: Request, res: Response) => {
+    try {
+      const userId = await getUserIdFromRequest(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const { deploymentId, condition, cooldownSeconds, start, end } = req.body;
+      if (!deploymentId || !condition) {
+        return res.status(400).json({ error: 'deploymentId and condition are required' });
+      }
+
+      const range = { start: start ? new Date(start) : undefined, end: end ? new Date(end) : undefined };
+      if ((range.start && isNaN(range.start.getTime())) || (range.end && isNaN(range.end.getTime()))) {
+        return res.status(400).json({ error: 'start and end must be valid dates' });
+      }
+
+      const preview = await alertEngine.previewAlert({ deploymentId, condition, cooldownSeconds, ...range });
+      res.json(preview);
+    } catch (error) {
+      sendAlertError(res, error, 'Error previewing alert:');
+    }
+  });
+
+  /** POST /alerts/:id/acknowledge - acknowledge a firing alert (stops escalation) */
+  router.post('/alerts/:id/acknowledge', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = await getUserIdFromRequest(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const existing = await alertEngine.getAlert(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      if (!(await alertsVisibleTo(userId))(existing)) {
+        return res.status(403).json({ error: 'You are not a recipient of this alert' });
+      }
+
+      const alert = await alertEngine.acknowledgeAlert(id, userId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      await lifecycleService.audit({
+        action: 'alert.acknowledge',
+        resource: 'alert',
+        resourceId: id,
+        userId,
+      });
+
+      res.json(publicAlert(alert));
+    } catch (error) {
+      sendAlertError(res, error, 'Error acknowledging alert:');
+    }
+  });
+
+  /** POST /alerts/:id/resolve - resolve a firing or acknowledged alert */
+  router.post('/alerts/:id/resolve', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = await getUserIdFromRequest(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const existing = await alertEngine.getAlert(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      if (!(await alertsVisibleTo(userId))(existing)) {
+        return res.status(403).json({ error: 'You are not a recipient of this alert' });
+      }
+
+      const alert = await alertEngine.resolveAlert(id, userId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      await lifecycleService.audit({
+        action: 'alert.resolve',
+        resource: 'alert',
+        resourceId: id,
+        userId,
+      });
+
+      res.json(publicAlert(alert));
+    } catch (error) {
+      sendAlertError(res, error, 'Error resolving alert:');
+    }
+  });
+
+  return router;
+}
@@ -7,13 +7,27 @@
  */
 
 import { Router, Request, Response } from 'express';
-import type { AuditLogInput } from '../services/lifecycle';
+import type { AuditLogInput, InstallOptions, UninstallOptions } from '../services/lifecycle';
+import { PluginDependencyError } from '../services/pluginDependencyTypes';
 
 /** Sanitize a value for safe log output (prevents log injection) */
 function sanitizeForLog(value: unknown): string {
   return String(value).replace(/[\n\r\t\x00-\x1f\x7f-\x9f]/g, '');
 }
 
+/** Dependency conflicts are 409 with the details; anything else is a 500 */
+function sendLifecycleError(res: Response, error: unknown) {
+  if (error instanceof PluginDependencyError) {
+    return res.status(409).json({
+      error: error.message,
+      conflicts: error.conflicts,
+      dependents: error.dependents,
+    });
+  }
+  const message = error instanceof Error ? error.message : 'Internal server error';
+  return res.status(500).json({ error: message });
+}
+
 // ---------------------------------------------------------------------------
 // Dependency interface
 // ---------------------------------------------------------------------------
@@ -24,8 +38,8 @@ interface LifecycleRouteDeps {
     audit: (input: AuditLogInput) => Promise<unknown>;
     getPluginEvents: (pluginName: string, limit: number) => Promise<unknown>;
     getRecentEvents: (limit: number) => Promise<unknown>;
-    installPlugin: (packageId: string, versionId: string, userId?: string) => Promise<unknown>;
-    uninstallPlugin: (packageId: string, userId?: string) => Promise<unknown>;
+    installPlugin: (packageId: string, versionId: string, userId?: string, options?: InstallOptions) => Promise<unknown>;
+    uninstallPlugin: (packageId: string, userId?: string, options?: UninstallOptions) => Promise<unknown>;
     upgradePlugin: (packageId: string, newVersionId: string, userId?: string) => Promise<unknown>;
     enablePlugin: (pluginName: string, userId?: string) => Promise<unknown>;
     disablePlugin: (pluginName: string, userId?: string) => Promise<unknown>;
@@ -33,7 +47,7 @@ interface LifecycleRouteDeps {
   };
   secretVaultService: {
     getIntegrationSecret: (pluginName: string, type: string) => Promise<string | null>;
-    getGlobalIntegrationSecret: (type: string) => Promise<string | null>;
+    getGlobalIntegrationSecret: (type: string, access?: { accessor: string }) => Promise<string | null>;
   };
 }
 
@@ -232,11 +246,12 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
     }
   });
 
-  /** DELETE /installations/:packageName - uninstall a plugin */
+  /** DELETE /installations/:packageName[?cascade=true] - uninstall a plugin */
   router.delete('/installations/:packageName', async (req: Request, res: Response) => {
     try {
       const { packageName } = req.params;
       const userId = req.headers['x-user-id'] as string || 'system';
+      const cascade = req.query.cascade === 'true';
 
       const pkg = await db.pluginPackage.findUnique({ where: { name: packageName } });
       if (!pkg) {
@@ -248,7 +263,7 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
       });
 
       if (installation) {
-        const result = await lifecycleService.uninstallPlugin(pkg.id, userId);
+        const result = await lifecycleService.uninstallPlugin(pkg.id, userId, { cascade });
         return res.json(result);
       }
 
@@ -268,8 +283,7 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
       return res.status(404).json({ error: 'Plugin is not installed' });
     } catch (error) {
       console.error('Uninstall error:', error);
-      const message = error instanceof Error ? error.message : 'Internal server error';
-      res.status(500).json({ error: message });
+      sendLifecycleError(res, error);
     }
   });
 
@@ -372,7 +386,10 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
         apiKey = await secretVaultService.getIntegrationSecret(pluginName, type);
       }
       if (!apiKey) {
-        apiKey = await secretVaultService.getGlobalIntegrationSecret(type);
+        apiKey = await secretVaultService.getGlobalIntegrationSecret(
+          type,
+          pluginName ? { accessor: `plugin:${pluginName}` } : undefined
+        );
       }
       if (!apiKey) {
         return res.status(400).json({ error: 'Integration credentials not configured' });
@@ -420,7 +437,7 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
     }
   });
 
-  /** POST /lifecycle/install - install a plugin via lifecycle service */
+  /** POST /lifecycle/install - install a plugin and its dependencies via lifecycle service */
   router.post('/lifecycle/install', async (req: Request, res: Response) => {
     try {
       const { packageId, versionId, userId } = req.body;
@@ -431,24 +448,25 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
       res.json(result);
     } catch (error) {
       console.error('Error installing plugin:', error);
-      const message = error instanceof Error ? error.message : 'Internal server error';
-      res.status(500).json({ error: message });
+      sendLifecycleError(res, error);
     }
   });
 
-  /** POST /lifecycle/uninstall - uninstall a plugin via lifecycle service */
+  /**
+   * POST /lifecycle/uninstall - uninstall a plugin via lifecycle service.
+   * `cascade: true` also uninstalls the plugins that depend on it.
+   */
   router.post('/lifecycle/uninstall', async (req: Request, res: Response) => {
     try {
-      const { packageId, userId } = req.body;
+      const { packageId, userId, cascade } = req.body;
       if (!packageId) {
         return res.status(400).json({ error: 'packageId is required' });
       }
-      const result = await lifecycleService.uninstallPlugin(packageId, userId);
+      const result = await lifecycleService.uninstallPlugin(packageId, userId, { cascade: cascade === true });
       res.json(result);
     } catch (error) {
       console.error('Error uninstalling plugin:', error);
-      const message = error instanceof Error ? error.message : 'Internal server error';
-      res.status(500).json({ error: message });
+      sendLifecycleError(res, error);
     }
   });
 
@@ -463,8 +481,7 @@ export function createLifecycleRoutes(deps: LifecycleRouteDeps) {
       res.json(result);
     } catch (error) {
       console.error('Error upgrading plugin:', error);
-      const message = error instanceof Error ? error.message : 'Internal server error';
-      res.status(500).json({ error: message });
+      sendLifecycleError(res, error);
     }
   });
 
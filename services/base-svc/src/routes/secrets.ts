@@ -2,12 +2,20 @@
  * Secrets Routes
  *
  * API endpoints for the secret vault and API key mapping management.
- * Handles secure storage of credentials and mapping plugin integrations
- * to their corresponding secret keys.
+ * Handles secure storage of credentials, versioned rotation with a grace
+ * window, rotation schedules, read audit, master key rewrap, and mapping
+ * plugin integrations to their corresponding secret keys.
  */
 
 import { Router, Request, Response } from 'express';
 import type { AuditLogInput } from '../services/lifecycle';
+import type { RotateOptions, RotationScheduleInput } from '../services/secrets';
+
+/** A non-negative integer, or undefined when absent; NaN marks an invalid value */
+function optionalCount(value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : NaN;
+}
 
 // ---------------------------------------------------------------------------
 // Dependency interface
@@ -18,7 +26,12 @@ interface SecretsRouteDeps {
     storeSecret: (input: any) => Promise<unknown>;
     listSecrets: (scope?: string) => Promise<unknown>;
     deleteSecret: (key: string) => Promise<boolean>;
-    rotateSecret: (key: string, value: string, userId: string) => Promise<unknown>;
+    rotateSecret: (key: string, value: string, userId: string, options?: RotateOptions) => Promise<unknown>;
+    listSecretVersions: (key: string) => Promise<unknown[] | null>;
+    setRotationSchedule: (key: string, input: RotationScheduleInput) => Promise<unknown>;
+    getDueRotations: () => Promise<unknown>;
+    getAccessLog: (key: string, options: { limit?: number; since?: Date; accessor?: string }) => Promise<unknown>;
+    rewrapSecrets: () => Promise<{ rewrapped: number; unreadable: string[] }>;
     getAllKeyMappings: () => Promise<unknown>;
     getPluginKeyMappings: (pluginName: string) => Promise<unknown>;
     createKeyMapping: (input: any) => Promise<unknown>;
@@ -107,7 +120,44 @@ export function createSecretsRoutes(deps: SecretsRouteDeps) {
     }
   });
 
-  /** POST /secrets/:key/rotate - rotate a secret value */
+  /** GET /secrets/rotations/due - scheduled secrets due (or overdue) for rotation */
+  router.get('/secrets/rotations/due', async (_req: Request, res: Response) => {
+    try {
+      const due = await secretVaultService.getDueRotations();
+      res.json(due);
+    } catch (error) {
+      console.error('Error listing due rotations:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  /** POST /secrets/rewrap - re-encrypt all values under the current master key */
+  router.post('/secrets/rewrap', async (req: Request, res: Response) => {
+    try {
+      const userId = req.headers['x-user-id'] as string;
+
+      const result = await secretVaultService.rewrapSecrets();
+
+      await lifecycleService.audit({
+        action: 'secret.rewrap',
+        resource: 'secret',
+        userId,
+        details: { rewrapped: result.rewrapped, unreadable: result.unreadable.length },
+        status: result.unreadable.length > 0 ? 'failure' : 'success',
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error rewrapping secrets:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /secrets/:key/rotate - rotate a secret value.
+   * The previous value keeps resolving for `graceSeconds` (default: the
+   * secret's grace window).
+   */
   router.post('/secrets/:key/rotate', async (req: Request, res: Response) => {
     try {
       const { key } = req.params;
@@ -117,8 +167,12 @@ export function createSecretsRoutes(deps: SecretsRouteDeps) {
       if (!value) {
         return res.status(400).json({ error: 'value is required' });
       }
+      const graceSeconds = optionalCount(req.body.graceSeconds);
+      if (Number.isNaN(graceSeconds)) {
+        return res.status(400).json({ error: 'graceSeconds must be a non-negative integer' });
+      }
 
-      const metadata = await secretVaultService.rotateSecret(key, value, userId);
+      const metadata = await secretVaultService.rotateSecret(key, value, userId, { graceSeconds });
       if (!metadata) {
         return res.status(404).json({ error: 'Secret not found' });
       }
@@ -128,6 +182,7 @@ export function createSecretsRoutes(deps: SecretsRouteDeps) {
         resource: 'secret',
         resourceId: key,
         userId,
+        details: graceSeconds !== undefined ? { graceSeconds } : undefined,
       });
 
       res.json(metadata);
@@ -137,6 +192,80 @@ export function createSecretsRoutes(deps: SecretsRouteDeps) {
     }
   });
 
+  /** GET /secrets/:key/versions - list versions (metadata only, no values) */
+  router.get('/secrets/:key/versions', async (req: Request, res: Response) => {
+    try {
+      const versions = await secretVaultService.listSecretVersions(req.params.key);
+      if (!versions) {
+        return res.status(404).json({ error: 'Secret not found' });
+      }
+      res.json(versions);
+    } catch (error) {
+      console.error('Error listing secret versions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PUT /secrets/:key/rotation-schedule - set or clear the rotation schedule.
+   * Body: { intervalDays: number | null, reminderDays?, graceSeconds? }
+   */
+  router.put('/secrets/:key/rotation-schedule', async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      const userId = req.headers['x-user-id'] as string;
+      const { intervalDays } = req.body;
+      const reminderDays = optionalCount(req.body.reminderDays);
+      const graceSeconds = optionalCount(req.body.graceSeconds);
+
+      if (intervalDays !== null && !(Number.isInteger(intervalDays) && intervalDays > 0)) {
+        return res.status(400).json({ error: 'intervalDays must be a positive integer or null' });
+      }
+      if (Number.isNaN(reminderDays) || Number.isNaN(graceSeconds)) {
+        return res.status(400).json({ error: 'reminderDays and graceSeconds must be non-negative integers' });
+      }
+
+      const metadata = await secretVaultService.setRotationSchedule(key, { intervalDays, reminderDays, graceSeconds });
+      if (!metadata) {
+        return res.status(404).json({ error: 'Secret not found' });
+      }
+
+      await lifecycleService.audit({
+        action: 'secret.rotation_schedule',
+        resource: 'secret',
+        resourceId: key,
+        userId,
+        details: { intervalDays, reminderDays, graceSeconds },
+      });
+
+      res.json(metadata);
+    } catch (error) {
+      console.error('Error setting rotation schedule:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  /** GET /secrets/:key/access-log - who resolved the secret, newest first */
+  router.get('/secrets/:key/access-log', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && Number.isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'since must be an ISO date' });
+      }
+
+      const entries = await secretVaultService.getAccessLog(req.params.key, {
+        limit,
+        since,
+        accessor: req.query.accessor as string | undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching secret access log:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // ==========================================================================
   // API Key Mappings
   // ==========================================================================
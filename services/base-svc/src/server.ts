@@ -245,6 +245,19 @@ import { createSecretsRoutes } from './routes/secrets';
 const secretsRoutes = createSecretsRoutes({ secretVaultService, lifecycleService });
 app.use('/api/v1', secretsRoutes);
 
+// ============================================
+// Alert Routes (Acknowledge, Resolve, Escalation)
+// ============================================
+
+import { createAlertEngine } from './services/alertEngine';
+import { createAlertRoutes } from './routes/alerts';
+
+const alertEngine = createAlertEngine(db);
+const alertRoutes = createAlertRoutes({
+  alertEngine, lifecycleService, rbacService, getUserIdFromRequest: (req) => getUserIdFromRequest(req),
+});
+app.use('/api/v1', alertRoutes);
+
 // ============================================
 // RBAC Routes (Roles, Permissions, Admin, Plugin Admin)
 // ============================================
@@ -314,6 +327,26 @@ const wsService = createWebSocketService(db);
 // Export for use in other modules (e.g., to broadcast events)
 export { wsService };
 
+// ============================================
+// Secret Rotation Reminders
+// ============================================
+
+import { createSecretRotationScheduler } from './services/secretRotationScheduler';
+
+const secretRotationScheduler = createSecretRotationScheduler(secretVaultService, async (reminder) => {
+  await lifecycleService.audit({
+    action: 'secret.rotation_reminder',
+    resource: 'secret',
+    resourceId: reminder.key,
+    details: { nextRotationAt: reminder.nextRotationAt.toISOString(), overdue: reminder.overdue },
+  });
+  wsService.sendToRoles(['system:admin'], {
+    type: 'secret:rotation_due',
+    payload: reminder,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // Graceful shutdown
 async function shutdown() {
   console.log('Shutting down gracefully...');
@@ -321,6 +354,9 @@ async function shutdown() {
   // Stop WebSocket service
   wsService.shutdown();
 
+  secretRotationScheduler.stop();
+  alertEngine.shutdown();
+
   // Close Redis connection
   try {
     await closeRedis();
@@ -369,6 +405,9 @@ httpServer.listen(PORT, async () => {
     console.error(`   Services: Failed to start some services - ${error}`);
   }
 
+  secretRotationScheduler.start();
+  alertEngine.startEscalations();
+
   // Fix existing packages with 'draft' status that are actually published (one-time migration)
   try {
     const result = await db.pluginPackage.updateMany({
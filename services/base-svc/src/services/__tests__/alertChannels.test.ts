@@ -0,0 +1,108 @@
+/**
+ * Alert Notification Channels Tests
+ * Payload builders and in-app inbox delivery
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildDiscordMessage,
+  buildOpsgenieRequest,
+  createAlertChannelSender,
+  type AlertNotification,
+} from '../alertChannels.js';
+
+const notification: AlertNotification = {
+  action: 'trigger',
+  alertId: 'alert-1',
+  alertName: 'High Error Rate',
+  deploymentId: '550e8400-e29b-41d4-a716-446655440000',
+  severity: 'critical',
+  condition: 'error_rate > 0.05',
+  currentValue: 0.12,
+  threshold: 0.05,
+  timestamp: new Date('2026-10-19T12:00:00Z'),
+};
+
+describe('buildOpsgenieRequest', () => {
+  it('creates an alert aliased by the alert id', () => {
+    const { url, body } = buildOpsgenieRequest({ apiKey: 'k' }, notification);
+
+    expect(url).toBe('https://api.opsgenie.com/v2/alerts');
+    expect(body).toMatchObject({
+      alias: 'alert-1',
+      priority: 'P1',
+      message: 'High Error Rate: error_rate > 0.05',
+      details: { currentValue: '0.12', threshold: '0.05' },
+    });
+  });
+
+  it('acknowledges by alias, in the configured region', () => {
+    const { url, body } = buildOpsgenieRequest(
+      { apiKey: 'k', region: 'eu' },
+      { ...notification, action: 'acknowledge', actor: 'user-1' }
+    );
+
+    expect(url).toBe('https://api.eu.opsgenie.com/v2/alerts/alert-1/acknowledge?identifierType=alias');
+    expect(body).toEqual({ source: 'naap', user: 'user-1', note: 'Acknowledged by user-1' });
+  });
+});
+
+describe('buildDiscordMessage', () => {
+  it('colors resolved alerts green regardless of severity', () => {
+    const message = buildDiscordMessage({ ...notification, action: 'resolve', currentValue: null });
+
+    expect(message.embeds[0]).toMatchObject({
+      title: 'Resolved: High Error Rate',
+      description: 'Condition no longer met',
+      color: 0x2ecc71,
+    });
+    expect(message.embeds[0].fields.map(f => f.name)).toEqual(['Condition', 'Threshold', 'Severity']);
+  });
+});
+
+describe('createAlertChannelSender', () => {
+  const prisma = {
+    userRole: { findMany: vi.fn() },
+    inAppNotification: { createMany: vi.fn() },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('delivers in-app notifications to listed users and role holders once each', async () => {
+    prisma.userRole.findMany.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }]);
+    const sender = createAlertChannelSender(prisma as any);
+
+    await sender.send({ type: 'in_app', config: { userIds: ['user-1'], roles: ['system:admin'] } }, notification);
+
+    expect(prisma.userRole.findMany).toHaveBeenCalledWith({
+      where: { role: { name: { in: ['system:admin'] } } },
+      select: { userId: true },
+    });
+    const { data } = prisma.inAppNotification.createMany.mock.calls[0][0];
+    expect(data.map((n: { userId: string }) => n.userId)).toEqual(['user-1', 'user-2']);
+    expect(data[0]).toMatchObject({
+      type: 'alert.triggered',
+      severity: 'critical',
+      title: 'Alert: High Error Rate',
+      body: 'error_rate > 0.05 (current: 0.12)',
+      sourceId: 'alert-1',
+    });
+  });
+
+  it('logs a failing channel instead of throwing', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+    vi.stubGlobal('fetch', fetchMock);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sender = createAlertChannelSender(prisma as any);
+
+    await expect(
+      sender.send({ type: 'pagerduty', config: { routingKey: 'k' } }, notification)
+    ).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith('Failed to send pagerduty notification:', expect.any(Error));
+
+    vi.unstubAllGlobals();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Alert Conditions Tests
+ * Expression evaluation, validation and backtesting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  backtestCondition,
+  describeExpression,
+  evaluateExpression,
+  validateConditionExpression,
+  type ConditionContext,
+  type ConditionExpression,
+} from '../alertConditions.js';
+import { AlertConditionError } from '../deploymentTypes.js';
+import type { AggregatedMetrics, MetricBucket } from '../metricsCollector.js';
+
+function metrics(overrides: Partial<AggregatedMetrics> = {}): AggregatedMetrics {
+  return {
+    deploymentId: 'dep-1',
+    requestCount: 100,
+    errorCount: 0,
+    errorRate: 0,
+    latencyP50: 50,
+    latencyP95: 100,
+    latencyP99: 200,
+    latencyAvg: 60,
+    activeUsers: 1,
+    uniqueSessions: 1,
+    memoryUsageMb: null,
+    cpuUsagePercent: null,
+    sampleCount: 1,
+    ...overrides,
+  };
+}
+
+function context(
+  current: AggregatedMetrics,
+  earlier: AggregatedMetrics | null = null,
+  baseline = { mean: 0.01, stdDev: 0.005, samples: 2016 }
+): ConditionContext {
+  return {
+    current: async () => current,
+    windowAgo: async () => earlier,
+    baseline: async () => baseline,
+  };
+}
+
+/** Contiguous 5-minute buckets with the given error rates */
+function buckets(errorRates: Array<number | null>): MetricBucket[] {
+  const origin = new Date('2026-10-19T00:00:00Z').getTime();
+  return errorRates.map((errorRate, i) => ({
+    start: new Date(origin + i * 300_000),
+    end: new Date(origin + (i + 1) * 300_000),
+    metrics: errorRate === null ? metrics({ sampleCount: 0 }) : metrics({ errorRate }),
+  }));
+}
+
+describe('evaluateExpression', () => {
+  it('compares rate of change in percent against the earlier window', async () => {
+    const expression: ConditionExpression = {
+      type: 'rate_of_change',
+      metric: 'latency_p99',
+      operator: 'gte',
+      threshold: 50,
+      windowMinutes: 60,
+    };
+
+    const result = await evaluateExpression(
+      expression,
+      context(metrics({ latencyP99: 400 }), metrics({ latencyP99: 200 }))
+    );
+
+    expect(result).toEqual({ met: true, value: 100 });
+  });
+
+  it('is not met when there is no earlier data to compare with', async () => {
+    const expression: ConditionExpression = {
+      type: 'rate_of_change',
+      metric: 'error_rate',
+      operator: 'gt',
+      threshold: 10,
+      windowMinutes: 60,
+    };
+
+    const result = await evaluateExpression(expression, context(metrics({ errorRate: 0.5 }), null));
+
+    expect(result.met).toBe(false);
+  });
+
+  it('flags values 3σ above the baseline', async () => {
+    const expression: ConditionExpression = { type: 'anomaly', metric: 'error_rate' };
+
+    const normal = await evaluateExpression(expression, context(metrics({ errorRate: 0.02 })));
+    const anomalous = await evaluateExpression(expression, context(metrics({ errorRate: 0.03 })));
+
+    expect(normal).toEqual({ met: false, value: expect.closeTo(2) });
+    expect(anomalous).toEqual({ met: true, value: expect.closeTo(4) });
+  });
+
+  it('does not alert on an anomaly before the baseline has enough samples', async () => {
+    const expression: ConditionExpression = { type: 'anomaly', metric: 'error_rate' };
+
+    const result = await evaluateExpression(
+      expression,
+      context(metrics({ errorRate: 0.9 }), null, { mean: 0.01, stdDev: 0.005, samples: 3 })
+    );
+
+    expect(result.met).toBe(false);
+  });
+
+  it('combines conditions with all / any', async () => {
+    const highErrors: ConditionExpression = { type: 'threshold', metric: 'error_rate', operator: 'gt', threshold: 0.05 };
+    const slow: ConditionExpression = { type: 'threshold', metric: 'latency_p99', operator: 'gt', threshold: 1000 };
+    const ctx = context(metrics({ errorRate: 0.1, latencyP99: 200 }));
+
+    const all = await evaluateExpression({ type: 'composite', match: 'all', conditions: [highErrors, slow] }, ctx);
+    const any = await evaluateExpression({ type: 'composite', match: 'any', conditions: [highErrors, slow] }, ctx);
+
+    expect(all).toEqual({ met: false, value: 1 });
+    expect(any).toEqual({ met: true, value: 1 });
+  });
+});
+
+describe('validateConditionExpression', () => {
+  it('rejects unknown metrics and empty composites', () => {
+    expect(() =>
+      validateConditionExpression({ type: 'anomaly', metric: 'queue_depth' as never })
+    ).toThrow(AlertConditionError);
+    expect(() =>
+      validateConditionExpression({ type: 'composite', match: 'all', conditions: [] })
+    ).toThrow(/at least one condition/);
+  });
+
+  it('allows negative rate of change thresholds for drops', () => {
+    expect(() =>
+      validateConditionExpression({
+        type: 'rate_of_change',
+        metric: 'latency_avg',
+        operator: 'lte',
+        threshold: -50,
+        windowMinutes: 30,
+      })
+    ).not.toThrow();
+  });
+
+  it('limits composite nesting', () => {
+    const leaf: ConditionExpression = { type: 'threshold', metric: 'error_rate', operator: 'gt', threshold: 0 };
+    let nested: ConditionExpression = leaf;
+    for (let i = 0; i < 4; i++) {
+      nested = { type: 'composite', match: 'any', conditions: [nested] };
+    }
+
+    expect(() => validateConditionExpression(nested)).toThrow(/nested at most 3/);
+  });
+});
+
+describe('describeExpression', () => {
+  it('formats composite conditions', () => {
+    expect(
+      describeExpression({
+        type: 'composite',
+        match: 'all',
+        conditions: [
+          { type: 'anomaly', metric: 'error_rate' },
+          { type: 'threshold', metric: 'latency_p99', operator: 'gt', threshold: 500 },
+        ],
+      })
+    ).toBe('(error_rate 3σ above 7d baseline AND latency_p99 > 500)');
+  });
+});
+
+describe('backtestCondition', () => {
+  const start = new Date('2026-10-19T00:00:00Z');
+
+  it('triggers once the condition has held for the duration and resolves when it clears', async () => {
+    const expression: ConditionExpression = { type: 'threshold', metric: 'error_rate', operator: 'gt', threshold: 0.05 };
+
+    const result = await backtestCondition(expression, buckets([0, 0.1, 0.2, 0.1, 0, 0]), {
+      start,
+      duration: 300,
+      cooldownSeconds: 600,
+    });
+
+    expect(result.evaluations).toBe(6);
+    expect(result.breaches).toBe(3);
+    expect(result.notifications).toBe(1);
+    expect(result.incidents).toEqual([
+      {
+        triggeredAt: new Date('2026-10-19T00:15:00Z'),
+        resolvedAt: new Date('2026-10-19T00:25:00Z'),
+        peakValue: 0.2,
+      },
+    ]);
+  });
+
+  it('repeats notifications after the cooldown while an incident stays open', async () => {
+    const expression: ConditionExpression = { type: 'threshold', metric: 'error_rate', operator: 'gt', threshold: 0.05 };
+
+    const result = await backtestCondition(expression, buckets(Array(8).fill(0.1)), {
+      start,
+      duration: 60,
+      cooldownSeconds: 900,
+    });
+
+    expect(result.incidents).toHaveLength(1);
+    expect(result.incidents[0].resolvedAt).toBeNull();
+    expect(result.notifications).toBe(3);
+  });
+
+  it('builds anomaly baselines from buckets before the evaluated one', async () => {
+    const expression: ConditionExpression = { type: 'anomaly', metric: 'error_rate', baselineDays: 1, minSamples: 4 };
+    const history = [0.01, 0.02, 0.01, 0.02, null, 0.01, 0.02, 0.5];
+    // Only evaluate the last bucket; the rest is lookback
+    const from = new Date(start.getTime() + 7 * 300_000);
+
+    const result = await backtestCondition(expression, buckets(history), {
+      start: from,
+      duration: 60,
+      cooldownSeconds: 300,
+    });
+
+    expect(result.evaluations).toBe(1);
+    expect(result.series[0].met).toBe(true);
+    expect(result.series[0].value).toBeCloseTo((0.5 - 0.015) / 0.005);
+  });
+});
@@ -5,19 +5,28 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createAlertEngine, type AlertConfig, type AlertSeverity } from '../alertEngine.js';
-import { InvalidDeploymentIdError } from '../deploymentTypes.js';
+import { InvalidDeploymentIdError, AlertStateError, AlertConditionError } from '../deploymentTypes.js';
+import { PAGERDUTY_EVENTS_URL } from '../alertChannels.js';
 
 // Mock Prisma client
 const mockPrisma = {
   pluginAlert: {
     create: vi.fn(),
     update: vi.fn(),
+    updateMany: vi.fn(),
     delete: vi.fn(),
     findMany: vi.fn(),
     findFirst: vi.fn(),
+    findUnique: vi.fn(),
     count: vi.fn(),
     groupBy: vi.fn(),
   },
+  userRole: {
+    findMany: vi.fn(),
+  },
+  inAppNotification: {
+    createMany: vi.fn(),
+  },
   pluginMetrics: {
     findMany: vi.fn(),
   },
@@ -379,4 +388,340 @@ describe('AlertEngine', () => {
       // Implementation would check lastTriggeredAt + cooldownSeconds
     });
   });
+
+  describe('Incident lifecycle', () => {
+    const pagerduty = { type: 'pagerduty', config: { routingKey: 'pd-key' } };
+    const opsgenie = { type: 'opsgenie', config: { apiKey: 'og-key', region: 'eu' } };
+
+    function firingAlert(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'alert-1',
+        deploymentId,
+        name: 'Backend Down',
+        metric: 'health_check',
+        operator: 'eq',
+        threshold: 1,
+        duration: 0,
+        severity: 'critical',
+        enabled: true,
+        autoRollback: false,
+        channels: [pagerduty],
+        cooldownSeconds: 300,
+        lastTriggeredAt: new Date(Date.now() - 10 * 60 * 1000),
+        status: 'firing',
+        escalationPolicy: null,
+        escalationLevel: 0,
+        lastEscalatedAt: null,
+        ...overrides,
+      };
+    }
+
+    const sentTo = (url: string) =>
+      mockFetch.mock.calls.filter(([u]) => u === url).map(([, init]) => JSON.parse(init.body));
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true });
+      mockPrisma.pluginAlert.update.mockResolvedValue({});
+      mockPrisma.pluginAlert.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('starts a new incident when an alert triggers', async () => {
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([firingAlert({ status: 'resolved', lastTriggeredAt: null })]);
+
+      await alertEngine.checkCondition(deploymentId, 'health_check', { error: 'Backend unreachable' });
+
+      expect(mockPrisma.pluginAlert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-1' },
+        data: expect.objectContaining({
+          status: 'firing',
+          escalationLevel: 0,
+          lastEscalatedAt: expect.any(Date),
+          acknowledgedBy: null,
+        }),
+      });
+      expect(sentTo(PAGERDUTY_EVENTS_URL)[0]).toMatchObject({
+        routing_key: 'pd-key',
+        dedup_key: 'alert-1',
+        event_action: 'trigger',
+        payload: { severity: 'critical' },
+      });
+    });
+
+    it('does not notify again while the alert is acknowledged', async () => {
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([
+        firingAlert({ status: 'acknowledged', lastTriggeredAt: null }),
+      ]);
+
+      await alertEngine.checkCondition(deploymentId, 'health_check', { error: 'Backend unreachable' });
+
+      expect(mockPrisma.pluginAlert.update).toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('acknowledges a firing alert and syncs the channels', async () => {
+      const onAcknowledge = vi.fn();
+      alertEngine = createAlertEngine(mockPrisma as any, { onAcknowledge });
+      mockPrisma.pluginAlert.findUnique.mockResolvedValue(firingAlert());
+
+      const alert = await alertEngine.acknowledgeAlert('alert-1', 'user-1');
+
+      expect(alert).toMatchObject({ status: 'acknowledged', acknowledgedBy: 'user-1' });
+      expect(mockPrisma.pluginAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: 'alert-1', status: 'firing' },
+        data: expect.objectContaining({ status: 'acknowledged', acknowledgedBy: 'user-1' }),
+      });
+      expect(sentTo(PAGERDUTY_EVENTS_URL)).toEqual([
+        { routing_key: 'pd-key', dedup_key: 'alert-1', event_action: 'acknowledge' },
+      ]);
+      expect(onAcknowledge).toHaveBeenCalledWith('alert-1', deploymentId, 'user-1');
+    });
+
+    it('rejects acknowledging an alert that is not firing', async () => {
+      mockPrisma.pluginAlert.findUnique.mockResolvedValue(firingAlert({ status: 'resolved' }));
+      mockPrisma.pluginAlert.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(alertEngine.acknowledgeAlert('alert-1', 'user-1')).rejects.toThrow(AlertStateError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('returns null for an unknown alert', async () => {
+      mockPrisma.pluginAlert.findUnique.mockResolvedValue(null);
+
+      expect(await alertEngine.resolveAlert('missing', 'user-1')).toBeNull();
+    });
+
+    it('resolves on every channel notified so far, including escalations', async () => {
+      mockPrisma.pluginAlert.findUnique.mockResolvedValue(
+        firingAlert({
+          status: 'acknowledged',
+          escalationLevel: 1,
+          escalationPolicy: {
+            steps: [
+              { afterSeconds: 300, channels: [opsgenie] },
+              { afterSeconds: 300, channels: [{ type: 'discord', config: { url: 'https://discord.test/hook' } }] },
+            ],
+          },
+        })
+      );
+
+      const alert = await alertEngine.resolveAlert('alert-1', 'user-1');
+
+      expect(alert).toMatchObject({ status: 'resolved', resolvedBy: 'user-1' });
+      expect(sentTo(PAGERDUTY_EVENTS_URL)[0].event_action).toBe('resolve');
+      expect(sentTo('https://api.eu.opsgenie.com/v2/alerts/alert-1/close?identifierType=alias')).toHaveLength(1);
+      expect(sentTo('https://discord.test/hook')).toHaveLength(0);
+    });
+  });
+
+  describe('Escalation', () => {
+    const discord = { type: 'discord', config: { url: 'https://discord.test/hook' } };
+
+    function unacknowledged(minutesAgo: number, overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'alert-1',
+        deploymentId,
+        name: 'High Error Rate',
+        metric: 'error_rate',
+        operator: 'gt',
+        threshold: 0.05,
+        severity: 'critical',
+        enabled: true,
+        channels: [],
+        status: 'firing',
+        escalationPolicy: { steps: [{ afterSeconds: 300, channels: [discord] }] },
+        escalationLevel: 0,
+        lastTriggeredAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+        lastEscalatedAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true });
+      mockPrisma.pluginAlert.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('notifies the next step once the alert has been unacknowledged long enough', async () => {
+      const onEscalate = vi.fn();
+      alertEngine = createAlertEngine(mockPrisma as any, { onEscalate });
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([unacknowledged(10)]);
+
+      const escalations = await alertEngine.processEscalations();
+
+      expect(escalations).toEqual([{ alertId: 'alert-1', deploymentId, level: 1 }]);
+      expect(mockPrisma.pluginAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: 'alert-1', status: 'firing', escalationLevel: 0 },
+        data: expect.objectContaining({ escalationLevel: 1 }),
+      });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://discord.test/hook');
+      expect(JSON.parse(init.body).embeds[0].title).toBe('Escalated (level 1): High Error Rate');
+      expect(onEscalate).toHaveBeenCalledWith({ alertId: 'alert-1', deploymentId, level: 1 });
+    });
+
+    it('waits for the step delay and stops after the last step', async () => {
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([
+        unacknowledged(2),
+        unacknowledged(60, { id: 'alert-2', escalationLevel: 1 }),
+        unacknowledged(60, { id: 'alert-3', status: 'acknowledged' }),
+      ]);
+
+      expect(await alertEngine.processEscalations()).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('times steps from the incident opening, not the latest re-trigger', async () => {
+      const incident = unacknowledged(6, {
+        metric: 'health_check',
+        operator: 'eq',
+        threshold: 1,
+        duration: 0,
+        cooldownSeconds: 60,
+        lastTriggeredAt: new Date(Date.now() - 2 * 60 * 1000),
+      });
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([incident]);
+      mockPrisma.pluginAlert.update.mockResolvedValue({});
+
+      // Re-triggering an open incident leaves its opening time alone
+      await alertEngine.checkCondition(deploymentId, 'health_check', { error: 'Backend unreachable' });
+      const { data } = mockPrisma.pluginAlert.update.mock.calls[0][0];
+      expect(data.lastTriggeredAt).toBeInstanceOf(Date);
+      expect(data).not.toHaveProperty('lastEscalatedAt');
+
+      mockFetch.mockClear();
+      const escalations = await alertEngine.processEscalations();
+      expect(escalations).toEqual([{ alertId: 'alert-1', deploymentId, level: 1 }]);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://discord.test/hook');
+    });
+
+    it('does not notify when another acknowledge or escalation got there first', async () => {
+      mockPrisma.pluginAlert.findMany.mockResolvedValue([unacknowledged(10)]);
+      mockPrisma.pluginAlert.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await alertEngine.processEscalations()).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('rejects an escalation step without channels', async () => {
+      await expect(
+        alertEngine.createAlert({
+          deploymentId,
+          name: 'Test Alert',
+          condition: { metric: 'error_rate', operator: 'gt', threshold: 0.05, duration: 60 },
+          severity: 'warning',
+          channels: [],
+          escalationPolicy: { steps: [{ afterSeconds: 300, channels: [] }] },
+        })
+      ).rejects.toThrow('at least one channel');
+    });
+  });
+
+  describe('Advanced conditions', () => {
+    function metricsRow(timestamp: string, errorCount: number) {
+      return {
+        timestamp: new Date(timestamp),
+        requestCount: 100,
+        errorCount,
+        latencyP50: 50,
+        latencyP95: 100,
+        latencyP99: 200,
+        latencyAvg: 60,
+        activeUsers: 1,
+        uniqueSessions: 1,
+        memoryUsageMb: null,
+        cpuUsagePercent: null,
+      };
+    }
+
+    it('stores the expression with columns describing the composite', async () => {
+      mockPrisma.pluginAlert.create.mockResolvedValue({ id: 'alert-1' });
+
+      await alertEngine.createAlert({
+        deploymentId,
+        name: 'Errors and latency',
+        condition: {
+          expression: {
+            type: 'composite',
+            match: 'all',
+            conditions: [
+              { type: 'anomaly', metric: 'error_rate', stdDevs: 3 },
+              { type: 'rate_of_change', metric: 'latency_p99', operator: 'gt', threshold: 50, windowMinutes: 60 },
+            ],
+          },
+          duration: 300,
+        },
+        severity: 'critical',
+        channels: [],
+      });
+
+      expect(mockPrisma.pluginAlert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          metric: 'composite',
+          operator: 'gte',
+          threshold: 2,
+          expression: expect.objectContaining({ type: 'composite', match: 'all' }),
+        }),
+      });
+    });
+
+    it('rejects an invalid expression', async () => {
+      await expect(
+        alertEngine.createAlert({
+          deploymentId,
+          name: 'Test Alert',
+          condition: { expression: { type: 'anomaly', metric: 'error_rate', stdDevs: 0 }, duration: 60 },
+          severity: 'warning',
+          channels: [],
+        })
+      ).rejects.toThrow(AlertConditionError);
+    });
+
+    it('backtests a condition against stored metrics', async () => {
+      mockPrisma.pluginMetrics.findMany.mockResolvedValue([
+        metricsRow('2026-10-19T00:12:00Z', 10),
+        metricsRow('2026-10-19T00:17:00Z', 10),
+        metricsRow('2026-10-19T00:22:00Z', 10),
+        metricsRow('2026-10-19T00:27:00Z', 0),
+      ]);
+
+      const preview = await alertEngine.previewAlert({
+        deploymentId,
+        condition: { metric: 'error_rate', operator: 'gt', threshold: 0.05, duration: 60 },
+        cooldownSeconds: 3600,
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-19T01:00:00Z'),
+      });
+
+      // One window of lookback before the range
+      expect(mockPrisma.pluginMetrics.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            timestamp: { gte: new Date('2026-10-18T23:55:00Z'), lt: new Date('2026-10-19T01:00:00Z') },
+          }),
+        })
+      );
+      expect(preview.condition).toBe('error_rate > 0.05');
+      expect(preview.evaluations).toBe(12);
+      expect(preview.breaches).toBe(3);
+      expect(preview.notifications).toBe(1);
+      expect(preview.incidents).toEqual([
+        {
+          triggeredAt: new Date('2026-10-19T00:20:00Z'),
+          resolvedAt: new Date('2026-10-19T00:30:00Z'),
+          peakValue: 0.1,
+        },
+      ]);
+    });
+
+    it('limits the preview range', async () => {
+      await expect(
+        alertEngine.previewAlert({
+          deploymentId,
+          condition: { expression: { type: 'anomaly', metric: 'error_rate' }, duration: 60 },
+          start: new Date('2026-08-01T00:00:00Z'),
+          end: new Date('2026-10-19T00:00:00Z'),
+        })
+      ).rejects.toThrow('at most 30 days');
+    });
+  });
 });
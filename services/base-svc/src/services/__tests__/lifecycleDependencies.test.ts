@@ -0,0 +1,234 @@
+/**
+ * Lifecycle Service — Dependency Tests
+ *
+ * Runs the real lifecycle service against an in-memory registry:
+ * - Install resolves the dependency graph and installs it in order
+ * - Conflicts stop an install before anything is installed
+ * - Uninstall refuses while dependents are installed, or cascades
+ * - Upgrade checks installed dependents and installs new dependencies
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/client', () => ({ db: {} }));
+
+import { createLifecycleService } from '../lifecycle';
+import { PluginDependencyError } from '../pluginDependencyTypes';
+
+interface Version {
+  id: string;
+  packageId: string;
+  version: string;
+  manifest: object;
+  frontendUrl: string | null;
+  deprecated: boolean;
+}
+
+interface Installation {
+  id: string;
+  packageId: string;
+  versionId: string;
+  status: string;
+}
+
+function createRegistry() {
+  const packages: Array<{ id: string; name: string; displayName: string; icon: null }> = [];
+  const versions: Version[] = [];
+  const installations = new Map<string, Installation>();
+  const events: Array<{ pluginName: string; action: string; toStatus: string }> = [];
+
+  const withRelations = (i: Installation) => ({
+    ...i,
+    package: packages.find(p => p.id === i.packageId)!,
+    version: versions.find(v => v.id === i.versionId)!,
+  });
+  const installationBy = (where: { id?: string; packageId?: string }) =>
+    [...installations.values()].find(i => (where.id ? i.id === where.id : i.packageId === where.packageId));
+
+  const prisma = {
+    pluginPackage: {
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const pkg = packages.find(p => p.id === where.id || p.name === where.name);
+        if (!pkg) return null;
+        return include?.versions
+          ? { ...pkg, versions: versions.filter(v => v.packageId === pkg.id && !v.deprecated) }
+          : pkg;
+      }),
+    },
+    pluginVersion: {
+      findUnique: vi.fn(async ({ where }: any) => versions.find(v => v.id === where.id) ?? null),
+    },
+    pluginInstallation: {
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const found = installationBy(where);
+        return found ? (include ? withRelations(found) : found) : null;
+      }),
+      findMany: vi.fn(async ({ where }: any) =>
+        [...installations.values()].filter(i => where.status.in.includes(i.status)).map(withRelations)
+      ),
+      upsert: vi.fn(async ({ where, create, update }: any) => {
+        const existing = installations.get(where.packageId);
+        const next = existing ? { ...existing, ...update } : { id: `inst-${where.packageId}`, ...create };
+        installations.set(where.packageId, next);
+        return next;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const found = installationBy(where)!;
+        const next = { ...found, ...data };
+        installations.set(found.packageId, next);
+        return next;
+      }),
+      delete: vi.fn(async ({ where }: any) => installations.delete(where.packageId)),
+    },
+    workflowPlugin: {
+      upsert: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    role: {
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    pluginLifecycleEvent: {
+      create: vi.fn(async ({ data }: any) => {
+        events.push(data);
+        return data;
+      }),
+    },
+    auditLog: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+  };
+
+  return {
+    prisma,
+    installations,
+    /** Plugins that reached `installed` / `uninstalled`, in order */
+    completed: (action: string, toStatus: string) =>
+      events.filter(e => e.action === action && e.toStatus === toStatus).map(e => e.pluginName),
+    publish(name: string, version: string, dependencies: Record<string, string> = {}) {
+      let pkg = packages.find(p => p.name === name);
+      if (!pkg) {
+        pkg = { id: `pkg-${name}`, name, displayName: name, icon: null };
+        packages.push(pkg);
+      }
+      const row: Version = {
+        id: `${name}@${version}`,
+        packageId: pkg.id,
+        version,
+        manifest: {
+          dependencies: {
+            plugins: Object.entries(dependencies).map(([dep, range]) => ({ name: dep, version: range })),
+          },
+        },
+        frontendUrl: null,
+        deprecated: false,
+      };
+      versions.push(row);
+      return row;
+    },
+    markInstalled(version: Version) {
+      installations.set(version.packageId, {
+        id: `inst-${version.packageId}`,
+        packageId: version.packageId,
+        versionId: version.id,
+        status: 'installed',
+      });
+    },
+  };
+}
+
+describe('Lifecycle — Dependencies', () => {
+  let registry: ReturnType<typeof createRegistry>;
+  let lifecycle: ReturnType<typeof createLifecycleService>;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    lifecycle = createLifecycleService(registry.prisma as any);
+  });
+
+  it('installs the dependency graph before the plugin', async () => {
+    registry.publish('service-gateway', '1.0.0');
+    registry.publish('dashboard-data-provider', '1.2.0', { 'service-gateway': '^1.0.0' });
+    const dashboard = registry.publish('my-dashboard', '1.0.0', { 'dashboard-data-provider': '^1.0.0' });
+
+    const result = await lifecycle.installPlugin(dashboard.packageId, dashboard.id, 'user-1');
+
+    expect(registry.completed('install', 'installed')).toEqual([
+      'service-gateway',
+      'dashboard-data-provider',
+      'my-dashboard',
+    ]);
+    expect(result.dependencies).toEqual(['service-gateway@1.0.0', 'dashboard-data-provider@1.2.0']);
+  });
+
+  it('installs nothing when the graph has a conflict', async () => {
+    registry.markInstalled(registry.publish('dashboard-data-provider', '1.0.0'));
+    registry.publish('service-gateway', '1.0.0');
+    const dashboard = registry.publish('my-dashboard', '2.0.0', {
+      'service-gateway': '*',
+      'dashboard-data-provider': '^2.0.0',
+    });
+
+    const error = await lifecycle.installPlugin(dashboard.packageId, dashboard.id).catch(e => e);
+
+    expect(error).toBeInstanceOf(PluginDependencyError);
+    expect(error.conflicts).toHaveLength(1);
+    expect(error.conflicts[0].name).toBe('dashboard-data-provider');
+    expect(registry.completed('install', 'installed')).toEqual([]);
+    expect(registry.installations.size).toBe(1);
+  });
+
+  it('refuses to uninstall a plugin other plugins depend on', async () => {
+    const provider = registry.publish('dashboard-data-provider', '1.0.0');
+    registry.markInstalled(provider);
+    registry.markInstalled(registry.publish('my-dashboard', '1.0.0', { 'dashboard-data-provider': '^1.0.0' }));
+
+    const error = await lifecycle.uninstallPlugin(provider.packageId).catch(e => e);
+
+    expect(error).toBeInstanceOf(PluginDependencyError);
+    expect(error.dependents).toEqual(['my-dashboard']);
+    expect(registry.installations.size).toBe(2);
+  });
+
+  it('cascades to dependents, dependents first', async () => {
+    const gateway = registry.publish('service-gateway', '1.0.0');
+    registry.markInstalled(gateway);
+    registry.markInstalled(registry.publish('dashboard-data-provider', '1.0.0', { 'service-gateway': '*' }));
+    registry.markInstalled(registry.publish('my-dashboard', '1.0.0', { 'dashboard-data-provider': '*' }));
+
+    const result = await lifecycle.uninstallPlugin(gateway.packageId, 'user-1', { cascade: true });
+
+    expect(result.cascaded).toEqual(['my-dashboard', 'dashboard-data-provider']);
+    expect(registry.completed('uninstall', 'uninstalled')).toEqual([
+      'my-dashboard',
+      'dashboard-data-provider',
+      'service-gateway',
+    ]);
+    expect(registry.installations.size).toBe(0);
+  });
+
+  it('refuses an upgrade that installed dependents do not accept', async () => {
+    const provider = registry.publish('dashboard-data-provider', '1.0.0');
+    registry.markInstalled(provider);
+    registry.markInstalled(registry.publish('my-dashboard', '1.0.0', { 'dashboard-data-provider': '^1.0.0' }));
+    const next = registry.publish('dashboard-data-provider', '2.0.0');
+
+    await expect(lifecycle.upgradePlugin(provider.packageId, next.id)).rejects.toThrow(
+      /does not satisfy \^1\.0\.0 \(required by my-dashboard\)/
+    );
+    expect(registry.installations.get(provider.packageId)?.versionId).toBe(provider.id);
+  });
+
+  it('installs dependencies a new version adds before upgrading', async () => {
+    const dashboard = registry.publish('my-dashboard', '1.0.0');
+    registry.markInstalled(dashboard);
+    registry.publish('dashboard-data-provider', '1.0.0');
+    const next = registry.publish('my-dashboard', '1.1.0', { 'dashboard-data-provider': '^1.0.0' });
+
+    const result = await lifecycle.upgradePlugin(dashboard.packageId, next.id);
+
+    expect(result.dependencies).toEqual(['dashboard-data-provider@1.0.0']);
+    expect(registry.installations.get(dashboard.packageId)?.versionId).toBe(next.id);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Secret Vault — Versioning, Rotation and Audit Tests
+ *
+ * Runs the real vault service against an in-memory SecretVault /
+ * SecretVersion / SecretAccessLog store:
+ * - Rotation keeps the previous value resolvable for the grace window
+ * - Rotation schedules produce one reminder per period
+ * - Reads are recorded with their accessor
+ * - Master key rotation: old values still decrypt and rewrap moves them over
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSecretVaultService } from '../secrets';
+import { createEncryptionService } from '../encryption';
+import { createSecretRotationScheduler } from '../secretRotationScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createStore() {
+  const secrets: any[] = [];
+  const versions: any[] = [];
+  const accessLog: any[] = [];
+  let ids = 0;
+
+  const isStale = (row: any, where: any) =>
+    !where?.OR || where.OR.some((c: any) => (c.keyId === null ? row.keyId == null : row.keyId !== c.keyId.not));
+  const startsWith = (value: string, c: any) => c !== undefined && value.startsWith(c.startsWith);
+  const isExcluded = (row: any, key: string, where: any) =>
+    (where?.NOT ?? []).some(
+      (c: any) =>
+        startsWith(key, c.key ?? c.secret?.key) || startsWith(row.encryptedValue, c.encryptedValue)
+    );
+  const liveVersions = (secretId: string, where: any = {}) =>
+    versions
+      .filter(v => v.secretId === secretId)
+      .filter(v => where.version === undefined || v.version === where.version)
+      .filter(v => !where.expiresAt || v.expiresAt > where.expiresAt.gt)
+      .sort((a, b) => b.version - a.version);
+  const secretBy = (where: any) => secrets.find(s => (where.id ? s.id === where.id : s.key === where.key));
+
+  const prisma = {
+    secretVault: {
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const secret = secretBy(where);
+        if (!secret) return null;
+        return include?.versions ? { ...secret, versions: liveVersions(secret.id, include.versions.where) } : secret;
+      }),
+      findFirst: vi.fn(async ({ where }: any) =>
+        secrets.find(s => s.key === where.key && (!where.scope || s.scope === where.scope)) ?? null
+      ),
+      findMany: vi.fn(async ({ where }: any = {}) =>
+        secrets
+          .filter(s => !where?.scope || s.scope === where.scope)
+          .filter(s => !where?.nextRotationAt || s.nextRotationAt !== null)
+          .filter(s => isStale(s, where) && !isExcluded(s, s.key, where))
+      ),
+      create: vi.fn(async ({ data }: any) => {
+        const now = new Date();
+        const secret = {
+          id: `secret-${++ids}`,
+          description: null,
+          createdBy: null,
+          rotatedAt: null,
+          keyId: null,
+          currentVersion: 1,
+          graceWindowSeconds: 0,
+          rotationIntervalDays: null,
+          nextRotationAt: null,
+          reminderDays: 7,
+          reminderSentAt: null,
+          createdAt: now,
+          updatedAt: now,
+          ...data,
+        };
+        secrets.push(secret);
+        return secret;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const secret = secretBy(where);
+        if (!secret || (where.currentVersion !== undefined && secret.currentVersion !== where.currentVersion)) {
+          throw new Error('Record to update not found');
+        }
+        const defined = Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+        Object.assign(secret, defined, { updatedAt: new Date() });
+        return secret;
+      }),
+    },
+    secretVersion: {
+      create: vi.fn(async ({ data }: any) => {
+        const version = { id: `version-${++ids}`, ...data };
+        versions.push(version);
+        return version;
+      }),
+      findMany: vi.fn(async ({ where }: any) =>
+        versions
+          .map(v => ({ ...v, secret: { key: secrets.find(s => s.id === v.secretId).key } }))
+          .filter(v => isStale(v, where) && !isExcluded(v, v.secret.key, where))
+      ),
+      update: vi.fn(async ({ where, data }: any) => Object.assign(versions.find(v => v.id === where.id), data)),
+      deleteMany: vi.fn(async ({ where }: any) => {
+        const expired = versions.filter(v => v.expiresAt <= where.expiresAt.lte);
+        expired.forEach(v => versions.splice(versions.indexOf(v), 1));
+        return { count: expired.length };
+      }),
+    },
+    secretAccessLog: {
+      create: vi.fn(async ({ data }: any) => {
+        accessLog.push({ ...data, createdAt: new Date() });
+        return data;
+      }),
+      findMany: vi.fn(async ({ where }: any) => accessLog.filter(e => e.secretKey === where.secretKey)),
+    },
+    aPIKeyMapping: {
+      findUnique: vi.fn(async () => ({ secretKey: 'openai_api_key', enabled: true })),
+    },
+    $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+
+  return { prisma, secrets, versions, accessLog };
+}
+
+describe('Secret Vault — versions and grace window', () => {
+  let store: ReturnType<typeof createStore>;
+  let vault: ReturnType<typeof createSecretVaultService>;
+
+  beforeEach(() => {
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    store = createStore();
+    vault = createSecretVaultService(store.prisma as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('without a grace window, only the new value resolves', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    const metadata = await vault.rotateSecret('api', 'v2', 'user-1');
+
+    expect(metadata?.currentVersion).toBe(2);
+    expect(store.versions).toHaveLength(0);
+    expect(await vault.getSecretValues('api')).toEqual([{ version: 2, value: 'v2' }]);
+    expect(await vault.getSecretVersion('api', 1)).toBeNull();
+  });
+
+  it('keeps the previous value resolvable during the grace window', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.rotateSecret('api', 'v2', 'user-1', { graceSeconds: 3600 });
+
+    expect(await vault.getSecret('api')).toBe('v2');
+    expect((await vault.getSecretValues('api'))!.map(v => [v.version, v.value])).toEqual([[2, 'v2'], [1, 'v1']]);
+    expect(await vault.getSecretVersion('api', 1)).toBe('v1');
+
+    const versions = await vault.listSecretVersions('api');
+    expect(versions).toMatchObject([
+      { version: 2, current: true },
+      { version: 1, current: false, supersededBy: 'user-1' },
+    ]);
+  });
+
+  it('stops resolving and retires versions once the grace window ends', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.rotateSecret('api', 'v2', undefined, { graceSeconds: 60 });
+    store.versions[0].expiresAt = new Date(Date.now() - 1000);
+
+    expect(await vault.getSecretVersion('api', 1)).toBeNull();
+    expect(await vault.retireExpiredVersions()).toBe(1);
+    expect(store.versions).toHaveLength(0);
+  });
+
+  it('uses the secret grace window when the rotation does not set one', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.setRotationSchedule('api', { intervalDays: null, graceSeconds: 600 });
+    await vault.storeSecret({ key: 'api', value: 'v2' });
+
+    expect(store.versions).toHaveLength(1);
+    expect(store.versions[0].expiresAt.getTime() - store.versions[0].supersededAt.getTime()).toBe(600_000);
+  });
+});
+
+describe('Secret Vault — rotation schedules', () => {
+  let store: ReturnType<typeof createStore>;
+  let vault: ReturnType<typeof createSecretVaultService>;
+
+  beforeEach(() => {
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    store = createStore();
+    vault = createSecretVaultService(store.prisma as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reminds once inside the reminder window, and again after the next rotation', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    const created = store.secrets[0].createdAt.getTime();
+    await vault.setRotationSchedule('api', { intervalDays: 30, reminderDays: 5 });
+
+    const notify = vi.fn();
+    expect(await vault.sendRotationReminders(notify, new Date(created + 20 * DAY_MS))).toEqual([]);
+
+    const sent = await vault.sendRotationReminders(notify, new Date(created + 26 * DAY_MS));
+    expect(sent).toMatchObject([{ key: 'api', overdue: false }]);
+    expect(await vault.sendRotationReminders(notify, new Date(created + 31 * DAY_MS))).toEqual([]);
+    expect(notify).toHaveBeenCalledTimes(1);
+
+    const due = await vault.getDueRotations(new Date(created + 31 * DAY_MS));
+    expect(due).toMatchObject([{ key: 'api', overdue: true }]);
+
+    const rotated = await vault.rotateSecret('api', 'v2');
+    expect(rotated!.nextRotationAt!.getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+    expect(store.secrets[0].reminderSentAt).toBeNull();
+  });
+
+  it('retries a reminder that failed to send', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.setRotationSchedule('api', { intervalDays: 1 });
+
+    const notify = vi.fn().mockRejectedValueOnce(new Error('down'));
+    const scheduler = createSecretRotationScheduler(vault, notify);
+
+    expect((await scheduler.runOnce()).reminders).toEqual([]);
+    expect((await scheduler.runOnce()).reminders).toHaveLength(1);
+  });
+
+  it('clearing the schedule stops reminders', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.setRotationSchedule('api', { intervalDays: 1 });
+    await vault.setRotationSchedule('api', { intervalDays: null });
+
+    expect(await vault.getDueRotations(new Date(Date.now() + 10 * DAY_MS))).toEqual([]);
+  });
+});
+
+describe('Secret Vault — read audit', () => {
+  let store: ReturnType<typeof createStore>;
+  let vault: ReturnType<typeof createSecretVaultService>;
+
+  beforeEach(() => {
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    store = createStore();
+    vault = createSecretVaultService(store.prisma as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('records who resolved a secret and which version', async () => {
+    await vault.storeSecret({ key: 'openai_api_key', value: 'sk-1', scope: 'global' });
+    await vault.getIntegrationSecret('my-wallet', 'openai');
+    await vault.getGlobalIntegrationSecret('openai');
+
+    expect(store.accessLog.map(e => [e.accessor, e.version])).toEqual([
+      ['plugin:my-wallet', 1],
+      ['integration:openai', 1],
+    ]);
+  });
+
+  it('does not fail the read when the audit write fails', async () => {
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    store.prisma.secretAccessLog.create.mockRejectedValueOnce(new Error('db down'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await vault.getSecret('api', undefined, { accessor: 'user:u1' })).toBe('v1');
+  });
+});
+
+describe('Secret Vault — master key rewrap', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('decrypts with a previous master key and rewraps under the current one', async () => {
+    const store = createStore();
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    const before = createSecretVaultService(store.prisma as any);
+    await before.storeSecret({ key: 'api', value: 'v1' });
+    await before.rotateSecret('api', 'v2', undefined, { graceSeconds: 3600 });
+    const oldKeyId = store.secrets[0].keyId;
+
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-b');
+    vi.stubEnv('ENCRYPTION_PREVIOUS_MASTER_KEYS', 'master-key-a');
+    const after = createSecretVaultService(store.prisma as any);
+    expect(await after.getSecret('api')).toBe('v2');
+
+    expect(await after.rewrapSecrets()).toEqual({ rewrapped: 2, unreadable: [] });
+    expect(store.secrets[0].keyId).not.toBe(oldKeyId);
+    expect(await after.rewrapSecrets()).toEqual({ rewrapped: 0, unreadable: [] });
+
+    // The old key is no longer needed
+    vi.stubEnv('ENCRYPTION_PREVIOUS_MASTER_KEYS', '');
+    const rotatedOut = createSecretVaultService(store.prisma as any);
+    expect((await rotatedOut.getSecretValues('api'))!.map(v => v.value)).toEqual(['v2', 'v1']);
+  });
+
+  it('reports values no key in the ring can open', async () => {
+    const store = createStore();
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    await createSecretVaultService(store.prisma as any).storeSecret({ key: 'api', value: 'v1' });
+
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-b');
+    expect(await createSecretVaultService(store.prisma as any).rewrapSecrets()).toEqual({
+      rewrapped: 0,
+      unreadable: ['api'],
+    });
+  });
+
+  it('leaves values web-next encrypts under its own key alone', async () => {
+    const store = createStore();
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    const vault = createSecretVaultService(store.prisma as any);
+    await vault.storeSecret({ key: 'api', value: 'v1' });
+    await vault.rotateSecret('api', 'v2', undefined, { graceSeconds: 3600 });
+    const gateway = await store.prisma.secretVault.create({
+      data: { key: 'gw:team-1:openai:token', encryptedValue: 'ab12:cd34', iv: 'ef56', keyId: 'web-next-key' },
+    });
+    await store.prisma.secretVersion.create({
+      data: { secretId: gateway.id, version: 1, encryptedValue: 'ab12:cd34', iv: 'ef56', keyId: 'web-next-key' },
+    });
+    await store.prisma.secretVault.create({
+      data: { key: 'stripe', encryptedValue: 'v1:gcm:scrypt:00:11:22:33', iv: '11' },
+    });
+
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-b');
+    vi.stubEnv('ENCRYPTION_PREVIOUS_MASTER_KEYS', 'master-key-a');
+    expect(await createSecretVaultService(store.prisma as any).rewrapSecrets()).toEqual({
+      rewrapped: 2,
+      unreadable: [],
+    });
+    expect(gateway).toMatchObject({ encryptedValue: 'ab12:cd34', keyId: 'web-next-key' });
+  });
+
+  it('tries every key in the ring when the key id is unknown', () => {
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-a');
+    const legacy = createEncryptionService().encrypt('value');
+
+    vi.stubEnv('ENCRYPTION_MASTER_KEY', 'master-key-b');
+    vi.stubEnv('ENCRYPTION_PREVIOUS_MASTER_KEYS', 'master-key-a');
+    const encryption = createEncryptionService();
+    expect(encryption.decrypt({ encryptedValue: legacy.encryptedValue, iv: legacy.iv })).toBe('value');
+    expect(encryption.needsRewrap(legacy.keyId)).toBe(true);
+    expect(encryption.needsRewrap(encryption.keyId)).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Version Manager — Dependency Graph Tests
+ *
+ * Resolution runs against an in-memory registry:
+ * - Dependencies are installed before dependents, at the highest version every range allows
+ * - Installed plugins are reused, and their own ranges constrain new picks
+ * - Unsatisfiable ranges, unpublished plugins and cycles are conflicts
+ * - Dependents are found transitively, in uninstall order
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db/client', () => ({ db: {} }));
+
+import {
+  findDependents,
+  getManifestDependencies,
+  resolveDependencyGraph,
+} from '../versionManager';
+import type { DependencyCandidate, DependencySource } from '../pluginDependencyTypes';
+
+type Deps = Record<string, string>;
+
+function candidate(name: string, version: string, deps: Deps = {}, optional: string[] = []): DependencyCandidate {
+  return {
+    packageId: `pkg-${name}`,
+    versionId: `${name}@${version}`,
+    name,
+    version,
+    dependencies: Object.entries(deps).map(([dep, range]) => ({
+      name: dep,
+      range,
+      optional: optional.includes(dep),
+    })),
+  };
+}
+
+function source(published: DependencyCandidate[], installed: DependencyCandidate[] = []): DependencySource {
+  return {
+    getVersions: async (name) => published.filter(c => c.name === name),
+    getInstalled: async () => installed,
+  };
+}
+
+const order = (plan: { steps: Array<{ name: string; version: string }> }) =>
+  plan.steps.map(s => `${s.name}@${s.version}`);
+
+describe('getManifestDependencies', () => {
+  it('reads dependencies.plugins', () => {
+    expect(getManifestDependencies({
+      dependencies: { plugins: [{ name: 'a', version: '^1.2.0' }, { name: 'b', optional: true }] },
+    })).toEqual([
+      { name: 'a', range: '^1.2.0', optional: false },
+      { name: 'b', range: '*', optional: true },
+    ]);
+  });
+
+  it('reads a bare list of names as any version', () => {
+    expect(getManifestDependencies({ dependencies: ['service-gateway'] })).toEqual([
+      { name: 'service-gateway', range: '*', optional: false },
+    ]);
+  });
+
+  it('returns nothing for manifests without dependencies', () => {
+    expect(getManifestDependencies({})).toEqual([]);
+    expect(getManifestDependencies(null)).toEqual([]);
+  });
+});
+
+describe('resolveDependencyGraph', () => {
+  it('installs dependencies first, at the highest matching version', async () => {
+    const root = candidate('my-dashboard', '1.0.0', { 'dashboard-data-provider': '^1.0.0' });
+    const plan = await resolveDependencyGraph(root, source([
+      candidate('dashboard-data-provider', '1.0.0'),
+      candidate('dashboard-data-provider', '1.4.2', { 'service-gateway': '>=2.0.0' }),
+      candidate('dashboard-data-provider', '2.0.0'),
+      candidate('service-gateway', '2.1.0'),
+    ]));
+
+    expect(plan.conflicts).toEqual([]);
+    expect(order(plan)).toEqual(['service-gateway@2.1.0', 'dashboard-data-provider@1.4.2', 'my-dashboard@1.0.0']);
+    expect(plan.steps[1]).toMatchObject({ action: 'install', requiredBy: ['my-dashboard'] });
+  });
+
+  it('picks a version that satisfies every range in the graph', async () => {
+    const root = candidate('app', '1.0.0', { a: '*', b: '*' });
+    const plan = await resolveDependencyGraph(root, source([
+      candidate('a', '1.0.0', { shared: '~1.1.0' }),
+      candidate('b', '1.0.0', { shared: '^1.0.0' }),
+      candidate('shared', '1.1.3'),
+      candidate('shared', '1.2.0'),
+    ]));
+
+    expect(plan.conflicts).toEqual([]);
+    expect(order(plan)).toContain('shared@1.1.3');
+  });
+
+  it('reuses installed plugins and does not traverse them', async () => {
+    const root = candidate('app', '1.0.0', { lib: '^2.0.0' });
+    const plan = await resolveDependencyGraph(
+      root,
+      source([], [candidate('lib', '2.3.0', { unpublished: '*' })])
+    );
+
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.steps.map(s => [s.name, s.action])).toEqual([['lib', 'installed'], ['app', 'install']]);
+  });
+
+  it('reports an installed plugin outside the range instead of upgrading it', async () => {
+    const root = candidate('app', '1.0.0', { lib: '^3.0.0' });
+    const plan = await resolveDependencyGraph(
+      root,
+      source([candidate('lib', '3.0.0')], [candidate('lib', '2.3.0')])
+    );
+
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0].reason).toMatch(/Installed lib@2\.3\.0 does not satisfy \^3\.0\.0 \(required by app\)/);
+  });
+
+  it('keeps installed plugins working', async () => {
+    const installed = [candidate('lib', '1.0.0'), candidate('other', '1.0.0', { shared: '<2.0.0' })];
+    const published = [candidate('shared', '1.5.0'), candidate('shared', '2.0.0')];
+
+    const ok = await resolveDependencyGraph(candidate('app', '1.0.0', { shared: '*' }), source(published, installed));
+    expect(order(ok)).toContain('shared@1.5.0');
+
+    // Upgrading `lib` past what an installed dependent accepts
+    const dependent = candidate('consumer', '1.0.0', { lib: '^1.0.0' });
+    const upgrade = await resolveDependencyGraph(candidate('lib', '2.0.0'), source([], [...installed, dependent]));
+    expect(upgrade.conflicts.map(c => c.reason)).toEqual([
+      'lib@2.0.0 does not satisfy ^1.0.0 (required by consumer)',
+    ]);
+  });
+
+  it('reports unpublished and unsatisfiable dependencies', async () => {
+    const root = candidate('app', '1.0.0', { ghost: '*', lib: '^5.0.0' });
+    const plan = await resolveDependencyGraph(root, source([candidate('lib', '4.0.0')]));
+
+    expect(plan.conflicts.map(c => c.reason)).toEqual([
+      'ghost is required by app but is not published',
+      'No published version of lib satisfies ^5.0.0 (required by app)',
+    ]);
+  });
+
+  it('skips optional dependencies that are not installed', async () => {
+    const root = candidate('app', '1.0.0', { extras: '^1.0.0' }, ['extras']);
+    const plan = await resolveDependencyGraph(root, source([candidate('extras', '1.0.0')]));
+
+    expect(plan.conflicts).toEqual([]);
+    expect(order(plan)).toEqual(['app@1.0.0']);
+  });
+
+  it('reports cycles', async () => {
+    const root = candidate('a', '1.0.0', { b: '*' });
+    const plan = await resolveDependencyGraph(root, source([candidate('b', '1.0.0', { c: '*' }), candidate('c', '1.0.0', { a: '*' })]));
+
+    expect(plan.conflicts.map(c => c.reason)).toContain('Dependency cycle: a -> b -> c -> a');
+  });
+});
+
+describe('findDependents', () => {
+  it('returns transitive dependents, each before what it depends on', () => {
+    const installed = [
+      candidate('app', '1.0.0', { ui: '*', data: '*' }),
+      candidate('ui', '1.0.0', { data: '*' }),
+      candidate('data', '1.0.0'),
+      candidate('unrelated', '1.0.0'),
+      candidate('soft', '1.0.0', { data: '*' }, ['data']),
+    ];
+
+    const names = findDependents(installed, 'data').map(p => p.name);
+    expect([...names].sort()).toEqual(['app', 'ui']);
+    expect(names.indexOf('app')).toBeLessThan(names.indexOf('ui'));
+    expect(findDependents(installed, 'app')).toEqual([]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Alert Notification Channels
+ * Delivers alert lifecycle notifications to external and in-app channels
+ *
+ * Channels:
+ * - Slack / Discord incoming webhooks
+ * - Generic webhook (JSON payload)
+ * - Email (logged; no provider wired yet)
+ * - PagerDuty Events API v2 (trigger / acknowledge / resolve, deduplicated per alert)
+ * - Opsgenie Alert API (create / acknowledge / close, aliased per alert)
+ * - In-app inbox (InAppNotification rows, shown in the shell header)
+ */
+
+import { PrismaClient } from '@naap/database';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type NotificationChannelType =
+  | 'slack'
+  | 'email'
+  | 'webhook'
+  | 'pagerduty'
+  | 'opsgenie'
+  | 'discord'
+  | 'in_app';
+
+export interface NotificationChannel {
+  type: NotificationChannelType;
+  config: {
+    url?: string; // For Slack/Discord/webhook
+    address?: string; // For email
+    headers?: Record<string, string>; // For webhook
+    routingKey?: string; // For PagerDuty (Events v2 integration key)
+    apiKey?: string; // For Opsgenie
+    region?: 'us' | 'eu'; // For Opsgenie (default: us)
+    userIds?: string[]; // For in-app
+    roles?: string[]; // For in-app (every user holding the role)
+  };
+}
+
+/** Where the alert is in its lifecycle when the notification is sent */
+export type AlertNotificationAction = 'trigger' | 'escalate' | 'acknowledge' | 'resolve';
+
+export interface AlertNotification {
+  action: AlertNotificationAction;
+  alertId: string;
+  alertName: string;
+  deploymentId: string;
+  severity: 'critical' | 'warning' | 'info';
+  condition: string;
+  currentValue: number | null;
+  threshold: number;
+  timestamp: Date;
+  /** User who acknowledged or resolved the alert */
+  actor?: string | null;
+  /** Escalation step being notified (1-based) */
+  escalationLevel?: number;
+}
+
+export const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+const OPSGENIE_API_URLS = {
+  us: 'https://api.opsgenie.com',
+  eu: 'https://api.eu.opsgenie.com',
+};
+
+const OPSGENIE_PRIORITY: Record<AlertNotification['severity'], string> = {
+  critical: 'P1',
+  warning: 'P3',
+  info: 'P5',
+};
+
+const DISCORD_COLORS = {
+  critical: 0xe74c3c,
+  warning: 0xf1c40f,
+  info: 0x3498db,
+  resolved: 0x2ecc71,
+};
+
+// =============================================================================
+// Message Builders
+// =============================================================================
+
+/**
+ * Title and one-line summary for chat and inbox channels
+ */
+export function describeNotification(notification: AlertNotification): { title: string; summary: string } {
+  const { alertName, condition, currentValue, actor } = notification;
+  const value = currentValue !== null ? ` (current: ${currentValue.toFixed(2)})` : '';
+
+  switch (notification.action) {
+    case 'trigger':
+      return { title: `Alert: ${alertName}`, summary: `${condition}${value}` };
+    case 'escalate':
+      return {
+        title: `Escalated (level ${notification.escalationLevel}): ${alertName}`,
+        summary: `Unacknowledged: ${condition}${value}`,
+      };
+    case 'acknowledge':
+      return { title: `Acknowledged: ${alertName}`, summary: `Acknowledged by ${actor || 'unknown'}` };
+    case 'resolve':
+      return {
+        title: `Resolved: ${alertName}`,
+        summary: actor ? `Resolved by ${actor}` : 'Condition no longer met',
+      };
+  }
+}
+
+/**
+ * PagerDuty Events API v2 event. The alert id is the dedup key, so
+ * acknowledge/resolve act on the incident the trigger opened.
+ */
+export function buildPagerDutyEvent(routingKey: string, notification: AlertNotification) {
+  const base = { routing_key: routingKey, dedup_key: notification.alertId };
+
+  if (notification.action === 'acknowledge' || notification.action === 'resolve') {
+    return { ...base, event_action: notification.action };
+  }
+
+  return {
+    ...base,
+    event_action: 'trigger',
+    payload: {
+      summary: `${notification.alertName}: ${notification.condition}`,
+      source: notification.deploymentId,
+      severity: notification.severity,
+      timestamp: notification.timestamp.toISOString(),
+      component: 'naap-deployment',
+      custom_details: {
+        condition: notification.condition,
+        currentValue: notification.currentValue,
+        threshold: notification.threshold,
+        escalationLevel: notification.escalationLevel ?? 0,
+      },
+    },
+  };
+}
+
+/**
+ * Opsgenie Alert API request. The alert id is the Opsgenie alias.
+ */
+export function buildOpsgenieRequest(
+  config: NotificationChannel['config'],
+  notification: AlertNotification
+): { url: string; body: Record<string, unknown> } {
+  const baseUrl = OPSGENIE_API_URLS[config.region ?? 'us'];
+  const alias = encodeURIComponent(notification.alertId);
+
+  if (notification.action === 'acknowledge' || notification.action === 'resolve') {
+    const endpoint = notification.action === 'acknowledge' ? 'acknowledge' : 'close';
+    return {
+      url: `${baseUrl}/v2/alerts/${alias}/${endpoint}?identifierType=alias`,
+      body: {
+        source: 'naap',
+        ...(notification.actor && { user: notification.actor }),
+        note: describeNotification(notification).summary,
+      },
+    };
+  }
+
+  return {
+    url: `${baseUrl}/v2/alerts`,
+    body: {
+      message: `${notification.alertName}: ${notification.condition}`.slice(0, 130),
+      alias: notification.alertId,
+      description: describeNotification(notification).summary,
+      priority: OPSGENIE_PRIORITY[notification.severity],
+      source: 'naap',
+      tags: [notification.severity],
+      details: {
+        deploymentId: notification.deploymentId,
+        threshold: String(notification.threshold),
+        ...(notification.currentValue !== null && { currentValue: String(notification.currentValue) }),
+      },
+    },
+  };
+}
+
+/**
+ * Discord incoming webhook message (one embed)
+ */
+export function buildDiscordMessage(notification: AlertNotification) {
+  const { title, summary } = describeNotification(notification);
+  const fields = [
+    { name: 'Condition', value: notification.condition, inline: true },
+    { name: 'Threshold', value: notification.threshold.toString(), inline: true },
+    { name: 'Severity', value: notification.severity, inline: true },
+  ];
+  if (notification.currentValue !== null) {
+    fields.splice(1, 0, { name: 'Current Value', value: notification.currentValue.toFixed(2), inline: true });
+  }
+
+  return {
+    username: 'NaaP Alerts',
+    embeds: [
+      {
+        title,
+        description: summary,
+        color: notification.action === 'resolve' ? DISCORD_COLORS.resolved : DISCORD_COLORS[notification.severity],
+        fields,
+        timestamp: notification.timestamp.toISOString(),
+      },
+    ],
+  };
+}
+
+function buildSlackMessage(notification: AlertNotification) {
+  const { title, summary } = describeNotification(notification);
+  const icon = notification.action === 'resolve' ? ':white_check_mark:' : ':warning:';
+
+  return {
+    text: `${icon} *${title}*`,
+    attachments: [
+      {
+        color:
+          notification.action === 'resolve'
+            ? 'good'
+            : notification.severity === 'critical'
+              ? 'danger'
+              : notification.severity === 'warning'
+                ? 'warning'
+                : 'good',
+        fields: [
+          { title: 'Condition', value: notification.condition, short: true },
+          ...(notification.currentValue !== null
+            ? [{ title: 'Current Value', value: notification.currentValue.toFixed(2), short: true }]
+            : []),
+          { title: 'Threshold', value: notification.threshold.toString(), short: true },
+          { title: 'Severity', value: notification.severity, short: true },
+        ],
+        footer: summary,
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// Channel Sender
+// =============================================================================
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+export function createAlertChannelSender(prisma: PrismaClient) {
+  /**
+   * Users who should receive an in-app notification
+   */
+  async function resolveRecipients(config: NotificationChannel['config']): Promise<string[]> {
+    const userIds = new Set(config.userIds ?? []);
+
+    if (config.roles?.length) {
+      const holders = await prisma.userRole.findMany({
+        where: { role: { name: { in: config.roles } } },
+        select: { userId: true },
+      });
+      holders.forEach(h => userIds.add(h.userId));
+    }
+
+    return [...userIds];
+  }
+
+  async function deliverInApp(
+    config: NotificationChannel['config'],
+    notification: AlertNotification
+  ): Promise<void> {
+    const recipients = await resolveRecipients(config);
+    if (recipients.length === 0) return;
+
+    const { title, summary } = describeNotification(notification);
+    const type = {
+      trigger: 'alert.triggered',
+      escalate: 'alert.escalated',
+      acknowledge: 'alert.acknowledged',
+      resolve: 'alert.resolved',
+    }[notification.action];
+
+    await prisma.inAppNotification.createMany({
+      data: recipients.map(userId => ({
+        userId,
+        type,
+        severity: notification.action === 'resolve' ? 'info' : notification.severity,
+        title,
+        body: summary,
+        sourceId: notification.alertId,
+      })),
+    });
+  }
+
+  return {
+    /**
+     * Send a notification to a channel. Failures are logged, never thrown,
+     * so one broken channel does not block the others.
+     */
+    async send(channel: NotificationChannel, notification: AlertNotification): Promise<void> {
+      const { config } = channel;
+
+      try {
+        switch (channel.type) {
+          case 'slack':
+            if (config.url) await postJson(config.url, buildSlackMessage(notification));
+            break;
+
+          case 'discord':
+            if (config.url) await postJson(config.url, buildDiscordMessage(notification));
+            break;
+
+          case 'webhook':
+            if (config.url) {
+              await postJson(
+                config.url,
+                {
+                  action: notification.action,
+                  alert: notification.alertName,
+                  alertId: notification.alertId,
+                  severity: notification.severity,
+                  deploymentId: notification.deploymentId,
+                  condition: notification.condition,
+                  currentValue: notification.currentValue,
+                  threshold: notification.threshold,
+                  actor: notification.actor ?? null,
+                  timestamp: notification.timestamp.toISOString(),
+                },
+                config.headers
+              );
+            }
+            break;
+
+          case 'pagerduty':
+            if (config.routingKey) {
+              await postJson(PAGERDUTY_EVENTS_URL, buildPagerDutyEvent(config.routingKey, notification));
+            }
+            break;
+
+          case 'opsgenie':
+            if (config.apiKey) {
+              const { url, body } = buildOpsgenieRequest(config, notification);
+              await postJson(url, body, { Authorization: `GenieKey ${config.apiKey}` });
+            }
+            break;
+
+          case 'in_app':
+            await deliverInApp(config, notification);
+            break;
+
+          case 'email':
+            // In production, would use SendGrid or similar
+            console.log(`Email alert to ${config.address}:`, describeNotification(notification));
+            break;
+        }
+      } catch (error) {
+        console.error(`Failed to send ${channel.type} notification:`, error);
+      }
+    },
+  };
+}
+
+export type AlertChannelSender = ReturnType<typeof createAlertChannelSender>;
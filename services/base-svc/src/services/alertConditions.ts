@@ -0,0 +1,497 @@
+/**
+ * Alert Conditions
+ * Condition expressions for the alert engine, evaluated live and in backtests
+ *
+ * Expressions:
+ * - threshold: metric compared to a fixed value
+ * - rate_of_change: change of a metric against the window N minutes earlier
+ * - anomaly: standard deviations from the trailing baseline (e.g. 7 days)
+ * - composite: AND (`all`) / OR (`any`) of other expressions
+ *
+ * Every expression is evaluated over a fixed window of recent metrics
+ * (EVALUATION_WINDOW_MINUTES); baselines are built from windows of the same
+ * size, so a window is always compared with like-for-like history.
+ */
+
+import type { AggregatedMetrics, MetricBucket } from './metricsCollector';
+import { AlertConditionError } from './deploymentTypes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const ALERT_METRICS = [
+  'error_rate',
+  'latency_p99',
+  'latency_p95',
+  'latency_avg',
+  'health_check',
+  'cpu_usage',
+  'memory_usage',
+] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+export interface ThresholdExpression {
+  type: 'threshold';
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+}
+
+export interface RateOfChangeExpression {
+  type: 'rate_of_change';
+  metric: AlertMetric;
+  operator: AlertOperator;
+  /** Change to compare against (negative for drops) */
+  threshold: number;
+  /** Compare with the window this many minutes earlier */
+  windowMinutes: number;
+  /** percent (default) or absolute change; percent is undefined when the earlier value is 0 */
+  mode?: 'percent' | 'absolute';
+}
+
+export interface AnomalyExpression {
+  type: 'anomaly';
+  metric: AlertMetric;
+  /** Standard deviations from the baseline mean (default: 3) */
+  stdDevs?: number;
+  /** Trailing baseline length in days (default: 7) */
+  baselineDays?: number;
+  direction?: 'above' | 'below' | 'both';
+  /** Baseline windows with data required before alerting (default: 12, one hour) */
+  minSamples?: number;
+}
+
+export interface CompositeExpression {
+  type: 'composite';
+  match: 'all' | 'any';
+  conditions: ConditionExpression[];
+}
+
+export type ConditionExpression =
+  | ThresholdExpression
+  | RateOfChangeExpression
+  | AnomalyExpression
+  | CompositeExpression;
+
+export interface BaselineStats {
+  mean: number;
+  stdDev: number;
+  samples: number;
+}
+
+/**
+ * Metrics an expression is evaluated against. Live evaluation reads the
+ * database; backtests read pre-loaded buckets.
+ */
+export interface ConditionContext {
+  /** Metrics for the evaluation window ending now */
+  current(): Promise<AggregatedMetrics>;
+  /** Metrics for the window ending `minutesAgo` before now, or null without data */
+  windowAgo(minutesAgo: number): Promise<AggregatedMetrics | null>;
+  /** Statistics of the metric over the trailing baseline windows, excluding the current one */
+  baseline(metric: AlertMetric, days: number): Promise<BaselineStats>;
+}
+
+export interface ConditionResult {
+  met: boolean;
+  /**
+   * threshold: metric value; rate_of_change: the change;
+   * anomaly: deviation in standard deviations; composite: conditions met
+   */
+  value: number;
+}
+
+export interface BacktestOptions {
+  /** First evaluation at or after this time */
+  start: Date;
+  /** Seconds the condition must hold before triggering */
+  duration: number;
+  cooldownSeconds: number;
+}
+
+export interface BacktestIncident {
+  triggeredAt: Date;
+  /** null if still open at the end of the range */
+  resolvedAt: Date | null;
+  peakValue: number;
+}
+
+export interface BacktestResult {
+  evaluations: number;
+  /** Evaluations where the condition was met */
+  breaches: number;
+  /** Notifications that would have been sent (incidents plus repeats after cooldown) */
+  notifications: number;
+  incidents: BacktestIncident[];
+  series: Array<{ timestamp: Date; value: number; met: boolean }>;
+}
+
+export const EVALUATION_WINDOW_MINUTES = 5;
+
+const DEFAULT_STD_DEVS = 3;
+const DEFAULT_BASELINE_DAYS = 7;
+const DEFAULT_MIN_SAMPLES = 12;
+const MAX_BASELINE_DAYS = 30;
+const MAX_CHANGE_WINDOW_MINUTES = 7 * 24 * 60;
+const MAX_COMPOSITE_DEPTH = 3;
+
+/** Standard deviation floor for flat baselines, relative to the mean */
+const FLAT_BASELINE_FLOOR = 0.01;
+const MIN_STD_DEV = 1e-6;
+
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+};
+
+// =============================================================================
+// Metric Helpers
+// =============================================================================
+
+/**
+ * Get metric value from aggregated metrics
+ */
+export function metricValue(metric: AlertMetric, metrics: AggregatedMetrics): number {
+  switch (metric) {
+    case 'error_rate':
+      return metrics.errorRate;
+    case 'latency_p99':
+      return metrics.latencyP99;
+    case 'latency_p95':
+      return metrics.latencyP95;
+    case 'latency_avg':
+      return metrics.latencyAvg;
+    case 'cpu_usage':
+      return metrics.cpuUsagePercent || 0;
+    case 'memory_usage':
+      return metrics.memoryUsageMb || 0;
+    case 'health_check':
+      // Health check returns error count as the metric value
+      // 0 = healthy, >0 = number of consecutive failures
+      return metrics.errorCount;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Evaluate condition operator
+ */
+export function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Mean and population standard deviation
+ */
+export function baselineStats(values: number[]): BaselineStats {
+  if (values.length === 0) return { mean: 0, stdDev: 0, samples: 0 };
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance), samples: values.length };
+}
+
+// =============================================================================
+// Validation & Description
+// =============================================================================
+
+/**
+ * Validate an expression before it is stored or previewed
+ */
+export function validateConditionExpression(expression: ConditionExpression, depth: number = 0): void {
+  const invalid = (message: string) => new AlertConditionError(message);
+
+  if (!expression || typeof expression !== 'object') {
+    throw invalid('Condition expression must be an object');
+  }
+
+  if (expression.type === 'composite') {
+    if (depth >= MAX_COMPOSITE_DEPTH) {
+      throw invalid(`Composite conditions can be nested at most ${MAX_COMPOSITE_DEPTH} deep`);
+    }
+    if (expression.match !== 'all' && expression.match !== 'any') {
+      throw invalid("Composite match must be 'all' or 'any'");
+    }
+    if (!Array.isArray(expression.conditions) || expression.conditions.length === 0) {
+      throw invalid('Composite condition must have at least one condition');
+    }
+    expression.conditions.forEach(c => validateConditionExpression(c, depth + 1));
+    return;
+  }
+
+  if (!ALERT_METRICS.includes(expression.metric)) {
+    throw invalid(`Unknown alert metric: ${expression.metric}`);
+  }
+
+  switch (expression.type) {
+    case 'threshold':
+      if (!(expression.operator in OPERATOR_SYMBOLS)) throw invalid(`Unknown operator: ${expression.operator}`);
+      if (typeof expression.threshold !== 'number' || expression.threshold < 0) {
+        throw invalid('Alert threshold must be a non-negative number');
+      }
+      return;
+
+    case 'rate_of_change':
+      if (!(expression.operator in OPERATOR_SYMBOLS)) throw invalid(`Unknown operator: ${expression.operator}`);
+      if (typeof expression.threshold !== 'number' || !Number.isFinite(expression.threshold)) {
+        throw invalid('Rate of change threshold must be a number');
+      }
+      if (
+        !Number.isInteger(expression.windowMinutes) ||
+        expression.windowMinutes < EVALUATION_WINDOW_MINUTES ||
+        expression.windowMinutes > MAX_CHANGE_WINDOW_MINUTES
+      ) {
+        throw invalid(
+          `Rate of change windowMinutes must be an integer between ${EVALUATION_WINDOW_MINUTES} and ${MAX_CHANGE_WINDOW_MINUTES}`
+        );
+      }
+      if (expression.mode !== undefined && expression.mode !== 'percent' && expression.mode !== 'absolute') {
+        throw invalid("Rate of change mode must be 'percent' or 'absolute'");
+      }
+      return;
+
+    case 'anomaly':
+      if (expression.stdDevs !== undefined && !(expression.stdDevs > 0)) {
+        throw invalid('Anomaly stdDevs must be a positive number');
+      }
+      if (
+        expression.baselineDays !== undefined &&
+        !(expression.baselineDays > 0 && expression.baselineDays <= MAX_BASELINE_DAYS)
+      ) {
+        throw invalid(`Anomaly baselineDays must be between 0 and ${MAX_BASELINE_DAYS}`);
+      }
+      if (expression.direction !== undefined && !['above', 'below', 'both'].includes(expression.direction)) {
+        throw invalid("Anomaly direction must be 'above', 'below' or 'both'");
+      }
+      if (expression.minSamples !== undefined && !(Number.isInteger(expression.minSamples) && expression.minSamples > 0)) {
+        throw invalid('Anomaly minSamples must be a positive integer');
+      }
+      return;
+
+    default:
+      throw invalid(`Unknown condition type: ${(expression as { type?: string }).type}`);
+  }
+}
+
+/**
+ * Format an expression as a human-readable string
+ */
+export function describeExpression(expression: ConditionExpression): string {
+  switch (expression.type) {
+    case 'threshold':
+      return `${expression.metric} ${OPERATOR_SYMBOLS[expression.operator]} ${expression.threshold}`;
+    case 'rate_of_change': {
+      const unit = (expression.mode ?? 'percent') === 'percent' ? '%' : '';
+      return `${expression.metric} change over ${expression.windowMinutes}m ${OPERATOR_SYMBOLS[expression.operator]} ${expression.threshold}${unit}`;
+    }
+    case 'anomaly': {
+      const direction = expression.direction ?? 'above';
+      const side = direction === 'both' ? 'from' : direction;
+      return `${expression.metric} ${expression.stdDevs ?? DEFAULT_STD_DEVS}σ ${side} ${expression.baselineDays ?? DEFAULT_BASELINE_DAYS}d baseline`;
+    }
+    case 'composite':
+      return `(${expression.conditions.map(describeExpression).join(expression.match === 'all' ? ' AND ' : ' OR ')})`;
+  }
+}
+
+/**
+ * Minutes of history an expression reads before the current window ends
+ */
+export function conditionLookbackMinutes(expression: ConditionExpression): number {
+  switch (expression.type) {
+    case 'threshold':
+      return EVALUATION_WINDOW_MINUTES;
+    case 'rate_of_change':
+      return expression.windowMinutes + EVALUATION_WINDOW_MINUTES;
+    case 'anomaly':
+      return (expression.baselineDays ?? DEFAULT_BASELINE_DAYS) * 24 * 60 + EVALUATION_WINDOW_MINUTES;
+    case 'composite':
+      return Math.max(...expression.conditions.map(conditionLookbackMinutes));
+  }
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Evaluate an expression against a context
+ */
+export async function evaluateExpression(
+  expression: ConditionExpression,
+  context: ConditionContext
+): Promise<ConditionResult> {
+  switch (expression.type) {
+    case 'threshold': {
+      const value = metricValue(expression.metric, await context.current());
+      return { met: compare(value, expression.operator, expression.threshold), value };
+    }
+
+    case 'rate_of_change': {
+      const earlier = await context.windowAgo(expression.windowMinutes);
+      if (!earlier) return { met: false, value: 0 };
+
+      const now = metricValue(expression.metric, await context.current());
+      const before = metricValue(expression.metric, earlier);
+      let change: number;
+      if ((expression.mode ?? 'percent') === 'absolute') {
+        change = now - before;
+      } else {
+        if (before === 0) return { met: false, value: 0 };
+        change = ((now - before) / Math.abs(before)) * 100;
+      }
+      return { met: compare(change, expression.operator, expression.threshold), value: change };
+    }
+
+    case 'anomaly': {
+      const stats = await context.baseline(expression.metric, expression.baselineDays ?? DEFAULT_BASELINE_DAYS);
+      if (stats.samples < (expression.minSamples ?? DEFAULT_MIN_SAMPLES)) return { met: false, value: 0 };
+
+      const value = metricValue(expression.metric, await context.current());
+      const stdDev = Math.max(stats.stdDev, Math.abs(stats.mean) * FLAT_BASELINE_FLOOR, MIN_STD_DEV);
+      const deviation = (value - stats.mean) / stdDev;
+      const limit = expression.stdDevs ?? DEFAULT_STD_DEVS;
+      const met =
+        (expression.direction ?? 'above') === 'above'
+          ? deviation >= limit
+          : expression.direction === 'below'
+            ? deviation <= -limit
+            : Math.abs(deviation) >= limit;
+      return { met, value: deviation };
+    }
+
+    case 'composite': {
+      const results: ConditionResult[] = [];
+      for (const condition of expression.conditions) {
+        results.push(await evaluateExpression(condition, context));
+      }
+      const metCount = results.filter(r => r.met).length;
+      return {
+        met: expression.match === 'all' ? metCount === results.length : metCount > 0,
+        value: metCount,
+      };
+    }
+  }
+}
+
+// =============================================================================
+// Backtest
+// =============================================================================
+
+/**
+ * Replay an expression over historical buckets (EVALUATION_WINDOW_MINUTES
+ * wide, contiguous, oldest first, including the lookback before
+ * `options.start`). Trigger, duration and cooldown behave as in the live
+ * alert engine, evaluated once per bucket.
+ */
+export async function backtestCondition(
+  expression: ConditionExpression,
+  buckets: MetricBucket[],
+  options: BacktestOptions
+): Promise<BacktestResult> {
+  const windowMs = EVALUATION_WINDOW_MINUTES * 60 * 1000;
+
+  // Prefix sums per metric over buckets with data, for O(1) baselines
+  const prefixes = new Map<AlertMetric, { count: number[]; sum: number[]; sumSq: number[] }>();
+  function prefixFor(metric: AlertMetric) {
+    let prefix = prefixes.get(metric);
+    if (!prefix) {
+      prefix = { count: [0], sum: [0], sumSq: [0] };
+      buckets.forEach((bucket, i) => {
+        const hasData = bucket.metrics.sampleCount > 0;
+        const value = hasData ? metricValue(metric, bucket.metrics) : 0;
+        prefix!.count.push(prefix!.count[i] + (hasData ? 1 : 0));
+        prefix!.sum.push(prefix!.sum[i] + value);
+        prefix!.sumSq.push(prefix!.sumSq[i] + value * value);
+      });
+      prefixes.set(metric, prefix);
+    }
+    return prefix;
+  }
+
+  function contextAt(index: number): ConditionContext {
+    return {
+      current: async () => buckets[index].metrics,
+      windowAgo: async (minutesAgo) => {
+        const earlier = buckets[index - Math.round(minutesAgo / EVALUATION_WINDOW_MINUTES)];
+        return earlier && earlier.metrics.sampleCount > 0 ? earlier.metrics : null;
+      },
+      baseline: async (metric, days) => {
+        const from = Math.max(0, index - Math.round((days * 24 * 60) / EVALUATION_WINDOW_MINUTES));
+        const { count, sum, sumSq } = prefixFor(metric);
+        const samples = count[index] - count[from];
+        if (samples === 0) return { mean: 0, stdDev: 0, samples: 0 };
+        const mean = (sum[index] - sum[from]) / samples;
+        const variance = Math.max(0, (sumSq[index] - sumSq[from]) / samples - mean * mean);
+        return { mean, stdDev: Math.sqrt(variance), samples };
+      },
+    };
+  }
+
+  const result: BacktestResult = { evaluations: 0, breaches: 0, notifications: 0, incidents: [], series: [] };
+  let metSince: Date | null = null;
+  let lastTriggeredAt: Date | null = null;
+  let open: BacktestIncident | null = null;
+
+  for (let i = 0; i < buckets.length; i++) {
+    const at = buckets[i].end;
+    if (at.getTime() - windowMs < options.start.getTime()) continue;
+
+    const { met, value } = await evaluateExpression(expression, contextAt(i));
+    result.evaluations++;
+    result.series.push({ timestamp: at, value, met });
+
+    if (!met) {
+      metSince = null;
+      if (open) {
+        open.resolvedAt = at;
+        open = null;
+      }
+      continue;
+    }
+
+    result.breaches++;
+    if (!metSince) {
+      // Condition just started being met
+      metSince = at;
+      continue;
+    }
+    if (at.getTime() - metSince.getTime() < options.duration * 1000) continue;
+    if (lastTriggeredAt && at.getTime() - lastTriggeredAt.getTime() < options.cooldownSeconds * 1000) {
+      if (open) open.peakValue = Math.max(open.peakValue, value);
+      continue;
+    }
+
+    lastTriggeredAt = at;
+    result.notifications++;
+    if (open) {
+      open.peakValue = Math.max(open.peakValue, value);
+    } else {
+      open = { triggeredAt: at, resolvedAt: null, peakValue: value };
+      result.incidents.push(open);
+    }
+  }
+
+  return result;
+}
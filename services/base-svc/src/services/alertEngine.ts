@@ -4,32 +4,62 @@
  *
  * Features:
  * - Configurable alert conditions (error rate, latency, health)
- * - Multiple notification channels (Slack, email, webhook)
+ * - Rate-of-change, baseline anomaly and composite (AND/OR) conditions
+ * - Condition preview backtested against stored metrics
+ * - Multiple notification channels (Slack, email, webhook, PagerDuty,
+ *   Opsgenie, Discord, in-app inbox)
+ * - Escalation policies for alerts that stay unacknowledged
+ * - Acknowledge / resolve actions, synced to channels that track incidents
  * - Cooldown periods to prevent alert storms
  * - Auto-rollback trigger integration
  * - Alert history tracking
  */
 
 import { PrismaClient, PluginAlert } from '@naap/database';
-import { createMetricsCollector, AggregatedMetrics } from './metricsCollector';
+import { createMetricsCollector } from './metricsCollector';
 import { createDeploymentManager, DeploymentManager } from './deploymentManager';
-import { isValidDeploymentId, InvalidDeploymentIdError } from './deploymentTypes';
+import {
+  isValidDeploymentId,
+  InvalidDeploymentIdError,
+  AlertStateError,
+  AlertConditionError,
+} from './deploymentTypes';
+import {
+  createAlertChannelSender,
+  AlertNotification,
+  AlertNotificationAction,
+  NotificationChannel,
+} from './alertChannels';
+import {
+  AlertMetric,
+  AlertOperator,
+  BaselineStats,
+  BacktestResult,
+  ConditionContext,
+  ConditionExpression,
+  EVALUATION_WINDOW_MINUTES,
+  backtestCondition,
+  baselineStats,
+  conditionLookbackMinutes,
+  describeExpression,
+  evaluateExpression,
+  metricValue,
+  validateConditionExpression,
+} from './alertConditions';
+
+export type { NotificationChannel, NotificationChannelType } from './alertChannels';
+export type {
+  AlertMetric,
+  AlertOperator,
+  ConditionExpression,
+  BacktestResult,
+  BacktestIncident,
+} from './alertConditions';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export type AlertMetric =
-  | 'error_rate'
-  | 'latency_p99'
-  | 'latency_p95'
-  | 'latency_avg'
-  | 'health_check'
-  | 'cpu_usage'
-  | 'memory_usage';
-
-export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
-
 export type AlertSeverity = 'critical' | 'warning' | 'info';
 
 export interface AlertCondition {
@@ -39,24 +69,36 @@ export interface AlertCondition {
   duration: number; // seconds
 }
 
-export interface NotificationChannel {
-  type: 'slack' | 'email' | 'webhook';
-  config: {
-    url?: string; // For Slack/webhook
-    address?: string; // For email
-    headers?: Record<string, string>; // For webhook
-  };
+/** Rate-of-change, anomaly or composite condition */
+export interface AdvancedAlertCondition {
+  expression: ConditionExpression;
+  duration: number; // seconds
+}
+
+/** ok -> firing -> acknowledged -> resolved (-> firing on the next incident) */
+export type AlertStatus = 'ok' | 'firing' | 'acknowledged' | 'resolved';
+
+export interface EscalationStep {
+  /** Seconds without acknowledgement since the previous notification */
+  afterSeconds: number;
+  channels: NotificationChannel[];
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
 }
 
 export interface AlertConfig {
   deploymentId: string;
   name: string;
   description?: string;
-  condition: AlertCondition;
+  condition: AlertCondition | AdvancedAlertCondition;
   severity: AlertSeverity;
   channels: NotificationChannel[];
   autoRollback?: boolean;
   cooldownSeconds?: number;
+  /** Notified in order while the alert stays unacknowledged ({ steps: [] } clears it) */
+  escalationPolicy?: EscalationPolicy;
 }
 
 export interface AlertTriggerEvent {
@@ -70,10 +112,33 @@ export interface AlertTriggerEvent {
   timestamp: Date;
 }
 
+export interface AlertEscalation {
+  alertId: string;
+  deploymentId: string;
+  level: number;
+}
+
 export interface AlertCallbacks {
   onTrigger?: (event: AlertTriggerEvent) => void;
   onResolve?: (alertId: string, deploymentId: string) => void;
   onRollback?: (deploymentId: string, reason: string) => void;
+  onAcknowledge?: (alertId: string, deploymentId: string, userId: string) => void;
+  onEscalate?: (escalation: AlertEscalation) => void;
+}
+
+export interface AlertPreviewRequest {
+  deploymentId: string;
+  condition: AlertCondition | AdvancedAlertCondition;
+  cooldownSeconds?: number;
+  /** Defaults to the last 7 days */
+  start?: Date;
+  end?: Date;
+}
+
+export interface AlertPreview extends BacktestResult {
+  condition: string;
+  start: Date;
+  end: Date;
 }
 
 // In-memory state for condition tracking
@@ -83,6 +148,111 @@ interface ConditionState {
   lastValue: number | null;
 }
 
+const BASELINE_CACHE_MS = 15 * 60 * 1000;
+const PREVIEW_DEFAULT_DAYS = 7;
+const PREVIEW_MAX_DAYS = 30;
+
+/**
+ * Validate an escalation policy before it is stored
+ */
+function validateEscalationPolicy(policy: EscalationPolicy): void {
+  if (!Array.isArray(policy.steps)) {
+    throw new Error('Escalation policy must have a steps array');
+  }
+  for (const step of policy.steps) {
+    if (typeof step.afterSeconds !== 'number' || step.afterSeconds <= 0) {
+      throw new Error('Escalation step afterSeconds must be a positive number');
+    }
+    if (!Array.isArray(step.channels) || step.channels.length === 0) {
+      throw new Error('Escalation step must notify at least one channel');
+    }
+  }
+}
+
+/** An incident is open from trigger until it is resolved */
+function isOpen(alert: PluginAlert): boolean {
+  return alert.status === 'firing' || alert.status === 'acknowledged';
+}
+
+/**
+ * Whether an alert is addressed to a user: they created it, or one of its
+ * in-app channels (its own or any escalation step's) names them or one of
+ * their roles
+ */
+export function isAlertRecipient(alert: PluginAlert, userId: string, roles: string[]): boolean {
+  if (alert.createdBy === userId) return true;
+
+  const channels = (alert.channels as unknown as NotificationChannel[]) || [];
+  const policy = alert.escalationPolicy as unknown as EscalationPolicy | null;
+  return [...channels, ...(policy?.steps ?? []).flatMap(step => step.channels)]
+    .filter(channel => channel.type === 'in_app')
+    .some(({ config }) =>
+      config.userIds?.includes(userId) || config.roles?.some(role => roles.includes(role))
+    );
+}
+
+/**
+ * Validate a condition and turn it into an expression
+ */
+function conditionExpression(condition: AlertCondition | AdvancedAlertCondition): ConditionExpression {
+  if (typeof condition.duration !== 'number' || condition.duration <= 0) {
+    throw new Error('Alert duration must be a positive number');
+  }
+
+  if ('expression' in condition) {
+    validateConditionExpression(condition.expression);
+    return condition.expression;
+  }
+
+  if (typeof condition.threshold !== 'number' || condition.threshold < 0) {
+    throw new Error('Alert threshold must be a non-negative number');
+  }
+  return {
+    type: 'threshold',
+    metric: condition.metric,
+    operator: condition.operator,
+    threshold: condition.threshold,
+  };
+}
+
+/**
+ * metric/operator/threshold columns for an expression. They describe the
+ * value the expression reports (e.g. σ for anomalies, conditions met for
+ * composites), so notifications show a comparable threshold.
+ */
+function conditionColumns(expression: ConditionExpression): {
+  metric: string;
+  operator: AlertOperator;
+  threshold: number;
+} {
+  switch (expression.type) {
+    case 'threshold':
+    case 'rate_of_change':
+      return { metric: expression.metric, operator: expression.operator, threshold: expression.threshold };
+    case 'anomaly':
+      return { metric: expression.metric, operator: 'gte', threshold: expression.stdDevs ?? 3 };
+    case 'composite':
+      return {
+        metric: 'composite',
+        operator: 'gte',
+        threshold: expression.match === 'all' ? expression.conditions.length : 1,
+      };
+  }
+}
+
+/** Stored expression, or a threshold built from the columns for older alerts */
+function expressionFor(alert: PluginAlert): ConditionExpression {
+  if (alert.expression) {
+    return alert.expression as unknown as ConditionExpression;
+  }
+  return {
+    type: 'threshold',
+    metric: alert.metric as AlertMetric,
+    operator: alert.operator as AlertOperator,
+    threshold: alert.threshold,
+  };
+}
+
 // =============================================================================
 // Alert Engine Service
 // =============================================================================
@@ -93,154 +263,100 @@ export function createAlertEngine(
 ) {
   const metricsCollector = createMetricsCollector(prisma);
   const deploymentManager = createDeploymentManager(prisma);
+  const channelSender = createAlertChannelSender(prisma);
 
   // Track condition states for duration-based alerting
   const conditionStates = new Map<string, ConditionState>();
 
   // Active evaluation timers
   const evaluationTimers = new Map<string, ReturnType<typeof setInterval>>();
+  let escalationTimer: ReturnType<typeof setInterval> | null = null;
 
   /**
-   * Get metric value from aggregated metrics
-   * Note: health_check is handled separately via checkCondition method
+   * Baselines change slowly; cache them per deployment, metric and length
    */
-  function getMetricValue(metric: AlertMetric, metrics: AggregatedMetrics): number {
-    switch (metric) {
-      case 'error_rate':
-        return metrics.errorRate;
-      case 'latency_p99':
-        return metrics.latencyP99;
-      case 'latency_p95':
-        return metrics.latencyP95;
-      case 'latency_avg':
-        return metrics.latencyAvg;
-      case 'cpu_usage':
-        return metrics.cpuUsagePercent || 0;
-      case 'memory_usage':
-        return metrics.memoryUsageMb || 0;
-      case 'health_check':
-        // Health check returns error count as the metric value
-        // 0 = healthy, >0 = number of consecutive failures
-        return metrics.errorCount;
-      default:
-        return 0;
-    }
-  }
+  const baselineCache = new Map<string, { stats: BaselineStats; expiresAt: number }>();
 
   /**
-   * Evaluate condition operator
+   * Live condition context: the evaluation window ending now, earlier
+   * windows and trailing baselines read from stored metrics
    */
-  function evaluateOperator(
-    value: number,
-    operator: AlertOperator,
-    threshold: number
-  ): boolean {
-    switch (operator) {
-      case 'gt':
-        return value > threshold;
-      case 'gte':
-        return value >= threshold;
-      case 'lt':
-        return value < threshold;
-      case 'lte':
-        return value <= threshold;
-      case 'eq':
-        return value === threshold;
-      default:
-        return false;
-    }
+  function liveContext(deploymentId: string): ConditionContext {
+    const now = Date.now();
+    const windowMs = EVALUATION_WINDOW_MINUTES * 60 * 1000;
+
+    return {
+      current: () => metricsCollector.getRecentMetrics(deploymentId, EVALUATION_WINDOW_MINUTES),
+      windowAgo: async (minutesAgo) => {
+        const end = now - minutesAgo * 60 * 1000;
+        const metrics = await metricsCollector.getMetrics(deploymentId, {
+          start: new Date(end - windowMs),
+          end: new Date(end),
+        });
+        return metrics.sampleCount > 0 ? metrics : null;
+      },
+      baseline: async (metric, days) => {
+        const key = `${deploymentId}:${metric}:${days}`;
+        const cached = baselineCache.get(key);
+        if (cached && cached.expiresAt > now) return cached.stats;
+
+        const buckets = await metricsCollector.getBuckets(
+          deploymentId,
+          { start: new Date(now - days * 24 * 60 * 60 * 1000), end: new Date(now - windowMs) },
+          EVALUATION_WINDOW_MINUTES * 60
+        );
+        const stats = baselineStats(
+          buckets.filter(b => b.metrics.sampleCount > 0).map(b => metricValue(metric, b.metrics))
+        );
+        baselineCache.set(key, { stats, expiresAt: now + BASELINE_CACHE_MS });
+        return stats;
+      },
+    };
   }
 
   /**
    * Format condition as human-readable string
    */
   function formatCondition(alert: PluginAlert): string {
-    const operatorMap: Record<string, string> = {
-      gt: '>',
-      gte: '>=',
-      lt: '<',
-      lte: '<=',
-      eq: '=',
-    };
-    return `${alert.metric} ${operatorMap[alert.operator] || alert.operator} ${alert.threshold}`;
+    return describeExpression(expressionFor(alert));
+  }
+
+  /**
+   * Channels already notified for the current incident: the alert's own
+   * channels plus every escalation step reached so far
+   */
+  function notifiedChannels(alert: PluginAlert): NotificationChannel[] {
+    const channels = (alert.channels as unknown as NotificationChannel[]) || [];
+    const policy = alert.escalationPolicy as unknown as EscalationPolicy | null;
+    const escalated = (policy?.steps ?? [])
+      .slice(0, alert.escalationLevel ?? 0)
+      .flatMap(step => step.channels);
+    return [...channels, ...escalated];
   }
 
   /**
-   * Send notification to a channel
+   * Send an alert lifecycle notification to channels
    */
-  async function sendNotification(
-    channel: NotificationChannel,
-    event: AlertTriggerEvent
+  async function notify(
+    alert: PluginAlert,
+    channels: NotificationChannel[],
+    action: AlertNotificationAction,
+    extra: Partial<AlertNotification> = {}
   ): Promise<void> {
-    const payload = {
-      alert: event.alertName,
-      severity: event.severity,
-      deploymentId: event.deploymentId,
-      condition: event.condition,
-      currentValue: event.currentValue,
-      threshold: event.threshold,
-      timestamp: event.timestamp.toISOString(),
+    const notification: AlertNotification = {
+      action,
+      alertId: alert.id,
+      alertName: alert.name,
+      deploymentId: alert.deploymentId,
+      severity: alert.severity as AlertSeverity,
+      condition: formatCondition(alert),
+      currentValue: conditionStates.get(alert.id)?.lastValue ?? null,
+      threshold: alert.threshold,
+      timestamp: new Date(),
+      ...extra,
     };
 
-    try {
-      switch (channel.type) {
-        case 'slack':
-          if (channel.config.url) {
-            await fetch(channel.config.url, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                text: `:warning: *Alert: ${event.alertName}*`,
-                attachments: [
-                  {
-                    color:
-                      event.severity === 'critical'
-                        ? 'danger'
-                        : event.severity === 'warning'
-                          ? 'warning'
-                          : 'good',
-                    fields: [
-                      { title: 'Condition', value: event.condition, short: true },
-                      {
-                        title: 'Current Value',
-                        value: event.currentValue.toFixed(2),
-                        short: true,
-                      },
-                      {
-                        title: 'Threshold',
-                        value: event.threshold.toString(),
-                        short: true,
-                      },
-                      { title: 'Severity', value: event.severity, short: true },
-                    ],
-                  },
-                ],
-              }),
-            });
-          }
-          break;
-
-        case 'webhook':
-          if (channel.config.url) {
-            await fetch(channel.config.url, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                ...channel.config.headers,
-              },
-              body: JSON.stringify(payload),
-            });
-          }
-          break;
-
-        case 'email':
-          // In production, would use SendGrid or similar
-          console.log(`Email alert to ${channel.config.address}:`, payload);
-          break;
-      }
-    } catch (error) {
-      console.error(`Failed to send ${channel.type} notification:`, error);
-    }
+    await Promise.all(channels.map(channel => channelSender.send(channel, notification)));
   }
 
   /**
@@ -259,12 +375,23 @@ export function createAlertEngine(
       }
     }
 
-    // Update alert state
+    // Update alert state; a trigger outside an open incident starts a new one.
+    // Escalation steps are timed from the incident opening (lastEscalatedAt),
+    // not from lastTriggeredAt, which every re-trigger moves.
+    const now = new Date();
     await prisma.pluginAlert.update({
       where: { id: alert.id },
       data: {
-        lastTriggeredAt: new Date(),
+        lastTriggeredAt: now,
         triggerCount: { increment: 1 },
+        ...(!isOpen(alert) && {
+          status: 'firing',
+          escalationLevel: 0,
+          lastEscalatedAt: now,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedBy: null,
+        }),
       },
     });
 
@@ -282,9 +409,11 @@ export function createAlertEngine(
     // Invoke callback
     callbacks?.onTrigger?.(event);
 
-    // Send notifications to all channels
-    const channels = (alert.channels as unknown as NotificationChannel[]) || [];
-    await Promise.all(channels.map(channel => sendNotification(channel, event)));
+    // Send notifications to all channels, unless someone is already on it
+    if (alert.status !== 'acknowledged') {
+      const channels = (alert.channels as unknown as NotificationChannel[]) || [];
+      await notify(alert, channels, 'trigger', { currentValue, timestamp: event.timestamp });
+    }
 
     // Trigger auto-rollback if configured
     if (alert.autoRollback) {
@@ -302,9 +431,9 @@ export function createAlertEngine(
   }
 
   /**
-   * Resolve an alert
+   * Resolve an alert whose condition is no longer met
    */
-  async function resolveAlert(alert: PluginAlert): Promise<void> {
+  async function autoResolveAlert(alert: PluginAlert): Promise<void> {
     const state = conditionStates.get(alert.id);
     if (state?.conditionMetSince) {
       conditionStates.set(alert.id, {
@@ -314,30 +443,68 @@ export function createAlertEngine(
 
       await prisma.pluginAlert.update({
         where: { id: alert.id },
-        data: { lastResolvedAt: new Date() },
+        data: {
+          lastResolvedAt: new Date(),
+          ...(isOpen(alert) && { status: 'resolved', resolvedBy: null }),
+        },
       });
 
+      if (isOpen(alert)) {
+        await notify(alert, notifiedChannels(alert), 'resolve');
+      }
+
       callbacks?.onResolve?.(alert.id, alert.deploymentId);
     }
   }
 
+  /**
+   * Notify the next escalation step of firing alerts that have gone
+   * unacknowledged for longer than the step allows
+   */
+  async function processEscalations(
+    now: Date = new Date(),
+    deploymentId?: string
+  ): Promise<AlertEscalation[]> {
+    const alerts = await prisma.pluginAlert.findMany({
+      where: { status: 'firing', enabled: true, ...(deploymentId && { deploymentId }) },
+    });
+    const escalations: AlertEscalation[] = [];
+
+    for (const alert of alerts) {
+      const policy = alert.escalationPolicy as unknown as EscalationPolicy | null;
+      const level = alert.escalationLevel ?? 0;
+      const step = policy?.steps?.[level];
+      const since = alert.lastEscalatedAt;
+      if (alert.status !== 'firing' || !step || !since) continue;
+      if (now.getTime() - since.getTime() < step.afterSeconds * 1000) continue;
+
+      // Claim the step, so a concurrent acknowledge or evaluation wins cleanly
+      const { count } = await prisma.pluginAlert.updateMany({
+        where: { id: alert.id, status: 'firing', escalationLevel: level },
+        data: { escalationLevel: level + 1, lastEscalatedAt: now },
+      });
+      if (count === 0) continue;
+
+      await notify(alert, step.channels, 'escalate', { escalationLevel: level + 1, timestamp: now });
+
+      const escalation = { alertId: alert.id, deploymentId: alert.deploymentId, level: level + 1 };
+      escalations.push(escalation);
+      callbacks?.onEscalate?.(escalation);
+    }
+
+    return escalations;
+  }
+
   /**
    * Evaluate a single alert condition
    */
   async function evaluateAlert(alert: PluginAlert): Promise<void> {
     if (!alert.enabled) return;
 
-    // Get recent metrics (last 5 minutes)
-    const metrics = await metricsCollector.getRecentMetrics(alert.deploymentId, 5);
-
-    // Get metric value
-    const currentValue = getMetricValue(alert.metric as AlertMetric, metrics);
-
-    // Evaluate condition
-    const conditionMet = evaluateOperator(
-      currentValue,
-      alert.operator as AlertOperator,
-      alert.threshold
+    // Evaluate condition over recent metrics (last 5 minutes)
+    const { met: conditionMet, value: currentValue } = await evaluateExpression(
+      expressionFor(alert),
+      liveContext(alert.deploymentId)
     );
 
     // Get or create condition state
@@ -367,7 +534,7 @@ export function createAlertEngine(
     } else {
       // Condition no longer met - resolve if it was active
       if (state.conditionMetSince) {
-        await resolveAlert(alert);
+        await autoResolveAlert(alert);
       }
     }
   }
@@ -381,6 +548,7 @@ export function createAlertEngine(
     });
 
     await Promise.all(alerts.map(alert => evaluateAlert(alert)));
+    await processEscalations(new Date(), deploymentId);
   }
 
   // =============================================================================
@@ -397,14 +565,10 @@ export function createAlertEngine(
         throw new InvalidDeploymentIdError(config.deploymentId);
       }
 
-      // Validate threshold is a positive number
-      if (typeof config.condition.threshold !== 'number' || config.condition.threshold < 0) {
-        throw new Error('Alert threshold must be a non-negative number');
-      }
+      const expression = conditionExpression(config.condition);
 
-      // Validate duration is positive
-      if (config.condition.duration <= 0) {
-        throw new Error('Alert duration must be a positive number');
+      if (config.escalationPolicy) {
+        validateEscalationPolicy(config.escalationPolicy);
       }
 
       return prisma.pluginAlert.create({
@@ -412,14 +576,14 @@ export function createAlertEngine(
           deploymentId: config.deploymentId,
           name: config.name,
           description: config.description,
-          metric: config.condition.metric,
-          operator: config.condition.operator,
-          threshold: config.condition.threshold,
+          ...conditionColumns(expression),
+          expression: 'expression' in config.condition ? (expression as object) : undefined,
           duration: config.condition.duration,
           severity: config.severity,
           autoRollback: config.autoRollback || false,
           channels: config.channels as object[],
           cooldownSeconds: config.cooldownSeconds || 300,
+          escalationPolicy: config.escalationPolicy as object | undefined,
           enabled: true,
         },
       });
@@ -437,15 +601,21 @@ export function createAlertEngine(
       if (updates.name) data.name = updates.name;
       if (updates.description !== undefined) data.description = updates.description;
       if (updates.condition) {
-        data.metric = updates.condition.metric;
-        data.operator = updates.condition.operator;
-        data.threshold = updates.condition.threshold;
+        // Always store the expression, so switching back from an advanced
+        // condition replaces it rather than leaving it in place
+        const expression = conditionExpression(updates.condition);
+        Object.assign(data, conditionColumns(expression));
+        data.expression = expression as object;
         data.duration = updates.condition.duration;
       }
       if (updates.severity) data.severity = updates.severity;
       if (updates.channels) data.channels = updates.channels as object[];
       if (updates.autoRollback !== undefined) data.autoRollback = updates.autoRollback;
       if (updates.cooldownSeconds) data.cooldownSeconds = updates.cooldownSeconds;
+      if (updates.escalationPolicy) {
+        validateEscalationPolicy(updates.escalationPolicy);
+        data.escalationPolicy = updates.escalationPolicy as object;
+      }
 
       return prisma.pluginAlert.update({
         where: { id: alertId },
@@ -497,6 +667,137 @@ export function createAlertEngine(
       });
     },
 
+    /**
+     * Get an alert by id, or null if it does not exist
+     */
+    async getAlert(alertId: string): Promise<PluginAlert | null> {
+      return prisma.pluginAlert.findUnique({ where: { id: alertId } });
+    },
+
+    /**
+     * Get open incidents (firing or acknowledged), optionally for one deployment
+     */
+    async getOpenAlerts(deploymentId?: string): Promise<PluginAlert[]> {
+      return prisma.pluginAlert.findMany({
+        where: {
+          status: { in: ['firing', 'acknowledged'] },
+          ...(deploymentId && { deploymentId }),
+        },
+        orderBy: { lastTriggeredAt: 'desc' },
+      });
+    },
+
+    /**
+     * Acknowledge a firing alert. Stops escalation and repeat notifications
+     * until the alert is resolved. Returns null if the alert does not exist.
+     */
+    async acknowledgeAlert(alertId: string, userId: string): Promise<PluginAlert | null> {
+      const alert = await prisma.pluginAlert.findUnique({ where: { id: alertId } });
+      if (!alert) return null;
+
+      const data = { status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy: userId };
+      const { count } = await prisma.pluginAlert.updateMany({
+        where: { id: alertId, status: 'firing' },
+        data,
+      });
+      if (count === 0) {
+        throw new AlertStateError(alertId, alert.status, 'acknowledge');
+      }
+
+      await notify(alert, notifiedChannels(alert), 'acknowledge', { actor: userId });
+      callbacks?.onAcknowledge?.(alertId, alert.deploymentId, userId);
+
+      return { ...alert, ...data };
+    },
+
+    /**
+     * Resolve an open alert by hand. The condition must hold for the full
+     * duration again before it re-triggers. Returns null if the alert does
+     * not exist.
+     */
+    async resolveAlert(alertId: string, userId: string): Promise<PluginAlert | null> {
+      const alert = await prisma.pluginAlert.findUnique({ where: { id: alertId } });
+      if (!alert) return null;
+
+      const data = { status: 'resolved', lastResolvedAt: new Date(), resolvedBy: userId };
+      const { count } = await prisma.pluginAlert.updateMany({
+        where: { id: alertId, status: { in: ['firing', 'acknowledged'] } },
+        data,
+      });
+      if (count === 0) {
+        throw new AlertStateError(alertId, alert.status, 'resolve');
+      }
+
+      const state = conditionStates.get(alertId);
+      if (state) state.conditionMetSince = null;
+
+      await notify(alert, notifiedChannels(alert), 'resolve', { actor: userId });
+      callbacks?.onResolve?.(alertId, alert.deploymentId);
+
+      return { ...alert, ...data };
+    },
+
+    /**
+     * Backtest a condition against stored metrics: how often it would have
+     * fired over the range (default: last 7 days, at most 30), evaluated
+     * every 5 minutes. Nothing is stored or notified.
+     */
+    async previewAlert(request: AlertPreviewRequest): Promise<AlertPreview> {
+      if (!isValidDeploymentId(request.deploymentId)) {
+        throw new InvalidDeploymentIdError(request.deploymentId);
+      }
+      const expression = conditionExpression(request.condition);
+
+      const end = request.end ?? new Date();
+      const start = request.start ?? new Date(end.getTime() - PREVIEW_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+      if (start.getTime() >= end.getTime()) {
+        throw new AlertConditionError('Preview start must be before end');
+      }
+      if (end.getTime() - start.getTime() > PREVIEW_MAX_DAYS * 24 * 60 * 60 * 1000) {
+        throw new AlertConditionError(`Preview range must be at most ${PREVIEW_MAX_DAYS} days`);
+      }
+
+      const lookbackMs = conditionLookbackMinutes(expression) * 60 * 1000;
+      const buckets = await metricsCollector.getBuckets(
+        request.deploymentId,
+        { start: new Date(start.getTime() - lookbackMs), end },
+        EVALUATION_WINDOW_MINUTES * 60
+      );
+
+      const result = await backtestCondition(expression, buckets, {
+        start,
+        duration: request.condition.duration,
+        cooldownSeconds: request.cooldownSeconds || 300,
+      });
+
+      return { condition: describeExpression(expression), start, end, ...result };
+    },
+
+    /**
+     * Escalate unacknowledged alerts now (also runs on every deployment evaluation)
+     */
+    processEscalations,
+
+    /**
+     * Check escalations for all deployments on an interval
+     */
+    startEscalations(intervalSeconds: number = 60): void {
+      this.stopEscalations();
+      escalationTimer = setInterval(() => {
+        processEscalations().catch(error => console.error('Alert escalation failed:', error));
+      }, intervalSeconds * 1000);
+    },
+
+    /**
+     * Stop the escalation interval
+     */
+    stopEscalations(): void {
+      if (escalationTimer) {
+        clearInterval(escalationTimer);
+        escalationTimer = null;
+      }
+    },
+
     /**
      * Start monitoring a deployment
      */
@@ -598,6 +899,7 @@ export function createAlertEngine(
       });
       evaluationTimers.clear();
       conditionStates.clear();
+      this.stopEscalations();
     },
   };
 }
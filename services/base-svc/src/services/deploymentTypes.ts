@@ -116,3 +116,17 @@ export class InvalidTrafficPercentError extends Error {
     this.name = 'InvalidTrafficPercentError';
   }
 }
+
+export class AlertStateError extends Error {
+  constructor(alertId: string, status: string, action: string) {
+    super(`Cannot ${action} alert ${alertId} while it is ${status}`);
+    this.name = 'AlertStateError';
+  }
+}
+
+export class AlertConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertConditionError';
+  }
+}
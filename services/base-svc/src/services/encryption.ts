@@ -3,6 +3,11 @@
  * 
  * Provides AES-256-GCM encryption for secret storage.
  * Uses a master key from environment for key derivation.
+ *
+ * Master key rotation works like a KMS key-encryption-key: set the new key as
+ * ENCRYPTION_MASTER_KEY and list the old one(s) in
+ * ENCRYPTION_PREVIOUS_MASTER_KEYS. Values encrypted under any key in the ring
+ * still decrypt, and `rewrap` re-encrypts them under the current key.
  */
 
 import crypto from 'crypto';
@@ -29,6 +34,24 @@ function getMasterKey(): string {
   return masterKey;
 }
 
+/**
+ * Retired master keys that can still decrypt (comma-separated)
+ */
+function getPreviousMasterKeys(): string[] {
+  return (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Short, non-reversible identifier of a master key, stored next to
+ * ciphertext so rewraps can find values still under an old key
+ */
+export function masterKeyId(masterKey: string): string {
+  return crypto.createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+}
+
 /**
  * Derive a key from the master key using PBKDF2
  */
@@ -39,11 +62,15 @@ function deriveKey(masterKey: string, salt: Buffer): Buffer {
 export interface EncryptionResult {
   encryptedValue: string;
   iv: string;
+  /** Master key the value was encrypted under */
+  keyId: string;
 }
 
 export interface DecryptionInput {
   encryptedValue: string;
   iv: string;
+  /** When known, only this master key is tried */
+  keyId?: string | null;
 }
 
 /**
@@ -51,8 +78,43 @@ export interface DecryptionInput {
  */
 export function createEncryptionService() {
   const masterKey = getMasterKey();
+  const keyId = masterKeyId(masterKey);
+  // Current key first; duplicates of it in the previous list are ignored
+  const keyring = new Map<string, string>([[keyId, masterKey]]);
+  for (const previous of getPreviousMasterKeys()) {
+    if (!keyring.has(masterKeyId(previous))) keyring.set(masterKeyId(previous), previous);
+  }
+
+  function decryptWith(key: string, input: DecryptionInput): string {
+    const { encryptedValue, iv } = input;
+    
+    // Decode from base64
+    const combined = Buffer.from(encryptedValue, 'base64');
+    const ivBuffer = Buffer.from(iv, 'base64');
+    
+    // Extract salt, auth tag, and encrypted data
+    const salt = combined.subarray(0, SALT_LENGTH);
+    const authTag = combined.subarray(SALT_LENGTH, SALT_LENGTH + AUTH_TAG_LENGTH);
+    const encryptedData = combined.subarray(SALT_LENGTH + AUTH_TAG_LENGTH);
+    
+    // Derive key
+    const derived = deriveKey(key, salt);
+    
+    // Create decipher
+    const decipher = crypto.createDecipheriv(ALGORITHM, derived, ivBuffer);
+    decipher.setAuthTag(authTag);
+    
+    // Decrypt
+    let decrypted = decipher.update(encryptedData.toString('hex'), 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+    
+    return decrypted;
+  }
 
   return {
+    /** Id of the current master key */
+    keyId,
+
     /**
      * Encrypt a value
      */
@@ -84,36 +146,44 @@ export function createEncryptionService() {
       return {
         encryptedValue: combined.toString('base64'),
         iv: iv.toString('base64'),
+        keyId,
       };
     },
 
     /**
-     * Decrypt a value
+     * Decrypt a value with whichever master key in the ring opens it
      */
     decrypt(input: DecryptionInput): string {
-      const { encryptedValue, iv } = input;
-      
-      // Decode from base64
-      const combined = Buffer.from(encryptedValue, 'base64');
-      const ivBuffer = Buffer.from(iv, 'base64');
-      
-      // Extract salt, auth tag, and encrypted data
-      const salt = combined.subarray(0, SALT_LENGTH);
-      const authTag = combined.subarray(SALT_LENGTH, SALT_LENGTH + AUTH_TAG_LENGTH);
-      const encryptedData = combined.subarray(SALT_LENGTH + AUTH_TAG_LENGTH);
-      
-      // Derive key
-      const key = deriveKey(masterKey, salt);
-      
-      // Create decipher
-      const decipher = crypto.createDecipheriv(ALGORITHM, key, ivBuffer);
-      decipher.setAuthTag(authTag);
-      
-      // Decrypt
-      let decrypted = decipher.update(encryptedData.toString('hex'), 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
+      const known = input.keyId ? keyring.get(input.keyId) : undefined;
+      if (known) {
+        return decryptWith(known, input);
+      }
+
+      // Unknown or unrecorded key: the GCM auth tag rejects every wrong one
+      let lastError: unknown;
+      for (const key of keyring.values()) {
+        try {
+          return decryptWith(key, input);
+        } catch (error) {
+          lastError = error;
+        }
+      }
+      throw lastError;
+    },
+
+    /**
+     * Re-encrypt a value under the current master key without handing the
+     * plaintext to the caller
+     */
+    rewrap(input: DecryptionInput): EncryptionResult {
+      return this.encrypt(this.decrypt(input));
+    },
+
+    /**
+     * Whether a value recorded under `valueKeyId` should be rewrapped
+     */
+    needsRewrap(valueKeyId?: string | null): boolean {
+      return valueKeyId !== keyId;
     },
 
     /**
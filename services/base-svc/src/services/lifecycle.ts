@@ -2,10 +2,19 @@
  * Plugin Lifecycle Service
  * 
  * Manages the lifecycle of plugins: install, upgrade, uninstall, enable, disable.
+ * Install and upgrade pull in the plugins a manifest depends on; uninstall
+ * refuses, or cascades, while other plugins depend on the target.
  * Provides audit logging for all lifecycle events.
  */
 
 import { PrismaClient } from '@naap/database';
+import {
+  createDependencySource,
+  findDependents,
+  resolveDependencyGraph,
+  toDependencyCandidate,
+} from './versionManager';
+import { PluginDependencyError, type DependencyCandidate } from './pluginDependencyTypes';
 
 export type LifecycleAction = 'install' | 'upgrade' | 'uninstall' | 'enable' | 'disable' | 'rollback' | 'tenant_install' | 'tenant_uninstall';
 export type LifecycleStatus = 'pending' | 'installing' | 'installed' | 'failed' | 'uninstalling' | 'rolledback' | 'upgrading';
@@ -58,7 +67,19 @@ export interface PluginHooks {
   preUninstall?: string;
 }
 
+export interface InstallOptions {
+  /** Resolve and install manifest dependencies first (default true) */
+  withDependencies?: boolean;
+}
+
+export interface UninstallOptions {
+  /** Uninstall installed plugins that depend on this one first (default false) */
+  cascade?: boolean;
+}
+
 export function createLifecycleService(prisma: PrismaClient) {
+  const dependencySource = createDependencySource(prisma);
+
   return {
     /**
      * Record a lifecycle event
@@ -148,12 +169,37 @@ export function createLifecycleService(prisma: PrismaClient) {
     },
 
     /**
-     * Install a plugin
+     * Install dependencies missing for `root`, in graph order.
+     * Throws PluginDependencyError, before anything is installed, on conflicts.
+     */
+    async installDependencies(root: DependencyCandidate, initiatedBy?: string) {
+      const plan = await resolveDependencyGraph(root, dependencySource);
+
+      if (plan.conflicts.length > 0) {
+        throw new PluginDependencyError(
+          `Cannot install ${root.name}@${root.version}: ${plan.conflicts.map(c => c.reason).join('; ')}`,
+          plan.conflicts
+        );
+      }
+
+      const installed: string[] = [];
+      for (const step of plan.steps) {
+        if (step.action !== 'install' || step.name === root.name) continue;
+        // The plan already covers this plugin's own dependencies
+        await this.installPlugin(step.packageId, step.versionId, initiatedBy, { withDependencies: false });
+        installed.push(`${step.name}@${step.version}`);
+      }
+      return installed;
+    },
+
+    /**
+     * Install a plugin, and any plugins it depends on that are not installed yet
      */
     async installPlugin(
       packageId: string,
       versionId: string,
-      initiatedBy?: string
+      initiatedBy?: string,
+      options: InstallOptions = {}
     ) {
       const startTime = Date.now();
       
@@ -179,6 +225,11 @@ export function createLifecycleService(prisma: PrismaClient) {
         throw new Error('Plugin is already installed');
       }
 
+      // Dependencies installed here stay installed if this plugin then fails
+      const dependencies = options.withDependencies === false
+        ? []
+        : await this.installDependencies(toDependencyCandidate(pkg, version), initiatedBy);
+
       try {
         // Create or update installation record
         const installation = await prisma.pluginInstallation.upsert({
@@ -291,6 +342,7 @@ export function createLifecycleService(prisma: PrismaClient) {
           toStatus: 'installed',
           initiatedBy,
           duration,
+          details: dependencies.length > 0 ? { dependencies } : undefined,
         });
 
         // Audit log
@@ -299,10 +351,10 @@ export function createLifecycleService(prisma: PrismaClient) {
           resource: 'plugin',
           resourceId: pkg.name,
           userId: initiatedBy,
-          details: { version: version.version },
+          details: { version: version.version, dependencies },
         });
 
-        return { success: true, installation };
+        return { success: true, installation, dependencies };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         const duration = Date.now() - startTime;
@@ -341,9 +393,14 @@ export function createLifecycleService(prisma: PrismaClient) {
     },
 
     /**
-     * Uninstall a plugin
+     * Uninstall a plugin. Refuses while installed plugins depend on it, unless
+     * `cascade` is set, in which case those are uninstalled first.
      */
-    async uninstallPlugin(packageId: string, initiatedBy?: string) {
+    async uninstallPlugin(
+      packageId: string,
+      initiatedBy?: string,
+      options: UninstallOptions = {}
+    ) {
       const startTime = Date.now();
 
       const installation = await prisma.pluginInstallation.findUnique({
@@ -358,6 +415,21 @@ export function createLifecycleService(prisma: PrismaClient) {
       const pluginName = installation.package.name;
       const version = installation.version.version;
 
+      const dependents = findDependents(await dependencySource.getInstalled(), pluginName);
+      if (dependents.length > 0 && !options.cascade) {
+        const names = dependents.map(d => d.name);
+        throw new PluginDependencyError(
+          `${pluginName} is required by ${names.join(', ')}. Uninstall those first or retry with cascade.`,
+          [],
+          names
+        );
+      }
+      // Dependents come ordered so that each one has none left by its turn
+      for (const dependent of dependents) {
+        await this.uninstallPlugin(dependent.packageId, initiatedBy);
+      }
+      const cascaded = dependents.map(d => d.name);
+
       try {
         // Update status
         await prisma.pluginInstallation.update({
@@ -433,10 +505,10 @@ export function createLifecycleService(prisma: PrismaClient) {
           resource: 'plugin',
           resourceId: pluginName,
           userId: initiatedBy,
-          details: { version },
+          details: cascaded.length > 0 ? { version, cascaded } : { version },
         });
 
-        return { success: true };
+        return { success: true, cascaded };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         const duration = Date.now() - startTime;
@@ -558,6 +630,12 @@ export function createLifecycleService(prisma: PrismaClient) {
       const pluginName = installation.package.name;
       const oldVersion = installation.version.version;
 
+      // Installed dependents must accept the new version; new dependencies go in first
+      const dependencies = await this.installDependencies(
+        toDependencyCandidate(installation.package, newVersion),
+        initiatedBy
+      );
+
       try {
         // Update status
         await prisma.pluginInstallation.update({
@@ -619,10 +697,10 @@ export function createLifecycleService(prisma: PrismaClient) {
           resource: 'plugin',
           resourceId: pluginName,
           userId: initiatedBy,
-          details: { fromVersion: oldVersion, toVersion: newVersion.version },
+          details: { fromVersion: oldVersion, toVersion: newVersion.version, dependencies },
         });
 
-        return { success: true };
+        return { success: true, dependencies };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         const duration = Date.now() - startTime;
@@ -293,6 +293,35 @@ export function validateManifest(manifest: unknown): ValidationResult {
     });
   }
 
+  // Plugin dependencies
+  if (m.dependencies?.plugins !== undefined) {
+    if (!Array.isArray(m.dependencies.plugins)) {
+      errors.push({ field: 'dependencies.plugins', message: 'Plugin dependencies must be an array', severity: 'error' });
+    } else {
+      const seen = new Set<string>();
+      for (const dep of m.dependencies.plugins) {
+        if (!dep || typeof dep.name !== 'string' || !dep.name) {
+          errors.push({ field: 'dependencies.plugins', message: 'Each dependency needs a plugin name', severity: 'error' });
+          continue;
+        }
+        if (dep.name === m.name) {
+          errors.push({ field: 'dependencies.plugins', message: 'A plugin cannot depend on itself', severity: 'error' });
+        }
+        if (seen.has(dep.name)) {
+          warnings.push({ field: 'dependencies.plugins', message: `"${dep.name}" is listed more than once`, severity: 'warning' });
+        }
+        seen.add(dep.name);
+        if (dep.version !== undefined && semver.validRange(dep.version) === null) {
+          errors.push({
+            field: 'dependencies.plugins',
+            message: `Invalid version range for "${dep.name}": "${dep.version}"`,
+            severity: 'error'
+          });
+        }
+      }
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -6,6 +6,7 @@
  * - Request metrics collection (count, latency, errors)
  * - Time-series data storage
  * - Metric aggregation over configurable periods
+ * - Fixed-size buckets for baselines and backtests
  * - Active user tracking
  * - Resource usage metrics (memory, CPU)
  */
@@ -52,6 +53,14 @@ export interface AggregatedMetrics {
   uniqueSessions: number;
   memoryUsageMb: number | null;
   cpuUsagePercent: number | null;
+  /** Number of stored metric rows aggregated (0 = no data) */
+  sampleCount: number;
+}
+
+export interface MetricBucket {
+  start: Date;
+  end: Date;
+  metrics: AggregatedMetrics;
 }
 
 export interface TimeRange {
@@ -85,6 +94,102 @@ const BUFFER_FLUSH_INTERVAL_MS = 60000; // 1 minute
 const BUFFER_MAX_SIZE = 10000; // Max entries before forced flush
 const RETENTION_DAYS = 90; // Keep metrics for 90 days
 
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Aggregate stored metric rows: totals for counts, averages for latency
+ * percentiles, maximums for users/sessions and the latest resource usage
+ */
+export function aggregateMetrics(
+  deploymentId: string,
+  metrics: PluginMetrics[],
+  slot?: string
+): AggregatedMetrics {
+  if (metrics.length === 0) {
+    return {
+      deploymentId,
+      slot,
+      requestCount: 0,
+      errorCount: 0,
+      errorRate: 0,
+      latencyP50: 0,
+      latencyP95: 0,
+      latencyP99: 0,
+      latencyAvg: 0,
+      activeUsers: 0,
+      uniqueSessions: 0,
+      memoryUsageMb: null,
+      cpuUsagePercent: null,
+      sampleCount: 0,
+    };
+  }
+
+  // Aggregate metrics
+  let totalRequests = 0;
+  let totalErrors = 0;
+  const allLatencyP50: number[] = [];
+  const allLatencyP95: number[] = [];
+  const allLatencyP99: number[] = [];
+  const allLatencyAvg: number[] = [];
+  let maxActiveUsers = 0;
+  let maxUniqueSessions = 0;
+  let lastMemory: number | null = null;
+  let lastCpu: number | null = null;
+
+  for (const m of metrics) {
+    totalRequests += m.requestCount;
+    totalErrors += m.errorCount;
+
+    if (m.latencyP50) allLatencyP50.push(m.latencyP50);
+    if (m.latencyP95) allLatencyP95.push(m.latencyP95);
+    if (m.latencyP99) allLatencyP99.push(m.latencyP99);
+    if (m.latencyAvg) allLatencyAvg.push(m.latencyAvg);
+
+    maxActiveUsers = Math.max(maxActiveUsers, m.activeUsers);
+    maxUniqueSessions = Math.max(maxUniqueSessions, m.uniqueSessions);
+
+    if (m.memoryUsageMb !== null) lastMemory = m.memoryUsageMb;
+    if (m.cpuUsagePercent !== null) lastCpu = m.cpuUsagePercent;
+  }
+
+  // Calculate averages
+  const avgP50 =
+    allLatencyP50.length > 0
+      ? allLatencyP50.reduce((a, b) => a + b, 0) / allLatencyP50.length
+      : 0;
+  const avgP95 =
+    allLatencyP95.length > 0
+      ? allLatencyP95.reduce((a, b) => a + b, 0) / allLatencyP95.length
+      : 0;
+  const avgP99 =
+    allLatencyP99.length > 0
+      ? allLatencyP99.reduce((a, b) => a + b, 0) / allLatencyP99.length
+      : 0;
+  const avgLatency =
+    allLatencyAvg.length > 0
+      ? allLatencyAvg.reduce((a, b) => a + b, 0) / allLatencyAvg.length
+      : 0;
+
+  return {
+    deploymentId,
+    slot,
+    requestCount: totalRequests,
+    errorCount: totalErrors,
+    errorRate: totalRequests > 0 ? totalErrors / totalRequests : 0,
+    latencyP50: avgP50,
+    latencyP95: avgP95,
+    latencyP99: avgP99,
+    latencyAvg: avgLatency,
+    activeUsers: maxActiveUsers,
+    uniqueSessions: maxUniqueSessions,
+    memoryUsageMb: lastMemory,
+    cpuUsagePercent: lastCpu,
+    sampleCount: metrics.length,
+  };
+}
+
 // =============================================================================
 // Metrics Collector Service
 // =============================================================================
@@ -304,85 +409,7 @@ export function createMetricsCollector(prisma: PrismaClient) {
         orderBy: { timestamp: 'asc' },
       });
 
-      if (metrics.length === 0) {
-        return {
-          deploymentId,
-          slot,
-          requestCount: 0,
-          errorCount: 0,
-          errorRate: 0,
-          latencyP50: 0,
-          latencyP95: 0,
-          latencyP99: 0,
-          latencyAvg: 0,
-          activeUsers: 0,
-          uniqueSessions: 0,
-          memoryUsageMb: null,
-          cpuUsagePercent: null,
-        };
-      }
-
-      // Aggregate metrics
-      let totalRequests = 0;
-      let totalErrors = 0;
-      const allLatencyP50: number[] = [];
-      const allLatencyP95: number[] = [];
-      const allLatencyP99: number[] = [];
-      const allLatencyAvg: number[] = [];
-      let maxActiveUsers = 0;
-      let maxUniqueSessions = 0;
-      let lastMemory: number | null = null;
-      let lastCpu: number | null = null;
-
-      for (const m of metrics) {
-        totalRequests += m.requestCount;
-        totalErrors += m.errorCount;
-
-        if (m.latencyP50) allLatencyP50.push(m.latencyP50);
-        if (m.latencyP95) allLatencyP95.push(m.latencyP95);
-        if (m.latencyP99) allLatencyP99.push(m.latencyP99);
-        if (m.latencyAvg) allLatencyAvg.push(m.latencyAvg);
-
-        maxActiveUsers = Math.max(maxActiveUsers, m.activeUsers);
-        maxUniqueSessions = Math.max(maxUniqueSessions, m.uniqueSessions);
-
-        if (m.memoryUsageMb !== null) lastMemory = m.memoryUsageMb;
-        if (m.cpuUsagePercent !== null) lastCpu = m.cpuUsagePercent;
-      }
-
-      // Calculate averages
-      const avgP50 =
-        allLatencyP50.length > 0
-          ? allLatencyP50.reduce((a, b) => a + b, 0) / allLatencyP50.length
-          : 0;
-      const avgP95 =
-        allLatencyP95.length > 0
-          ? allLatencyP95.reduce((a, b) => a + b, 0) / allLatencyP95.length
-          : 0;
-      const avgP99 =
-        allLatencyP99.length > 0
-          ? allLatencyP99.reduce((a, b) => a + b, 0) / allLatencyP99.length
-          : 0;
-      const avgLatency =
-        allLatencyAvg.length > 0
-          ? allLatencyAvg.reduce((a, b) => a + b, 0) / allLatencyAvg.length
-          : 0;
-
-      return {
-        deploymentId,
-        slot,
-        requestCount: totalRequests,
-        errorCount: totalErrors,
-        errorRate: totalRequests > 0 ? totalErrors / totalRequests : 0,
-        latencyP50: avgP50,
-        latencyP95: avgP95,
-        latencyP99: avgP99,
-        latencyAvg: avgLatency,
-        activeUsers: maxActiveUsers,
-        uniqueSessions: maxUniqueSessions,
-        memoryUsageMb: lastMemory,
-        cpuUsagePercent: lastCpu,
-      };
+      return aggregateMetrics(deploymentId, metrics, slot);
     },
 
     /**
@@ -456,6 +483,49 @@ export function createMetricsCollector(prisma: PrismaClient) {
       return result;
     },
 
+    /**
+     * Get aggregated metrics in contiguous fixed-size buckets (aligned to the
+     * bucket size, oldest first). Buckets without data have sampleCount 0.
+     */
+    async getBuckets(
+      deploymentId: string,
+      timeRange: TimeRange,
+      bucketSeconds: number = 300,
+      slot?: string
+    ): Promise<MetricBucket[]> {
+      const bucketMs = bucketSeconds * 1000;
+      const first = Math.floor(timeRange.start.getTime() / bucketMs) * bucketMs;
+      const last = Math.floor((timeRange.end.getTime() - 1) / bucketMs) * bucketMs;
+
+      const metrics = await prisma.pluginMetrics.findMany({
+        where: {
+          deploymentId,
+          timestamp: { gte: new Date(first), lt: new Date(last + bucketMs) },
+          ...(slot && { slot }),
+        },
+        orderBy: { timestamp: 'asc' },
+      });
+
+      const rowsByBucket = new Map<number, PluginMetrics[]>();
+      for (const m of metrics) {
+        const bucketTime = Math.floor(m.timestamp.getTime() / bucketMs) * bucketMs;
+        const rows = rowsByBucket.get(bucketTime) || [];
+        rows.push(m);
+        rowsByBucket.set(bucketTime, rows);
+      }
+
+      const buckets: MetricBucket[] = [];
+      for (let time = first; time <= last; time += bucketMs) {
+        buckets.push({
+          start: new Date(time),
+          end: new Date(time + bucketMs),
+          metrics: aggregateMetrics(deploymentId, rowsByBucket.get(time) || [], slot),
+        });
+      }
+
+      return buckets;
+    },
+
     /**
      * Get metrics for the last N minutes
      */
@@ -0,0 +1,81 @@
+/**
+ * Plugin Dependency Types
+ *
+ * Shared types and errors for plugin-to-plugin dependencies. Kept free of
+ * database imports so routes can use them directly; resolution lives in
+ * versionManager.ts.
+ */
+
+// =============================================================================
+// Requirements
+// =============================================================================
+
+/**
+ * One plugin dependency declared in a manifest
+ * (`dependencies.plugins: [{ name, version, optional }]`).
+ */
+export interface PluginRequirement {
+  /** Plugin (package) name */
+  name: string;
+  /** Semver range the installed version must satisfy */
+  range: string;
+  /** Optional dependencies are checked when present but never installed */
+  optional: boolean;
+}
+
+/** A concrete published version that can take part in a dependency graph */
+export interface DependencyCandidate {
+  packageId: string;
+  versionId: string;
+  name: string;
+  version: string;
+  dependencies: PluginRequirement[];
+}
+
+/** Where the resolver reads published versions and the installed set from */
+export interface DependencySource {
+  /** Installable (non-deprecated) versions of a package; empty if unpublished */
+  getVersions(name: string): Promise<DependencyCandidate[]>;
+  /** Every plugin currently installed, at its installed version */
+  getInstalled(): Promise<DependencyCandidate[]>;
+}
+
+// =============================================================================
+// Resolution results
+// =============================================================================
+
+export interface DependencyPlanStep extends DependencyCandidate {
+  /** `install` for new plugins (and the root), `installed` when already satisfied */
+  action: 'install' | 'installed';
+  /** Plugins in the graph that require this one */
+  requiredBy: string[];
+}
+
+export interface DependencyConflict {
+  /** Plugin the conflict is about */
+  name: string;
+  reason: string;
+  /** Ranges placed on `name`, by requiring plugin */
+  requirements: Array<{ requiredBy: string; range: string }>;
+}
+
+export interface DependencyPlan {
+  /** Install order: dependencies first, the root plugin last */
+  steps: DependencyPlanStep[];
+  conflicts: DependencyConflict[];
+}
+
+// =============================================================================
+// Error Classes
+// =============================================================================
+
+export class PluginDependencyError extends Error {
+  constructor(
+    message: string,
+    public readonly conflicts: DependencyConflict[] = [],
+    public readonly dependents: string[] = []
+  ) {
+    super(message);
+    this.name = 'PluginDependencyError';
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Secret Rotation Scheduler
+ *
+ * Periodically sends reminders for secrets whose scheduled rotation is
+ * coming up (or overdue), and retires superseded versions whose grace window
+ * has ended.
+ * Default interval: 1 hour (configurable)
+ */
+
+import type { RotationReminder } from './secrets';
+
+export interface SecretRotationSchedulerConfig {
+  /** Interval between runs in milliseconds (default: 1 hour) */
+  intervalMs: number;
+}
+
+export interface SecretRotationRun {
+  reminders: RotationReminder[];
+  retiredVersions: number;
+}
+
+const DEFAULT_CONFIG: SecretRotationSchedulerConfig = {
+  intervalMs: 60 * 60 * 1000, // 1 hour
+};
+
+/**
+ * Create secret rotation scheduler
+ */
+export function createSecretRotationScheduler(
+  secretVault: {
+    sendRotationReminders: (
+      notify: (reminder: RotationReminder) => Promise<void> | void,
+      now?: Date
+    ) => Promise<RotationReminder[]>;
+    retireExpiredVersions: (now?: Date) => Promise<number>;
+  },
+  notify: (reminder: RotationReminder) => Promise<void> | void,
+  config: Partial<SecretRotationSchedulerConfig> = {}
+) {
+  const finalConfig: SecretRotationSchedulerConfig = { ...DEFAULT_CONFIG, ...config };
+  let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+
+  return {
+    /**
+     * Start the scheduler
+     */
+    start(): void {
+      if (schedulerInterval) {
+        console.log('Secret rotation scheduler already running');
+        return;
+      }
+
+      console.log(
+        `🔑 Starting secret rotation scheduler (interval: ${finalConfig.intervalMs / 1000}s)`
+      );
+
+      // Run immediately on start
+      this.runOnce();
+
+      schedulerInterval = setInterval(() => {
+        this.runOnce();
+      }, finalConfig.intervalMs);
+    },
+
+    /**
+     * Stop the scheduler
+     */
+    stop(): void {
+      if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+        schedulerInterval = null;
+      }
+    },
+
+    /**
+     * Check if scheduler is running
+     */
+    isRunning(): boolean {
+      return schedulerInterval !== null;
+    },
+
+    /**
+     * Send due reminders and retire expired versions
+     */
+    async runOnce(now = new Date()): Promise<SecretRotationRun> {
+      const run: SecretRotationRun = { reminders: [], retiredVersions: 0 };
+
+      try {
+        run.reminders = await secretVault.sendRotationReminders(notify, now);
+        run.retiredVersions = await secretVault.retireExpiredVersions(now);
+
+        if (run.reminders.length > 0 || run.retiredVersions > 0) {
+          console.log(
+            `🔑 Secret rotation: ${run.reminders.length} reminder(s) sent, ${run.retiredVersions} expired version(s) retired`
+          );
+        }
+      } catch (error) {
+        console.error('Secret rotation scheduler error:', error);
+      }
+
+      return run;
+    },
+  };
+}
@@ -3,11 +3,27 @@
  * 
  * Manages encrypted secrets and API key mappings.
  * Provides centralized credential management for integrations.
+ *
+ * Secrets are versioned: a rotation moves the old value to SecretVersion,
+ * where it keeps resolving for the secret's grace window so consumers can
+ * switch over. Secrets can carry a rotation schedule (see
+ * secretRotationScheduler.ts for reminders), and every read of a value is
+ * recorded in SecretAccessLog with the plugin or connector that resolved it.
  */
 
 import { PrismaClient } from '@naap/database';
 import { createEncryptionService } from './encryption';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Values web-next encrypts under its own ENCRYPTION_KEY share the vault:
+ * gateway connector secrets (`gw:` keys) and its admin secrets API
+ * (`v1:` scrypt values). No base-svc master key opens them.
+ */
+const WEB_NEXT_KEY_PREFIX = 'gw:';
+const WEB_NEXT_VALUE_PREFIX = 'v1:';
+
 export interface SecretInput {
   key: string;
   value: string;
@@ -24,6 +40,62 @@ export interface SecretMetadata {
   createdAt: Date;
   updatedAt: Date;
   rotatedAt?: Date;
+  currentVersion: number;
+  graceWindowSeconds: number;
+  rotationIntervalDays?: number;
+  nextRotationAt?: Date;
+  reminderDays: number;
+}
+
+export interface SecretVersionInfo {
+  version: number;
+  current: boolean;
+  /** When this value became current */
+  createdAt: Date;
+  supersededAt?: Date;
+  supersededBy?: string;
+  /** A superseded version resolves until this time */
+  expiresAt?: Date;
+}
+
+export interface ResolvedSecretValue {
+  version: number;
+  value: string;
+  /** Set on superseded values still inside their grace window */
+  expiresAt?: Date;
+}
+
+/** Who is resolving a secret, for the read audit */
+export interface SecretAccess {
+  /** e.g. "plugin:my-wallet", "connector:openai", "user:<id>" */
+  accessor: string;
+}
+
+export interface RotateOptions {
+  /** Overrides the secret's grace window for this rotation */
+  graceSeconds?: number;
+}
+
+export interface RotationScheduleInput {
+  /** Days between rotations; null removes the schedule */
+  intervalDays: number | null;
+  reminderDays?: number;
+  graceSeconds?: number;
+}
+
+export interface RotationReminder {
+  key: string;
+  scope: string;
+  nextRotationAt: Date;
+  overdue: boolean;
+  reminderSentAt?: Date;
+}
+
+export interface RewrapResult {
+  /** Values re-encrypted under the current master key */
+  rewrapped: number;
+  /** Values no key in the ring could decrypt (`key` or `key@v<version>`) */
+  unreadable: string[];
 }
 
 export interface KeyMappingInput {
@@ -32,50 +104,99 @@ export interface KeyMappingInput {
   secretKey: string;
 }
 
+interface SecretRow {
+  key: string;
+  description: string | null;
+  scope: string;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  rotatedAt: Date | null;
+  currentVersion: number;
+  graceWindowSeconds: number;
+  rotationIntervalDays: number | null;
+  nextRotationAt: Date | null;
+  reminderDays: number;
+}
+
+function toMetadata(secret: SecretRow): SecretMetadata {
+  return {
+    key: secret.key,
+    description: secret.description || undefined,
+    scope: secret.scope,
+    createdBy: secret.createdBy || undefined,
+    createdAt: secret.createdAt,
+    updatedAt: secret.updatedAt,
+    rotatedAt: secret.rotatedAt || undefined,
+    currentVersion: secret.currentVersion,
+    graceWindowSeconds: secret.graceWindowSeconds,
+    rotationIntervalDays: secret.rotationIntervalDays ?? undefined,
+    nextRotationAt: secret.nextRotationAt || undefined,
+    reminderDays: secret.reminderDays,
+  };
+}
+
 export function createSecretVaultService(prisma: PrismaClient) {
   const encryption = createEncryptionService();
 
   return {
     /**
-     * Store a secret
+     * Store a secret. Storing over an existing key rotates it.
      */
     async storeSecret(input: SecretInput): Promise<SecretMetadata> {
-      const { encryptedValue, iv } = encryption.encrypt(input.value);
-
-      const secret = await prisma.secretVault.upsert({
+      const existing = await prisma.secretVault.findUnique({
         where: { key: input.key },
-        create: {
+      });
+
+      if (existing) {
+        await prisma.secretVault.update({
+          where: { key: input.key },
+          data: {
+            description: input.description,
+            scope: input.scope || 'global',
+          },
+        });
+        return (await this.rotateSecret(input.key, input.value, input.createdBy))!;
+      }
+
+      const { encryptedValue, iv, keyId } = encryption.encrypt(input.value);
+
+      const secret = await prisma.secretVault.create({
+        data: {
           key: input.key,
           encryptedValue,
           iv,
+          keyId,
           description: input.description,
           scope: input.scope || 'global',
           createdBy: input.createdBy,
         },
-        update: {
-          encryptedValue,
-          iv,
-          description: input.description,
-          scope: input.scope || 'global',
-          rotatedAt: new Date(),
-        },
       });
 
-      return {
-        key: secret.key,
-        description: secret.description || undefined,
-        scope: secret.scope,
-        createdBy: secret.createdBy || undefined,
-        createdAt: secret.createdAt,
-        updatedAt: secret.updatedAt,
-        rotatedAt: secret.rotatedAt || undefined,
-      };
+      return toMetadata(secret);
+    },
+
+    /**
+     * Record that a secret value was resolved. Audit failures never fail the read.
+     */
+    async recordAccess(secretKey: string, version: number | null, access?: SecretAccess) {
+      try {
+        await prisma.secretAccessLog.create({
+          data: {
+            secretKey,
+            version,
+            accessor: access?.accessor || 'internal',
+          },
+        });
+      } catch (error) {
+        console.warn(`Failed to record access to secret ${secretKey}:`, error);
+      }
     },
 
     /**
      * Get a secret value (decrypted)
      */
-    async getSecret(key: string, scope?: string): Promise<string | null> {
+    async getSecret(key: string, scope?: string, access?: SecretAccess): Promise<string | null> {
       const secret = await prisma.secretVault.findFirst({
         where: {
           key,
@@ -85,10 +206,94 @@ export function createSecretVaultService(prisma: PrismaClient) {
 
       if (!secret) return null;
 
-      return encryption.decrypt({
+      const value = encryption.decrypt({
         encryptedValue: secret.encryptedValue,
         iv: secret.iv,
+        keyId: secret.keyId,
+      });
+      await this.recordAccess(secret.key, secret.currentVersion, access);
+      return value;
+    },
+
+    /**
+     * Get every value that currently resolves: the current one first, then
+     * superseded ones still inside their grace window
+     */
+    async getSecretValues(key: string, access?: SecretAccess): Promise<ResolvedSecretValue[] | null> {
+      const secret = await prisma.secretVault.findUnique({
+        where: { key },
+        include: {
+          versions: {
+            where: { expiresAt: { gt: new Date() } },
+            orderBy: { version: 'desc' },
+          },
+        },
       });
+
+      if (!secret) return null;
+
+      const values: ResolvedSecretValue[] = [
+        {
+          version: secret.currentVersion,
+          value: encryption.decrypt({ encryptedValue: secret.encryptedValue, iv: secret.iv, keyId: secret.keyId }),
+        },
+        ...secret.versions.map(v => ({
+          version: v.version,
+          value: encryption.decrypt({ encryptedValue: v.encryptedValue, iv: v.iv, keyId: v.keyId }),
+          expiresAt: v.expiresAt,
+        })),
+      ];
+      await this.recordAccess(secret.key, secret.currentVersion, access);
+      return values;
+    },
+
+    /**
+     * Get one version's value; superseded versions only inside their grace window
+     */
+    async getSecretVersion(key: string, version: number, access?: SecretAccess): Promise<string | null> {
+      const secret = await prisma.secretVault.findUnique({
+        where: { key },
+        include: {
+          versions: { where: { version, expiresAt: { gt: new Date() } } },
+        },
+      });
+
+      if (!secret) return null;
+
+      const row = secret.currentVersion === version ? secret : secret.versions[0];
+      if (!row) return null;
+
+      const value = encryption.decrypt({ encryptedValue: row.encryptedValue, iv: row.iv, keyId: row.keyId });
+      await this.recordAccess(secret.key, version, access);
+      return value;
+    },
+
+    /**
+     * List a secret's versions (metadata only, newest first)
+     */
+    async listSecretVersions(key: string): Promise<SecretVersionInfo[] | null> {
+      const secret = await prisma.secretVault.findUnique({
+        where: { key },
+        include: { versions: { orderBy: { version: 'desc' } } },
+      });
+
+      if (!secret) return null;
+
+      return [
+        {
+          version: secret.currentVersion,
+          current: true,
+          createdAt: secret.rotatedAt || secret.createdAt,
+        },
+        ...secret.versions.map(v => ({
+          version: v.version,
+          current: false,
+          createdAt: v.createdAt,
+          supersededAt: v.supersededAt,
+          supersededBy: v.supersededBy || undefined,
+          expiresAt: v.expiresAt,
+        })),
+      ];
     },
 
     /**
@@ -105,23 +310,20 @@ export function createSecretVaultService(prisma: PrismaClient) {
           createdAt: true,
           updatedAt: true,
           rotatedAt: true,
+          currentVersion: true,
+          graceWindowSeconds: true,
+          rotationIntervalDays: true,
+          nextRotationAt: true,
+          reminderDays: true,
         },
         orderBy: { key: 'asc' },
       });
 
-      return secrets.map(s => ({
-        key: s.key,
-        description: s.description || undefined,
-        scope: s.scope,
-        createdBy: s.createdBy || undefined,
-        createdAt: s.createdAt,
-        updatedAt: s.updatedAt,
-        rotatedAt: s.rotatedAt || undefined,
-      }));
+      return secrets.map(toMetadata);
     },
 
     /**
-     * Delete a secret
+     * Delete a secret (and its superseded versions)
      */
     async deleteSecret(key: string): Promise<boolean> {
       try {
@@ -135,35 +337,204 @@ export function createSecretVaultService(prisma: PrismaClient) {
     },
 
     /**
-     * Rotate a secret (update with new value)
+     * Rotate a secret (new value becomes a new version). The previous value
+     * keeps resolving for the grace window, and a scheduled secret's next
+     * rotation is counted from now.
      */
-    async rotateSecret(key: string, newValue: string, rotatedBy?: string): Promise<SecretMetadata | null> {
+    async rotateSecret(
+      key: string,
+      newValue: string,
+      rotatedBy?: string,
+      options: RotateOptions = {}
+    ): Promise<SecretMetadata | null> {
       const existing = await prisma.secretVault.findUnique({
         where: { key },
       });
 
       if (!existing) return null;
 
-      const { encryptedValue, iv } = encryption.encrypt(newValue);
+      const now = new Date();
+      const graceSeconds = options.graceSeconds ?? existing.graceWindowSeconds;
+      const { encryptedValue, iv, keyId } = encryption.encrypt(newValue);
 
+      const keepPrevious = graceSeconds > 0
+        ? [prisma.secretVersion.create({
+            data: {
+              secretId: existing.id,
+              version: existing.currentVersion,
+              encryptedValue: existing.encryptedValue,
+              iv: existing.iv,
+              keyId: existing.keyId,
+              createdAt: existing.rotatedAt || existing.createdAt,
+              supersededAt: now,
+              supersededBy: rotatedBy,
+              expiresAt: new Date(now.getTime() + graceSeconds * 1000),
+            },
+          })]
+        : [];
+
+      // Conditional on the version read above, so concurrent rotations cannot both win
+      const [secret] = await prisma.$transaction([
+        prisma.secretVault.update({
+          where: { key, currentVersion: existing.currentVersion },
+          data: {
+            encryptedValue,
+            iv,
+            keyId,
+            currentVersion: existing.currentVersion + 1,
+            rotatedAt: now,
+            nextRotationAt: existing.rotationIntervalDays
+              ? new Date(now.getTime() + existing.rotationIntervalDays * DAY_MS)
+              : null,
+            reminderSentAt: null,
+          },
+        }),
+        ...keepPrevious,
+      ]);
+
+      return toMetadata(secret);
+    },
+
+    /**
+     * Set or clear a secret's rotation schedule. The next rotation is due
+     * `intervalDays` after the last one (or after creation).
+     */
+    async setRotationSchedule(key: string, input: RotationScheduleInput): Promise<SecretMetadata | null> {
+      const existing = await prisma.secretVault.findUnique({
+        where: { key },
+      });
+
+      if (!existing) return null;
+
+      const lastRotation = existing.rotatedAt || existing.createdAt;
       const secret = await prisma.secretVault.update({
         where: { key },
         data: {
-          encryptedValue,
-          iv,
-          rotatedAt: new Date(),
+          rotationIntervalDays: input.intervalDays,
+          nextRotationAt: input.intervalDays
+            ? new Date(lastRotation.getTime() + input.intervalDays * DAY_MS)
+            : null,
+          reminderSentAt: null,
+          ...(input.reminderDays !== undefined && { reminderDays: input.reminderDays }),
+          ...(input.graceSeconds !== undefined && { graceWindowSeconds: input.graceSeconds }),
         },
       });
 
-      return {
-        key: secret.key,
-        description: secret.description || undefined,
-        scope: secret.scope,
-        createdBy: secret.createdBy || undefined,
-        createdAt: secret.createdAt,
-        updatedAt: secret.updatedAt,
-        rotatedAt: secret.rotatedAt || undefined,
-      };
+      return toMetadata(secret);
+    },
+
+    /**
+     * Scheduled secrets inside their reminder window, including overdue ones
+     */
+    async getDueRotations(now = new Date()): Promise<RotationReminder[]> {
+      const scheduled = await prisma.secretVault.findMany({
+        where: { nextRotationAt: { not: null } },
+        select: { key: true, scope: true, nextRotationAt: true, reminderDays: true, reminderSentAt: true },
+        orderBy: { nextRotationAt: 'asc' },
+      });
+
+      return scheduled
+        .filter(s => s.nextRotationAt!.getTime() - s.reminderDays * DAY_MS <= now.getTime())
+        .map(s => ({
+          key: s.key,
+          scope: s.scope,
+          nextRotationAt: s.nextRotationAt!,
+          overdue: s.nextRotationAt! <= now,
+          reminderSentAt: s.reminderSentAt || undefined,
+        }));
+    },
+
+    /**
+     * Send one reminder per due secret and schedule period. A reminder that
+     * fails to send is retried on the next run.
+     */
+    async sendRotationReminders(
+      notify: (reminder: RotationReminder) => Promise<void> | void,
+      now = new Date()
+    ): Promise<RotationReminder[]> {
+      const due = (await this.getDueRotations(now)).filter(r => !r.reminderSentAt);
+      const sent: RotationReminder[] = [];
+
+      for (const reminder of due) {
+        try {
+          await notify(reminder);
+          await prisma.secretVault.update({
+            where: { key: reminder.key },
+            data: { reminderSentAt: now },
+          });
+          sent.push(reminder);
+        } catch (error) {
+          console.error(`Failed to send rotation reminder for ${reminder.key}:`, error);
+        }
+      }
+
+      return sent;
+    },
+
+    /**
+     * Delete superseded versions whose grace window has ended
+     */
+    async retireExpiredVersions(now = new Date()): Promise<number> {
+      const result = await prisma.secretVersion.deleteMany({
+        where: { expiresAt: { lte: now } },
+      });
+      return result.count;
+    },
+
+    /**
+     * Read audit for a secret, newest first
+     */
+    async getAccessLog(key: string, options: { limit?: number; since?: Date; accessor?: string } = {}) {
+      return prisma.secretAccessLog.findMany({
+        where: {
+          secretKey: key,
+          ...(options.accessor && { accessor: options.accessor }),
+          ...(options.since && { createdAt: { gte: options.since } }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 100,
+      });
+    },
+
+    /**
+     * Re-encrypt every base-svc value not yet under the current master key.
+     * Run after moving the old key to ENCRYPTION_PREVIOUS_MASTER_KEYS; once
+     * nothing is left to rewrap, the old key can be dropped.
+     */
+    async rewrapSecrets(): Promise<RewrapResult> {
+      const stale = { OR: [{ keyId: null }, { keyId: { not: encryption.keyId } }] };
+      const foreignValue = { encryptedValue: { startsWith: WEB_NEXT_VALUE_PREFIX } };
+      const result: RewrapResult = { rewrapped: 0, unreadable: [] };
+
+      const secrets = await prisma.secretVault.findMany({
+        where: { ...stale, NOT: [{ key: { startsWith: WEB_NEXT_KEY_PREFIX } }, foreignValue] },
+        select: { id: true, key: true, encryptedValue: true, iv: true, keyId: true },
+      });
+      for (const secret of secrets) {
+        try {
+          const wrapped = encryption.rewrap(secret);
+          await prisma.secretVault.update({ where: { id: secret.id }, data: wrapped });
+          result.rewrapped++;
+        } catch {
+          result.unreadable.push(secret.key);
+        }
+      }
+
+      const versions = await prisma.secretVersion.findMany({
+        where: { ...stale, NOT: [{ secret: { key: { startsWith: WEB_NEXT_KEY_PREFIX } } }, foreignValue] },
+        select: { id: true, version: true, encryptedValue: true, iv: true, keyId: true, secret: { select: { key: true } } },
+      });
+      for (const version of versions) {
+        try {
+          const wrapped = encryption.rewrap(version);
+          await prisma.secretVersion.update({ where: { id: version.id }, data: wrapped });
+          result.rewrapped++;
+        } catch {
+          result.unreadable.push(`${version.secret.key}@v${version.version}`);
+        }
+      }
+
+      return result;
     },
 
     /**
@@ -240,16 +611,16 @@ export function createSecretVaultService(prisma: PrismaClient) {
 
       if (!mapping || !mapping.enabled) return null;
 
-      return this.getSecret(mapping.secretKey);
+      return this.getSecret(mapping.secretKey, undefined, { accessor: `plugin:${pluginName}` });
     },
 
     /**
      * Get the global secret for an integration type
      */
-    async getGlobalIntegrationSecret(integrationType: string): Promise<string | null> {
+    async getGlobalIntegrationSecret(integrationType: string, access?: SecretAccess): Promise<string | null> {
       // Convention: global secrets are named like "openai_api_key", "aws_access_key", etc.
       const secretKey = `${integrationType.replace('-', '_')}_api_key`;
-      return this.getSecret(secretKey, 'global');
+      return this.getSecret(secretKey, 'global', access ?? { accessor: `integration:${integrationType}` });
     },
   };
 }
@@ -1,10 +1,19 @@
 /**
  * Version Manager Service
- * Handles semver validation, version conflicts, and rollback
+ * Handles semver validation, version conflicts (including across the plugin
+ * dependency graph), and rollback
  */
 
 import * as semver from 'semver';
 import { db } from '../db/client';
+import type {
+  DependencyCandidate,
+  DependencyConflict,
+  DependencyPlan,
+  DependencyPlanStep,
+  DependencySource,
+  PluginRequirement,
+} from './pluginDependencyTypes';
 
 export interface VersionInfo {
   version: string;
@@ -214,6 +223,300 @@ export function matchVersionRange(versions: string[], range: string): string | n
   return semver.maxSatisfying(versions, range);
 }
 
+// =============================================================================
+// Plugin dependency graph
+// =============================================================================
+
+/** Installation statuses whose plugin is live at its recorded version */
+const INSTALLED_STATUSES = ['installed', 'rolledback'];
+
+/** Upper bound on resolver passes; ranges that keep flipping a pick end up as a conflict */
+const MAX_RESOLVE_STEPS = 500;
+
+/**
+ * Read plugin dependencies from a manifest.
+ * Accepts `dependencies.plugins` (PluginDependency in @naap/types) and the
+ * older bare list of plugin names, which allows any version.
+ */
+export function getManifestDependencies(manifest: unknown): PluginRequirement[] {
+  const deps = (manifest as { dependencies?: unknown } | null)?.dependencies;
+  const list = Array.isArray(deps) ? deps : (deps as { plugins?: unknown } | undefined)?.plugins;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list.flatMap((dep: unknown): PluginRequirement[] => {
+    if (typeof dep === 'string') {
+      return [{ name: dep, range: '*', optional: false }];
+    }
+    const d = dep as { name?: unknown; version?: unknown; optional?: unknown } | null;
+    if (!d || typeof d.name !== 'string') {
+      return [];
+    }
+    return [{
+      name: d.name,
+      range: typeof d.version === 'string' && d.version.trim() ? d.version.trim() : '*',
+      optional: d.optional === true,
+    }];
+  });
+}
+
+/**
+ * Build a graph node from a package name and one of its version rows
+ */
+export function toDependencyCandidate(
+  pkg: { id: string; name: string },
+  version: { id: string; version: string; manifest: unknown }
+): DependencyCandidate {
+  return {
+    packageId: pkg.id,
+    versionId: version.id,
+    name: pkg.name,
+    version: version.version,
+    dependencies: getManifestDependencies(version.manifest),
+  };
+}
+
+function satisfiesRange(version: string, range: string): boolean {
+  return semver.validRange(range) !== null && semver.satisfies(version, range);
+}
+
+function describeRequirements(requirements: Array<{ requiredBy: string; range: string }>): string {
+  return requirements.map(r => `${r.range} (required by ${r.requiredBy})`).join(', ');
+}
+
+/**
+ * Resolve everything `root` needs, on top of what is already installed.
+ *
+ * Each plugin is picked at the highest published version that satisfies every
+ * range placed on it — by the root, by other plugins in the graph, and by
+ * installed plugins, so an install or upgrade cannot break them. Installed
+ * plugins are never changed: one that is out of range is a conflict, not an
+ * implicit upgrade. Optional dependencies are checked when present but never
+ * pulled in. Cycles are conflicts, since there is no order to install them in.
+ */
+export async function resolveDependencyGraph(
+  root: DependencyCandidate,
+  source: DependencySource
+): Promise<DependencyPlan> {
+  const installed = new Map(
+    (await source.getInstalled()).filter(p => p.name !== root.name).map(p => [p.name, p])
+  );
+  const published = new Map<string, DependencyCandidate[]>();
+  const versionsOf = async (name: string) => {
+    if (!published.has(name)) {
+      published.set(name, await source.getVersions(name));
+    }
+    return published.get(name)!;
+  };
+
+  // Target plugin name -> requiring plugin name -> requirement
+  const requirements = new Map<string, Map<string, PluginRequirement>>();
+  const addRequirements = (from: DependencyCandidate) => {
+    for (const dep of from.dependencies) {
+      if (!requirements.has(dep.name)) requirements.set(dep.name, new Map());
+      requirements.get(dep.name)!.set(from.name, dep);
+    }
+  };
+  const dropRequirements = (fromName: string) => {
+    for (const byRequirer of requirements.values()) byRequirer.delete(fromName);
+  };
+
+  for (const plugin of installed.values()) addRequirements(plugin);
+  addRequirements(root);
+
+  // Pick versions until no new requirement changes a pick
+  const selected = new Map<string, DependencyCandidate>([[root.name, root]]);
+  const pending = root.dependencies.map(d => d.name);
+  let passes = 0;
+  while (pending.length > 0 && passes++ < MAX_RESOLVE_STEPS) {
+    const name = pending.shift()!;
+    if (name === root.name || installed.has(name)) continue;
+
+    const ranges = [...(requirements.get(name)?.values() ?? [])];
+    const current = selected.get(name);
+    if (!current && ranges.every(r => r.optional)) continue;
+
+    const best = (await versionsOf(name))
+      .filter(c => ranges.every(r => satisfiesRange(c.version, r.range)))
+      .sort((a, b) => semver.rcompare(a.version, b.version))[0];
+    if (!best || best.versionId === current?.versionId) continue;
+
+    if (current) {
+      dropRequirements(name);
+      pending.push(...current.dependencies.map(d => d.name));
+    }
+    selected.set(name, best);
+    addRequirements(best);
+    pending.push(...best.dependencies.map(d => d.name));
+  }
+
+  const conflicts: DependencyConflict[] = [];
+  if (pending.length > 0) {
+    conflicts.push({
+      name: root.name,
+      reason: `Dependency ranges for ${root.name} did not settle after ${MAX_RESOLVE_STEPS} passes`,
+      requirements: [],
+    });
+  }
+
+  // Order the graph reachable from the root, dependencies first
+  const steps: DependencyPlanStep[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const requiredBy = new Map<string, string[]>();
+  const missing = new Set<string>();
+
+  const visit = (node: DependencyCandidate, path: string[]) => {
+    state.set(node.name, 'visiting');
+    for (const dep of node.dependencies) {
+      requiredBy.set(dep.name, [...(requiredBy.get(dep.name) ?? []), node.name]);
+
+      const seen = state.get(dep.name);
+      if (seen === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(dep.name)), dep.name];
+        conflicts.push({
+          name: dep.name,
+          reason: `Dependency cycle: ${cycle.join(' -> ')}`,
+          requirements: [{ requiredBy: node.name, range: dep.range }],
+        });
+        continue;
+      }
+      if (seen === 'done') continue;
+
+      const installedDep = installed.get(dep.name);
+      if (installedDep) {
+        state.set(dep.name, 'done');
+        steps.push({ ...installedDep, action: 'installed', requiredBy: [] });
+        continue;
+      }
+
+      const next = selected.get(dep.name);
+      if (!next) {
+        if (!dep.optional) missing.add(dep.name);
+        continue;
+      }
+      visit(next, [...path, dep.name]);
+    }
+    state.set(node.name, 'done');
+    steps.push({ ...node, action: 'install', requiredBy: [] });
+  };
+  visit(root, [root.name]);
+
+  const inGraph = new Set(steps.map(s => s.name));
+  const rangesOn = (name: string) =>
+    [...(requirements.get(name) ?? new Map<string, PluginRequirement>())]
+      .filter(([by]) => inGraph.has(by) || installed.has(by))
+      .map(([by, r]) => ({ requiredBy: by, range: r.range }));
+
+  for (const step of steps) {
+    step.requiredBy = requiredBy.get(step.name) ?? [];
+    const ranges = rangesOn(step.name);
+    const unmet = ranges.filter(r => !satisfiesRange(step.version, r.range));
+    if (unmet.length > 0) {
+      conflicts.push({
+        name: step.name,
+        reason: step.action === 'installed'
+          ? `Installed ${step.name}@${step.version} does not satisfy ${describeRequirements(unmet)}; upgrade it first`
+          : `${step.name}@${step.version} does not satisfy ${describeRequirements(unmet)}`,
+        requirements: ranges,
+      });
+    }
+  }
+
+  for (const name of missing) {
+    const ranges = rangesOn(name);
+    conflicts.push({
+      name,
+      reason: (await versionsOf(name)).length === 0
+        ? `${name} is required by ${ranges.map(r => r.requiredBy).join(', ')} but is not published`
+        : `No published version of ${name} satisfies ${describeRequirements(ranges)}`,
+      requirements: ranges,
+    });
+  }
+
+  return { steps, conflicts };
+}
+
+/**
+ * Installed plugins that depend on `name`, directly or transitively, in the
+ * order they can be uninstalled (each before anything it depends on).
+ * Optional dependencies do not count.
+ */
+export function findDependents(
+  installed: DependencyCandidate[],
+  name: string
+): DependencyCandidate[] {
+  const ordered: DependencyCandidate[] = [];
+  const seen = new Set<string>([name]);
+
+  const visit = (target: string) => {
+    for (const plugin of installed) {
+      if (seen.has(plugin.name)) continue;
+      if (!plugin.dependencies.some(d => d.name === target && !d.optional)) continue;
+      seen.add(plugin.name);
+      visit(plugin.name);
+      ordered.push(plugin);
+    }
+  };
+  visit(name);
+
+  return ordered;
+}
+
+/**
+ * Dependency source backed by the plugin registry tables
+ */
+export function createDependencySource(
+  client: Pick<typeof db, 'pluginPackage' | 'pluginInstallation'> = db
+): DependencySource {
+  return {
+    async getVersions(name: string) {
+      const pkg = await client.pluginPackage.findUnique({
+        where: { name },
+        include: { versions: { where: { deprecated: false } } },
+      });
+      if (!pkg) {
+        return [];
+      }
+      return pkg.versions
+        .filter(v => semver.valid(v.version))
+        .map(v => toDependencyCandidate(pkg, v));
+    },
+
+    async getInstalled() {
+      const installations = await client.pluginInstallation.findMany({
+        where: { status: { in: INSTALLED_STATUSES } },
+        include: { package: true, version: true },
+      });
+      return installations.map(i => toDependencyCandidate(i.package, i.version));
+    },
+  };
+}
+
+/**
+ * Check whether a version could be installed alongside what is installed now,
+ * across its whole dependency graph
+ */
+export async function checkDependencyConflicts(
+  packageId: string,
+  versionId: string
+): Promise<DependencyConflict[]> {
+  const version = await db.pluginVersion.findUnique({
+    where: { id: versionId },
+    include: { package: true },
+  });
+
+  if (!version || version.packageId !== packageId) {
+    return [{ name: packageId, reason: 'Package or version not found', requirements: [] }];
+  }
+
+  const plan = await resolveDependencyGraph(
+    toDependencyCandidate(version.package, version),
+    createDependencySource()
+  );
+  return plan.conflicts;
+}
+
 /**
  * Create version manager service instance
  */
@@ -228,6 +531,9 @@ export function createVersionManager() {
     getVersionHistory,
     getLatestVersion,
     matchVersionRange,
+    resolveDependencyGraph,
+    findDependents,
+    checkDependencyConflicts,
 
     /**
      * Deprecate a version with optional message
@@ -128,6 +128,11 @@ export function createMockSecretVaultService() {
     listSecrets: vi.fn().mockResolvedValue([]),
     deleteSecret: vi.fn().mockResolvedValue(true),
     rotateSecret: vi.fn().mockResolvedValue({}),
+    listSecretVersions: vi.fn().mockResolvedValue([]),
+    setRotationSchedule: vi.fn().mockResolvedValue({}),
+    getDueRotations: vi.fn().mockResolvedValue([]),
+    getAccessLog: vi.fn().mockResolvedValue([]),
+    rewrapSecrets: vi.fn().mockResolvedValue({ rewrapped: 0, unreadable: [] }),
     getAllKeyMappings: vi.fn().mockResolvedValue([]),
     getPluginKeyMappings: vi.fn().mockResolvedValue([]),
     createKeyMapping: vi.fn().mockResolvedValue({}),
@@ -148,6 +153,7 @@ export function createMockRbacService() {
     getEffectivePermissions: vi.fn().mockResolvedValue([]),
     getAllUsersWithRoles: vi.fn().mockResolvedValue([]),
     hasRole: vi.fn().mockResolvedValue(false),
+    getUserRoles: vi.fn().mockResolvedValue([]),
   };
 }
 
@@ -187,6 +193,16 @@ export function createMockDeploymentService() {
   };
 }
 
+export function createMockAlertEngine() {
+  return {
+    getAlert: vi.fn().mockResolvedValue({ id: 'alert-1', status: 'firing', createdBy: 'user-1' }),
+    getOpenAlerts: vi.fn().mockResolvedValue([]),
+    acknowledgeAlert: vi.fn().mockResolvedValue({ id: 'alert-1', status: 'acknowledged' }),
+    resolveAlert: vi.fn().mockResolvedValue({ id: 'alert-1', status: 'resolved' }),
+    previewAlert: vi.fn().mockResolvedValue({ condition: '', evaluations: 0, breaches: 0, notifications: 0, incidents: [], series: [] }),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Express app builder
 // ---------------------------------------------------------------------------
@@ -0,0 +1,207 @@
+/**
+ * Alert Routes - Contract Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createAlertRoutes } from '../../routes/alerts';
+import { AlertStateError, AlertConditionError } from '../../services/deploymentTypes';
+import { createTestApp, createMockAlertEngine, createMockLifecycleService, createMockRbacService } from '../helpers';
+
+describe('Alert Routes', () => {
+  let app: ReturnType<typeof createTestApp>;
+  let alertEngine: ReturnType<typeof createMockAlertEngine>;
+  let lifecycleService: ReturnType<typeof createMockLifecycleService>;
+  let rbacService: ReturnType<typeof createMockRbacService>;
+
+  beforeEach(() => {
+    alertEngine = createMockAlertEngine();
+    lifecycleService = createMockLifecycleService();
+    rbacService = createMockRbacService();
+
+    app = createTestApp();
+    const router = createAlertRoutes({
+      alertEngine,
+      lifecycleService,
+      rbacService,
+      getUserIdFromRequest: async (req) => (req.headers['x-user-id'] as string) || null,
+    });
+    app.use('/api/v1', router);
+  });
+
+  describe('GET /api/v1/alerts/open', () => {
+    it('returns 401 without a user', async () => {
+      const res = await request(app).get('/api/v1/alerts/open');
+      expect(res.status).toBe(401);
+      expect(alertEngine.getOpenAlerts).not.toHaveBeenCalled();
+    });
+
+    it('passes the deployment filter', async () => {
+      alertEngine.getOpenAlerts.mockResolvedValue([{ id: 'alert-1', createdBy: 'user-1' }]);
+      const res = await request(app).get('/api/v1/alerts/open?deploymentId=dep-1').set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual([{ id: 'alert-1', createdBy: 'user-1' }]);
+      expect(alertEngine.getOpenAlerts).toHaveBeenCalledWith('dep-1');
+    });
+
+    it('lists only the alerts addressed to a non-admin', async () => {
+      rbacService.getUserRoles.mockResolvedValue([{ role: { name: 'deployment:operator' } }]);
+      alertEngine.getOpenAlerts.mockResolvedValue([
+        { id: 'mine', createdBy: 'user-1' },
+        { id: 'by-user', createdBy: 'user-2', channels: [{ type: 'in_app', config: { userIds: ['user-1'] } }] },
+        {
+          id: 'by-role',
+          createdBy: 'user-2',
+          escalationPolicy: { steps: [{ afterSeconds: 300, channels: [{ type: 'in_app', config: { roles: ['deployment:operator'] } }] }] },
+        },
+        { id: 'other', createdBy: 'user-2', channels: [{ type: 'email', config: { recipients: ['user-1@example.com'] } }] },
+      ]);
+      const res = await request(app).get('/api/v1/alerts/open').set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(res.body.map((a: { id: string }) => a.id)).toEqual(['mine', 'by-user', 'by-role']);
+      expect(rbacService.getUserRoles).toHaveBeenCalledWith('user-1');
+    });
+
+    it('lists every open alert for a system admin', async () => {
+      rbacService.getUserRoles.mockResolvedValue([{ role: { name: 'system:admin' } }]);
+      alertEngine.getOpenAlerts.mockResolvedValue([{ id: 'alert-1', createdBy: 'user-2' }]);
+      const res = await request(app).get('/api/v1/alerts/open').set('x-user-id', 'user-1');
+      expect(res.body).toEqual([{ id: 'alert-1', createdBy: 'user-2' }]);
+    });
+
+    it('leaves out channel and escalation configs', async () => {
+      rbacService.getUserRoles.mockResolvedValue([{ role: { name: 'system:admin' } }]);
+      alertEngine.getOpenAlerts.mockResolvedValue([
+        {
+          id: 'alert-1',
+          status: 'firing',
+          channels: [{ type: 'pagerduty', config: { routingKey: 'pd-key' } }],
+          escalationPolicy: { steps: [{ afterSeconds: 300, channels: [{ type: 'slack', config: { url: 'https://hooks.test' } }] }] },
+        },
+      ]);
+      const res = await request(app).get('/api/v1/alerts/open').set('x-user-id', 'user-1');
+      expect(res.body).toEqual([{ id: 'alert-1', status: 'firing' }]);
+    });
+  });
+
+  describe('POST /api/v1/alerts/preview', () => {
+    const condition = {
+      expression: { type: 'anomaly', metric: 'error_rate', stdDevs: 3 },
+      duration: 300,
+    };
+
+    it('returns 400 without a condition', async () => {
+      const res = await request(app)
+        .post('/api/v1/alerts/preview')
+        .set('x-user-id', 'user-1')
+        .send({ deploymentId: 'dep-1' });
+      expect(res.status).toBe(400);
+      expect(alertEngine.previewAlert).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for an invalid condition', async () => {
+      alertEngine.previewAlert.mockRejectedValue(new AlertConditionError('Anomaly stdDevs must be a positive number'));
+      const res = await request(app)
+        .post('/api/v1/alerts/preview')
+        .set('x-user-id', 'user-1')
+        .send({ deploymentId: 'dep-1', condition });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/stdDevs/);
+    });
+
+    it('passes the condition and range to the engine', async () => {
+      const res = await request(app)
+        .post('/api/v1/alerts/preview')
+        .set('x-user-id', 'user-1')
+        .send({ deploymentId: 'dep-1', condition, start: '2026-10-12T00:00:00Z', end: '2026-10-19T00:00:00Z' });
+      expect(res.status).toBe(200);
+      expect(alertEngine.previewAlert).toHaveBeenCalledWith({
+        deploymentId: 'dep-1',
+        condition,
+        cooldownSeconds: undefined,
+        start: new Date('2026-10-12T00:00:00Z'),
+        end: new Date('2026-10-19T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('POST /api/v1/alerts/:id/acknowledge', () => {
+    it('returns 401 without a user', async () => {
+      const res = await request(app).post('/api/v1/alerts/alert-1/acknowledge');
+      expect(res.status).toBe(401);
+    });
+
+    it('returns 404 when alert not found', async () => {
+      alertEngine.getAlert.mockResolvedValue(null);
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/acknowledge')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(404);
+      expect(alertEngine.acknowledgeAlert).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when the alert is not addressed to the user', async () => {
+      alertEngine.getAlert.mockResolvedValue({ id: 'alert-1', status: 'firing', createdBy: 'user-2' });
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/acknowledge')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(403);
+      expect(alertEngine.acknowledgeAlert).not.toHaveBeenCalled();
+      expect(lifecycleService.audit).not.toHaveBeenCalled();
+    });
+
+    it('lets a system admin acknowledge any alert', async () => {
+      rbacService.getUserRoles.mockResolvedValue([{ role: { name: 'system:admin' } }]);
+      alertEngine.getAlert.mockResolvedValue({ id: 'alert-1', status: 'firing', createdBy: 'user-2' });
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/acknowledge')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(alertEngine.acknowledgeAlert).toHaveBeenCalledWith('alert-1', 'user-1');
+    });
+
+    it('returns 409 when the alert is not firing', async () => {
+      alertEngine.acknowledgeAlert.mockRejectedValue(new AlertStateError('alert-1', 'resolved', 'acknowledge'));
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/acknowledge')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(409);
+      expect(res.body.error).toMatch(/while it is resolved/);
+    });
+
+    it('acknowledges and audits', async () => {
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/acknowledge')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(alertEngine.acknowledgeAlert).toHaveBeenCalledWith('alert-1', 'user-1');
+      expect(lifecycleService.audit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'alert.acknowledge', resourceId: 'alert-1', userId: 'user-1' })
+      );
+    });
+  });
+
+  describe('POST /api/v1/alerts/:id/resolve', () => {
+    it('returns 403 when the alert is not addressed to the user', async () => {
+      alertEngine.getAlert.mockResolvedValue({ id: 'alert-1', status: 'firing', createdBy: 'user-2' });
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/resolve')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(403);
+      expect(alertEngine.resolveAlert).not.toHaveBeenCalled();
+    });
+
+    it('resolves and audits', async () => {
+      alertEngine.resolveAlert.mockResolvedValue({ id: 'alert-1', status: 'resolved', channels: [{ type: 'email' }] });
+      const res = await request(app)
+        .post('/api/v1/alerts/alert-1/resolve')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe('resolved');
+      expect(res.body).not.toHaveProperty('channels');
+      expect(lifecycleService.audit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'alert.resolve', resourceId: 'alert-1' })
+      );
+    });
+  });
+});
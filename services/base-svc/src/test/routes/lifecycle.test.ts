@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import { createLifecycleRoutes } from '../../routes/lifecycle';
+import { PluginDependencyError } from '../../services/pluginDependencyTypes';
 import { createTestApp, createMockDb, createMockLifecycleService, createMockSecretVaultService } from '../helpers';
 
 describe('Lifecycle Routes', () => {
@@ -164,6 +165,16 @@ describe('Lifecycle Routes', () => {
         .send({ packageId: 'pkg-1', versionId: 'v-1' });
       expect(res.status).toBe(200);
     });
+
+    it('returns 409 with the conflicts when dependencies cannot be resolved', async () => {
+      const conflicts = [{ name: 'dep', reason: 'dep is required by p but is not published', requirements: [] }];
+      lifecycleService.installPlugin.mockRejectedValue(new PluginDependencyError('Cannot install p@1.0.0', conflicts));
+      const res = await request(app)
+        .post('/api/v1/lifecycle/install')
+        .send({ packageId: 'pkg-1', versionId: 'v-1' });
+      expect(res.status).toBe(409);
+      expect(res.body.conflicts).toEqual(conflicts);
+    });
   });
 
   describe('POST /api/v1/lifecycle/uninstall', () => {
@@ -171,6 +182,24 @@ describe('Lifecycle Routes', () => {
       const res = await request(app).post('/api/v1/lifecycle/uninstall').send({});
       expect(res.status).toBe(400);
     });
+
+    it('returns 409 listing dependents', async () => {
+      lifecycleService.uninstallPlugin.mockRejectedValue(
+        new PluginDependencyError('dep is required by p', [], ['p'])
+      );
+      const res = await request(app).post('/api/v1/lifecycle/uninstall').send({ packageId: 'pkg-1' });
+      expect(res.status).toBe(409);
+      expect(res.body.dependents).toEqual(['p']);
+    });
+
+    it('passes cascade through', async () => {
+      lifecycleService.uninstallPlugin.mockResolvedValue({ success: true, cascaded: ['p'] });
+      const res = await request(app)
+        .post('/api/v1/lifecycle/uninstall')
+        .send({ packageId: 'pkg-1', userId: 'u-1', cascade: true });
+      expect(res.status).toBe(200);
+      expect(lifecycleService.uninstallPlugin).toHaveBeenCalledWith('pkg-1', 'u-1', { cascade: true });
+    });
   });
 
   describe('POST /api/v1/lifecycle/upgrade', () => {
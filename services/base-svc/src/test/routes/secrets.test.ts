@@ -104,6 +104,121 @@ describe('Secrets Routes', () => {
         expect.objectContaining({ action: 'secret.rotate' })
       );
     });
+
+    it('passes a grace window through', async () => {
+      secretVaultService.rotateSecret.mockResolvedValue({ key: 'k', currentVersion: 2 });
+      const res = await request(app)
+        .post('/api/v1/secrets/k/rotate')
+        .set('x-user-id', 'user-1')
+        .send({ value: 'new-val', graceSeconds: 3600 });
+      expect(res.status).toBe(200);
+      expect(secretVaultService.rotateSecret).toHaveBeenCalledWith('k', 'new-val', 'user-1', { graceSeconds: 3600 });
+    });
+
+    it('returns 400 for an invalid grace window', async () => {
+      const res = await request(app)
+        .post('/api/v1/secrets/k/rotate')
+        .send({ value: 'new-val', graceSeconds: -1 });
+      expect(res.status).toBe(400);
+      expect(secretVaultService.rotateSecret).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/secrets/:key/versions', () => {
+    it('returns 404 when secret not found', async () => {
+      secretVaultService.listSecretVersions.mockResolvedValue(null);
+      const res = await request(app).get('/api/v1/secrets/k/versions');
+      expect(res.status).toBe(404);
+    });
+
+    it('lists versions', async () => {
+      secretVaultService.listSecretVersions.mockResolvedValue([{ version: 2, current: true }]);
+      const res = await request(app).get('/api/v1/secrets/k/versions');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual([{ version: 2, current: true }]);
+    });
+  });
+
+  describe('PUT /api/v1/secrets/:key/rotation-schedule', () => {
+    it('returns 400 for an invalid interval', async () => {
+      const res = await request(app)
+        .put('/api/v1/secrets/k/rotation-schedule')
+        .send({ intervalDays: 0 });
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 404 when secret not found', async () => {
+      secretVaultService.setRotationSchedule.mockResolvedValue(null);
+      const res = await request(app)
+        .put('/api/v1/secrets/k/rotation-schedule')
+        .send({ intervalDays: 30 });
+      expect(res.status).toBe(404);
+    });
+
+    it('sets the schedule and audits', async () => {
+      secretVaultService.setRotationSchedule.mockResolvedValue({ key: 'k', rotationIntervalDays: 30 });
+      const res = await request(app)
+        .put('/api/v1/secrets/k/rotation-schedule')
+        .set('x-user-id', 'user-1')
+        .send({ intervalDays: 30, reminderDays: 3 });
+      expect(res.status).toBe(200);
+      expect(secretVaultService.setRotationSchedule).toHaveBeenCalledWith('k', {
+        intervalDays: 30,
+        reminderDays: 3,
+        graceSeconds: undefined,
+      });
+      expect(lifecycleService.audit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'secret.rotation_schedule', resourceId: 'k' })
+      );
+    });
+
+    it('clears the schedule with a null interval', async () => {
+      secretVaultService.setRotationSchedule.mockResolvedValue({ key: 'k', rotationIntervalDays: null });
+      const res = await request(app)
+        .put('/api/v1/secrets/k/rotation-schedule')
+        .send({ intervalDays: null });
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('GET /api/v1/secrets/rotations/due', () => {
+    it('lists due rotations', async () => {
+      secretVaultService.getDueRotations.mockResolvedValue([{ key: 'k', overdue: true }]);
+      const res = await request(app).get('/api/v1/secrets/rotations/due');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual([{ key: 'k', overdue: true }]);
+    });
+  });
+
+  describe('GET /api/v1/secrets/:key/access-log', () => {
+    it('returns 400 for an invalid since', async () => {
+      const res = await request(app).get('/api/v1/secrets/k/access-log?since=yesterday');
+      expect(res.status).toBe(400);
+    });
+
+    it('passes filters through', async () => {
+      const res = await request(app).get('/api/v1/secrets/k/access-log?limit=5&accessor=plugin:my-wallet');
+      expect(res.status).toBe(200);
+      expect(secretVaultService.getAccessLog).toHaveBeenCalledWith('k', {
+        limit: 5,
+        since: undefined,
+        accessor: 'plugin:my-wallet',
+      });
+    });
+  });
+
+  describe('POST /api/v1/secrets/rewrap', () => {
+    it('rewraps and audits a failure when values are unreadable', async () => {
+      secretVaultService.rewrapSecrets.mockResolvedValue({ rewrapped: 3, unreadable: ['legacy'] });
+      const res = await request(app)
+        .post('/api/v1/secrets/rewrap')
+        .set('x-user-id', 'user-1');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ rewrapped: 3, unreadable: ['legacy'] });
+      expect(lifecycleService.audit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'secret.rewrap', status: 'failure' })
+      );
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -0,0 +1,192 @@
+/**
+ * Deposit Forecast Tests
+ * Burn rate, per-pipeline attribution, runway and alerts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DepositForecaster, sampleFromSenderInfo, type DepositSample, type PipelineUsageTotals } from '../depositForecast.js';
+
+const HOUR = 3600_000;
+const t0 = Date.parse('2026-10-19T00:00:00Z');
+
+function usage(pipelines: Record<string, [requests: number, cost: string]>, since = 'boot-1'): PipelineUsageTotals {
+  return {
+    since,
+    pipelines: Object.entries(pipelines).map(([pipeline, [requests, cost]]) => ({ pipeline, requests, cost })),
+  };
+}
+
+function sample(hours: number, deposit: bigint, reserve = 0n, totals: PipelineUsageTotals | null = null): DepositSample {
+  return { at: t0 + hours * HOUR, deposit, reserve, usage: totals };
+}
+
+describe('DepositForecaster', () => {
+  let forecaster: DepositForecaster;
+
+  beforeEach(() => {
+    forecaster = new DepositForecaster(24 * HOUR, { minDepositWei: null, minRunwayHours: null });
+  });
+
+  describe('burn rate', () => {
+    it('is zero with no runway until there are two samples', () => {
+      forecaster.record(sample(0, 1000n));
+
+      const forecast = forecaster.forecast();
+      expect(forecast.burnPerHour).toBe('0');
+      expect(forecast.hoursRemaining).toBeNull();
+      expect(forecast.runsOutAt).toBeNull();
+    });
+
+    it('counts deposit and reserve drops over the window', () => {
+      forecaster.record(sample(0, 1000n, 500n));
+      forecaster.record(sample(1, 900n, 500n));
+      forecaster.record(sample(2, 800n, 400n));
+
+      const forecast = forecaster.forecast();
+      expect(forecast.burnPerHour).toBe('150');
+      expect(forecast.burnPerDay).toBe('3600');
+      expect(forecast.window.samples).toBe(3);
+    });
+
+    it('does not treat funding the deposit as negative spend', () => {
+      forecaster.record(sample(0, 1000n));
+      forecaster.record(sample(1, 900n));
+      forecaster.record(sample(2, 1500n));
+      forecaster.record(sample(3, 1400n));
+
+      // 200 wei burned over 3h, rounded down
+      expect(forecaster.forecast().burnPerHour).toBe('66');
+    });
+
+    it('skips the drop after a withdrawal', () => {
+      forecaster.record(sample(0, 1000n));
+      forecaster.record(sample(1, 900n));
+      forecaster.markWithdrawal();
+      forecaster.record(sample(2, 400n));
+
+      expect(forecaster.forecast().burnPerHour).toBe('50');
+    });
+
+    it('drops samples that fall out of the window', () => {
+      const short = new DepositForecaster(2 * HOUR, { minDepositWei: null, minRunwayHours: null });
+      short.record(sample(0, 10_000n));
+      short.record(sample(1, 1000n));
+      short.record(sample(2, 900n));
+      short.record(sample(3, 800n));
+
+      const forecast = short.forecast();
+      expect(forecast.window.from).toBe(new Date(t0 + HOUR).toISOString());
+      expect(forecast.burnPerHour).toBe('100');
+    });
+  });
+
+  describe('runway', () => {
+    it('projects when the deposit runs out from the latest sample', () => {
+      forecaster.record(sample(0, 1000n));
+      forecaster.record(sample(1, 800n));
+
+      const forecast = forecaster.forecast();
+      expect(forecast.hoursRemaining).toBe(4);
+      expect(forecast.runsOutAt).toBe(new Date(t0 + 5 * HOUR).toISOString());
+    });
+
+    it('keeps fractional hours', () => {
+      forecaster.record(sample(0, 1000n));
+      forecaster.record(sample(1, 700n));
+
+      expect(forecaster.forecast().hoursRemaining).toBe(2.333);
+    });
+  });
+
+  describe('attribution', () => {
+    it('splits the burn by the cost each pipeline ran up', () => {
+      forecaster.record(sample(0, 10_000n, 0n, usage({ llm: [10, '1000'], 'text-to-image': [5, '500'] })));
+      forecaster.record(sample(1, 9600n, 0n, usage({ llm: [40, '4000'], 'text-to-image': [6, '1500'] })));
+
+      const { pipelines } = forecaster.forecast();
+      expect(pipelines).toEqual([
+        { pipeline: 'llm', requests: 30, cost: '3000', share: 0.75, burnPerHour: '300' },
+        { pipeline: 'text-to-image', requests: 1, cost: '1000', share: 0.25, burnPerHour: '100' },
+      ]);
+    });
+
+    it('falls back to request counts when nothing was priced', () => {
+      forecaster.record(sample(0, 1000n, 0n, usage({ llm: [0, '0'], 'image-to-video': [0, '0'] })));
+      forecaster.record(sample(1, 900n, 0n, usage({ llm: [1, '0'], 'image-to-video': [3, '0'] })));
+
+      const { pipelines } = forecaster.forecast();
+      expect(pipelines.map((p) => [p.pipeline, p.share, p.burnPerHour])).toEqual([
+        ['image-to-video', 0.75, '75'],
+        ['llm', 0.25, '25'],
+      ]);
+    });
+
+    it('includes pipelines that first appear in the window', () => {
+      forecaster.record(sample(0, 1000n, 0n, usage({ llm: [5, '500'] })));
+      forecaster.record(sample(1, 900n, 0n, usage({ llm: [5, '500'], upscale: [2, '200'] })));
+
+      expect(forecaster.forecast().pipelines).toEqual([
+        { pipeline: 'upscale', requests: 2, cost: '200', share: 1, burnPerHour: '100' },
+      ]);
+    });
+
+    it('does not attribute an interval where the gateway counters reset', () => {
+      forecaster.record(sample(0, 1000n, 0n, usage({ llm: [50, '5000'] })));
+      forecaster.record(sample(1, 900n, 0n, usage({ llm: [2, '200'] }, 'boot-2')));
+      forecaster.record(sample(2, 800n, 0n, usage({ llm: [4, '400'] }, 'boot-2')));
+
+      expect(forecaster.forecast().pipelines).toEqual([
+        { pipeline: 'llm', requests: 2, cost: '200', share: 1, burnPerHour: '100' },
+      ]);
+    });
+
+    it('skips intervals without usage totals', () => {
+      forecaster.record(sample(0, 1000n, 0n, usage({ llm: [1, '100'] })));
+      forecaster.record(sample(1, 900n));
+
+      expect(forecaster.forecast().pipelines).toEqual([]);
+    });
+  });
+
+  describe('alerts', () => {
+    it('reports an empty deposit as critical', () => {
+      forecaster.setAlertConfig({ minDepositWei: '500' });
+      forecaster.record(sample(0, 0n, 100n));
+
+      expect(forecaster.forecast().alerts).toEqual([expect.objectContaining({ level: 'critical', code: 'DEPOSIT_EXHAUSTED' })]);
+    });
+
+    it('warns below the minimum deposit', () => {
+      forecaster.setAlertConfig({ minDepositWei: '500' });
+      forecaster.record(sample(0, 400n));
+
+      expect(forecaster.forecast().alerts).toEqual([expect.objectContaining({ level: 'warning', code: 'LOW_DEPOSIT' })]);
+    });
+
+    it('escalates low runway to critical under a quarter of the threshold', () => {
+      forecaster.setAlertConfig({ minRunwayHours: 10 });
+      forecaster.record(sample(0, 1000n));
+      forecaster.record(sample(1, 800n));
+      expect(forecaster.forecast().alerts).toEqual([expect.objectContaining({ level: 'warning', code: 'LOW_RUNWAY' })]);
+
+      forecaster.record(sample(2, 200n));
+      // 400 wei/h leaves half an hour of runway
+      expect(forecaster.forecast().alerts).toEqual([expect.objectContaining({ level: 'critical', code: 'LOW_RUNWAY' })]);
+    });
+
+    it('rejects invalid thresholds', () => {
+      expect(() => forecaster.setAlertConfig({ minDepositWei: '1.5' })).toThrow('minDepositWei');
+      expect(() => forecaster.setAlertConfig({ minRunwayHours: 0 })).toThrow('minRunwayHours');
+      expect(forecaster.setAlertConfig({ minDepositWei: null, minRunwayHours: 12 })).toEqual({ minDepositWei: null, minRunwayHours: 12 });
+    });
+  });
+});
+
+describe('sampleFromSenderInfo', () => {
+  it('reads deposit and reserve as wei, treating malformed values as zero', () => {
+    const info = { deposit: '1000', withdrawRound: '0', reserve: { fundsRemaining: 'n/a', claimedInCurrentRound: '0' } };
+    const result = sampleFromSenderInfo(info, null, t0);
+
+    expect(result).toEqual({ at: t0, deposit: 1000n, reserve: 0n, usage: null });
+  });
+});
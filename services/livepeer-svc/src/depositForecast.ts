@@ -0,0 +1,241 @@
+/**
+ * Deposit Forecast
+ *
+ * Tracks how the gateway's ticket deposit is consumed. A poller records the
+ * sender's deposit and reserve, together with the pipeline gateway's
+ * per-pipeline usage totals, and the forecast derives:
+ *
+ * - the burn rate over the trailing window (only decreases count, so funding
+ *   the deposit does not look like negative spend)
+ * - the share of that burn per pipeline, split by the cost each pipeline ran
+ *   up in the same window (or by request count when nothing was priced)
+ * - when the deposit runs out at that rate, and whether it is low enough to
+ *   alert on
+ *
+ * Samples are kept in memory for the length of the window.
+ */
+
+import type { SenderInfo } from '@naap/livepeer-node-client';
+
+export interface PipelineUsageTotals {
+  /** Start of the gateway's counters; totals with different `since` are not comparable. */
+  since: string;
+  pipelines: Array<{ pipeline: string; requests: number; cost: string }>;
+}
+
+export interface DepositSample {
+  at: number;
+  deposit: bigint;
+  reserve: bigint;
+  usage: PipelineUsageTotals | null;
+  /** Set after a withdrawal, so the drop to this sample is not counted as spend. */
+  discontinuity?: boolean;
+}
+
+export interface DepositAlertConfig {
+  /** Alert when the deposit falls below this many wei. */
+  minDepositWei: string | null;
+  /** Alert when the deposit is projected to run out within this many hours. */
+  minRunwayHours: number | null;
+}
+
+export interface DepositAlert {
+  level: 'warning' | 'critical';
+  code: 'LOW_DEPOSIT' | 'LOW_RUNWAY' | 'DEPOSIT_EXHAUSTED';
+  message: string;
+}
+
+export interface PipelineBurn {
+  pipeline: string;
+  requests: number;
+  /** Gateway-reported cost in the window, in wei. */
+  cost: string;
+  /** Fraction of the window's burn attributed to the pipeline. */
+  share: number;
+  burnPerHour: string;
+}
+
+export interface DepositForecast {
+  sampledAt: string | null;
+  deposit: string;
+  reserve: string;
+  window: { from: string | null; to: string | null; samples: number };
+  burnPerHour: string;
+  burnPerDay: string;
+  pipelines: PipelineBurn[];
+  /** Null while nothing is being burned (or there is not enough history). */
+  runsOutAt: string | null;
+  hoursRemaining: number | null;
+  alerts: DepositAlert[];
+  alertConfig: DepositAlertConfig;
+}
+
+const HOUR_MS = 3600_000;
+
+export function sampleFromSenderInfo(info: SenderInfo, usage: PipelineUsageTotals | null, at = Date.now()): DepositSample {
+  return {
+    at,
+    deposit: toWei(info.deposit),
+    reserve: toWei(info.reserve?.fundsRemaining),
+    usage,
+  };
+}
+
+function toWei(value: string | undefined): bigint {
+  return value && /^\d+$/.test(value) ? BigInt(value) : 0n;
+}
+
+/** Wei spent per hour, given `spent` over `ms`. */
+function perHour(spent: bigint, ms: number): bigint {
+  return ms > 0 ? (spent * BigInt(HOUR_MS)) / BigInt(Math.round(ms)) : 0n;
+}
+
+export class DepositForecaster {
+  private samples: DepositSample[] = [];
+  private pendingDiscontinuity = false;
+
+  constructor(
+    private windowMs: number,
+    private alertConfig: DepositAlertConfig
+  ) {}
+
+  record(sample: DepositSample): void {
+    if (this.pendingDiscontinuity) {
+      sample.discontinuity = true;
+      this.pendingDiscontinuity = false;
+    }
+    this.samples.push(sample);
+    const cutoff = sample.at - this.windowMs;
+    while (this.samples.length > 2 && this.samples[0].at < cutoff) this.samples.shift();
+  }
+
+  /** The next balance change is a withdrawal, not ticket spend. */
+  markWithdrawal(): void {
+    this.pendingDiscontinuity = true;
+  }
+
+  latest(): DepositSample | null {
+    return this.samples.at(-1) ?? null;
+  }
+
+  getAlertConfig(): DepositAlertConfig {
+    return { ...this.alertConfig };
+  }
+
+  setAlertConfig(update: Partial<DepositAlertConfig>): DepositAlertConfig {
+    if (update.minDepositWei !== undefined) {
+      if (update.minDepositWei !== null && !/^\d+$/.test(String(update.minDepositWei))) {
+        throw new Error('minDepositWei must be a whole number of wei, or null');
+      }
+      this.alertConfig.minDepositWei = update.minDepositWei === null ? null : String(update.minDepositWei);
+    }
+    if (update.minRunwayHours !== undefined) {
+      const hours = update.minRunwayHours;
+      if (hours !== null && (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0)) {
+        throw new Error('minRunwayHours must be a positive number, or null');
+      }
+      this.alertConfig.minRunwayHours = hours;
+    }
+    return this.getAlertConfig();
+  }
+
+  forecast(): DepositForecast {
+    const first = this.samples[0];
+    const last = this.samples.at(-1);
+
+    let burned = 0n;
+    const usage = new Map<string, { requests: number; cost: bigint }>();
+    for (let i = 1; i < this.samples.length; i++) {
+      const prev = this.samples[i - 1];
+      const cur = this.samples[i];
+      const drop = prev.deposit + prev.reserve - (cur.deposit + cur.reserve);
+      if (drop > 0n && !cur.discontinuity) burned += drop;
+      addUsageDelta(usage, prev.usage, cur.usage);
+    }
+
+    const elapsed = first && last ? last.at - first.at : 0;
+    const burnPerHour = perHour(burned, elapsed);
+    const pipelines = attribute(usage, burnPerHour);
+
+    const deposit = last?.deposit ?? 0n;
+    let hoursRemaining: number | null = null;
+    let runsOutAt: string | null = null;
+    if (last && burnPerHour > 0n) {
+      // Integer division in milli-hours keeps precision without floating wei
+      hoursRemaining = Number((deposit * 1000n) / burnPerHour) / 1000;
+      runsOutAt = new Date(last.at + hoursRemaining * HOUR_MS).toISOString();
+    }
+
+    return {
+      sampledAt: last ? new Date(last.at).toISOString() : null,
+      deposit: deposit.toString(),
+      reserve: (last?.reserve ?? 0n).toString(),
+      window: {
+        from: first ? new Date(first.at).toISOString() : null,
+        to: last ? new Date(last.at).toISOString() : null,
+        samples: this.samples.length,
+      },
+      burnPerHour: burnPerHour.toString(),
+      burnPerDay: (burnPerHour * 24n).toString(),
+      pipelines,
+      runsOutAt,
+      hoursRemaining,
+      alerts: last ? this.evaluateAlerts(deposit, hoursRemaining) : [],
+      alertConfig: this.getAlertConfig(),
+    };
+  }
+
+  private evaluateAlerts(deposit: bigint, hoursRemaining: number | null): DepositAlert[] {
+    const alerts: DepositAlert[] = [];
+    const { minDepositWei, minRunwayHours } = this.alertConfig;
+    if (deposit === 0n) {
+      alerts.push({ level: 'critical', code: 'DEPOSIT_EXHAUSTED', message: 'The gateway deposit is empty; tickets are paid from the reserve' });
+      return alerts;
+    }
+    if (minDepositWei !== null && deposit < BigInt(minDepositWei)) {
+      alerts.push({ level: 'warning', code: 'LOW_DEPOSIT', message: `Deposit ${deposit} wei is below ${minDepositWei} wei` });
+    }
+    if (minRunwayHours !== null && hoursRemaining !== null && hoursRemaining < minRunwayHours) {
+      alerts.push({
+        level: hoursRemaining < minRunwayHours / 4 ? 'critical' : 'warning',
+        code: 'LOW_RUNWAY',
+        message: `Deposit runs out in ${hoursRemaining.toFixed(1)}h at the current burn rate (threshold ${minRunwayHours}h)`,
+      });
+    }
+    return alerts;
+  }
+}
+
+function addUsageDelta(
+  into: Map<string, { requests: number; cost: bigint }>,
+  prev: PipelineUsageTotals | null,
+  cur: PipelineUsageTotals | null
+): void {
+  // A gateway restart resets its counters; that interval is not attributed
+  if (!prev || !cur || prev.since !== cur.since) return;
+  const before = new Map(prev.pipelines.map((p) => [p.pipeline, p]));
+  for (const p of cur.pipelines) {
+    const b = before.get(p.pipeline);
+    const requests = p.requests - (b?.requests ?? 0);
+    const cost = toWei(p.cost) - toWei(b?.cost);
+    if (requests <= 0 && cost <= 0n) continue;
+    const entry = into.get(p.pipeline) ?? { requests: 0, cost: 0n };
+    entry.requests += Math.max(requests, 0);
+    entry.cost += cost > 0n ? cost : 0n;
+    into.set(p.pipeline, entry);
+  }
+}
+
+function attribute(usage: Map<string, { requests: number; cost: bigint }>, burnPerHour: bigint): PipelineBurn[] {
+  const totalCost = [...usage.values()].reduce((sum, u) => sum + u.cost, 0n);
+  const totalRequests = [...usage.values()].reduce((sum, u) => sum + u.requests, 0);
+  const byCost = totalCost > 0n;
+
+  return [...usage.entries()]
+    .map(([pipeline, u]) => {
+      const share = byCost ? Number((u.cost * 1_000_000n) / totalCost) / 1_000_000 : totalRequests ? u.requests / totalRequests : 0;
+      const burn = byCost ? (burnPerHour * u.cost) / totalCost : (burnPerHour * BigInt(u.requests)) / BigInt(totalRequests || 1);
+      return { pipeline, requests: u.requests, cost: u.cost.toString(), share, burnPerHour: burn.toString() };
+    })
+    .sort((a, b) => b.share - a.share);
+}
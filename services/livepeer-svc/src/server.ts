@@ -7,6 +7,7 @@
  * - Adds NaaP auth layer (JWT validation)
  * - Caches expensive queries (orchestrators, protocol parameters)
  * - Provides aggregated data from multiple nodes
+ * - Forecasts when the gateway deposit runs out, with low-balance alerts
  * - Falls back to mock data when real nodes are unavailable (for development)
  */
 
@@ -15,6 +16,7 @@ import { LivepeerCliClient, LivepeerAIClient } from '@naap/livepeer-node-client'
 import type { Transcoder, ProtocolParameters, Delegator, SenderInfo } from '@naap/livepeer-node-client';
 import { cacheGetOrSet } from '@naap/cache';
 import type { CacheOptions } from '@naap/cache';
+import { DepositForecaster, sampleFromSenderInfo, type DepositAlert, type PipelineUsageTotals } from './depositForecast.js';
 
 const LIVEPEER_CLI_URL = process.env.LIVEPEER_CLI_URL || 'http://localhost:7935';
 const LIVEPEER_AI_URL = process.env.LIVEPEER_AI_URL || 'http://localhost:9935';
@@ -26,6 +28,19 @@ const USE_MOCK_FALLBACK = process.env.LIVEPEER_MOCK_FALLBACK !== 'false';
 
 const cacheOptions: CacheOptions = { ttl: CACHE_TTL / 1000, prefix: 'livepeer' };
 
+function envNumber(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Deposit forecast: the sender's deposit is polled, and the pipeline
+// gateway's usage totals split the burn by pipeline
+const DEPOSIT_POLL_INTERVAL = envNumber('DEPOSIT_POLL_INTERVAL_MS') ?? 60_000;
+const DEPOSIT_FORECAST_WINDOW_MS = (envNumber('DEPOSIT_FORECAST_WINDOW_HOURS') ?? 24) * 3600_000;
+const DEPOSIT_ALERT_WEBHOOK_URL = process.env.DEPOSIT_ALERT_WEBHOOK_URL;
+const PIPELINE_GATEWAY_URL = process.env.PIPELINE_GATEWAY_URL || 'http://localhost:4020';
+const PIPELINE_GATEWAY_TOKEN = process.env.PIPELINE_GATEWAY_TOKEN;
+
 // ─── Mock Data (for development when no go-livepeer node is running) ─────────
 
 const MOCK_ORCHESTRATORS: Transcoder[] = [
@@ -218,6 +233,74 @@ function recordMetric(latencyMs: number, isError: boolean): void {
   metrics.lastUpdated = new Date().toISOString();
 }
 
+// ─── Deposit Forecast ───────────────────────────────────────────────────────
+
+const depositForecaster = new DepositForecaster(DEPOSIT_FORECAST_WINDOW_MS, {
+  minDepositWei: /^\d+$/.test(process.env.DEPOSIT_ALERT_MIN_WEI ?? '') ? process.env.DEPOSIT_ALERT_MIN_WEI! : null,
+  minRunwayHours: envNumber('DEPOSIT_ALERT_MIN_RUNWAY_HOURS') ?? 72,
+});
+
+// Alert codes already notified; an alert is sent again only after it clears
+const activeDepositAlerts = new Set<DepositAlert['code']>();
+
+async function fetchPipelineUsage(): Promise<PipelineUsageTotals | null> {
+  try {
+    const res = await fetch(`${PIPELINE_GATEWAY_URL}/api/v1/usage/totals`, {
+      headers: PIPELINE_GATEWAY_TOKEN ? { Authorization: `Bearer ${PIPELINE_GATEWAY_TOKEN}` } : {},
+      signal: AbortSignal.timeout(5_000),
+    });
+    if (!res.ok) return null;
+    const body = (await res.json()) as { data?: PipelineUsageTotals };
+    return body.data ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function notifyDepositAlerts(alerts: DepositAlert[]): Promise<void> {
+  const fresh = alerts.filter((a) => !activeDepositAlerts.has(a.code));
+  for (const code of activeDepositAlerts) {
+    if (!alerts.some((a) => a.code === code)) activeDepositAlerts.delete(code);
+  }
+  if (fresh.length === 0) return;
+
+  for (const alert of fresh) {
+    activeDepositAlerts.add(alert.code);
+    console.warn(`[livepeer-svc] deposit alert (${alert.level}): ${alert.message}`);
+  }
+  if (!DEPOSIT_ALERT_WEBHOOK_URL) return;
+  try {
+    const forecast = depositForecaster.forecast();
+    await fetch(DEPOSIT_ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        service: 'livepeer-svc',
+        alerts: fresh,
+        deposit: forecast.deposit,
+        burnPerDay: forecast.burnPerDay,
+        runsOutAt: forecast.runsOutAt,
+      }),
+      signal: AbortSignal.timeout(10_000),
+    });
+  } catch (err) {
+    console.warn('[livepeer-svc] failed to deliver deposit alert:', err);
+  }
+}
+
+/** Record one deposit sample. False when the node could not be reached. */
+async function pollDeposit(): Promise<boolean> {
+  let info: SenderInfo;
+  try {
+    info = await getCliClient().getSenderInfo();
+  } catch {
+    return false;
+  }
+  depositForecaster.record(sampleFromSenderInfo(info, await fetchPipelineUsage()));
+  await notifyDepositAlerts(depositForecaster.forecast().alerts);
+  return true;
+}
+
 // ─── Server ─────────────────────────────────────────────────────────────────
 
 const { router, start } = createPluginServer({
@@ -418,12 +501,41 @@ router.post('/livepeer/gateway/withdraw', async (_req, res) => {
   try {
     const cliClient = getCliClient();
     const result = await cliClient.withdraw();
+    depositForecaster.markWithdrawal();
     res.json({ success: true, data: result });
   } catch (err) {
     res.status(500).json({ success: false, error: { code: 'TX_FAILED', message: String(err) } });
   }
 });
 
+// Deposit burn rate, per-pipeline breakdown and projected run-out time
+router.get('/livepeer/gateway/deposit-forecast', async (_req, res) => {
+  if (depositForecaster.latest() || (await pollDeposit())) {
+    res.json({ success: true, data: depositForecaster.forecast() });
+  } else if (USE_MOCK_FALLBACK) {
+    const mock = new DepositForecaster(DEPOSIT_FORECAST_WINDOW_MS, depositForecaster.getAlertConfig());
+    mock.record(sampleFromSenderInfo(MOCK_SENDER_INFO, null));
+    res.json({ success: true, data: mock.forecast(), mock: true });
+  } else {
+    res.status(503).json({ success: false, error: { code: 'NODE_UNAVAILABLE', message: 'Cannot reach go-livepeer node' } });
+  }
+});
+
+// Low-balance alert thresholds (in-memory; env vars set the defaults)
+router.get('/livepeer/gateway/deposit-alerts', async (_req, res) => {
+  res.json({ success: true, data: depositForecaster.getAlertConfig() });
+});
+
+router.put('/livepeer/gateway/deposit-alerts', async (req, res) => {
+  const { minDepositWei, minRunwayHours } = req.body || {};
+  try {
+    const config = depositForecaster.setAlertConfig({ minDepositWei, minRunwayHours });
+    res.json({ success: true, data: config });
+  } catch (err) {
+    res.status(400).json({ success: false, error: { code: 'BAD_REQUEST', message: err instanceof Error ? err.message : String(err) } });
+  }
+});
+
 // Protocol parameters (cached)
 router.get('/livepeer/protocol', async (_req, res) => {
   try {
@@ -572,7 +684,13 @@ router.get('/livepeer/metrics', async (_req, res) => {
 
 // ─── Start ──────────────────────────────────────────────────────────────────
 
-start().catch((err) => {
-  console.error('Failed to start livepeer-svc:', err);
-  process.exit(1);
-});
+start()
+  .then(() => {
+    // Background job: deposit sampling for the forecast
+    void pollDeposit();
+    setInterval(() => void pollDeposit(), DEPOSIT_POLL_INTERVAL);
+  })
+  .catch((err) => {
+    console.error('Failed to start livepeer-svc:', err);
+    process.exit(1);
+  });
@@ -2,118 +2,173 @@
  * Async Job Adapter (Phase 5b)
  *
  * Handles long-running pipelines like image-to-video.
- * Returns a requestId immediately, provides polling for results.
- * Pushes result via WebSocket when done (optional).
+ * Returns a requestId immediately; the job is persisted and run by the
+ * job queue (see ../jobs), so pending work survives a restart. Callers poll
+ * for the result or pass a callbackUrl to receive a signed webhook.
+ *
+ * Which pipelines run async is configurable (ASYNC_PIPELINES, or the
+ * `async` field of a pipeline's feature flag).
+ *
+ * Jobs submitted with a routing policy carry their ranked orchestrators;
+ * each retry moves on to the next one.
  */
 
 import type { LivepeerAIClient } from '@naap/livepeer-node-client';
-import type { IPipelineAdapter, PipelineDescriptor } from '@naap/livepeer-pipeline';
-import type { PipelineContext, PipelineResult } from './BatchAIAdapter.js';
-
-interface AsyncJob {
-  requestId: string;
-  pipeline: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-  result?: unknown;
-  error?: string;
-  submittedAt: number;
-  completedAt?: number;
+import type { IPipelineAdapter, PipelineDescriptor, ValidationResult } from '@naap/livepeer-pipeline';
+import { BatchAIAdapter, type PipelineContext, type PipelineResult } from './BatchAIAdapter.js';
+import {
+  JobQueue,
+  ownerKeyFor,
+  type JobQueueConfig,
+  type JobStore,
+  type PipelineJob,
+} from '../jobs/index.js';
+import { validatePipelineInput } from '../schemas/index.js';
+import { OrchestratorGateways } from '../routing/gateways.js';
+
+export interface AsyncJobAdapterConfig {
+  /** Pipelines that always run as queued jobs. */
+  pipelines: string[];
+  /** Attempts per job, including the first. */
+  maxAttempts: number;
 }
 
-const ASYNC_PIPELINES = new Set(['image-to-video']);
+const DEFAULT_CONFIG: AsyncJobAdapterConfig = {
+  pipelines: ['image-to-video'],
+  maxAttempts: 3,
+};
 
 export class AsyncJobAdapter implements IPipelineAdapter {
   readonly name = 'async-job';
   readonly type = 'batch' as const;
 
-  private jobs = new Map<string, AsyncJob>();
-
-  constructor(private aiClient: LivepeerAIClient) {}
+  private asyncPipelines: Set<string>;
+  private batch: BatchAIAdapter;
+  private queue: JobQueue | null = null;
+
+  constructor(
+    private aiClient: LivepeerAIClient,
+    private config: AsyncJobAdapterConfig = DEFAULT_CONFIG,
+    private gateways = new OrchestratorGateways()
+  ) {
+    this.asyncPipelines = new Set(config.pipelines);
+    this.batch = new BatchAIAdapter(aiClient, undefined, gateways);
+  }
 
   canHandle(pipeline: PipelineDescriptor): boolean {
-    return ASYNC_PIPELINES.has(pipeline.name);
+    return this.asyncPipelines.has(pipeline.name);
+  }
+
+  /** Check the request against the pipeline's input schema */
+  validate(input: unknown, pipeline: PipelineDescriptor): ValidationResult {
+    return validatePipelineInput(input, pipeline);
+  }
+
+  /** Attach the job store and start working the queue. */
+  start(store: JobStore, queueConfig: JobQueueConfig): void {
+    this.queue = new JobQueue(store, (job) => this.runJob(job), queueConfig);
+    this.queue.start();
+  }
+
+  stop(): void {
+    this.queue?.stop();
   }
 
   /** Submit an async job -- returns immediately with requestId */
   async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
-    const body = input as Record<string, unknown>;
+    const queue = this.requireQueue();
+    const body = { ...(input as Record<string, unknown>) };
     const pipelineName = (body.__pipeline as string) || 'image-to-video';
+    const callbackUrl = body.__callbackUrl as string | undefined;
+    const runAfter = body.__runAfter as Date | undefined;
     delete body.__pipeline;
-
-    const job: AsyncJob = {
+    delete body.__callbackUrl;
+    delete body.__runAfter;
+    // __orchestrators stays in the stored input for runJob
+    const model = (body.model_id as string) || 'default';
+
+    // Resubmitting with the same X-Request-Id returns the existing job
+    let job = await queue.get(ctx.requestId);
+    if (job && job.ownerKey !== ownerKeyFor(ctx.teamId, ctx.userId)) {
+      throw new Error(`Request id '${ctx.requestId}' is already in use`);
+    }
+    job ??= await queue.submit({
       requestId: ctx.requestId,
       pipeline: pipelineName,
-      status: 'pending',
-      submittedAt: ctx.startTime,
-    };
-
-    this.jobs.set(ctx.requestId, job);
-
-    // Start processing in the background
-    this.processJob(job, body).catch((err) => {
-      job.status = 'error';
-      job.error = err instanceof Error ? err.message : String(err);
-      job.completedAt = Date.now();
+      teamId: ctx.teamId,
+      userId: ctx.userId,
+      input: body,
+      model,
+      maxAttempts: this.config.maxAttempts,
+      callbackUrl,
+      runAfter,
     });
 
+    const held = job.status === 'pending' && job.attempts === 0 && job.runAfter.getTime() > Date.now();
+    const submitted = held
+      ? `Job queued until ${job.runAfter.toISOString()}.`
+      : 'Job submitted.';
     return {
       result: {
-        requestId: ctx.requestId,
-        status: 'pending',
-        message: 'Job submitted. Poll GET /pipelines/:pipeline/jobs/:requestId for status.',
+        requestId: job.requestId,
+        status: job.status,
+        ...(held ? { runAfter: job.runAfter.toISOString() } : {}),
+        message: job.callbackUrl
+          ? `${submitted} The result will be POSTed to callbackUrl when the job finishes.`
+          : `${submitted} Poll GET /pipelines/:pipeline/jobs/:requestId for status.`,
       },
-      model: (body.model_id as string) || 'default',
+      model,
       orchestrator: 'auto',
     };
   }
 
-  /** Get the status of an async job */
-  getJobStatus(requestId: string): AsyncJob | null {
-    return this.jobs.get(requestId) || null;
+  /** Get an async job by requestId */
+  getJob(requestId: string): Promise<PipelineJob | null> {
+    return this.requireQueue().get(requestId);
   }
 
-  /** List all jobs (optional: filter by status) */
-  listJobs(status?: AsyncJob['status']): AsyncJob[] {
-    const all = Array.from(this.jobs.values());
-    return status ? all.filter((j) => j.status === status) : all;
+  /** Cancel a pending or running job. Null when it does not exist or already finished. */
+  cancelJob(requestId: string): Promise<PipelineJob | null> {
+    return this.requireQueue().cancel(requestId);
   }
 
-  /** Clean up old completed/error jobs (called by background job) */
-  cleanupOldJobs(maxAgeMs: number = 3600_000): number {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [id, job] of this.jobs) {
-      if (job.completedAt && now - job.completedAt > maxAgeMs) {
-        this.jobs.delete(id);
-        cleaned++;
-      }
-    }
-    return cleaned;
+  /** Clean up old finished jobs (called by background job) */
+  cleanupOldJobs(maxAgeMs: number = 3600_000): Promise<number> {
+    return this.queue ? this.queue.prune(maxAgeMs) : Promise.resolve(0);
   }
 
-  private async processJob(job: AsyncJob, body: Record<string, unknown>): Promise<void> {
-    job.status = 'processing';
-
-    try {
-      let result: unknown;
-      switch (job.pipeline) {
-        case 'image-to-video':
-          result = await this.aiClient.imageToVideo(
-            body.image as File,
-            body as Parameters<LivepeerAIClient['imageToVideo']>[1]
-          );
-          break;
-        default:
-          result = await this.aiClient.processRequest(job.pipeline, body);
-      }
-
-      job.status = 'completed';
-      job.result = result;
-      job.completedAt = Date.now();
-    } catch (err) {
-      job.status = 'error';
-      job.error = err instanceof Error ? err.message : String(err);
-      job.completedAt = Date.now();
+  private requireQueue(): JobQueue {
+    if (!this.queue) throw new Error('Async job queue is not started');
+    return this.queue;
+  }
+
+  private async runJob(job: PipelineJob): Promise<unknown> {
+    const { __orchestrators, ...body } = job.input;
+    // `attempts` counts this run, so the first attempt gets the top-ranked orchestrator
+    const candidates = Array.isArray(__orchestrators) ? (__orchestrators as string[]) : [];
+    const orchestrator = candidates.length > 0 ? candidates[(job.attempts - 1) % candidates.length] : undefined;
+
+    if (job.pipeline === 'image-to-video') {
+      const client = this.gateways.clientFor(orchestrator, this.aiClient);
+      const result = await client.imageToVideo(
+        body.image as File,
+        body as Parameters<LivepeerAIClient['imageToVideo']>[1]
+      );
+      return result;
     }
+
+    const { result } = await this.batch.execute(
+      { ...body, __pipeline: job.pipeline },
+      { requestId: job.requestId, userId: job.userId ?? undefined, startTime: Date.now(), orchestrator }
+    );
+    return toStorable(result);
+  }
+}
+
+/** Binary results (text-to-speech) are stored base64-encoded. */
+function toStorable(result: unknown): unknown {
+  if (result instanceof ArrayBuffer) {
+    return { encoding: 'base64', data: Buffer.from(result).toString('base64') };
   }
+  return result;
 }
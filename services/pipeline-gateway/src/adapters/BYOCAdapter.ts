@@ -4,133 +4,213 @@
  * Allows plugins to register custom pipeline capabilities.
  * These are proxied through to registered endpoints, with
  * payment-aware proxying and auto-registration from plugin-server-sdk.
+ *
+ * Registrations live in the BYOC registry (see ../byoc): persisted, with
+ * several replica endpoints per capability. Requests are validated against
+ * the capability's published input schema, then sent to a healthy replica
+ * chosen by weight; connection failures and 502/503/504 responses fail
+ * over to the next replica.
  */
 
-import type { IPipelineAdapter, PipelineDescriptor } from '@naap/livepeer-pipeline';
+import type { IPipelineAdapter, PipelineDescriptor, ValidationResult } from '@naap/livepeer-pipeline';
 import type { PipelineContext, PipelineResult } from './BatchAIAdapter.js';
-
-/** Sanitize a value for safe log output (prevents log injection) */
-function sanitizeForLog(value: unknown): string {
-  return String(value).replace(/[\n\r\t\x00-\x1f\x7f-\x9f]/g, '');
-}
-
+import {
+  ByocError,
+  ByocRegistry,
+  type ByocCapabilityRecord,
+  type ByocPricing,
+  type ByocRegistryConfig,
+  type ByocStore,
+} from '../byoc/index.js';
+import { validateAgainstSchema } from '../schemas/index.js';
+
+/** Public view of a capability, as returned by the capabilities API. */
 export interface BYOCCapability {
   name: string;
-  endpoint: string;
+  /** First registered endpoint; see `endpoints` for all replicas. */
+  endpoint: string | null;
   registeredBy: string; // plugin name
   registeredAt: number;
+  description?: string;
   schema?: { input?: unknown; output?: unknown };
-  pricing?: { model: string; unitPrice: number; currency: string };
+  schemaVersion?: number;
+  pricing?: ByocPricing;
   healthCheckUrl?: string;
+  /** True while at least one endpoint is healthy. */
   healthy: boolean;
   lastHealthCheck?: number;
+  endpoints: Array<{
+    id: string;
+    url: string;
+    healthCheckUrl?: string;
+    weight: number;
+    healthy: boolean;
+    lastCheckedAt?: number;
+    lastError?: string;
+  }>;
 }
 
+const FAILOVER_STATUSES = new Set([502, 503, 504]);
+
 export class BYOCAdapter implements IPipelineAdapter {
   readonly name = 'byoc';
   readonly type = 'batch' as const;
 
-  private capabilities = new Map<string, BYOCCapability>();
+  private byocRegistry: ByocRegistry | null = null;
+
+  /** Attach the registry store and load the current registrations. */
+  async start(store: ByocStore, config?: ByocRegistryConfig): Promise<void> {
+    this.byocRegistry = new ByocRegistry(store, config);
+    await this.byocRegistry.refresh();
+  }
+
+  get registry(): ByocRegistry {
+    if (!this.byocRegistry) throw new Error('BYOC registry is not started');
+    return this.byocRegistry;
+  }
 
   canHandle(pipeline: PipelineDescriptor): boolean {
-    return pipeline.source === 'byoc' || this.capabilities.has(pipeline.name);
+    return pipeline.source === 'byoc' || Boolean(this.byocRegistry?.get(pipeline.name));
+  }
+
+  /**
+   * Always passes: the schema version to check against is only known at
+   * execution (`x-byoc-schema-version`), so `execute` validates.
+   */
+  validate(_input: unknown, _pipeline: PipelineDescriptor): ValidationResult {
+    return { valid: true };
   }
 
-  /** Execute a BYOC pipeline by proxying to the registered endpoint */
+  /** Execute a BYOC pipeline by proxying to a healthy registered endpoint */
   async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
     const body = input as Record<string, unknown>;
     const pipelineName = (body.__pipeline as string) || '';
+    const requestedVersion = body.__schemaVersion as number | undefined;
     delete body.__pipeline;
+    delete body.__schemaVersion;
 
-    const cap = this.capabilities.get(pipelineName);
+    const cap = this.registry.get(pipelineName);
     if (!cap) {
-      throw new Error(`BYOC capability '${pipelineName}' not registered`);
+      throw new ByocError('NOT_FOUND', `BYOC capability '${pipelineName}' not registered`);
     }
 
-    if (!cap.healthy) {
-      throw new Error(`BYOC capability '${pipelineName}' is currently unhealthy`);
+    const schema = requestedVersion !== undefined
+      ? await this.registry.schemaVersion(pipelineName, requestedVersion)
+      : cap.schema;
+    if (requestedVersion !== undefined && !schema) {
+      throw new ByocError('BAD_REQUEST', `Schema version ${requestedVersion} of '${pipelineName}' does not exist`);
     }
-
-    // Proxy request to the registered endpoint
-    const response = await fetch(cap.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-request-id': ctx.requestId,
-        'x-registered-by': cap.registeredBy,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`BYOC endpoint returned ${response.status}: ${error}`);
+    if (schema?.input) {
+      const issues = validateAgainstSchema(body, schema.input);
+      if (issues.length > 0) {
+        throw new ByocError('INVALID_INPUT', `Input does not match schema v${schema.version} of '${pipelineName}'`, issues);
+      }
     }
 
-    const result = await response.json();
+    const payload = JSON.stringify(body);
+    const tried = new Set<string>();
+    let lastError = '';
 
-    return {
-      result,
-      model: (body.model_id as string) || cap.name,
-      orchestrator: `byoc:${cap.registeredBy}`,
-    };
-  }
+    for (let endpoint = this.registry.selectEndpoint(cap); endpoint; endpoint = this.registry.selectEndpoint(cap, tried)) {
+      tried.add(endpoint.id);
 
-  // ─── Registration API ──────────────────────────────────────────────────────
-
-  /** Register a new BYOC capability */
-  register(name: string, config: Omit<BYOCCapability, 'name' | 'registeredAt' | 'healthy'>): void {
-    this.capabilities.set(name, {
-      ...config,
-      name,
-      registeredAt: Date.now(),
-      healthy: true,
-    });
-    console.log(`[byoc] Registered capability '${sanitizeForLog(name)}' from ${sanitizeForLog(config.registeredBy)} → ${sanitizeForLog(config.endpoint)}`);
-  }
+      let response: Response;
+      try {
+        response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-request-id': ctx.requestId,
+            'x-registered-by': cap.registeredBy,
+            ...(schema ? { 'x-byoc-schema-version': String(schema.version) } : {}),
+          },
+          body: payload,
+        });
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+        continue;
+      }
+
+      if (FAILOVER_STATUSES.has(response.status)) {
+        lastError = `endpoint returned ${response.status}`;
+        await response.arrayBuffer().catch(() => undefined);
+        continue;
+      }
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`BYOC endpoint returned ${response.status}: ${error}`);
+      }
+
+      const result = await response.json();
+
+      return {
+        result,
+        model: (body.model_id as string) || cap.name,
+        orchestrator: `byoc:${cap.registeredBy}`,
+      };
+    }
 
-  /** Unregister a capability */
-  unregister(name: string, registeredBy: string): boolean {
-    const cap = this.capabilities.get(name);
-    if (!cap || cap.registeredBy !== registeredBy) return false;
-    this.capabilities.delete(name);
-    console.log(`[byoc] Unregistered capability '${sanitizeForLog(name)}'`);
-    return true;
+    throw new ByocError(
+      'UNAVAILABLE',
+      tried.size === 0
+        ? `BYOC capability '${pipelineName}' is currently unhealthy`
+        : `All endpoints of BYOC capability '${pipelineName}' failed: ${lastError}`
+    );
   }
 
+  // ─── Registry Views ────────────────────────────────────────────────────────
+
   /** List all registered capabilities */
   listCapabilities(): BYOCCapability[] {
-    return Array.from(this.capabilities.values());
+    return this.byocRegistry ? this.byocRegistry.list().map(toPublic) : [];
   }
 
   /** Get a specific capability */
   getCapability(name: string): BYOCCapability | null {
-    return this.capabilities.get(name) || null;
+    const cap = this.byocRegistry?.get(name);
+    return cap ? toPublic(cap) : null;
   }
 
   // ─── Health Checking ───────────────────────────────────────────────────────
 
-  /** Health-check all registered capabilities */
+  /** Health-check all registered endpoints */
   async healthCheckAll(): Promise<void> {
-    const checks = Array.from(this.capabilities.values()).map(async (cap) => {
-      if (!cap.healthCheckUrl) return;
-      try {
-        const res = await fetch(cap.healthCheckUrl, {
-          method: 'GET',
-          signal: AbortSignal.timeout(5000),
-        });
-        cap.healthy = res.ok;
-      } catch {
-        cap.healthy = false;
-      }
-      cap.lastHealthCheck = Date.now();
-    });
-
-    await Promise.allSettled(checks);
+    await this.byocRegistry?.healthCheckAll();
   }
 
-  /** Get unhealthy capabilities */
+  /** Get capabilities that have endpoints but none healthy */
   getUnhealthy(): BYOCCapability[] {
-    return Array.from(this.capabilities.values()).filter((c) => !c.healthy);
+    return this.listCapabilities().filter((c) => c.endpoints.length > 0 && !c.healthy);
   }
 }
+
+export function toPublic(cap: ByocCapabilityRecord): BYOCCapability {
+  const [primary] = cap.endpoints;
+  const checkedAt = cap.endpoints
+    .map((e) => e.lastCheckedAt?.getTime() ?? 0)
+    .reduce((latest, t) => Math.max(latest, t), 0);
+
+  return {
+    name: cap.name,
+    endpoint: primary?.url ?? null,
+    registeredBy: cap.registeredBy,
+    registeredAt: cap.createdAt.getTime(),
+    description: cap.description ?? undefined,
+    schema: cap.schema ? { input: cap.schema.input ?? undefined, output: cap.schema.output ?? undefined } : undefined,
+    schemaVersion: cap.schema?.version,
+    pricing: cap.pricing ?? undefined,
+    healthCheckUrl: primary?.healthCheckUrl ?? undefined,
+    healthy: cap.endpoints.some((e) => e.healthy && e.weight > 0),
+    lastHealthCheck: checkedAt || undefined,
+    endpoints: cap.endpoints.map((e) => ({
+      id: e.id,
+      url: e.url,
+      healthCheckUrl: e.healthCheckUrl ?? undefined,
+      weight: e.weight,
+      healthy: e.healthy,
+      lastCheckedAt: e.lastCheckedAt?.getTime(),
+      lastError: e.lastError ?? undefined,
+    })),
+  };
+}
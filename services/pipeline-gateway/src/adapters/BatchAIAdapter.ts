@@ -6,21 +6,41 @@
  * segment-anything-2, image-to-text, text-to-speech
  *
  * New pipelines of this pattern auto-work with zero code change.
+ *
+ * With a ResultCache, deterministic requests to pipelines that have a cache
+ * TTL are served from it (see ../cache).
+ *
+ * A context orchestrator is reached through its own go-livepeer gateway
+ * node (see ../routing/gateways.ts).
  */
 
 import type { LivepeerAIClient } from '@naap/livepeer-node-client';
-import type { IPipelineAdapter, PipelineDescriptor } from '@naap/livepeer-pipeline';
+import type { IPipelineAdapter, PipelineDescriptor, ValidationResult } from '@naap/livepeer-pipeline';
+import type { ResultCache } from '../cache/index.js';
+import { OrchestratorGateways } from '../routing/gateways.js';
+import { validatePipelineInput } from '../schemas/index.js';
 
 export interface PipelineContext {
   requestId: string;
   userId?: string;
+  teamId?: string;
   startTime: number;
+  /** Skip the result cache lookup (the fresh result is still cached). */
+  bypassCache?: boolean;
+  /** Orchestrator to run on (see ../routing); unset lets go-livepeer choose. */
+  orchestrator?: string;
+  /** Caller's Authorization header, for resolving a batch item's discovery plan. */
+  authorization?: string;
 }
 
 export interface PipelineResult {
   result: unknown;
   model: string;
   orchestrator: string;
+  /** Estimated cost in wei, when the adapter knows it */
+  cost?: string;
+  /** Served from the result cache */
+  cached?: boolean;
 }
 
 const BATCH_PIPELINES = new Set([
@@ -37,47 +57,75 @@ export class BatchAIAdapter implements IPipelineAdapter {
   readonly name = 'batch-ai';
   readonly type = 'batch' as const;
 
-  constructor(private aiClient: LivepeerAIClient) {}
+  constructor(
+    private aiClient: LivepeerAIClient,
+    private cache?: ResultCache,
+    private gateways = new OrchestratorGateways()
+  ) {}
 
   canHandle(pipeline: PipelineDescriptor): boolean {
     return pipeline.type === 'batch' || BATCH_PIPELINES.has(pipeline.name);
   }
 
+  /** Check the request against the pipeline's input schema */
+  validate(input: unknown, pipeline: PipelineDescriptor): ValidationResult {
+    return validatePipelineInput(input, pipeline);
+  }
+
   async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
     const body = input as Record<string, unknown>;
     const pipelineName = body.__pipeline as string;
     delete body.__pipeline;
 
+    const client = this.gateways.clientFor(ctx.orchestrator, this.aiClient);
+    const orchestrator = ctx.orchestrator ?? 'auto';
+    if (!this.cache) {
+      return { ...(await this.run(client, pipelineName, body)), orchestrator };
+    }
+    const { result, model, cached } = await this.cache.run(
+      pipelineName,
+      body,
+      ctx.bypassCache ?? false,
+      () => this.run(client, pipelineName, body)
+    );
+    return { result, model, orchestrator: cached ? 'cache' : orchestrator, cached };
+  }
+
+  private async run(
+    client: LivepeerAIClient,
+    pipelineName: string,
+    body: Record<string, unknown>
+  ): Promise<{ result: unknown; model: string }> {
     let result: unknown;
     const model = (body.model_id as string) || 'default';
 
     switch (pipelineName) {
       case 'text-to-image':
-        result = await this.aiClient.textToImage(body as Parameters<LivepeerAIClient['textToImage']>[0]);
+        result = await client.textToImage(body as Parameters<LivepeerAIClient['textToImage']>[0]);
         break;
       case 'image-to-image':
-        result = await this.aiClient.imageToImage(body.image as File, body as Parameters<LivepeerAIClient['imageToImage']>[1]);
+        result = await client.imageToImage(body.image as File, body as Parameters<LivepeerAIClient['imageToImage']>[1]);
         break;
       case 'upscale':
-        result = await this.aiClient.upscale(body.image as File, body as Parameters<LivepeerAIClient['upscale']>[1]);
+        result = await client.upscale(body.image as File, body as Parameters<LivepeerAIClient['upscale']>[1]);
         break;
       case 'audio-to-text':
-        result = await this.aiClient.audioToText(body.audio as File, body as Parameters<LivepeerAIClient['audioToText']>[1]);
+        result = await client.audioToText(body.audio as File, body as Parameters<LivepeerAIClient['audioToText']>[1]);
         break;
       case 'segment-anything-2':
-        result = await this.aiClient.segmentAnything2(body.image as File, body as Parameters<LivepeerAIClient['segmentAnything2']>[1]);
+        result = await client.segmentAnything2(body.image as File, body as Parameters<LivepeerAIClient['segmentAnything2']>[1]);
         break;
       case 'image-to-text':
-        result = await this.aiClient.imageToText(body.image as File, body as Parameters<LivepeerAIClient['imageToText']>[1]);
+        result = await client.imageToText(body.image as File, body as Parameters<LivepeerAIClient['imageToText']>[1]);
         break;
       case 'text-to-speech':
-        result = await this.aiClient.textToSpeech(body as Parameters<LivepeerAIClient['textToSpeech']>[0]);
+        result = await client.textToSpeech(body as Parameters<LivepeerAIClient['textToSpeech']>[0]);
         break;
       default:
         // Generic capability request for auto-discovered batch pipelines
-        result = await this.aiClient.processRequest(pipelineName, body);
+        result = await client.processRequest(pipelineName, body);
     }
 
-    return { result, model, orchestrator: 'auto' };
+    return { result, model };
   }
 }
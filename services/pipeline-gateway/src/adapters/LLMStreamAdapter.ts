@@ -8,30 +8,40 @@
 
 import type { Response } from 'express';
 import type { LivepeerAIClient } from '@naap/livepeer-node-client';
-import type { IPipelineAdapter, PipelineDescriptor } from '@naap/livepeer-pipeline';
+import type { IPipelineAdapter, PipelineDescriptor, ValidationResult } from '@naap/livepeer-pipeline';
 import type { PipelineContext, PipelineResult } from './BatchAIAdapter.js';
+import { validatePipelineInput } from '../schemas/index.js';
+import { OrchestratorGateways } from '../routing/gateways.js';
 
 export class LLMStreamAdapter implements IPipelineAdapter {
   readonly name = 'llm-stream';
   readonly type = 'stream' as const;
 
-  constructor(private aiClient: LivepeerAIClient) {}
+  constructor(private aiClient: LivepeerAIClient, private gateways = new OrchestratorGateways()) {}
 
   canHandle(pipeline: PipelineDescriptor): boolean {
     return pipeline.name === 'llm';
   }
 
+  /** Check the request against the pipeline's input schema */
+  validate(input: unknown, pipeline: PipelineDescriptor): ValidationResult {
+    return validatePipelineInput(input, pipeline);
+  }
+
   /** Non-streaming LLM execution */
   async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
     const body = input as Record<string, unknown>;
     const model = (body.model_id as string) || (body.model as string) || 'default';
 
-    const result = await this.aiClient.llm(body as Parameters<LivepeerAIClient['llm']>[0]);
-    return { result, model, orchestrator: 'auto' };
+    const result = await this.client(ctx).llm(body as Parameters<LivepeerAIClient['llm']>[0]);
+    return { result, model, orchestrator: ctx.orchestrator ?? 'auto' };
   }
 
-  /** Streaming LLM execution via SSE */
-  async executeStream(input: unknown, res: Response, ctx: PipelineContext): Promise<void> {
+  /**
+   * Streaming LLM execution via SSE. Failures are sent as an error event;
+   * resolves false when the stream did not complete.
+   */
+  async executeStream(input: unknown, res: Response, ctx: PipelineContext): Promise<boolean> {
     const body = input as Record<string, unknown>;
 
     res.setHeader('Content-Type', 'text/event-stream');
@@ -42,7 +52,7 @@ export class LLMStreamAdapter implements IPipelineAdapter {
     try {
       let tokenCount = 0;
 
-      for await (const chunk of this.aiClient.llmStream(body as Parameters<LivepeerAIClient['llmStream']>[0])) {
+      for await (const chunk of this.client(ctx).llmStream(body as Parameters<LivepeerAIClient['llmStream']>[0])) {
         tokenCount++;
         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
       }
@@ -51,9 +61,15 @@ export class LLMStreamAdapter implements IPipelineAdapter {
       res.write(`data: ${JSON.stringify({ __meta: { tokens: tokenCount, duration: Date.now() - ctx.startTime } })}\n\n`);
       res.write('data: [DONE]\n\n');
       res.end();
+      return true;
     } catch (err) {
       res.write(`data: ${JSON.stringify({ error: err instanceof Error ? err.message : String(err) })}\n\n`);
       res.end();
+      return false;
     }
   }
+
+  private client(ctx: PipelineContext): LivepeerAIClient {
+    return this.gateways.clientFor(ctx.orchestrator, this.aiClient);
+  }
 }
@@ -2,29 +2,29 @@
  * Live Video Adapter (Phase 5c)
  *
  * Handles WHIP/WHEP + live video-to-video + trickle control.
- * Session lifecycle management for live AI video transformation.
+ * Sessions are tracked by the live session manager (see ../live), which
+ * persists them per user/team, enforces concurrency limits and timeouts,
+ * and publishes lifecycle events.
  */
 
 import type { LivepeerAIClient } from '@naap/livepeer-node-client';
-import type { IPipelineAdapter, PipelineDescriptor } from '@naap/livepeer-pipeline';
+import type { IPipelineAdapter, PipelineDescriptor, ValidationResult } from '@naap/livepeer-pipeline';
 import type { PipelineContext, PipelineResult } from './BatchAIAdapter.js';
-
-interface LiveSession {
-  streamId: string;
-  publishUrl: string;
-  subscribeUrl: string;
-  controlUrl: string;
-  eventsUrl: string;
-  createdAt: number;
-  status: 'active' | 'stopped' | 'error';
-  params: Record<string, unknown>;
-}
+import { ownerKeyFor } from '../jobs/index.js';
+import {
+  LiveSessionError,
+  LiveSessionManager,
+  type LiveSessionConfig,
+  type LiveSessionEventPublisher,
+  type LiveSessionStore,
+} from '../live/index.js';
+import { validatePipelineInput } from '../schemas/index.js';
 
 export class LiveVideoAdapter implements IPipelineAdapter {
   readonly name = 'live-video';
   readonly type = 'stream' as const;
 
-  private sessions = new Map<string, LiveSession>();
+  private manager: LiveSessionManager | null = null;
 
   constructor(private aiClient: LivepeerAIClient) {}
 
@@ -32,25 +32,36 @@ export class LiveVideoAdapter implements IPipelineAdapter {
     return pipeline.name === 'live-video-to-video' || pipeline.type === 'stream';
   }
 
-  /** Start a live video-to-video session */
-  async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
-    const body = input as Record<string, unknown>;
-    const streamId = (body.stream as string) || crypto.randomUUID();
+  /** Check the request against the pipeline's input schema */
+  validate(input: unknown, pipeline: PipelineDescriptor): ValidationResult {
+    return validatePipelineInput(input, pipeline);
+  }
 
-    const session = await this.aiClient.startLiveVideoToVideo(streamId, body as Parameters<LivepeerAIClient['startLiveVideoToVideo']>[1]);
+  /** Attach the session store; sessions can be started once this is called. */
+  start(store: LiveSessionStore, config: LiveSessionConfig, publisher: LiveSessionEventPublisher | null): void {
+    this.manager = new LiveSessionManager(store, this.aiClient, config, publisher);
+  }
 
-    const liveSession: LiveSession = {
-      streamId,
-      publishUrl: session.publishUrl,
-      subscribeUrl: session.subscribeUrl,
-      controlUrl: session.controlUrl,
-      eventsUrl: session.eventsUrl,
-      createdAt: Date.now(),
-      status: 'active',
-      params: body,
-    };
+  get sessions(): LiveSessionManager {
+    if (!this.manager) throw new Error('Live session manager is not started');
+    return this.manager;
+  }
 
-    this.sessions.set(streamId, liveSession);
+  /**
+   * Start a live video-to-video session. Sessions are listed, updated and
+   * stopped by owner, so an anonymous caller (who would share the one
+   * "anonymous" owner with every other) cannot start one.
+   */
+  async execute(input: unknown, ctx: PipelineContext): Promise<PipelineResult> {
+    if (!ctx.userId) {
+      throw new LiveSessionError('UNAUTHORIZED', 'Live sessions require authentication');
+    }
+    const { __pipeline: _pipeline, ...body } = input as Record<string, unknown>;
+    const session = await this.sessions.start(body, {
+      ownerKey: ownerKeyFor(ctx.teamId, ctx.userId),
+      teamId: ctx.teamId,
+      userId: ctx.userId,
+    });
 
     return {
       result: {
@@ -58,58 +69,10 @@ export class LiveVideoAdapter implements IPipelineAdapter {
         subscribeUrl: session.subscribeUrl,
         controlUrl: session.controlUrl,
         eventsUrl: session.eventsUrl,
-        streamId,
+        streamId: session.streamId,
       },
-      model: (body.model_id as string) || 'default',
+      model: session.model || 'default',
       orchestrator: 'auto',
     };
   }
-
-  /** Get session status */
-  async getSessionStatus(streamId: string): Promise<LiveSession | null> {
-    const local = this.sessions.get(streamId);
-    if (!local) return null;
-
-    try {
-      const remoteStatus = await this.aiClient.getLiveVideoStatus(streamId);
-      return { ...local, ...remoteStatus } as unknown as LiveSession;
-    } catch {
-      return local;
-    }
-  }
-
-  /** Update session parameters (trickle control) */
-  async updateSession(streamId: string, params: Record<string, unknown>): Promise<void> {
-    const session = this.sessions.get(streamId);
-    if (!session) throw new Error(`Session ${streamId} not found`);
-
-    await this.aiClient.updateLiveVideoToVideo(streamId, params as Parameters<LivepeerAIClient['updateLiveVideoToVideo']>[1]);
-    session.params = { ...session.params, ...params };
-  }
-
-  /** Stop a live session */
-  stopSession(streamId: string): void {
-    const session = this.sessions.get(streamId);
-    if (session) {
-      session.status = 'stopped';
-    }
-  }
-
-  /** List all active sessions */
-  listSessions(): LiveSession[] {
-    return Array.from(this.sessions.values()).filter((s) => s.status === 'active');
-  }
-
-  /** Cleanup stale sessions */
-  cleanupStaleSessions(maxAgeMs: number = 3600_000): number {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [id, session] of this.sessions) {
-      if (session.status !== 'active' && now - session.createdAt > maxAgeMs) {
-        this.sessions.delete(id);
-        cleaned++;
-      }
-    }
-    return cleaned;
-  }
 }
@@ -0,0 +1,84 @@
+/**
+ * BatchAIAdapter Tests
+ * Batch pipelines against the mock go-livepeer node
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { LivepeerAIClient } from '@naap/livepeer-node-client';
+import { MockLivepeerNode } from '@naap/livepeer-mock-node';
+import { BatchAIAdapter, type PipelineContext } from '../BatchAIAdapter.js';
+import { OrchestratorGateways } from '../../routing/gateways.js';
+
+describe('BatchAIAdapter', () => {
+  const node = new MockLivepeerNode();
+  // Gateway node started with -orchAddr for one orchestrator
+  const pinned = new MockLivepeerNode();
+  let adapter: BatchAIAdapter;
+
+  const ctx = (overrides: Partial<PipelineContext> = {}): PipelineContext => ({
+    requestId: 'req-1',
+    startTime: Date.now(),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    const { aiUrl } = await node.start();
+    const pinnedUrls = await pinned.start();
+    adapter = new BatchAIAdapter(
+      new LivepeerAIClient(aiUrl),
+      undefined,
+      new OrchestratorGateways({ 'https://orch-b:8935': pinnedUrls.aiUrl })
+    );
+  });
+
+  afterAll(async () => {
+    await node.stop();
+    await pinned.stop();
+  });
+
+  beforeEach(() => {
+    node.reset();
+    pinned.reset();
+  });
+
+  it('runs text-to-image and reports the model', async () => {
+    const output = await adapter.execute(
+      { __pipeline: 'text-to-image', prompt: 'a lighthouse', model_id: 'sdxl' },
+      ctx()
+    );
+
+    expect(output).toMatchObject({ model: 'sdxl', orchestrator: 'auto' });
+    expect((output.result as { images: unknown[] }).images).toHaveLength(1);
+    expect(node.requests[0]).toMatchObject({ path: '/text-to-image', body: { prompt: 'a lighthouse' } });
+  });
+
+  it('sends requests for the context orchestrator to its gateway node', async () => {
+    const output = await adapter.execute(
+      { __pipeline: 'text-to-image', prompt: 'x' },
+      ctx({ orchestrator: 'https://ORCH-B:8935/' })
+    );
+
+    expect(output.orchestrator).toBe('https://ORCH-B:8935/');
+    expect(pinned.requests[0]).toMatchObject({ path: '/text-to-image' });
+    expect(node.requests).toHaveLength(0);
+  });
+
+  it('rejects orchestrators without a gateway node', async () => {
+    await expect(
+      adapter.execute({ __pipeline: 'text-to-image', prompt: 'x' }, ctx({ orchestrator: 'https://orch-c:8935' }))
+    ).rejects.toMatchObject({ code: 'NO_ORCHESTRATORS' });
+  });
+
+  it('sends auto-discovered pipelines as generic capability requests', async () => {
+    const output = await adapter.execute({ __pipeline: 'custom-capability', input: 'ping' }, ctx());
+
+    expect(node.requests[0].path).toBe('/custom-capability');
+    expect(output.result).toEqual({ capability: 'custom-capability', echo: { input: 'ping' } });
+  });
+
+  it('propagates node failures', async () => {
+    node.addRule({ path: '/text-to-image', status: 503, times: 1 });
+
+    await expect(adapter.execute({ __pipeline: 'text-to-image', prompt: 'x' }, ctx())).rejects.toThrow(/503/);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * LLMStreamAdapter Tests
+ * Non-streaming and SSE execution against the mock go-livepeer node
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Response } from 'express';
+import { LivepeerAIClient } from '@naap/livepeer-node-client';
+import { MockLivepeerNode } from '@naap/livepeer-mock-node';
+import { LLMStreamAdapter } from '../LLMStreamAdapter.js';
+
+/** Collects what the adapter writes to an Express response. */
+function recordingResponse() {
+  const written: string[] = [];
+  const res = {
+    ended: false,
+    setHeader: () => res,
+    write: (chunk: string) => written.push(chunk),
+    end: () => {
+      res.ended = true;
+    },
+  };
+  return {
+    res: res as unknown as Response & { ended: boolean },
+    events: () => written.map((w) => w.replace(/^data: /, '').trim()),
+  };
+}
+
+describe('LLMStreamAdapter', () => {
+  const node = new MockLivepeerNode({ streamChunkDelayMs: 0 });
+  let adapter: LLMStreamAdapter;
+  const messages = [{ role: 'user', content: 'hello there' }];
+
+  beforeAll(async () => {
+    const { aiUrl } = await node.start();
+    adapter = new LLMStreamAdapter(new LivepeerAIClient(aiUrl));
+  });
+
+  afterAll(() => node.stop());
+
+  it('returns the whole reply without streaming', async () => {
+    const output = await adapter.execute({ messages, model: 'llama' }, { requestId: 'r', startTime: Date.now() });
+
+    expect(output.model).toBe('llama');
+    expect(JSON.stringify(output.result)).toContain('hello there');
+  });
+
+  it('streams chunks followed by metadata and [DONE]', async () => {
+    const { res, events } = recordingResponse();
+    await adapter.executeStream({ messages, stream: true }, res, { requestId: 'r', startTime: Date.now() });
+
+    const sent = events();
+    expect(res.ended).toBe(true);
+    expect(sent.at(-1)).toBe('[DONE]');
+    const meta = JSON.parse(sent.at(-2)!).__meta;
+    expect(meta.tokens).toBe(sent.length - 2);
+    expect(meta.tokens).toBeGreaterThan(1);
+  });
+
+  it('reports node failures as an error event', async () => {
+    node.addRule({ path: '/llm', status: 500, times: 1 });
+    const { res, events } = recordingResponse();
+    const completed = await adapter.executeStream({ messages, stream: true }, res, { requestId: 'r', startTime: Date.now() });
+
+    expect(completed).toBe(false);
+    expect(JSON.parse(events()[0])).toHaveProperty('error');
+    expect(res.ended).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * LiveVideoAdapter Tests
+ * Live video-to-video sessions against the mock go-livepeer node
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { LivepeerAIClient } from '@naap/livepeer-node-client';
+import { MockLivepeerNode } from '@naap/livepeer-mock-node';
+import { LiveVideoAdapter } from '../LiveVideoAdapter.js';
+import { MemoryLiveSessionStore } from '../../live/LiveSessionStore.js';
+
+describe('LiveVideoAdapter', () => {
+  const node = new MockLivepeerNode();
+  let adapter: LiveVideoAdapter;
+
+  beforeAll(async () => {
+    const { aiUrl } = await node.start();
+    adapter = new LiveVideoAdapter(new LivepeerAIClient(aiUrl));
+    adapter.start(
+      new MemoryLiveSessionStore(),
+      { maxPerOwner: 1, idleTimeoutMs: 60_000, maxDurationMs: 3600_000, startTimeoutMs: 30_000, retentionMs: 60_000 },
+      null
+    );
+  });
+
+  afterAll(() => node.stop());
+
+  it('starts a session with the node URLs and updates it', async () => {
+    const output = await adapter.execute(
+      { __pipeline: 'live-video-to-video', model_id: 'streamdiffusion' },
+      { requestId: 'r', userId: 'user-1', startTime: Date.now() }
+    );
+
+    const { streamId, publishUrl } = output.result as { streamId: string; publishUrl: string };
+    expect(publishUrl).toContain(`/live/video-to-video/${streamId}`);
+    expect(output.model).toBe('streamdiffusion');
+
+    const updated = await adapter.sessions.update(streamId, 'user:user-1', { prompt: 'neon' });
+    expect(updated.status).toBe('active');
+    expect(node.requests.some((r) => r.path === `/live/video-to-video/${streamId}/update`)).toBe(true);
+  });
+
+  it('refuses to start a session for an anonymous caller', async () => {
+    await expect(
+      adapter.execute({ model_id: 'streamdiffusion' }, { requestId: 'r', startTime: Date.now() })
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', status: 401 });
+  });
+
+  it('enforces the per-owner limit', async () => {
+    await expect(
+      adapter.execute({ model_id: 'streamdiffusion' }, { requestId: 'r', userId: 'user-1', startTime: Date.now() })
+    ).rejects.toThrow();
+  });
+});
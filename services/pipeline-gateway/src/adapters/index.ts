@@ -8,6 +8,7 @@ export { BatchAIAdapter } from './BatchAIAdapter.js';
 export { LLMStreamAdapter } from './LLMStreamAdapter.js';
 export { AsyncJobAdapter } from './AsyncJobAdapter.js';
 export { LiveVideoAdapter } from './LiveVideoAdapter.js';
-export { BYOCAdapter } from './BYOCAdapter.js';
+export { BYOCAdapter, toPublic } from './BYOCAdapter.js';
 export type { PipelineContext, PipelineResult } from './BatchAIAdapter.js';
 export type { BYOCCapability } from './BYOCAdapter.js';
+export type { AsyncJobAdapterConfig } from './AsyncJobAdapter.js';
@@ -0,0 +1,279 @@
+/**
+ * Pipeline Batch Runner
+ *
+ * Fans a submitted array of pipeline requests out through the regular
+ * adapters, at most `concurrency` items at a time per batch. Every item
+ * ends with its own response envelope, so one failing item does not fail
+ * the batch; failed items can be retried later without re-running the
+ * ones that succeeded.
+ *
+ * Batches are held in memory by the gateway process that accepted them and
+ * pruned after `retentionMs`. Work that must survive a restart belongs on
+ * the async job queue instead.
+ */
+
+import type {
+  PipelineBatch,
+  PipelineBatchItem,
+  PipelineBatchStatus,
+  PipelineRequest,
+  PipelineResponse,
+} from '@naap/livepeer-pipeline';
+import type { PipelineContext } from '../adapters/BatchAIAdapter.js';
+
+export interface BatchConfig {
+  /** Largest accepted batch. */
+  maxItems: number;
+  /** Default and upper bound for a batch's item concurrency. */
+  maxConcurrency: number;
+  /** How long finished batches stay queryable. */
+  retentionMs: number;
+}
+
+/** Runs one item. Expected to report failures in the envelope rather than throw. */
+export type BatchItemExecutor = (request: PipelineRequest, ctx: PipelineContext) => Promise<PipelineResponse>;
+
+export type BatchErrorCode = 'BAD_REQUEST' | 'NOT_FOUND' | 'CONFLICT';
+
+const STATUS_BY_CODE: Record<BatchErrorCode, number> = {
+  BAD_REQUEST: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+};
+
+export class BatchError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: BatchErrorCode, message: string) {
+    super(message);
+    this.name = 'BatchError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface BatchOwner {
+  ownerKey: string;
+  userId?: string;
+  teamId?: string;
+  /** Submitter's Authorization header; kept in memory only, like the batch. */
+  authorization?: string;
+}
+
+interface ItemState {
+  request: PipelineRequest;
+  status: PipelineBatchItem['status'];
+  attempts: number;
+  response: PipelineResponse | null;
+}
+
+interface BatchState {
+  id: string;
+  owner: BatchOwner;
+  concurrency: number;
+  items: ItemState[];
+  createdAt: number;
+  completedAt: number | null;
+}
+
+export class BatchRunner {
+  private batches = new Map<string, BatchState>();
+
+  constructor(private executor: BatchItemExecutor, private config: BatchConfig) {}
+
+  /** Accept a batch and start running it; returns the initial (all pending) view. */
+  submit(requests: unknown, owner: BatchOwner, concurrency?: unknown): PipelineBatch {
+    const items = this.validate(requests);
+    const state: BatchState = {
+      id: crypto.randomUUID(),
+      owner,
+      concurrency: this.resolveConcurrency(concurrency),
+      items: items.map((request) => ({ request, status: 'pending', attempts: 0, response: null })),
+      createdAt: Date.now(),
+      completedAt: null,
+    };
+    this.batches.set(state.id, state);
+    this.run(state, state.items.map((_, i) => i));
+    return toBatch(state);
+  }
+
+  get(batchId: string, ownerKey: string): PipelineBatch | null {
+    const state = this.batches.get(batchId);
+    return state && state.owner.ownerKey === ownerKey ? toBatch(state) : null;
+  }
+
+  /**
+   * Re-run failed items: all of them, or only `indices`. Items that are
+   * pending, running or succeeded are rejected.
+   */
+  retry(batchId: string, ownerKey: string, indices?: unknown): PipelineBatch {
+    const state = this.batches.get(batchId);
+    if (!state || state.owner.ownerKey !== ownerKey) throw new BatchError('NOT_FOUND', 'Batch not found');
+
+    let selected: number[];
+    if (indices === undefined) {
+      selected = state.items.flatMap((item, i) => (item.status === 'error' ? [i] : []));
+      if (selected.length === 0) throw new BatchError('CONFLICT', 'Batch has no failed items');
+    } else {
+      if (!Array.isArray(indices) || indices.length === 0) {
+        throw new BatchError('BAD_REQUEST', 'items must be a non-empty array of item indices');
+      }
+      selected = Array.from(new Set(indices));
+      for (const index of selected) {
+        if (!Number.isInteger(index) || index < 0 || index >= state.items.length) {
+          throw new BatchError('BAD_REQUEST', `Item ${index} does not exist`);
+        }
+        if (state.items[index].status !== 'error') {
+          throw new BatchError('CONFLICT', `Item ${index} is ${state.items[index].status}; only failed items can be retried`);
+        }
+      }
+    }
+
+    for (const index of selected) {
+      state.items[index].status = 'pending';
+    }
+    state.completedAt = null;
+    this.run(state, selected);
+    return toBatch(state);
+  }
+
+  /** Drop finished batches older than the retention window. */
+  prune(): number {
+    const cutoff = Date.now() - this.config.retentionMs;
+    let removed = 0;
+    for (const [id, state] of this.batches) {
+      if (state.completedAt !== null && state.completedAt < cutoff) {
+        this.batches.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // ─── Internals ─────────────────────────────────────────────────────────────
+
+  private run(state: BatchState, indices: number[]): void {
+    const queue = [...indices];
+    const worker = async () => {
+      for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+        await this.runItem(state, index);
+      }
+    };
+    const workers = Array.from({ length: Math.min(state.concurrency, queue.length) }, worker);
+
+    Promise.all(workers).then(() => {
+      if (state.items.every((item) => item.status === 'success' || item.status === 'error')) {
+        state.completedAt = Date.now();
+      }
+    });
+  }
+
+  private async runItem(state: BatchState, index: number): Promise<void> {
+    const item = state.items[index];
+    item.status = 'running';
+    item.attempts++;
+
+    const ctx: PipelineContext = {
+      requestId: `${state.id}-${index}-${item.attempts}`,
+      userId: state.owner.userId,
+      teamId: state.owner.teamId,
+      startTime: Date.now(),
+      authorization: state.owner.authorization,
+    };
+
+    try {
+      item.response = await this.executor(item.request, ctx);
+    } catch (err) {
+      item.response = {
+        version: '1.0',
+        pipeline: item.request.pipeline,
+        model: item.request.model || 'default',
+        status: 'error',
+        requestId: ctx.requestId,
+        result: null,
+        metadata: { cost: '0', duration: Date.now() - ctx.startTime, orchestrator: 'unknown', cached: false },
+        error: { code: 'PIPELINE_ERROR', message: err instanceof Error ? err.message : String(err) },
+      };
+    }
+    item.status = item.response.status === 'error' ? 'error' : 'success';
+  }
+
+  private validate(requests: unknown): PipelineRequest[] {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new BatchError('BAD_REQUEST', 'items must be a non-empty array of pipeline requests');
+    }
+    if (requests.length > this.config.maxItems) {
+      throw new BatchError('BAD_REQUEST', `A batch accepts at most ${this.config.maxItems} items`);
+    }
+    requests.forEach((request, i) => {
+      if (!isObject(request) || typeof request.pipeline !== 'string' || !request.pipeline) {
+        throw new BatchError('BAD_REQUEST', `Item ${i}: pipeline is required`);
+      }
+      if (request.input !== undefined && !isObject(request.input)) {
+        throw new BatchError('BAD_REQUEST', `Item ${i}: input must be an object`);
+      }
+      if (request.params !== undefined && !isObject(request.params)) {
+        throw new BatchError('BAD_REQUEST', `Item ${i}: params must be an object`);
+      }
+      if (request.model !== undefined && typeof request.model !== 'string') {
+        throw new BatchError('BAD_REQUEST', `Item ${i}: model must be a string`);
+      }
+    });
+    return requests as PipelineRequest[];
+  }
+
+  private resolveConcurrency(requested: unknown): number {
+    if (requested === undefined) return this.config.maxConcurrency;
+    if (!Number.isInteger(requested) || (requested as number) < 1) {
+      throw new BatchError('BAD_REQUEST', 'concurrency must be a positive integer');
+    }
+    return Math.min(requested as number, this.config.maxConcurrency);
+  }
+}
+
+function toBatch(state: BatchState): PipelineBatch {
+  const items: PipelineBatchItem[] = state.items.map((item, index) => ({
+    index,
+    pipeline: item.request.pipeline,
+    status: item.status,
+    attempts: item.attempts,
+    response: item.response,
+  }));
+
+  const succeeded = items.filter((i) => i.status === 'success').length;
+  const failed = items.filter((i) => i.status === 'error').length;
+  const pending = items.length - succeeded - failed;
+
+  let status: PipelineBatchStatus;
+  if (pending > 0) status = 'running';
+  else if (failed === 0) status = 'completed';
+  else if (succeeded === 0) status = 'failed';
+  else status = 'partial';
+
+  return {
+    version: '1.0',
+    batchId: state.id,
+    status,
+    createdAt: new Date(state.createdAt).toISOString(),
+    completedAt: state.completedAt !== null ? new Date(state.completedAt).toISOString() : null,
+    summary: { total: items.length, pending, succeeded, failed, cost: totalCost(items).toString() },
+    items,
+  };
+}
+
+/** Costs are wei strings; malformed values are counted as zero. */
+function totalCost(items: PipelineBatchItem[]): bigint {
+  let total = 0n;
+  for (const item of items) {
+    if (item.status !== 'success' && item.status !== 'error') continue;
+    try {
+      total += BigInt(item.response?.metadata.cost ?? '0');
+    } catch {
+      // not an integer string
+    }
+  }
+  return total;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+/**
+ * BatchRunner Tests
+ * Per-item envelopes, concurrency, failed-item retry and ownership
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PipelineBatch, PipelineRequest, PipelineResponse } from '@naap/livepeer-pipeline';
+import { BatchRunner, BatchError, type BatchItemExecutor } from '../BatchRunner.js';
+
+const config = { maxItems: 10, maxConcurrency: 2, retentionMs: 60_000 };
+const owner = { ownerKey: 'team:t1', teamId: 't1' };
+
+function envelope(request: PipelineRequest, status: 'success' | 'error', cost = '0'): PipelineResponse {
+  return {
+    version: '1.0',
+    pipeline: request.pipeline,
+    model: 'default',
+    status,
+    requestId: 'r',
+    result: status === 'success' ? { ok: true } : null,
+    metadata: { cost, duration: 1, orchestrator: 'o', cached: false },
+    ...(status === 'error' ? { error: { code: 'PIPELINE_ERROR', message: 'boom' } } : {}),
+  };
+}
+
+async function settled(runner: BatchRunner, batchId: string): Promise<PipelineBatch> {
+  for (let i = 0; i < 100; i++) {
+    const batch = runner.get(batchId, owner.ownerKey)!;
+    if (batch.status !== 'running') return batch;
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+  throw new Error('Batch never settled');
+}
+
+describe('BatchRunner', () => {
+  it('keeps item failures in their own envelopes and sums cost', async () => {
+    const runner = new BatchRunner(async (request) => {
+      if ((request.input as { fail?: boolean } | undefined)?.fail) throw new Error('upstream down');
+      return envelope(request, 'success', '100');
+    }, config);
+
+    const { batchId } = runner.submit(
+      [{ pipeline: 'text-to-image' }, { pipeline: 'text-to-image', input: { fail: true } }, { pipeline: 'llm' }],
+      owner
+    );
+    const batch = await settled(runner, batchId);
+
+    expect(batch.status).toBe('partial');
+    expect(batch.summary).toMatchObject({ total: 3, succeeded: 2, failed: 1, cost: '200' });
+    expect(batch.items[1].response?.error?.message).toBe('upstream down');
+  });
+
+  it('never runs more items at once than the batch concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const executor: BatchItemExecutor = async (request) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      active--;
+      return envelope(request, 'success');
+    };
+    const runner = new BatchRunner(executor, config);
+
+    const { batchId } = runner.submit(Array(6).fill({ pipeline: 'llm' }), owner, 5);
+    await settled(runner, batchId);
+
+    expect(peak).toBe(2);
+  });
+
+  it('retries only failed items and leaves successes untouched', async () => {
+    let flaky = true;
+    const runner = new BatchRunner(async (request) => {
+      if ((request.input as { flaky?: boolean } | undefined)?.flaky && flaky) return envelope(request, 'error');
+      return envelope(request, 'success');
+    }, config);
+
+    const { batchId } = runner.submit([{ pipeline: 'llm' }, { pipeline: 'llm', input: { flaky: true } }], owner);
+    await settled(runner, batchId);
+
+    expect(() => runner.retry(batchId, owner.ownerKey, [0])).toThrow(/only failed items/);
+
+    flaky = false;
+    runner.retry(batchId, owner.ownerKey);
+    const batch = await settled(runner, batchId);
+
+    expect(batch.status).toBe('completed');
+    expect(batch.items.map((i) => i.attempts)).toEqual([1, 2]);
+  });
+
+  it('hides batches from other owners', () => {
+    const runner = new BatchRunner(async (request) => envelope(request, 'success'), config);
+    const { batchId } = runner.submit([{ pipeline: 'llm' }], owner);
+
+    expect(runner.get(batchId, 'team:t2')).toBeNull();
+    expect(() => runner.retry(batchId, 'team:t2')).toThrow(BatchError);
+  });
+
+  it('rejects oversized batches and malformed items', () => {
+    const runner = new BatchRunner(async (request) => envelope(request, 'success'), config);
+
+    expect(() => runner.submit(Array(11).fill({ pipeline: 'llm' }), owner)).toThrow(/at most 10/);
+    expect(() => runner.submit([{ pipeline: 'llm', input: 'text' }], owner)).toThrow(/Item 0: input/);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Pipeline Batch Index
+ */
+
+export { BatchRunner, BatchError } from './BatchRunner.js';
+export type { BatchConfig, BatchErrorCode, BatchItemExecutor, BatchOwner } from './BatchRunner.js';
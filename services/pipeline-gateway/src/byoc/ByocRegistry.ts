@@ -0,0 +1,344 @@
+/**
+ * BYOC Capability Registry
+ *
+ * Owns the rules around the BYOC store: a capability belongs to the plugin
+ * that first registered it, registering again adds or updates replica
+ * endpoints rather than replacing them (each replica of a plugin registers
+ * itself on start and removes itself on stop), a changed schema publishes a
+ * new immutable version, and every change lands in the registration history.
+ *
+ * Reads are served from a snapshot refreshed from the store, so routing
+ * does not hit the database per request; other gateway replicas see
+ * changes within one refresh interval.
+ */
+
+import type {
+  ByocAction,
+  ByocCapabilityRecord,
+  ByocEndpoint,
+  ByocEvent,
+  ByocPricing,
+  ByocSchemaVersion,
+  ByocStore,
+  EndpointInput,
+} from './ByocStore.js';
+import { deepEqual, isValidSchema } from '../schemas/index.js';
+
+export type ByocErrorCode = 'BAD_REQUEST' | 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID_INPUT' | 'UNAVAILABLE';
+
+const STATUS_BY_CODE: Record<ByocErrorCode, number> = {
+  BAD_REQUEST: 400,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  INVALID_INPUT: 400,
+  UNAVAILABLE: 503,
+};
+
+export class ByocError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: ByocErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ByocError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface RegisterInput {
+  name: string;
+  registeredBy: string;
+  description?: string;
+  endpoints: EndpointInput[];
+  schema?: { input?: unknown; output?: unknown };
+  pricing?: ByocPricing;
+}
+
+export interface ByocRegistryConfig {
+  /** Consecutive failed probes before an endpoint stops receiving traffic. */
+  unhealthyThreshold: number;
+  /** Remove endpoints that have not passed a probe for this long. */
+  endpointExpiryMs: number;
+  healthCheckTimeoutMs: number;
+}
+
+const DEFAULT_CONFIG: ByocRegistryConfig = {
+  unhealthyThreshold: 2,
+  endpointExpiryMs: 24 * 3600_000,
+  healthCheckTimeoutMs: 5000,
+};
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const MAX_WEIGHT = 1000;
+const SYSTEM_ACTOR = 'pipeline-gateway';
+
+/** Sanitize a value for safe log output (prevents log injection) */
+function sanitizeForLog(value: unknown): string {
+  return String(value).replace(/[\n\r\t\x00-\x1f\x7f-\x9f]/g, '');
+}
+
+export class ByocRegistry {
+  private snapshot = new Map<string, ByocCapabilityRecord>();
+
+  constructor(private store: ByocStore, private config: ByocRegistryConfig = DEFAULT_CONFIG) {}
+
+  /** Reload the routing snapshot from the store. */
+  async refresh(): Promise<void> {
+    const capabilities = await this.store.list();
+    this.snapshot = new Map(capabilities.map((c) => [c.name, c]));
+  }
+
+  list(): ByocCapabilityRecord[] {
+    return Array.from(this.snapshot.values());
+  }
+
+  get(name: string): ByocCapabilityRecord | null {
+    return this.snapshot.get(name) ?? null;
+  }
+
+  // ─── Registration ──────────────────────────────────────────────────────────
+
+  async register(input: RegisterInput): Promise<ByocCapabilityRecord> {
+    validateName(input.name);
+    if (!input.registeredBy) throw new ByocError('BAD_REQUEST', 'registeredBy is required');
+    if (input.endpoints.length === 0) throw new ByocError('BAD_REQUEST', 'At least one endpoint is required');
+    input.endpoints.forEach(validateEndpoint);
+    if (input.schema && (!isValidSchema(input.schema.input) || !isValidSchema(input.schema.output))) {
+      throw new ByocError('BAD_REQUEST', 'schema.input and schema.output must be JSON Schema objects');
+    }
+
+    const { name, registeredBy } = input;
+    const existing = await this.store.get(name);
+    if (existing && existing.registeredBy !== registeredBy) {
+      throw new ByocError('CONFLICT', `Capability '${name}' is registered by another plugin`);
+    }
+
+    if (!existing) {
+      await this.store.create({ name, registeredBy, description: input.description, pricing: input.pricing });
+      await this.record(name, 'registered', registeredBy, {
+        ...(input.description ? { description: input.description } : {}),
+        ...(input.pricing ? { pricing: input.pricing } : {}),
+      });
+      console.log(`[byoc] Registered capability '${sanitizeForLog(name)}' from ${sanitizeForLog(registeredBy)}`);
+    } else {
+      const changes: Record<string, unknown> = {};
+      if (input.description !== undefined && input.description !== existing.description) {
+        changes.description = input.description;
+      }
+      if (input.pricing !== undefined && !deepEqual(input.pricing, existing.pricing)) {
+        changes.pricing = input.pricing;
+      }
+      if (Object.keys(changes).length > 0) {
+        await this.store.update(name, changes);
+        await this.record(name, 'updated', registeredBy, changes);
+      }
+    }
+
+    for (const endpoint of input.endpoints) {
+      await this.applyEndpoint(name, existing?.endpoints ?? [], endpoint, registeredBy);
+    }
+
+    if (input.schema) {
+      const current = existing?.schema;
+      const changed = !current
+        || !deepEqual(current.input ?? null, input.schema.input ?? null)
+        || !deepEqual(current.output ?? null, input.schema.output ?? null);
+      if (changed) {
+        const published = await this.store.addSchemaVersion(name, { ...input.schema, createdBy: registeredBy });
+        await this.record(name, 'schema_published', registeredBy, { version: published.version });
+      }
+    }
+
+    return this.reload(name);
+  }
+
+  async addEndpoint(name: string, registeredBy: string, endpoint: EndpointInput): Promise<ByocCapabilityRecord> {
+    const capability = await this.requireOwned(name, registeredBy);
+    validateEndpoint(endpoint);
+    await this.applyEndpoint(name, capability.endpoints, endpoint, registeredBy);
+    return this.reload(name);
+  }
+
+  /** Remove one replica, by endpoint id or URL. */
+  async removeEndpoint(name: string, registeredBy: string, endpointIdOrUrl: string): Promise<ByocCapabilityRecord> {
+    const capability = await this.requireOwned(name, registeredBy);
+    const endpoint = capability.endpoints.find((e) => e.id === endpointIdOrUrl || e.url === endpointIdOrUrl);
+    if (!endpoint) throw new ByocError('NOT_FOUND', 'Endpoint not found');
+
+    await this.store.removeEndpoint(name, endpoint.id);
+    await this.record(name, 'endpoint_removed', registeredBy, { endpointId: endpoint.id, url: endpoint.url });
+    return this.reload(name);
+  }
+
+  async unregister(name: string, registeredBy: string): Promise<void> {
+    const capability = await this.requireOwned(name, registeredBy);
+    await this.store.delete(name);
+    await this.record(name, 'unregistered', registeredBy, {
+      endpoints: capability.endpoints.map((e) => e.url),
+      schemaVersion: capability.schema?.version ?? null,
+    });
+    this.snapshot.delete(name);
+    console.log(`[byoc] Unregistered capability '${sanitizeForLog(name)}'`);
+  }
+
+  // ─── History & Schemas ─────────────────────────────────────────────────────
+
+  history(name: string, limit = 100): Promise<ByocEvent[]> {
+    return this.store.listEvents(name, limit);
+  }
+
+  schemaVersions(name: string): Promise<ByocSchemaVersion[]> {
+    return this.store.listSchemaVersions(name);
+  }
+
+  schemaVersion(name: string, version: number): Promise<ByocSchemaVersion | null> {
+    return this.store.getSchemaVersion(name, version);
+  }
+
+  // ─── Routing ───────────────────────────────────────────────────────────────
+
+  /**
+   * Pick a healthy endpoint at random, weighted by `weight`. Endpoints in
+   * `exclude` (already tried for this request) are skipped.
+   */
+  selectEndpoint(capability: ByocCapabilityRecord, exclude: Set<string> = new Set()): ByocEndpoint | null {
+    const candidates = capability.endpoints.filter((e) => e.healthy && e.weight > 0 && !exclude.has(e.id));
+    const total = candidates.reduce((sum, e) => sum + e.weight, 0);
+    let roll = Math.random() * total;
+    for (const endpoint of candidates) {
+      roll -= endpoint.weight;
+      if (roll < 0) return endpoint;
+    }
+    return candidates[candidates.length - 1] ?? null;
+  }
+
+  // ─── Health Checking ───────────────────────────────────────────────────────
+
+  /**
+   * Probe every endpoint that has a healthCheckUrl and persist the result.
+   * Endpoints without one are assumed healthy. Endpoints that have not
+   * passed a probe within `endpointExpiryMs` are removed.
+   */
+  async healthCheckAll(): Promise<void> {
+    const now = Date.now();
+    const probes = this.list().flatMap((capability) =>
+      capability.endpoints
+        .filter((endpoint) => endpoint.healthCheckUrl)
+        .map(async (endpoint) => {
+          const error = await this.probe(endpoint.healthCheckUrl!);
+          const failures = error === null ? 0 : endpoint.consecutiveFailures + 1;
+          const lastHealthyAt = error === null ? new Date(now) : endpoint.lastHealthyAt;
+
+          const since = (lastHealthyAt ?? endpoint.createdAt).getTime();
+          if (error !== null && now - since > this.config.endpointExpiryMs) {
+            await this.store.removeEndpoint(capability.name, endpoint.id);
+            await this.record(capability.name, 'endpoint_expired', SYSTEM_ACTOR, {
+              endpointId: endpoint.id,
+              url: endpoint.url,
+              lastError: error,
+            });
+            return;
+          }
+
+          await this.store.recordHealth(endpoint.id, {
+            healthy: failures < this.config.unhealthyThreshold,
+            consecutiveFailures: failures,
+            lastCheckedAt: new Date(now),
+            lastHealthyAt,
+            lastError: error,
+          });
+        })
+    );
+
+    await Promise.allSettled(probes);
+    await this.refresh();
+  }
+
+  private async probe(url: string): Promise<string | null> {
+    try {
+      const res = await fetch(url, { method: 'GET', signal: AbortSignal.timeout(this.config.healthCheckTimeoutMs) });
+      return res.ok ? null : `Health check returned ${res.status}`;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  // ─── Internals ─────────────────────────────────────────────────────────────
+
+  private async applyEndpoint(
+    name: string,
+    current: ByocEndpoint[],
+    input: EndpointInput,
+    actor: string
+  ): Promise<void> {
+    const before = current.find((e) => e.url === input.url);
+    const endpoint = await this.store.upsertEndpoint(name, input);
+    if (!before) {
+      await this.record(name, 'endpoint_added', actor, {
+        endpointId: endpoint.id,
+        url: endpoint.url,
+        weight: endpoint.weight,
+        healthCheckUrl: endpoint.healthCheckUrl,
+      });
+    } else if (before.weight !== endpoint.weight || before.healthCheckUrl !== endpoint.healthCheckUrl) {
+      await this.record(name, 'endpoint_updated', actor, {
+        endpointId: endpoint.id,
+        url: endpoint.url,
+        weight: endpoint.weight,
+        healthCheckUrl: endpoint.healthCheckUrl,
+      });
+    }
+  }
+
+  private async requireOwned(name: string, registeredBy: string): Promise<ByocCapabilityRecord> {
+    const capability = await this.store.get(name);
+    if (!capability) throw new ByocError('NOT_FOUND', `Capability '${name}' not registered`);
+    if (capability.registeredBy !== registeredBy) {
+      throw new ByocError('FORBIDDEN', `Capability '${name}' is registered by another plugin`);
+    }
+    return capability;
+  }
+
+  private async reload(name: string): Promise<ByocCapabilityRecord> {
+    const capability = await this.store.get(name);
+    if (!capability) throw new ByocError('NOT_FOUND', `Capability '${name}' not registered`);
+    this.snapshot.set(name, capability);
+    return capability;
+  }
+
+  private record(name: string, action: ByocAction, actor: string, details: Record<string, unknown>): Promise<void> {
+    return this.store.appendEvent({ capabilityName: name, action, actor, details });
+  }
+}
+
+function validateName(name: unknown): void {
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    throw new ByocError('BAD_REQUEST', 'name must be 1-64 letters, digits, dots, dashes or underscores');
+  }
+}
+
+function validateEndpoint(endpoint: EndpointInput): void {
+  if (!isHttpUrl(endpoint.url)) {
+    throw new ByocError('BAD_REQUEST', 'Endpoint url must be an http(s) URL');
+  }
+  if (endpoint.healthCheckUrl != null && !isHttpUrl(endpoint.healthCheckUrl)) {
+    throw new ByocError('BAD_REQUEST', 'Endpoint healthCheckUrl must be an http(s) URL');
+  }
+  if (endpoint.weight !== undefined && (!Number.isInteger(endpoint.weight) || endpoint.weight < 0 || endpoint.weight > MAX_WEIGHT)) {
+    throw new ByocError('BAD_REQUEST', `Endpoint weight must be an integer between 0 and ${MAX_WEIGHT}`);
+  }
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
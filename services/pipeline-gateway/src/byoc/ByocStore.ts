@@ -0,0 +1,238 @@
+/**
+ * BYOC Registry Store
+ *
+ * Persistence contract for BYOC capabilities, their replica endpoints,
+ * schema versions and registration history. `PrismaByocStore` keeps the
+ * registry in Postgres so registrations survive redeploys and every gateway
+ * replica routes from the same data; `MemoryByocStore` is the single-process
+ * fallback used when no database is configured.
+ *
+ * The store is deliberately dumb: ownership checks, change detection and
+ * history entries are the registry's job (see ByocRegistry).
+ */
+
+export interface ByocPricing {
+  model: string;
+  unitPrice: number;
+  currency: string;
+}
+
+export interface ByocEndpoint {
+  id: string;
+  url: string;
+  healthCheckUrl: string | null;
+  weight: number;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastCheckedAt: Date | null;
+  lastHealthyAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+export interface ByocSchemaVersion {
+  version: number;
+  input: unknown;
+  output: unknown;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface ByocCapabilityRecord {
+  id: string;
+  name: string;
+  registeredBy: string;
+  description: string | null;
+  pricing: ByocPricing | null;
+  createdAt: Date;
+  updatedAt: Date;
+  endpoints: ByocEndpoint[];
+  /** Latest schema version, if any was published. */
+  schema: ByocSchemaVersion | null;
+}
+
+export type ByocAction =
+  | 'registered'
+  | 'updated'
+  | 'endpoint_added'
+  | 'endpoint_updated'
+  | 'endpoint_removed'
+  | 'endpoint_expired'
+  | 'schema_published'
+  | 'unregistered';
+
+export interface ByocEvent {
+  id: string;
+  capabilityName: string;
+  action: ByocAction;
+  actor: string;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface EndpointInput {
+  url: string;
+  healthCheckUrl?: string | null;
+  weight?: number;
+}
+
+export interface EndpointHealth {
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastCheckedAt: Date;
+  lastHealthyAt: Date | null;
+  lastError: string | null;
+}
+
+export interface ByocStore {
+  list(): Promise<ByocCapabilityRecord[]>;
+  get(name: string): Promise<ByocCapabilityRecord | null>;
+  create(input: { name: string; registeredBy: string; description?: string; pricing?: ByocPricing }): Promise<void>;
+  update(name: string, input: { description?: string | null; pricing?: ByocPricing | null }): Promise<void>;
+  /** Delete a capability with its endpoints and schema versions; history is kept. */
+  delete(name: string): Promise<boolean>;
+  /** Insert or update the endpoint with this URL. */
+  upsertEndpoint(name: string, endpoint: EndpointInput): Promise<ByocEndpoint>;
+  removeEndpoint(name: string, endpointId: string): Promise<boolean>;
+  recordHealth(endpointId: string, health: EndpointHealth): Promise<void>;
+  /** Publish the next schema version and return it. */
+  addSchemaVersion(name: string, input: { input?: unknown; output?: unknown; createdBy: string }): Promise<ByocSchemaVersion>;
+  getSchemaVersion(name: string, version: number): Promise<ByocSchemaVersion | null>;
+  listSchemaVersions(name: string): Promise<ByocSchemaVersion[]>;
+  appendEvent(event: Omit<ByocEvent, 'id' | 'createdAt'>): Promise<void>;
+  listEvents(name: string, limit: number): Promise<ByocEvent[]>;
+}
+
+// ─── In-memory fallback ──────────────────────────────────────────────────────
+
+interface MemoryCapability extends Omit<ByocCapabilityRecord, 'schema'> {
+  schemaVersions: ByocSchemaVersion[];
+}
+
+export class MemoryByocStore implements ByocStore {
+  private capabilities = new Map<string, MemoryCapability>();
+  private events: ByocEvent[] = [];
+
+  async list(): Promise<ByocCapabilityRecord[]> {
+    return Array.from(this.capabilities.values()).map(toRecord);
+  }
+
+  async get(name: string): Promise<ByocCapabilityRecord | null> {
+    const cap = this.capabilities.get(name);
+    return cap ? toRecord(cap) : null;
+  }
+
+  async create(input: { name: string; registeredBy: string; description?: string; pricing?: ByocPricing }): Promise<void> {
+    const now = new Date();
+    this.capabilities.set(input.name, {
+      id: crypto.randomUUID(),
+      name: input.name,
+      registeredBy: input.registeredBy,
+      description: input.description ?? null,
+      pricing: input.pricing ?? null,
+      createdAt: now,
+      updatedAt: now,
+      endpoints: [],
+      schemaVersions: [],
+    });
+  }
+
+  async update(name: string, input: { description?: string | null; pricing?: ByocPricing | null }): Promise<void> {
+    const cap = this.require(name);
+    if (input.description !== undefined) cap.description = input.description;
+    if (input.pricing !== undefined) cap.pricing = input.pricing;
+    cap.updatedAt = new Date();
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.capabilities.delete(name);
+  }
+
+  async upsertEndpoint(name: string, input: EndpointInput): Promise<ByocEndpoint> {
+    const cap = this.require(name);
+    let endpoint = cap.endpoints.find((e) => e.url === input.url);
+    if (!endpoint) {
+      endpoint = {
+        id: crypto.randomUUID(),
+        url: input.url,
+        healthCheckUrl: null,
+        weight: 1,
+        healthy: true,
+        consecutiveFailures: 0,
+        lastCheckedAt: null,
+        lastHealthyAt: null,
+        lastError: null,
+        createdAt: new Date(),
+      };
+      cap.endpoints.push(endpoint);
+    }
+    if (input.healthCheckUrl !== undefined) endpoint.healthCheckUrl = input.healthCheckUrl;
+    if (input.weight !== undefined) endpoint.weight = input.weight;
+    return { ...endpoint };
+  }
+
+  async removeEndpoint(name: string, endpointId: string): Promise<boolean> {
+    const cap = this.capabilities.get(name);
+    if (!cap) return false;
+    const before = cap.endpoints.length;
+    cap.endpoints = cap.endpoints.filter((e) => e.id !== endpointId);
+    return cap.endpoints.length < before;
+  }
+
+  async recordHealth(endpointId: string, health: EndpointHealth): Promise<void> {
+    for (const cap of this.capabilities.values()) {
+      const endpoint = cap.endpoints.find((e) => e.id === endpointId);
+      if (endpoint) Object.assign(endpoint, health);
+    }
+  }
+
+  async addSchemaVersion(
+    name: string,
+    input: { input?: unknown; output?: unknown; createdBy: string }
+  ): Promise<ByocSchemaVersion> {
+    const cap = this.require(name);
+    const version: ByocSchemaVersion = {
+      version: cap.schemaVersions.length + 1,
+      input: input.input ?? null,
+      output: input.output ?? null,
+      createdBy: input.createdBy,
+      createdAt: new Date(),
+    };
+    cap.schemaVersions.push(version);
+    return version;
+  }
+
+  async getSchemaVersion(name: string, version: number): Promise<ByocSchemaVersion | null> {
+    return this.capabilities.get(name)?.schemaVersions.find((v) => v.version === version) ?? null;
+  }
+
+  async listSchemaVersions(name: string): Promise<ByocSchemaVersion[]> {
+    return [...(this.capabilities.get(name)?.schemaVersions ?? [])].reverse();
+  }
+
+  async appendEvent(event: Omit<ByocEvent, 'id' | 'createdAt'>): Promise<void> {
+    this.events.push({ ...event, id: crypto.randomUUID(), createdAt: new Date() });
+  }
+
+  async listEvents(name: string, limit: number): Promise<ByocEvent[]> {
+    return this.events
+      .filter((e) => e.capabilityName === name)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  private require(name: string): MemoryCapability {
+    const cap = this.capabilities.get(name);
+    if (!cap) throw new Error(`BYOC capability '${name}' not registered`);
+    return cap;
+  }
+}
+
+function toRecord(cap: MemoryCapability): ByocCapabilityRecord {
+  const { schemaVersions, ...rest } = cap;
+  return {
+    ...rest,
+    endpoints: cap.endpoints.map((e) => ({ ...e })),
+    schema: schemaVersions[schemaVersions.length - 1] ?? null,
+  };
+}
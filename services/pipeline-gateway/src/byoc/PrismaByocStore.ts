@@ -0,0 +1,174 @@
+/**
+ * Postgres BYOC Registry Store
+ *
+ * `ByocStore` backed by the ByocCapability, ByocEndpoint, ByocSchemaVersion
+ * and ByocRegistrationEvent tables in @naap/database.
+ */
+
+import { Prisma, type PrismaClient } from '@naap/database';
+import type {
+  ByocAction,
+  ByocCapabilityRecord,
+  ByocEndpoint,
+  ByocEvent,
+  ByocPricing,
+  ByocSchemaVersion,
+  ByocStore,
+  EndpointHealth,
+  EndpointInput,
+} from './ByocStore.js';
+
+const CAPABILITY_INCLUDE = {
+  endpoints: { orderBy: { createdAt: 'asc' } },
+  schemaVersions: { orderBy: { version: 'desc' }, take: 1 },
+} as const;
+
+export class PrismaByocStore implements ByocStore {
+  constructor(private db: PrismaClient) {}
+
+  async list(): Promise<ByocCapabilityRecord[]> {
+    const rows = await this.db.byocCapability.findMany({ include: CAPABILITY_INCLUDE, orderBy: { name: 'asc' } });
+    return rows.map(toRecord);
+  }
+
+  async get(name: string): Promise<ByocCapabilityRecord | null> {
+    const row = await this.db.byocCapability.findUnique({ where: { name }, include: CAPABILITY_INCLUDE });
+    return row ? toRecord(row) : null;
+  }
+
+  async create(input: { name: string; registeredBy: string; description?: string; pricing?: ByocPricing }): Promise<void> {
+    await this.db.byocCapability.create({
+      data: {
+        name: input.name,
+        registeredBy: input.registeredBy,
+        description: input.description ?? null,
+        pricing: input.pricing ? (input.pricing as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      },
+    });
+  }
+
+  async update(name: string, input: { description?: string | null; pricing?: ByocPricing | null }): Promise<void> {
+    await this.db.byocCapability.update({
+      where: { name },
+      data: {
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.pricing !== undefined
+          ? { pricing: input.pricing ? (input.pricing as unknown as Prisma.InputJsonValue) : Prisma.JsonNull }
+          : {}),
+      },
+    });
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const { count } = await this.db.byocCapability.deleteMany({ where: { name } });
+    return count > 0;
+  }
+
+  async upsertEndpoint(name: string, input: EndpointInput): Promise<ByocEndpoint> {
+    const capability = await this.db.byocCapability.findUniqueOrThrow({ where: { name }, select: { id: true } });
+    const fields = {
+      ...(input.healthCheckUrl !== undefined ? { healthCheckUrl: input.healthCheckUrl } : {}),
+      ...(input.weight !== undefined ? { weight: input.weight } : {}),
+    };
+    return this.db.byocEndpoint.upsert({
+      where: { capabilityId_url: { capabilityId: capability.id, url: input.url } },
+      create: { capabilityId: capability.id, url: input.url, ...fields },
+      update: fields,
+    });
+  }
+
+  async removeEndpoint(name: string, endpointId: string): Promise<boolean> {
+    const { count } = await this.db.byocEndpoint.deleteMany({
+      where: { id: endpointId, capability: { name } },
+    });
+    return count > 0;
+  }
+
+  async recordHealth(endpointId: string, health: EndpointHealth): Promise<void> {
+    await this.db.byocEndpoint.updateMany({ where: { id: endpointId }, data: health });
+  }
+
+  async addSchemaVersion(
+    name: string,
+    input: { input?: unknown; output?: unknown; createdBy: string }
+  ): Promise<ByocSchemaVersion> {
+    // Retry once if a concurrent registration took the same version number
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.db.$transaction(async (tx) => {
+          const capability = await tx.byocCapability.findUniqueOrThrow({ where: { name }, select: { id: true } });
+          const latest = await tx.byocSchemaVersion.findFirst({
+            where: { capabilityId: capability.id },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+          return tx.byocSchemaVersion.create({
+            data: {
+              capabilityId: capability.id,
+              version: (latest?.version ?? 0) + 1,
+              input: toJson(input.input),
+              output: toJson(input.output),
+              createdBy: input.createdBy,
+            },
+          });
+        });
+      } catch (err) {
+        const conflict = err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+        if (!conflict || attempt > 0) throw err;
+      }
+    }
+  }
+
+  async getSchemaVersion(name: string, version: number): Promise<ByocSchemaVersion | null> {
+    return this.db.byocSchemaVersion.findFirst({ where: { version, capability: { name } } });
+  }
+
+  async listSchemaVersions(name: string): Promise<ByocSchemaVersion[]> {
+    return this.db.byocSchemaVersion.findMany({
+      where: { capability: { name } },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async appendEvent(event: Omit<ByocEvent, 'id' | 'createdAt'>): Promise<void> {
+    await this.db.byocRegistrationEvent.create({
+      data: {
+        capabilityName: event.capabilityName,
+        action: event.action,
+        actor: event.actor,
+        details: toJson(event.details),
+      },
+    });
+  }
+
+  async listEvents(name: string, limit: number): Promise<ByocEvent[]> {
+    const rows = await this.db.byocRegistrationEvent.findMany({
+      where: { capabilityName: name },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return rows.map((row) => ({
+      ...row,
+      action: row.action as ByocAction,
+      details: (row.details ?? null) as Record<string, unknown> | null,
+    }));
+  }
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null || value === undefined ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+type CapabilityRow = Omit<ByocCapabilityRecord, 'pricing' | 'schema'> & {
+  pricing: unknown;
+  schemaVersions: ByocSchemaVersion[];
+};
+
+function toRecord(row: CapabilityRow): ByocCapabilityRecord {
+  const { schemaVersions, ...rest } = row;
+  return {
+    ...rest,
+    pricing: (row.pricing ?? null) as ByocPricing | null,
+    schema: schemaVersions[0] ?? null,
+  };
+}
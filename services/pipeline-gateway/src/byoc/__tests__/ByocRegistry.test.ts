@@ -0,0 +1,83 @@
+/**
+ * ByocRegistry Tests
+ * Registration validation, ownership, schema versioning and endpoint selection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ByocRegistry, ByocError } from '../ByocRegistry.js';
+import { MemoryByocStore } from '../ByocStore.js';
+
+const schema = {
+  input: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+  output: { type: 'object' },
+};
+
+describe('ByocRegistry', () => {
+  let registry: ByocRegistry;
+
+  beforeEach(() => {
+    registry = new ByocRegistry(new MemoryByocStore());
+  });
+
+  it('rejects schemas that are not JSON Schema objects', async () => {
+    await expect(
+      registry.register({
+        name: 'upscaler',
+        registeredBy: 'plugin-a',
+        endpoints: [{ url: 'http://replica-1:9000' }],
+        schema: { input: 'prompt: string', output: {} },
+      })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST', status: 400 });
+  });
+
+  it('rejects non-http endpoints and out-of-range weights', async () => {
+    const register = (url: string, weight?: number) =>
+      registry.register({ name: 'upscaler', registeredBy: 'plugin-a', endpoints: [{ url, weight }] });
+
+    await expect(register('file:///etc/passwd')).rejects.toBeInstanceOf(ByocError);
+    await expect(register('http://replica-1:9000', 5000)).rejects.toThrow(/weight/);
+  });
+
+  it('publishes a new schema version only when the schema changes', async () => {
+    const base = { name: 'upscaler', registeredBy: 'plugin-a', endpoints: [{ url: 'http://replica-1:9000' }] };
+
+    await registry.register({ ...base, schema });
+    await registry.register({ ...base, endpoints: [{ url: 'http://replica-2:9000' }], schema });
+    const changed = await registry.register({
+      ...base,
+      schema: { ...schema, output: { type: 'object', properties: { url: { type: 'string' } } } },
+    });
+
+    expect(changed.schema?.version).toBe(2);
+    expect(changed.endpoints.map((e) => e.url).sort()).toEqual(['http://replica-1:9000', 'http://replica-2:9000']);
+    expect((await registry.schemaVersion('upscaler', 1))?.input).toEqual(schema.input);
+    const actions = (await registry.history('upscaler')).map((e) => e.action);
+    expect(actions.filter((a) => a === 'schema_published')).toHaveLength(2);
+  });
+
+  it('keeps capabilities owned by the plugin that registered them', async () => {
+    await registry.register({ name: 'upscaler', registeredBy: 'plugin-a', endpoints: [{ url: 'http://replica-1:9000' }] });
+
+    await expect(
+      registry.register({ name: 'upscaler', registeredBy: 'plugin-b', endpoints: [{ url: 'http://evil:9000' }] })
+    ).rejects.toMatchObject({ code: 'CONFLICT' });
+    await expect(registry.unregister('upscaler', 'plugin-b')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('selects only healthy, weighted endpoints that were not already tried', async () => {
+    const capability = await registry.register({
+      name: 'upscaler',
+      registeredBy: 'plugin-a',
+      endpoints: [
+        { url: 'http://replica-1:9000' },
+        { url: 'http://replica-2:9000', weight: 0 },
+        { url: 'http://replica-3:9000' },
+      ],
+    });
+    const [first, , third] = capability.endpoints;
+    third.healthy = false;
+
+    expect(registry.selectEndpoint(capability)?.id).toBe(first.id);
+    expect(registry.selectEndpoint(capability, new Set([first.id]))).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * BYOC Registry Index
+ *
+ * Re-exports the BYOC registry and picks its store: Postgres when a
+ * database URL is configured, otherwise the in-memory fallback.
+ */
+
+import { hasDatabase, loadPrisma } from '../database.js';
+import { MemoryByocStore, type ByocStore } from './ByocStore.js';
+
+export { ByocRegistry, ByocError } from './ByocRegistry.js';
+export type { ByocErrorCode, ByocRegistryConfig, RegisterInput } from './ByocRegistry.js';
+export { MemoryByocStore } from './ByocStore.js';
+export type {
+  ByocAction,
+  ByocCapabilityRecord,
+  ByocEndpoint,
+  ByocEvent,
+  ByocPricing,
+  ByocSchemaVersion,
+  ByocStore,
+  EndpointInput,
+} from './ByocStore.js';
+
+export async function createByocStore(): Promise<ByocStore> {
+  if (!hasDatabase()) {
+    console.warn('[pipeline-gateway] No database configured; BYOC registrations are kept in memory and lost on restart');
+    return new MemoryByocStore();
+  }
+  const [prisma, { PrismaByocStore }] = await Promise.all([loadPrisma(), import('./PrismaByocStore.js')]);
+  return new PrismaByocStore(prisma);
+}
@@ -0,0 +1,37 @@
+/**
+ * Result Blob Store
+ *
+ * Keeps large cached outputs (images, audio) out of Redis. Blobs are
+ * uploaded to storage-svc, which files them under their SHA-256, and are
+ * referenced from cache entries by URL.
+ */
+
+export interface BlobStore {
+  /** Store bytes and return the URL they can be fetched from. */
+  put(data: ArrayBuffer, contentType: string): Promise<string>;
+  get(url: string): Promise<ArrayBuffer>;
+}
+
+export class StorageServiceBlobStore implements BlobStore {
+  constructor(private baseUrl: string, private timeoutMs = 30_000) {}
+
+  async put(data: ArrayBuffer, contentType: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data], { type: contentType }), 'output');
+
+    const res = await fetch(`${this.baseUrl}/api/v1/storage/pipeline-cache`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!res.ok) throw new Error(`storage-svc upload failed: ${res.status}`);
+    const { url } = (await res.json()) as { url: string };
+    return url;
+  }
+
+  async get(url: string): Promise<ArrayBuffer> {
+    const res = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!res.ok) throw new Error(`storage-svc download failed: ${res.status}`);
+    return res.arrayBuffer();
+  }
+}
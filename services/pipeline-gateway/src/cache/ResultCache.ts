@@ -0,0 +1,259 @@
+/**
+ * Deterministic Result Cache
+ *
+ * Opt-in, per pipeline: a pipeline is cached only when it has a TTL. The
+ * cache key is a SHA-256 over the pipeline, model and full input (binary
+ * inputs hashed by content), so identical requests share an entry. Seeded
+ * generators (text-to-image, image-to-image) are only cached when the
+ * request pins a `seed`; without one the output is random by design.
+ *
+ * Entries live in @naap/cache (Redis, in-memory fallback). Outputs that are
+ * too large for it — binary results, big data URIs, and orchestrator-hosted
+ * files that expire — are copied to blob storage and referenced by URL.
+ * Entries are written after the response is sent, so a miss costs nothing.
+ */
+
+import { createHash } from 'node:crypto';
+import { cacheGet, cacheSet } from '@naap/cache';
+import type { BlobStore } from './BlobStore.js';
+
+export interface ResultCacheConfig {
+  /** TTL in seconds per pipeline; pipelines without one are never cached. */
+  ttls: Record<string, number>;
+  /** Data URIs larger than this are moved to blob storage. */
+  inlineMaxBytes: number;
+  /** Entries still larger than this after offloading are not cached. */
+  maxEntryBytes: number;
+}
+
+/** Where entries are kept; @naap/cache unless a test swaps it. */
+export interface CacheEntryStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+}
+
+export interface CachedRun {
+  result: unknown;
+  model: string;
+  cached: boolean;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  bypassed: number;
+  stored: number;
+  errors: number;
+}
+
+export interface CacheStats extends CacheCounters {
+  hitRate: number;
+}
+
+const CACHE_PREFIX = 'pipeline-result';
+const SEEDED_PIPELINES = new Set(['text-to-image', 'image-to-image']);
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+const redisEntryStore: CacheEntryStore = {
+  get: (key) => cacheGet(key, { prefix: CACHE_PREFIX }),
+  set: (key, value, ttl) => cacheSet(key, value, { prefix: CACHE_PREFIX, ttl }),
+};
+
+interface CacheEntry {
+  model: string;
+  /** JSON result, with large outputs replaced by blob URLs. */
+  result?: unknown;
+  /** Set instead of `result` when the output is binary (text-to-speech). */
+  binaryUrl?: string;
+  storedAt: number;
+}
+
+/** Thrown while preparing an entry that cannot be stored. */
+class UncacheableError extends Error {}
+
+export class ResultCache {
+  private counters = new Map<string, CacheCounters>();
+
+  constructor(
+    private config: ResultCacheConfig,
+    private blobs: BlobStore | null,
+    private entries: CacheEntryStore = redisEntryStore
+  ) {}
+
+  /**
+   * Serve `body` from the cache, or run `execute` and cache its output.
+   * With `bypass` the lookup is skipped but the fresh result still
+   * replaces the entry.
+   */
+  async run(
+    pipeline: string,
+    body: Record<string, unknown>,
+    bypass: boolean,
+    execute: () => Promise<{ result: unknown; model: string }>
+  ): Promise<CachedRun> {
+    const ttl = this.config.ttls[pipeline];
+    if (!ttl || (SEEDED_PIPELINES.has(pipeline) && body.seed === undefined)) {
+      return { ...(await execute()), cached: false };
+    }
+
+    const key = await requestKey(pipeline, body);
+    if (bypass) {
+      this.count(pipeline, 'bypassed');
+    } else {
+      const hit = await this.read(pipeline, key);
+      if (hit) {
+        this.count(pipeline, 'hits');
+        return { ...hit, cached: true };
+      }
+      this.count(pipeline, 'misses');
+    }
+
+    const fresh = await execute();
+    this.write(pipeline, key, ttl, fresh).catch((err) => {
+      this.count(pipeline, 'errors');
+      console.warn(`[pipeline-gateway] Failed to cache ${pipeline} result:`, err instanceof Error ? err.message : err);
+    });
+    return { ...fresh, cached: false };
+  }
+
+  /** Counters since start, overall and per pipeline. */
+  stats(): { enabled: Record<string, number>; totals: CacheStats; pipelines: Record<string, CacheStats> } {
+    const totals: CacheCounters = { hits: 0, misses: 0, bypassed: 0, stored: 0, errors: 0 };
+    const pipelines: Record<string, CacheStats> = {};
+    for (const [pipeline, counters] of this.counters) {
+      pipelines[pipeline] = withHitRate(counters);
+      for (const field of Object.keys(totals) as Array<keyof CacheCounters>) {
+        totals[field] += counters[field];
+      }
+    }
+    return { enabled: { ...this.config.ttls }, totals: withHitRate(totals), pipelines };
+  }
+
+  // ─── Internals ─────────────────────────────────────────────────────────────
+
+  private async read(pipeline: string, key: string): Promise<{ result: unknown; model: string } | null> {
+    try {
+      const entry = await this.entries.get<CacheEntry>(key);
+      if (!entry) return null;
+      if (entry.binaryUrl) {
+        if (!this.blobs) return null;
+        return { result: await this.blobs.get(entry.binaryUrl), model: entry.model };
+      }
+      return { result: entry.result, model: entry.model };
+    } catch (err) {
+      // An unreadable entry (e.g. its blob is gone) is treated as a miss
+      this.count(pipeline, 'errors');
+      console.warn(`[pipeline-gateway] Cache read failed for ${pipeline}:`, err instanceof Error ? err.message : err);
+      return null;
+    }
+  }
+
+  private async write(pipeline: string, key: string, ttl: number, fresh: { result: unknown; model: string }) {
+    let entry: CacheEntry;
+    try {
+      entry = fresh.result instanceof ArrayBuffer
+        ? { model: fresh.model, binaryUrl: await this.requireBlobs().put(fresh.result, 'application/octet-stream'), storedAt: Date.now() }
+        : { model: fresh.model, result: await this.offload(fresh.result), storedAt: Date.now() };
+    } catch (err) {
+      if (err instanceof UncacheableError) return;
+      throw err;
+    }
+
+    if (JSON.stringify(entry).length > this.config.maxEntryBytes) return;
+    await this.entries.set(key, entry, ttl);
+    this.count(pipeline, 'stored');
+  }
+
+  /**
+   * Copy outputs that would bloat the entry or go stale — large data URIs
+   * and files the orchestrator serves (`url` fields) — to blob storage.
+   */
+  private async offload(value: unknown, field?: string): Promise<unknown> {
+    if (typeof value === 'string') {
+      const dataUri = parseDataUri(value);
+      if (dataUri) {
+        return dataUri.data.byteLength > this.config.inlineMaxBytes
+          ? this.requireBlobs().put(dataUri.data, dataUri.contentType)
+          : value;
+      }
+      if (field === 'url' && /^https?:\/\//i.test(value)) {
+        const res = await fetch(value, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+        if (!res.ok) throw new UncacheableError(`output download failed: ${res.status}`);
+        const contentType = res.headers.get('content-type') || 'application/octet-stream';
+        return this.requireBlobs().put(await res.arrayBuffer(), contentType);
+      }
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => this.offload(item)));
+    }
+    if (value && typeof value === 'object') {
+      const entries = await Promise.all(
+        Object.entries(value).map(async ([k, v]) => [k, await this.offload(v, k)] as const)
+      );
+      return Object.fromEntries(entries);
+    }
+    return value;
+  }
+
+  private requireBlobs(): BlobStore {
+    if (!this.blobs) throw new UncacheableError('no blob storage configured');
+    return this.blobs;
+  }
+
+  private count(pipeline: string, field: keyof CacheCounters): void {
+    let counters = this.counters.get(pipeline);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, bypassed: 0, stored: 0, errors: 0 };
+      this.counters.set(pipeline, counters);
+    }
+    counters[field]++;
+  }
+}
+
+function withHitRate(counters: CacheCounters): CacheStats {
+  const lookups = counters.hits + counters.misses;
+  return { ...counters, hitRate: lookups ? Number((counters.hits / lookups).toFixed(4)) : 0 };
+}
+
+/** SHA-256 over pipeline, model and the canonicalized input. */
+export async function requestKey(pipeline: string, body: Record<string, unknown>): Promise<string> {
+  const model = (body.model_id as string) || 'default';
+  const canonical = await canonicalize({ pipeline, model, input: body });
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/** Sort object keys, drop undefined, and replace binary values by their digest. */
+async function canonicalize(value: unknown): Promise<unknown> {
+  if (value instanceof Blob) return { $sha256: sha256(await value.arrayBuffer()) };
+  if (value instanceof ArrayBuffer) return { $sha256: sha256(value) };
+  if (ArrayBuffer.isView(value)) return { $sha256: sha256(value) };
+  if (Array.isArray(value)) return Promise.all(value.map(canonicalize));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const child = (value as Record<string, unknown>)[key];
+      if (child !== undefined) out[key] = await canonicalize(child);
+    }
+    return out;
+  }
+  return value;
+}
+
+function sha256(data: ArrayBuffer | ArrayBufferView): string {
+  const bytes = data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function parseDataUri(value: string): { contentType: string; data: ArrayBuffer } | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),/i.exec(value);
+  if (!match) return null;
+  const payload = value.slice(match[0].length);
+  const buffer = /;base64/i.test(match[2])
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload));
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  return { contentType: match[1] || 'application/octet-stream', data };
+}
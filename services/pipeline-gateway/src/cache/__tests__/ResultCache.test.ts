@@ -0,0 +1,121 @@
+/**
+ * ResultCache Tests
+ * Request keying, seeded pipelines, bypass and blob offload
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ResultCache, requestKey, type CacheEntryStore } from '../ResultCache.js';
+import type { BlobStore } from '../BlobStore.js';
+
+function memoryEntries(): CacheEntryStore & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: async <T>(key: string) => (data.get(key) as T) ?? null,
+    set: async <T>(key: string, value: T) => {
+      data.set(key, value);
+    },
+  };
+}
+
+function memoryBlobs(): BlobStore & { puts: number } {
+  const blobs = new Map<string, ArrayBuffer>();
+  const store = {
+    puts: 0,
+    put: async (data: ArrayBuffer) => {
+      const url = `http://storage/blob-${++store.puts}`;
+      blobs.set(url, data);
+      return url;
+    },
+    get: async (url: string) => blobs.get(url)!,
+  };
+  return store;
+}
+
+/** Cache writes happen after the response; let them land. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('requestKey', () => {
+  it('ignores key order and undefined fields', async () => {
+    const a = await requestKey('llm', { model_id: 'm', messages: [{ role: 'user', content: 'hi' }], max_tokens: undefined });
+    const b = await requestKey('llm', { messages: [{ content: 'hi', role: 'user' }], model_id: 'm' });
+
+    expect(a).toBe(b);
+  });
+
+  it('separates pipelines, models and binary contents', async () => {
+    const image = (byte: number) => new Blob([new Uint8Array([byte])]);
+
+    const keys = await Promise.all([
+      requestKey('image-to-text', { image: image(1) }),
+      requestKey('image-to-text', { image: image(2) }),
+      requestKey('image-to-text', { image: image(1), model_id: 'other' }),
+      requestKey('image-to-video', { image: image(1) }),
+    ]);
+
+    expect(new Set(keys).size).toBe(4);
+    expect(await requestKey('image-to-text', { image: image(1) })).toBe(keys[0]);
+  });
+});
+
+describe('ResultCache', () => {
+  let entries: ReturnType<typeof memoryEntries>;
+  let calls: number;
+  const execute = async () => {
+    calls++;
+    return { result: { text: `run ${calls}` }, model: 'm' };
+  };
+
+  beforeEach(() => {
+    entries = memoryEntries();
+    calls = 0;
+  });
+
+  it('serves repeat requests from the cache and counts hits', async () => {
+    const cache = new ResultCache({ ttls: { llm: 60 }, inlineMaxBytes: 1024, maxEntryBytes: 10_000 }, null, entries);
+
+    const first = await cache.run('llm', { prompt: 'x' }, false, execute);
+    await flush();
+    const second = await cache.run('llm', { prompt: 'x' }, false, execute);
+
+    expect(first.cached).toBe(false);
+    expect(second).toEqual({ result: { text: 'run 1' }, model: 'm', cached: true });
+    expect(cache.stats().pipelines.llm).toMatchObject({ hits: 1, misses: 1, stored: 1, hitRate: 0.5 });
+  });
+
+  it('skips pipelines without a TTL and unseeded image generation', async () => {
+    const cache = new ResultCache({ ttls: { 'text-to-image': 60 }, inlineMaxBytes: 1024, maxEntryBytes: 10_000 }, null, entries);
+
+    await cache.run('llm', { prompt: 'x' }, false, execute);
+    await cache.run('text-to-image', { prompt: 'x' }, false, execute);
+    await flush();
+
+    expect(entries.data.size).toBe(0);
+  });
+
+  it('refreshes the entry on bypass', async () => {
+    const cache = new ResultCache({ ttls: { llm: 60 }, inlineMaxBytes: 1024, maxEntryBytes: 10_000 }, null, entries);
+
+    await cache.run('llm', { prompt: 'x' }, false, execute);
+    await flush();
+    const bypassed = await cache.run('llm', { prompt: 'x' }, true, execute);
+    await flush();
+    const hit = await cache.run('llm', { prompt: 'x' }, false, execute);
+
+    expect(bypassed.cached).toBe(false);
+    expect(hit.result).toEqual({ text: 'run 2' });
+  });
+
+  it('moves large data URIs to blob storage', async () => {
+    const blobs = memoryBlobs();
+    const cache = new ResultCache({ ttls: { 'text-to-image': 60 }, inlineMaxBytes: 4, maxEntryBytes: 10_000 }, blobs, entries);
+    const image = `data:image/png;base64,${Buffer.from('0123456789').toString('base64')}`;
+
+    await cache.run('text-to-image', { prompt: 'x', seed: 1 }, false, async () => ({ result: { images: [{ url: image }] }, model: 'sd' }));
+    await flush();
+    const hit = await cache.run('text-to-image', { prompt: 'x', seed: 1 }, false, execute);
+
+    expect(blobs.puts).toBe(1);
+    expect(hit.result).toEqual({ images: [{ url: 'http://storage/blob-1' }] });
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Result Cache Index
+ */
+
+export { ResultCache, requestKey } from './ResultCache.js';
+export type { CacheCounters, CacheEntryStore, CacheStats, CachedRun, ResultCacheConfig } from './ResultCache.js';
+export { StorageServiceBlobStore } from './BlobStore.js';
+export type { BlobStore } from './BlobStore.js';
@@ -0,0 +1,17 @@
+/**
+ * Database access for the pipeline gateway's persistent stores (async jobs,
+ * BYOC registry, live sessions, spend caps). Postgres is optional: without a
+ * database URL each store falls back to process memory.
+ */
+
+import type { PrismaClient } from '@naap/database';
+
+export function hasDatabase(): boolean {
+  return Boolean(process.env.DATABASE_URL || process.env.POSTGRES_PRISMA_URL || process.env.POSTGRES_URL);
+}
+
+/** Loaded lazily so the gateway starts without a generated Prisma client in dev. */
+export async function loadPrisma(): Promise<PrismaClient> {
+  const { prisma } = await import('@naap/database');
+  return prisma;
+}
@@ -0,0 +1,75 @@
+/**
+ * Caller Identity
+ *
+ * Pipeline routes are public, so the SDK's auth middleware skips them and
+ * `x-team-id` arrives unverified. `resolveIdentity` validates a bearer token
+ * when one is sent and keeps the team only when the authenticated user is a
+ * member of it; otherwise `teamId` is cleared. Owner keys (spend caps, jobs,
+ * batches, live sessions) are built from the result, never the raw header.
+ *
+ * Routes that hand back or act on something the caller owns (async jobs,
+ * batches, live sessions) use `requireCaller`: without a user every
+ * anonymous caller would share the one "anonymous" owner key.
+ *
+ * Membership is read from Postgres and cached briefly. Without a database
+ * there is nothing to check against, so team headers are ignored and
+ * callers are keyed by user.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { createAuthMiddleware, type AuthenticatedRequest } from '@naap/plugin-server-sdk';
+import { hasDatabase, loadPrisma } from './database.js';
+
+const MEMBERSHIP_TTL_MS = 60_000;
+
+const authenticate = createAuthMiddleware({ publicPaths: [] });
+const memberships = new Map<string, { member: boolean; expiresAt: number }>();
+
+async function isTeamMember(teamId: string, userId: string): Promise<boolean> {
+  if (!hasDatabase()) return false;
+
+  const key = `${teamId}:${userId}`;
+  const cached = memberships.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.member;
+
+  const prisma = await loadPrisma();
+  const membership = await prisma.teamMember.findFirst({ where: { teamId, userId }, select: { id: true } });
+  memberships.set(key, { member: membership !== null, expiresAt: Date.now() + MEMBERSHIP_TTL_MS });
+  return membership !== null;
+}
+
+/** Express middleware: authenticate when a token is present, then verify the team. */
+export function resolveIdentity(req: Request, res: Response, next: NextFunction): void {
+  const authReq = req as AuthenticatedRequest;
+  const verifyTeam = () => {
+    const teamId = req.headers['x-team-id'] as string | undefined;
+    const userId = authReq.user?.id;
+    authReq.teamId = undefined;
+    if (!teamId || !userId) return next();
+
+    isTeamMember(teamId, userId)
+      .then((member) => {
+        if (member) authReq.teamId = teamId;
+        next();
+      })
+      .catch((err) => {
+        console.warn('[pipeline-gateway] team membership lookup failed:', err);
+        res.status(503).json({
+          success: false,
+          error: { code: 'IDENTITY_UNAVAILABLE', message: 'Could not verify team membership' },
+        });
+      });
+  };
+
+  if (!req.headers.authorization) return verifyTeam();
+  void authenticate(authReq, res, verifyTeam);
+}
+
+/** Express middleware: 401 unless `resolveIdentity` authenticated a user. */
+export function requireCaller(req: Request, res: Response, next: NextFunction): void {
+  if ((req as AuthenticatedRequest).user) return next();
+  res.status(401).json({
+    success: false,
+    error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Async Job Queue
+ *
+ * Polls a `JobStore` for runnable jobs and executes them with a runner
+ * supplied by the adapter. Each claimed job holds a lease that is renewed
+ * while it runs; if the process dies the lease lapses and another worker
+ * (or this one, after restart) picks the job up again.
+ *
+ * - Retries: failed attempts go back to pending with exponential backoff
+ *   until `maxAttempts`; upstream 4xx responses (other than 408/429) fail
+ *   immediately.
+ * - Concurrency: at most `concurrency` jobs per process, and at most
+ *   `maxPerOwner` running jobs per team (or user) across all replicas.
+ * - Cancellation: cancelling marks the job in the store and aborts the
+ *   local run; other replicas notice when their lease renewal is refused.
+ * - Webhooks: terminal jobs with a callback URL are delivered by the same
+ *   poll loop, with their own retry schedule.
+ */
+
+import type { JobListFilter, JobStore, NewJob, PipelineJob } from './JobStore.js';
+import { deliverWebhook } from './webhooks.js';
+
+export interface JobQueueConfig {
+  workerId: string;
+  /** Jobs this process runs at once. */
+  concurrency: number;
+  /** Running jobs per owner (team, else user) across all replicas. */
+  maxPerOwner: number;
+  leaseMs: number;
+  pollIntervalMs: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  /** Completion webhooks are only sent when a signing secret is configured. */
+  webhookSecret?: string;
+  webhookMaxAttempts: number;
+}
+
+export type JobRunner = (job: PipelineJob, signal: AbortSignal) => Promise<unknown>;
+
+const WEBHOOK_BATCH_SIZE = 10;
+const WEBHOOK_LEASE_MS = 30_000;
+
+/** Delay before retry number `attempt` (1-based), with ±20% jitter. */
+export function retryDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/** Upstream client errors are permanent; everything else is worth another attempt. */
+export function isRetryableError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  const status = Number(/failed: (\d{3})\b/.exec(message)?.[1]);
+  if (!status) return true;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+export class JobQueue {
+  private running = new Map<string, AbortController>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private claiming = false;
+  private delivering = false;
+
+  constructor(
+    private store: JobStore,
+    private runner: JobRunner,
+    private config: JobQueueConfig
+  ) {}
+
+  submit(job: NewJob): Promise<PipelineJob> {
+    const submitted = this.store.create(job);
+    // Pick it up right away rather than on the next poll
+    submitted.then(() => this.poll()).catch(() => undefined);
+    return submitted;
+  }
+
+  get(requestId: string): Promise<PipelineJob | null> {
+    return this.store.get(requestId);
+  }
+
+  list(filter: JobListFilter): Promise<PipelineJob[]> {
+    return this.store.list(filter);
+  }
+
+  async cancel(requestId: string): Promise<PipelineJob | null> {
+    const job = await this.store.cancel(requestId);
+    if (job) {
+      this.running.get(requestId)?.abort();
+      this.poll();
+    }
+    return job;
+  }
+
+  prune(olderThanMs: number): Promise<number> {
+    return this.store.prune(new Date(Date.now() - olderThanMs));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), this.config.pollIntervalMs);
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const controller of this.running.values()) controller.abort();
+  }
+
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  private poll(): void {
+    if (!this.timer) return;
+    void this.claimJobs();
+    void this.deliverWebhooks();
+  }
+
+  private async claimJobs(): Promise<void> {
+    if (this.claiming) return;
+    this.claiming = true;
+    try {
+      while (this.running.size < this.config.concurrency) {
+        const job = await this.store.claim(this.config.workerId, this.config.leaseMs, this.config.maxPerOwner);
+        if (!job) break;
+        void this.run(job);
+      }
+    } catch (err) {
+      console.warn('[pipeline-gateway] job claim failed:', err);
+    } finally {
+      this.claiming = false;
+    }
+  }
+
+  private async run(job: PipelineJob): Promise<void> {
+    const { workerId, leaseMs } = this.config;
+    const controller = new AbortController();
+    this.running.set(job.requestId, controller);
+
+    const renewal = setInterval(() => {
+      this.store
+        .renew(job.requestId, workerId, leaseMs)
+        .then((held) => {
+          if (!held) controller.abort();
+        })
+        .catch((err) => console.warn(`[pipeline-gateway] lease renewal failed for ${job.requestId}:`, err));
+    }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+    try {
+      const result = await abortable(this.runner(job, controller.signal), controller.signal);
+      await this.store.complete(job.requestId, workerId, result);
+    } catch (err) {
+      // Cancelled or reclaimed: the store has already moved the job on
+      if (controller.signal.aborted) return;
+
+      const message = err instanceof Error ? err.message : String(err);
+      const retry = job.attempts < job.maxAttempts && isRetryableError(err);
+      const retryAt = retry
+        ? new Date(Date.now() + retryDelay(job.attempts, this.config.retryBaseMs, this.config.retryMaxMs))
+        : null;
+      await this.store
+        .fail(job.requestId, workerId, message, retryAt)
+        .catch((storeErr) => console.warn(`[pipeline-gateway] could not record failure for ${job.requestId}:`, storeErr));
+    } finally {
+      clearInterval(renewal);
+      this.running.delete(job.requestId);
+      this.poll();
+    }
+  }
+
+  private async deliverWebhooks(): Promise<void> {
+    const secret = this.config.webhookSecret;
+    if (!secret || this.delivering) return;
+    this.delivering = true;
+    try {
+      for (let i = 0; i < WEBHOOK_BATCH_SIZE; i++) {
+        const job = await this.store.claimWebhook(WEBHOOK_LEASE_MS);
+        if (!job) break;
+
+        const error = await deliverWebhook(job, secret);
+        const attempt = job.webhookAttempts + 1;
+        await this.store.recordWebhook(
+          job.requestId,
+          error === null
+            ? { delivered: true }
+            : {
+                delivered: false,
+                error,
+                retryAt: attempt < this.config.webhookMaxAttempts
+                  ? new Date(Date.now() + retryDelay(attempt, this.config.retryBaseMs, this.config.retryMaxMs))
+                  : undefined,
+              }
+        );
+      }
+    } catch (err) {
+      console.warn('[pipeline-gateway] webhook delivery failed:', err);
+    } finally {
+      this.delivering = false;
+    }
+  }
+}
+
+/** Settle with the promise, or reject as soon as `signal` aborts. */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new Error('Job aborted'));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Job aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
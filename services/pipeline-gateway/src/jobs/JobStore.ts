@@ -0,0 +1,278 @@
+/**
+ * Async Job Store
+ *
+ * Persistence contract for the async job queue. `PrismaJobStore` keeps jobs
+ * in Postgres so they survive restarts and are shared across replicas;
+ * `MemoryJobStore` is the single-process fallback used when no database is
+ * configured (local development).
+ *
+ * State machine:
+ *   pending ──claim──▶ processing ──complete──▶ completed
+ *      ▲                   │ └──────fail──────▶ error
+ *      └──fail (retry)─────┘
+ *   pending | processing ──cancel──▶ cancelled
+ *
+ * complete/fail only apply while the caller still holds the job's lease, so
+ * a cancelled job, or one another worker reclaimed, is never overwritten.
+ */
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+export type WebhookStatus = 'pending' | 'delivered' | 'failed';
+
+export const TERMINAL_STATUSES: readonly JobStatus[] = ['completed', 'error', 'cancelled'];
+
+export interface PipelineJob {
+  id: string;
+  requestId: string;
+  pipeline: string;
+  teamId: string | null;
+  userId: string | null;
+  /** Concurrency bucket: teamId, else userId, else "anonymous". */
+  ownerKey: string;
+  status: JobStatus;
+  input: Record<string, unknown>;
+  result: unknown;
+  error: string | null;
+  model: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  callbackUrl: string | null;
+  webhookStatus: WebhookStatus | null;
+  webhookAttempts: number;
+  webhookNextAt: Date | null;
+  webhookLastError: string | null;
+  submittedAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface NewJob {
+  requestId: string;
+  pipeline: string;
+  teamId?: string;
+  userId?: string;
+  input: Record<string, unknown>;
+  model?: string;
+  maxAttempts: number;
+  callbackUrl?: string;
+  /** Hold the job until then (e.g. the owner's spend cap resets); default now. */
+  runAfter?: Date;
+}
+
+export interface JobListFilter {
+  ownerKey?: string;
+  status?: JobStatus;
+  limit?: number;
+}
+
+export interface WebhookOutcome {
+  delivered: boolean;
+  error?: string;
+  /** Next attempt; omit to give up and mark the webhook failed. */
+  retryAt?: Date;
+}
+
+export interface JobStore {
+  create(job: NewJob): Promise<PipelineJob>;
+  get(requestId: string): Promise<PipelineJob | null>;
+  list(filter: JobListFilter): Promise<PipelineJob[]>;
+  /**
+   * Lease the oldest runnable job — pending and due, or processing with a
+   * lapsed lease — whose owner has fewer than `maxPerOwner` live leases.
+   */
+  claim(workerId: string, leaseMs: number, maxPerOwner: number): Promise<PipelineJob | null>;
+  /** Extend a lease. Returns false once the job is no longer ours to run (cancelled or reclaimed). */
+  renew(requestId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  complete(requestId: string, workerId: string, result: unknown): Promise<boolean>;
+  /** Record a failed attempt: back to pending at `retryAt`, or terminal `error` when null. */
+  fail(requestId: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean>;
+  /** Cancel a pending or processing job. Returns null when it does not exist or already finished. */
+  cancel(requestId: string): Promise<PipelineJob | null>;
+  /** Lease the next due webhook delivery for `leaseMs`. */
+  claimWebhook(leaseMs: number): Promise<PipelineJob | null>;
+  recordWebhook(requestId: string, outcome: WebhookOutcome): Promise<void>;
+  /** Delete finished jobs whose completion is older than `before` and whose webhook is settled. */
+  prune(before: Date): Promise<number>;
+}
+
+export function ownerKeyFor(teamId?: string | null, userId?: string | null): string {
+  if (teamId) return `team:${teamId}`;
+  if (userId) return `user:${userId}`;
+  return 'anonymous';
+}
+
+// ─── In-memory fallback ──────────────────────────────────────────────────────
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, PipelineJob>();
+
+  async create(job: NewJob): Promise<PipelineJob> {
+    if (this.jobs.has(job.requestId)) {
+      throw new Error(`Job '${job.requestId}' already exists`);
+    }
+    const now = new Date();
+    const record: PipelineJob = {
+      id: crypto.randomUUID(),
+      requestId: job.requestId,
+      pipeline: job.pipeline,
+      teamId: job.teamId ?? null,
+      userId: job.userId ?? null,
+      ownerKey: ownerKeyFor(job.teamId, job.userId),
+      status: 'pending',
+      input: job.input,
+      result: null,
+      error: null,
+      model: job.model ?? null,
+      attempts: 0,
+      maxAttempts: job.maxAttempts,
+      runAfter: job.runAfter ?? now,
+      lockedBy: null,
+      lockedUntil: null,
+      callbackUrl: job.callbackUrl ?? null,
+      webhookStatus: null,
+      webhookAttempts: 0,
+      webhookNextAt: null,
+      webhookLastError: null,
+      submittedAt: now,
+      startedAt: null,
+      completedAt: null,
+    };
+    this.jobs.set(job.requestId, record);
+    return { ...record };
+  }
+
+  async get(requestId: string): Promise<PipelineJob | null> {
+    const job = this.jobs.get(requestId);
+    return job ? { ...job } : null;
+  }
+
+  async list(filter: JobListFilter): Promise<PipelineJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((j) => (!filter.ownerKey || j.ownerKey === filter.ownerKey) && (!filter.status || j.status === filter.status))
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime())
+      .slice(0, filter.limit ?? 50)
+      .map((j) => ({ ...j }));
+  }
+
+  async claim(workerId: string, leaseMs: number, maxPerOwner: number): Promise<PipelineJob | null> {
+    const now = Date.now();
+    const running = new Map<string, number>();
+    for (const job of this.jobs.values()) {
+      if (job.status === 'processing' && job.lockedUntil && job.lockedUntil.getTime() > now) {
+        running.set(job.ownerKey, (running.get(job.ownerKey) ?? 0) + 1);
+      }
+    }
+
+    const candidate = Array.from(this.jobs.values())
+      .filter((j) =>
+        (j.status === 'pending' && j.runAfter.getTime() <= now) ||
+        (j.status === 'processing' && j.lockedUntil !== null && j.lockedUntil.getTime() <= now)
+      )
+      .filter((j) => (running.get(j.ownerKey) ?? 0) < maxPerOwner)
+      .sort((a, b) => a.runAfter.getTime() - b.runAfter.getTime())[0];
+    if (!candidate) return null;
+
+    candidate.status = 'processing';
+    candidate.lockedBy = workerId;
+    candidate.lockedUntil = new Date(now + leaseMs);
+    candidate.attempts++;
+    candidate.startedAt ??= new Date(now);
+    return { ...candidate };
+  }
+
+  async renew(requestId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.leased(requestId, workerId);
+    if (!job) return false;
+    job.lockedUntil = new Date(Date.now() + leaseMs);
+    return true;
+  }
+
+  async complete(requestId: string, workerId: string, result: unknown): Promise<boolean> {
+    const job = this.leased(requestId, workerId);
+    if (!job) return false;
+    job.status = 'completed';
+    job.result = result;
+    job.error = null;
+    this.finish(job);
+    return true;
+  }
+
+  async fail(requestId: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    const job = this.leased(requestId, workerId);
+    if (!job) return false;
+    job.error = error;
+    job.lockedBy = null;
+    job.lockedUntil = null;
+    if (retryAt) {
+      job.status = 'pending';
+      job.runAfter = retryAt;
+    } else {
+      job.status = 'error';
+      this.finish(job);
+    }
+    return true;
+  }
+
+  async cancel(requestId: string): Promise<PipelineJob | null> {
+    const job = this.jobs.get(requestId);
+    if (!job || TERMINAL_STATUSES.includes(job.status)) return null;
+    job.status = 'cancelled';
+    job.lockedBy = null;
+    job.lockedUntil = null;
+    this.finish(job);
+    return { ...job };
+  }
+
+  async claimWebhook(leaseMs: number): Promise<PipelineJob | null> {
+    const now = Date.now();
+    const due = Array.from(this.jobs.values())
+      .filter((j) => j.webhookStatus === 'pending' && j.webhookNextAt && j.webhookNextAt.getTime() <= now)
+      .sort((a, b) => a.webhookNextAt!.getTime() - b.webhookNextAt!.getTime())[0];
+    if (!due) return null;
+    due.webhookNextAt = new Date(now + leaseMs);
+    return { ...due };
+  }
+
+  async recordWebhook(requestId: string, outcome: WebhookOutcome): Promise<void> {
+    const job = this.jobs.get(requestId);
+    if (!job) return;
+    job.webhookAttempts++;
+    job.webhookLastError = outcome.error ?? null;
+    if (outcome.delivered) {
+      job.webhookStatus = 'delivered';
+      job.webhookNextAt = null;
+    } else if (outcome.retryAt) {
+      job.webhookNextAt = outcome.retryAt;
+    } else {
+      job.webhookStatus = 'failed';
+      job.webhookNextAt = null;
+    }
+  }
+
+  async prune(before: Date): Promise<number> {
+    let pruned = 0;
+    for (const [id, job] of this.jobs) {
+      if (job.completedAt && job.completedAt < before && job.webhookStatus !== 'pending') {
+        this.jobs.delete(id);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  private leased(requestId: string, workerId: string): PipelineJob | null {
+    const job = this.jobs.get(requestId);
+    return job && job.status === 'processing' && job.lockedBy === workerId ? job : null;
+  }
+
+  private finish(job: PipelineJob): void {
+    job.completedAt = new Date();
+    if (job.callbackUrl) {
+      job.webhookStatus = 'pending';
+      job.webhookNextAt = job.completedAt;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Postgres Job Store
+ *
+ * `JobStore` backed by the `PipelineJob` table in @naap/database. Claims
+ * use `FOR UPDATE SKIP LOCKED`, so any number of gateway replicas can poll
+ * the same table without handing a job to two workers. The per-owner
+ * concurrency check runs inside the claim query; two replicas claiming for
+ * the same owner at the same instant can briefly exceed the limit by one.
+ */
+
+import { Prisma, type PrismaClient } from '@naap/database';
+import {
+  ownerKeyFor,
+  type JobListFilter,
+  type JobStatus,
+  type JobStore,
+  type NewJob,
+  type PipelineJob,
+  type WebhookOutcome,
+  type WebhookStatus,
+} from './JobStore.js';
+
+type JobRow = Omit<PipelineJob, 'status' | 'input' | 'webhookStatus'> & {
+  status: string;
+  input: unknown;
+  webhookStatus: string | null;
+};
+
+export class PrismaJobStore implements JobStore {
+  constructor(private db: PrismaClient) {}
+
+  async create(job: NewJob): Promise<PipelineJob> {
+    const row = await this.db.pipelineJob.create({
+      data: {
+        requestId: job.requestId,
+        pipeline: job.pipeline,
+        teamId: job.teamId ?? null,
+        userId: job.userId ?? null,
+        ownerKey: ownerKeyFor(job.teamId, job.userId),
+        input: job.input as Prisma.InputJsonValue,
+        model: job.model ?? null,
+        maxAttempts: job.maxAttempts,
+        callbackUrl: job.callbackUrl ?? null,
+        ...(job.runAfter ? { runAfter: job.runAfter } : {}),
+      },
+    });
+    return toJob(row);
+  }
+
+  async get(requestId: string): Promise<PipelineJob | null> {
+    const row = await this.db.pipelineJob.findUnique({ where: { requestId } });
+    return row ? toJob(row) : null;
+  }
+
+  async list(filter: JobListFilter): Promise<PipelineJob[]> {
+    const rows = await this.db.pipelineJob.findMany({
+      where: {
+        ...(filter.ownerKey ? { ownerKey: filter.ownerKey } : {}),
+        ...(filter.status ? { status: filter.status } : {}),
+      },
+      orderBy: { submittedAt: 'desc' },
+      take: filter.limit ?? 50,
+    });
+    return rows.map(toJob);
+  }
+
+  async claim(workerId: string, leaseMs: number, maxPerOwner: number): Promise<PipelineJob | null> {
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + leaseMs);
+    const rows = await this.db.$queryRaw<JobRow[]>`
+      UPDATE "public"."PipelineJob" AS j
+      SET "status" = 'processing',
+          "lockedBy" = ${workerId},
+          "lockedUntil" = ${leaseUntil},
+          "attempts" = j."attempts" + 1,
+          "startedAt" = COALESCE(j."startedAt", ${now}),
+          "updatedAt" = ${now}
+      WHERE j."id" = (
+        SELECT c."id" FROM "public"."PipelineJob" AS c
+        WHERE ((c."status" = 'pending' AND c."runAfter" <= ${now})
+            OR (c."status" = 'processing' AND c."lockedUntil" <= ${now}))
+          AND (
+            SELECT COUNT(*) FROM "public"."PipelineJob" AS r
+            WHERE r."ownerKey" = c."ownerKey"
+              AND r."status" = 'processing'
+              AND r."lockedUntil" > ${now}
+          ) < ${maxPerOwner}
+        ORDER BY c."runAfter"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING j.*`;
+    return rows[0] ? toJob(rows[0]) : null;
+  }
+
+  async renew(requestId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const { count } = await this.db.pipelineJob.updateMany({
+      where: { requestId, status: 'processing', lockedBy: workerId },
+      data: { lockedUntil: new Date(Date.now() + leaseMs) },
+    });
+    return count > 0;
+  }
+
+  async complete(requestId: string, workerId: string, result: unknown): Promise<boolean> {
+    return this.finish(requestId, workerId, {
+      status: 'completed',
+      result: result === null || result === undefined ? Prisma.JsonNull : (result as Prisma.InputJsonValue),
+      error: null,
+    });
+  }
+
+  async fail(requestId: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    if (retryAt) {
+      const { count } = await this.db.pipelineJob.updateMany({
+        where: { requestId, status: 'processing', lockedBy: workerId },
+        data: { status: 'pending', error, runAfter: retryAt, lockedBy: null, lockedUntil: null },
+      });
+      return count > 0;
+    }
+    return this.finish(requestId, workerId, { status: 'error', error });
+  }
+
+  async cancel(requestId: string): Promise<PipelineJob | null> {
+    return this.db.$transaction(async (tx) => {
+      const now = new Date();
+      const { count } = await tx.pipelineJob.updateMany({
+        where: { requestId, status: { in: ['pending', 'processing'] } },
+        data: { status: 'cancelled', lockedBy: null, lockedUntil: null, completedAt: now },
+      });
+      if (count === 0) return null;
+      await armWebhook(tx, requestId, now);
+      const row = await tx.pipelineJob.findUnique({ where: { requestId } });
+      return row ? toJob(row) : null;
+    });
+  }
+
+  async claimWebhook(leaseMs: number): Promise<PipelineJob | null> {
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + leaseMs);
+    const rows = await this.db.$queryRaw<JobRow[]>`
+      UPDATE "public"."PipelineJob" AS j
+      SET "webhookNextAt" = ${leaseUntil}, "updatedAt" = ${now}
+      WHERE j."id" = (
+        SELECT c."id" FROM "public"."PipelineJob" AS c
+        WHERE c."webhookStatus" = 'pending' AND c."webhookNextAt" <= ${now}
+        ORDER BY c."webhookNextAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING j.*`;
+    return rows[0] ? toJob(rows[0]) : null;
+  }
+
+  async recordWebhook(requestId: string, outcome: WebhookOutcome): Promise<void> {
+    const settled = outcome.delivered || !outcome.retryAt;
+    await this.db.pipelineJob.update({
+      where: { requestId },
+      data: {
+        webhookAttempts: { increment: 1 },
+        webhookLastError: outcome.error ?? null,
+        webhookNextAt: settled ? null : outcome.retryAt,
+        ...(settled ? { webhookStatus: outcome.delivered ? 'delivered' : 'failed' } : {}),
+      },
+    });
+  }
+
+  async prune(before: Date): Promise<number> {
+    const { count } = await this.db.pipelineJob.deleteMany({
+      where: {
+        completedAt: { lt: before },
+        OR: [{ webhookStatus: null }, { webhookStatus: { not: 'pending' } }],
+      },
+    });
+    return count;
+  }
+
+  /** Move a leased job to a terminal state and queue its webhook, atomically. */
+  private async finish(
+    requestId: string,
+    workerId: string,
+    data: { status: JobStatus; error: string | null; result?: Prisma.InputJsonValue | typeof Prisma.JsonNull }
+  ): Promise<boolean> {
+    return this.db.$transaction(async (tx) => {
+      const now = new Date();
+      const { count } = await tx.pipelineJob.updateMany({
+        where: { requestId, status: 'processing', lockedBy: workerId },
+        data: { ...data, lockedBy: null, lockedUntil: null, completedAt: now },
+      });
+      if (count === 0) return false;
+      await armWebhook(tx, requestId, now);
+      return true;
+    });
+  }
+}
+
+async function armWebhook(tx: Prisma.TransactionClient, requestId: string, now: Date): Promise<void> {
+  await tx.pipelineJob.updateMany({
+    where: { requestId, callbackUrl: { not: null } },
+    data: { webhookStatus: 'pending', webhookNextAt: now },
+  });
+}
+
+function toJob(row: JobRow): PipelineJob {
+  return {
+    ...row,
+    status: row.status as JobStatus,
+    input: (row.input ?? {}) as Record<string, unknown>,
+    webhookStatus: row.webhookStatus as WebhookStatus | null,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * JobQueue Tests
+ * Retries, leases and cancellation against the in-memory store
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { JobQueue, isRetryableError, type JobQueueConfig, type JobRunner } from '../JobQueue.js';
+import { MemoryJobStore, type PipelineJob } from '../JobStore.js';
+
+const config: JobQueueConfig = {
+  workerId: 'worker-1',
+  concurrency: 2,
+  maxPerOwner: 2,
+  leaseMs: 60_000,
+  pollIntervalMs: 5,
+  retryBaseMs: 1,
+  retryMaxMs: 2,
+  webhookMaxAttempts: 1,
+};
+
+async function waitForStatus(store: MemoryJobStore, requestId: string, status: PipelineJob['status']) {
+  for (let i = 0; i < 200; i++) {
+    const job = await store.get(requestId);
+    if (job?.status === status) return job;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${requestId} never reached ${status}`);
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue | null = null;
+
+  afterEach(() => queue?.stop());
+
+  it('retries retryable failures until the job completes', async () => {
+    const store = new MemoryJobStore();
+    let calls = 0;
+    const runner: JobRunner = async () => {
+      calls++;
+      if (calls < 3) throw new Error('Upstream request failed: 503 Service Unavailable');
+      return { ok: true };
+    };
+    queue = new JobQueue(store, runner, config);
+    queue.start();
+
+    await queue.submit({ requestId: 'job-1', pipeline: 'text-to-image', input: {}, maxAttempts: 3 });
+    const job = await waitForStatus(store, 'job-1', 'completed');
+
+    expect(job.attempts).toBe(3);
+    expect(job.result).toEqual({ ok: true });
+  });
+
+  it('fails client errors without retrying', async () => {
+    const store = new MemoryJobStore();
+    let calls = 0;
+    queue = new JobQueue(store, async () => {
+      calls++;
+      throw new Error('Upstream request failed: 400 Bad Request');
+    }, config);
+    queue.start();
+
+    await queue.submit({ requestId: 'job-2', pipeline: 'text-to-image', input: {}, maxAttempts: 3 });
+    const job = await waitForStatus(store, 'job-2', 'error');
+
+    expect(calls).toBe(1);
+    expect(job.error).toContain('400');
+  });
+
+  it('aborts the local run when the job is cancelled', async () => {
+    const store = new MemoryJobStore();
+    let aborted = false;
+    queue = new JobQueue(store, (_job, signal) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        reject(new Error('aborted'));
+      });
+    }), config);
+    queue.start();
+
+    await queue.submit({ requestId: 'job-3', pipeline: 'text-to-image', input: {}, maxAttempts: 3 });
+    await waitForStatus(store, 'job-3', 'processing');
+    await queue.cancel('job-3');
+
+    expect(aborted).toBe(true);
+    expect((await store.get('job-3'))?.status).toBe('cancelled');
+  });
+});
+
+describe('MemoryJobStore leases', () => {
+  it('lets another worker reclaim a lapsed lease and ignores the stale worker', async () => {
+    const store = new MemoryJobStore();
+    await store.create({ requestId: 'job-4', pipeline: 'llm', teamId: 't1', input: {}, maxAttempts: 3 });
+
+    const first = await store.claim('worker-1', -1, 5);
+    const second = await store.claim('worker-2', 60_000, 5);
+
+    expect(first?.attempts).toBe(1);
+    expect(second?.attempts).toBe(2);
+    expect(await store.complete('job-4', 'worker-1', 'stale')).toBe(false);
+    expect(await store.complete('job-4', 'worker-2', 'fresh')).toBe(true);
+  });
+
+  it('holds jobs back once the owner has maxPerOwner live leases', async () => {
+    const store = new MemoryJobStore();
+    await store.create({ requestId: 'a', pipeline: 'llm', teamId: 't1', input: {}, maxAttempts: 1 });
+    await store.create({ requestId: 'b', pipeline: 'llm', teamId: 't1', input: {}, maxAttempts: 1 });
+    await store.create({ requestId: 'c', pipeline: 'llm', teamId: 't2', input: {}, maxAttempts: 1 });
+
+    const claimed = [
+      await store.claim('w', 60_000, 1),
+      await store.claim('w', 60_000, 1),
+      await store.claim('w', 60_000, 1),
+    ];
+
+    expect(claimed.map((j) => j?.ownerKey)).toEqual(['team:t1', 'team:t2', undefined]);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('treats timeouts and rate limits as retryable but not other 4xx', () => {
+    expect(isRetryableError(new Error('Request failed: 429 Too Many Requests'))).toBe(true);
+    expect(isRetryableError(new Error('Request failed: 408 Request Timeout'))).toBe(true);
+    expect(isRetryableError(new Error('Request failed: 404 Not Found'))).toBe(false);
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+  });
+});
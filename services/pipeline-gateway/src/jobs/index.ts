@@ -0,0 +1,30 @@
+/**
+ * Async Job Queue Index
+ *
+ * Re-exports the job queue and picks its store: Postgres when a database
+ * URL is configured, otherwise the in-memory fallback.
+ */
+
+import { hasDatabase, loadPrisma } from '../database.js';
+import { MemoryJobStore, type JobStore } from './JobStore.js';
+
+export { JobQueue, retryDelay, isRetryableError } from './JobQueue.js';
+export type { JobQueueConfig, JobRunner } from './JobQueue.js';
+export { MemoryJobStore, ownerKeyFor, TERMINAL_STATUSES } from './JobStore.js';
+export type { JobStatus, JobStore, NewJob, PipelineJob } from './JobStore.js';
+export {
+  validateCallbackUrl,
+  serializeJob,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks.js';
+
+export async function createJobStore(): Promise<JobStore> {
+  if (!hasDatabase()) {
+    console.warn('[pipeline-gateway] No database configured; async jobs are kept in memory and lost on restart');
+    return new MemoryJobStore();
+  }
+  const [prisma, { PrismaJobStore }] = await Promise.all([loadPrisma(), import('./PrismaJobStore.js')]);
+  return new PrismaJobStore(prisma);
+}
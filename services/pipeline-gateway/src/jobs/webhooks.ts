@@ -0,0 +1,135 @@
+/**
+ * Job Completion Webhooks
+ *
+ * When an async job reaches a terminal state the gateway POSTs the job to
+ * the caller's `callbackUrl`. Each delivery is signed with HMAC-SHA256 over
+ * `{timestamp}.{body}` using PIPELINE_WEBHOOK_SECRET:
+ *
+ *   X-Naap-Signature: t=1760875200,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ *
+ * Receivers recompute the HMAC and reject timestamps outside their replay
+ * window. Delivery is retried with backoff until the receiver returns 2xx.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { PipelineJob } from './JobStore.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Naap-Signature';
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const PRIVATE_HOST_PATTERNS = [
+  /^127\./,
+  /^10\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^0\./,
+  /^169\.254\./,
+  /^\[?f[cd][0-9a-f]{2}:/i,
+  /^\[?fe80:/i,
+  /^\[?::1\]?$/,
+  /^\[?::ffff:/i,
+  /^localhost$/i,
+  /\.(local|internal)$/i,
+];
+
+/**
+ * Validate a caller-supplied callback URL. Returns an error message, or
+ * null when the URL is acceptable: https on a public host.
+ */
+export function validateCallbackUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length === 0) return 'callbackUrl must be a non-empty string';
+  if (value.length > 2048) return 'callbackUrl is too long';
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'callbackUrl is not a valid URL';
+  }
+  if (url.protocol !== 'https:') return 'callbackUrl must use https';
+  if (url.username || url.password) return 'callbackUrl must not contain credentials';
+  const hostname = url.hostname.replace(/\.$/, '');
+  if (PRIVATE_HOST_PATTERNS.some((p) => p.test(hostname))) return 'callbackUrl must point to a public host';
+  return null;
+}
+
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against a body. Exported so receivers written
+ * in TypeScript (and our own tooling) verify exactly what we sign.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds = 300,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map((p) => p.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split('v1=')[1], 'hex');
+  const given = Buffer.from(parts.v1, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/** The public view of a job, used for the polling API and webhook bodies. */
+export function serializeJob(job: PipelineJob) {
+  return {
+    requestId: job.requestId,
+    pipeline: job.pipeline,
+    status: job.status,
+    result: job.status === 'completed' ? job.result : undefined,
+    error: job.status === 'error' ? job.error ?? undefined : undefined,
+    model: job.model ?? undefined,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    submittedAt: job.submittedAt.getTime(),
+    startedAt: job.startedAt?.getTime(),
+    completedAt: job.completedAt?.getTime(),
+    nextAttemptAt: job.status === 'pending' && job.attempts > 0 ? job.runAfter.getTime() : undefined,
+    webhook: job.callbackUrl
+      ? { status: job.webhookStatus ?? 'waiting', attempts: job.webhookAttempts, lastError: job.webhookLastError ?? undefined }
+      : undefined,
+  };
+}
+
+/**
+ * POST the job to its callback URL. Resolves with an error message when the
+ * delivery should be retried, or null on a 2xx response.
+ */
+export async function deliverWebhook(job: PipelineJob, secret: string): Promise<string | null> {
+  if (!job.callbackUrl) return null;
+  const invalid = validateCallbackUrl(job.callbackUrl);
+  if (invalid) return invalid;
+
+  const { webhook: _webhook, ...data } = serializeJob(job);
+  const body = JSON.stringify({ event: `job.${job.status}`, data });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const res = await fetch(job.callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'naap-pipeline-gateway',
+        'X-Naap-Event': `job.${job.status}`,
+        'X-Naap-Delivery': `${job.requestId}:${job.webhookAttempts + 1}`,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, secret, timestamp),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    // Drain the body so the connection can be reused
+    await res.arrayBuffer().catch(() => undefined);
+    return res.ok ? null : `Callback returned ${res.status}`;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Live Session Manager
+ *
+ * Owns the rules around live video-to-video sessions: a session belongs to
+ * the user/team that started it, each team has a cap on concurrent
+ * sessions, and sessions are ended automatically when they go idle, exceed
+ * their maximum duration, or the orchestrator reports the stream gone.
+ * Every transition is published as a lifecycle event.
+ *
+ * Activity is any owner request against the session (status polls and
+ * parameter updates); the SDK's `useLiveSession` polls status while a
+ * session is open, so an abandoned browser tab lets the session idle out.
+ */
+
+import type { LivepeerAIClient } from '@naap/livepeer-node-client';
+import type { LiveSession, LiveSessionStore, LiveStopReason } from './LiveSessionStore.js';
+import { publishSessionEvent, type LiveSessionEventPublisher, type LiveSessionEventType } from './events.js';
+
+export type LiveSessionErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'LIMIT_EXCEEDED'
+  | 'UPSTREAM_FAILED';
+
+const STATUS_BY_CODE: Record<LiveSessionErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  LIMIT_EXCEEDED: 429,
+  UPSTREAM_FAILED: 502,
+};
+
+export class LiveSessionError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: LiveSessionErrorCode, message: string) {
+    super(message);
+    this.name = 'LiveSessionError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface LiveSessionConfig {
+  /** Concurrent starting/active sessions per team (or user without a team). */
+  maxPerOwner: number;
+  /** End a session after this long without owner activity. */
+  idleTimeoutMs: number;
+  /** End a session this long after it started, regardless of activity. */
+  maxDurationMs: number;
+  /** A session still `starting` after this long is marked as errored. */
+  startTimeoutMs: number;
+  /** Keep ended sessions this long before pruning them. */
+  retentionMs: number;
+}
+
+export interface LiveSessionOwner {
+  ownerKey: string;
+  teamId?: string;
+  userId?: string;
+}
+
+const STREAM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,128}$/;
+// Orchestrator statuses meaning the stream is over (or failed)
+const ENDED_REMOTE_STATUSES = new Set(['stopped', 'ended', 'complete', 'completed', 'closed', 'not_found']);
+const ERROR_REMOTE_STATUSES = new Set(['error', 'failed']);
+
+export class LiveSessionManager {
+  constructor(
+    private store: LiveSessionStore,
+    private aiClient: LivepeerAIClient,
+    private config: LiveSessionConfig,
+    private publisher: LiveSessionEventPublisher | null = null
+  ) {}
+
+  /** Reserve a slot for the owner and start the stream on the orchestrator. */
+  async start(body: Record<string, unknown>, owner: LiveSessionOwner): Promise<LiveSession> {
+    const { stream, ...params } = body;
+    const streamId = stream === undefined ? crypto.randomUUID() : String(stream);
+    if (!STREAM_ID_PATTERN.test(streamId)) {
+      throw new LiveSessionError('BAD_REQUEST', 'stream must be 1-128 letters, digits, "-" or "_"');
+    }
+
+    // A finished session's id can be reused by the same owner
+    const existing = await this.store.get(streamId);
+    if (existing) {
+      if (existing.endedAt === null || existing.ownerKey !== owner.ownerKey) {
+        throw new LiveSessionError('CONFLICT', `Stream '${streamId}' is already in use`);
+      }
+      await this.store.delete(streamId);
+    }
+
+    let session: LiveSession | null;
+    try {
+      session = await this.store.reserve(
+        { streamId, ...owner, model: params.model_id as string | undefined, params },
+        this.config.maxPerOwner
+      );
+    } catch {
+      // Lost a race with another start for the same stream id
+      throw new LiveSessionError('CONFLICT', `Stream '${streamId}' is already in use`);
+    }
+    if (!session) {
+      throw new LiveSessionError(
+        'LIMIT_EXCEEDED',
+        `Live session limit reached (${this.config.maxPerOwner} concurrent sessions); stop one before starting another`
+      );
+    }
+
+    let urls: Awaited<ReturnType<LivepeerAIClient['startLiveVideoToVideo']>>;
+    try {
+      urls = await this.aiClient.startLiveVideoToVideo(
+        streamId,
+        params as Parameters<LivepeerAIClient['startLiveVideoToVideo']>[1]
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.finish(streamId, 'error', 'error', message);
+      throw new LiveSessionError('UPSTREAM_FAILED', `Failed to start live session: ${message}`);
+    }
+
+    const active = await this.store.activate(streamId, {
+      publishUrl: urls.publishUrl,
+      subscribeUrl: urls.subscribeUrl,
+      controlUrl: urls.controlUrl,
+      eventsUrl: urls.eventsUrl,
+    });
+    // Null only if the start timeout expired the session meanwhile
+    if (!active) throw new LiveSessionError('UPSTREAM_FAILED', 'Live session start timed out');
+    await this.emit('started', active);
+    return active;
+  }
+
+  /** The owner's session, refreshed with the orchestrator's status while live. */
+  async get(streamId: string, ownerKey: string): Promise<LiveSession> {
+    const session = await this.requireOwned(streamId, ownerKey);
+    if (session.status !== 'active') return session;
+
+    const touched = await this.store.update(streamId, { lastActivityAt: new Date() });
+    if (!touched) return (await this.store.get(streamId)) ?? session;
+    try {
+      const { status } = await this.aiClient.getLiveVideoStatus(streamId);
+      return { ...touched, remoteStatus: status };
+    } catch {
+      // Reconciliation deals with unreachable streams; a status poll just reports what we know
+      return touched;
+    }
+  }
+
+  /** Trickle-control parameter update. */
+  async update(streamId: string, ownerKey: string, params: Record<string, unknown>): Promise<LiveSession> {
+    const session = await this.requireOwned(streamId, ownerKey);
+    if (session.status !== 'active') {
+      throw new LiveSessionError('CONFLICT', `Session is ${session.status}`);
+    }
+
+    try {
+      await this.aiClient.updateLiveVideoToVideo(streamId, params);
+    } catch (err) {
+      throw new LiveSessionError('UPSTREAM_FAILED', `Failed to update live session: ${err instanceof Error ? err.message : err}`);
+    }
+
+    const updated = await this.store.update(streamId, {
+      params: { ...session.params, ...params },
+      lastActivityAt: new Date(),
+    });
+    if (!updated) throw new LiveSessionError('CONFLICT', 'Session ended during the update');
+    await this.emit('param-updated', updated, { changed: Object.keys(params) });
+    return updated;
+  }
+
+  async stop(streamId: string, ownerKey: string): Promise<LiveSession> {
+    const session = await this.requireOwned(streamId, ownerKey);
+    return (await this.finish(streamId, 'stopped', 'requested')) ?? session;
+  }
+
+  /** The owner's starting and active sessions. */
+  list(ownerKey: string): Promise<LiveSession[]> {
+    return this.store.listLive(ownerKey);
+  }
+
+  /**
+   * End sessions past their idle timeout or maximum duration, and those
+   * stuck in `starting`. Returns how many were ended.
+   */
+  async enforce(now = Date.now()): Promise<number> {
+    let ended = 0;
+    for (const session of await this.store.listLive()) {
+      const age = now - session.startedAt.getTime();
+      let result: LiveSession | null = null;
+      if (session.status === 'starting' && age > this.config.startTimeoutMs) {
+        result = await this.finish(session.streamId, 'error', 'error', 'Session did not start in time');
+      } else if (age > this.config.maxDurationMs) {
+        result = await this.finish(session.streamId, 'stopped', 'max_duration');
+      } else if (session.status === 'active' && now - session.lastActivityAt.getTime() > this.config.idleTimeoutMs) {
+        result = await this.finish(session.streamId, 'stopped', 'idle_timeout');
+      }
+      if (result) ended++;
+    }
+    return ended;
+  }
+
+  /**
+   * Compare active sessions with the orchestrator: record its status, and
+   * end sessions whose stream is gone or failed. Returns how many ended.
+   */
+  async reconcile(): Promise<number> {
+    let ended = 0;
+    for (const session of await this.store.listLive()) {
+      if (session.status !== 'active') continue;
+
+      let remoteStatus: string;
+      try {
+        remoteStatus = String((await this.aiClient.getLiveVideoStatus(session.streamId)).status ?? '').toLowerCase();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (!/\b404\b/.test(message)) continue; // unreachable orchestrator: try again next round
+        remoteStatus = 'not_found';
+      }
+
+      await this.store.update(session.streamId, { remoteStatus, lastReconciledAt: new Date() });
+      const result = ENDED_REMOTE_STATUSES.has(remoteStatus)
+        ? await this.finish(session.streamId, 'stopped', 'ended')
+        : ERROR_REMOTE_STATUSES.has(remoteStatus)
+          ? await this.finish(session.streamId, 'error', 'error', `Orchestrator reported '${remoteStatus}'`)
+          : null;
+      if (result) ended++;
+    }
+    return ended;
+  }
+
+  /** Delete ended sessions past retention. */
+  prune(now = Date.now()): Promise<number> {
+    return this.store.prune(new Date(now - this.config.retentionMs));
+  }
+
+  // ─── Internals ─────────────────────────────────────────────────────────────
+
+  /** Sessions of other owners are reported as missing, not forbidden. */
+  private async requireOwned(streamId: string, ownerKey: string): Promise<LiveSession> {
+    const session = await this.store.get(streamId);
+    if (!session || session.ownerKey !== ownerKey) {
+      throw new LiveSessionError('NOT_FOUND', 'Session not found');
+    }
+    return session;
+  }
+
+  /** End a live session and publish `stopped` or `errored`; null if it had already ended. */
+  private async finish(
+    streamId: string,
+    status: 'stopped' | 'error',
+    reason: LiveStopReason,
+    error?: string
+  ): Promise<LiveSession | null> {
+    const ended = await this.store.end(streamId, status, reason, error);
+    if (ended) await this.emit(status === 'error' ? 'errored' : 'stopped', ended);
+    return ended;
+  }
+
+  private emit(type: LiveSessionEventType, session: LiveSession, details?: Record<string, unknown>): Promise<void> {
+    return publishSessionEvent(this.publisher, type, session, details);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Live Session Store
+ *
+ * Persistence contract for the live session registry. `PrismaLiveSessionStore`
+ * keeps sessions in Postgres so every gateway replica sees the same owners,
+ * limits and lifecycle; `MemoryLiveSessionStore` is the single-process
+ * fallback used when no database is configured (local development).
+ *
+ * State machine:
+ *   starting ──activate──▶ active ──end──▶ stopped | error
+ *      └──────────────end───────────────▶ error
+ *
+ * `end` only applies to a session that has not ended yet, so when several
+ * replicas race to expire the same session exactly one of them wins (and
+ * publishes the lifecycle event).
+ */
+
+export type LiveSessionStatus = 'starting' | 'active' | 'stopped' | 'error';
+export type LiveStopReason = 'requested' | 'idle_timeout' | 'max_duration' | 'ended' | 'error';
+
+export const LIVE_STATUSES: readonly LiveSessionStatus[] = ['starting', 'active'];
+
+export interface LiveSession {
+  id: string;
+  streamId: string;
+  teamId: string | null;
+  userId: string | null;
+  /** Limit bucket: teamId, else userId, else "anonymous". */
+  ownerKey: string;
+  model: string | null;
+  status: LiveSessionStatus;
+  params: Record<string, unknown>;
+  publishUrl: string | null;
+  subscribeUrl: string | null;
+  controlUrl: string | null;
+  eventsUrl: string | null;
+  /** Last status reported by the orchestrator. */
+  remoteStatus: string | null;
+  lastError: string | null;
+  stopReason: LiveStopReason | null;
+  startedAt: Date;
+  lastActivityAt: Date;
+  lastReconciledAt: Date | null;
+  endedAt: Date | null;
+}
+
+export interface NewLiveSession {
+  streamId: string;
+  teamId?: string;
+  userId?: string;
+  ownerKey: string;
+  model?: string;
+  params: Record<string, unknown>;
+}
+
+export type LiveSessionPatch = Partial<
+  Pick<
+    LiveSession,
+    'params' | 'publishUrl' | 'subscribeUrl' | 'controlUrl' | 'eventsUrl' | 'remoteStatus' | 'lastActivityAt' | 'lastReconciledAt'
+  >
+>;
+
+export interface LiveSessionStore {
+  /**
+   * Insert a `starting` session unless its owner already has `maxLive`
+   * starting or active ones; null when at the limit. Throws if the stream
+   * id is taken.
+   */
+  reserve(session: NewLiveSession, maxLive: number): Promise<LiveSession | null>;
+  get(streamId: string): Promise<LiveSession | null>;
+  /** Starting and active sessions, optionally for one owner. */
+  listLive(ownerKey?: string): Promise<LiveSession[]>;
+  /** Patch a session that has not ended. Null when it ended or does not exist. */
+  update(streamId: string, patch: LiveSessionPatch): Promise<LiveSession | null>;
+  /** starting → active with the orchestrator's URLs. */
+  activate(streamId: string, urls: Pick<LiveSession, 'publishUrl' | 'subscribeUrl' | 'controlUrl' | 'eventsUrl'>): Promise<LiveSession | null>;
+  /** End a session that has not ended yet. Null when it already had. */
+  end(streamId: string, status: 'stopped' | 'error', reason: LiveStopReason, error?: string): Promise<LiveSession | null>;
+  delete(streamId: string): Promise<boolean>;
+  /** Delete ended sessions whose end is older than `before`. */
+  prune(before: Date): Promise<number>;
+}
+
+// ─── In-memory fallback ──────────────────────────────────────────────────────
+
+export class MemoryLiveSessionStore implements LiveSessionStore {
+  private sessions = new Map<string, LiveSession>();
+
+  async reserve(input: NewLiveSession, maxLive: number): Promise<LiveSession | null> {
+    if (this.sessions.has(input.streamId)) throw new Error(`Stream '${input.streamId}' already exists`);
+    const live = Array.from(this.sessions.values()).filter(
+      (s) => s.ownerKey === input.ownerKey && LIVE_STATUSES.includes(s.status)
+    );
+    if (live.length >= maxLive) return null;
+
+    const now = new Date();
+    const session: LiveSession = {
+      id: crypto.randomUUID(),
+      streamId: input.streamId,
+      teamId: input.teamId ?? null,
+      userId: input.userId ?? null,
+      ownerKey: input.ownerKey,
+      model: input.model ?? null,
+      status: 'starting',
+      params: input.params,
+      publishUrl: null,
+      subscribeUrl: null,
+      controlUrl: null,
+      eventsUrl: null,
+      remoteStatus: null,
+      lastError: null,
+      stopReason: null,
+      startedAt: now,
+      lastActivityAt: now,
+      lastReconciledAt: null,
+      endedAt: null,
+    };
+    this.sessions.set(session.streamId, session);
+    return { ...session };
+  }
+
+  async get(streamId: string): Promise<LiveSession | null> {
+    const session = this.sessions.get(streamId);
+    return session ? { ...session } : null;
+  }
+
+  async listLive(ownerKey?: string): Promise<LiveSession[]> {
+    return Array.from(this.sessions.values())
+      .filter((s) => LIVE_STATUSES.includes(s.status) && (!ownerKey || s.ownerKey === ownerKey))
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+      .map((s) => ({ ...s }));
+  }
+
+  async update(streamId: string, patch: LiveSessionPatch): Promise<LiveSession | null> {
+    const session = this.sessions.get(streamId);
+    if (!session || !LIVE_STATUSES.includes(session.status)) return null;
+    Object.assign(session, patch);
+    return { ...session };
+  }
+
+  async activate(
+    streamId: string,
+    urls: Pick<LiveSession, 'publishUrl' | 'subscribeUrl' | 'controlUrl' | 'eventsUrl'>
+  ): Promise<LiveSession | null> {
+    const session = this.sessions.get(streamId);
+    if (!session || session.status !== 'starting') return null;
+    Object.assign(session, urls, { status: 'active', lastActivityAt: new Date() });
+    return { ...session };
+  }
+
+  async end(
+    streamId: string,
+    status: 'stopped' | 'error',
+    reason: LiveStopReason,
+    error?: string
+  ): Promise<LiveSession | null> {
+    const session = this.sessions.get(streamId);
+    if (!session || !LIVE_STATUSES.includes(session.status)) return null;
+    Object.assign(session, { status, stopReason: reason, lastError: error ?? session.lastError, endedAt: new Date() });
+    return { ...session };
+  }
+
+  async delete(streamId: string): Promise<boolean> {
+    return this.sessions.delete(streamId);
+  }
+
+  async prune(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [streamId, session] of this.sessions) {
+      if (session.endedAt && session.endedAt < before) {
+        this.sessions.delete(streamId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
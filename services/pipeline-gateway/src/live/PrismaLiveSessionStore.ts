@@ -0,0 +1,124 @@
+/**
+ * Postgres Live Session Store
+ *
+ * `LiveSessionStore` backed by the `LiveSession` table in @naap/database.
+ * `reserve` takes a transaction-scoped advisory lock on the owner key, so
+ * concurrent starts for one team on different replicas are counted one at
+ * a time and the limit holds exactly.
+ */
+
+import { Prisma, type PrismaClient } from '@naap/database';
+import {
+  LIVE_STATUSES,
+  type LiveSession,
+  type LiveSessionPatch,
+  type LiveSessionStatus,
+  type LiveSessionStore,
+  type LiveStopReason,
+  type NewLiveSession,
+} from './LiveSessionStore.js';
+
+type SessionRow = Omit<LiveSession, 'status' | 'params' | 'stopReason'> & {
+  status: string;
+  params: unknown;
+  stopReason: string | null;
+};
+
+export class PrismaLiveSessionStore implements LiveSessionStore {
+  constructor(private db: PrismaClient) {}
+
+  async reserve(input: NewLiveSession, maxLive: number): Promise<LiveSession | null> {
+    const row = await this.db.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${input.ownerKey}))`;
+      const live = await tx.liveSession.count({
+        where: { ownerKey: input.ownerKey, status: { in: [...LIVE_STATUSES] } },
+      });
+      if (live >= maxLive) return null;
+      return tx.liveSession.create({
+        data: {
+          streamId: input.streamId,
+          teamId: input.teamId ?? null,
+          userId: input.userId ?? null,
+          ownerKey: input.ownerKey,
+          model: input.model ?? null,
+          params: input.params as Prisma.InputJsonValue,
+        },
+      });
+    });
+    return row ? toSession(row) : null;
+  }
+
+  async get(streamId: string): Promise<LiveSession | null> {
+    const row = await this.db.liveSession.findUnique({ where: { streamId } });
+    return row ? toSession(row) : null;
+  }
+
+  async listLive(ownerKey?: string): Promise<LiveSession[]> {
+    const rows = await this.db.liveSession.findMany({
+      where: { status: { in: [...LIVE_STATUSES] }, ...(ownerKey ? { ownerKey } : {}) },
+      orderBy: { startedAt: 'asc' },
+    });
+    return rows.map(toSession);
+  }
+
+  async update(streamId: string, patch: LiveSessionPatch): Promise<LiveSession | null> {
+    const { params, ...rest } = patch;
+    return this.updateWhere(streamId, [...LIVE_STATUSES], {
+      ...rest,
+      ...(params !== undefined ? { params: params as Prisma.InputJsonValue } : {}),
+    });
+  }
+
+  async activate(
+    streamId: string,
+    urls: Pick<LiveSession, 'publishUrl' | 'subscribeUrl' | 'controlUrl' | 'eventsUrl'>
+  ): Promise<LiveSession | null> {
+    return this.updateWhere(streamId, ['starting'], { ...urls, status: 'active', lastActivityAt: new Date() });
+  }
+
+  async end(
+    streamId: string,
+    status: 'stopped' | 'error',
+    reason: LiveStopReason,
+    error?: string
+  ): Promise<LiveSession | null> {
+    return this.updateWhere(streamId, [...LIVE_STATUSES], {
+      status,
+      stopReason: reason,
+      endedAt: new Date(),
+      ...(error !== undefined ? { lastError: error } : {}),
+    });
+  }
+
+  async delete(streamId: string): Promise<boolean> {
+    const { count } = await this.db.liveSession.deleteMany({ where: { streamId } });
+    return count > 0;
+  }
+
+  async prune(before: Date): Promise<number> {
+    const { count } = await this.db.liveSession.deleteMany({ where: { endedAt: { lt: before } } });
+    return count;
+  }
+
+  /** Conditional update: applies only while the session is in one of `from`. */
+  private async updateWhere(
+    streamId: string,
+    from: LiveSessionStatus[],
+    data: Prisma.LiveSessionUpdateManyMutationInput
+  ): Promise<LiveSession | null> {
+    const { count } = await this.db.liveSession.updateMany({
+      where: { streamId, status: { in: from } },
+      data,
+    });
+    return count > 0 ? this.get(streamId) : null;
+  }
+}
+
+function toSession(row: SessionRow): LiveSession {
+  return {
+    ...row,
+    status: row.status as LiveSessionStatus,
+    params: (row.params ?? {}) as Record<string, unknown>,
+    stopReason: row.stopReason as LiveStopReason | null,
+  };
+}
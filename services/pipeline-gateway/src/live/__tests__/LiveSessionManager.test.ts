@@ -0,0 +1,105 @@
+/**
+ * LiveSessionManager Tests
+ * Owner limits, idle/max-duration enforcement and orchestrator reconciliation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { LivepeerAIClient } from '@naap/livepeer-node-client';
+import { LiveSessionManager, LiveSessionError, type LiveSessionConfig } from '../LiveSessionManager.js';
+import { MemoryLiveSessionStore } from '../LiveSessionStore.js';
+import type { LiveSessionEventPublisher } from '../events.js';
+
+const config: LiveSessionConfig = {
+  maxPerOwner: 2,
+  idleTimeoutMs: 60_000,
+  maxDurationMs: 3600_000,
+  startTimeoutMs: 30_000,
+  retentionMs: 60_000,
+};
+
+const owner = { ownerKey: 'team:t1', teamId: 't1' };
+
+/** Orchestrator stand-in whose per-stream status the test controls. */
+function fakeClient(remote: Map<string, string | Error>) {
+  return {
+    startLiveVideoToVideo: async (streamId: string) => ({
+      publishUrl: `http://o/${streamId}/publish`,
+      subscribeUrl: `http://o/${streamId}/subscribe`,
+      controlUrl: `http://o/${streamId}/control`,
+      eventsUrl: `http://o/${streamId}/events`,
+    }),
+    getLiveVideoStatus: async (streamId: string) => {
+      const status = remote.get(streamId) ?? 'running';
+      if (status instanceof Error) throw status;
+      return { status };
+    },
+    updateLiveVideoToVideo: async () => undefined,
+  } as unknown as LivepeerAIClient;
+}
+
+describe('LiveSessionManager', () => {
+  let store: MemoryLiveSessionStore;
+  let remote: Map<string, string | Error>;
+  let events: string[];
+  let manager: LiveSessionManager;
+
+  beforeEach(() => {
+    store = new MemoryLiveSessionStore();
+    remote = new Map();
+    events = [];
+    const publisher: LiveSessionEventPublisher = {
+      publish: async (channel, name) => {
+        if (channel === 'naap:team:t1') events.push(name);
+      },
+    };
+    manager = new LiveSessionManager(store, fakeClient(remote), config, publisher);
+  });
+
+  it('caps concurrent sessions per owner', async () => {
+    await manager.start({ stream: 'a' }, owner);
+    await manager.start({ stream: 'b' }, owner);
+
+    await expect(manager.start({ stream: 'c' }, owner)).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', status: 429 });
+    await manager.start({ stream: 'c' }, { ownerKey: 'team:t2', teamId: 't2' });
+  });
+
+  it('hides sessions from other owners', async () => {
+    await manager.start({ stream: 'a' }, owner);
+
+    await expect(manager.stop('a', 'team:t2')).rejects.toBeInstanceOf(LiveSessionError);
+    expect((await manager.get('a', owner.ownerKey)).status).toBe('active');
+  });
+
+  it('ends idle sessions and sessions past their maximum duration', async () => {
+    const idle = await manager.start({ stream: 'idle' }, owner);
+    await manager.start({ stream: 'busy' }, owner);
+    const now = idle.startedAt.getTime() + config.idleTimeoutMs + 1;
+    await store.update('busy', { lastActivityAt: new Date(now) });
+
+    expect(await manager.enforce(now)).toBe(1);
+    expect((await store.get('idle'))?.stopReason).toBe('idle_timeout');
+
+    expect(await manager.enforce(idle.startedAt.getTime() + config.maxDurationMs + 1)).toBe(1);
+    expect((await store.get('busy'))?.stopReason).toBe('max_duration');
+    expect(events.filter((e) => e === 'live-session.stopped')).toHaveLength(2);
+  });
+
+  it('reconciles streams the orchestrator reports gone or failed', async () => {
+    await manager.start({ stream: 'gone' }, owner);
+    await manager.start({ stream: 'failed' }, owner);
+    remote.set('gone', new Error('Request failed: 404 Not Found'));
+    remote.set('failed', 'ERROR');
+
+    expect(await manager.reconcile()).toBe(2);
+    expect(await store.get('gone')).toMatchObject({ status: 'stopped', stopReason: 'ended', remoteStatus: 'not_found' });
+    expect(await store.get('failed')).toMatchObject({ status: 'error', remoteStatus: 'error' });
+  });
+
+  it('leaves sessions alone while the orchestrator is unreachable', async () => {
+    await manager.start({ stream: 'a' }, owner);
+    remote.set('a', new Error('connect ECONNREFUSED'));
+
+    expect(await manager.reconcile()).toBe(0);
+    expect((await store.get('a'))?.status).toBe('active');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Live Session Events
+ *
+ * Lifecycle events are pushed over the platform's realtime channel (Ably):
+ * to the owner's user channel and, for team sessions, the team channel, in
+ * the `RealtimeMessage` shape the shell's realtime hooks consume. Publishing
+ * uses Ably's REST API, so the gateway holds no socket. Failures are logged
+ * and never fail the session operation that triggered them.
+ */
+
+import type { LiveSession } from './LiveSessionStore.js';
+
+export type LiveSessionEventType = 'started' | 'param-updated' | 'errored' | 'stopped';
+
+export interface LiveSessionEventPublisher {
+  publish(channel: string, name: string, data: unknown): Promise<void>;
+}
+
+const ABLY_REST_URL = 'https://rest.ably.io';
+
+export class AblyRestPublisher implements LiveSessionEventPublisher {
+  private authorization: string;
+
+  constructor(apiKey: string, private baseUrl = ABLY_REST_URL) {
+    this.authorization = `Basic ${Buffer.from(apiKey).toString('base64')}`;
+  }
+
+  async publish(channel: string, name: string, data: unknown): Promise<void> {
+    const res = await fetch(`${this.baseUrl}/channels/${encodeURIComponent(channel)}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: this.authorization },
+      body: JSON.stringify({ name, data }),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!res.ok) throw new Error(`Ably publish returned ${res.status}`);
+  }
+}
+
+/** Same channel names as the shell's `Channels.user` / `Channels.team`. */
+export function channelsFor(session: Pick<LiveSession, 'userId' | 'teamId'>): string[] {
+  return [
+    ...(session.userId ? [`naap:user:${session.userId}`] : []),
+    ...(session.teamId ? [`naap:team:${session.teamId}`] : []),
+  ];
+}
+
+export function serializeSession(session: LiveSession) {
+  return {
+    streamId: session.streamId,
+    status: session.status,
+    model: session.model ?? undefined,
+    teamId: session.teamId ?? undefined,
+    params: session.params,
+    publishUrl: session.publishUrl ?? undefined,
+    subscribeUrl: session.subscribeUrl ?? undefined,
+    controlUrl: session.controlUrl ?? undefined,
+    eventsUrl: session.eventsUrl ?? undefined,
+    remoteStatus: session.remoteStatus ?? undefined,
+    lastError: session.lastError ?? undefined,
+    stopReason: session.stopReason ?? undefined,
+    startedAt: session.startedAt.getTime(),
+    lastActivityAt: session.lastActivityAt.getTime(),
+    lastReconciledAt: session.lastReconciledAt?.getTime(),
+    endedAt: session.endedAt?.getTime(),
+  };
+}
+
+export async function publishSessionEvent(
+  publisher: LiveSessionEventPublisher | null,
+  type: LiveSessionEventType,
+  session: LiveSession,
+  details?: Record<string, unknown>
+): Promise<void> {
+  if (!publisher) return;
+  const name = `live-session.${type}`;
+  const message = {
+    type: name,
+    payload: { ...serializeSession(session), ...details },
+    timestamp: new Date().toISOString(),
+  };
+  await Promise.all(
+    channelsFor(session).map((channel) =>
+      publisher.publish(channel, name, message).catch((err) => {
+        console.warn(`[pipeline-gateway] Failed to publish ${name} to ${channel}:`, err instanceof Error ? err.message : err);
+      })
+    )
+  );
+}
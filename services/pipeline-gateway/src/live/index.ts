@@ -0,0 +1,32 @@
+/**
+ * Live Session Index
+ *
+ * Re-exports the live session manager and picks its store: Postgres when a
+ * database URL is configured, otherwise the in-memory fallback.
+ */
+
+import { hasDatabase, loadPrisma } from '../database.js';
+import { MemoryLiveSessionStore, type LiveSessionStore } from './LiveSessionStore.js';
+
+export { LiveSessionManager, LiveSessionError } from './LiveSessionManager.js';
+export type { LiveSessionConfig, LiveSessionErrorCode, LiveSessionOwner } from './LiveSessionManager.js';
+export { MemoryLiveSessionStore, LIVE_STATUSES } from './LiveSessionStore.js';
+export type {
+  LiveSession,
+  LiveSessionPatch,
+  LiveSessionStatus,
+  LiveSessionStore,
+  LiveStopReason,
+  NewLiveSession,
+} from './LiveSessionStore.js';
+export { AblyRestPublisher, channelsFor, publishSessionEvent, serializeSession } from './events.js';
+export type { LiveSessionEventPublisher, LiveSessionEventType } from './events.js';
+
+export async function createLiveSessionStore(): Promise<LiveSessionStore> {
+  if (!hasDatabase()) {
+    console.warn('[pipeline-gateway] No database configured; live sessions are kept in memory and lost on restart');
+    return new MemoryLiveSessionStore();
+  }
+  const [prisma, { PrismaLiveSessionStore }] = await Promise.all([loadPrisma(), import('./PrismaLiveSessionStore.js')]);
+  return new PrismaLiveSessionStore(prisma);
+}
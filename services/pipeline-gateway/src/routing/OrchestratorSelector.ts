@@ -0,0 +1,209 @@
+/**
+ * Orchestrator Selector
+ *
+ * Turns an orchestrator policy into the ordered list of orchestrators to
+ * try for one pipeline. Rankings come from the orchestrator leaderboard in
+ * the shell: a discovery plan's evaluated results, or an ad-hoc ranking
+ * filtered by the inline price/latency limits. The caller's credentials are
+ * forwarded, so a plan is only usable by the team (or user) that can see it.
+ *
+ * Failover walks that list: a retryable failure (5xx, timeout, network)
+ * moves on to the next orchestrator; anything else is final.
+ */
+
+import { isRetryableError } from '../jobs/index.js';
+import { normalizeOrchestrator, RoutingError, type OrchestratorPolicy } from './policy.js';
+
+/** The parts of a leaderboard `OrchestratorRow` selection needs. */
+export interface RankedOrchestrator {
+  orchUri: string;
+  pricePerUnit: number | null;
+  avgLatMs: number | null;
+  slaScore?: number;
+}
+
+export interface OrchestratorSelectorConfig {
+  /** Shell origin serving /api/v1/orchestrator-leaderboard. */
+  leaderboardUrl: string;
+  /** Orchestrators requested from an ad-hoc ranking. */
+  topN: number;
+  /** How long a plan's or ranking's results are reused. */
+  cacheTtlMs: number;
+  timeoutMs: number;
+}
+
+export interface FailoverAttempt {
+  orchestrator: string;
+  error: string;
+}
+
+/** Every orchestrator tried failed; `lastError` is the final failure. */
+export class FailoverError extends Error {
+  constructor(readonly attempts: FailoverAttempt[], readonly lastError: unknown) {
+    super(lastError instanceof Error ? lastError.message : String(lastError));
+    this.name = 'FailoverError';
+  }
+}
+
+interface CacheEntry {
+  rows: RankedOrchestrator[];
+  expiresAt: number;
+}
+
+const MAX_CACHE_ENTRIES = 500;
+
+export class OrchestratorSelector {
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(private config: OrchestratorSelectorConfig) {}
+
+  /**
+   * Orchestrators to try for `capability`, best first. Throws
+   * NO_ORCHESTRATORS when the policy leaves none.
+   */
+  async resolve(capability: string, policy: OrchestratorPolicy, authorization?: string): Promise<string[]> {
+    const preferred = policy.preferred ?? [];
+    const excluded = new Set(policy.excluded ?? []);
+    const constrained = policy.maxPrice !== undefined || policy.maxLatencyMs !== undefined;
+
+    // Only preferred orchestrators: no ranking to consult
+    let ranked: RankedOrchestrator[] | null = null;
+    if (policy.planId) {
+      ranked = await this.planRanking(policy.planId, capability, authorization);
+    } else if (constrained || preferred.length === 0) {
+      ranked = await this.adHocRanking(capability, policy, authorization);
+    }
+
+    let candidates: string[];
+    if (ranked) {
+      const allowed = ranked
+        .filter((o) => policy.maxPrice === undefined || (o.pricePerUnit !== null && o.pricePerUnit <= policy.maxPrice))
+        .filter((o) => policy.maxLatencyMs === undefined || (o.avgLatMs !== null && o.avgLatMs <= policy.maxLatencyMs))
+        .map((o) => o.orchUri);
+      // Preferred orchestrators jump the queue, but only if the ranking allows them
+      const rank = (uri: string) => {
+        const index = preferred.indexOf(normalizeOrchestrator(uri));
+        return index === -1 ? preferred.length : index;
+      };
+      candidates = allowed
+        .map((uri, index) => ({ uri, index }))
+        .sort((a, b) => rank(a.uri) - rank(b.uri) || a.index - b.index)
+        .map(({ uri }) => uri);
+    } else {
+      candidates = preferred;
+    }
+
+    const seen = new Set<string>();
+    candidates = candidates.filter((uri) => {
+      const key = normalizeOrchestrator(uri);
+      if (excluded.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (candidates.length === 0) {
+      throw new RoutingError('NO_ORCHESTRATORS', `No orchestrator for '${capability}' satisfies the routing policy`);
+    }
+    return candidates;
+  }
+
+  /**
+   * Run `attempt` against each orchestrator in turn until one succeeds or
+   * fails with a non-retryable error, trying at most `maxAttempts`.
+   */
+  async failover<T>(
+    orchestrators: string[],
+    maxAttempts: number,
+    attempt: (orchestrator: string) => Promise<T>
+  ): Promise<{ value: T; orchestrator: string; failed: FailoverAttempt[] }> {
+    const failed: FailoverAttempt[] = [];
+    const tries = orchestrators.slice(0, Math.max(1, maxAttempts));
+    for (let index = 0; ; index++) {
+      const orchestrator = tries[index];
+      try {
+        return { value: await attempt(orchestrator), orchestrator, failed };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        failed.push({ orchestrator, error });
+        if (index === tries.length - 1 || !isRetryableError(err)) throw new FailoverError(failed, err);
+        console.warn(`[pipeline-gateway] orchestrator ${orchestrator} failed, trying the next one:`, error);
+      }
+    }
+  }
+
+  private async planRanking(planId: string, capability: string, authorization?: string): Promise<RankedOrchestrator[]> {
+    const key = `plan:${planId}:${capability}:${authorization ?? ''}`;
+    return this.cached(key, async () => {
+      const path = `/api/v1/orchestrator-leaderboard/plans/${encodeURIComponent(planId)}/results`;
+      const res = await this.fetchLeaderboard(path, { headers: this.authHeaders(authorization) });
+      if (res.status === 404) throw new RoutingError('PLAN_NOT_FOUND', `Discovery plan '${planId}' not found`);
+      if (res.status === 400) {
+        throw new RoutingError('BAD_REQUEST', `Discovery plan '${planId}' cannot be used: ${await errorMessage(res)}`);
+      }
+      const results = await this.json<{ capabilities?: Record<string, RankedOrchestrator[]> }>(res);
+      const rows = results.capabilities?.[capability];
+      if (!rows) throw new RoutingError('BAD_REQUEST', `Discovery plan '${planId}' does not cover '${capability}'`);
+      return rows;
+    });
+  }
+
+  private async adHocRanking(capability: string, policy: OrchestratorPolicy, authorization?: string): Promise<RankedOrchestrator[]> {
+    const filters = {
+      ...(policy.maxPrice !== undefined ? { priceMax: policy.maxPrice } : {}),
+      ...(policy.maxLatencyMs !== undefined ? { maxAvgLatencyMs: policy.maxLatencyMs } : {}),
+    };
+    const key = `rank:${capability}:${JSON.stringify(filters)}:${authorization ?? ''}`;
+    return this.cached(key, async () => {
+      const res = await this.fetchLeaderboard('/api/v1/orchestrator-leaderboard/rank', {
+        method: 'POST',
+        headers: { ...this.authHeaders(authorization), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ capability, topN: this.config.topN, filters, slaWeights: {} }),
+      });
+      return this.json<RankedOrchestrator[]>(res);
+    });
+  }
+
+  private async cached(key: string, load: () => Promise<RankedOrchestrator[]>): Promise<RankedOrchestrator[]> {
+    const now = Date.now();
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > now) return hit.rows;
+
+    const rows = await load();
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      for (const [k, entry] of this.cache) if (entry.expiresAt <= now) this.cache.delete(k);
+      if (this.cache.size >= MAX_CACHE_ENTRIES) this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, { rows, expiresAt: now + this.config.cacheTtlMs });
+    return rows;
+  }
+
+  private authHeaders(authorization?: string): Record<string, string> {
+    return authorization ? { Authorization: authorization } : {};
+  }
+
+  private async fetchLeaderboard(path: string, init: RequestInit): Promise<Response> {
+    const url = `${this.config.leaderboardUrl.replace(/\/$/, '')}${path}`;
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(this.config.timeoutMs) });
+    } catch (err) {
+      throw new RoutingError('LEADERBOARD_UNAVAILABLE', `Orchestrator leaderboard unreachable: ${String(err)}`);
+    }
+  }
+
+  private async json<T>(res: Response): Promise<T> {
+    if (res.status === 401 || res.status === 403) {
+      throw new RoutingError('BAD_REQUEST', 'The orchestrator leaderboard rejected the caller\'s credentials');
+    }
+    if (!res.ok) {
+      throw new RoutingError('LEADERBOARD_UNAVAILABLE', `Orchestrator leaderboard returned ${res.status}: ${await errorMessage(res)}`);
+    }
+    const body = (await res.json()) as { data?: T };
+    if (body.data === undefined) throw new RoutingError('LEADERBOARD_UNAVAILABLE', 'Unexpected orchestrator leaderboard response');
+    return body.data;
+  }
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+  return body?.error?.message ?? res.statusText;
+}
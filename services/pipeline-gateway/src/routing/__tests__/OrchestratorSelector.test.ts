@@ -0,0 +1,115 @@
+/**
+ * OrchestratorSelector Tests
+ * Policy resolution against the leaderboard, failover and gateway nodes
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OrchestratorSelector, FailoverError, type RankedOrchestrator } from '../OrchestratorSelector.js';
+import { OrchestratorGateways } from '../gateways.js';
+
+const config = { leaderboardUrl: 'http://shell', topN: 10, cacheTtlMs: 60_000, timeoutMs: 1000 };
+
+function leaderboard(rows: RankedOrchestrator[]) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: true, data: rows }), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const ranking: RankedOrchestrator[] = [
+  { orchUri: 'https://orch-a:8935', pricePerUnit: 2000, avgLatMs: 300 },
+  { orchUri: 'https://orch-b:8935', pricePerUnit: 900, avgLatMs: 500 },
+  { orchUri: 'https://orch-c:8935', pricePerUnit: 800, avgLatMs: null },
+];
+
+describe('OrchestratorSelector.resolve', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('filters the ranking by price and latency, and moves preferred orchestrators first', async () => {
+    leaderboard(ranking);
+    const selector = new OrchestratorSelector(config);
+
+    const order = await selector.resolve('text-to-image', {
+      maxPrice: 1000,
+      preferred: ['https://orch-c:8935'],
+    });
+
+    expect(order).toEqual(['https://orch-c:8935', 'https://orch-b:8935']);
+  });
+
+  it('drops excluded orchestrators and fails when nothing is left', async () => {
+    leaderboard(ranking);
+    const selector = new OrchestratorSelector(config);
+
+    await expect(
+      selector.resolve('text-to-image', { maxLatencyMs: 400, excluded: ['https://orch-a:8935'] })
+    ).rejects.toMatchObject({ code: 'NO_ORCHESTRATORS', status: 503 });
+  });
+
+  it('uses a preferred-only policy as given, without the leaderboard', async () => {
+    const fetchMock = leaderboard([]);
+    const selector = new OrchestratorSelector(config);
+
+    expect(await selector.resolve('llm', { preferred: ['https://orch-b:8935', 'https://orch-a:8935'] })).toEqual([
+      'https://orch-b:8935',
+      'https://orch-a:8935',
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing discovery plan', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 404 })));
+    const selector = new OrchestratorSelector(config);
+
+    await expect(selector.resolve('llm', { planId: 'plan_missing' })).rejects.toMatchObject({ code: 'PLAN_NOT_FOUND' });
+  });
+});
+
+describe('OrchestratorSelector.failover', () => {
+  const selector = new OrchestratorSelector(config);
+  const orchestrators = ['https://orch-a:8935', 'https://orch-b:8935', 'https://orch-c:8935'];
+
+  it('moves on after retryable failures', async () => {
+    const tried: string[] = [];
+    const { value, orchestrator, failed } = await selector.failover(orchestrators, 3, async (orch) => {
+      tried.push(orch);
+      if (orch !== 'https://orch-c:8935') throw new Error('Text-to-image failed: 503 Service Unavailable');
+      return 'ok';
+    });
+
+    expect(value).toBe('ok');
+    expect(orchestrator).toBe('https://orch-c:8935');
+    expect(failed.map((f) => f.orchestrator)).toEqual(tried.slice(0, 2));
+  });
+
+  it('stops at the first client error and at maxAttempts', async () => {
+    const rejected = selector.failover(orchestrators, 3, async () => {
+      throw new Error('Text-to-image failed: 400 Bad Request');
+    });
+    await expect(rejected).rejects.toBeInstanceOf(FailoverError);
+    await expect(rejected).rejects.toMatchObject({ attempts: [{ orchestrator: 'https://orch-a:8935' }] });
+
+    const exhausted = await selector
+      .failover(orchestrators, 2, async () => {
+        throw new Error('socket hang up');
+      })
+      .catch((err: unknown) => err);
+    expect(exhausted).toBeInstanceOf(FailoverError);
+    expect((exhausted as FailoverError).attempts).toHaveLength(2);
+  });
+});
+
+describe('OrchestratorGateways', () => {
+  it('only routes to orchestrators with a gateway node', () => {
+    const gateways = new OrchestratorGateways({ 'https://Orch-B:8935/': 'http://localhost:9936' });
+
+    expect(gateways.routable(['https://orch-a:8935', 'https://orch-b:8935'])).toEqual(['https://orch-b:8935']);
+  });
+
+  it('ignores malformed configuration', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(OrchestratorGateways.fromEnv('["http://gateway-b:9935"]').size).toBe(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Orchestrator Gateways
+ *
+ * go-livepeer's AI API has no per-request way to name an orchestrator: a
+ * gateway node picks among the orchestrators it was started with. Routing
+ * therefore pins orchestrators the way go-livepeer supports, with one
+ * gateway node per orchestrator started with `-orchAddr <orchestrator>`.
+ *
+ * `PIPELINE_ORCHESTRATOR_GATEWAYS` maps each orchestrator URI to the AI API
+ * of its gateway node. Like `LIVEPEER_AI_URL`, these must be loopback
+ * addresses (the nodes run alongside the gateway):
+ *
+ *   { "https://orch-a.example:8935": "http://localhost:9936" }
+ *
+ * Only orchestrators with a gateway node can be routed to; the rest of a
+ * ranking is skipped.
+ */
+
+import { LivepeerAIClient } from '@naap/livepeer-node-client';
+import { normalizeOrchestrator, RoutingError } from './policy.js';
+
+export class OrchestratorGateways {
+  private clients = new Map<string, LivepeerAIClient>();
+
+  constructor(gateways: Record<string, string> = {}) {
+    for (const [orchestrator, url] of Object.entries(gateways)) {
+      this.clients.set(normalizeOrchestrator(orchestrator), new LivepeerAIClient(url));
+    }
+  }
+
+  /** Read `PIPELINE_ORCHESTRATOR_GATEWAYS`; invalid config is logged and ignored. */
+  static fromEnv(raw: string | undefined): OrchestratorGateways {
+    if (!raw) return new OrchestratorGateways();
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('expected an object of orchestrator URI → gateway URL');
+      }
+      return new OrchestratorGateways(parsed as Record<string, string>);
+    } catch (err) {
+      console.warn('[pipeline-gateway] ignoring invalid PIPELINE_ORCHESTRATOR_GATEWAYS:', err instanceof Error ? err.message : err);
+      return new OrchestratorGateways();
+    }
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  has(orchestrator: string): boolean {
+    return this.clients.has(normalizeOrchestrator(orchestrator));
+  }
+
+  /** Keep the orchestrators that have a gateway node, in order. */
+  routable(orchestrators: string[]): string[] {
+    return orchestrators.filter((uri) => this.has(uri));
+  }
+
+  /** The client for `orchestrator`'s gateway node, or `fallback` when none was picked. */
+  clientFor(orchestrator: string | undefined, fallback: LivepeerAIClient): LivepeerAIClient {
+    if (!orchestrator) return fallback;
+    const client = this.clients.get(normalizeOrchestrator(orchestrator));
+    if (!client) throw new RoutingError('NO_ORCHESTRATORS', `No gateway node is configured for ${orchestrator}`);
+    return client;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Orchestrator Routing Index
+ *
+ * Re-exports the selection policy parser, the leaderboard-backed
+ * orchestrator selector and the per-orchestrator gateway nodes.
+ */
+
+export { parseOrchestratorPolicy, normalizeOrchestrator, RoutingError } from './policy.js';
+export type { OrchestratorPolicy, RoutingErrorCode } from './policy.js';
+export { OrchestratorSelector, FailoverError } from './OrchestratorSelector.js';
+export type { FailoverAttempt, OrchestratorSelectorConfig, RankedOrchestrator } from './OrchestratorSelector.js';
+export { OrchestratorGateways } from './gateways.js';
@@ -0,0 +1,100 @@
+/**
+ * Orchestrator Selection Policy
+ *
+ * How a caller steers which orchestrators run its request: a discovery
+ * plan from the orchestrator leaderboard, inline constraints, or both (the
+ * inline constraints then narrow the plan's ranking).
+ *
+ *   { "routing": { "planId": "…", "maxPrice": 1200, "maxLatencyMs": 800,
+ *                  "preferred": ["https://orch-a:8935"], "excluded": ["https://orch-b:8935"] } }
+ *
+ * `X-Discovery-Plan: <id>` is shorthand for `routing.planId`.
+ */
+
+export interface OrchestratorPolicy {
+  /** Discovery plan whose ranking to use. */
+  planId?: string;
+  /** Highest acceptable price per unit, in the leaderboard's units. */
+  maxPrice?: number;
+  /** Highest acceptable average latency. */
+  maxLatencyMs?: number;
+  /** Tried first, in this order. */
+  preferred?: string[];
+  /** Never tried. */
+  excluded?: string[];
+}
+
+export type RoutingErrorCode = 'BAD_REQUEST' | 'PLAN_NOT_FOUND' | 'NO_ORCHESTRATORS' | 'LEADERBOARD_UNAVAILABLE';
+
+const STATUS_BY_CODE: Record<RoutingErrorCode, number> = {
+  BAD_REQUEST: 400,
+  PLAN_NOT_FOUND: 404,
+  NO_ORCHESTRATORS: 503,
+  LEADERBOARD_UNAVAILABLE: 502,
+};
+
+export class RoutingError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: RoutingErrorCode, message: string) {
+    super(message);
+    this.name = 'RoutingError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+const MAX_LISTED = 50;
+
+function orchestratorList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_LISTED || value.some((v) => typeof v !== 'string' || !v.trim())) {
+    throw new RoutingError('BAD_REQUEST', `routing.${field} must be an array of up to ${MAX_LISTED} orchestrator URIs`);
+  }
+  return value.map(normalizeOrchestrator);
+}
+
+function nonNegative(value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new RoutingError('BAD_REQUEST', `routing.${field} must be a non-negative number`);
+  }
+  return value;
+}
+
+/** Orchestrator URIs compare without case or a trailing slash. */
+export function normalizeOrchestrator(uri: string): string {
+  return uri.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Read the policy from a request's `routing` field and `X-Discovery-Plan`
+ * header. Null when the caller set neither.
+ */
+export function parseOrchestratorPolicy(routing: unknown, planHeader?: string): OrchestratorPolicy | null {
+  if (routing === undefined && !planHeader) return null;
+  if (routing !== undefined && (typeof routing !== 'object' || routing === null || Array.isArray(routing))) {
+    throw new RoutingError('BAD_REQUEST', 'routing must be an object');
+  }
+
+  const raw = (routing ?? {}) as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(
+    (key) => !['planId', 'maxPrice', 'maxLatencyMs', 'preferred', 'excluded'].includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new RoutingError('BAD_REQUEST', `Unknown routing fields: ${unknownKeys.join(', ')}`);
+  }
+
+  const planId = raw.planId ?? (planHeader || undefined);
+  if (planId !== undefined && (typeof planId !== 'string' || !planId.trim())) {
+    throw new RoutingError('BAD_REQUEST', 'routing.planId must be a non-empty string');
+  }
+
+  const policy: OrchestratorPolicy = {
+    planId: planId?.trim(),
+    maxPrice: nonNegative(raw.maxPrice, 'maxPrice'),
+    maxLatencyMs: nonNegative(raw.maxLatencyMs, 'maxLatencyMs'),
+    preferred: orchestratorList(raw.preferred, 'preferred'),
+    excluded: orchestratorList(raw.excluded, 'excluded'),
+  };
+  return Object.values(policy).some((v) => v !== undefined) ? policy : null;
+}
@@ -0,0 +1,252 @@
+/**
+ * Built-in Pipeline Schemas
+ *
+ * go-livepeer's `/getNetworkCapabilities` reports which pipelines are
+ * available but not their request shapes, so the schemas of the standard
+ * AI pipelines are kept here (from the ai-runner OpenAPI spec, restricted
+ * to the fields the gateway forwards). Discovery attaches them to the
+ * matching descriptors; pipelines without an entry are not validated.
+ *
+ * Media inputs are `format: binary` — a URL or data URI in JSON requests.
+ */
+
+export interface PipelineSchemas {
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+}
+
+const binary = (description: string) => ({ type: 'string', format: 'binary', description });
+const int = (minimum?: number, maximum?: number) => ({ type: 'integer', minimum, maximum });
+const num = (minimum?: number, maximum?: number) => ({ type: 'number', minimum, maximum });
+
+const modelId = { type: 'string', minLength: 1, description: 'Model to run; the orchestrator default when omitted' };
+const seed = { ...int(0), description: 'Fixed seed for reproducible output' };
+
+const media = {
+  type: 'object',
+  required: ['url'],
+  properties: { url: { type: 'string' }, seed: { type: 'integer' }, nsfw: { type: 'boolean' } },
+};
+const imageOutput = {
+  type: 'object',
+  required: ['images'],
+  properties: { images: { type: 'array', items: media } },
+};
+const textOutput = {
+  type: 'object',
+  required: ['text'],
+  properties: { text: { type: 'string' } },
+};
+
+/** Fields shared by the diffusion pipelines. */
+const diffusion = {
+  model_id: modelId,
+  guidance_scale: num(0),
+  negative_prompt: { type: 'string' },
+  safety_check: { type: 'boolean' },
+  seed,
+  num_inference_steps: int(1, 500),
+  num_images_per_prompt: int(1, 10),
+};
+
+export const BUILTIN_PIPELINE_SCHEMAS: Record<string, PipelineSchemas> = {
+  'text-to-image': {
+    input: {
+      type: 'object',
+      required: ['prompt'],
+      properties: {
+        prompt: { type: 'string', minLength: 1 },
+        ...diffusion,
+        width: int(64, 4096),
+        height: int(64, 4096),
+        loras: { type: 'string' },
+      },
+    },
+    output: imageOutput,
+  },
+  'image-to-image': {
+    input: {
+      type: 'object',
+      required: ['image', 'prompt'],
+      properties: {
+        image: binary('Source image'),
+        prompt: { type: 'string', minLength: 1 },
+        ...diffusion,
+        strength: num(0, 1),
+        image_guidance_scale: num(0),
+        loras: { type: 'string' },
+      },
+    },
+    output: imageOutput,
+  },
+  'image-to-video': {
+    input: {
+      type: 'object',
+      required: ['image'],
+      properties: {
+        image: binary('First frame'),
+        model_id: modelId,
+        width: int(64, 4096),
+        height: int(64, 4096),
+        fps: int(1, 60),
+        motion_bucket_id: int(0, 255),
+        noise_aug_strength: num(0, 1),
+        safety_check: { type: 'boolean' },
+        seed,
+        num_inference_steps: int(1, 500),
+      },
+    },
+    output: {
+      type: 'object',
+      required: ['video'],
+      properties: { video: { type: 'object', required: ['url'], properties: { url: { type: 'string' } } } },
+    },
+  },
+  upscale: {
+    input: {
+      type: 'object',
+      required: ['image', 'prompt'],
+      properties: {
+        image: binary('Image to upscale'),
+        prompt: { type: 'string', minLength: 1 },
+        model_id: modelId,
+        safety_check: { type: 'boolean' },
+        seed,
+        num_inference_steps: int(1, 500),
+      },
+    },
+    output: imageOutput,
+  },
+  'audio-to-text': {
+    input: {
+      type: 'object',
+      required: ['audio'],
+      properties: {
+        audio: binary('Audio to transcribe'),
+        model_id: modelId,
+        return_timestamps: { type: 'string', enum: ['true', 'false', 'word'] },
+      },
+    },
+    output: textOutput,
+  },
+  'segment-anything-2': {
+    input: {
+      type: 'object',
+      required: ['image'],
+      properties: {
+        image: binary('Image to segment'),
+        model_id: modelId,
+        point_coords: { type: 'string', description: 'JSON array of [x, y] points' },
+        point_labels: { type: 'string', description: 'JSON array of 0/1 labels, one per point' },
+        box: { type: 'string', description: 'JSON [x1, y1, x2, y2]' },
+        mask_input: { type: 'string' },
+        multimask_output: { type: 'boolean' },
+        return_logits: { type: 'boolean' },
+        normalize_coords: { type: 'boolean' },
+      },
+    },
+    output: {
+      type: 'object',
+      required: ['masks'],
+      properties: { masks: { type: 'array', items: { type: 'string' } } },
+    },
+  },
+  'image-to-text': {
+    input: {
+      type: 'object',
+      required: ['image'],
+      properties: {
+        image: binary('Image to describe'),
+        prompt: { type: 'string' },
+        model_id: modelId,
+      },
+    },
+    output: textOutput,
+  },
+  'text-to-speech': {
+    input: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: { type: 'string', minLength: 1 },
+        description: { type: 'string', description: 'Voice description' },
+        model_id: modelId,
+      },
+    },
+    output: binary('Generated audio'),
+  },
+  llm: {
+    input: {
+      type: 'object',
+      required: ['messages'],
+      properties: {
+        messages: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['role', 'content'],
+            properties: {
+              role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+              content: { type: 'string' },
+            },
+          },
+        },
+        model: modelId,
+        model_id: modelId,
+        max_tokens: int(1),
+        temperature: num(0, 2),
+        stream: { type: 'boolean' },
+      },
+    },
+    output: {
+      type: 'object',
+      required: ['choices'],
+      properties: {
+        choices: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              message: {
+                type: 'object',
+                properties: { role: { type: 'string' }, content: { type: 'string' } },
+              },
+              finish_reason: { type: 'string' },
+            },
+          },
+        },
+        usage: {
+          type: 'object',
+          properties: {
+            prompt_tokens: { type: 'integer' },
+            completion_tokens: { type: 'integer' },
+            total_tokens: { type: 'integer' },
+          },
+        },
+      },
+    },
+  },
+  'live-video-to-video': {
+    input: {
+      type: 'object',
+      required: ['model_id'],
+      properties: {
+        model_id: modelId,
+        stream: { type: 'string', pattern: '^[a-zA-Z0-9_-]{1,128}$', description: 'Session id; generated when omitted' },
+        params: { type: 'object', description: 'Model parameters, updatable while live' },
+      },
+    },
+    output: {
+      type: 'object',
+      required: ['streamId', 'publishUrl', 'subscribeUrl'],
+      properties: {
+        streamId: { type: 'string' },
+        publishUrl: { type: 'string' },
+        subscribeUrl: { type: 'string' },
+        controlUrl: { type: 'string' },
+        eventsUrl: { type: 'string' },
+      },
+    },
+  },
+};
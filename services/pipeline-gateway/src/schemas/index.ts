@@ -0,0 +1,36 @@
+/**
+ * Pipeline Schemas Index
+ *
+ * JSON Schema validation shared by every adapter, and the schemas of the
+ * built-in pipelines.
+ */
+
+import type { PipelineDescriptor, PipelineFieldError, ValidationResult } from '@naap/livepeer-pipeline';
+import { validateAgainstSchema } from './validate.js';
+
+export { validateAgainstSchema, isValidSchema, deepEqual } from './validate.js';
+export type { SchemaIssue } from './validate.js';
+export { BUILTIN_PIPELINE_SCHEMAS } from './builtin.js';
+export type { PipelineSchemas } from './builtin.js';
+
+/** Validate a request body against the pipeline's input schema; valid when it has none. */
+export function validatePipelineInput(input: unknown, pipeline: PipelineDescriptor): ValidationResult {
+  const fields = validateAgainstSchema(input, pipeline.inputSchema);
+  if (fields.length === 0) return { valid: true };
+  return {
+    valid: false,
+    errors: fields.map((f) => `${f.path || '(input)'} ${f.message}`),
+    fields,
+  };
+}
+
+/** A request rejected by its pipeline's input schema; answered with 400 and the field errors. */
+export class PipelineInputError extends Error {
+  readonly code = 'INVALID_INPUT';
+  readonly status = 400;
+
+  constructor(pipeline: string, readonly fields: PipelineFieldError[]) {
+    super(`Input does not match the '${pipeline}' schema`);
+    this.name = 'PipelineInputError';
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Pipeline Input Validation
+ *
+ * Validates a request body against a pipeline's JSON Schema (built-in
+ * pipelines and BYOC capabilities alike) before it reaches an orchestrator.
+ * Covers the keywords pipeline schemas actually use — type, enum, const,
+ * required, properties, additionalProperties, items, pattern, and length,
+ * item-count and value bounds — not the full specification. Unknown
+ * keywords (format, description, ...) are ignored.
+ */
+
+export interface SchemaIssue {
+  /** JSON pointer to the offending value, '' for the root. */
+  path: string;
+  message: string;
+}
+
+type Schema = Record<string, unknown>;
+
+const MAX_ISSUES = 20;
+
+export function validateAgainstSchema(value: unknown, schema: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (isObject(schema)) visit(value, schema, '', issues);
+  return issues;
+}
+
+/** A schema is usable when it is an object; anything else disables validation. */
+export function isValidSchema(schema: unknown): boolean {
+  return schema === undefined || schema === null || isObject(schema);
+}
+
+function visit(value: unknown, schema: Schema, path: string, issues: SchemaIssue[]): void {
+  if (issues.length >= MAX_ISSUES) return;
+  const report = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      report(`must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => deepEqual(v, value))) {
+    report(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    report(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      report(`must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      report(`must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(schema.pattern, 'u');
+      } catch {
+        // Invalid pattern in the published schema — skip rather than reject every request
+      }
+      if (pattern && !pattern.test(value)) report(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) report(`must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) report(`must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      report(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      report(`must have at most ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      value.forEach((item, i) => visit(item, schema.items as Schema, `${path}/${i}`, issues));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, unknown>) : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) issues.push({ path: `${path}/${escapePointer(key)}`, message: 'is required' });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = properties[key];
+      if (isObject(propertySchema)) {
+        visit(child, propertySchema as Schema, childPath, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath, message: 'is not allowed' });
+      } else if (isObject(schema.additionalProperties)) {
+        visit(child, schema.additionalProperties as Schema, childPath, issues);
+      }
+    }
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** Structural equality for JSON values. */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((k) => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
@@ -8,23 +8,62 @@
  * Key design:
  * - Dynamic pipeline registry (polls go-livepeer /getNetworkCapabilities)
  * - Adapter pattern (one module per pipeline type)
- * - Versioned response envelope
+ * - Versioned response envelope, with requests validated against pipeline schemas
  * - Feature flags per pipeline
+ * - Durable async job queue with retries and signed completion webhooks
+ * - Live session registry with per-team limits, timeouts and realtime events
+ * - Pre-flight cost estimates and per-team daily/monthly spend caps
+ * - Orchestrator selection from leaderboard discovery plans, with failover
  * - Background jobs: capability sync, async job cleanup, usage aggregation
  */
 
-import { createPluginServer } from '@naap/plugin-server-sdk';
+import { hostname } from 'node:os';
+import type { Request, Response } from 'express';
+import { createPluginServer, type AuthenticatedRequest } from '@naap/plugin-server-sdk';
 import { pluginRateLimit } from '@naap/cache';
 import { LivepeerAIClient } from '@naap/livepeer-node-client';
-import type { PipelineDescriptor, PipelineResponse } from '@naap/livepeer-pipeline';
+import type { IPipelineAdapter, PipelineDescriptor, PipelineRequest, PipelineResponse } from '@naap/livepeer-pipeline';
 import {
   BatchAIAdapter,
   LLMStreamAdapter,
   AsyncJobAdapter,
   LiveVideoAdapter,
   BYOCAdapter,
+  toPublic,
   type PipelineContext,
+  type PipelineResult,
 } from './adapters/index.js';
+import { ByocError, createByocStore, type RegisterInput } from './byoc/index.js';
+import { BatchError, BatchRunner, type BatchConfig } from './batch/index.js';
+import { ResultCache, StorageServiceBlobStore } from './cache/index.js';
+import { BUILTIN_PIPELINE_SCHEMAS, PipelineInputError } from './schemas/index.js';
+import { createJobStore, ownerKeyFor, serializeJob, validateCallbackUrl, type JobQueueConfig } from './jobs/index.js';
+import {
+  AblyRestPublisher,
+  createLiveSessionStore,
+  LiveSessionError,
+  serializeSession,
+  type LiveSessionConfig,
+} from './live/index.js';
+import {
+  byocPricing,
+  createSpendStore,
+  estimateCost,
+  parsePricingConfig,
+  SpendError,
+  SpendGuard,
+  type CostEstimate,
+  type SpendConfig,
+  type SpendReservation,
+} from './spend/index.js';
+import {
+  FailoverError,
+  OrchestratorGateways,
+  OrchestratorSelector,
+  parseOrchestratorPolicy,
+  RoutingError,
+} from './routing/index.js';
+import { requireCaller, resolveIdentity } from './identity.js';
 
 // ─── Config ──────────────────────────────────────────────────────────────────
 
@@ -34,6 +73,95 @@ const JOB_CLEANUP_INTERVAL = 300_000;     // 5 minutes
 const HEALTH_CHECK_INTERVAL = 120_000;    // 2 minutes
 const USAGE_FLUSH_INTERVAL = 60_000;      // 1 minute
 
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Pipelines that return a requestId immediately and run on the job queue
+const ASYNC_PIPELINES = (process.env.ASYNC_PIPELINES || 'image-to-video')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+const JOB_RETENTION_MS = envInt('PIPELINE_JOB_RETENTION_HOURS', 24) * 3600_000;
+const WEBHOOK_SECRET = process.env.PIPELINE_WEBHOOK_SECRET;
+
+const JOB_QUEUE_CONFIG: JobQueueConfig = {
+  workerId: `${hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`,
+  concurrency: envInt('PIPELINE_JOB_CONCURRENCY', 8),
+  maxPerOwner: envInt('PIPELINE_JOB_MAX_PER_TEAM', 2),
+  leaseMs: envInt('PIPELINE_JOB_LEASE_MS', 60_000),
+  pollIntervalMs: envInt('PIPELINE_JOB_POLL_MS', 1_000),
+  retryBaseMs: envInt('PIPELINE_JOB_RETRY_BASE_MS', 5_000),
+  retryMaxMs: envInt('PIPELINE_JOB_RETRY_MAX_MS', 300_000),
+  webhookSecret: WEBHOOK_SECRET,
+  webhookMaxAttempts: envInt('PIPELINE_WEBHOOK_MAX_ATTEMPTS', 8),
+};
+
+// Result cache: opt-in per pipeline, e.g. "upscale=604800,text-to-image=86400" (seconds)
+const PIPELINE_CACHE_TTLS = Object.fromEntries(
+  (process.env.PIPELINE_CACHE_TTLS || '')
+    .split(',')
+    .map((pair) => pair.split('=').map((part) => part.trim()))
+    .filter(([name, ttl]) => name && Number(ttl) > 0)
+    .map(([name, ttl]) => [name, Math.floor(Number(ttl))])
+);
+const STORAGE_SERVICE_URL = process.env.STORAGE_SERVICE_URL || 'http://localhost:4100';
+
+const BATCH_CONFIG: BatchConfig = {
+  maxItems: envInt('PIPELINE_BATCH_MAX_ITEMS', 500),
+  maxConcurrency: envInt('PIPELINE_BATCH_CONCURRENCY', 8),
+  retentionMs: envInt('PIPELINE_BATCH_RETENTION_HOURS', 24) * 3600_000,
+};
+
+// BYOC registry: how fast other gateway replicas pick up registrations, and
+// when failing endpoints stop receiving traffic or are dropped entirely
+const BYOC_REFRESH_INTERVAL = envInt('BYOC_REFRESH_INTERVAL_MS', 30_000);
+const BYOC_REGISTRY_CONFIG = {
+  unhealthyThreshold: envInt('BYOC_UNHEALTHY_THRESHOLD', 2),
+  endpointExpiryMs: envInt('BYOC_ENDPOINT_EXPIRY_HOURS', 24) * 3600_000,
+  healthCheckTimeoutMs: envInt('BYOC_HEALTH_CHECK_TIMEOUT_MS', 5_000),
+};
+
+// Live video sessions: concurrent sessions per team, and when idle, overlong
+// or orphaned sessions are ended
+const LIVE_SESSION_CONFIG: LiveSessionConfig = {
+  maxPerOwner: envInt('LIVE_SESSION_MAX_PER_TEAM', 3),
+  idleTimeoutMs: envInt('LIVE_SESSION_IDLE_TIMEOUT_MINUTES', 10) * 60_000,
+  maxDurationMs: envInt('LIVE_SESSION_MAX_DURATION_MINUTES', 240) * 60_000,
+  startTimeoutMs: envInt('LIVE_SESSION_START_TIMEOUT_MS', 60_000),
+  retentionMs: envInt('LIVE_SESSION_RETENTION_HOURS', 24) * 3600_000,
+};
+const LIVE_SESSION_RECONCILE_INTERVAL = envInt('LIVE_SESSION_RECONCILE_INTERVAL_MS', 30_000);
+const ABLY_API_KEY = process.env.ABLY_API_KEY;
+
+// Wei per unit for each pipeline (see spend/pricing.ts for the format)
+const PIPELINE_PRICING = parsePricingConfig(process.env.PIPELINE_PRICING);
+
+function envWei(name: string): string | null {
+  const value = process.env[name]?.trim();
+  return value && /^\d+$/.test(value) ? value : null;
+}
+
+// Default spend caps per team (unset = uncapped); admins override them per
+// team. Over budget, `queue` holds async requests until the cap resets.
+const SPEND_CONFIG: SpendConfig = {
+  dailyLimit: envWei('PIPELINE_SPEND_DAILY_LIMIT_WEI'),
+  monthlyLimit: envWei('PIPELINE_SPEND_MONTHLY_LIMIT_WEI'),
+  onExceeded: process.env.PIPELINE_SPEND_ON_EXCEEDED === 'queue' ? 'queue' : 'reject',
+};
+
+// Orchestrator rankings for routing policies come from the shell's leaderboard
+const orchestratorSelector = new OrchestratorSelector({
+  leaderboardUrl: process.env.ORCHESTRATOR_LEADERBOARD_URL || process.env.SHELL_URL || 'http://localhost:3000',
+  topN: envInt('ORCHESTRATOR_RANK_TOP_N', 10),
+  cacheTtlMs: envInt('ORCHESTRATOR_RANK_CACHE_TTL_MS', 30_000),
+  timeoutMs: envInt('ORCHESTRATOR_LEADERBOARD_TIMEOUT_MS', 5_000),
+});
+const ORCHESTRATOR_MAX_ATTEMPTS = envInt('PIPELINE_ORCHESTRATOR_MAX_ATTEMPTS', 3);
+// A go-livepeer gateway node per routable orchestrator (started with -orchAddr)
+const orchestratorGateways = OrchestratorGateways.fromEnv(process.env.PIPELINE_ORCHESTRATOR_GATEWAYS);
+
 // ─── Feature Flags ───────────────────────────────────────────────────────────
 
 interface FeatureFlags {
@@ -41,6 +169,7 @@ interface FeatureFlags {
     enabled: boolean;
     maxRequestsPerMinute?: number;
     allowedUsers?: string[]; // empty = all
+    async?: boolean; // overrides ASYNC_PIPELINES for this pipeline
   };
 }
 
@@ -65,24 +194,21 @@ async function refreshFeatureFlags(): Promise<void> {
     // Support both { data: [{ key, enabled }] } and { data: { [key]: { enabled } } }
     if (payload?.features && typeof payload.features === 'object') {
       Object.entries(payload.features).forEach(([key, value]) => {
-        featureFlags[key.replace('pipeline:', '')] = {
-          enabled: Boolean(value),
-        };
+        const name = key.replace('pipeline:', '');
+        featureFlags[name] = { ...featureFlags[name], enabled: Boolean(value) };
       });
     } else if (Array.isArray(payload?.data)) {
       for (const flag of payload.data) {
         const key = flag.key || flag.name;
         if (typeof key === 'string') {
-          featureFlags[key.replace('pipeline:', '')] = {
-            enabled: Boolean(flag.enabled),
-          };
+          const name = key.replace('pipeline:', '');
+          featureFlags[name] = { ...featureFlags[name], enabled: Boolean(flag.enabled) };
         }
       }
     } else if (payload?.data && typeof payload.data === 'object') {
       Object.entries(payload.data).forEach(([key, value]) => {
-        featureFlags[key.replace('pipeline:', '')] = {
-          enabled: Boolean((value as any).enabled ?? value),
-        };
+        const name = key.replace('pipeline:', '');
+        featureFlags[name] = { ...featureFlags[name], enabled: Boolean((value as any).enabled ?? value) };
       });
     }
   } catch (err) {
@@ -94,11 +220,24 @@ async function refreshFeatureFlags(): Promise<void> {
 
 const aiClient = new LivepeerAIClient(LIVEPEER_AI_URL);
 
-const batchAdapter = new BatchAIAdapter(aiClient);
-const llmAdapter = new LLMStreamAdapter(aiClient);
-const asyncAdapter = new AsyncJobAdapter(aiClient);
+const resultCache = new ResultCache(
+  {
+    ttls: PIPELINE_CACHE_TTLS,
+    inlineMaxBytes: envInt('PIPELINE_CACHE_INLINE_MAX_BYTES', 64 * 1024),
+    maxEntryBytes: envInt('PIPELINE_CACHE_MAX_ENTRY_BYTES', 1024 * 1024),
+  },
+  new StorageServiceBlobStore(STORAGE_SERVICE_URL)
+);
+const batchAdapter = new BatchAIAdapter(aiClient, resultCache, orchestratorGateways);
+const llmAdapter = new LLMStreamAdapter(aiClient, orchestratorGateways);
+const asyncAdapter = new AsyncJobAdapter(
+  aiClient,
+  { pipelines: ASYNC_PIPELINES, maxAttempts: envInt('PIPELINE_JOB_MAX_ATTEMPTS', 3) },
+  orchestratorGateways
+);
 const liveVideoAdapter = new LiveVideoAdapter(aiClient);
 const byocAdapter = new BYOCAdapter();
+let spendGuard: SpendGuard;
 
 // ─── Pipeline Registry (in-memory) ──────────────────────────────────────────
 
@@ -112,8 +251,10 @@ async function discoverPipelines(): Promise<void> {
       type: 'batch' as const,
       models: [],
       capabilities: [cap.id],
-      pricing: [],
+      pricing: PIPELINE_PRICING[cap.name] ?? [],
       source: 'builtin' as const,
+      inputSchema: BUILTIN_PIPELINE_SCHEMAS[cap.name]?.input,
+      outputSchema: BUILTIN_PIPELINE_SCHEMAS[cap.name]?.output,
     }));
 
     // Merge in BYOC capabilities
@@ -124,8 +265,10 @@ async function discoverPipelines(): Promise<void> {
           type: 'batch',
           models: [],
           capabilities: [byoc.name],
-          pricing: [],
+          pricing: PIPELINE_PRICING[byoc.name] ?? byocPricing(byoc.pricing),
           source: 'byoc' as const,
+          inputSchema: byoc.schema?.input as Record<string, unknown> | undefined,
+          outputSchema: byoc.schema?.output as Record<string, unknown> | undefined,
         });
       }
     }
@@ -148,7 +291,11 @@ interface UsageBucket {
 
 const usageBuckets = new Map<string, UsageBucket>();
 
-function recordUsage(pipeline: string, durationMs: number, isError: boolean): void {
+// Running totals since startup; livepeer-svc diffs them to split deposit burn by pipeline
+const USAGE_SINCE = new Date().toISOString();
+const usageTotals = new Map<string, { requests: number; errors: number; cost: bigint }>();
+
+function recordUsage(pipeline: string, durationMs: number, isError: boolean, cost = '0'): void {
   let bucket = usageBuckets.get(pipeline);
   if (!bucket) {
     bucket = { pipeline, requests: 0, errors: 0, totalDurationMs: 0, periodStart: Date.now() };
@@ -157,6 +304,15 @@ function recordUsage(pipeline: string, durationMs: number, isError: boolean): vo
   bucket.requests++;
   bucket.totalDurationMs += durationMs;
   if (isError) bucket.errors++;
+
+  let totals = usageTotals.get(pipeline);
+  if (!totals) {
+    totals = { requests: 0, errors: 0, cost: 0n };
+    usageTotals.set(pipeline, totals);
+  }
+  totals.requests++;
+  if (isError) totals.errors++;
+  if (/^\d+$/.test(cost)) totals.cost += BigInt(cost);
 }
 
 function flushUsage(): void {
@@ -168,6 +324,17 @@ function flushUsage(): void {
 
 // ─── Adapter Router ──────────────────────────────────────────────────────────
 
+function isAsyncPipeline(pipeline: PipelineDescriptor): boolean {
+  return featureFlags[pipeline.name]?.async ?? asyncAdapter.canHandle(pipeline);
+}
+
+/** `X-Pipeline-Cache: bypass` or `Cache-Control: no-cache` skips the result cache lookup. */
+function wantsCacheBypass(req: Request): boolean {
+  const header = String(req.headers['x-pipeline-cache'] ?? '').toLowerCase();
+  const cacheControl = String(req.headers['cache-control'] ?? '').toLowerCase();
+  return header === 'bypass' || /\bno-cache\b/.test(cacheControl);
+}
+
 function selectAdapter(pipelineName: string) {
   // Priority: specific adapters first, then BYOC, then batch fallback
   const pipeline = discoveredPipelines.find((p) => p.name === pipelineName);
@@ -175,12 +342,254 @@ function selectAdapter(pipelineName: string) {
 
   if (pipelineName === 'llm') return llmAdapter;
   if (pipelineName === 'live-video-to-video') return liveVideoAdapter;
-  if (asyncAdapter.canHandle(pipeline)) return asyncAdapter;
+  if (isAsyncPipeline(pipeline)) return asyncAdapter;
   if (byocAdapter.canHandle(pipeline)) return byocAdapter;
   if (batchAdapter.canHandle(pipeline)) return batchAdapter;
   return batchAdapter; // default fallback
 }
 
+/** Reject input that does not match the pipeline's discovered schema. */
+function assertValidInput(adapter: Pick<IPipelineAdapter, 'validate'>, pipelineName: string, input: Record<string, unknown>): void {
+  const pipeline = discoveredPipelines.find((p) => p.name === pipelineName);
+  const validation = pipeline && adapter.validate?.(input, pipeline);
+  if (validation && !validation.valid) {
+    throw new PipelineInputError(pipelineName, validation.fields ?? []);
+  }
+}
+
+/** HTTP status and envelope error for a failed pipeline request. */
+function describeError(err: unknown): { status: number; error: NonNullable<PipelineResponse['error']> } {
+  if (err instanceof PipelineInputError) {
+    return { status: err.status, error: { code: err.code, message: err.message, fields: err.fields } };
+  }
+  if (err instanceof ByocError) {
+    const fields = err.code === 'INVALID_INPUT' && Array.isArray(err.details) ? { fields: err.details } : {};
+    return { status: err.status, error: { code: err.code, message: err.message, ...fields } };
+  }
+  if (err instanceof LiveSessionError) {
+    return { status: err.status, error: { code: err.code, message: err.message } };
+  }
+  if (err instanceof SpendError) {
+    const details = err.details ? { details: err.details } : {};
+    return { status: err.status, error: { code: err.code, message: err.message, ...details } };
+  }
+  if (err instanceof RoutingError) {
+    return { status: err.status, error: { code: err.code, message: err.message } };
+  }
+  if (err instanceof FailoverError) {
+    // Report the last orchestrator's failure, with every attempt
+    const { status, error } = describeError(err.lastError);
+    return { status, error: { ...error, details: { attempts: err.attempts } } };
+  }
+  return { status: 500, error: { code: 'PIPELINE_ERROR', message: err instanceof Error ? err.message : String(err) } };
+}
+
+// ─── Spend Caps ──────────────────────────────────────────────────────────────
+
+interface SpendHold {
+  estimate: CostEstimate;
+  reservation: SpendReservation;
+  /** Set when the request was over budget and is held until the cap resets. */
+  runAfter?: Date;
+}
+
+function estimateFor(pipelineName: string, body: Record<string, unknown>): CostEstimate {
+  const pipeline = discoveredPipelines.find((p) => p.name === pipelineName);
+  return estimateCost(pipeline ?? { name: pipelineName, pricing: PIPELINE_PRICING[pipelineName] ?? [] }, body);
+}
+
+/**
+ * Reserve a request's estimated cost against its owner's caps. Over budget,
+ * owners set to `queue` get async requests held until the exceeded window
+ * resets (and charged to that window); everything else is rejected.
+ */
+async function reserveSpend(
+  pipelineName: string,
+  body: Record<string, unknown>,
+  ctx: PipelineContext,
+  canQueue = false
+): Promise<SpendHold> {
+  const ownerKey = ownerKeyFor(ctx.teamId, ctx.userId);
+  const estimate = estimateFor(pipelineName, body);
+  try {
+    return { estimate, reservation: await spendGuard.reserve(ownerKey, estimate) };
+  } catch (err) {
+    if (!(canQueue && err instanceof SpendError && err.details?.onExceeded === 'queue')) throw err;
+    const runAfter = new Date(err.details.resetsAt);
+    return { estimate, reservation: await spendGuard.reserve(ownerKey, estimate, runAfter), runAfter };
+  }
+}
+
+/**
+ * Settle a hold to the request's cost, or release it when the request did
+ * not run (cost null). Ledger errors are logged, never surfaced: the
+ * request has already succeeded or failed on its own.
+ */
+async function finishSpend(hold: SpendHold | null, cost: string | null): Promise<void> {
+  if (!hold) return;
+  try {
+    if (cost === null) await spendGuard.release(hold.reservation);
+    else await spendGuard.settle(hold.reservation, cost);
+  } catch (err) {
+    console.warn(`[pipeline-gateway] failed to record spend for ${hold.reservation.ownerKey}:`, err);
+  }
+}
+
+/** Spend caps are managed by platform admins. */
+function isAdmin(req: Request): boolean {
+  const user = (req as AuthenticatedRequest).user;
+  const roles = [user?.role, ...(user?.roles ?? [])];
+  return roles.some((role) => role === 'admin' || role === 'system:admin');
+}
+
+function sendSpendError(res: Response, err: unknown, fallbackCode: string) {
+  if (err instanceof SpendError) {
+    return res.status(err.status).json({ success: false, error: describeError(err).error });
+  }
+  return res.status(500).json({ success: false, error: { code: fallbackCode, message: String(err) } });
+}
+
+// ─── Orchestrator Routing ────────────────────────────────────────────────────
+
+/**
+ * Orchestrators to try for a request's routing policy, best first. Null
+ * when the request set no policy and go-livepeer picks as usual.
+ */
+async function resolveOrchestrators(
+  adapter: NonNullable<ReturnType<typeof selectAdapter>>,
+  pipelineName: string,
+  routing: unknown,
+  planHeader: string | undefined,
+  authorization: string | undefined
+): Promise<string[] | null> {
+  const policy = parseOrchestratorPolicy(routing, planHeader);
+  if (!policy) return null;
+  if (adapter === byocAdapter || adapter === liveVideoAdapter) {
+    throw new RoutingError('BAD_REQUEST', `Pipeline '${pipelineName}' does not support orchestrator routing`);
+  }
+  if (orchestratorGateways.size === 0) {
+    throw new RoutingError('BAD_REQUEST', 'Orchestrator routing is not configured on this gateway');
+  }
+  const routable = orchestratorGateways.routable(await orchestratorSelector.resolve(pipelineName, policy, authorization));
+  if (routable.length === 0) {
+    throw new RoutingError('NO_ORCHESTRATORS', `No orchestrator for '${pipelineName}' that satisfies the routing policy has a gateway node`);
+  }
+  return routable;
+}
+
+/**
+ * Execute on `adapter`, failing over down `orchestrators` when a routing
+ * policy picked them. Async jobs take the list with them and fail over
+ * as they retry. `attempts` is set when more than one orchestrator could
+ * have been tried.
+ */
+async function executeRouted(
+  adapter: NonNullable<ReturnType<typeof selectAdapter>>,
+  input: Record<string, unknown>,
+  ctx: PipelineContext,
+  orchestrators: string[] | null
+): Promise<PipelineResult & { attempts?: number }> {
+  if (!orchestrators) return adapter.execute(input, ctx);
+  if (adapter === asyncAdapter) return adapter.execute({ ...input, __orchestrators: orchestrators }, ctx);
+
+  // Adapters consume the injected fields, so each attempt gets its own copy
+  const { value, failed } = await orchestratorSelector.failover(orchestrators, ORCHESTRATOR_MAX_ATTEMPTS, (orchestrator) =>
+    adapter.execute({ ...input }, { ...ctx, orchestrator })
+  );
+  return { ...value, attempts: failed.length + 1 };
+}
+
+// ─── Batch Execution ─────────────────────────────────────────────────────────
+
+/**
+ * Run one batch item through the same adapters as the generic endpoint,
+ * reporting every outcome as an envelope.
+ */
+async function executeBatchItem(request: PipelineRequest, ctx: PipelineContext): Promise<PipelineResponse> {
+  const { pipeline, model } = request;
+  const fail = (error: NonNullable<PipelineResponse['error']>): PipelineResponse => {
+    const duration = Date.now() - ctx.startTime;
+    recordUsage(pipeline, duration, true);
+    return {
+      version: '1.0',
+      pipeline,
+      model: model || 'default',
+      status: 'error',
+      requestId: ctx.requestId,
+      result: null,
+      metadata: { cost: '0', duration, orchestrator: 'unknown', cached: false },
+      error,
+    };
+  };
+
+  if (!isPipelineEnabled(pipeline)) {
+    return fail({ code: 'PIPELINE_DISABLED', message: `Pipeline '${pipeline}' is currently disabled` });
+  }
+  const adapter = selectAdapter(pipeline);
+  if (!adapter) {
+    return fail({ code: 'PIPELINE_NOT_FOUND', message: `Pipeline '${pipeline}' not available` });
+  }
+  if (adapter === liveVideoAdapter) {
+    return fail({ code: 'UNSUPPORTED', message: 'Live video sessions cannot be started from a batch' });
+  }
+
+  let hold: SpendHold | null = null;
+  try {
+    const { routing, ...body }: Record<string, unknown> = {
+      ...(request.input as Record<string, unknown> | undefined),
+      ...request.params,
+      ...(model ? { model_id: model } : {}),
+    };
+    assertValidInput(adapter, pipeline, body);
+    const orchestrators = await resolveOrchestrators(adapter, pipeline, routing, undefined, ctx.authorization);
+    hold = await reserveSpend(pipeline, body, ctx);
+    const result = await executeRouted(adapter, { ...body, __pipeline: pipeline }, ctx, orchestrators);
+    const cost = result.cached ? '0' : result.cost ?? hold.estimate.cost;
+    await finishSpend(hold, cost);
+    const duration = Date.now() - ctx.startTime;
+    recordUsage(pipeline, duration, false, cost);
+    return {
+      version: '1.0',
+      pipeline,
+      model: result.model,
+      status: 'success',
+      requestId: ctx.requestId,
+      result: result.result,
+      metadata: {
+        cost,
+        duration,
+        orchestrator: result.orchestrator,
+        cached: result.cached ?? false,
+        ...(result.attempts ? { attempts: result.attempts } : {}),
+      },
+    };
+  } catch (err) {
+    await finishSpend(hold, null);
+    return fail(describeError(err).error);
+  }
+}
+
+const batchRunner = new BatchRunner(executeBatchItem, BATCH_CONFIG);
+
+function requestOwnerKey(req: Request): string {
+  const authReq = req as AuthenticatedRequest;
+  return ownerKeyFor(authReq.teamId, authReq.user?.id);
+}
+
+function sendLiveSessionError(res: Response, err: unknown, fallbackCode: string) {
+  if (err instanceof LiveSessionError || err instanceof PipelineInputError) {
+    return res.status(err.status).json({ success: false, error: describeError(err).error });
+  }
+  return res.status(500).json({ success: false, error: { code: fallbackCode, message: String(err) } });
+}
+
+function sendBatchError(res: Response, err: unknown) {
+  if (err instanceof BatchError) {
+    return res.status(err.status).json({ success: false, error: { code: err.code, message: err.message } });
+  }
+  return res.status(500).json({ success: false, error: { code: 'BATCH_FAILED', message: String(err) } });
+}
+
 // ─── Server ──────────────────────────────────────────────────────────────────
 
 const { router, start } = createPluginServer({
@@ -194,6 +603,9 @@ const { router, start } = createPluginServer({
 // Rate limit all pipeline endpoints per user/team
 router.use('/pipelines', pluginRateLimit);
 
+// Authenticate callers that send a token and verify their team before any owner key is built
+router.use('/pipelines', resolveIdentity);
+
 // List available pipelines
 router.get('/pipelines', async (_req, res) => {
   const enabledPipelines = discoveredPipelines.filter((p) => isPipelineEnabled(p.name));
@@ -216,6 +628,113 @@ router.get('/pipelines/:pipeline/schema', async (req, res) => {
   res.json({ success: true, data: { inputSchema: pipeline.inputSchema, outputSchema: pipeline.outputSchema } });
 });
 
+// Pre-flight cost estimate, and whether the caller's spend caps would allow it
+router.post('/pipelines/:pipeline/estimate', async (req, res) => {
+  const pipelineName = req.params.pipeline;
+  const adapter = selectAdapter(pipelineName);
+  if (!adapter) {
+    return res.status(404).json({
+      success: false,
+      error: { code: 'PIPELINE_NOT_FOUND', message: `Pipeline '${pipelineName}' not available` },
+    });
+  }
+
+  try {
+    const body = req.body ?? {};
+    assertValidInput(adapter, pipelineName, body);
+    const estimate = estimateFor(pipelineName, body);
+    const exceeded = await spendGuard.check(requestOwnerKey(req), estimate);
+    return res.json({ success: true, data: { ...estimate, allowed: exceeded === null, exceeded } });
+  } catch (err) {
+    const { status, error } = describeError(err);
+    return res.status(status).json({ success: false, error });
+  }
+});
+
+// The caller's spend so far today and this month, against its caps
+router.get('/pipelines/spend', async (req, res) => {
+  try {
+    return res.json({ success: true, data: await spendGuard.usage(requestOwnerKey(req)) });
+  } catch (err) {
+    return sendSpendError(res, err, 'SPEND_LOOKUP_FAILED');
+  }
+});
+
+// Admin: a team's spend, its caps, and overriding or resetting them
+router.get('/pipelines/spend/teams/:teamId', async (req, res) => {
+  if (!isAdmin(req)) {
+    return res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+  }
+  try {
+    return res.json({ success: true, data: await spendGuard.usage(ownerKeyFor(req.params.teamId)) });
+  } catch (err) {
+    return sendSpendError(res, err, 'SPEND_LOOKUP_FAILED');
+  }
+});
+
+router.put('/pipelines/spend/teams/:teamId', async (req, res) => {
+  if (!isAdmin(req)) {
+    return res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+  }
+  try {
+    const { dailyLimit, monthlyLimit, onExceeded } = req.body ?? {};
+    const updatedBy = (req as AuthenticatedRequest).user?.id ?? null;
+    await spendGuard.setLimits(ownerKeyFor(req.params.teamId), { dailyLimit, monthlyLimit, onExceeded }, updatedBy);
+    return res.json({ success: true, data: await spendGuard.usage(ownerKeyFor(req.params.teamId)) });
+  } catch (err) {
+    return sendSpendError(res, err, 'SPEND_UPDATE_FAILED');
+  }
+});
+
+router.delete('/pipelines/spend/teams/:teamId', async (req, res) => {
+  if (!isAdmin(req)) {
+    return res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+  }
+  try {
+    await spendGuard.resetLimits(ownerKeyFor(req.params.teamId));
+    return res.json({ success: true, data: await spendGuard.usage(ownerKeyFor(req.params.teamId)) });
+  } catch (err) {
+    return sendSpendError(res, err, 'SPEND_UPDATE_FAILED');
+  }
+});
+
+// Batch submission: fan an array of PipelineRequests out through the adapters.
+// Batches are read and retried by owner, so every batch route needs a caller.
+router.post('/pipelines/batches', requireCaller, async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  const teamId = authReq.teamId;
+  const userId = authReq.user?.id;
+
+  try {
+    const batch = batchRunner.submit(
+      req.body?.items,
+      { ownerKey: ownerKeyFor(teamId, userId), teamId, userId, authorization: req.headers.authorization },
+      req.body?.concurrency
+    );
+    res.status(202).json({ success: true, data: batch });
+  } catch (err) {
+    sendBatchError(res, err);
+  }
+});
+
+router.get('/pipelines/batches/:batchId', requireCaller, async (req, res) => {
+  const batch = batchRunner.get(req.params.batchId, requestOwnerKey(req));
+  if (!batch) {
+    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Batch not found' } });
+  }
+  return res.json({ success: true, data: batch });
+});
+
+// Re-run failed items (all of them, or `items: [index, ...]`)
+router.post('/pipelines/batches/:batchId/retry', requireCaller, async (req, res) => {
+  try {
+    const batch = batchRunner.retry(req.params.batchId, requestOwnerKey(req), req.body?.items);
+    res.status(202).json({ success: true, data: batch });
+  } catch (err) {
+    sendBatchError(res, err);
+  }
+});
+
 // Execute a pipeline (generic endpoint)
 router.post('/pipelines/:pipeline', async (req, res) => {
   const pipelineName = req.params.pipeline;
@@ -230,8 +749,16 @@ router.post('/pipelines/:pipeline', async (req, res) => {
     });
   }
 
-  const ctx: PipelineContext = { requestId, userId: (req as { userId?: string }).userId, startTime };
+  const authReq = req as AuthenticatedRequest;
+  const ctx: PipelineContext = {
+    requestId,
+    userId: authReq.user?.id,
+    teamId: authReq.teamId,
+    startTime,
+    bypassCache: wantsCacheBypass(req),
+  };
 
+  let hold: SpendHold | null = null;
   try {
     const adapter = selectAdapter(pipelineName);
     if (!adapter) {
@@ -241,9 +768,51 @@ router.post('/pipelines/:pipeline', async (req, res) => {
       });
     }
 
-    // Inject pipeline name for adapters that need it
-    const input = { ...req.body, __pipeline: pipelineName };
-    const { result, model, orchestrator } = await adapter.execute(input, ctx);
+    // Async jobs are looked up and cancelled by owner, so they need one
+    if (adapter === asyncAdapter && !authReq.user) {
+      return res.status(401).json({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: `Pipeline '${pipelineName}' runs as an async job and requires authentication` },
+      });
+    }
+
+    const { callbackUrl, routing, ...body } = req.body ?? {};
+    assertValidInput(adapter, pipelineName, body);
+    if (callbackUrl !== undefined) {
+      const invalid = adapter !== asyncAdapter
+        ? `Pipeline '${pipelineName}' runs synchronously; callbackUrl is only supported for async pipelines`
+        : !WEBHOOK_SECRET
+          ? 'Completion webhooks are not configured on this gateway'
+          : validateCallbackUrl(callbackUrl);
+      if (invalid) {
+        return res.status(400).json({ success: false, error: { code: 'INVALID_CALLBACK_URL', message: invalid } });
+      }
+    }
+
+    const orchestrators = await resolveOrchestrators(
+      adapter,
+      pipelineName,
+      routing,
+      req.headers['x-discovery-plan'] as string | undefined,
+      req.headers.authorization
+    );
+
+    // Charge against the team's spend caps; resubmitting an async job is free
+    const resubmitted = adapter === asyncAdapter && (await asyncAdapter.getJob(requestId)) !== null;
+    if (!resubmitted) hold = await reserveSpend(pipelineName, body, ctx, adapter === asyncAdapter);
+
+    // Inject pipeline name (and callback / hold for async jobs) for adapters that need it
+    const input = {
+      ...body,
+      __pipeline: pipelineName,
+      ...(callbackUrl ? { __callbackUrl: callbackUrl } : {}),
+      ...(hold?.runAfter ? { __runAfter: hold.runAfter } : {}),
+      ...(adapter === byocAdapter ? { __schemaVersion: requestedSchemaVersion(req) } : {}),
+    };
+    const executed = await executeRouted(adapter, input, ctx, orchestrators);
+    const { result, model, orchestrator, cached, attempts } = executed;
+    const cost = cached ? '0' : executed.cost ?? hold?.estimate.cost ?? '0';
+    await finishSpend(hold, cost);
 
     const envelope: PipelineResponse = {
       version: '1.0',
@@ -253,19 +822,22 @@ router.post('/pipelines/:pipeline', async (req, res) => {
       requestId,
       result,
       metadata: {
-        cost: '0',
+        cost,
         duration: Date.now() - startTime,
         orchestrator,
-        cached: false,
+        cached: cached ?? false,
+        ...(attempts ? { attempts } : {}),
       },
     };
 
-    recordUsage(pipelineName, Date.now() - startTime, false);
-    res.json(envelope);
+    recordUsage(pipelineName, Date.now() - startTime, false, cost);
+    res.status(adapter === asyncAdapter ? 202 : 200).json(envelope);
   } catch (err) {
+    await finishSpend(hold, null);
     const duration = Date.now() - startTime;
     recordUsage(pipelineName, duration, true);
 
+    const { status, error } = describeError(err);
     const envelope: PipelineResponse = {
       version: '1.0',
       pipeline: pipelineName,
@@ -274,10 +846,10 @@ router.post('/pipelines/:pipeline', async (req, res) => {
       requestId,
       result: null,
       metadata: { cost: '0', duration, orchestrator: 'unknown', cached: false },
-      error: { code: 'PIPELINE_ERROR', message: err instanceof Error ? err.message : String(err) },
+      error,
     };
 
-    res.status(500).json(envelope);
+    res.status(status).json(envelope);
   }
 });
 
@@ -288,32 +860,88 @@ router.post('/pipelines/llm/stream', async (req, res) => {
   }
 
   const requestId = (req.headers['x-request-id'] as string) || crypto.randomUUID();
-  const ctx: PipelineContext = { requestId, startTime: Date.now() };
+  const authReq = req as AuthenticatedRequest;
+  const ctx: PipelineContext = {
+    requestId,
+    userId: authReq.user?.id,
+    teamId: authReq.teamId,
+    startTime: Date.now(),
+  };
+
+  const { routing, ...body } = req.body ?? {};
+  let hold: SpendHold;
+  try {
+    assertValidInput(llmAdapter, 'llm', body);
+    // A stream cannot fail over once it has started, so it uses the top-ranked orchestrator
+    const planHeader = req.headers['x-discovery-plan'] as string | undefined;
+    const orchestrators = await resolveOrchestrators(llmAdapter, 'llm', routing, planHeader, req.headers.authorization);
+    if (orchestrators) ctx.orchestrator = orchestrators[0];
+    hold = await reserveSpend('llm', body, ctx);
+  } catch (err) {
+    const { status, error } = describeError(err);
+    return res.status(status).json({ success: false, error });
+  }
 
-  await llmAdapter.executeStream(req.body, res, ctx);
-  recordUsage('llm', Date.now() - ctx.startTime, false);
+  // Token usage is not reported mid-stream, so a completed stream is charged its estimate
+  const completed = await llmAdapter.executeStream(body, res, ctx);
+  const cost = completed ? hold.estimate.cost : null;
+  await finishSpend(hold, cost);
+  recordUsage('llm', Date.now() - ctx.startTime, !completed, cost ?? '0');
 });
 
 // Async job status polling
-router.get('/pipelines/:pipeline/jobs/:requestId', async (req, res) => {
-  const job = asyncAdapter.getJobStatus(req.params.requestId);
-  if (!job) {
-    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
+router.get('/pipelines/:pipeline/jobs/:requestId', requireCaller, async (req, res) => {
+  try {
+    const job = await asyncAdapter.getJob(req.params.requestId);
+    // Jobs owned by another team or user are reported as missing
+    if (!job || job.pipeline !== req.params.pipeline || job.ownerKey !== requestOwnerKey(req)) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
+    }
+    return res.json({ success: true, data: serializeJob(job) });
+  } catch (err) {
+    return res.status(500).json({ success: false, error: { code: 'JOB_LOOKUP_FAILED', message: String(err) } });
   }
-  res.json({ success: true, data: job });
 });
 
-// Live video-to-video session management
-router.post('/pipelines/live-video-to-video/sessions', async (req, res) => {
+// Cancel an async job (pending or running)
+router.delete('/pipelines/:pipeline/jobs/:requestId', requireCaller, async (req, res) => {
+  try {
+    const existing = await asyncAdapter.getJob(req.params.requestId);
+    if (!existing || existing.pipeline !== req.params.pipeline || existing.ownerKey !== requestOwnerKey(req)) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
+    }
+    const job = await asyncAdapter.cancelJob(req.params.requestId);
+    if (!job) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'JOB_FINISHED', message: `Job already ${existing.status}` },
+      });
+    }
+    return res.json({ success: true, data: serializeJob(job) });
+  } catch (err) {
+    return res.status(500).json({ success: false, error: { code: 'CANCEL_FAILED', message: String(err) } });
+  }
+});
+
+// Live video-to-video session management. Sessions are owned, so every
+// session route needs an authenticated caller.
+router.post('/pipelines/live-video-to-video/sessions', requireCaller, async (req, res) => {
   if (!isPipelineEnabled('live-video-to-video')) {
     return res.status(403).json({ success: false, error: { code: 'PIPELINE_DISABLED' } });
   }
 
   const requestId = (req.headers['x-request-id'] as string) || crypto.randomUUID();
-  const ctx: PipelineContext = { requestId, startTime: Date.now() };
+  const authReq = req as AuthenticatedRequest;
+  const ctx: PipelineContext = {
+    requestId,
+    userId: authReq.user?.id,
+    teamId: authReq.teamId,
+    startTime: Date.now(),
+  };
 
   try {
-    const { result, model, orchestrator } = await liveVideoAdapter.execute(req.body, ctx);
+    assertValidInput(liveVideoAdapter, 'live-video-to-video', req.body ?? {});
+    const { result, model, orchestrator } = await liveVideoAdapter.execute(req.body ?? {}, ctx);
     res.json({
       version: '1.0',
       pipeline: 'live-video-to-video',
@@ -324,100 +952,213 @@ router.post('/pipelines/live-video-to-video/sessions', async (req, res) => {
       metadata: { cost: '0', duration: Date.now() - ctx.startTime, orchestrator, cached: false },
     });
   } catch (err) {
-    res.status(500).json({
-      success: false,
-      error: { code: 'SESSION_START_FAILED', message: String(err) },
-    });
+    sendLiveSessionError(res, err, 'SESSION_START_FAILED');
   }
 });
 
-// Get live session status
-router.get('/pipelines/live-video-to-video/sessions/:stream', async (req, res) => {
+// The caller's starting and active sessions
+router.get('/pipelines/live-video-to-video/sessions', requireCaller, async (req, res) => {
   try {
-    const status = await liveVideoAdapter.getSessionStatus(req.params.stream);
-    if (!status) {
-      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Session not found' } });
-    }
-    res.json({ success: true, data: status });
+    const sessions = await liveVideoAdapter.sessions.list(requestOwnerKey(req));
+    res.json({ success: true, data: sessions.map(serializeSession) });
   } catch (err) {
-    res.status(500).json({ success: false, error: { code: 'STATUS_FAILED', message: String(err) } });
+    sendLiveSessionError(res, err, 'LIST_FAILED');
+  }
+});
+
+// Get live session status (also counts as activity for the idle timeout)
+router.get('/pipelines/live-video-to-video/sessions/:stream', requireCaller, async (req, res) => {
+  try {
+    const session = await liveVideoAdapter.sessions.get(req.params.stream, requestOwnerKey(req));
+    res.json({ success: true, data: serializeSession(session) });
+  } catch (err) {
+    sendLiveSessionError(res, err, 'STATUS_FAILED');
   }
 });
 
 // Stop live session
-router.delete('/pipelines/live-video-to-video/sessions/:stream', async (req, res) => {
+router.delete('/pipelines/live-video-to-video/sessions/:stream', requireCaller, async (req, res) => {
   try {
-    liveVideoAdapter.stopSession(req.params.stream);
-    res.json({ success: true });
+    const session = await liveVideoAdapter.sessions.stop(req.params.stream, requestOwnerKey(req));
+    res.json({ success: true, data: serializeSession(session) });
   } catch (err) {
-    res.status(500).json({ success: false, error: { code: 'STOP_FAILED', message: String(err) } });
+    sendLiveSessionError(res, err, 'STOP_FAILED');
   }
 });
 
 // Update live session params (trickle control)
-router.patch('/pipelines/live-video-to-video/sessions/:stream', async (req, res) => {
+router.patch('/pipelines/live-video-to-video/sessions/:stream', requireCaller, async (req, res) => {
   try {
-    await liveVideoAdapter.updateSession(req.params.stream, req.body);
-    res.json({ success: true });
+    const session = await liveVideoAdapter.sessions.update(req.params.stream, requestOwnerKey(req), req.body ?? {});
+    res.json({ success: true, data: serializeSession(session) });
   } catch (err) {
-    res.status(500).json({ success: false, error: { code: 'UPDATE_FAILED', message: String(err) } });
+    sendLiveSessionError(res, err, 'UPDATE_FAILED');
   }
 });
 
 // ─── BYOC Registration Routes (Phase 5d) ────────────────────────────────────
 
-router.post('/byoc/register', async (req, res) => {
-  const { name, endpoint, registeredBy, schema, pricing, healthCheckUrl } = req.body;
-  if (!name || !endpoint || !registeredBy) {
-    return res.status(400).json({ success: false, error: { code: 'BAD_REQUEST', message: 'name, endpoint, registeredBy required' } });
+function sendByocError(res: Response, err: unknown, fallbackCode: string) {
+  if (err instanceof ByocError) {
+    return res.status(err.status).json({
+      success: false,
+      error: { code: err.code, message: err.message, ...(err.details ? { details: err.details } : {}) },
+    });
   }
+  return res.status(500).json({ success: false, error: { code: fallbackCode, message: String(err) } });
+}
 
-  byocAdapter.register(name, { endpoint, registeredBy, schema, pricing, healthCheckUrl });
+/**
+ * Accepts `endpoints: [{ url, healthCheckUrl, weight }]` or the single
+ * `endpoint` / `healthCheckUrl` / `weight` fields older SDKs send.
+ */
+function parseRegistration(body: Record<string, any>): RegisterInput {
+  const { name, registeredBy, description, schema, pricing } = body;
+  const endpoints = Array.isArray(body.endpoints)
+    ? body.endpoints
+    : body.endpoint
+      ? [{ url: body.endpoint, healthCheckUrl: body.healthCheckUrl, weight: body.weight }]
+      : [];
+  return { name, registeredBy, description, schema, pricing, endpoints };
+}
 
-  // Trigger immediate re-discovery to include the new capability
-  await discoverPipelines();
+function requestedSchemaVersion(req: Request): number | undefined {
+  const header = req.headers['x-byoc-schema-version'];
+  if (typeof header !== 'string' || header === '') return undefined;
+  const version = Number(header);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ByocError('BAD_REQUEST', 'x-byoc-schema-version must be a positive integer');
+  }
+  return version;
+}
 
-  res.json({ success: true, data: { name, endpoint, registeredBy } });
-});
+async function handleRegister(req: Request, res: Response) {
+  try {
+    const capability = await byocAdapter.registry.register(parseRegistration(req.body ?? {}));
 
-router.delete('/byoc/register/:name', async (req, res) => {
-  const registeredBy = req.body?.registeredBy || req.query.registeredBy;
-  const success = byocAdapter.unregister(req.params.name, registeredBy as string);
-  res.json({ success });
-});
+    // Trigger immediate re-discovery to include the new capability
+    await discoverPipelines();
+
+    res.json({ success: true, data: toPublic(capability) });
+  } catch (err) {
+    sendByocError(res, err, 'REGISTER_FAILED');
+  }
+}
+
+/**
+ * Without an `endpoint` this removes the whole capability; with one, only
+ * that replica is removed (what a single plugin replica does on shutdown).
+ */
+async function handleUnregister(req: Request, res: Response) {
+  const registeredBy = String(req.body?.registeredBy ?? req.query.registeredBy ?? '');
+  const endpoint = req.body?.endpoint ?? req.query.endpoint;
+
+  try {
+    if (endpoint) {
+      await byocAdapter.registry.removeEndpoint(req.params.name, registeredBy, String(endpoint));
+    } else {
+      await byocAdapter.registry.unregister(req.params.name, registeredBy);
+    }
+    await discoverPipelines();
+    res.json({ success: true });
+  } catch (err) {
+    sendByocError(res, err, 'UNREGISTER_FAILED');
+  }
+}
+
+router.post('/byoc/register', handleRegister);
+router.delete('/byoc/register/:name', handleUnregister);
 
 router.get('/byoc/capabilities', async (_req, res) => {
   res.json({ success: true, data: byocAdapter.listCapabilities() });
 });
 
 // Plan-compatible BYOC routes (aliases)
-router.post('/pipelines/byoc/capabilities', async (req, res) => {
-  const { name, endpoint, registeredBy, schema, pricing, healthCheckUrl } = req.body;
-  if (!name || !endpoint || !registeredBy) {
-    return res.status(400).json({ success: false, error: { code: 'BAD_REQUEST', message: 'name, endpoint, registeredBy required' } });
+router.post('/pipelines/byoc/capabilities', handleRegister);
+router.delete('/pipelines/byoc/capabilities/:name', handleUnregister);
+
+router.get('/pipelines/byoc/capabilities', async (_req, res) => {
+  res.json({ success: true, data: byocAdapter.listCapabilities() });
+});
+
+router.get('/pipelines/byoc/capabilities/:name', async (req, res) => {
+  const capability = byocAdapter.getCapability(req.params.name);
+  if (!capability) {
+    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Capability not found' } });
   }
-  byocAdapter.register(name, { endpoint, registeredBy, schema, pricing, healthCheckUrl });
-  await discoverPipelines();
-  res.json({ success: true, data: { name, endpoint, registeredBy } });
+  return res.json({ success: true, data: capability });
 });
 
-router.delete('/pipelines/byoc/capabilities/:name', async (req, res) => {
-  const registeredBy = req.body?.registeredBy || req.query.registeredBy;
-  const success = byocAdapter.unregister(req.params.name, registeredBy as string);
-  res.json({ success });
+// Add or update a replica endpoint
+router.post('/pipelines/byoc/capabilities/:name/endpoints', async (req, res) => {
+  const { registeredBy, url, healthCheckUrl, weight } = req.body ?? {};
+  try {
+    const capability = await byocAdapter.registry.addEndpoint(req.params.name, registeredBy, { url, healthCheckUrl, weight });
+    res.json({ success: true, data: toPublic(capability) });
+  } catch (err) {
+    sendByocError(res, err, 'ENDPOINT_UPDATE_FAILED');
+  }
 });
 
-router.get('/pipelines/byoc/capabilities', async (_req, res) => {
-  res.json({ success: true, data: byocAdapter.listCapabilities() });
+router.delete('/pipelines/byoc/capabilities/:name/endpoints/:endpointId', async (req, res) => {
+  const registeredBy = String(req.body?.registeredBy ?? req.query.registeredBy ?? '');
+  try {
+    const capability = await byocAdapter.registry.removeEndpoint(req.params.name, registeredBy, req.params.endpointId);
+    res.json({ success: true, data: toPublic(capability) });
+  } catch (err) {
+    sendByocError(res, err, 'ENDPOINT_UPDATE_FAILED');
+  }
+});
+
+router.get('/pipelines/byoc/capabilities/:name/schemas', async (req, res) => {
+  try {
+    res.json({ success: true, data: await byocAdapter.registry.schemaVersions(req.params.name) });
+  } catch (err) {
+    sendByocError(res, err, 'SCHEMA_LOOKUP_FAILED');
+  }
+});
+
+router.get('/pipelines/byoc/capabilities/:name/schemas/:version', async (req, res) => {
+  try {
+    const schema = await byocAdapter.registry.schemaVersion(req.params.name, Number(req.params.version));
+    if (!schema) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Schema version not found' } });
+    }
+    return res.json({ success: true, data: schema });
+  } catch (err) {
+    return sendByocError(res, err, 'SCHEMA_LOOKUP_FAILED');
+  }
+});
+
+// Registration history (newest first)
+router.get('/pipelines/byoc/capabilities/:name/history', async (req, res) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ''), 10) || 100, 1), 500);
+  try {
+    res.json({ success: true, data: await byocAdapter.registry.history(req.params.name, limit) });
+  } catch (err) {
+    sendByocError(res, err, 'HISTORY_LOOKUP_FAILED');
+  }
 });
 
 router.post('/pipelines/byoc/:capability', async (req, res) => {
   const pipelineName = req.params.capability;
   const requestId = (req.headers['x-request-id'] as string) || crypto.randomUUID();
-  const ctx: PipelineContext = { requestId, startTime: Date.now() };
+  const authReq = req as AuthenticatedRequest;
+  const ctx: PipelineContext = {
+    requestId,
+    userId: authReq.user?.id,
+    teamId: authReq.teamId,
+    startTime: Date.now(),
+  };
 
+  let hold: SpendHold | null = null;
   try {
-    const { result, model, orchestrator } = await byocAdapter.execute({ ...req.body, __pipeline: pipelineName }, ctx);
+    const schemaVersion = requestedSchemaVersion(req);
+    hold = await reserveSpend(pipelineName, req.body ?? {}, ctx);
+    const input = { ...req.body, __pipeline: pipelineName, __schemaVersion: schemaVersion };
+    const { result, model, orchestrator, cost } = await byocAdapter.execute(input, ctx);
+    const charged = cost ?? hold.estimate.cost;
+    await finishSpend(hold, charged);
     res.json({
       version: '1.0',
       pipeline: pipelineName,
@@ -425,10 +1166,12 @@ router.post('/pipelines/byoc/:capability', async (req, res) => {
       status: 'success',
       requestId,
       result,
-      metadata: { cost: '0', duration: Date.now() - ctx.startTime, orchestrator, cached: false },
+      metadata: { cost: charged, duration: Date.now() - ctx.startTime, orchestrator, cached: false },
     });
   } catch (err) {
-    res.status(500).json({ success: false, error: { code: 'BYOC_FAILED', message: String(err) } });
+    await finishSpend(hold, null);
+    if (err instanceof SpendError) return sendSpendError(res, err, 'BYOC_FAILED');
+    sendByocError(res, err, 'BYOC_FAILED');
   }
 });
 
@@ -447,6 +1190,7 @@ router.put('/flags/:pipeline', async (req, res) => {
     enabled: req.body.enabled ?? true,
     maxRequestsPerMinute: req.body.maxRequestsPerMinute,
     allowedUsers: req.body.allowedUsers,
+    async: typeof req.body.async === 'boolean' ? req.body.async : undefined,
   };
   res.json({ success: true, data: featureFlags[pipeline] });
 });
@@ -458,6 +1202,17 @@ router.get('/usage', async (_req, res) => {
   res.json({ success: true, data: buckets });
 });
 
+// Requests and cost (wei) per pipeline since `since`, when this process started
+router.get('/usage/totals', async (_req, res) => {
+  const pipelines = Array.from(usageTotals, ([pipeline, t]) => ({
+    pipeline,
+    requests: t.requests,
+    errors: t.errors,
+    cost: t.cost.toString(),
+  }));
+  res.json({ success: true, data: { since: USAGE_SINCE, pipelines } });
+});
+
 // Metrics (simple JSON payload)
 router.get('/metrics', async (_req, res) => {
   const buckets = Array.from(usageBuckets.values());
@@ -474,6 +1229,7 @@ router.get('/metrics', async (_req, res) => {
       totalErrors,
       avgLatencyMs,
       buckets,
+      cache: resultCache.stats(),
       lastUpdated: new Date().toISOString(),
     },
   });
@@ -481,7 +1237,16 @@ router.get('/metrics', async (_req, res) => {
 
 // ─── Start + Background Jobs (Phase 5f) ─────────────────────────────────────
 
-start()
+Promise.all([createJobStore(), createByocStore(), createLiveSessionStore(), createSpendStore()])
+  .then(async ([jobStore, byocStore, liveSessionStore, spendStore]) => {
+    spendGuard = new SpendGuard(spendStore, SPEND_CONFIG);
+    // Work the queue before accepting requests so resumed jobs start right away
+    asyncAdapter.start(jobStore, JOB_QUEUE_CONFIG);
+    if (!ABLY_API_KEY) console.warn('[pipeline-gateway] ABLY_API_KEY not set; live session events are not published');
+    liveVideoAdapter.start(liveSessionStore, LIVE_SESSION_CONFIG, ABLY_API_KEY ? new AblyRestPublisher(ABLY_API_KEY) : null);
+    await byocAdapter.start(byocStore, BYOC_REGISTRY_CONFIG);
+    return start();
+  })
   .then(() => {
     // Initial discovery
     discoverPipelines();
@@ -494,27 +1259,76 @@ start()
     setInterval(refreshFeatureFlags, 60_000);
 
     // Background job: async job cleanup
-    setInterval(() => {
-      const cleaned = asyncAdapter.cleanupOldJobs();
-      if (cleaned > 0) console.log(`[pipeline-gateway] Cleaned ${cleaned} old async jobs`);
+    setInterval(async () => {
+      try {
+        const cleaned = await asyncAdapter.cleanupOldJobs(JOB_RETENTION_MS);
+        if (cleaned > 0) console.log(`[pipeline-gateway] Cleaned ${cleaned} old async jobs`);
+      } catch (err) {
+        console.warn('[pipeline-gateway] async job cleanup failed:', err);
+      }
     }, JOB_CLEANUP_INTERVAL);
 
     // Background job: BYOC health checking
     setInterval(async () => {
-      await byocAdapter.healthCheckAll();
+      try {
+        await byocAdapter.healthCheckAll();
+      } catch (err) {
+        console.warn('[pipeline-gateway] BYOC health check failed:', err);
+        return;
+      }
       const unhealthy = byocAdapter.getUnhealthy();
       if (unhealthy.length > 0) {
         console.warn(`[pipeline-gateway] ${unhealthy.length} BYOC capabilities unhealthy:`, unhealthy.map((c) => c.name));
       }
     }, HEALTH_CHECK_INTERVAL);
 
+    // Background job: pick up registrations made through other gateway replicas
+    setInterval(async () => {
+      try {
+        await byocAdapter.registry.refresh();
+      } catch (err) {
+        console.warn('[pipeline-gateway] BYOC registry refresh failed:', err);
+      }
+    }, BYOC_REFRESH_INTERVAL);
+
     // Background job: usage aggregation flush
     setInterval(flushUsage, USAGE_FLUSH_INTERVAL);
 
-    // Background job: stale live session cleanup
+    // Background job: drop finished batches past retention
     setInterval(() => {
-      const cleaned = liveVideoAdapter.cleanupStaleSessions();
-      if (cleaned > 0) console.log(`[pipeline-gateway] Cleaned ${cleaned} stale live sessions`);
+      const pruned = batchRunner.prune();
+      if (pruned > 0) console.log(`[pipeline-gateway] Pruned ${pruned} finished batches`);
+    }, JOB_CLEANUP_INTERVAL);
+
+    // Background job: end idle/overlong live sessions and reconcile the rest with the orchestrator
+    setInterval(async () => {
+      try {
+        const expired = await liveVideoAdapter.sessions.enforce();
+        const gone = await liveVideoAdapter.sessions.reconcile();
+        if (expired + gone > 0) console.log(`[pipeline-gateway] Ended ${expired} expired and ${gone} orphaned live sessions`);
+      } catch (err) {
+        console.warn('[pipeline-gateway] live session reconciliation failed:', err);
+      }
+    }, LIVE_SESSION_RECONCILE_INTERVAL);
+
+    // Background job: drop ended live sessions past retention
+    setInterval(async () => {
+      try {
+        const pruned = await liveVideoAdapter.sessions.prune();
+        if (pruned > 0) console.log(`[pipeline-gateway] Pruned ${pruned} ended live sessions`);
+      } catch (err) {
+        console.warn('[pipeline-gateway] live session cleanup failed:', err);
+      }
+    }, JOB_CLEANUP_INTERVAL);
+
+    // Background job: drop spend totals older than last month
+    setInterval(async () => {
+      try {
+        const pruned = await spendGuard.prune();
+        if (pruned > 0) console.log(`[pipeline-gateway] Pruned ${pruned} old daily spend totals`);
+      } catch (err) {
+        console.warn('[pipeline-gateway] spend cleanup failed:', err);
+      }
     }, JOB_CLEANUP_INTERVAL);
 
     console.log('[pipeline-gateway] All background jobs started');
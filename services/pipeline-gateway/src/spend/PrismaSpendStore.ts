@@ -0,0 +1,118 @@
+/**
+ * Postgres Spend Store
+ *
+ * `SpendStore` backed by the `PipelineSpendLimit` and `PipelineSpendDay`
+ * tables in @naap/database. Charges and adjustments take a
+ * transaction-scoped advisory lock on the owner, so replicas charging the
+ * same team read and write its totals one at a time.
+ */
+
+import type { PrismaClient } from '@naap/database';
+import {
+  withinCaps,
+  type OverBudgetAction,
+  type SpendCaps,
+  type SpendLimits,
+  type SpendLimitsInput,
+  type SpendStore,
+  type SpendTotals,
+} from './SpendStore.js';
+
+type Tx = Pick<PrismaClient, 'pipelineSpendDay'>;
+
+type LimitRow = Omit<SpendLimits, 'onExceeded'> & { onExceeded: string };
+
+export class PrismaSpendStore implements SpendStore {
+  constructor(private db: PrismaClient) {}
+
+  async getLimits(ownerKey: string): Promise<SpendLimits | null> {
+    const row = await this.db.pipelineSpendLimit.findUnique({ where: { ownerKey } });
+    return row ? toLimits(row) : null;
+  }
+
+  async setLimits(input: SpendLimitsInput): Promise<SpendLimits> {
+    const data = {
+      dailyLimit: input.dailyLimit,
+      monthlyLimit: input.monthlyLimit,
+      onExceeded: input.onExceeded,
+      updatedBy: input.updatedBy,
+    };
+    const row = await this.db.pipelineSpendLimit.upsert({
+      where: { ownerKey: input.ownerKey },
+      create: { ownerKey: input.ownerKey, ...data },
+      update: data,
+    });
+    return toLimits(row);
+  }
+
+  async deleteLimits(ownerKey: string): Promise<boolean> {
+    const { count } = await this.db.pipelineSpendLimit.deleteMany({ where: { ownerKey } });
+    return count > 0;
+  }
+
+  totals(ownerKey: string, day: string): Promise<SpendTotals> {
+    return totalsIn(this.db, ownerKey, day);
+  }
+
+  async charge(ownerKey: string, day: string, amount: bigint, caps: SpendCaps): Promise<{ charged: boolean; totals: SpendTotals }> {
+    return this.db.$transaction(async (tx) => {
+      await lockOwner(tx, ownerKey);
+      const totals = await totalsIn(tx, ownerKey, day);
+      if (!withinCaps(totals, amount, caps)) return { charged: false, totals };
+      await tx.pipelineSpendDay.upsert({
+        where: { ownerKey_day: { ownerKey, day } },
+        create: { ownerKey, day, spent: amount.toString(), requests: 1 },
+        update: { spent: (totals.daySpent + amount).toString(), requests: { increment: 1 } },
+      });
+      return { charged: true, totals };
+    });
+  }
+
+  async adjust(ownerKey: string, day: string, delta: bigint): Promise<void> {
+    await this.db.$transaction(async (tx) => {
+      await lockOwner(tx, ownerKey);
+      const row = await tx.pipelineSpendDay.findUnique({ where: { ownerKey_day: { ownerKey, day } } });
+      const spent = BigInt(row?.spent ?? '0') + delta;
+      const value = (spent > 0n ? spent : 0n).toString();
+      await tx.pipelineSpendDay.upsert({
+        where: { ownerKey_day: { ownerKey, day } },
+        create: { ownerKey, day, spent: value, requests: 0 },
+        update: { spent: value },
+      });
+    });
+  }
+
+  async prune(day: string): Promise<number> {
+    const { count } = await this.db.pipelineSpendDay.deleteMany({ where: { day: { lt: day } } });
+    return count;
+  }
+}
+
+async function lockOwner(tx: Pick<PrismaClient, '$executeRaw'>, ownerKey: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`spend:${ownerKey}`}))`;
+}
+
+async function totalsIn(tx: Tx, ownerKey: string, day: string): Promise<SpendTotals> {
+  const rows = await tx.pipelineSpendDay.findMany({
+    where: { ownerKey, day: { startsWith: day.slice(0, 7) } },
+    select: { day: true, spent: true, requests: true },
+  });
+  const today = rows.find((r) => r.day === day);
+  return {
+    day,
+    daySpent: BigInt(today?.spent ?? '0'),
+    monthSpent: rows.reduce((sum, r) => sum + BigInt(r.spent), 0n),
+    dayRequests: today?.requests ?? 0,
+  };
+}
+
+function toLimits(row: LimitRow): SpendLimits {
+  return {
+    ownerKey: row.ownerKey,
+    dailyLimit: row.dailyLimit,
+    monthlyLimit: row.monthlyLimit,
+    onExceeded: row.onExceeded as OverBudgetAction,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt,
+  };
+}
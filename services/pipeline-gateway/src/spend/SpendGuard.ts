@@ -0,0 +1,244 @@
+/**
+ * Spend Guard
+ *
+ * Enforces per-team daily and monthly spend caps on pipeline requests.
+ * Before a request runs, its estimated cost is reserved against the
+ * owner's budget; once it finishes the reservation is settled to the real
+ * cost (or released when the request failed), so the totals track what
+ * was actually spent while concurrent requests still cannot overshoot.
+ *
+ * Caps come from the gateway defaults unless the team has an override.
+ * Days and months are UTC.
+ */
+
+import type { CostEstimate } from './estimate.js';
+import {
+  dayKey,
+  type OverBudgetAction,
+  type SpendCaps,
+  type SpendLimits,
+  type SpendStore,
+} from './SpendStore.js';
+
+export type SpendErrorCode = 'BAD_REQUEST' | 'SPEND_LIMIT_EXCEEDED';
+
+const STATUS_BY_CODE: Record<SpendErrorCode, number> = {
+  BAD_REQUEST: 400,
+  SPEND_LIMIT_EXCEEDED: 402,
+};
+
+export type SpendWindow = 'daily' | 'monthly';
+
+/** Why a request was refused, returned in the error details. */
+export interface BudgetExceeded {
+  window: SpendWindow;
+  limit: string;
+  spent: string;
+  estimate: string;
+  /** When the exceeded window starts over. */
+  resetsAt: string;
+  onExceeded: OverBudgetAction;
+}
+
+export class SpendError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: SpendErrorCode, message: string, readonly details?: BudgetExceeded) {
+    super(message);
+    this.name = 'SpendError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export interface SpendConfig {
+  /** Default daily cap in wei; null = uncapped. */
+  dailyLimit: string | null;
+  /** Default monthly cap in wei; null = uncapped. */
+  monthlyLimit: string | null;
+  onExceeded: OverBudgetAction;
+}
+
+export interface SpendReservation {
+  ownerKey: string;
+  day: string;
+  amount: bigint;
+}
+
+export interface SpendUsage {
+  ownerKey: string;
+  day: string;
+  daySpent: string;
+  monthSpent: string;
+  dayRequests: number;
+  dailyLimit: string | null;
+  monthlyLimit: string | null;
+  dailyRemaining: string | null;
+  monthlyRemaining: string | null;
+  onExceeded: OverBudgetAction;
+  /** True when the team has its own caps rather than the gateway defaults. */
+  custom: boolean;
+  resetsAt: { daily: string; monthly: string };
+}
+
+const WEI = /^\d+$/;
+const ACTIONS: readonly OverBudgetAction[] = ['reject', 'queue'];
+
+export function nextDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1));
+}
+
+export function nextMonth(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+function remaining(limit: string | null, spent: bigint): string | null {
+  if (limit === null) return null;
+  const left = BigInt(limit) - spent;
+  return (left > 0n ? left : 0n).toString();
+}
+
+export class SpendGuard {
+  constructor(private store: SpendStore, private config: SpendConfig) {}
+
+  /** The caps that apply to an owner: its override, else the defaults. */
+  async limitsFor(ownerKey: string): Promise<Omit<SpendLimits, 'updatedBy' | 'updatedAt'> & { custom: boolean }> {
+    const limits = await this.store.getLimits(ownerKey);
+    if (limits) return { ...limits, custom: true };
+    return { ownerKey, ...this.config, custom: false };
+  }
+
+  /** Set an owner's caps. Omitted fields keep their current value; null uncaps. */
+  async setLimits(
+    ownerKey: string,
+    input: { dailyLimit?: unknown; monthlyLimit?: unknown; onExceeded?: unknown },
+    updatedBy: string | null
+  ): Promise<SpendLimits> {
+    const current = await this.limitsFor(ownerKey);
+    const limit = (value: unknown, field: string, fallback: string | null): string | null => {
+      if (value === undefined) return fallback;
+      if (value === null) return null;
+      const wei = String(value);
+      if (!WEI.test(wei)) throw new SpendError('BAD_REQUEST', `${field} must be a whole number of wei, or null`);
+      return wei;
+    };
+    if (input.onExceeded !== undefined && !ACTIONS.includes(input.onExceeded as OverBudgetAction)) {
+      throw new SpendError('BAD_REQUEST', `onExceeded must be one of: ${ACTIONS.join(', ')}`);
+    }
+
+    return this.store.setLimits({
+      ownerKey,
+      dailyLimit: limit(input.dailyLimit, 'dailyLimit', current.dailyLimit),
+      monthlyLimit: limit(input.monthlyLimit, 'monthlyLimit', current.monthlyLimit),
+      onExceeded: (input.onExceeded as OverBudgetAction | undefined) ?? current.onExceeded,
+      updatedBy,
+    });
+  }
+
+  /** Remove an owner's override. False when it had none. */
+  resetLimits(ownerKey: string): Promise<boolean> {
+    return this.store.deleteLimits(ownerKey);
+  }
+
+  async usage(ownerKey: string, now = new Date()): Promise<SpendUsage> {
+    const [limits, totals] = await Promise.all([this.limitsFor(ownerKey), this.store.totals(ownerKey, dayKey(now))]);
+    return {
+      ownerKey,
+      day: totals.day,
+      daySpent: totals.daySpent.toString(),
+      monthSpent: totals.monthSpent.toString(),
+      dayRequests: totals.dayRequests,
+      dailyLimit: limits.dailyLimit,
+      monthlyLimit: limits.monthlyLimit,
+      dailyRemaining: remaining(limits.dailyLimit, totals.daySpent),
+      monthlyRemaining: remaining(limits.monthlyLimit, totals.monthSpent),
+      onExceeded: limits.onExceeded,
+      custom: limits.custom,
+      resetsAt: { daily: nextDay(now).toISOString(), monthly: nextMonth(now).toISOString() },
+    };
+  }
+
+  /**
+   * Which cap (if any) the estimate would exceed, without reserving it.
+   * Used by the estimate endpoint.
+   */
+  async check(ownerKey: string, estimate: CostEstimate, at = new Date()): Promise<BudgetExceeded | null> {
+    const amount = BigInt(estimate.cost);
+    const [limits, totals] = await Promise.all([this.limitsFor(ownerKey), this.store.totals(ownerKey, dayKey(at))]);
+    return exceeded(limits, totals.daySpent, totals.monthSpent, amount, at);
+  }
+
+  /**
+   * Reserve the estimated cost in the window containing `at` (now, or the
+   * start of a later window for queued work). Throws SPEND_LIMIT_EXCEEDED
+   * when it does not fit.
+   */
+  async reserve(ownerKey: string, estimate: CostEstimate, at = new Date()): Promise<SpendReservation> {
+    const amount = BigInt(estimate.cost);
+    const day = dayKey(at);
+    if (amount === 0n) return { ownerKey, day, amount };
+
+    const limits = await this.limitsFor(ownerKey);
+    const caps: SpendCaps = {
+      daily: limits.dailyLimit === null ? null : BigInt(limits.dailyLimit),
+      monthly: limits.monthlyLimit === null ? null : BigInt(limits.monthlyLimit),
+    };
+    const { charged, totals } = await this.store.charge(ownerKey, day, amount, caps);
+    if (!charged) {
+      const details = exceeded(limits, totals.daySpent, totals.monthSpent, amount, at)!;
+      throw new SpendError(
+        'SPEND_LIMIT_EXCEEDED',
+        `Estimated cost ${estimate.cost} wei exceeds the remaining ${details.window} budget ` +
+          `(${remaining(details.limit, BigInt(details.spent))} of ${details.limit} wei)`,
+        details
+      );
+    }
+    return { ownerKey, day, amount };
+  }
+
+  /** Replace the reserved estimate with what the request actually cost. */
+  async settle(reservation: SpendReservation, actualCost: string): Promise<void> {
+    const delta = BigInt(actualCost) - reservation.amount;
+    if (delta !== 0n) await this.store.adjust(reservation.ownerKey, reservation.day, delta);
+  }
+
+  /** Give back a reservation for a request that did not run. */
+  async release(reservation: SpendReservation): Promise<void> {
+    if (reservation.amount > 0n) await this.store.adjust(reservation.ownerKey, reservation.day, -reservation.amount);
+  }
+
+  /** Drop day totals from before last month. */
+  prune(now = new Date()): Promise<number> {
+    return this.store.prune(dayKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))));
+  }
+}
+
+function exceeded(
+  limits: { dailyLimit: string | null; monthlyLimit: string | null; onExceeded: OverBudgetAction },
+  daySpent: bigint,
+  monthSpent: bigint,
+  amount: bigint,
+  at: Date
+): BudgetExceeded | null {
+  // The monthly cap wins: waiting for tomorrow does not help when the month is spent
+  if (limits.monthlyLimit !== null && monthSpent + amount > BigInt(limits.monthlyLimit)) {
+    return {
+      window: 'monthly',
+      limit: limits.monthlyLimit,
+      spent: monthSpent.toString(),
+      estimate: amount.toString(),
+      resetsAt: nextMonth(at).toISOString(),
+      onExceeded: limits.onExceeded,
+    };
+  }
+  if (limits.dailyLimit !== null && daySpent + amount > BigInt(limits.dailyLimit)) {
+    return {
+      window: 'daily',
+      limit: limits.dailyLimit,
+      spent: daySpent.toString(),
+      estimate: amount.toString(),
+      resetsAt: nextDay(at).toISOString(),
+      onExceeded: limits.onExceeded,
+    };
+  }
+  return null;
+}
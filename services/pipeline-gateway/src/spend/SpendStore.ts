@@ -0,0 +1,148 @@
+/**
+ * Spend Store
+ *
+ * Persistence contract for pipeline spend caps. Spend is kept as one
+ * running total per owner per UTC day (wei strings, like every other
+ * on-chain amount in the schema); the monthly total is the sum of that
+ * month's days. `PrismaSpendStore` keeps it in Postgres so the caps hold
+ * across gateway replicas; `MemorySpendStore` is the single-process
+ * fallback used when no database is configured (local development).
+ *
+ * `charge` checks and adds in one step, so concurrent requests for one
+ * team cannot both squeeze under the same remaining budget.
+ */
+
+export type OverBudgetAction = 'reject' | 'queue';
+
+export interface SpendLimits {
+  /** Budget bucket: teamId, else userId, else "anonymous". */
+  ownerKey: string;
+  /** Daily cap in wei; null = uncapped. */
+  dailyLimit: string | null;
+  /** Monthly cap in wei; null = uncapped. */
+  monthlyLimit: string | null;
+  onExceeded: OverBudgetAction;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+export type SpendLimitsInput = Omit<SpendLimits, 'updatedAt'>;
+
+export interface SpendTotals {
+  /** UTC day, YYYY-MM-DD. */
+  day: string;
+  daySpent: bigint;
+  /** Total of the month `day` falls in. */
+  monthSpent: bigint;
+  dayRequests: number;
+}
+
+export interface SpendCaps {
+  daily: bigint | null;
+  monthly: bigint | null;
+}
+
+export interface SpendStore {
+  getLimits(ownerKey: string): Promise<SpendLimits | null>;
+  setLimits(limits: SpendLimitsInput): Promise<SpendLimits>;
+  /** Drop an owner's override so the gateway defaults apply again. */
+  deleteLimits(ownerKey: string): Promise<boolean>;
+  totals(ownerKey: string, day: string): Promise<SpendTotals>;
+  /**
+   * Add `amount` to the owner's day when neither the day nor the month
+   * total would pass its cap. Returns the totals as they were before.
+   */
+  charge(ownerKey: string, day: string, amount: bigint, caps: SpendCaps): Promise<{ charged: boolean; totals: SpendTotals }>;
+  /** Correct a day's total once the real cost is known (never below zero). */
+  adjust(ownerKey: string, day: string, delta: bigint): Promise<void>;
+  /** Delete day totals before `day`. */
+  prune(day: string): Promise<number>;
+}
+
+/** UTC day key for a timestamp. */
+export function dayKey(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+export function withinCaps(totals: SpendTotals, amount: bigint, caps: SpendCaps): boolean {
+  if (caps.daily !== null && totals.daySpent + amount > caps.daily) return false;
+  if (caps.monthly !== null && totals.monthSpent + amount > caps.monthly) return false;
+  return true;
+}
+
+interface DayTotal {
+  spent: bigint;
+  requests: number;
+}
+
+export class MemorySpendStore implements SpendStore {
+  private limits = new Map<string, SpendLimits>();
+  /** ownerKey → day → total */
+  private days = new Map<string, Map<string, DayTotal>>();
+
+  async getLimits(ownerKey: string): Promise<SpendLimits | null> {
+    return this.limits.get(ownerKey) ?? null;
+  }
+
+  async setLimits(input: SpendLimitsInput): Promise<SpendLimits> {
+    const limits = { ...input, updatedAt: new Date() };
+    this.limits.set(input.ownerKey, limits);
+    return limits;
+  }
+
+  async deleteLimits(ownerKey: string): Promise<boolean> {
+    return this.limits.delete(ownerKey);
+  }
+
+  async totals(ownerKey: string, day: string): Promise<SpendTotals> {
+    const days = this.days.get(ownerKey);
+    const month = day.slice(0, 7);
+    let monthSpent = 0n;
+    for (const [key, total] of days ?? []) {
+      if (key.startsWith(month)) monthSpent += total.spent;
+    }
+    const today = days?.get(day);
+    return { day, daySpent: today?.spent ?? 0n, monthSpent, dayRequests: today?.requests ?? 0 };
+  }
+
+  async charge(ownerKey: string, day: string, amount: bigint, caps: SpendCaps): Promise<{ charged: boolean; totals: SpendTotals }> {
+    const totals = await this.totals(ownerKey, day);
+    if (!withinCaps(totals, amount, caps)) return { charged: false, totals };
+    const total = this.day(ownerKey, day);
+    total.spent += amount;
+    total.requests++;
+    return { charged: true, totals };
+  }
+
+  async adjust(ownerKey: string, day: string, delta: bigint): Promise<void> {
+    const total = this.day(ownerKey, day);
+    total.spent = total.spent + delta > 0n ? total.spent + delta : 0n;
+  }
+
+  async prune(day: string): Promise<number> {
+    let removed = 0;
+    for (const days of this.days.values()) {
+      for (const key of days.keys()) {
+        if (key < day) {
+          days.delete(key);
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  private day(ownerKey: string, day: string): DayTotal {
+    let days = this.days.get(ownerKey);
+    if (!days) {
+      days = new Map();
+      this.days.set(ownerKey, days);
+    }
+    let total = days.get(day);
+    if (!total) {
+      total = { spent: 0n, requests: 0 };
+      days.set(day, total);
+    }
+    return total;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * SpendGuard Tests
+ * Reserving estimates against caps, settling to real cost and releasing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpendGuard, SpendError } from '../SpendGuard.js';
+import { MemorySpendStore } from '../SpendStore.js';
+import type { CostEstimate } from '../estimate.js';
+
+function estimate(cost: string): CostEstimate {
+  return { pipeline: 'llm', model: 'm', priced: true, unit: 'token', units: 1, pricePerUnit: cost, cost, basis: {} };
+}
+
+const owner = 'team:t1';
+const at = new Date('2026-10-19T12:00:00Z');
+
+describe('SpendGuard', () => {
+  let guard: SpendGuard;
+
+  beforeEach(() => {
+    guard = new SpendGuard(new MemorySpendStore(), { dailyLimit: '1000', monthlyLimit: null, onExceeded: 'reject' });
+  });
+
+  it('reserves estimates until the daily cap is reached', async () => {
+    await guard.reserve(owner, estimate('600'), at);
+
+    const err = await guard.reserve(owner, estimate('500'), at).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(SpendError);
+    expect((err as SpendError).details).toMatchObject({
+      window: 'daily',
+      spent: '600',
+      resetsAt: '2026-10-20T00:00:00.000Z',
+    });
+    expect((await guard.usage(owner, at)).daySpent).toBe('600');
+  });
+
+  it('settles reservations to the real cost and releases failed ones', async () => {
+    const settled = await guard.reserve(owner, estimate('600'), at);
+    const released = await guard.reserve(owner, estimate('300'), at);
+
+    await guard.settle(settled, '200');
+    await guard.release(released);
+
+    const usage = await guard.usage(owner, at);
+    expect(usage.daySpent).toBe('200');
+    expect(usage.dailyRemaining).toBe('800');
+  });
+
+  it('lets the monthly cap win over the daily one', async () => {
+    await guard.setLimits(owner, { dailyLimit: '1000', monthlyLimit: '700' }, 'admin');
+    await guard.reserve(owner, estimate('600'), at);
+
+    expect(await guard.check(owner, estimate('200'), at)).toMatchObject({
+      window: 'monthly',
+      resetsAt: '2026-11-01T00:00:00.000Z',
+    });
+  });
+
+  it('keeps caps per owner and validates overrides', async () => {
+    await guard.setLimits(owner, { dailyLimit: null }, 'admin');
+    await guard.reserve(owner, estimate('5000'), at);
+
+    await expect(guard.reserve('team:t2', estimate('5000'), at)).rejects.toBeInstanceOf(SpendError);
+    await expect(guard.setLimits(owner, { dailyLimit: '1.5' }, 'admin')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect((await guard.usage(owner, at)).custom).toBe(true);
+
+    await guard.resetLimits(owner);
+    expect((await guard.usage(owner, at)).dailyLimit).toBe('1000');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Cost Estimation
+ *
+ * Pre-flight estimate of what a pipeline request will cost, from the
+ * pricing attached to its descriptor. Prices are wei per unit; the number
+ * of units is derived from the request body:
+ *
+ *   pixel    width × height × inference steps × outputs (images or frames)
+ *   token    max_tokens plus a rough count of the prompt tokens
+ *   second   the request's `duration` (or the pipeline default)
+ *   request  1
+ *
+ * Fields the caller leaves out take the ai-runner defaults, so an estimate
+ * for `{ prompt }` prices what the orchestrator will actually render.
+ */
+
+import type { PipelineDescriptor, PricingInfo } from '@naap/livepeer-pipeline';
+
+export interface CostEstimate {
+  pipeline: string;
+  model: string;
+  /** False when the pipeline has no pricing; cost is then 0. */
+  priced: boolean;
+  unit: PricingInfo['unit'];
+  units: number;
+  /** Wei per unit, as configured. */
+  pricePerUnit: string;
+  /** Estimated cost in wei (rounded up). */
+  cost: string;
+  /** Request values the unit count was derived from. */
+  basis: Record<string, number>;
+}
+
+interface PixelDefaults {
+  width: number;
+  height: number;
+  steps: number;
+  /** Output frames for video pipelines. */
+  frames?: number;
+}
+
+// ai-runner defaults for the fields that drive pixel pricing
+const PIXEL_DEFAULTS: Record<string, PixelDefaults> = {
+  'text-to-image': { width: 1024, height: 1024, steps: 50 },
+  'image-to-image': { width: 1024, height: 1024, steps: 100 },
+  'image-to-video': { width: 1024, height: 576, steps: 25, frames: 25 },
+  upscale: { width: 1024, height: 1024, steps: 75 },
+};
+const FALLBACK_PIXELS: PixelDefaults = { width: 1024, height: 1024, steps: 1 };
+
+const DEFAULT_MAX_TOKENS = 256;
+const DEFAULT_SECONDS = 60;
+/** Rough characters per token for prompt text. */
+const CHARS_PER_TOKEN = 4;
+
+function positive(value: unknown, fallback: number): number {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** The price for the requested model, else the pipeline-wide ('*') price, else the first listed. */
+export function selectPricing(pricing: PricingInfo[], model: string | undefined): PricingInfo | null {
+  return (
+    (model ? pricing.find((p) => p.model === model) : undefined) ??
+    pricing.find((p) => p.model === '*' || p.model === 'default') ??
+    pricing[0] ??
+    null
+  );
+}
+
+function countUnits(unit: PricingInfo['unit'], pipeline: string, body: Record<string, unknown>): {
+  units: number;
+  basis: Record<string, number>;
+} {
+  switch (unit) {
+    case 'pixel': {
+      const defaults = PIXEL_DEFAULTS[pipeline] ?? FALLBACK_PIXELS;
+      const width = positive(body.width, defaults.width);
+      const height = positive(body.height, defaults.height);
+      const steps = positive(body.num_inference_steps, defaults.steps);
+      const outputs = defaults.frames ?? positive(body.num_images_per_prompt, 1);
+      return { units: width * height * steps * outputs, basis: { width, height, steps, outputs } };
+    }
+    case 'token': {
+      const maxTokens = positive(body.max_tokens, DEFAULT_MAX_TOKENS);
+      const messages = Array.isArray(body.messages) ? body.messages : [];
+      const chars = messages.reduce<number>(
+        (sum, m) => sum + (typeof m?.content === 'string' ? m.content.length : 0),
+        typeof body.prompt === 'string' ? body.prompt.length : 0
+      );
+      const promptTokens = Math.ceil(chars / CHARS_PER_TOKEN);
+      return { units: maxTokens + promptTokens, basis: { maxTokens, promptTokens } };
+    }
+    case 'second': {
+      const seconds = positive(body.duration, DEFAULT_SECONDS);
+      return { units: Math.ceil(seconds), basis: { seconds } };
+    }
+    default:
+      return { units: 1, basis: {} };
+  }
+}
+
+/**
+ * Multiply a decimal wei price ("4768.37") by a whole number of units,
+ * rounding any fractional wei up.
+ */
+export function priceUnits(pricePerUnit: string, units: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(pricePerUnit.trim());
+  if (!match) throw new Error(`Invalid price '${pricePerUnit}'`);
+  const [, whole, fraction = ''] = match;
+  const scale = 10n ** BigInt(fraction.length);
+  const scaled = BigInt(whole + fraction) * BigInt(Math.ceil(units));
+  return (scaled + scale - 1n) / scale;
+}
+
+/** Estimate the cost of running `body` through `pipeline`. */
+export function estimateCost(pipeline: Pick<PipelineDescriptor, 'name' | 'pricing'>, body: Record<string, unknown>): CostEstimate {
+  const model = String(body.model_id ?? body.model ?? 'default');
+  const pricing = selectPricing(pipeline.pricing, model);
+  const unit = pricing?.unit ?? 'request';
+  const { units, basis } = countUnits(unit, pipeline.name, body);
+
+  return {
+    pipeline: pipeline.name,
+    model,
+    priced: pricing !== null,
+    unit,
+    units,
+    pricePerUnit: pricing?.pricePerUnit ?? '0',
+    cost: pricing ? priceUnits(pricing.pricePerUnit, units).toString() : '0',
+    basis,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Pipeline Spend Index
+ *
+ * Re-exports cost estimation and the spend guard, and picks the guard's
+ * store: Postgres when a database URL is configured, otherwise the
+ * in-memory fallback.
+ */
+
+import { hasDatabase, loadPrisma } from '../database.js';
+import { MemorySpendStore, type SpendStore } from './SpendStore.js';
+
+export { estimateCost, priceUnits, selectPricing } from './estimate.js';
+export type { CostEstimate } from './estimate.js';
+export { parsePricingConfig, byocPricing } from './pricing.js';
+export { SpendGuard, SpendError, nextDay, nextMonth } from './SpendGuard.js';
+export type {
+  BudgetExceeded,
+  SpendConfig,
+  SpendErrorCode,
+  SpendReservation,
+  SpendUsage,
+  SpendWindow,
+} from './SpendGuard.js';
+export { MemorySpendStore, dayKey } from './SpendStore.js';
+export type { OverBudgetAction, SpendCaps, SpendLimits, SpendStore, SpendTotals } from './SpendStore.js';
+
+export async function createSpendStore(): Promise<SpendStore> {
+  if (!hasDatabase()) {
+    console.warn('[pipeline-gateway] No database configured; pipeline spend is tracked in memory and lost on restart');
+    return new MemorySpendStore();
+  }
+  const [prisma, { PrismaSpendStore }] = await Promise.all([loadPrisma(), import('./PrismaSpendStore.js')]);
+  return new PrismaSpendStore(prisma);
+}
@@ -0,0 +1,72 @@
+/**
+ * Pipeline Pricing
+ *
+ * go-livepeer's capability list carries no prices, so the operator sets
+ * them in PIPELINE_PRICING (JSON, wei per unit):
+ *
+ *   {
+ *     "text-to-image": [{ "model": "*", "unit": "pixel", "pricePerUnit": "0.0008" }],
+ *     "llm": [{ "model": "meta-llama/Meta-Llama-3.1-8B-Instruct", "unit": "token", "pricePerUnit": "40000000" }]
+ *   }
+ *
+ * BYOC capabilities price themselves per request at registration.
+ */
+
+import type { PricingInfo } from '@naap/livepeer-pipeline';
+import type { ByocPricing } from '../byoc/index.js';
+
+const UNITS: readonly PricingInfo['unit'][] = ['pixel', 'token', 'second', 'request'];
+const PRICE = /^\d+(\.\d+)?$/;
+
+/** Parse PIPELINE_PRICING, dropping (and logging) malformed entries. */
+export function parsePricingConfig(raw: string | undefined): Record<string, PricingInfo[]> {
+  if (!raw?.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    console.warn('[pipeline-gateway] PIPELINE_PRICING is not valid JSON; pipelines are unpriced:', err);
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    console.warn('[pipeline-gateway] PIPELINE_PRICING must map pipeline names to price lists');
+    return {};
+  }
+
+  const pricing: Record<string, PricingInfo[]> = {};
+  for (const [pipeline, entries] of Object.entries(parsed)) {
+    const valid = (Array.isArray(entries) ? entries : [entries]).filter((entry): entry is PricingInfo => {
+      const ok =
+        typeof entry?.model === 'string' &&
+        UNITS.includes(entry.unit) &&
+        PRICE.test(String(entry.pricePerUnit ?? ''));
+      if (!ok) console.warn(`[pipeline-gateway] Ignoring invalid PIPELINE_PRICING entry for '${pipeline}':`, entry);
+      return ok;
+    });
+    if (valid.length > 0) {
+      pricing[pipeline] = valid.map(({ model, unit, pricePerUnit }) => ({ model, unit, pricePerUnit: String(pricePerUnit) }));
+    }
+  }
+  return pricing;
+}
+
+/**
+ * A BYOC capability's registered price as a per-request PricingInfo.
+ * Only wei and ETH prices are usable; other currencies cannot be compared
+ * against a wei budget, so those capabilities stay unpriced.
+ */
+export function byocPricing(pricing: ByocPricing | undefined): PricingInfo[] {
+  if (!pricing || !Number.isFinite(pricing.unitPrice) || pricing.unitPrice < 0) return [];
+  const currency = pricing.currency.toLowerCase();
+  let wei: string;
+  if (currency === 'wei') {
+    wei = BigInt(Math.ceil(pricing.unitPrice)).toString();
+  } else if (currency === 'eth') {
+    // gwei precision keeps the float multiplication exact enough
+    wei = (BigInt(Math.ceil(pricing.unitPrice * 1e9)) * 10n ** 9n).toString();
+  } else {
+    return [];
+  }
+  return [{ model: pricing.model || '*', unit: 'request', pricePerUnit: wei }];
+}
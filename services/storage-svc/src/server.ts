@@ -56,6 +56,9 @@ const upload = multer({
 const ALLOWED_EXTENSIONS = ['.js', '.json', '.css', '.map', '.woff', '.woff2', '.png', '.jpg', '.svg', '.ico'];
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
+// Content types accepted for cached pipeline outputs
+const PIPELINE_CACHE_TYPES = ['image/', 'audio/', 'video/', 'application/octet-stream'];
+
 function validateFilename(filename: string): boolean {
   const ext = path.extname(filename).toLowerCase();
   return ALLOWED_EXTENSIONS.includes(ext);
@@ -181,6 +184,45 @@ app.post('/api/v1/storage/plugins/:name/:version/bundle', upload.array('files',
   }
 });
 
+/**
+ * Store a pipeline output for the gateway's result cache
+ * POST /api/v1/storage/pipeline-cache
+ *
+ * Content-addressed: the path is the SHA-256 of the bytes, so identical
+ * outputs are stored once and re-uploads are no-ops.
+ */
+app.post('/api/v1/storage/pipeline-cache', upload.single('file'), async (req, res) => {
+  try {
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file provided' });
+    }
+
+    if (!PIPELINE_CACHE_TYPES.some((prefix) => file.mimetype.startsWith(prefix))) {
+      return res.status(400).json({ error: `Invalid content type: ${file.mimetype}` });
+    }
+
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    const storagePath = `pipeline-cache/${checksum}`;
+
+    const url = (await storage.exists(storagePath))
+      ? storage.getUrl(storagePath)
+      : await storage.upload(file.buffer, storagePath, file.mimetype);
+
+    res.status(201).json({
+      url,
+      path: storagePath,
+      size: file.size,
+      contentType: file.mimetype,
+      checksum,
+    });
+  } catch (error) {
+    console.error('Pipeline cache upload error:', error);
+    res.status(500).json({ error: 'Upload failed' });
+  }
+});
+
 // ============================================
 // Download / Access Endpoints
 // ============================================